@@ -39,16 +39,22 @@ import History from "./pages/History";
 import Profile from "./pages/Profile";
 import EditProfile from "./pages/EditProfile";
 import Security from "./pages/Security";
+import ApiKeys from "./pages/ApiKeys";
+import Webhooks from "./pages/Webhooks";
 import Support from "./pages/Support";
 import Settings from "./pages/Settings";
 import Referral from "./pages/Referral";
 import Data from "./pages/Data";
 import Airtime from "./pages/Airtime";
+import BulkPurchase from "./pages/BulkPurchase";
+import ScheduledPurchases from "./pages/ScheduledPurchases";
+import AutoTopup from "./pages/AutoTopup";
 import Electricity from "./pages/Electricity";
 import TV from "./pages/TV";
 import Transfer from "./pages/Transfer";
 import AddMoney from "./pages/AddMoney";
 import BvnNin from "./pages/BvnNin";
+import AirtimeToCash from "./pages/AirtimeToCash";
 import Notifications from "./pages/Notifications";
 import Website from "./pages/Website";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
@@ -65,9 +71,15 @@ import AdminUsers from "./pages/admin/AdminUsers";
 import AdminTransactions from "./pages/admin/AdminTransactions";
 import AdminDataPlans from "./pages/admin/AdminDataPlans";
 import AdminAirtimePlans from "./pages/admin/AdminAirtimePlans";
+import AdminTiers from "./pages/admin/AdminTiers";
 import AdminSettings from "./pages/admin/AdminSettings";
 import AdminNotifications from "./pages/admin/AdminNotifications";
 import AdminReferrals from "./pages/admin/AdminReferrals";
+import AdminWebhooks from "./pages/admin/AdminWebhooks";
+import AdminAuditLog from "./pages/admin/AdminAuditLog";
+import AdminAccountDeletions from "./pages/admin/AdminAccountDeletions";
+import AdminAirtimeToCash from "./pages/admin/AdminAirtimeToCash";
+import AdminAirtimeCashSettings from "./pages/admin/AdminAirtimeCashSettings";
 
 
 // Configure QueryClient with offline-first caching
@@ -216,6 +228,22 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/api-keys"
+        element={
+          <ProtectedRoute>
+            <ApiKeys />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/webhooks"
+        element={
+          <ProtectedRoute>
+            <Webhooks />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/support"
         element={
@@ -256,6 +284,30 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/bulk"
+        element={
+          <ProtectedRoute>
+            <BulkPurchase />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/schedules"
+        element={
+          <ProtectedRoute>
+            <ScheduledPurchases />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/auto-topup"
+        element={
+          <ProtectedRoute>
+            <AutoTopup />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/electricity"
         element={
@@ -296,6 +348,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/airtime-to-cash"
+        element={
+          <ProtectedRoute>
+            <AirtimeToCash />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/notifications"
         element={
@@ -320,8 +380,14 @@ function AppRoutes() {
       <Route path="/admin/transactions" element={<AdminTransactions />} />
       <Route path="/admin/data-plans" element={<AdminDataPlans />} />
       <Route path="/admin/airtime-plans" element={<AdminAirtimePlans />} />
+      <Route path="/admin/tiers" element={<AdminTiers />} />
       <Route path="/admin/notifications" element={<AdminNotifications />} />
       <Route path="/admin/referrals" element={<AdminReferrals />} />
+      <Route path="/admin/webhooks" element={<AdminWebhooks />} />
+      <Route path="/admin/audit-log" element={<AdminAuditLog />} />
+      <Route path="/admin/account-deletions" element={<AdminAccountDeletions />} />
+      <Route path="/admin/airtime-to-cash" element={<AdminAirtimeToCash />} />
+      <Route path="/admin/airtime-to-cash/settings" element={<AdminAirtimeCashSettings />} />
       <Route path="/admin/settings" element={<AdminSettings />} />
       
       <Route path="*" element={<NotFound />} />
@@ -3,6 +3,7 @@ import { useCallback, useState } from 'react';
 import { Contacts } from '@capacitor-community/contacts';
 import { UserRound, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { normalizeNigerianPhone } from '@/lib/phone';
 
 interface PickedContact {
   phone: string;
@@ -15,25 +16,6 @@ interface ContactPickerButtonProps {
   label?: string;
 }
 
-/**
- * Normalize a Nigerian phone number to 11 digits starting with 0.
- * Accepts +234..., 234..., 0..., with spaces/dashes.
- */
-function normalizeNigerianPhone(raw: string): string | null {
-  const digits = (raw || '').replace(/\D/g, '');
-  if (!digits) return null;
-
-  let local = digits;
-  if (local.startsWith('234')) {
-    local = '0' + local.slice(3);
-  } else if (!local.startsWith('0') && local.length === 10) {
-    local = '0' + local;
-  }
-
-  if (local.length === 11 && local.startsWith('0')) return local;
-  return null;
-}
-
 export function ContactPickerButton({
   onPick,
   className = '',
@@ -0,0 +1,51 @@
+import { AlertTriangle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+interface PortedNumberNoticeProps {
+  /** Network the number's prefix belongs to */
+  detectedNetwork: string;
+  /** Network the user chose */
+  network: string;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+  onSwitchNetwork?: () => void;
+}
+
+/** Warns that a number's prefix belongs to another network and asks whether it was ported */
+export function PortedNumberNotice({
+  detectedNetwork,
+  network,
+  confirmed,
+  onConfirmedChange,
+  onSwitchNetwork,
+}: PortedNumberNoticeProps) {
+  return (
+    <div className="mt-2 rounded-xl border border-amber-500/30 bg-amber-500/10 p-3 space-y-2">
+      <p className="text-xs text-amber-700 dark:text-amber-400 flex items-start gap-1.5">
+        <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+        <span>
+          This looks like a {detectedNetwork.toUpperCase()} number, but {network.toUpperCase()} is selected.
+          {onSwitchNetwork && (
+            <>
+              {' '}
+              <button type="button" onClick={onSwitchNetwork} className="font-semibold underline">
+                Switch to {detectedNetwork.toUpperCase()}
+              </button>
+            </>
+          )}
+        </span>
+      </p>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="ported-number"
+          checked={confirmed}
+          onCheckedChange={(checked) => onConfirmedChange(checked === true)}
+        />
+        <Label htmlFor="ported-number" className="text-xs font-normal">
+          This number was ported to {network.toUpperCase()}
+        </Label>
+      </div>
+    </div>
+  );
+}
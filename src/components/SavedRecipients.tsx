@@ -1,49 +1,154 @@
-import { X } from 'lucide-react';
-import { SavedRecipient } from '@/hooks/useRecentRecipients';
+import { useState } from 'react';
+import { X, Star, Pencil, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Beneficiary } from '@/hooks/useBeneficiaries';
 
 interface SavedRecipientsProps {
-  recipients: SavedRecipient[];
-  onSelect: (phone: string) => void;
-  onRemove: (phone: string) => void;
+  recipients: Beneficiary[];
+  onSelect: (recipient: Beneficiary) => void;
+  onRemove: (recipient: Beneficiary) => void;
+  onUpdate?: (recipient: Beneficiary, changes: { nickname?: string | null; is_favorite?: boolean }) => void;
+  /** Describes the recipient's last purchase on this service, or null when there is nothing to repeat */
+  repeatLabel?: (recipient: Beneficiary) => string | null;
+  onRepeat?: (recipient: Beneficiary) => void;
+  /** Only list the recipients that can be bought for again */
+  repeatOnly?: boolean;
+  title?: string;
 }
 
-export function SavedRecipients({ recipients, onSelect, onRemove }: SavedRecipientsProps) {
-  if (recipients.length === 0) return null;
+const MAX_REPEATS = 3;
+
+export function SavedRecipients({
+  recipients,
+  onSelect,
+  onRemove,
+  onUpdate,
+  repeatLabel,
+  onRepeat,
+  repeatOnly = false,
+  title = 'Saved numbers',
+}: SavedRecipientsProps) {
+  const [renaming, setRenaming] = useState<Beneficiary | null>(null);
+  const [nickname, setNickname] = useState('');
+
+  const nameOf = (r: Beneficiary) => r.nickname || r.customer_name;
+  const repeats = onRepeat && repeatLabel
+    ? recipients.filter((r) => repeatLabel(r)).slice(0, MAX_REPEATS)
+    : [];
+
+  if (recipients.length === 0 || (repeatOnly && repeats.length === 0)) return null;
+
+  const startRename = (r: Beneficiary) => {
+    setNickname(r.nickname ?? '');
+    setRenaming(r);
+  };
+
+  const saveRename = () => {
+    if (renaming) onUpdate?.(renaming, { nickname: nickname.trim() || null });
+    setRenaming(null);
+  };
 
   return (
     <div className="mt-3">
-      <p className="text-xs text-muted-foreground mb-2">Recent numbers</p>
-      <div className="flex flex-wrap gap-2">
-        {recipients.map((r) => (
-          <div
-            key={r.phone}
-            className="inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-card border border-border shadow-sm"
-          >
+      {repeats.length > 0 && (
+        <div className="mb-3 space-y-2">
+          <p className="text-xs text-muted-foreground">Buy again</p>
+          {repeats.map((r) => (
             <button
+              key={r.id}
               type="button"
-              onClick={() => onSelect(r.phone)}
-              className="text-xs font-medium text-foreground"
+              onClick={() => onRepeat?.(r)}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-primary/5 border border-primary/20 text-left"
             >
-              {r.name ? (
-                <span>
-                  <span className="font-semibold">{r.name}</span>{' '}
-                  <span className="text-muted-foreground">{r.phone}</span>
-                </span>
-              ) : (
-                r.phone
-              )}
-            </button>
-            <button
-              type="button"
-              onClick={() => onRemove(r.phone)}
-              className="w-5 h-5 rounded-full flex items-center justify-center text-muted-foreground hover:bg-muted"
-              aria-label="Remove"
-            >
-              <X className="w-3 h-3" />
+              <span className="min-w-0 text-xs">
+                <span className="font-semibold text-foreground">{nameOf(r) || r.value}</span>{' '}
+                <span className="text-muted-foreground">{repeatLabel?.(r)}</span>
+              </span>
+              <RotateCw className="w-3.5 h-3.5 text-primary shrink-0" />
             </button>
+          ))}
+        </div>
+      )}
+
+      {!repeatOnly && (
+        <div>
+          <p className="text-xs text-muted-foreground mb-2">{title}</p>
+          <div className="flex flex-wrap gap-2">
+            {recipients.map((r) => (
+              <div
+                key={r.id}
+                className="inline-flex items-center gap-1 pl-1 pr-1 py-1 rounded-full bg-card border border-border shadow-sm"
+              >
+                {onUpdate && (
+                  <button
+                    type="button"
+                    onClick={() => onUpdate(r, { is_favorite: !r.is_favorite })}
+                    className="w-5 h-5 rounded-full flex items-center justify-center"
+                    aria-label={r.is_favorite ? 'Remove from favourites' : 'Add to favourites'}
+                  >
+                    <Star className={`w-3 h-3 ${r.is_favorite ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground'}`} />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onSelect(r)}
+                  className="text-xs font-medium text-foreground pl-1"
+                >
+                  {nameOf(r) ? (
+                    <span>
+                      <span className="font-semibold">{nameOf(r)}</span>{' '}
+                      <span className="text-muted-foreground">{r.value}</span>
+                    </span>
+                  ) : (
+                    r.value
+                  )}
+                </button>
+                {onUpdate && (
+                  <button
+                    type="button"
+                    onClick={() => startRename(r)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center text-muted-foreground hover:bg-muted"
+                    aria-label="Rename"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemove(r)}
+                  className="w-5 h-5 rounded-full flex items-center justify-center text-muted-foreground hover:bg-muted"
+                  aria-label="Remove"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </div>
+      )}
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nickname</DialogTitle>
+            <DialogDescription>
+              {renaming?.customer_name ? `${renaming.customer_name} · ${renaming.value}` : renaming?.value}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            placeholder="e.g. Mum, Office meter"
+            maxLength={40}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button onClick={saveRename}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -11,7 +11,12 @@ import {
   X,
   Settings,
   Bell,
-  Gift
+  Gift,
+  Webhook,
+  Layers,
+  ScrollText,
+  UserX,
+  Banknote
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
@@ -28,8 +33,13 @@ const navItems = [
   { href: '/admin/transactions', icon: Receipt, label: 'Transactions' },
   { href: '/admin/data-plans', icon: Database, label: 'Data Plans' },
   { href: '/admin/airtime-plans', icon: Phone, label: 'Airtime Plans' },
+  { href: '/admin/tiers', icon: Layers, label: 'User Tiers' },
   { href: '/admin/referrals', icon: Gift, label: 'Referrals' },
+  { href: '/admin/airtime-to-cash', icon: Banknote, label: 'Airtime to Cash' },
+  { href: '/admin/account-deletions', icon: UserX, label: 'Deletions' },
   { href: '/admin/notifications', icon: Bell, label: 'Notifications' },
+  { href: '/admin/webhooks', icon: Webhook, label: 'Webhooks' },
+  { href: '/admin/audit-log', icon: ScrollText, label: 'Audit Log' },
   { href: '/admin/settings', icon: Settings, label: 'Settings' },
 ];
 
@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, Loader2, RefreshCw, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface SyncSettings {
+  id: string;
+  is_enabled: boolean;
+  markup_percent: number;
+  markup_flat: number;
+  round_to: number;
+}
+
+interface SyncRun {
+  started_at: string;
+  finished_at: string | null;
+  summary: { fetched?: number; new?: number; removed?: number; price_change?: number };
+  errors: string[];
+}
+
+interface SyncChange {
+  id: string;
+  change_type: 'new' | 'removed' | 'price_change';
+  provider: string;
+  network: string;
+  category: string;
+  plan_key: string;
+  plan: { display_name?: string } | null;
+  old_api_price: number | null;
+  new_api_price: number | null;
+  old_selling_price: number | null;
+  proposed_selling_price: number | null;
+}
+
+const CHANGE_LABELS: Record<SyncChange['change_type'], string> = {
+  new: 'New',
+  removed: 'Removed',
+  price_change: 'Price change',
+};
+
+function naira(value: number | null) {
+  return value == null ? '—' : `₦${Number(value).toLocaleString()}`;
+}
+
+/**
+ * Review queue for the scheduled plan sweep: markup settings, the last run and
+ * the staged changes, which are approved or rejected in bulk.
+ */
+export function PlanSyncReview({ onApplied }: { onApplied: () => void }) {
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [lastRun, setLastRun] = useState<SyncRun | null>(null);
+  const [changes, setChanges] = useState<SyncChange[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [sweeping, setSweeping] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    const [settingsRes, runRes, changesRes] = await Promise.all([
+      supabase.from('plan_sync_settings').select('id, is_enabled, markup_percent, markup_flat, round_to').limit(1).maybeSingle(),
+      supabase.from('plan_sync_runs').select('started_at, finished_at, summary, errors').order('started_at', { ascending: false }).limit(1).maybeSingle(),
+      supabase
+        .from('plan_sync_changes')
+        .select('id, change_type, provider, network, category, plan_key, plan, old_api_price, new_api_price, old_selling_price, proposed_selling_price')
+        .eq('status', 'pending')
+        .order('provider')
+        .order('network'),
+    ]);
+
+    if (settingsRes.error || runRes.error || changesRes.error) {
+      console.error('Error fetching plan sync queue:', settingsRes.error || runRes.error || changesRes.error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to load sync review' });
+    }
+
+    setSettings(settingsRes.data);
+    setLastRun(runRes.data as SyncRun | null);
+    setChanges((changesRes.data || []) as SyncChange[]);
+    setSelected(new Set());
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const saveSettings = async () => {
+    if (!settings) return;
+    setSavingSettings(true);
+    const { error } = await supabase
+      .from('plan_sync_settings')
+      .update({
+        is_enabled: settings.is_enabled,
+        markup_percent: settings.markup_percent,
+        markup_flat: settings.markup_flat,
+        round_to: settings.round_to,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', settings.id);
+    setSavingSettings(false);
+
+    toast(error
+      ? { variant: 'destructive', title: 'Error', description: 'Failed to save sync settings' }
+      : { title: 'Sync settings saved' });
+  };
+
+  const runSweep = async () => {
+    setSweeping(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-data-plans', {
+        body: { action: 'sweep' },
+      });
+      if (error) throw error;
+
+      toast({
+        title: 'Sweep finished',
+        description: `${data.summary.new} new, ${data.summary.removed} removed, ${data.summary.price_change} price changes`,
+      });
+      await fetchQueue();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Sweep failed',
+      });
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  const review = async (decision: 'approve' | 'reject') => {
+    if (selected.size === 0) return;
+    setReviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-data-plans', {
+        body: { action: 'review-changes', decision, change_ids: Array.from(selected) },
+      });
+      if (error) throw error;
+
+      toast(data.failures?.length
+        ? {
+            variant: 'destructive',
+            title: `${data.reviewed} changes ${decision === 'approve' ? 'applied' : 'rejected'}`,
+            description: `${data.failures.length} could not be applied`,
+          }
+        : { title: `${data.reviewed} changes ${decision === 'approve' ? 'applied' : 'rejected'}` });
+
+      await fetchQueue();
+      if (decision === 'approve') onApplied();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Review failed',
+      });
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const allSelected = changes.length > 0 && selected.size === changes.length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Sync</CardTitle>
+          <CardDescription>
+            Every 6 hours all providers are swept and differences are staged below for review.
+            New prices use the markup rule and never go below the API price.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings && (
+            <div className="grid gap-4 sm:grid-cols-4 items-end">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={settings.is_enabled}
+                  onCheckedChange={(is_enabled) => setSettings({ ...settings, is_enabled })}
+                />
+                <Label>Scheduled sweep</Label>
+              </div>
+              <div className="space-y-1">
+                <Label>Markup (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={settings.markup_percent}
+                  onChange={(e) => setSettings({ ...settings, markup_percent: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Flat markup (₦)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={settings.markup_flat}
+                  onChange={(e) => setSettings({ ...settings, markup_flat: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Round up to (₦)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={settings.round_to}
+                  onChange={(e) => setSettings({ ...settings, round_to: parseInt(e.target.value, 10) || 1 })}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {lastRun
+                ? `Last sweep ${format(new Date(lastRun.started_at), 'MMM d, HH:mm')}: ${lastRun.summary.fetched ?? 0} plans fetched` +
+                  (lastRun.errors.length ? `, ${lastRun.errors.length} provider errors` : '')
+                : 'No sweep has run yet'}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={saveSettings} disabled={!settings || savingSettings}>
+                {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Settings
+              </Button>
+              <Button onClick={runSweep} disabled={sweeping}>
+                {sweeping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Run Sweep Now
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Pending Changes ({changes.length})</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => review('reject')}
+              disabled={reviewing || selected.size === 0}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Reject ({selected.size})
+            </Button>
+            <Button size="sm" onClick={() => review('approve')} disabled={reviewing || selected.size === 0}>
+              {reviewing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+              Approve ({selected.size})
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : changes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No changes waiting for review</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelected(checked ? new Set(changes.map((c) => c.id)) : new Set())
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>API Price</TableHead>
+                    <TableHead>Selling Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={change.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(change.id)}
+                          onCheckedChange={(checked) => toggle(change.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={change.change_type === 'removed' ? 'destructive' : 'secondary'}>
+                          {CHANGE_LABELS[change.change_type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{change.plan?.display_name || change.plan_key}</div>
+                        <div className="text-xs text-muted-foreground uppercase">
+                          {change.network} · {change.category}
+                        </div>
+                      </TableCell>
+                      <TableCell className="capitalize">{change.provider}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {change.change_type === 'price_change'
+                          ? `${naira(change.old_api_price)} → ${naira(change.new_api_price)}`
+                          : naira(change.new_api_price ?? change.old_api_price)}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {change.change_type === 'removed'
+                          ? 'Deactivate'
+                          : change.change_type === 'price_change' && change.old_selling_price !== change.proposed_selling_price
+                            ? `${naira(change.old_selling_price)} → ${naira(change.proposed_selling_price)}`
+                            : naira(change.proposed_selling_price)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Delete, Fingerprint, Loader2, LogOut } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useBiometricAuth } from '@/hooks/useBiometricAuth';
 import { useToast } from '@/hooks/use-toast';
-import { verifyTransactionPin } from '@/components/auth/TransactionPinDialog';
+import { checkTransactionPin } from '@/lib/transactionPin';
 import { WhatsAppButton } from '@/components/dashboard/WhatsAppButton';
 import defaultAvatar from '@/assets/default-avatar.png';
 
@@ -70,11 +70,11 @@ export function AppLockScreen({ storedUser, onUnlock, onLogout }: AppLockScreenP
     if (newPin.length === PIN_LENGTH) {
       setLoading(true);
       try {
-        const isValid = await verifyTransactionPin(newPin);
-        if (isValid) {
+        const result = await checkTransactionPin(newPin);
+        if (result.valid) {
           onUnlock();
         } else {
-          setError('Incorrect PIN');
+          setError(result.error || 'Incorrect PIN');
           triggerShake();
           setPin('');
         }
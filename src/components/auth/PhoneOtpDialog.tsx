@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { AlertCircle, Loader2, MessageSquare } from 'lucide-react';
+import { invokePhoneOtp, type PhoneOtpPurpose } from '@/lib/phoneOtp';
+
+interface PhoneOtpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purpose: PhoneOtpPurpose;
+  // Number to verify when switching to a new one; defaults to the profile number
+  phone?: string;
+  title?: string;
+  description?: string;
+  // Runs the protected action with the code; resolves to an error to show, or null when done
+  onSubmit: (code: string) => Promise<string | null>;
+}
+
+const OTP_LENGTH = 6;
+const RESEND_SECONDS = 60;
+
+export function PhoneOtpDialog({
+  open,
+  onOpenChange,
+  purpose,
+  phone,
+  title,
+  description,
+  onSubmit,
+}: PhoneOtpDialogProps) {
+  const [code, setCode] = useState('');
+  const [maskedPhone, setMaskedPhone] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [cooldown, setCooldown] = useState(0);
+
+  const sendCode = useCallback(async () => {
+    setSending(true);
+    setError('');
+    const { data, error: sendError } = await invokePhoneOtp({ action: 'send', purpose, phone });
+    setSending(false);
+
+    if (sendError || !data?.success) {
+      setError(sendError || 'Failed to send code');
+      if (data?.retry_after) setCooldown(Math.min(data.retry_after, RESEND_SECONDS));
+      return;
+    }
+
+    setMaskedPhone(data.masked_phone ?? null);
+    setCooldown(RESEND_SECONDS);
+  }, [purpose, phone]);
+
+  // A fresh code goes out every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCode('');
+      setMaskedPhone(null);
+      setError('');
+      setSubmitting(false);
+      sendCode();
+    }
+  }, [open, sendCode]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((c) => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleSubmit = async () => {
+    if (code.length !== OTP_LENGTH || submitting) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      const submitError = await onSubmit(code);
+      if (submitError) {
+        setError(submitError);
+        setCode('');
+      } else {
+        onOpenChange(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xs sm:max-w-sm">
+        <DialogHeader className="text-center">
+          <div className="w-14 h-14 mx-auto mb-2 rounded-full bg-primary/10 flex items-center justify-center">
+            <MessageSquare className="w-6 h-6 text-primary" />
+          </div>
+          <DialogTitle className="text-center">{title || 'Enter SMS Code'}</DialogTitle>
+          <DialogDescription className="text-center">
+            {description || 'Confirm it is you with the code we text to your phone'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <p className="text-sm text-center text-muted-foreground">
+            {sending
+              ? 'Sending code...'
+              : maskedPhone
+                ? `Code sent to ${maskedPhone}`
+                : 'We could not send a code yet'}
+          </p>
+
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={OTP_LENGTH}
+              value={code}
+              onChange={(value) => {
+                setCode(value);
+                setError('');
+              }}
+              disabled={submitting}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: OTP_LENGTH }).map((_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          {error && (
+            <div className="flex items-center justify-center gap-2 text-destructive text-sm text-center">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleSubmit}
+            disabled={code.length !== OTP_LENGTH || submitting}
+          >
+            {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            Confirm
+          </Button>
+
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={sendCode}
+            disabled={sending || cooldown > 0}
+          >
+            {cooldown > 0 ? `Resend code in ${cooldown}s` : 'Resend code'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
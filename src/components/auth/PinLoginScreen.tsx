@@ -6,10 +6,10 @@ import { useBiometricAuth } from '@/hooks/useBiometricAuth';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
-import { 
-  verifyTransactionPin, 
-  isTransactionPinSetup,
-} from '@/components/auth/TransactionPinDialog';
+import {
+  checkTransactionPinForLogin,
+  isTransactionPinKnownSet,
+} from '@/lib/transactionPin';
 import { WhatsAppButton } from '@/components/dashboard/WhatsAppButton';
 import defaultAvatar from '@/assets/default-avatar.png';
 
@@ -40,7 +40,7 @@ export function getStoredUserForPinLogin(): StoredUserCredentials | null {
 
 // Check if PIN login is available
 export function isPinLoginAvailable(): boolean {
-  return getStoredUserForPinLogin() !== null && isTransactionPinSetup();
+  return getStoredUserForPinLogin() !== null && isTransactionPinKnownSet();
 }
 
 // Clear stored user
@@ -144,23 +144,31 @@ export function PinLoginScreen({ onSwitchToPassword, storedUser }: PinLoginScree
       if (newPin.length === PIN_LENGTH) {
         setLoading(true);
         try {
-          const isValid = await verifyTransactionPin(newPin);
-          if (isValid) {
-            // PIN is correct, now get stored credentials to sign in
-            const credentials = await getCredentials();
-            if (credentials) {
-              await handleSuccessfulLogin(credentials);
-            } else {
-              // No biometric credentials, user needs to use password
-              toast({
-                variant: 'destructive',
-                title: 'Session Expired',
-                description: 'Please login with your email and password.',
-              });
-              onSwitchToPassword();
-            }
+          // The PIN is checked by the server, which needs the stored credentials
+          const credentials = await getCredentials();
+          if (!credentials) {
+            // No biometric credentials, user needs to use password
+            toast({
+              variant: 'destructive',
+              title: 'Session Expired',
+              description: 'Please login with your email and password.',
+            });
+            onSwitchToPassword();
+            return;
+          }
+
+          const result = await checkTransactionPinForLogin(credentials.email, credentials.password, newPin);
+          if (result.valid) {
+            await handleSuccessfulLogin(credentials);
+          } else if (result.code === 'SIGN_IN_FAILED') {
+            toast({
+              variant: 'destructive',
+              title: 'Login Failed',
+              description: 'Your stored credentials may have changed. Please login with email/password.',
+            });
+            onSwitchToPassword();
           } else {
-            setError('Incorrect PIN');
+            setError(result.error || 'Incorrect PIN');
             triggerShake();
             setPin('');
           }
@@ -3,56 +3,26 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Delete, AlertCircle, Fingerprint, Loader2 } from 'lucide-react';
 import { useBiometricAuth } from '@/hooks/useBiometricAuth';
+import {
+  checkTransactionPin,
+  invokeTransactionPin,
+  isBiometricForTransactionsEnabled,
+  markTransactionPinSet,
+} from '@/lib/transactionPin';
 import logo from '@/assets/ramadan-logo.jpeg';
 
 interface TransactionPinDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onComplete: () => void;
-  mode?: 'setup' | 'verify' | 'change';
+  // Receives the entered PIN so callers can forward it to the buy-* functions
+  onComplete: (pin: string) => void;
+  // 'reset' only collects a new PIN; the caller submits it with an SMS code via resetTransactionPin
+  mode?: 'setup' | 'verify' | 'change' | 'reset';
   title?: string;
   description?: string;
 }
 
 const PIN_LENGTH = 4;
-const TRANSACTION_PIN_HASH_KEY = 'transaction_pin_hash';
-const BIOMETRIC_FOR_TRANSACTIONS_KEY = 'biometric_for_transactions';
-
-// Simple hash function for PIN (for local storage only)
-async function hashPin(pin: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(pin + 'rds_data_salt_2024');
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-export async function verifyTransactionPin(pin: string): Promise<boolean> {
-  const storedHash = localStorage.getItem(TRANSACTION_PIN_HASH_KEY);
-  if (!storedHash) return false;
-  const inputHash = await hashPin(pin);
-  return storedHash === inputHash;
-}
-
-export function isTransactionPinSetup(): boolean {
-  return !!localStorage.getItem(TRANSACTION_PIN_HASH_KEY);
-}
-
-export function clearTransactionPin(): void {
-  localStorage.removeItem(TRANSACTION_PIN_HASH_KEY);
-}
-
-export function isBiometricForTransactionsEnabled(): boolean {
-  return localStorage.getItem(BIOMETRIC_FOR_TRANSACTIONS_KEY) === 'true';
-}
-
-export function setBiometricForTransactions(enabled: boolean): void {
-  if (enabled) {
-    localStorage.setItem(BIOMETRIC_FOR_TRANSACTIONS_KEY, 'true');
-  } else {
-    localStorage.removeItem(BIOMETRIC_FOR_TRANSACTIONS_KEY);
-  }
-}
 
 export function TransactionPinDialog({
   open,
@@ -64,14 +34,17 @@ export function TransactionPinDialog({
 }: TransactionPinDialogProps) {
   const [pin, setPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
-  const [step, setStep] = useState<'enter' | 'confirm' | 'verify'>('enter');
+  const [oldPin, setOldPin] = useState('');
+  const [step, setStep] = useState<'current' | 'enter' | 'confirm' | 'verify'>('enter');
   const [error, setError] = useState('');
   const [shake, setShake] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [biometricLoading, setBiometricLoading] = useState(false);
 
   const { 
     isAvailable: biometricAvailable, 
-    verifyIdentity, 
+    getTransactionPinCredential,
+    setTransactionPinCredential,
     getBiometricLabel 
   } = useBiometricAuth();
 
@@ -82,18 +55,24 @@ export function TransactionPinDialog({
     if (open) {
       setPin('');
       setConfirmPin('');
+      setOldPin('');
       setError('');
-      setStep(mode === 'verify' ? 'verify' : 'enter');
+      setSubmitting(false);
+      setStep(mode === 'verify' ? 'verify' : mode === 'change' ? 'current' : 'enter');
     }
   }, [open, mode]);
 
+  const finish = useCallback((completedPin: string) => {
+    onComplete(completedPin);
+    onOpenChange(false);
+  }, [onComplete, onOpenChange]);
+
   const handleBiometricVerify = useCallback(async () => {
     setBiometricLoading(true);
     try {
-      const success = await verifyIdentity('Verify your identity to authorize this transaction');
-      if (success) {
-        onComplete();
-        onOpenChange(false);
+      const storedPin = await getTransactionPinCredential('Verify your identity to authorize this transaction');
+      if (storedPin) {
+        finish(storedPin);
       } else {
         setError('Biometric verification failed');
         triggerShake();
@@ -104,7 +83,7 @@ export function TransactionPinDialog({
     } finally {
       setBiometricLoading(false);
     }
-  }, [verifyIdentity, onComplete, onOpenChange]);
+  }, [getTransactionPinCredential, finish]);
 
   // Auto-trigger biometric if it's the preferred method
   useEffect(() => {
@@ -117,22 +96,70 @@ export function TransactionPinDialog({
     }
   }, [open, showBiometricOption, mode, handleBiometricVerify]);
 
+  const submitNewPin = async (newPin: string) => {
+    if (mode === 'reset') {
+      finish(newPin);
+      return;
+    }
+
+    const { error: pinError, code } = mode === 'change'
+      ? await invokeTransactionPin({ action: 'change', current_pin: oldPin, new_pin: newPin })
+      : await invokeTransactionPin({ action: 'set', pin: newPin });
+
+    if (!pinError) {
+      markTransactionPinSet();
+      if (biometricEnabled) {
+        await setTransactionPinCredential(newPin);
+      }
+      finish(newPin);
+      return;
+    }
+
+    if (code === 'PIN_ALREADY_SET') {
+      // Set on another device - ask for the existing PIN instead
+      markTransactionPinSet();
+      setPin('');
+      setConfirmPin('');
+      setStep('verify');
+      setError('You already have a PIN. Enter it to continue.');
+      return;
+    }
+
+    setError(pinError);
+    triggerShake();
+    setConfirmPin('');
+    if (code === 'INVALID_PIN' || code === 'PIN_LOCKED') {
+      // Current PIN was wrong - start the change flow again
+      setPin('');
+      setOldPin('');
+      setStep('current');
+    }
+  };
+
   const handleDigit = async (digit: string) => {
+    if (submitting) return;
     setError('');
-    const currentPin = step === 'confirm' ? confirmPin : pin;
+    const activePin = step === 'confirm' ? confirmPin : step === 'current' ? oldPin : pin;
     
-    if (currentPin.length < PIN_LENGTH) {
-      const newPin = currentPin + digit;
+    if (activePin.length < PIN_LENGTH) {
+      const newPin = activePin + digit;
       
-      if (step === 'confirm') {
+      if (step === 'current') {
+        setOldPin(newPin);
+        if (newPin.length === PIN_LENGTH) {
+          setStep('enter');
+        }
+      } else if (step === 'confirm') {
         setConfirmPin(newPin);
         if (newPin.length === PIN_LENGTH) {
           // Validate confirmation
           if (newPin === pin) {
-            const hash = await hashPin(newPin);
-            localStorage.setItem(TRANSACTION_PIN_HASH_KEY, hash);
-            onComplete();
-            onOpenChange(false);
+            setSubmitting(true);
+            try {
+              await submitNewPin(newPin);
+            } finally {
+              setSubmitting(false);
+            }
           } else {
             setError('PINs do not match');
             triggerShake();
@@ -142,14 +169,18 @@ export function TransactionPinDialog({
       } else if (step === 'verify') {
         setPin(newPin);
         if (newPin.length === PIN_LENGTH) {
-          const isValid = await verifyTransactionPin(newPin);
-          if (isValid) {
-            onComplete();
-            onOpenChange(false);
-          } else {
-            setError('Incorrect PIN');
-            triggerShake();
-            setPin('');
+          setSubmitting(true);
+          try {
+            const result = await checkTransactionPin(newPin);
+            if (result.valid) {
+              finish(newPin);
+            } else {
+              setError(result.error || 'Incorrect PIN');
+              triggerShake();
+              setPin('');
+            }
+          } finally {
+            setSubmitting(false);
           }
         }
       } else {
@@ -165,6 +196,8 @@ export function TransactionPinDialog({
     setError('');
     if (step === 'confirm') {
       setConfirmPin(prev => prev.slice(0, -1));
+    } else if (step === 'current') {
+      setOldPin(prev => prev.slice(0, -1));
     } else {
       setPin(prev => prev.slice(0, -1));
     }
@@ -175,19 +208,25 @@ export function TransactionPinDialog({
     setTimeout(() => setShake(false), 500);
   };
 
-  const currentPin = step === 'confirm' ? confirmPin : pin;
+  const currentPin = step === 'confirm' ? confirmPin : step === 'current' ? oldPin : pin;
 
   const getTitle = () => {
     if (title) return title;
     if (mode === 'verify') return 'Authorize Transaction';
+    if (step === 'verify') return 'Enter Your PIN';
+    if (step === 'current') return 'Enter Current PIN';
     if (step === 'confirm') return 'Confirm Your PIN';
+    if (mode === 'change' || mode === 'reset') return 'Enter New PIN';
     return 'Set Transaction PIN';
   };
 
   const getDescription = () => {
     if (description) return description;
     if (mode === 'verify') return 'Enter your PIN or use biometric to authorize';
+    if (step === 'verify') return 'Enter the PIN already linked to your account';
+    if (step === 'current') return 'Enter the PIN you use today';
     if (step === 'confirm') return 'Re-enter your PIN to confirm';
+    if (mode === 'change' || mode === 'reset') return 'Choose a new 4-digit PIN';
     return 'Create a 4-digit PIN to secure your transactions';
   };
 
@@ -246,6 +285,12 @@ export function TransactionPinDialog({
             ))}
           </div>
 
+          {submitting && (
+            <div className="flex justify-center mb-4">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="flex items-center justify-center gap-2 text-destructive mb-4 text-sm">
@@ -263,6 +308,7 @@ export function TransactionPinDialog({
                 size="lg"
                 className="h-14 text-xl font-semibold"
                 onClick={() => handleDigit(String(digit))}
+                disabled={submitting}
               >
                 {digit}
               </Button>
@@ -286,6 +332,7 @@ export function TransactionPinDialog({
               size="lg"
               className="h-14 text-xl font-semibold"
               onClick={() => handleDigit('0')}
+              disabled={submitting}
             >
               0
             </Button>
@@ -294,7 +341,7 @@ export function TransactionPinDialog({
               size="lg"
               className="h-14"
               onClick={handleDelete}
-              disabled={currentPin.length === 0}
+              disabled={currentPin.length === 0 || submitting}
             >
               <Delete className="w-6 h-6" />
             </Button>
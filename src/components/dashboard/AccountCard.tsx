@@ -64,6 +64,15 @@ export function AccountCard() {
         const message = response.error?.message || response.data?.error || 'Failed to create virtual account';
         console.error('Virtual account creation failed:', message);
 
+        // Retrying cannot help until the user verifies their BVN
+        const context = (response.error as { context?: Response } | null)?.context;
+        const body = context ? await context.clone().json().catch(() => null) : null;
+        if (body?.code === 'BVN_REQUIRED') {
+          retryCountRef.current = maxRetries;
+          setCreatingAccount(false);
+          return;
+        }
+
         if (retryCountRef.current < maxRetries) {
           const backoffMs = 5000 * retryCountRef.current; // 5s, 10s, 15s
           setCreatingAccount(false);
@@ -114,6 +114,8 @@ export function RecentTransactions({ refreshTick = 0 }: { refreshTick?: number }
       tv: 'TV Subscription',
       transfer: 'Transfer',
       referral_bonus: 'Referral Bonus',
+      airtime_to_cash: 'Airtime to Cash',
+      account_closure: 'Account Closure',
     };
     return labels[category] || category;
   };
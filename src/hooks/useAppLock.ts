@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Capacitor } from '@capacitor/core';
 import { isPinLoginAvailable, getStoredUserForPinLogin } from '@/components/auth/PinLoginScreen';
-import { isTransactionPinSetup } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinKnownSet } from '@/lib/transactionPin';
 
 const APP_LOCK_UNLOCKED_KEY = 'app_lock_unlocked_session';
 
@@ -26,7 +26,7 @@ export function useAppLock() {
       const unlockedThisSession = sessionStorage.getItem(APP_LOCK_UNLOCKED_KEY) === 'true';
       
       // Check if PIN is set up
-      const pinSetup = isTransactionPinSetup();
+      const pinSetup = isTransactionPinKnownSet();
       const user = getStoredUserForPinLogin();
       const pinAvailable = isPinLoginAvailable();
 
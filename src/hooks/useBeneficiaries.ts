@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type BeneficiaryKind = 'phone' | 'meter' | 'smartcard' | 'exam_profile';
+
+/** What was last bought for a beneficiary on one service, for one-tap repeats */
+export type LastProduct = Record<string, string | number | null>;
+
+export interface Beneficiary {
+  id: string;
+  kind: string;
+  value: string;
+  provider: string | null;
+  nickname: string | null;
+  customer_name: string | null;
+  is_favorite: boolean;
+  last_products: Record<string, LastProduct>;
+  last_used_at: string;
+}
+
+interface SaveOptions {
+  provider?: string | null;
+  nickname?: string;
+  customerName?: string;
+  /** Service the purchase was for ('data', 'airtime', ...) and what was bought */
+  service?: string;
+  product?: LastProduct;
+}
+
+// Before beneficiaries were synced, recent phone numbers lived on the device
+const LEGACY_KEYS = ['recent_recipients_data', 'recent_recipients_airtime'];
+
+const byFavoriteThenRecent = (a: Beneficiary, b: Beneficiary) =>
+  Number(b.is_favorite) - Number(a.is_favorite) || b.last_used_at.localeCompare(a.last_used_at);
+
+/** Move a device's old recent recipients into the user's beneficiaries, once */
+async function importLegacyRecipients(userId: string) {
+  const rows = new Map<string, { value: string; nickname: string | null; last_used_at: string }>();
+  for (const key of LEGACY_KEYS) {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+      if (!Array.isArray(parsed)) continue;
+      for (const r of parsed) {
+        if (!r || typeof r.phone !== 'string' || rows.has(r.phone)) continue;
+        rows.set(r.phone, {
+          value: r.phone,
+          nickname: typeof r.name === 'string' ? r.name.slice(0, 40) : null,
+          last_used_at: new Date(Number(r.lastUsedAt) || Date.now()).toISOString(),
+        });
+      }
+    } catch {
+      /* ignore */
+    }
+  }
+  if (rows.size === 0) return;
+
+  const { error } = await supabase
+    .from('beneficiaries')
+    .upsert(
+      [...rows.values()].map((r) => ({ ...r, user_id: userId, kind: 'phone' })),
+      { onConflict: 'user_id,kind,value', ignoreDuplicates: true }
+    );
+  if (!error) LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+}
+
+/**
+ * The signed-in user's saved numbers of one kind, favourites first. Saving
+ * after a purchase records what was bought so it can be repeated in one tap.
+ */
+export function useBeneficiaries(kind: BeneficiaryKind) {
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data } = await supabase
+      .from('beneficiaries')
+      .select('id, kind, value, provider, nickname, customer_name, is_favorite, last_products, last_used_at')
+      .eq('kind', kind)
+      .order('last_used_at', { ascending: false })
+      .limit(30);
+
+    setBeneficiaries(((data || []) as Beneficiary[]).sort(byFavoriteThenRecent));
+  }, [kind]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (kind === 'phone') {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) await importLegacyRecipients(user.id);
+      }
+      if (!cancelled) await refresh();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, refresh]);
+
+  const saveBeneficiary = useCallback(
+    async (rawValue: string, options: SaveOptions = {}) => {
+      const value = kind === 'exam_profile' ? rawValue.trim() : rawValue.replace(/\D/g, '');
+      if (!value) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const existing = beneficiaries.find((b) => b.value === value);
+      const lastProducts = options.service && options.product
+        ? { ...(existing?.last_products ?? {}), [options.service]: options.product }
+        : undefined;
+
+      // Undefined fields are left out of the upsert, so they keep their saved values
+      await supabase.from('beneficiaries').upsert(
+        {
+          user_id: user.id,
+          kind,
+          value,
+          provider: options.provider ?? undefined,
+          nickname: options.nickname?.slice(0, 40),
+          customer_name: options.customerName,
+          verified_at: options.customerName ? new Date().toISOString() : undefined,
+          last_products: lastProducts as Json | undefined,
+          last_used_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,kind,value' }
+      );
+      await refresh();
+    },
+    [kind, beneficiaries, refresh]
+  );
+
+  const updateBeneficiary = useCallback(
+    async (beneficiary: Beneficiary, changes: { nickname?: string | null; is_favorite?: boolean }) => {
+      setBeneficiaries((current) =>
+        current.map((b) => (b.id === beneficiary.id ? { ...b, ...changes } : b)).sort(byFavoriteThenRecent)
+      );
+      await supabase.from('beneficiaries').update(changes).eq('id', beneficiary.id);
+    },
+    []
+  );
+
+  const removeBeneficiary = useCallback(async (beneficiary: Beneficiary) => {
+    setBeneficiaries((current) => current.filter((b) => b.id !== beneficiary.id));
+    await supabase.from('beneficiaries').delete().eq('id', beneficiary.id);
+  }, []);
+
+  return { beneficiaries, saveBeneficiary, updateBeneficiary, removeBeneficiary };
+}
@@ -7,11 +7,14 @@ let NativeBiometric: any = null;
 // Storage keys
 const BIOMETRIC_ENABLED_KEY = 'biometric_auth_enabled';
 const BIOMETRIC_CREDENTIALS_KEY = 'biometric_credentials';
+const TRANSACTION_PIN_SERVER = 'com.ramadandata.app.transaction-pin';
 
 interface BiometricCredentials {
   email: string;
   // We don't store the actual password, just a flag that biometric is set up
   hasCredentials: boolean;
+  // Stored at sign-in on a device not yet confirmed by SMS code; unusable until enabled
+  awaitingDeviceCheck?: boolean;
 }
 
 export function useBiometricAuth() {
@@ -63,8 +66,9 @@ export function useBiometricAuth() {
     checkAvailability();
   }, [checkAvailability]);
 
-  // Store credentials securely using native biometric
-  const setCredentials = useCallback(async (email: string, password: string): Promise<boolean> => {
+  // Store credentials securely using native biometric. With enable = false they are
+  // kept but stay unusable until enableStoredCredentials() runs.
+  const setCredentials = useCallback(async (email: string, password: string, enable = true): Promise<boolean> => {
     if (!isAvailable || !NativeBiometric) return false;
 
     try {
@@ -75,13 +79,19 @@ export function useBiometricAuth() {
         server: 'com.ramadandata.app',
       });
 
-      // Mark as enabled
-      localStorage.setItem(BIOMETRIC_ENABLED_KEY, 'true');
       localStorage.setItem(BIOMETRIC_CREDENTIALS_KEY, JSON.stringify({ 
         email, 
-        hasCredentials: true 
+        hasCredentials: true,
+        awaitingDeviceCheck: !enable,
       }));
-      setIsEnabled(true);
+
+      if (enable) {
+        localStorage.setItem(BIOMETRIC_ENABLED_KEY, 'true');
+        setIsEnabled(true);
+      } else {
+        localStorage.removeItem(BIOMETRIC_ENABLED_KEY);
+        setIsEnabled(false);
+      }
 
       return true;
     } catch (error) {
@@ -90,9 +100,24 @@ export function useBiometricAuth() {
     }
   }, [isAvailable]);
 
+  // Switch on credentials stored while the device was awaiting its SMS check
+  const enableStoredCredentials = useCallback((): void => {
+    try {
+      const stored = localStorage.getItem(BIOMETRIC_CREDENTIALS_KEY);
+      if (!stored) return;
+      const credentials = JSON.parse(stored) as BiometricCredentials;
+      localStorage.setItem(BIOMETRIC_CREDENTIALS_KEY, JSON.stringify({ ...credentials, awaitingDeviceCheck: false }));
+      localStorage.setItem(BIOMETRIC_ENABLED_KEY, 'true');
+      setIsEnabled(true);
+    } catch {
+      // leave quick sign-in off
+    }
+  }, []);
+
   // Get stored credentials after biometric verification
   const getCredentials = useCallback(async (): Promise<{ email: string; password: string } | null> => {
     if (!isAvailable || !NativeBiometric) return null;
+    if (localStorage.getItem(BIOMETRIC_ENABLED_KEY) !== 'true') return null;
 
     try {
       // First verify the user with biometric
@@ -167,6 +192,59 @@ export function useBiometricAuth() {
     setIsEnabled(false);
   }, []);
 
+  // Keep the transaction PIN in the secure enclave so biometric can authorize payments
+  const setTransactionPinCredential = useCallback(async (pin: string): Promise<boolean> => {
+    if (!isAvailable || !NativeBiometric) return false;
+
+    try {
+      await NativeBiometric.setCredentials({
+        username: 'transaction_pin',
+        password: pin,
+        server: TRANSACTION_PIN_SERVER,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to store transaction PIN:', error);
+      return false;
+    }
+  }, [isAvailable]);
+
+  // Get the stored transaction PIN after biometric verification
+  const getTransactionPinCredential = useCallback(async (reason?: string): Promise<string | null> => {
+    if (!isAvailable || !NativeBiometric) return null;
+
+    try {
+      await NativeBiometric.verifyIdentity({
+        reason: reason || 'Verify your identity to authorize this transaction',
+        title: 'Biometric Verification',
+        subtitle: 'Confirm it\'s you',
+        description: 'Use your fingerprint or face to verify',
+        negativeButtonText: 'Use PIN instead',
+      });
+
+      const credentials = await NativeBiometric.getCredentials({
+        server: TRANSACTION_PIN_SERVER,
+      });
+
+      return credentials.password || null;
+    } catch (error) {
+      console.error('Biometric PIN retrieval failed:', error);
+      return null;
+    }
+  }, [isAvailable]);
+
+  const clearTransactionPinCredential = useCallback(async (): Promise<void> => {
+    if (!NativeBiometric) return;
+
+    try {
+      await NativeBiometric.deleteCredentials({
+        server: TRANSACTION_PIN_SERVER,
+      });
+    } catch (error) {
+      console.error('Failed to delete transaction PIN:', error);
+    }
+  }, []);
+
   // Toggle biometric on/off
   const toggleBiometric = useCallback(async (email: string, password: string): Promise<boolean> => {
     if (isEnabled) {
@@ -197,10 +275,14 @@ export function useBiometricAuth() {
     isLoading,
     biometricType,
     setCredentials,
+    enableStoredCredentials,
     getCredentials,
     verifyIdentity,
     hasStoredCredentials,
     clearCredentials,
+    setTransactionPinCredential,
+    getTransactionPinCredential,
+    clearTransactionPinCredential,
     toggleBiometric,
     getBiometricLabel,
     checkAvailability,
@@ -0,0 +1,41 @@
+import { useCallback, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Idempotency-Key for one purchase. The same key is handed out while the
+ * purchase details are unchanged and no request has had an answer from the
+ * server, so a retry after a timeout or a double tap is replayed by the buy-*
+ * function instead of debiting the wallet again.
+ */
+export function useIdempotencyKey() {
+  const current = useRef<{ fingerprint: string; key: string } | null>(null);
+
+  const keyFor = useCallback((details: Record<string, unknown>) => {
+    const fingerprint = JSON.stringify(details);
+    if (current.current?.fingerprint !== fingerprint) {
+      current.current = { fingerprint, key: crypto.randomUUID() };
+    }
+    return current.current.key;
+  }, []);
+
+  /**
+   * Drop the key once the purchase has finished, or was refused before the
+   * wallet could be charged. Takes the invoke error, or the HTTP status of a
+   * failed fetch. A network or relay error, a 409 (the first request is still
+   * running) or a 5xx may leave a charge behind, so the key is kept for the
+   * retry, which the server then replays.
+   */
+  const settle = useCallback((error?: unknown) => {
+    if (error) {
+      const status = error instanceof FunctionsHttpError
+        ? (error.context as Response | undefined)?.status
+        : typeof error === 'number' ? error : undefined;
+      if (status === undefined || status === 409 || status < 400 || status >= 500) return;
+    }
+    current.current = null;
+  }, []);
+
+  return { keyFor, settle };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import { networkMismatch, normalizeNigerianPhone } from '@/lib/phone';
+
+/**
+ * Tracks whether the user has confirmed that a number on another network's
+ * prefix was ported to the chosen network. The confirmation only holds for
+ * the exact number and network it was given for, so editing either clears it.
+ */
+export function usePortedNumber(phone: string, network: string | null) {
+  const [confirmedFor, setConfirmedFor] = useState<string | null>(null);
+
+  const cleanPhone = normalizeNigerianPhone(phone) ?? phone.replace(/\D/g, '');
+  const detectedNetwork = networkMismatch(cleanPhone, network);
+  const confirmed = !!detectedNetwork && confirmedFor === `${cleanPhone}:${network}`;
+
+  /** Confirm (or withdraw) for the current number, or for one that is about to be set */
+  const setConfirmed = useCallback(
+    (value: boolean, forPhone: string = cleanPhone, forNetwork: string | null = network) => {
+      const key = normalizeNigerianPhone(forPhone) ?? forPhone.replace(/\D/g, '');
+      setConfirmedFor(value ? `${key}:${forNetwork}` : null);
+    },
+    [cleanPhone, network]
+  );
+
+  return {
+    /** The prefix's network when it differs from the chosen one */
+    detectedNetwork,
+    confirmed,
+    setConfirmed,
+    /** A mismatch the user has not confirmed yet; purchases should wait for it */
+    needsConfirmation: !!detectedNetwork && !confirmed,
+  };
+}
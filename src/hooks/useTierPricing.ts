@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type TierProduct = 'data' | 'airtime' | 'cable' | 'exam_pin';
+
+interface TierPricing {
+  tierName: string | null;
+  discountPercent: number;
+  overrides: Map<string, { price: number | null; discount_percent: number | null }>;
+}
+
+const DISCOUNT_COLUMNS = {
+  data: 'data_discount_percent',
+  airtime: 'airtime_discount_percent',
+  cable: 'cable_discount_percent',
+  exam_pin: 'exam_pin_discount_percent',
+} as const;
+
+const NO_TIER: TierPricing = { tierName: null, discountPercent: 0, overrides: new Map() };
+
+/**
+ * The signed-in user's tier prices for one product type, so the app shows what
+ * the buy-* functions will charge. Mirrors supabase/functions/_shared/tier-pricing.ts.
+ */
+export function useTierPricing(product: TierProduct) {
+  const { user } = useAuth();
+  const [pricing, setPricing] = useState<TierPricing>(NO_TIER);
+
+  useEffect(() => {
+    if (!user) {
+      setPricing(NO_TIER);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('tier_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      let query = supabase
+        .from('user_tiers')
+        .select('id, name, data_discount_percent, airtime_discount_percent, cable_discount_percent, exam_pin_discount_percent');
+      query = profile?.tier_id ? query.eq('id', profile.tier_id) : query.eq('is_default', true);
+      const { data: tier } = await query.maybeSingle();
+      if (!tier) {
+        if (!cancelled) setPricing(NO_TIER);
+        return;
+      }
+
+      const { data: overrides } = await supabase
+        .from('tier_price_overrides')
+        .select('product_id, price, discount_percent')
+        .eq('tier_id', tier.id)
+        .eq('product_type', product);
+
+      if (cancelled) return;
+      setPricing({
+        tierName: tier.name,
+        discountPercent: Number(tier[DISCOUNT_COLUMNS[product]]) || 0,
+        overrides: new Map((overrides || []).map((o) => [o.product_id, o])),
+      });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, product]);
+
+  const priceOf = useCallback(
+    (productId: string, basePrice: number, floor = 0) => {
+      const override = pricing.overrides.get(productId)?.price;
+      const price = override ?? Math.round(basePrice * (1 - pricing.discountPercent / 100) * 100) / 100;
+      return Math.max(Number(price), floor);
+    },
+    [pricing]
+  );
+
+  const airtimeDiscountOf = useCallback(
+    (planId: string, planDiscount: number) => {
+      const override = pricing.overrides.get(planId)?.discount_percent;
+      return Math.min(Number(override ?? planDiscount + pricing.discountPercent), 100);
+    },
+    [pricing]
+  );
+
+  return { tierName: pricing.tierName, priceOf, airtimeDiscountOf };
+}
@@ -14,607 +14,2524 @@ export type Database = {
   }
   public: {
     Tables: {
-      airtime_plans: {
+      account_deletion_requests: {
         Row: {
+          balance_at_request: number
+          cancelled_at: string | null
+          closed_at: string | null
+          completed_at: string | null
+          confirmed_with: string
           created_at: string
-          discount_percent: number
+          forfeit_acknowledged: boolean
+          forfeited_amount: number | null
+          held_reason: string | null
           id: string
-          is_active: boolean
+          purged_at: string | null
+          reason: string | null
+          retain_until: string | null
+          scheduled_for: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          balance_at_request?: number
+          cancelled_at?: string | null
+          closed_at?: string | null
+          completed_at?: string | null
+          confirmed_with: string
+          created_at?: string
+          forfeit_acknowledged?: boolean
+          forfeited_amount?: number | null
+          held_reason?: string | null
+          id?: string
+          purged_at?: string | null
+          reason?: string | null
+          retain_until?: string | null
+          scheduled_for: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          balance_at_request?: number
+          cancelled_at?: string | null
+          closed_at?: string | null
+          completed_at?: string | null
+          confirmed_with?: string
+          created_at?: string
+          forfeit_acknowledged?: boolean
+          forfeited_amount?: number | null
+          held_reason?: string | null
+          id?: string
+          purged_at?: string | null
+          reason?: string | null
+          retain_until?: string | null
+          scheduled_for?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          ip_address: string | null
+          metadata: Json
+          target_id: string | null
+          target_type: string
+          target_user_id: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          metadata?: Json
+          target_id?: string | null
+          target_type: string
+          target_user_id?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          metadata?: Json
+          target_id?: string | null
+          target_type?: string
+          target_user_id?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      airtime_cash_rates: {
+        Row: {
+          id: string
+          is_enabled: boolean
           max_amount: number
           min_amount: number
           network: string
-          provider: string
+          rate_percent: number
+          receiving_number: string | null
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
-          created_at?: string
-          discount_percent?: number
           id?: string
-          is_active?: boolean
+          is_enabled?: boolean
           max_amount?: number
           min_amount?: number
           network: string
-          provider: string
+          rate_percent: number
+          receiving_number?: string | null
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
-          created_at?: string
-          discount_percent?: number
           id?: string
-          is_active?: boolean
+          is_enabled?: boolean
           max_amount?: number
           min_amount?: number
           network?: string
-          provider?: string
+          rate_percent?: number
+          receiving_number?: string | null
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
-      api_providers: {
+      airtime_cash_requests: {
         Row: {
-          base_url: string
+          amount: number
+          amount_received: number | null
           created_at: string
           id: string
-          is_active: boolean
-          name: string
-          priority: number
+          network: string
+          payout_amount: number
+          proof_path: string | null
+          rate_percent: number
+          receiving_number: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          sender_phone: string
+          status: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          base_url: string
+          amount: number
+          amount_received?: number | null
           created_at?: string
           id?: string
-          is_active?: boolean
-          name: string
-          priority?: number
+          network: string
+          payout_amount: number
+          proof_path?: string | null
+          rate_percent: number
+          receiving_number: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sender_phone: string
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          base_url?: string
+          amount?: number
+          amount_received?: number | null
           created_at?: string
           id?: string
-          is_active?: boolean
-          name?: string
-          priority?: number
+          network?: string
+          payout_amount?: number
+          proof_path?: string | null
+          rate_percent?: number
+          receiving_number?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          sender_phone?: string
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
-      cable_bouquets: {
+      airtime_cash_settings: {
         Row: {
-          created_at: string
+          daily_limit: number
           id: string
-          is_active: boolean
-          name: string
-          plan_id: number
-          price: number
-          provider_code: string
+          is_enabled: boolean
+          max_pending: number
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
-          created_at?: string
+          daily_limit?: number
           id?: string
-          is_active?: boolean
-          name: string
-          plan_id: number
-          price: number
-          provider_code: string
+          is_enabled?: boolean
+          max_pending?: number
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
-          created_at?: string
+          daily_limit?: number
           id?: string
-          is_active?: boolean
-          name?: string
-          plan_id?: number
-          price?: number
-          provider_code?: string
+          is_enabled?: boolean
+          max_pending?: number
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
-      cable_providers: {
+      airtime_plans: {
         Row: {
-          code: string
           created_at: string
           discount_percent: number
           id: string
           is_active: boolean
-          name: string
-          service_id: number
+          max_amount: number
+          min_amount: number
+          network: string
+          provider: string
         }
         Insert: {
-          code: string
           created_at?: string
           discount_percent?: number
           id?: string
           is_active?: boolean
-          name: string
-          service_id: number
+          max_amount?: number
+          min_amount?: number
+          network: string
+          provider: string
         }
         Update: {
-          code?: string
           created_at?: string
           discount_percent?: number
           id?: string
           is_active?: boolean
-          name?: string
-          service_id?: number
+          max_amount?: number
+          min_amount?: number
+          network?: string
+          provider?: string
         }
         Relationships: []
       }
-      data_plans: {
+      api_callbacks: {
         Row: {
-          api_price: number
-          category: string
+          api_key_id: string
+          attempts: number
           created_at: string
-          data_amount: string | null
-          display_name: string
+          delivered_at: string | null
           id: string
-          is_active: boolean
-          name: string
-          network: string
-          plan_id: number | null
-          product_id: string | null
-          provider: string
-          selling_price: number
-          service_id: number | null
-          updated_at: string
-          validity: string | null
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string
+          payload: Json
+          status: string
+          transaction_id: string
+          url: string
         }
         Insert: {
-          api_price: number
-          category?: string
+          api_key_id: string
+          attempts?: number
           created_at?: string
-          data_amount?: string | null
-          display_name: string
+          delivered_at?: string | null
           id?: string
-          is_active?: boolean
-          name: string
-          network: string
-          plan_id?: number | null
-          product_id?: string | null
-          provider: string
-          selling_price: number
-          service_id?: number | null
-          updated_at?: string
-          validity?: string | null
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload: Json
+          status?: string
+          transaction_id: string
+          url: string
         }
         Update: {
-          api_price?: number
-          category?: string
+          api_key_id?: string
+          attempts?: number
           created_at?: string
-          data_amount?: string | null
-          display_name?: string
+          delivered_at?: string | null
           id?: string
-          is_active?: boolean
-          name?: string
-          network?: string
-          plan_id?: number | null
-          product_id?: string | null
-          provider?: string
-          selling_price?: number
-          service_id?: number | null
-          updated_at?: string
-          validity?: string | null
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          status?: string
+          transaction_id?: string
+          url?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "api_callbacks_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_callbacks_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      electricity_providers: {
+      api_keys: {
         Row: {
-          code: string
+          allowed_ips: string[]
+          callback_secret: string
+          callback_url: string | null
           created_at: string
-          discount_percent: number
+          expires_at: string | null
           id: string
-          is_active: boolean
+          key_hash: string
+          last_used_at: string | null
+          last_used_ip: string | null
           name: string
-          service_id: number
+          prefix: string
+          rate_limit_per_minute: number
+          revoked_at: string | null
+          rotated_from: string | null
+          scopes: string[]
+          user_id: string
         }
         Insert: {
-          code: string
+          allowed_ips?: string[]
+          callback_secret: string
+          callback_url?: string | null
           created_at?: string
-          discount_percent?: number
+          expires_at?: string | null
           id?: string
-          is_active?: boolean
+          key_hash: string
+          last_used_at?: string | null
+          last_used_ip?: string | null
           name: string
-          service_id: number
+          prefix: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          rotated_from?: string | null
+          scopes?: string[]
+          user_id: string
         }
         Update: {
-          code?: string
+          allowed_ips?: string[]
+          callback_secret?: string
+          callback_url?: string | null
           created_at?: string
-          discount_percent?: number
+          expires_at?: string | null
           id?: string
-          is_active?: boolean
+          key_hash?: string
+          last_used_at?: string | null
+          last_used_ip?: string | null
           name?: string
-          service_id?: number
+          prefix?: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          rotated_from?: string | null
+          scopes?: string[]
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_rotated_from_fkey"
+            columns: ["rotated_from"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      exam_pins: {
+      api_providers: {
         Row: {
-          code: string
+          base_url: string
+          callback_allowed_ips: string[]
+          callback_auth: string
+          callback_signature_header: string | null
           created_at: string
           id: string
           is_active: boolean
           name: string
-          price: number
-          service_id: number
+          priority: number
         }
         Insert: {
-          code: string
+          base_url: string
+          callback_allowed_ips?: string[]
+          callback_auth?: string
+          callback_signature_header?: string | null
           created_at?: string
           id?: string
           is_active?: boolean
           name: string
-          price: number
-          service_id: number
+          priority?: number
         }
         Update: {
-          code?: string
+          base_url?: string
+          callback_allowed_ips?: string[]
+          callback_auth?: string
+          callback_signature_header?: string | null
           created_at?: string
           id?: string
           is_active?: boolean
           name?: string
-          price?: number
-          service_id?: number
+          priority?: number
         }
         Relationships: []
       }
-      notification_logs: {
+      api_rate_limit_windows: {
         Row: {
-          body: string
-          data: Json | null
-          failure_count: number
-          id: string
-          sent_at: string
-          sent_by: string | null
-          sent_count: number
-          success_count: number
-          target_type: string
-          target_user_id: string | null
-          title: string
+          api_key_id: string
+          request_count: number
+          window_start: string
         }
         Insert: {
-          body: string
-          data?: Json | null
-          failure_count?: number
-          id?: string
-          sent_at?: string
-          sent_by?: string | null
-          sent_count?: number
-          success_count?: number
-          target_type?: string
-          target_user_id?: string | null
-          title: string
+          api_key_id: string
+          request_count?: number
+          window_start: string
         }
         Update: {
-          body?: string
-          data?: Json | null
-          failure_count?: number
+          api_key_id?: string
+          request_count?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_rate_limit_windows_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_request_logs: {
+        Row: {
+          api_key_id: string
+          created_at: string
+          duration_ms: number | null
+          error: string | null
+          id: string
+          ip: string | null
+          method: string
+          path: string
+          reference: string | null
+          status_code: number
+          user_id: string
+        }
+        Insert: {
+          api_key_id: string
+          created_at?: string
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          ip?: string | null
+          method: string
+          path: string
+          reference?: string | null
+          status_code: number
+          user_id: string
+        }
+        Update: {
+          api_key_id?: string
+          created_at?: string
+          duration_ms?: number | null
+          error?: string | null
+          id?: string
+          ip?: string | null
+          method?: string
+          path?: string
+          reference?: string | null
+          status_code?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_request_logs_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auto_topup_rules: {
+        Row: {
+          amount: number | null
+          created_at: string
+          id: string
+          is_active: boolean
+          last_triggered_at: string | null
+          min_credit_amount: number
+          network: string
+          phone_number: string
+          plan_id: string | null
+          product_type: string
+          recipient_name: string | null
+          spend_limit: number | null
+          spend_limit_period: string
+          trigger_type: string
+          updated_at: string
+          user_id: string
+          window_end_hour: number | null
+          window_period: string | null
+          window_start_hour: number | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_triggered_at?: string | null
+          min_credit_amount?: number
+          network: string
+          phone_number: string
+          plan_id?: string | null
+          product_type: string
+          recipient_name?: string | null
+          spend_limit?: number | null
+          spend_limit_period?: string
+          trigger_type: string
+          updated_at?: string
+          user_id: string
+          window_end_hour?: number | null
+          window_period?: string | null
+          window_start_hour?: number | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_triggered_at?: string | null
+          min_credit_amount?: number
+          network?: string
+          phone_number?: string
+          plan_id?: string | null
+          product_type?: string
+          recipient_name?: string | null
+          spend_limit?: number | null
+          spend_limit_period?: string
+          trigger_type?: string
+          updated_at?: string
+          user_id?: string
+          window_end_hour?: number | null
+          window_period?: string | null
+          window_start_hour?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_topup_rules_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auto_topup_runs: {
+        Row: {
+          claimed_at: string | null
+          cost: number | null
+          created_at: string
+          error: string | null
+          id: string
+          processed_at: string | null
+          reference: string | null
+          rule_id: string
+          status: string
+          trigger_reference: string
+          trigger_type: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          cost?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          processed_at?: string | null
+          reference?: string | null
+          rule_id: string
+          status?: string
+          trigger_reference: string
+          trigger_type: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string | null
+          cost?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          processed_at?: string | null
+          reference?: string | null
+          rule_id?: string
+          status?: string
+          trigger_reference?: string
+          trigger_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_topup_runs_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "auto_topup_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      beneficiaries: {
+        Row: {
+          created_at: string
+          customer_name: string | null
+          id: string
+          is_favorite: boolean
+          kind: string
+          last_products: Json
+          last_used_at: string
+          nickname: string | null
+          provider: string | null
+          updated_at: string
+          user_id: string
+          value: string
+          verified_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          customer_name?: string | null
+          id?: string
+          is_favorite?: boolean
+          kind: string
+          last_products?: Json
+          last_used_at?: string
+          nickname?: string | null
+          provider?: string | null
+          updated_at?: string
+          user_id: string
+          value: string
+          verified_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          customer_name?: string | null
+          id?: string
+          is_favorite?: boolean
+          kind?: string
+          last_products?: Json
+          last_used_at?: string
+          nickname?: string | null
+          provider?: string | null
+          updated_at?: string
+          user_id?: string
+          value?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      bulk_order_lines: {
+        Row: {
+          amount: number | null
+          claimed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          line_no: number
+          order_id: string
+          phone_number: string
+          ported: boolean
+          processed_at: string | null
+          reference: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          claimed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          line_no: number
+          order_id: string
+          phone_number: string
+          ported?: boolean
+          processed_at?: string | null
+          reference?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          claimed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          line_no?: number
+          order_id?: string
+          phone_number?: string
+          ported?: boolean
+          processed_at?: string | null
+          reference?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_order_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_orders: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          estimated_total: number
+          id: string
+          line_count: number
+          network: string
+          plan_id: string | null
+          plan_name: string | null
+          product_type: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          estimated_total: number
+          id?: string
+          line_count: number
+          network: string
+          plan_id?: string | null
+          plan_name?: string | null
+          product_type: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          estimated_total?: number
+          id?: string
+          line_count?: number
+          network?: string
+          plan_id?: string | null
+          plan_name?: string | null
+          product_type?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_orders_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cable_bouquets: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          plan_id: number
+          price: number
+          provider_code: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          plan_id: number
+          price: number
+          provider_code: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          plan_id?: number
+          price?: number
+          provider_code?: string
+        }
+        Relationships: []
+      }
+      cable_providers: {
+        Row: {
+          api_provider: string
+          code: string
+          created_at: string
+          discount_percent: number
+          id: string
+          is_active: boolean
+          name: string
+          service_id: number
+        }
+        Insert: {
+          api_provider?: string
+          code: string
+          created_at?: string
+          discount_percent?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          service_id: number
+        }
+        Update: {
+          api_provider?: string
+          code?: string
+          created_at?: string
+          discount_percent?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          service_id?: number
+        }
+        Relationships: []
+      }
+      data_plans: {
+        Row: {
+          api_price: number
+          category: string
+          created_at: string
+          data_amount: string | null
+          display_name: string
+          id: string
+          is_active: boolean
+          name: string
+          network: string
+          plan_id: number | null
+          product_id: string | null
+          provider: string
+          selling_price: number
+          service_id: number | null
+          updated_at: string
+          validity: string | null
+        }
+        Insert: {
+          api_price: number
+          category?: string
+          created_at?: string
+          data_amount?: string | null
+          display_name: string
+          id?: string
+          is_active?: boolean
+          name: string
+          network: string
+          plan_id?: number | null
+          product_id?: string | null
+          provider: string
+          selling_price: number
+          service_id?: number | null
+          updated_at?: string
+          validity?: string | null
+        }
+        Update: {
+          api_price?: number
+          category?: string
+          created_at?: string
+          data_amount?: string | null
+          display_name?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          network?: string
+          plan_id?: number | null
+          product_id?: string | null
+          provider?: string
+          selling_price?: number
+          service_id?: number | null
+          updated_at?: string
+          validity?: string | null
+        }
+        Relationships: []
+      }
+      electricity_providers: {
+        Row: {
+          api_provider: string
+          code: string
+          created_at: string
+          discount_percent: number
+          id: string
+          is_active: boolean
+          name: string
+          service_id: number
+        }
+        Insert: {
+          api_provider?: string
+          code: string
+          created_at?: string
+          discount_percent?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          service_id: number
+        }
+        Update: {
+          api_provider?: string
+          code?: string
+          created_at?: string
+          discount_percent?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          service_id?: number
+        }
+        Relationships: []
+      }
+      exam_pins: {
+        Row: {
+          api_provider: string
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          service_id: number
+        }
+        Insert: {
+          api_provider?: string
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          service_id: number
+        }
+        Update: {
+          api_provider?: string
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          service_id?: number
+        }
+        Relationships: []
+      }
+      failover_rules: {
+        Row: {
+          allow_price_change: boolean
+          is_enabled: boolean
+          product: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allow_price_change?: boolean
+          is_enabled?: boolean
+          product: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allow_price_change?: boolean
+          is_enabled?: boolean
+          product?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      held_deposits: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          max_balance: number
+          reference: string
+          released_at: string | null
+          released_transaction_id: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          max_balance: number
+          reference: string
+          released_at?: string | null
+          released_transaction_id?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          max_balance?: number
+          reference?: string
+          released_at?: string | null
+          released_transaction_id?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "held_deposits_released_transaction_id_fkey"
+            columns: ["released_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          claimed_at: string
+          completed_at: string | null
+          created_at: string
+          endpoint: string
+          id: string
+          key: string
+          reference: string | null
+          request_hash: string | null
+          response_body: Json | null
+          response_status: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          completed_at?: string | null
+          created_at?: string
+          endpoint: string
+          id?: string
+          key: string
+          reference?: string | null
+          request_hash?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string
+          completed_at?: string | null
+          created_at?: string
+          endpoint?: string
+          id?: string
+          key?: string
+          reference?: string | null
+          request_hash?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      kyc_levels: {
+        Row: {
+          can_transfer: boolean
+          daily_spend_limit: number
+          id: string
+          level: number
+          max_balance: number
+          name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          can_transfer?: boolean
+          daily_spend_limit: number
+          id?: string
+          level: number
+          max_balance: number
+          name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          can_transfer?: boolean
+          daily_spend_limit?: number
+          id?: string
+          level?: number
+          max_balance?: number
+          name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      kyc_verifications: {
+        Row: {
+          created_at: string
+          dob_matched: boolean | null
+          failure_reason: string | null
+          id: string
+          id_number_hash: string
+          id_number_masked: string
+          id_type: string
+          name_matched: boolean | null
+          provider: string
+          provider_reference: string | null
+          returned_dob: string | null
+          returned_name: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dob_matched?: boolean | null
+          failure_reason?: string | null
+          id?: string
+          id_number_hash: string
+          id_number_masked: string
+          id_type: string
+          name_matched?: boolean | null
+          provider: string
+          provider_reference?: string | null
+          returned_dob?: string | null
+          returned_name?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dob_matched?: boolean | null
+          failure_reason?: string | null
+          id?: string
+          id_number_hash?: string
+          id_number_masked?: string
+          id_type?: string
+          name_matched?: boolean | null
+          provider?: string
+          provider_reference?: string | null
+          returned_dob?: string | null
+          returned_name?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ledger_reconciliation_flags: {
+        Row: {
+          detected_at: string
+          difference: number
+          id: string
+          ledger_balance: number
+          notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          user_id: string
+          wallet_balance: number
+        }
+        Insert: {
+          detected_at?: string
+          difference: number
+          id?: string
+          ledger_balance: number
+          notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          user_id: string
+          wallet_balance: number
+        }
+        Update: {
+          detected_at?: string
+          difference?: number
+          id?: string
+          ledger_balance?: number
+          notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          user_id?: string
+          wallet_balance?: number
+        }
+        Relationships: []
+      }
+      notification_logs: {
+        Row: {
+          body: string
+          data: Json | null
+          failure_count: number
+          id: string
+          sent_at: string
+          sent_by: string | null
+          sent_count: number
+          success_count: number
+          target_type: string
+          target_user_id: string | null
+          title: string
+        }
+        Insert: {
+          body: string
+          data?: Json | null
+          failure_count?: number
+          id?: string
+          sent_at?: string
+          sent_by?: string | null
+          sent_count?: number
+          success_count?: number
+          target_type?: string
+          target_user_id?: string | null
+          title: string
+        }
+        Update: {
+          body?: string
+          data?: Json | null
+          failure_count?: number
+          id?: string
+          sent_at?: string
+          sent_by?: string | null
+          sent_count?: number
+          success_count?: number
+          target_type?: string
+          target_user_id?: string | null
+          title?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          is_read: boolean
+          message: string
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message: string
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message?: string
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      password_otp_send_attempts: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          ip_address: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          ip_address?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          ip_address?: string | null
+        }
+        Relationships: []
+      }
+      password_reset_otps: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          failed_attempts: number
+          id: string
+          invalidated_at: string | null
+          ip_address: string | null
+          otp_hash: string
+          used: boolean | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at: string
+          failed_attempts?: number
+          id?: string
+          invalidated_at?: string | null
+          ip_address?: string | null
+          otp_hash: string
+          used?: boolean | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          failed_attempts?: number
+          id?: string
+          invalidated_at?: string | null
+          ip_address?: string | null
+          otp_hash?: string
+          used?: boolean | null
+        }
+        Relationships: []
+      }
+      paymentpoint_webhook_events: {
+        Row: {
+          created_at: string
+          event_timestamp: string | null
+          headers: Json
+          id: string
+          processed_at: string | null
+          quarantine_reason: string | null
+          raw_body: string
+          replayed_at: string | null
+          replayed_by: string | null
+          result: Json | null
+          signature: string | null
+          signature_valid: boolean
+          status: string
+          transaction_reference: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_timestamp?: string | null
+          headers?: Json
+          id?: string
+          processed_at?: string | null
+          quarantine_reason?: string | null
+          raw_body: string
+          replayed_at?: string | null
+          replayed_by?: string | null
+          result?: Json | null
+          signature?: string | null
+          signature_valid?: boolean
+          status?: string
+          transaction_reference?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_timestamp?: string | null
+          headers?: Json
+          id?: string
+          processed_at?: string | null
+          quarantine_reason?: string | null
+          raw_body?: string
+          replayed_at?: string | null
+          replayed_by?: string | null
+          result?: Json | null
+          signature?: string | null
+          signature_valid?: boolean
+          status?: string
+          transaction_reference?: string | null
+        }
+        Relationships: []
+      }
+      phone_otps: {
+        Row: {
+          created_at: string
+          expires_at: string
+          failed_attempts: number
+          id: string
+          invalidated_at: string | null
+          ip_address: string | null
+          otp_hash: string
+          phone: string
+          purpose: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          failed_attempts?: number
+          id?: string
+          invalidated_at?: string | null
+          ip_address?: string | null
+          otp_hash: string
+          phone: string
+          purpose: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          failed_attempts?: number
+          id?: string
+          invalidated_at?: string | null
+          ip_address?: string | null
+          otp_hash?: string
+          phone?: string
+          purpose?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      plan_sync_changes: {
+        Row: {
+          category: string
+          change_type: string
+          created_at: string
+          data_plan_id: string | null
+          id: string
+          network: string
+          new_api_price: number | null
+          old_api_price: number | null
+          old_selling_price: number | null
+          plan: Json | null
+          plan_key: string
+          proposed_selling_price: number | null
+          provider: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          run_id: string
+          status: string
+        }
+        Insert: {
+          category: string
+          change_type: string
+          created_at?: string
+          data_plan_id?: string | null
+          id?: string
+          network: string
+          new_api_price?: number | null
+          old_api_price?: number | null
+          old_selling_price?: number | null
+          plan?: Json | null
+          plan_key: string
+          proposed_selling_price?: number | null
+          provider: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          run_id: string
+          status?: string
+        }
+        Update: {
+          category?: string
+          change_type?: string
+          created_at?: string
+          data_plan_id?: string | null
+          id?: string
+          network?: string
+          new_api_price?: number | null
+          old_api_price?: number | null
+          old_selling_price?: number | null
+          plan?: Json | null
+          plan_key?: string
+          proposed_selling_price?: number | null
+          provider?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          run_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plan_sync_changes_data_plan_id_fkey"
+            columns: ["data_plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "plan_sync_changes_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "plan_sync_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plan_sync_runs: {
+        Row: {
+          errors: string[]
+          finished_at: string | null
+          id: string
+          started_at: string
+          summary: Json
+          triggered_by: string | null
+        }
+        Insert: {
+          errors?: string[]
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          summary?: Json
+          triggered_by?: string | null
+        }
+        Update: {
+          errors?: string[]
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          summary?: Json
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      plan_sync_settings: {
+        Row: {
+          id: string
+          is_enabled: boolean
+          markup_flat: number
+          markup_percent: number
+          round_to: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: string
+          is_enabled?: boolean
+          markup_flat?: number
+          markup_percent?: number
+          round_to?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: string
+          is_enabled?: boolean
+          markup_flat?: number
+          markup_percent?: number
+          round_to?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          account_number: string
+          avatar_url: string | null
+          created_at: string
+          date_of_birth: string | null
+          email: string | null
+          full_name: string
+          id: string
+          is_blocked: boolean
+          kyc_grace_until: string | null
+          kyc_level: number
+          phone: string
+          phone_verified_at: string | null
+          referral_code: string
+          referred_by: string | null
+          tier_assigned_at: string | null
+          tier_id: string | null
+          updated_at: string
+          user_id: string
+          virtual_account_bank: string | null
+          virtual_account_bvn_linked_at: string | null
+          virtual_account_name: string | null
+          virtual_account_number: string | null
+          virtual_account_reference: string | null
+        }
+        Insert: {
+          account_number: string
+          avatar_url?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          email?: string | null
+          full_name: string
+          id?: string
+          is_blocked?: boolean
+          kyc_grace_until?: string | null
+          kyc_level?: number
+          phone: string
+          phone_verified_at?: string | null
+          referral_code: string
+          referred_by?: string | null
+          tier_assigned_at?: string | null
+          tier_id?: string | null
+          updated_at?: string
+          user_id: string
+          virtual_account_bank?: string | null
+          virtual_account_bvn_linked_at?: string | null
+          virtual_account_name?: string | null
+          virtual_account_number?: string | null
+          virtual_account_reference?: string | null
+        }
+        Update: {
+          account_number?: string
+          avatar_url?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          email?: string | null
+          full_name?: string
+          id?: string
+          is_blocked?: boolean
+          kyc_grace_until?: string | null
+          kyc_level?: number
+          phone?: string
+          phone_verified_at?: string | null
+          referral_code?: string
+          referred_by?: string | null
+          tier_assigned_at?: string | null
+          tier_id?: string | null
+          updated_at?: string
+          user_id?: string
+          virtual_account_bank?: string | null
+          virtual_account_bvn_linked_at?: string | null
+          virtual_account_name?: string | null
+          virtual_account_number?: string | null
+          virtual_account_reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_referred_by_fkey"
+            columns: ["referred_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "user_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_callbacks: {
+        Row: {
+          authenticated: boolean
+          created_at: string
+          headers: Json
+          id: string
+          provider: string | null
+          raw_body: string
+          reference: string | null
+          rejection_reason: string | null
+          reported_status: string | null
+          resulting_status: string | null
+          source_ip: string | null
+          state_changed: boolean
+          transaction_id: string | null
+        }
+        Insert: {
+          authenticated?: boolean
+          created_at?: string
+          headers?: Json
+          id?: string
+          provider?: string | null
+          raw_body: string
+          reference?: string | null
+          rejection_reason?: string | null
+          reported_status?: string | null
+          resulting_status?: string | null
+          source_ip?: string | null
+          state_changed?: boolean
+          transaction_id?: string | null
+        }
+        Update: {
+          authenticated?: boolean
+          created_at?: string
+          headers?: Json
+          id?: string
+          provider?: string | null
+          raw_body?: string
+          reference?: string | null
+          rejection_reason?: string | null
+          reported_status?: string | null
+          resulting_status?: string | null
+          source_ip?: string | null
+          state_changed?: boolean
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_callbacks_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_service_mappings: {
+        Row: {
+          api_provider: string
+          bouquet_id: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          plan_id: number | null
+          product: string
+          provider_code: string
+          service_id: number
+        }
+        Insert: {
+          api_provider: string
+          bouquet_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          plan_id?: number | null
+          product: string
+          provider_code: string
+          service_id: number
+        }
+        Update: {
+          api_provider?: string
+          bouquet_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          plan_id?: number | null
+          product?: string
+          provider_code?: string
+          service_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_service_mappings_bouquet_id_fkey"
+            columns: ["bouquet_id"]
+            isOneToOne: false
+            referencedRelation: "cable_bouquets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string | null
+          created_at: string
+          device_info: Json | null
+          endpoint: string
+          id: string
+          p256dh: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          auth?: string | null
+          created_at?: string
+          device_info?: Json | null
+          endpoint: string
+          id?: string
+          p256dh?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          auth?: string | null
+          created_at?: string
+          device_info?: Json | null
+          endpoint?: string
+          id?: string
+          p256dh?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      referral_settings: {
+        Row: {
+          id: string
+          is_enabled: boolean
+          min_funding_amount: number
+          referrer_bonus: number
+          requires_approval: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: string
+          is_enabled?: boolean
+          min_funding_amount?: number
+          referrer_bonus?: number
+          requires_approval?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: string
+          is_enabled?: boolean
+          min_funding_amount?: number
+          referrer_bonus?: number
+          requires_approval?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      referrals: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          bonus_paid_at: string | null
+          created_at: string
+          funding_amount: number | null
+          funding_triggered_at: string | null
+          id: string
+          referee_bonus: number | null
+          referee_id: string
+          referrer_bonus: number | null
+          referrer_id: string
+          status: Database["public"]["Enums"]["referral_status"]
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          bonus_paid_at?: string | null
+          created_at?: string
+          funding_amount?: number | null
+          funding_triggered_at?: string | null
+          id?: string
+          referee_bonus?: number | null
+          referee_id: string
+          referrer_bonus?: number | null
+          referrer_id: string
+          status?: Database["public"]["Enums"]["referral_status"]
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          bonus_paid_at?: string | null
+          created_at?: string
+          funding_amount?: number | null
+          funding_triggered_at?: string | null
           id?: string
-          sent_at?: string
-          sent_by?: string | null
-          sent_count?: number
-          success_count?: number
-          target_type?: string
-          target_user_id?: string | null
-          title?: string
+          referee_bonus?: number | null
+          referee_id?: string
+          referrer_bonus?: number | null
+          referrer_id?: string
+          status?: Database["public"]["Enums"]["referral_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referrals_referee_id_fkey"
+            columns: ["referee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_referrer_id_fkey"
+            columns: ["referrer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      requery_settings: {
+        Row: {
+          batch_size: number
+          id: string
+          is_enabled: boolean
+          max_age_hours: number
+          min_age_minutes: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          batch_size?: number
+          id?: string
+          is_enabled?: boolean
+          max_age_hours?: number
+          min_age_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          batch_size?: number
+          id?: string
+          is_enabled?: boolean
+          max_age_hours?: number
+          min_age_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
-      notifications: {
+      reversal_settings: {
+        Row: {
+          approval_threshold: number
+          id: string
+          require_second_approval: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          approval_threshold?: number
+          id?: string
+          require_second_approval?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          approval_threshold?: number
+          id?: string
+          require_second_approval?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      scheduled_purchase_runs: {
         Row: {
           created_at: string
+          error: string | null
           id: string
-          is_read: boolean
-          message: string
-          title: string
-          type: string
+          reference: string | null
+          schedule_id: string
+          status: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          error?: string | null
           id?: string
-          is_read?: boolean
-          message: string
-          title: string
-          type?: string
+          reference?: string | null
+          schedule_id: string
+          status: string
           user_id: string
         }
         Update: {
           created_at?: string
+          error?: string | null
           id?: string
-          is_read?: boolean
-          message?: string
-          title?: string
-          type?: string
+          reference?: string | null
+          schedule_id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_purchase_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_purchases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_purchases: {
+        Row: {
+          amount: number | null
+          bouquet_id: string | null
+          consecutive_failures: number
+          created_at: string
+          customer_name: string | null
+          day_of_month: number | null
+          day_of_week: number | null
+          frequency: string
+          id: string
+          label: string
+          last_run_at: string | null
+          network: string | null
+          next_run_at: string | null
+          paused_reason: string | null
+          phone_number: string | null
+          plan_id: string | null
+          product_type: string
+          provider_code: string | null
+          run_hour: number
+          smartcard_number: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          bouquet_id?: string | null
+          consecutive_failures?: number
+          created_at?: string
+          customer_name?: string | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          frequency: string
+          id?: string
+          label: string
+          last_run_at?: string | null
+          network?: string | null
+          next_run_at?: string | null
+          paused_reason?: string | null
+          phone_number?: string | null
+          plan_id?: string | null
+          product_type: string
+          provider_code?: string | null
+          run_hour?: number
+          smartcard_number?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          bouquet_id?: string | null
+          consecutive_failures?: number
+          created_at?: string
+          customer_name?: string | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          frequency?: string
+          id?: string
+          label?: string
+          last_run_at?: string | null
+          network?: string | null
+          next_run_at?: string | null
+          paused_reason?: string | null
+          phone_number?: string | null
+          plan_id?: string | null
+          product_type?: string
+          provider_code?: string | null
+          run_hour?: number
+          smartcard_number?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_purchases_bouquet_id_fkey"
+            columns: ["bouquet_id"]
+            isOneToOne: false
+            referencedRelation: "cable_bouquets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_purchases_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "data_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tier_price_overrides: {
+        Row: {
+          created_at: string
+          discount_percent: number | null
+          id: string
+          price: number | null
+          product_id: string
+          product_type: string
+          tier_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          discount_percent?: number | null
+          id?: string
+          price?: number | null
+          product_id: string
+          product_type: string
+          tier_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          discount_percent?: number | null
+          id?: string
+          price?: number | null
+          product_id?: string
+          product_type?: string
+          tier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tier_price_overrides_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "user_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_pins: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          pin_iterations: number
+          pin_salt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          pin_iterations?: number
+          pin_salt: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          pin_iterations?: number
+          pin_salt?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      password_reset_otps: {
+      transaction_reversals: {
         Row: {
+          amount: number
+          completed_at: string | null
           created_at: string
-          email: string
-          expires_at: string
           id: string
-          otp_code: string
-          used: boolean | null
+          is_full: boolean
+          note: string | null
+          reason_code: string
+          requested_by: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          transaction_id: string
+          user_id: string
         }
         Insert: {
+          amount: number
+          completed_at?: string | null
           created_at?: string
-          email: string
-          expires_at: string
           id?: string
-          otp_code: string
-          used?: boolean | null
+          is_full: boolean
+          note?: string | null
+          reason_code: string
+          requested_by: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          transaction_id: string
+          user_id: string
         }
         Update: {
+          amount?: number
+          completed_at?: string | null
           created_at?: string
-          email?: string
-          expires_at?: string
           id?: string
-          otp_code?: string
-          used?: boolean | null
+          is_full?: boolean
+          note?: string | null
+          reason_code?: string
+          requested_by?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          transaction_id?: string
+          user_id?: string
         }
         Relationships: []
       }
-      profiles: {
+      transactions: {
         Row: {
-          account_number: string
-          avatar_url: string | null
+          amount: number
+          category: Database["public"]["Enums"]["transaction_category"]
           created_at: string
-          email: string | null
-          full_name: string
+          description: string
           id: string
-          is_blocked: boolean
-          phone: string
-          referral_code: string
-          referred_by: string | null
-          updated_at: string
+          metadata: Json | null
+          reference: string | null
+          status: Database["public"]["Enums"]["transaction_status"]
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category: Database["public"]["Enums"]["transaction_category"]
+          created_at?: string
+          description: string
+          id?: string
+          metadata?: Json | null
+          reference?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
+          type: Database["public"]["Enums"]["transaction_type"]
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: Database["public"]["Enums"]["transaction_category"]
+          created_at?: string
+          description?: string
+          id?: string
+          metadata?: Json | null
+          reference?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
+          type?: Database["public"]["Enums"]["transaction_type"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transfer_settings: {
+        Row: {
+          daily_limit: number
+          id: string
+          is_enabled: boolean
+          max_amount: number
+          min_amount: number
+          unverified_daily_limit: number
+          unverified_max_amount: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          daily_limit?: number
+          id?: string
+          is_enabled?: boolean
+          max_amount?: number
+          min_amount?: number
+          unverified_daily_limit?: number
+          unverified_max_amount?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          daily_limit?: number
+          id?: string
+          is_enabled?: boolean
+          max_amount?: number
+          min_amount?: number
+          unverified_daily_limit?: number
+          unverified_max_amount?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      trusted_devices: {
+        Row: {
+          created_at: string
+          device_id: string
+          device_name: string | null
+          id: string
+          last_seen_at: string
           user_id: string
-          virtual_account_bank: string | null
-          virtual_account_name: string | null
-          virtual_account_number: string | null
-          virtual_account_reference: string | null
         }
         Insert: {
-          account_number: string
-          avatar_url?: string | null
           created_at?: string
-          email?: string | null
-          full_name: string
+          device_id: string
+          device_name?: string | null
           id?: string
-          is_blocked?: boolean
-          phone: string
-          referral_code: string
-          referred_by?: string | null
-          updated_at?: string
+          last_seen_at?: string
           user_id: string
-          virtual_account_bank?: string | null
-          virtual_account_name?: string | null
-          virtual_account_number?: string | null
-          virtual_account_reference?: string | null
         }
         Update: {
-          account_number?: string
-          avatar_url?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string
+          device_id?: string
+          device_name?: string | null
           id?: string
-          is_blocked?: boolean
-          phone?: string
-          referral_code?: string
-          referred_by?: string | null
-          updated_at?: string
+          last_seen_at?: string
           user_id?: string
-          virtual_account_bank?: string | null
-          virtual_account_name?: string | null
-          virtual_account_number?: string | null
-          virtual_account_reference?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "profiles_referred_by_fkey"
-            columns: ["referred_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      push_subscriptions: {
+      user_roles: {
         Row: {
-          auth: string | null
-          created_at: string
-          device_info: Json | null
-          endpoint: string
           id: string
-          p256dh: string | null
-          updated_at: string
-          user_id: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Insert: {
-          auth?: string | null
-          created_at?: string
-          device_info?: Json | null
-          endpoint: string
           id?: string
-          p256dh?: string | null
-          updated_at?: string
-          user_id?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Update: {
-          auth?: string | null
-          created_at?: string
-          device_info?: Json | null
-          endpoint?: string
           id?: string
-          p256dh?: string | null
-          updated_at?: string
-          user_id?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
-      referral_settings: {
+      user_tiers: {
         Row: {
+          airtime_discount_percent: number
+          cable_discount_percent: number
+          created_at: string
+          data_discount_percent: number
+          description: string | null
+          exam_pin_discount_percent: number
           id: string
-          is_enabled: boolean
-          min_funding_amount: number
-          referrer_bonus: number
-          requires_approval: boolean
+          is_default: boolean
+          min_monthly_spend: number | null
+          name: string
+          rank: number
+          slug: string
           updated_at: string
-          updated_by: string | null
         }
         Insert: {
+          airtime_discount_percent?: number
+          cable_discount_percent?: number
+          created_at?: string
+          data_discount_percent?: number
+          description?: string | null
+          exam_pin_discount_percent?: number
           id?: string
-          is_enabled?: boolean
-          min_funding_amount?: number
-          referrer_bonus?: number
-          requires_approval?: boolean
+          is_default?: boolean
+          min_monthly_spend?: number | null
+          name: string
+          rank?: number
+          slug: string
           updated_at?: string
-          updated_by?: string | null
         }
         Update: {
+          airtime_discount_percent?: number
+          cable_discount_percent?: number
+          created_at?: string
+          data_discount_percent?: number
+          description?: string | null
+          exam_pin_discount_percent?: number
           id?: string
-          is_enabled?: boolean
-          min_funding_amount?: number
-          referrer_bonus?: number
-          requires_approval?: boolean
+          is_default?: boolean
+          min_monthly_spend?: number | null
+          name?: string
+          rank?: number
+          slug?: string
           updated_at?: string
-          updated_by?: string | null
         }
         Relationships: []
       }
-      referrals: {
+      wallet_ledger: {
         Row: {
-          approved_at: string | null
-          approved_by: string | null
-          bonus_paid_at: string | null
+          account: string
+          amount: number
+          balance_after: number | null
           created_at: string
-          funding_amount: number | null
-          funding_triggered_at: string | null
+          description: string | null
+          entry_type: Database["public"]["Enums"]["transaction_type"]
           id: string
-          referee_bonus: number | null
-          referee_id: string
-          referrer_bonus: number | null
-          referrer_id: string
-          status: Database["public"]["Enums"]["referral_status"]
+          journal_id: string
+          reference: string | null
+          reverses_entry_id: string | null
+          transaction_id: string | null
+          user_id: string
         }
         Insert: {
-          approved_at?: string | null
-          approved_by?: string | null
-          bonus_paid_at?: string | null
+          account: string
+          amount: number
+          balance_after?: number | null
           created_at?: string
-          funding_amount?: number | null
-          funding_triggered_at?: string | null
+          description?: string | null
+          entry_type: Database["public"]["Enums"]["transaction_type"]
           id?: string
-          referee_bonus?: number | null
-          referee_id: string
-          referrer_bonus?: number | null
-          referrer_id: string
-          status?: Database["public"]["Enums"]["referral_status"]
+          journal_id: string
+          reference?: string | null
+          reverses_entry_id?: string | null
+          transaction_id?: string | null
+          user_id: string
         }
         Update: {
-          approved_at?: string | null
-          approved_by?: string | null
-          bonus_paid_at?: string | null
+          account?: string
+          amount?: number
+          balance_after?: number | null
           created_at?: string
-          funding_amount?: number | null
-          funding_triggered_at?: string | null
+          description?: string | null
+          entry_type?: Database["public"]["Enums"]["transaction_type"]
           id?: string
-          referee_bonus?: number | null
-          referee_id?: string
-          referrer_bonus?: number | null
-          referrer_id?: string
-          status?: Database["public"]["Enums"]["referral_status"]
+          journal_id?: string
+          reference?: string | null
+          reverses_entry_id?: string | null
+          transaction_id?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "referrals_referee_id_fkey"
-            columns: ["referee_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "referrals_referrer_id_fkey"
-            columns: ["referrer_id"]
+            foreignKeyName: "wallet_ledger_reverses_entry_id_fkey"
+            columns: ["reverses_entry_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "wallet_ledger"
             referencedColumns: ["id"]
           },
         ]
       }
-      transactions: {
+      wallets: {
         Row: {
-          amount: number
-          category: Database["public"]["Enums"]["transaction_category"]
+          balance: number
           created_at: string
-          description: string
           id: string
-          metadata: Json | null
-          reference: string | null
-          status: Database["public"]["Enums"]["transaction_status"]
-          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string
           user_id: string
         }
         Insert: {
-          amount: number
-          category: Database["public"]["Enums"]["transaction_category"]
+          balance?: number
           created_at?: string
-          description: string
           id?: string
-          metadata?: Json | null
-          reference?: string | null
-          status?: Database["public"]["Enums"]["transaction_status"]
-          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
           user_id: string
         }
         Update: {
-          amount?: number
-          category?: Database["public"]["Enums"]["transaction_category"]
+          balance?: number
           created_at?: string
-          description?: string
           id?: string
-          metadata?: Json | null
-          reference?: string | null
-          status?: Database["public"]["Enums"]["transaction_status"]
-          type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      user_roles: {
+      webhook_deliveries: {
         Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          event: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string
+          payload: Json
+          status: string
+          transaction_id: string | null
           user_id: string
         }
         Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          event: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload: Json
+          status?: string
+          transaction_id?: string | null
           user_id: string
         }
         Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          event?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          status?: string
+          transaction_id?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      wallets: {
+      webhook_endpoints: {
         Row: {
-          balance: number
           created_at: string
+          description: string | null
           id: string
+          is_active: boolean
+          secret: string
           updated_at: string
+          url: string
           user_id: string
         }
         Insert: {
-          balance?: number
           created_at?: string
+          description?: string | null
           id?: string
+          is_active?: boolean
+          secret: string
           updated_at?: string
+          url: string
           user_id: string
         }
         Update: {
-          balance?: number
           created_at?: string
+          description?: string | null
           id?: string
+          is_active?: boolean
+          secret?: string
           updated_at?: string
+          url?: string
           user_id?: string
         }
         Relationships: []
@@ -624,12 +2541,121 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      deduct_wallet_balance: {
+      apply_tier_upgrades: { Args: never; Returns: number }
+      apply_transaction_reversal: {
+        Args: { p_reversal_id: string; p_reviewed_by?: string }
+        Returns: Json
+      }
+      approve_airtime_cash_request: {
+        Args: {
+          p_amount_received?: number
+          p_note?: string
+          p_request_id: string
+          p_reviewed_by: string
+        }
+        Returns: Json
+      }
+      assert_kyc_daily_spend: {
         Args: { p_amount: number; p_user_id: string }
-        Returns: number
+        Returns: undefined
+      }
+      claim_password_otp_attempt: {
+        Args: { p_email: string }
+        Returns: {
+          attempts_remaining: number
+          otp_hash: string
+          otp_id: string
+        }[]
+      }
+      claim_password_otp_send: {
+        Args: { p_email: string; p_ip_address: string }
+        Returns: undefined
+      }
+      claim_phone_otp_attempt: {
+        Args: { p_purpose: string; p_user_id: string }
+        Returns: {
+          attempts_remaining: number
+          otp_hash: string
+          otp_id: string
+          phone: string
+        }[]
+      }
+      claim_transaction_pin_attempt: {
+        Args: { p_user_id: string }
+        Returns: {
+          attempts_remaining: number
+          pin_hash: string
+          pin_iterations: number
+          pin_salt: string
+        }[]
+      }
+      close_deleted_account: {
+        Args: { p_request_id: string }
+        Returns: Json
+      }
+      complete_account_deletion: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      credit_deposit: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_metadata?: Json
+          p_reference: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      credit_wallet: {
+        Args: {
+          p_amount: number
+          p_category: Database["public"]["Enums"]["transaction_category"]
+          p_contra_account?: string
+          p_description: string
+          p_metadata?: Json
+          p_reference: string
+          p_status?: Database["public"]["Enums"]["transaction_status"]
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      debit_wallet: {
+        Args: {
+          p_amount: number
+          p_category: Database["public"]["Enums"]["transaction_category"]
+          p_contra_account?: string
+          p_description: string
+          p_metadata?: Json
+          p_reference: string
+          p_status?: Database["public"]["Enums"]["transaction_status"]
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      expire_kyc_grace_periods: { Args: never; Returns: number }
+      fail_pending_transaction: {
+        Args: {
+          p_description?: string
+          p_metadata: Json
+          p_transaction_id: string
+        }
+        Returns: Json
       }
       generate_account_number: { Args: never; Returns: string }
       generate_referral_code: { Args: never; Returns: string }
+      get_airtime_cash_total_today: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      get_spend_total_today: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      get_transfer_total_today: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -637,6 +2663,110 @@ export type Database = {
         }
         Returns: boolean
       }
+      hit_api_rate_limit: {
+        Args: { p_api_key_id: string }
+        Returns: number
+      }
+      issue_password_otp: {
+        Args: {
+          p_email: string
+          p_expires_at: string
+          p_ip_address: string
+          p_otp_hash: string
+        }
+        Returns: string
+      }
+      issue_phone_otp: {
+        Args: {
+          p_expires_at: string
+          p_ip_address: string
+          p_otp_hash: string
+          p_phone: string
+          p_purpose: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      post_wallet_journal: {
+        Args: {
+          p_amount: number
+          p_contra_account: string
+          p_description: string
+          p_entry_type: Database["public"]["Enums"]["transaction_type"]
+          p_reference: string
+          p_reverses_entry_id?: string
+          p_transaction_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      reconcile_wallet_ledger: { Args: never; Returns: number }
+      refresh_kyc_level: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      release_all_held_deposits: { Args: never; Returns: number }
+      release_held_deposits: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      request_transaction_reversal: {
+        Args: {
+          p_amount: number
+          p_is_full: boolean
+          p_note: string
+          p_reason_code: string
+          p_requested_by: string
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      reset_password_otp_attempts: {
+        Args: { p_otp_id: string }
+        Returns: undefined
+      }
+      reset_transaction_pin_attempts: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      reverse_entry: {
+        Args: { p_amount?: number; p_description?: string; p_entry_id: string }
+        Returns: Json
+      }
+      reverse_transaction: {
+        Args: { p_description?: string; p_transaction_id: string }
+        Returns: Json
+      }
+      submit_airtime_cash_request: {
+        Args: {
+          p_amount: number
+          p_network: string
+          p_proof_path?: string
+          p_sender_phone: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      transaction_reversible_amount: {
+        Args: { p_transaction_id: string }
+        Returns: number
+      }
+      transfer_wallet_funds: {
+        Args: {
+          p_amount: number
+          p_metadata?: Json
+          p_recipient_description: string
+          p_recipient_id: string
+          p_reference: string
+          p_sender_description: string
+          p_sender_id: string
+        }
+        Returns: Json
+      }
+      wallet_balance_cap: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -651,7 +2781,9 @@ export type Database = {
         | "referral_bonus"
         | "cable"
         | "exam"
-      transaction_status: "pending" | "completed" | "failed"
+        | "airtime_to_cash"
+        | "account_closure"
+      transaction_status: "pending" | "completed" | "failed" | "reversed"
       transaction_type: "credit" | "debit"
     }
     CompositeTypes: {
@@ -792,8 +2924,10 @@ export const Constants = {
         "referral_bonus",
         "cable",
         "exam",
+        "airtime_to_cash",
+        "account_closure",
       ],
-      transaction_status: ["pending", "completed", "failed"],
+      transaction_status: ["pending", "completed", "failed", "reversed"],
       transaction_type: ["credit", "debit"],
     },
   },
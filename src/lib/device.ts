@@ -0,0 +1,37 @@
+import { Capacitor } from '@capacitor/core';
+
+const DEVICE_ID_KEY = 'device_id';
+
+/**
+ * Random id for this install, used to recognise devices the user has already
+ * confirmed with an SMS code. Clearing app storage makes it a new device.
+ */
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+/** Rough label shown in notifications, e.g. "Android app" or "Chrome on Windows" */
+export function getDeviceName(): string {
+  const platform = Capacitor.getPlatform();
+  if (platform === 'android') return 'Android app';
+  if (platform === 'ios') return 'iPhone app';
+
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const os = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Mac OS/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+}
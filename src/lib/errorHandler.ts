@@ -43,6 +43,43 @@ const ERROR_PATTERNS: { pattern: RegExp | string; title: string; message: string
     title: 'Invalid Number',
     message: 'Please check the number you entered and try again.',
   },
+  // Transfer errors
+  {
+    pattern: /daily transfer limit/i,
+    title: 'Daily Limit Reached',
+    message: 'This transfer would exceed your daily transfer limit. Try a smaller amount or try again tomorrow.',
+  },
+  {
+    pattern: /(minimum|maximum) transfer amount/i,
+    title: 'Invalid Amount',
+    message: 'The amount is outside the allowed transfer range.',
+  },
+  {
+    pattern: /account not found|valid 10-digit account number/i,
+    title: 'Account Not Found',
+    message: 'No account matches that number. Please check and try again.',
+  },
+  {
+    pattern: /transfer to your own account/i,
+    title: 'Invalid Recipient',
+    message: 'You cannot transfer to your own account.',
+  },
+  // Transaction PIN errors
+  {
+    pattern: /too many incorrect pin attempts|pin.*locked/i,
+    title: 'PIN Locked',
+    message: 'Too many incorrect PIN attempts. Please wait a while and try again.',
+  },
+  {
+    pattern: /incorrect pin/i,
+    title: 'Incorrect PIN',
+    message: 'The transaction PIN you entered is wrong. Please try again.',
+  },
+  {
+    pattern: /set up your transaction pin|transaction pin is required/i,
+    title: 'PIN Required',
+    message: 'Please set up your transaction PIN to continue.',
+  },
   // Authentication errors
   {
     pattern: /not authenticated|auth.*error|session.*expired|unauthorized/i,
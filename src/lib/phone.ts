@@ -0,0 +1,69 @@
+/**
+ * Normalize a Nigerian phone number to 11 digits starting with 0.
+ * Accepts +234..., 234..., 0..., with spaces/dashes.
+ */
+export function normalizeNigerianPhone(raw: string): string | null {
+  const digits = (raw || '').replace(/\D/g, '');
+  if (!digits) return null;
+
+  let local = digits;
+  if (local.startsWith('234')) {
+    local = '0' + local.slice(3);
+  } else if (!local.startsWith('0') && local.length === 10) {
+    local = '0' + local;
+  }
+
+  if (local.length === 11 && local.startsWith('0')) return local;
+  return null;
+}
+
+// Nigerian phone number prefixes mapped to networks. Keep in sync with
+// supabase/functions/_shared/phone.ts. Split 0702 blocks use five digits.
+export const networkPrefixes: Record<string, string[]> = {
+  mtn: [
+    '07025', '07026', '0703', '0704', '0706', '0707', '0803', '0806', '0810', '0813', '0814', '0816',
+    '0903', '0906', '0913', '0916',
+  ],
+  airtel: ['0701', '0708', '0802', '0808', '0812', '0901', '0902', '0904', '0907', '0911', '0912'],
+  glo: ['0705', '0805', '0807', '0811', '0815', '0905', '0915'],
+  '9mobile': ['0809', '0817', '0818', '0908', '0909'],
+};
+
+/**
+ * The 0-prefixed local form of a number, also while it is still being typed:
+ * the full number normalized, else +234/234 input with the country code
+ * swapped for 0.
+ */
+const localDigits = (phone: string): string => {
+  const normalized = normalizeNigerianPhone(phone);
+  if (normalized) return normalized;
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.startsWith('234') ? '0' + digits.slice(3) : digits;
+};
+
+// Function to detect network from phone number (longest matching prefix wins)
+export const detectNetwork = (phone: string): string | null => {
+  const cleanPhone = localDigits(phone);
+  if (cleanPhone.length < 4) return null;
+
+  let best: { network: string; length: number } | null = null;
+  for (const [network, prefixes] of Object.entries(networkPrefixes)) {
+    for (const prefix of prefixes) {
+      if (cleanPhone.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { network, length: prefix.length };
+      }
+    }
+  }
+  return best?.network ?? null;
+};
+
+/**
+ * The network a complete number's prefix belongs to when it differs from the
+ * chosen one, i.e. the number is either mistyped or ported. Null otherwise.
+ */
+export const networkMismatch = (phone: string, network: string | null): string | null => {
+  const cleanPhone = normalizeNigerianPhone(phone);
+  if (!network || !cleanPhone) return null;
+  const detected = detectNetwork(cleanPhone);
+  return detected && detected !== network.toLowerCase() ? detected : null;
+};
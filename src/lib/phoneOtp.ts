@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PhoneOtpPurpose = 'verify_phone' | 'change_email' | 'reset_pin' | 'new_device';
+
+interface PhoneOtpResponse {
+  success?: boolean;
+  error?: string;
+  code?: string;
+  retry_after?: number;
+  masked_phone?: string | null;
+  phone?: string;
+  phone_verified?: boolean;
+  phone_verified_at?: string | null;
+  device_trusted?: boolean;
+}
+
+export interface PhoneStatus {
+  phone: string;
+  maskedPhone: string | null;
+  phoneVerified: boolean;
+  phoneVerifiedAt: string | null;
+  deviceTrusted: boolean;
+}
+
+const VERIFY_AFTER_SIGN_UP_KEY = 'verify_phone_after_sign_up';
+
+// Sign-up hands over to the dashboard, which shows the verification dialog once
+export function requestPhoneVerificationAfterSignUp(): void {
+  sessionStorage.setItem(VERIFY_AFTER_SIGN_UP_KEY, 'true');
+}
+
+export function isPhoneVerificationRequested(): boolean {
+  return sessionStorage.getItem(VERIFY_AFTER_SIGN_UP_KEY) === 'true';
+}
+
+export function clearPhoneVerificationRequest(): void {
+  sessionStorage.removeItem(VERIFY_AFTER_SIGN_UP_KEY);
+}
+
+// Call the phone-otp edge function, unwrapping non-2xx bodies
+export async function invokePhoneOtp(body: Record<string, unknown>): Promise<{ data: PhoneOtpResponse | null; error: string | null; code?: string }> {
+  const { data, error } = await supabase.functions.invoke('phone-otp', { body });
+  if (!error) return { data, error: null };
+
+  try {
+    const context = (error as { context?: Response }).context;
+    if (context) {
+      const parsed = (await context.clone().json()) as PhoneOtpResponse;
+      return { data: parsed, error: parsed.error || 'Request failed', code: parsed.code };
+    }
+  } catch {
+    // fall through to the SDK message
+  }
+  return { data: null, error: error.message || 'Request failed' };
+}
+
+/** Whether the signed-in user's phone is verified, and whether this device was confirmed */
+export async function fetchPhoneStatus(deviceId?: string): Promise<PhoneStatus | null> {
+  const { data, error } = await invokePhoneOtp({ action: 'status', device_id: deviceId });
+  if (error || !data) return null;
+
+  return {
+    phone: data.phone || '',
+    maskedPhone: data.masked_phone ?? null,
+    phoneVerified: !!data.phone_verified,
+    phoneVerifiedAt: data.phone_verified_at ?? null,
+    deviceTrusted: !!data.device_trusted,
+  };
+}
@@ -0,0 +1,130 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+interface TransactionPinResponse {
+  has_pin?: boolean;
+  valid?: boolean;
+  success?: boolean;
+  error?: string;
+  code?: string;
+}
+
+export interface PinCheckResult {
+  valid: boolean;
+  error?: string;
+  code?: string;
+}
+
+// Only a hint for offering PIN login while signed out; the PIN is always checked by the server
+const TRANSACTION_PIN_SET_KEY = 'transaction_pin_set';
+const BIOMETRIC_FOR_TRANSACTIONS_KEY = 'biometric_for_transactions';
+
+// Call the transaction-pin edge function, unwrapping non-2xx bodies
+export async function invokeTransactionPin(
+  body: Record<string, unknown>,
+  client: SupabaseClient<Database> = supabase
+): Promise<{ data: TransactionPinResponse | null; error: string | null; code?: string }> {
+  const { data, error } = await client.functions.invoke('transaction-pin', { body });
+  if (!error) return { data, error: null };
+
+  try {
+    const context = (error as { context?: Response }).context;
+    if (context) {
+      const parsed = (await context.clone().json()) as TransactionPinResponse;
+      return { data: parsed, error: parsed.error || 'PIN request failed', code: parsed.code };
+    }
+  } catch {
+    // fall through to the SDK message
+  }
+  return { data: null, error: error.message || 'PIN request failed' };
+}
+
+// Record that the user has a PIN once the server has accepted one
+export function markTransactionPinSet(): void {
+  localStorage.setItem(TRANSACTION_PIN_SET_KEY, 'true');
+}
+
+/** Ask the server whether the signed-in user has a transaction PIN */
+export async function isTransactionPinSetup(): Promise<boolean> {
+  const { data, error } = await invokeTransactionPin({ action: 'status' });
+  if (error || !data) return false;
+
+  if (data.has_pin) {
+    markTransactionPinSet();
+  } else {
+    localStorage.removeItem(TRANSACTION_PIN_SET_KEY);
+  }
+  return !!data.has_pin;
+}
+
+// Last answer this device saw, for screens shown before anyone is signed in
+export function isTransactionPinKnownSet(): boolean {
+  return localStorage.getItem(TRANSACTION_PIN_SET_KEY) === 'true';
+}
+
+export async function checkTransactionPin(pin: string): Promise<PinCheckResult> {
+  const { data, error, code } = await invokeTransactionPin({ action: 'verify', pin });
+  if (error || !data?.valid) {
+    return { valid: false, error: error || 'Incorrect PIN', code };
+  }
+
+  markTransactionPinSet();
+  return { valid: true };
+}
+
+/**
+ * Check the PIN for PIN login. Signed out there is no session to check it against,
+ * so sign in on a throwaway client that never touches the app's stored session.
+ */
+export async function checkTransactionPinForLogin(email: string, password: string, pin: string): Promise<PinCheckResult> {
+  const client = createClient<Database>(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { error: signInError } = await client.auth.signInWithPassword({ email, password });
+  if (signInError) {
+    return { valid: false, error: 'Sign in failed', code: 'SIGN_IN_FAILED' };
+  }
+
+  try {
+    const { data, error, code } = await invokeTransactionPin({ action: 'verify', pin }, client);
+    if (error || !data?.valid) {
+      return { valid: false, error: error || 'Incorrect PIN', code };
+    }
+    return { valid: true };
+  } finally {
+    await client.auth.signOut({ scope: 'local' });
+  }
+}
+
+/** Replace a forgotten PIN, proving identity with the reset_pin SMS code */
+export async function resetTransactionPin(otp: string, newPin: string): Promise<{ error: string | null; code?: string }> {
+  const { error, code } = await invokeTransactionPin({ action: 'reset', otp, new_pin: newPin });
+  if (error) return { error, code };
+
+  markTransactionPinSet();
+  return { error: null };
+}
+
+export async function verifyTransactionPin(pin: string): Promise<boolean> {
+  const result = await checkTransactionPin(pin);
+  return result.valid;
+}
+
+// Forget this device's PIN hint; the server PIN is untouched
+export function clearTransactionPin(): void {
+  localStorage.removeItem(TRANSACTION_PIN_SET_KEY);
+}
+
+export function isBiometricForTransactionsEnabled(): boolean {
+  return localStorage.getItem(BIOMETRIC_FOR_TRANSACTIONS_KEY) === 'true';
+}
+
+export function setBiometricForTransactions(enabled: boolean): void {
+  if (enabled) {
+    localStorage.setItem(BIOMETRIC_FOR_TRANSACTIONS_KEY, 'true');
+  } else {
+    localStorage.removeItem(BIOMETRIC_FOR_TRANSACTIONS_KEY);
+  }
+}
@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -62,7 +63,22 @@ export default function AddMoney() {
       console.log('Create virtual account response:', response);
 
       if (response.error) {
-        throw new Error(response.error.message);
+        const context = (response.error as { context?: Response }).context;
+        const body = context ? await context.clone().json().catch(() => null) : null;
+        // PaymentPoint only issues this account to customers with a verified BVN
+        if (body?.code === 'BVN_REQUIRED') {
+          toast({
+            title: 'Verify Your BVN',
+            description: 'A verified BVN is needed before we can create your account number.',
+            action: (
+              <ToastAction altText="Verify" onClick={() => navigate('/bvn-nin')}>
+                Verify
+              </ToastAction>
+            ),
+          });
+          return;
+        }
+        throw new Error(body?.error || response.error.message);
       }
 
       if (response.data?.success) {
@@ -8,11 +8,17 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
-import { TransactionPinDialog, isTransactionPinSetup } from '@/components/auth/TransactionPinDialog';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
 import { TransactionReceipt } from '@/components/TransactionReceipt';
-import { useRecentRecipients } from '@/hooks/useRecentRecipients';
+import { Beneficiary, useBeneficiaries } from '@/hooks/useBeneficiaries';
+import { IDEMPOTENCY_HEADER, useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { useTierPricing } from '@/hooks/useTierPricing';
 import { ContactPickerButton } from '@/components/ContactPickerButton';
 import { SavedRecipients } from '@/components/SavedRecipients';
+import { PortedNumberNotice } from '@/components/PortedNumberNotice';
+import { usePortedNumber } from '@/hooks/usePortedNumber';
+import { detectNetwork } from '@/lib/phone';
 
 import mtnLogo from '@/assets/mtn-logo.png';
 import airtelLogo from '@/assets/airtel-logo.jpg';
@@ -28,29 +34,6 @@ const networks = [
 
 const quickAmounts = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
 
-// Nigerian phone number prefixes mapped to networks
-const networkPrefixes: Record<string, string[]> = {
-  mtn: ['0703', '0706', '0803', '0806', '0810', '0813', '0814', '0816', '0903', '0906', '0913', '0916'],
-  airtel: ['0701', '0708', '0802', '0808', '0812', '0901', '0902', '0904', '0907', '0912'],
-  glo: ['0705', '0805', '0807', '0811', '0815', '0905', '0915'],
-  '9mobile': ['0809', '0817', '0818', '0908', '0909'],
-};
-
-// Function to detect network from phone number
-const detectNetwork = (phone: string): string | null => {
-  const cleanPhone = phone.replace(/\D/g, '');
-  if (cleanPhone.length < 4) return null;
-  
-  const prefix = cleanPhone.substring(0, 4);
-  
-  for (const [network, prefixes] of Object.entries(networkPrefixes)) {
-    if (prefixes.includes(prefix)) {
-      return network;
-    }
-  }
-  return null;
-};
-
 interface AirtimePlan {
   id: string;
   provider: string;
@@ -72,43 +55,68 @@ interface LastTransaction {
 export default function Airtime() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { keyFor, settle } = useIdempotencyKey();
+  const { airtimeDiscountOf } = useTierPricing('airtime');
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [amount, setAmount] = useState('');
   const [purchasing, setPurchasing] = useState(false);
-  const [bestPlan, setBestPlan] = useState<AirtimePlan | null>(null);
+  const [airtimePlans, setAirtimePlans] = useState<AirtimePlan[]>([]);
   const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
   const [pendingPurchase, setPendingPurchase] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastTransaction, setLastTransaction] = useState<LastTransaction | null>(null);
-  const { recipients, saveRecipient, removeRecipient } = useRecentRecipients('airtime');
+  const { beneficiaries, saveBeneficiary, updateBeneficiary, removeBeneficiary } = useBeneficiaries('phone');
+  const ported = usePortedNumber(phoneNumber, selectedNetwork);
 
   const handlePickFromContacts = ({ phone, name }: { phone: string; name?: string }) => {
     setPhoneNumber(phone);
     const detected = detectNetwork(phone);
     if (detected) setSelectedNetwork(detected);
-    if (name) {
+    if (name && !beneficiaries.some((b) => b.value === phone)) {
       // Pre-save so the chip shows the name on next visit
-      saveRecipient(phone, name);
+      saveBeneficiary(phone, { nickname: name });
     }
   };
 
-  const handleSelectSaved = (phone: string) => {
-    setPhoneNumber(phone);
-    const detected = detectNetwork(phone);
-    if (detected) setSelectedNetwork(detected);
+  const handleSelectSaved = (beneficiary: Beneficiary) => {
+    setPhoneNumber(beneficiary.value);
+    const network = beneficiary.provider || detectNetwork(beneficiary.value);
+    if (network) setSelectedNetwork(network);
+    // A saved network that differs from the prefix was confirmed as ported on an earlier purchase
+    if (beneficiary.provider) ported.setConfirmed(true, beneficiary.value, beneficiary.provider);
   };
 
-  // Fetch best airtime plan when network changes
+  const repeatLabel = (b: Beneficiary) => {
+    const product = b.last_products.airtime;
+    return product?.amount ? `₦${Number(product.amount).toLocaleString()} ${String(product.network).toUpperCase()} airtime` : null;
+  };
+
+  // The saved purchase was valid when it was made, so go straight to the PIN
+  const handleRepeat = (b: Beneficiary) => {
+    const product = b.last_products.airtime;
+    if (!product?.amount || !product.network) return;
+    setPhoneNumber(b.value);
+    setSelectedNetwork(String(product.network));
+    setAmount(String(product.amount));
+    ported.setConfirmed(true, b.value, String(product.network));
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  // Fetch airtime plans when network changes
   useEffect(() => {
     if (selectedNetwork) {
-      fetchBestAirtimePlan(selectedNetwork);
+      fetchAirtimePlans(selectedNetwork);
     } else {
-      setBestPlan(null);
+      setAirtimePlans([]);
     }
   }, [selectedNetwork]);
 
-  const fetchBestAirtimePlan = async (network: string) => {
+  const fetchAirtimePlans = async (network: string) => {
     try {
       // Fetch all airtime plans for this network from both providers
       const { data, error } = await supabase
@@ -122,10 +130,7 @@ export default function Airtime() {
 
       const plans = (data || []) as unknown as AirtimePlan[];
       
-      // Pick the plan with the highest discount (cheapest for user)
-      if (plans.length > 0) {
-        setBestPlan(plans[0]);
-      }
+      setAirtimePlans(plans);
     } catch (error) {
       console.error('Error fetching airtime plans:', error);
     }
@@ -162,30 +167,37 @@ export default function Airtime() {
       return false;
     }
 
+    if (ported.needsConfirmation) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the Network',
+        description: `This looks like a ${ported.detectedNetwork?.toUpperCase()} number. Switch network or confirm it was ported.`,
+      });
+      return false;
+    }
+
     return true;
   };
 
   const handlePurchaseClick = () => {
     if (!validateForm()) return;
 
-    // Check if PIN is setup
-    if (isTransactionPinSetup()) {
+    // Every purchase needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
       setShowPinDialog(true);
-    } else {
-      // If no PIN setup, proceed directly
-      executePurchase();
-    }
+    });
   };
 
-  const handlePinVerified = () => {
+  const handlePinVerified = (pin: string) => {
     setShowPinDialog(false);
-    executePurchase();
+    executePurchase(pin);
   };
 
   const purchaseLockRef = useRef(false);
   const lastPurchaseTimeRef = useRef(0);
 
-  const executePurchase = async () => {
+  const executePurchase = async (pin: string) => {
     // Prevent duplicate submissions
     if (purchaseLockRef.current) return;
     const now = Date.now();
@@ -218,12 +230,16 @@ export default function Airtime() {
       }
 
       const { data, error } = await supabase.functions.invoke('buy-airtime', {
+        headers: { [IDEMPOTENCY_HEADER]: keyFor({ network: selectedNetwork, phone_number: cleanPhone, amount: amountValue }) },
         body: {
           network: selectedNetwork,
           phone_number: cleanPhone,
           amount: amountValue,
+          pin,
+          ported: ported.confirmed,
         },
       });
+      settle(error);
 
       // Handle errors - the SDK puts non-2xx responses in error, with body in error.context
       if (error) {
@@ -257,7 +273,11 @@ export default function Airtime() {
 
       if (data?.success) {
         // Save recipient for quick re-use
-        saveRecipient(cleanPhone);
+        saveBeneficiary(cleanPhone, {
+          provider: selectedNetwork,
+          service: 'airtime',
+          product: { network: selectedNetwork, amount: amountValue },
+        });
 
         // Set last transaction for receipt
         setLastTransaction({
@@ -310,10 +330,14 @@ export default function Airtime() {
     }).format(price);
   };
 
+  // The plan with the highest discount for the user's tier is the one charged
+  const bestDiscount = airtimePlans.length > 0
+    ? Math.max(...airtimePlans.map((plan) => airtimeDiscountOf(plan.id, plan.discount_percent)))
+    : 0;
+
   // Calculate discounted price
   const getDiscountedPrice = (amt: number) => {
-    if (!bestPlan) return amt;
-    return amt * (1 - bestPlan.discount_percent / 100);
+    return amt * (1 - bestDiscount / 100);
   };
 
   const amountNum = parseFloat(amount) || 0;
@@ -390,15 +414,27 @@ export default function Airtime() {
               maxLength={11}
               autoComplete="tel"
             />
-            {selectedNetwork && phoneNumber.length >= 4 && (
+            {selectedNetwork && phoneNumber.length >= 4 && !ported.detectedNetwork && (
               <p className="text-xs text-muted-foreground mt-1">
                 Network detected: <span className="font-medium text-primary">{networks.find(n => n.id === selectedNetwork)?.name}</span>
               </p>
             )}
+            {selectedNetwork && ported.detectedNetwork && (
+              <PortedNumberNotice
+                detectedNetwork={ported.detectedNetwork}
+                network={selectedNetwork}
+                confirmed={ported.confirmed}
+                onConfirmedChange={(value) => ported.setConfirmed(value)}
+                onSwitchNetwork={() => setSelectedNetwork(ported.detectedNetwork)}
+              />
+            )}
             <SavedRecipients
-              recipients={recipients}
+              recipients={beneficiaries}
               onSelect={handleSelectSaved}
-              onRemove={removeRecipient}
+              onRemove={removeBeneficiary}
+              onUpdate={updateBeneficiary}
+              repeatLabel={repeatLabel}
+              onRepeat={handleRepeat}
             />
           </div>
 
@@ -449,15 +485,15 @@ export default function Airtime() {
           </div>
 
           {/* Price Summary with Discount */}
-          {amountNum > 0 && bestPlan && (
+          {amountNum > 0 && airtimePlans.length > 0 && (
             <div className="mb-4 p-4 rounded-xl bg-muted/50 border border-border">
               <div className="flex justify-between items-center mb-2">
                 <span className="text-sm text-muted-foreground">Airtime Value</span>
                 <span className="font-medium">{formatPrice(amountNum)}</span>
               </div>
               <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-muted-foreground">Discount ({bestPlan.discount_percent}%)</span>
-                <span className="font-medium text-green-600">-{formatPrice(amountNum * bestPlan.discount_percent / 100)}</span>
+                <span className="text-sm text-muted-foreground">Discount ({bestDiscount}%)</span>
+                <span className="font-medium text-green-600">-{formatPrice(amountNum * bestDiscount / 100)}</span>
               </div>
               <div className="border-t border-border pt-2 mt-2">
                 <div className="flex justify-between items-center">
@@ -492,9 +528,9 @@ export default function Airtime() {
         open={showPinDialog}
         onOpenChange={setShowPinDialog}
         onComplete={handlePinVerified}
-        mode="verify"
-        title="Enter Transaction PIN"
-        description="Enter your 4-digit PIN to authorize this purchase"
+        mode={pinDialogMode}
+        title={pinDialogMode === 'verify' ? 'Enter Transaction PIN' : undefined}
+        description={pinDialogMode === 'verify' ? 'Enter your 4-digit PIN to authorize this purchase' : undefined}
       />
 
       {/* Transaction Receipt */}
@@ -0,0 +1,413 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { ArrowLeft, Copy, ImagePlus, Loader2, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeNigerianPhone } from '@/lib/phone';
+
+import mtnLogo from '@/assets/mtn-logo.png';
+import airtelLogo from '@/assets/airtel-logo.jpg';
+import gloLogo from '@/assets/glo-logo.jpg';
+import nineMobileLogo from '@/assets/9mobile-logo.jpg';
+
+const networks = [
+  { id: 'mtn', name: 'MTN', logo: mtnLogo },
+  { id: 'airtel', name: 'Airtel', logo: airtelLogo },
+  { id: 'glo', name: 'Glo', logo: gloLogo },
+  { id: '9mobile', name: '9mobile', logo: nineMobileLogo },
+];
+
+const MAX_PROOF_BYTES = 5 * 1024 * 1024;
+
+interface AirtimeCashRate {
+  network: string;
+  rate_percent: number;
+  receiving_number: string;
+  min_amount: number;
+  max_amount: number;
+}
+
+interface AirtimeCashRequest {
+  id: string;
+  network: string;
+  amount: number;
+  rate_percent: number;
+  payout_amount: number;
+  amount_received: number | null;
+  sender_phone: string;
+  status: 'pending' | 'approved' | 'rejected';
+  review_note: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+interface AirtimeCashStatus {
+  is_enabled: boolean;
+  daily_limit: number;
+  used_today: number;
+  remaining_today: number;
+  rates: AirtimeCashRate[];
+  requests: AirtimeCashRequest[];
+}
+
+// Call the airtime-to-cash edge function, unwrapping non-2xx bodies
+async function invokeAirtimeToCash(body: Record<string, unknown>): Promise<{ data: Record<string, unknown> | null; error: string | null }> {
+  const { data, error } = await supabase.functions.invoke('airtime-to-cash', { body });
+  if (!error) return { data, error: null };
+
+  try {
+    const context = (error as { context?: Response }).context;
+    if (context) {
+      const parsed = (await context.clone().json()) as { error?: string };
+      return { data: parsed, error: parsed.error || 'Request failed' };
+    }
+  } catch {
+    // fall through to the SDK message
+  }
+  return { data: null, error: error.message || 'Request failed' };
+}
+
+const formatNaira = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', {
+    style: 'currency',
+    currency: 'NGN',
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+const statusBadge = (status: AirtimeCashRequest['status']) => {
+  switch (status) {
+    case 'approved':
+      return <Badge className="bg-green-500/10 text-green-600 hover:bg-green-500/10">Paid</Badge>;
+    case 'rejected':
+      return <Badge variant="destructive">Declined</Badge>;
+    default:
+      return <Badge variant="secondary">Under review</Badge>;
+  }
+};
+
+export default function AirtimeToCash() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<AirtimeCashStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [senderPhone, setSenderPhone] = useState('');
+  const [proof, setProof] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    const { data, error } = await invokeAirtimeToCash({ action: 'status' });
+    if (!error && data) {
+      setStatus(data as unknown as AirtimeCashStatus);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const rate = status?.rates.find((r) => r.network === selectedNetwork) || null;
+  const amountValue = Number(amount) || 0;
+  const payout = rate ? Math.round(amountValue * rate.rate_percent) / 100 : 0;
+  const amountError = !rate || !amountValue
+    ? null
+    : amountValue < rate.min_amount
+      ? `Minimum is ${formatNaira(rate.min_amount)}`
+      : amountValue > rate.max_amount
+        ? `Maximum is ${formatNaira(rate.max_amount)}`
+        : status && amountValue > status.remaining_today
+          ? `You can convert ${formatNaira(status.remaining_today)} more today`
+          : null;
+  const amountReady = !!rate && amountValue > 0 && !amountError;
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: 'Copied!',
+      description: `${label} copied to clipboard`,
+    });
+  };
+
+  const handleProofChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') || file.size > MAX_PROOF_BYTES) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Screenshot',
+        description: 'Choose an image under 5MB',
+      });
+      return;
+    }
+    setProof(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !rate || !amountReady) return;
+
+    const phone = normalizeNigerianPhone(senderPhone);
+    if (!phone) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Number',
+        description: 'Enter the number you sent the airtime from',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      let proofPath: string | null = null;
+      if (proof) {
+        const extension = proof.name.split('.').pop()?.toLowerCase() || 'jpg';
+        const path = `${user.id}/${crypto.randomUUID()}.${extension}`;
+        const { error: uploadError } = await supabase.storage
+          .from('airtime-cash-proofs')
+          .upload(path, proof, { contentType: proof.type });
+        if (uploadError) throw new Error('Could not upload your screenshot. Try again or submit without it.');
+        proofPath = path;
+      }
+
+      const { error } = await invokeAirtimeToCash({
+        action: 'submit',
+        network: rate.network,
+        amount: amountValue,
+        sender_phone: phone,
+        proof_path: proofPath,
+      });
+      if (error) throw new Error(error);
+
+      toast({
+        title: 'Request Submitted',
+        description: `We will add ${formatNaira(payout)} to your wallet once your airtime is confirmed.`,
+      });
+      setAmount('');
+      setSenderPhone('');
+      setProof(null);
+      await fetchStatus();
+    } catch (error: unknown) {
+      toast({
+        variant: 'destructive',
+        title: 'Submission Failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top">
+        {/* Header */}
+        <div className="flex items-center gap-4 px-4 py-4">
+          <button onClick={() => navigate(-1)} className="p-2 -ml-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-bold text-foreground">Airtime to Cash</h1>
+        </div>
+
+        <div className="px-4 pb-6">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : !status?.is_enabled ? (
+            <div className="bg-card rounded-xl p-6 text-center shadow-sm">
+              <p className="font-medium text-foreground">Airtime to cash is currently unavailable</p>
+              <p className="text-sm text-muted-foreground mt-1">Please check back later.</p>
+            </div>
+          ) : (
+            <>
+              {/* Network Selection */}
+              <div className="mb-6">
+                <Label className="mb-3 block">Select Network</Label>
+                <div className="grid grid-cols-4 gap-3">
+                  {networks.map((network) => {
+                    const networkRate = status.rates.find((r) => r.network === network.id);
+                    return (
+                      <button
+                        key={network.id}
+                        onClick={() => setSelectedNetwork(network.id)}
+                        disabled={!networkRate}
+                        className={`p-3 rounded-xl border-2 transition-all disabled:opacity-40 ${
+                          selectedNetwork === network.id
+                            ? 'border-primary bg-primary/5 shadow-md'
+                            : 'border-border bg-card hover:border-primary/50'
+                        }`}
+                      >
+                        <div className={`w-12 h-12 rounded-full mx-auto mb-2 overflow-hidden shadow-sm ring-2 ring-offset-2 ring-offset-background ${
+                          selectedNetwork === network.id ? 'ring-primary' : 'ring-transparent'
+                        }`}>
+                          <img
+                            src={network.logo}
+                            alt={`${network.name} logo`}
+                            className="w-full h-full object-cover"
+                          />
+                        </div>
+                        <p className="text-xs font-medium text-center">{network.name}</p>
+                        <p className="text-[10px] text-muted-foreground text-center">
+                          {networkRate ? `${networkRate.rate_percent}%` : 'Unavailable'}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Amount */}
+              <div className="mb-6">
+                <Label htmlFor="amount">Airtime Amount</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder={rate ? `${rate.min_amount} - ${rate.max_amount}` : 'Select a network first'}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={!rate}
+                  className="mt-2"
+                />
+                {amountError ? (
+                  <p className="text-xs text-destructive mt-2">{amountError}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {formatNaira(status.remaining_today)} of your {formatNaira(status.daily_limit)} daily limit left
+                  </p>
+                )}
+              </div>
+
+              {rate && amountReady && (
+                <>
+                  {/* Conversion */}
+                  <div className="bg-card rounded-xl p-4 mb-6 shadow-sm space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Rate</span>
+                      <span className="font-medium">{rate.rate_percent}%</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">You send</span>
+                      <span className="font-medium">{formatNaira(amountValue)} airtime</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">You receive</span>
+                      <span className="font-semibold text-primary">{formatNaira(payout)}</span>
+                    </div>
+                  </div>
+
+                  {/* Where to send */}
+                  <div className="bg-primary/5 border border-primary/20 rounded-xl p-4 mb-6">
+                    <p className="text-sm text-foreground mb-2">
+                      Transfer exactly <span className="font-semibold">{formatNaira(amountValue)}</span> airtime to:
+                    </p>
+                    <div className="flex items-center justify-between bg-card rounded-lg px-3 py-2">
+                      <span className="font-mono text-lg font-semibold tracking-wide">{rate.receiving_number}</span>
+                      <button
+                        onClick={() => copyToClipboard(rate.receiving_number, 'Number')}
+                        className="p-2 -mr-2 text-primary"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Use your network's airtime transfer (Share 'n' Sell) service, then fill in the details below.
+                    </p>
+                  </div>
+
+                  {/* Sender details */}
+                  <div className="mb-6">
+                    <Label htmlFor="sender">Number You Sent From</Label>
+                    <Input
+                      id="sender"
+                      type="tel"
+                      placeholder="08012345678"
+                      value={senderPhone}
+                      onChange={(e) => setSenderPhone(e.target.value)}
+                      maxLength={14}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div className="mb-6">
+                    <Label className="mb-2 block">Screenshot (optional)</Label>
+                    {proof ? (
+                      <div className="flex items-center justify-between bg-card rounded-lg px-3 py-2 border border-border">
+                        <span className="text-sm truncate">{proof.name}</span>
+                        <button onClick={() => setProof(null)} className="p-1 text-muted-foreground">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border py-4 text-sm text-muted-foreground"
+                      >
+                        <ImagePlus className="w-4 h-4" /> Add the transfer confirmation
+                      </button>
+                    )}
+                    <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleProofChange} />
+                  </div>
+
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={handleSubmit}
+                    disabled={!senderPhone || submitting}
+                  >
+                    {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                    I Have Sent the Airtime
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+
+          {/* Recent Requests */}
+          {status && status.requests.length > 0 && (
+            <div className="mt-8">
+              <h2 className="font-semibold text-foreground mb-3">Recent Requests</h2>
+              <div className="space-y-2">
+                {status.requests.map((request) => (
+                  <div key={request.id} className="bg-card rounded-xl p-3 shadow-sm">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium">
+                          {formatNaira(request.amount)} {request.network.toUpperCase()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(request.created_at), 'MMM d, h:mm a')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        {statusBadge(request.status)}
+                        <p className="text-xs text-muted-foreground mt-1">{formatNaira(request.payout_amount)}</p>
+                      </div>
+                    </div>
+                    {request.status === 'rejected' && request.review_note && (
+                      <p className="text-xs text-destructive mt-2">{request.review_note}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </MobileLayout>
+  );
+}
@@ -0,0 +1,495 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Copy, KeyRound, RefreshCw, Trash2, Pencil, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  allowed_ips: string[];
+  rate_limit_per_minute: number;
+  callback_url: string | null;
+  callback_secret: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_at: string;
+}
+
+interface ApiRequestLog {
+  id: string;
+  api_key_id: string;
+  method: string;
+  path: string;
+  status_code: number;
+  ip: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+interface KeyForm {
+  name: string;
+  scopes: string[];
+  allowed_ips: string;
+  callback_url: string;
+}
+
+const SCOPES = [
+  { value: 'plans:read', label: 'Read plans & prices' },
+  { value: 'wallet:read', label: 'Read wallet balance' },
+  { value: 'purchase', label: 'Buy data & airtime' },
+  { value: 'transactions:read', label: 'Read transactions' },
+];
+
+const EMPTY_FORM: KeyForm = { name: '', scopes: SCOPES.map((s) => s.value), allowed_ips: '', callback_url: '' };
+
+async function callApiKeys(action: 'create' | 'update' | 'rotate' | 'revoke', body: Record<string, unknown> = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-keys`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action, ...body }),
+    }
+  );
+
+  return response.json();
+}
+
+function parseIps(value: string) {
+  return value.split(/[\s,]+/).map((ip) => ip.trim()).filter(Boolean);
+}
+
+export default function ApiKeys() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [logs, setLogs] = useState<ApiRequestLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ApiKey | null>(null);
+  const [form, setForm] = useState<KeyForm>(EMPTY_FORM);
+
+  // A key can spend the wallet, so issuing, rotating or changing one needs the PIN
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
+  const [pendingAction, setPendingAction] = useState<{ type: 'create' } | { type: 'update'; key: ApiKey } | { type: 'rotate'; key: ApiKey } | null>(null);
+
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+  const [visibleSecrets, setVisibleSecrets] = useState<Set<string>>(new Set());
+
+  const fetchKeys = useCallback(async () => {
+    const [keysResult, logsResult] = await Promise.all([
+      supabase
+        .from('api_keys')
+        .select('id, name, prefix, scopes, allowed_ips, rate_limit_per_minute, callback_url, callback_secret, expires_at, last_used_at, last_used_ip, created_at')
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('api_request_logs')
+        .select('id, api_key_id, method, path, status_code, ip, duration_ms, created_at')
+        .order('created_at', { ascending: false })
+        .limit(20),
+    ]);
+
+    if (keysResult.error) {
+      console.error('Failed to load API keys:', keysResult.error);
+    } else {
+      // Keys past their rotation grace period no longer work
+      setKeys((keysResult.data || []).filter((k) => !k.expires_at || new Date(k.expires_at) > new Date()));
+    }
+    if (!logsResult.error) setLogs(logsResult.data || []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const showError = (error: unknown) => {
+    const errorInfo = parseError(error);
+    toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+  };
+
+  const showApiError = (data: unknown) => {
+    const errorInfo = getApiErrorMessage(data);
+    toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const openEdit = (key: ApiKey) => {
+    setEditing(key);
+    setForm({
+      name: key.name,
+      scopes: key.scopes,
+      allowed_ips: key.allowed_ips.join('\n'),
+      callback_url: key.callback_url || '',
+    });
+    setFormOpen(true);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setForm((f) => ({
+      ...f,
+      scopes: checked ? [...f.scopes, scope] : f.scopes.filter((s) => s !== scope),
+    }));
+  };
+
+  const requestPin = (action: NonNullable<typeof pendingAction>) => {
+    setPendingAction(action);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const handleSubmitForm = async () => {
+    if (!form.name.trim() || form.scopes.length === 0) {
+      toast({ variant: 'destructive', title: 'Missing Details', description: 'Enter a name and choose at least one permission.' });
+      return;
+    }
+
+    requestPin(editing ? { type: 'update', key: editing } : { type: 'create' });
+  };
+
+  const handlePinComplete = async (pin: string) => {
+    setShowPinDialog(false);
+    if (!pendingAction) return;
+
+    const settings = {
+      name: form.name.trim(),
+      scopes: form.scopes,
+      allowed_ips: parseIps(form.allowed_ips),
+      callback_url: form.callback_url.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const data = pendingAction.type === 'create'
+        ? await callApiKeys('create', { pin, ...settings })
+        : pendingAction.type === 'update'
+          ? await callApiKeys('update', { pin, id: pendingAction.key.id, ...settings })
+          : await callApiKeys('rotate', { pin, id: pendingAction.key.id });
+
+      if (data.success) {
+        setFormOpen(false);
+        if (pendingAction.type === 'update') {
+          toast({ title: 'API Key Updated' });
+        } else {
+          setRevealedKey(data.key);
+        }
+        fetchKeys();
+      } else {
+        showApiError(data);
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+      setPendingAction(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+
+    try {
+      const data = await callApiKeys('revoke', { id: revoking.id });
+      if (data.success) {
+        toast({ title: 'API Key Revoked', description: `${revoking.name} can no longer be used.` });
+        fetchKeys();
+      } else {
+        showApiError(data);
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: 'Copied', description: `${label} copied to clipboard.` });
+  };
+
+  const toggleSecret = (id: string) => {
+    setVisibleSecrets((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const keyName = (id: string) => keys.find((k) => k.id === id)?.name || 'Revoked key';
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top px-4 py-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="w-10 h-10 rounded-full bg-muted flex items-center justify-center"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-bold">API Keys</h1>
+          </div>
+          <Button size="sm" onClick={openCreate} disabled={keys.length >= 10}>
+            <Plus className="w-4 h-4 mr-1" /> New Key
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-4">
+          Use API keys to sell data and airtime from your own website or app. Purchases are charged to your wallet at your tier's prices.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="bg-card rounded-xl p-6 shadow-sm text-center">
+            <KeyRound className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="font-medium">No API keys yet</p>
+            <p className="text-sm text-muted-foreground">Create a key to start using the API.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {keys.map((key) => (
+              <div key={key.id} className="bg-card rounded-xl p-4 shadow-sm space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{key.name}</p>
+                    <p className="text-xs font-mono text-muted-foreground">{key.prefix}…</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(key)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => requestPin({ type: 'rotate', key })} disabled={isSaving}>
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setRevoking(key)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {key.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary">{scope}</Badge>
+                  ))}
+                  {key.expires_at && (
+                    <Badge variant="destructive">Expires {new Date(key.expires_at).toLocaleString()}</Badge>
+                  )}
+                </div>
+
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>Rate limit: {key.rate_limit_per_minute} requests/minute</p>
+                  <p>Allowed IPs: {key.allowed_ips.length > 0 ? key.allowed_ips.join(', ') : 'Any'}</p>
+                  <p>Callback URL: {key.callback_url || 'Not set'}</p>
+                  <p>
+                    Last used: {key.last_used_at
+                      ? `${new Date(key.last_used_at).toLocaleString()}${key.last_used_ip ? ` from ${key.last_used_ip}` : ''}`
+                      : 'Never'}
+                  </p>
+                </div>
+
+                {key.callback_url && (
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 text-xs bg-muted rounded px-2 py-1 truncate">
+                      {visibleSecrets.has(key.id) ? key.callback_secret : '••••••••••••••••'}
+                    </code>
+                    <Button variant="ghost" size="icon" onClick={() => toggleSecret(key.id)}>
+                      {visibleSecrets.has(key.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => copyToClipboard(key.callback_secret, 'Callback secret')}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Recent Requests */}
+        {logs.length > 0 && (
+          <div className="mt-8">
+            <h2 className="font-semibold mb-3">Recent Requests</h2>
+            <div className="bg-card rounded-xl shadow-sm divide-y">
+              {logs.map((log) => (
+                <div key={log.id} className="p-3 text-xs flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-mono truncate">{log.method} {log.path}</p>
+                    <p className="text-muted-foreground">
+                      {keyName(log.api_key_id)} · {new Date(log.created_at).toLocaleString()}
+                      {log.ip ? ` · ${log.ip}` : ''}
+                    </p>
+                  </div>
+                  <Badge variant={log.status_code < 400 ? 'secondary' : 'destructive'}>{log.status_code}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit API Key' : 'New API Key'}</DialogTitle>
+            <DialogDescription>
+              {editing ? 'Changes apply immediately.' : 'You will be asked for your transaction PIN.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="key-name">Name</Label>
+              <Input
+                id="key-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. My website"
+                maxLength={60}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              {SCOPES.map((scope) => (
+                <div key={scope.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-${scope.value}`}
+                    checked={form.scopes.includes(scope.value)}
+                    onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                  />
+                  <Label htmlFor={`scope-${scope.value}`} className="font-normal">{scope.label}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="key-ips">Allowed IPs (optional)</Label>
+              <Textarea
+                id="key-ips"
+                value={form.allowed_ips}
+                onChange={(e) => setForm({ ...form, allowed_ips: e.target.value })}
+                placeholder="One per line. Leave empty to allow any IP."
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="key-callback">Callback URL (optional)</Label>
+              <Input
+                id="key-callback"
+                value={form.callback_url}
+                onChange={(e) => setForm({ ...form, callback_url: e.target.value })}
+                placeholder="https://example.com/vtu-callback"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmitForm} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {editing ? 'Save' : 'Create Key'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New key, shown once */}
+      <Dialog open={!!revealedKey} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your API Key</DialogTitle>
+            <DialogDescription>
+              Copy this key now. For your security it will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-muted rounded px-2 py-2 break-all">{revealedKey}</code>
+            <Button variant="outline" size="icon" onClick={() => revealedKey && copyToClipboard(revealedKey, 'API key')}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation */}
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revoking?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests made with this key will be rejected immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={handlePinComplete}
+        mode={pinDialogMode}
+      />
+    </MobileLayout>
+  );
+}
@@ -18,11 +18,14 @@ import {
   storeUserForPinLogin,
   clearStoredUserForPinLogin,
 } from '@/components/auth/PinLoginScreen';
-import { isTransactionPinSetup } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinKnownSet } from '@/lib/transactionPin';
+import { fetchPhoneStatus, requestPhoneVerificationAfterSignUp } from '@/lib/phoneOtp';
+import { normalizeNigerianPhone } from '@/lib/phone';
+import { getDeviceId } from '@/lib/device';
 
 const signUpSchema = z.object({
   fullName: z.string().min(2, 'Full name must be at least 2 characters'),
-  phone: z.string().min(10, 'Phone number must be at least 10 digits'),
+  phone: z.string().refine((value) => normalizeNigerianPhone(value) !== null, 'Enter a valid Nigerian mobile number'),
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   referralCode: z.string().optional(),
@@ -248,6 +251,11 @@ export default function Auth() {
       const data = await response.json();
 
       if (!response.ok) {
+        // The code is spent after too many wrong guesses; a new one has to be requested
+        if (response.status === 429) {
+          setOtpCode('');
+          setResetStep('email');
+        }
         throw new Error(data.error || 'Invalid OTP code');
       }
 
@@ -369,10 +377,13 @@ export default function Auth() {
               : error.message,
           });
         } else {
-          // Store credentials for biometric and PIN login
+          // Store credentials for biometric and PIN login. On a device the user has not
+          // confirmed with an SMS code they stay switched off until the dashboard asks for one.
           if (biometricAvailable) {
-            await setCredentials(formData.email, formData.password);
-            if (!biometricEnabled) {
+            const phoneStatus = await fetchPhoneStatus(getDeviceId());
+            const awaitingDeviceCheck = !!phoneStatus?.phoneVerified && !phoneStatus.deviceTrusted;
+            await setCredentials(formData.email, formData.password, !awaitingDeviceCheck);
+            if (!biometricEnabled && !awaitingDeviceCheck) {
               toast({
                 title: 'Biometric Enabled',
                 description: `You can now use ${getBiometricLabel()} to sign in faster.`,
@@ -399,7 +410,7 @@ export default function Auth() {
           formData.email,
           formData.password,
           formData.fullName,
-          formData.phone,
+          normalizeNigerianPhone(formData.phone) || formData.phone,
           formData.referralCode || undefined
         );
 
@@ -426,6 +437,9 @@ export default function Auth() {
             title: 'Welcome!',
             description: 'Your account has been created successfully.',
           });
+
+          // The dashboard asks for the SMS code that confirms the number
+          requestPhoneVerificationAfterSignUp();
           navigate('/dashboard');
         }
       }
@@ -454,7 +468,7 @@ export default function Auth() {
   }
 
   // Show PIN login screen for returning users
-  if (showPinLogin && storedUser && isTransactionPinSetup()) {
+  if (showPinLogin && storedUser && isTransactionPinKnownSet()) {
     return (
       <PinLoginScreen 
         storedUser={storedUser} 
@@ -0,0 +1,632 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Pause, Play, Trash2, Repeat } from 'lucide-react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTierPricing } from '@/hooks/useTierPricing';
+import { Beneficiary, useBeneficiaries } from '@/hooks/useBeneficiaries';
+import { usePortedNumber } from '@/hooks/usePortedNumber';
+import { getApiErrorMessage, parseError } from '@/lib/errorHandler';
+import { detectNetwork, normalizeNigerianPhone } from '@/lib/phone';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { SavedRecipients } from '@/components/SavedRecipients';
+import { PortedNumberNotice } from '@/components/PortedNumberNotice';
+
+const networks = [
+  { id: 'mtn', name: 'MTN' },
+  { id: 'airtel', name: 'Airtel' },
+  { id: 'glo', name: 'Glo' },
+  { id: '9mobile', name: '9mobile' },
+];
+
+type ProductType = 'data' | 'airtime';
+type TriggerType = 'wallet_credit' | 'time_window';
+
+interface DataPlan {
+  id: string;
+  display_name: string;
+  selling_price: number;
+  api_price: number;
+}
+
+interface Rule {
+  id: string;
+  recipient_name: string | null;
+  network: string;
+  phone_number: string;
+  product_type: string;
+  plan_id: string | null;
+  amount: number | null;
+  trigger_type: string;
+  min_credit_amount: number;
+  window_period: string | null;
+  window_start_hour: number | null;
+  window_end_hour: number | null;
+  spend_limit: number | null;
+  spend_limit_period: string;
+  is_active: boolean;
+}
+
+interface RuleRun {
+  id: string;
+  rule_id: string;
+  trigger_type: string;
+  status: string;
+  cost: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+const RUN_STATUS_VARIANTS: Record<string, 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'secondary',
+  failed: 'destructive',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(value);
+
+const formatHour = (hour: number) => `${((hour + 11) % 12) + 1}:00 ${hour % 24 < 12 ? 'AM' : 'PM'}`;
+
+function describeTrigger(rule: Rule) {
+  if (rule.trigger_type === 'wallet_credit') {
+    return Number(rule.min_credit_amount) > 0
+      ? `When you deposit ${formatCurrency(Number(rule.min_credit_amount))} or more`
+      : 'Whenever you fund your wallet';
+  }
+  return `Once a ${rule.window_period} between ${formatHour(rule.window_start_hour ?? 0)} and ${formatHour(rule.window_end_hour ?? 0)}`;
+}
+
+export default function AutoTopup() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { priceOf } = useTierPricing('data');
+
+  const [productType, setProductType] = useState<ProductType>('data');
+  const { beneficiaries, updateBeneficiary, removeBeneficiary } = useBeneficiaries('phone');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [recipientName, setRecipientName] = useState('');
+  const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
+  const [dataPlans, setDataPlans] = useState<DataPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [amount, setAmount] = useState('');
+  const ported = usePortedNumber(phoneNumber, selectedNetwork);
+
+  const [triggerType, setTriggerType] = useState<TriggerType>('wallet_credit');
+  const [minCredit, setMinCredit] = useState('');
+  const [windowPeriod, setWindowPeriod] = useState<'day' | 'week'>('week');
+  const [windowStart, setWindowStart] = useState('8');
+  const [windowEnd, setWindowEnd] = useState('20');
+  const [spendLimit, setSpendLimit] = useState('');
+  const [spendLimitPeriod, setSpendLimitPeriod] = useState<'day' | 'week' | 'month'>('week');
+
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
+  const [resumingRule, setResumingRule] = useState<Rule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [runs, setRuns] = useState<RuleRun[]>([]);
+  const [planNames, setPlanNames] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Rule | null>(null);
+
+  useEffect(() => {
+    setSelectedPlanId('');
+    if (!selectedNetwork || productType !== 'data') return;
+
+    supabase
+      .from('data_plans')
+      .select('id, display_name, selling_price, api_price')
+      .eq('network', selectedNetwork)
+      .eq('is_active', true)
+      .order('selling_price', { ascending: true })
+      .then(({ data }) => setDataPlans(data || []));
+  }, [productType, selectedNetwork]);
+
+  const fetchRules = useCallback(async () => {
+    const { data } = await supabase
+      .from('auto_topup_rules')
+      .select('id, recipient_name, network, phone_number, product_type, plan_id, amount, trigger_type, min_credit_amount, window_period, window_start_hour, window_end_hour, spend_limit, spend_limit_period, is_active')
+      .order('created_at', { ascending: false });
+
+    setRules(data || []);
+    if (!data?.length) {
+      setRuns([]);
+      return;
+    }
+
+    const { data: recentRuns } = await supabase
+      .from('auto_topup_runs')
+      .select('id, rule_id, trigger_type, status, cost, error, created_at')
+      .in('rule_id', data.map((r) => r.id))
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    setRuns(recentRuns || []);
+
+    const planIds = data.map((r) => r.plan_id).filter((id): id is string => !!id);
+    if (!planIds.length) return;
+
+    const { data: plans } = await supabase
+      .from('data_plans')
+      .select('id, display_name')
+      .in('id', planIds);
+
+    setPlanNames(Object.fromEntries((plans || []).map((p) => [p.id, p.display_name])));
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handlePhoneChange = (value: string, name?: string) => {
+    setPhoneNumber(value);
+    setRecipientName(name ?? '');
+    const detected = detectNetwork(value);
+    if (detected) setSelectedNetwork(detected);
+  };
+
+  const handleSelectSaved = (b: Beneficiary) => {
+    handlePhoneChange(b.value, b.nickname ?? undefined);
+    // A saved network that differs from the prefix was confirmed as ported on an earlier purchase
+    if (b.provider) {
+      setSelectedNetwork(b.provider);
+      ported.setConfirmed(true, b.value, b.provider);
+    }
+  };
+
+  const invokeRules = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('auto-topup-rules', { body });
+
+    if (error) {
+      const context = (error as { context?: Response }).context;
+      const errorBody = context ? await context.json().catch(() => null) : null;
+      throw new Error(errorBody?.error || error.message);
+    }
+    return data;
+  };
+
+  const initiateSave = () => {
+    const productMissing = productType === 'data'
+      ? !selectedPlanId
+      : !(Number(amount) >= 50 && Number(amount) <= 50000);
+
+    if (!normalizeNigerianPhone(phoneNumber) || !selectedNetwork || productMissing) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing Information',
+        description: `Enter a valid phone number, network and ${productType === 'data' ? 'plan' : 'amount (₦50 – ₦50,000)'}.`,
+      });
+      return;
+    }
+    if (ported.needsConfirmation) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the Network',
+        description: `This looks like a ${ported.detectedNetwork?.toUpperCase()} number. Switch network or confirm it was ported.`,
+      });
+      return;
+    }
+    if (triggerType === 'time_window' && Number(windowEnd) <= Number(windowStart)) {
+      toast({ variant: 'destructive', title: 'Invalid Time Window', description: 'The window must end after it starts.' });
+      return;
+    }
+
+    setResumingRule(null);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  // A paused rule spends the wallet again once resumed, so resuming needs the PIN too
+  const requestResume = (rule: Rule) => {
+    setResumingRule(rule);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const handlePinComplete = (pin: string) => {
+    setShowPinDialog(false);
+    if (resumingRule) {
+      updateRule(resumingRule, 'resume', pin);
+      setResumingRule(null);
+    } else {
+      saveRule(pin);
+    }
+  };
+
+  const saveRule = async (pin: string) => {
+    setShowPinDialog(false);
+    setSaving(true);
+
+    try {
+      const data = await invokeRules({
+        action: 'create',
+        recipient_name: recipientName || undefined,
+        network: selectedNetwork,
+        phone_number: normalizeNigerianPhone(phoneNumber),
+        ported: ported.confirmed,
+        product_type: productType,
+        plan_id: productType === 'data' ? selectedPlanId : undefined,
+        amount: productType === 'airtime' ? Number(amount) : undefined,
+        trigger_type: triggerType,
+        min_credit_amount: triggerType === 'wallet_credit' ? Number(minCredit) || 0 : undefined,
+        window_period: triggerType === 'time_window' ? windowPeriod : undefined,
+        window_start_hour: triggerType === 'time_window' ? Number(windowStart) : undefined,
+        window_end_hour: triggerType === 'time_window' ? Number(windowEnd) : undefined,
+        spend_limit: spendLimit ? Number(spendLimit) : null,
+        spend_limit_period: spendLimitPeriod,
+        pin,
+      });
+
+      if (!data?.success) {
+        const errorInfo = getApiErrorMessage(data);
+        toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+        return;
+      }
+
+      toast({ title: 'Rule Saved', description: 'Top-ups will be bought from your wallet automatically.' });
+      setPhoneNumber('');
+      setRecipientName('');
+      setAmount('');
+      fetchRules();
+    } catch (error) {
+      const errorInfo = parseError(error);
+      toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRule = async (rule: Rule, action: 'pause' | 'resume' | 'delete', pin?: string) => {
+    setBusyId(rule.id);
+    try {
+      const data = await invokeRules({ action, id: rule.id, pin });
+      if (!data?.success) {
+        const errorInfo = getApiErrorMessage(data);
+        toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+        return;
+      }
+      toast({ title: action === 'delete' ? 'Rule Deleted' : action === 'pause' ? 'Rule Paused' : 'Rule Resumed' });
+      fetchRules();
+    } catch (error) {
+      const errorInfo = parseError(error);
+      toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runsOf = (ruleId: string) => runs.filter((r) => r.rule_id === ruleId).slice(0, 5);
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top">
+        {/* Header */}
+        <div className="flex items-center gap-4 px-4 py-4">
+          <button onClick={() => navigate(-1)} className="p-2 -ml-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-bold text-foreground">Auto Top-Up</h1>
+        </div>
+
+        <div className="px-4 pb-6 space-y-6">
+          {/* Rules */}
+          {rules.length > 0 && (
+            <div>
+              <h2 className="font-semibold mb-3">Your Rules</h2>
+              <div className="space-y-3">
+                {rules.map((rule) => (
+                  <div key={rule.id} className="bg-card rounded-xl p-3 shadow-sm text-sm space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          {rule.product_type === 'data'
+                            ? `${rule.network.toUpperCase()} ${planNames[rule.plan_id ?? ''] ?? 'data'}`
+                            : `${formatCurrency(Number(rule.amount))} ${rule.network.toUpperCase()} airtime`}
+                          {' → '}
+                          {rule.recipient_name || rule.phone_number}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{describeTrigger(rule)}</p>
+                        {rule.spend_limit !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            Up to {formatCurrency(Number(rule.spend_limit))} per {rule.spend_limit_period}
+                          </p>
+                        )}
+                      </div>
+                      <Badge variant={rule.is_active ? 'secondary' : 'outline'}>{rule.is_active ? 'active' : 'paused'}</Badge>
+                    </div>
+
+                    {runsOf(rule.id).map((run) => (
+                      <div key={run.id} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="text-muted-foreground truncate">
+                          {new Date(run.created_at).toLocaleString()}
+                          {run.cost !== null && run.status !== 'skipped' && ` · ${formatCurrency(Number(run.cost))}`}
+                          {run.error && ` · ${run.error}`}
+                        </span>
+                        <Badge variant={RUN_STATUS_VARIANTS[run.status] || 'outline'}>{run.status}</Badge>
+                      </div>
+                    ))}
+
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId === rule.id}
+                        onClick={() => (rule.is_active ? updateRule(rule, 'pause') : requestResume(rule))}
+                      >
+                        {rule.is_active ? (
+                          <><Pause className="w-3.5 h-3.5 mr-1" /> Pause</>
+                        ) : (
+                          <><Play className="w-3.5 h-3.5 mr-1" /> Resume</>
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={busyId === rule.id}
+                        onClick={() => setDeleting(rule)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5 mr-1" /> Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* New Rule */}
+          <div className="space-y-4">
+            <h2 className="font-semibold flex items-center gap-2">
+              <Repeat className="w-4 h-4" /> New Rule
+            </h2>
+
+            <Tabs value={productType} onValueChange={(value) => setProductType(value as ProductType)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="data">Data</TabsTrigger>
+                <TabsTrigger value="airtime">Airtime</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-phone">Phone Number</Label>
+              <Input
+                id="rule-phone"
+                type="tel"
+                inputMode="numeric"
+                placeholder="08031234567"
+                value={phoneNumber}
+                onChange={(e) => handlePhoneChange(e.target.value)}
+              />
+              <SavedRecipients
+                recipients={beneficiaries}
+                onSelect={handleSelectSaved}
+                onRemove={removeBeneficiary}
+                onUpdate={updateBeneficiary}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Network</Label>
+              <Select value={selectedNetwork ?? ''} onValueChange={setSelectedNetwork}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a network" />
+                </SelectTrigger>
+                <SelectContent>
+                  {networks.map((network) => (
+                    <SelectItem key={network.id} value={network.id}>{network.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedNetwork && ported.detectedNetwork && (
+                <PortedNumberNotice
+                  detectedNetwork={ported.detectedNetwork}
+                  network={selectedNetwork}
+                  confirmed={ported.confirmed}
+                  onConfirmedChange={(value) => ported.setConfirmed(value)}
+                  onSwitchNetwork={() => setSelectedNetwork(ported.detectedNetwork)}
+                />
+              )}
+            </div>
+
+            {productType === 'data' ? (
+              <div className="space-y-2">
+                <Label>Data Plan</Label>
+                <Select value={selectedPlanId} onValueChange={setSelectedPlanId} disabled={!selectedNetwork}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dataPlans.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.display_name} · {formatCurrency(priceOf(plan.id, plan.selling_price, plan.api_price))}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="rule-amount">Amount</Label>
+                <Input
+                  id="rule-amount"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="₦50 – ₦50,000"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            )}
+
+            {/* Trigger */}
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Select value={triggerType} onValueChange={(value) => setTriggerType(value as TriggerType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="wallet_credit">When I fund my wallet</SelectItem>
+                  <SelectItem value="time_window">Once a day or week, in a time window</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {triggerType === 'wallet_credit' ? (
+              <div className="space-y-2">
+                <Label htmlFor="rule-min-credit">Only for deposits of at least (optional)</Label>
+                <Input
+                  id="rule-min-credit"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="Any amount"
+                  value={minCredit}
+                  onChange={(e) => setMinCredit(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label>Every</Label>
+                  <Select value={windowPeriod} onValueChange={(value) => setWindowPeriod(value as 'day' | 'week')}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select value={windowStart} onValueChange={setWindowStart}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Until</Label>
+                  <Select value={windowEnd} onValueChange={setWindowEnd}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, index) => (
+                        <SelectItem key={index} value={String(index + 1)}>{formatHour(index + 1)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {/* Spending limit */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="rule-limit">Spending limit (optional)</Label>
+                <Input
+                  id="rule-limit"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="No limit"
+                  value={spendLimit}
+                  onChange={(e) => setSpendLimit(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Per</Label>
+                <Select value={spendLimitPeriod} onValueChange={(value) => setSpendLimitPeriod(value as 'day' | 'week' | 'month')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Day</SelectItem>
+                    <SelectItem value="week">Week</SelectItem>
+                    <SelectItem value="month">Month</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Top-ups that would go over the limit are skipped. Every automated purchase is logged above.
+            </p>
+
+            <Button className="w-full" size="lg" onClick={initiateSave} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Save Rule'
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Top-ups for {deleting?.recipient_name || deleting?.phone_number} will stop and the rule's log will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) updateRule(deleting, 'delete');
+                setDeleting(null);
+              }}
+            >
+              Delete Rule
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={handlePinComplete}
+        mode={pinDialogMode}
+      />
+    </MobileLayout>
+  );
+}
@@ -0,0 +1,544 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Upload, Download, AlertTriangle, X } from 'lucide-react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTierPricing } from '@/hooks/useTierPricing';
+import { getApiErrorMessage, parseError } from '@/lib/errorHandler';
+import { detectNetwork, normalizeNigerianPhone } from '@/lib/phone';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { ContactPickerButton } from '@/components/ContactPickerButton';
+
+import mtnLogo from '@/assets/mtn-logo.png';
+import airtelLogo from '@/assets/airtel-logo.jpg';
+import gloLogo from '@/assets/glo-logo.jpg';
+import nineMobileLogo from '@/assets/9mobile-logo.jpg';
+
+const networks = [
+  { id: 'mtn', name: 'MTN', logo: mtnLogo },
+  { id: 'airtel', name: 'Airtel', logo: airtelLogo },
+  { id: 'glo', name: 'Glo', logo: gloLogo },
+  { id: '9mobile', name: '9mobile', logo: nineMobileLogo },
+];
+
+const MAX_LINES = 200;
+
+type ProductType = 'data' | 'airtime';
+
+interface DataPlan {
+  id: string;
+  display_name: string;
+  selling_price: number;
+  api_price: number;
+}
+
+interface AirtimePlan {
+  id: string;
+  discount_percent: number;
+}
+
+interface ParsedLine {
+  raw: string;
+  phone: string | null;
+  amount: number | null;
+  error: string | null;
+  warning: string | null;
+}
+
+interface BulkOrder {
+  id: string;
+  product_type: string;
+  network: string;
+  plan_name: string | null;
+  line_count: number;
+  estimated_total: number;
+  status: string;
+  created_at: string;
+}
+
+interface BulkOrderLine {
+  id: string;
+  order_id: string;
+  line_no: number;
+  phone_number: string;
+  amount: number | null;
+  status: string;
+  reference: string | null;
+  error: string | null;
+}
+
+const LINE_STATUS_VARIANTS: Record<string, 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'secondary',
+  failed: 'destructive',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(value);
+
+/** One recipient per line: `phone` or `phone,amount`; a header row is skipped */
+function parseRecipients(text: string, productType: ProductType, defaultAmount: number, network: string | null): ParsedLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((row) => row.trim())
+    .filter(Boolean)
+    .filter((row, index) => index > 0 || /\d/.test(row))
+    .map((raw) => {
+      const [phoneCell, amountCell] = raw.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+      const phone = normalizeNigerianPhone(phoneCell);
+      if (!phone) return { raw, phone: null, amount: null, error: 'Invalid phone number', warning: null };
+
+      const detected = detectNetwork(phone);
+      const warning = network && detected && detected !== network
+        ? `Looks like ${detected.toUpperCase()} (ported numbers are fine)`
+        : null;
+
+      if (productType === 'data') return { raw, phone, amount: null, error: null, warning };
+
+      const amount = amountCell ? Number(amountCell.replace(/[^\d.]/g, '')) : defaultAmount;
+      if (!Number.isFinite(amount) || amount < 50 || amount > 50000) {
+        return { raw, phone, amount: null, error: 'Amount must be ₦50 – ₦50,000', warning };
+      }
+      return { raw, phone, amount, error: null, warning };
+    });
+}
+
+function downloadReport(order: BulkOrder, lines: BulkOrderLine[]) {
+  const header = 'line,phone_number,amount,status,reference,error';
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = lines.map((l) =>
+    [l.line_no, l.phone_number, l.amount ?? order.plan_name, l.status, l.reference, l.error].map(escape).join(',')
+  );
+
+  const blob = new Blob([[header, ...rows].join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `bulk-${order.product_type}-${order.created_at.slice(0, 10)}-${order.id.slice(0, 8)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkPurchase() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { priceOf } = useTierPricing('data');
+  const { airtimeDiscountOf } = useTierPricing('airtime');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [productType, setProductType] = useState<ProductType>('data');
+  const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
+  const [dataPlans, setDataPlans] = useState<DataPlan[]>([]);
+  const [airtimePlans, setAirtimePlans] = useState<AirtimePlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [defaultAmount, setDefaultAmount] = useState('100');
+  const [recipientsText, setRecipientsText] = useState('');
+
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
+  const [placing, setPlacing] = useState(false);
+
+  const [orders, setOrders] = useState<BulkOrder[]>([]);
+  const [orderLines, setOrderLines] = useState<BulkOrderLine[]>([]);
+  const [viewingOrder, setViewingOrder] = useState<BulkOrder | null>(null);
+
+  useEffect(() => {
+    setSelectedPlanId('');
+    if (!selectedNetwork) return;
+
+    if (productType === 'data') {
+      supabase
+        .from('data_plans')
+        .select('id, display_name, selling_price, api_price')
+        .eq('network', selectedNetwork)
+        .eq('is_active', true)
+        .order('selling_price', { ascending: true })
+        .then(({ data }) => setDataPlans(data || []));
+    } else {
+      supabase
+        .from('airtime_plans')
+        .select('id, discount_percent')
+        .eq('network', selectedNetwork)
+        .eq('is_active', true)
+        .then(({ data }) => setAirtimePlans(data || []));
+    }
+  }, [productType, selectedNetwork]);
+
+  const fetchOrders = useCallback(async () => {
+    const { data: recent } = await supabase
+      .from('bulk_orders')
+      .select('id, product_type, network, plan_name, line_count, estimated_total, status, created_at')
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    setOrders(recent || []);
+    if (!recent?.length) return;
+
+    const { data: lines } = await supabase
+      .from('bulk_order_lines')
+      .select('id, order_id, line_no, phone_number, amount, status, reference, error')
+      .in('order_id', recent.map((o) => o.id))
+      .order('line_no', { ascending: true });
+
+    setOrderLines(lines || []);
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Follow orders the worker is still buying
+  const hasOpenOrders = orders.some((o) => o.status === 'processing') ||
+    orderLines.some((l) => l.status === 'pending');
+  useEffect(() => {
+    if (!hasOpenOrders) return;
+    const interval = setInterval(fetchOrders, 5000);
+    return () => clearInterval(interval);
+  }, [hasOpenOrders, fetchOrders]);
+
+  const selectedPlan = dataPlans.find((p) => p.id === selectedPlanId) || null;
+  const bestAirtimeDiscount = Math.max(0, ...airtimePlans.map((p) => airtimeDiscountOf(p.id, p.discount_percent || 0)));
+
+  const lines = useMemo(
+    () => parseRecipients(recipientsText, productType, Number(defaultAmount) || 0, selectedNetwork),
+    [recipientsText, productType, defaultAmount, selectedNetwork]
+  );
+  const validLines = lines.filter((l) => !l.error);
+  const invalidCount = lines.length - validLines.length;
+
+  const totalCost = productType === 'data'
+    ? selectedPlan ? priceOf(selectedPlan.id, selectedPlan.selling_price, selectedPlan.api_price) * validLines.length : 0
+    : validLines.reduce((sum, l) => sum + (l.amount ?? 0) * (1 - bestAirtimeDiscount / 100), 0);
+
+  const appendRecipients = (rows: string[]) => {
+    setRecipientsText((current) => [current.trim(), ...rows].filter(Boolean).join('\n'));
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > 100 * 1024) {
+      toast({ variant: 'destructive', title: 'File Too Large', description: 'Upload a CSV of at most 100 KB.' });
+      return;
+    }
+    appendRecipients([await file.text()]);
+  };
+
+  const removeLine = (index: number) => {
+    const rows = recipientsText.split(/\r?\n/).map((r) => r.trim()).filter(Boolean);
+    const raw = lines[index].raw;
+    const position = rows.indexOf(raw);
+    if (position >= 0) rows.splice(position, 1);
+    setRecipientsText(rows.join('\n'));
+  };
+
+  const initiateOrder = () => {
+    if (!selectedNetwork || (productType === 'data' && !selectedPlan)) {
+      toast({ variant: 'destructive', title: 'Missing Information', description: 'Choose a network and plan.' });
+      return;
+    }
+    if (validLines.length === 0 || invalidCount > 0) {
+      toast({
+        variant: 'destructive',
+        title: invalidCount > 0 ? 'Fix Invalid Lines' : 'No Recipients',
+        description: invalidCount > 0 ? `Remove or correct ${invalidCount} invalid line(s).` : 'Add at least one phone number.',
+      });
+      return;
+    }
+    if (validLines.length > MAX_LINES) {
+      toast({ variant: 'destructive', title: 'Too Many Numbers', description: `A bulk order can have up to ${MAX_LINES} numbers.` });
+      return;
+    }
+
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const placeOrder = async (pin: string) => {
+    setShowPinDialog(false);
+    setPlacing(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('bulk-orders', {
+        body: {
+          action: 'create',
+          product_type: productType,
+          network: selectedNetwork,
+          plan_id: selectedPlan?.id,
+          // A line shown as another network's prefix goes through as ported
+          lines: validLines.map((l) => ({ phone_number: l.phone, amount: l.amount, ported: !!l.warning })),
+          pin,
+        },
+      });
+
+      if (error) {
+        const context = (error as { context?: Response }).context;
+        const body = context ? await context.json().catch(() => null) : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      if (!data?.success) {
+        const errorInfo = getApiErrorMessage(data);
+        toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+        return;
+      }
+
+      toast({
+        title: 'Bulk Order Placed',
+        description: `${validLines.length} numbers are being processed. Failed lines are refunded automatically.`,
+      });
+      setRecipientsText('');
+      fetchOrders();
+    } catch (error) {
+      const errorInfo = parseError(error);
+      toast({
+        variant: 'destructive',
+        title: errorInfo.title,
+        description: errorInfo.description,
+        action: errorInfo.isInsufficientBalance ? (
+          <ToastAction altText="Add Money" onClick={() => navigate('/add-money')}>
+            Add Money
+          </ToastAction>
+        ) : undefined,
+      });
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const linesOf = (orderId: string) => orderLines.filter((l) => l.order_id === orderId);
+  const countOf = (orderId: string, status: string) => linesOf(orderId).filter((l) => l.status === status).length;
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top">
+        {/* Header */}
+        <div className="flex items-center gap-4 px-4 py-4">
+          <button onClick={() => navigate(-1)} className="p-2 -ml-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-bold text-foreground">Bulk Purchase</h1>
+        </div>
+
+        <div className="px-4 pb-6 space-y-6">
+          <Tabs value={productType} onValueChange={(value) => setProductType(value as ProductType)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="data">Data</TabsTrigger>
+              <TabsTrigger value="airtime">Airtime</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {/* Network */}
+          <div className="grid grid-cols-4 gap-3">
+            {networks.map((network) => (
+              <button
+                key={network.id}
+                onClick={() => setSelectedNetwork(network.id)}
+                className={`flex flex-col items-center gap-1 p-2 rounded-xl border-2 transition ${
+                  selectedNetwork === network.id ? 'border-primary bg-primary/5' : 'border-transparent bg-card'
+                }`}
+              >
+                <img src={network.logo} alt={network.name} className="w-10 h-10 rounded-full object-cover" />
+                <span className="text-xs font-medium">{network.name}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Plan or default amount */}
+          {selectedNetwork && productType === 'data' && (
+            <div className="space-y-2">
+              <Label>Data Plan</Label>
+              <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a plan for every number" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dataPlans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.display_name} · {formatCurrency(priceOf(plan.id, plan.selling_price, plan.api_price))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {selectedNetwork && productType === 'airtime' && (
+            <div className="space-y-2">
+              <Label htmlFor="default-amount">Amount per number</Label>
+              <Input
+                id="default-amount"
+                type="number"
+                inputMode="numeric"
+                value={defaultAmount}
+                onChange={(e) => setDefaultAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Add a second column (phone,amount) to give a number its own amount.
+                {bestAirtimeDiscount > 0 && ` You get ${bestAirtimeDiscount}% off.`}
+              </p>
+            </div>
+          )}
+
+          {/* Recipients */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="recipients">Phone Numbers</Label>
+              <div className="flex gap-2">
+                <ContactPickerButton label="Add contact" onPick={({ phone }) => appendRecipients([phone])} />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-primary/10 text-primary text-xs font-semibold"
+                >
+                  <Upload className="w-3.5 h-3.5" /> CSV
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleFileUpload} />
+              </div>
+            </div>
+            <Textarea
+              id="recipients"
+              value={recipientsText}
+              onChange={(e) => setRecipientsText(e.target.value)}
+              placeholder={productType === 'airtime' ? '08031234567\n08051234567,500' : '08031234567\n08051234567'}
+              rows={5}
+              className="font-mono text-sm"
+            />
+          </div>
+
+          {/* Validation */}
+          {lines.length > 0 && (
+            <div className="bg-card rounded-xl shadow-sm divide-y max-h-64 overflow-y-auto">
+              {lines.map((line, index) => (
+                <div key={`${line.raw}-${index}`} className="p-2 text-xs flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-mono truncate">
+                      {line.phone ?? line.raw}
+                      {line.amount !== null && ` · ${formatCurrency(line.amount)}`}
+                    </p>
+                    {line.error && <p className="text-destructive">{line.error}</p>}
+                    {!line.error && line.warning && (
+                      <p className="text-amber-600 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" /> {line.warning}
+                      </p>
+                    )}
+                  </div>
+                  <button onClick={() => removeLine(index)} className="p-1 text-muted-foreground">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Total */}
+          <div className="bg-card rounded-xl p-4 shadow-sm space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Valid numbers</span>
+              <span>{validLines.length}{invalidCount > 0 && <span className="text-destructive"> ({invalidCount} invalid)</span>}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Total cost</span>
+              <span>{formatCurrency(totalCost)}</span>
+            </div>
+          </div>
+
+          <Button className="w-full" size="lg" onClick={initiateOrder} disabled={placing || validLines.length === 0}>
+            {placing ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                Placing order...
+              </>
+            ) : (
+              `Buy for ${validLines.length} number${validLines.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+
+          {/* Recent Orders */}
+          {orders.length > 0 && (
+            <div>
+              <h2 className="font-semibold mb-3">Recent Bulk Orders</h2>
+              <div className="space-y-3">
+                {orders.map((order) => (
+                  <button
+                    key={order.id}
+                    onClick={() => setViewingOrder(order)}
+                    className="w-full bg-card rounded-xl p-3 shadow-sm text-left text-sm"
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">
+                        {order.network.toUpperCase()} {order.product_type === 'data' ? order.plan_name : 'Airtime'}
+                      </p>
+                      <Badge variant={order.status === 'completed' ? 'secondary' : 'outline'}>{order.status}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(order.created_at).toLocaleString()} · {order.line_count} numbers · {formatCurrency(order.estimated_total)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {countOf(order.id, 'completed')} sent · {countOf(order.id, 'pending')} pending · {countOf(order.id, 'failed')} failed
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Order Detail */}
+      <Dialog open={!!viewingOrder} onOpenChange={(open) => !open && setViewingOrder(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Bulk Order</DialogTitle>
+            <DialogDescription>
+              Failed lines are refunded to your wallet automatically.
+            </DialogDescription>
+          </DialogHeader>
+          {viewingOrder && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => downloadReport(viewingOrder, linesOf(viewingOrder.id))}>
+                <Download className="w-4 h-4 mr-2" /> Download report
+              </Button>
+              <div className="divide-y">
+                {linesOf(viewingOrder.id).map((line) => (
+                  <div key={line.id} className="py-2 text-xs flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-mono">{line.phone_number}{line.amount !== null && ` · ${formatCurrency(line.amount)}`}</p>
+                      {line.error && <p className="text-destructive">{line.error}</p>}
+                    </div>
+                    <Badge variant={LINE_STATUS_VARIANTS[line.status] || 'outline'}>{line.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={placeOrder}
+        mode={pinDialogMode}
+      />
+    </MobileLayout>
+  );
+}
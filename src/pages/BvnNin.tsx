@@ -1,34 +1,146 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { MobileLayout } from '@/components/layout/MobileLayout';
-import { ArrowLeft, CreditCard, Fingerprint } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, CreditCard, Fingerprint, Loader2, ShieldCheck } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+type IdType = 'bvn' | 'nin';
+
+interface KycLevelLimits {
+  level: number;
+  name: string;
+  max_balance: number;
+  daily_spend_limit: number;
+  can_transfer: boolean;
+}
+
+interface KycStatus {
+  limits: KycLevelLimits & {
+    spent_today: number;
+    remaining_today: number;
+    next_level: KycLevelLimits | null;
+    grace_until: string | null;
+  };
+  verified: { id_type: IdType; id_number_masked: string; created_at: string }[];
+  date_of_birth: string | null;
+}
+
+// Call the verify-identity edge function, unwrapping non-2xx bodies
+async function invokeVerifyIdentity(body: Record<string, unknown>): Promise<{ data: Record<string, unknown> | null; error: string | null }> {
+  const { data, error } = await supabase.functions.invoke('verify-identity', { body });
+  if (!error) return { data, error: null };
+
+  try {
+    const context = (error as { context?: Response }).context;
+    if (context) {
+      const parsed = (await context.clone().json()) as { error?: string };
+      return { data: parsed, error: parsed.error || 'Verification failed' };
+    }
+  } catch {
+    // fall through to the SDK message
+  }
+  return { data: null, error: error.message || 'Verification failed' };
+}
+
+const formatBalance = (balance: number) => {
+  return new Intl.NumberFormat('en-NG', {
+    style: 'currency',
+    currency: 'NGN',
+    maximumFractionDigits: 0,
+  }).format(balance);
+};
 
 export default function BvnNin() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [verificationType, setVerificationType] = useState<'bvn' | 'nin'>('bvn');
+  const { refreshProfile } = useAuth();
+  const [status, setStatus] = useState<KycStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [verificationType, setVerificationType] = useState<IdType>('bvn');
   const [number, setNumber] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
-  const handleVerify = () => {
-    if (!number || number.length < 11) {
+  const fetchStatus = useCallback(async () => {
+    const { data, error } = await invokeVerifyIdentity({ action: 'status' });
+    if (!error && data) {
+      const next = data as unknown as KycStatus;
+      setStatus(next);
+      // Start on whichever ID is still unverified
+      const done = next.verified.map((v) => v.id_type);
+      if (done.includes('bvn') && !done.includes('nin')) setVerificationType('nin');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const verifiedTypes = status?.verified.map((v) => v.id_type) ?? [];
+  const needsDateOfBirth = !!status && !status.date_of_birth;
+  const label = verificationType.toUpperCase();
+  const isVerified = verifiedTypes.includes(verificationType);
+
+  const handleVerify = async () => {
+    if (!/^\d{11}$/.test(number)) {
       toast({
         variant: 'destructive',
         title: 'Invalid Number',
-        description: `Please enter a valid ${verificationType.toUpperCase()} number`,
+        description: `Please enter a valid ${label} number`,
+      });
+      return;
+    }
+
+    if (needsDateOfBirth && !dateOfBirth) {
+      toast({
+        variant: 'destructive',
+        title: 'Date of Birth Required',
+        description: `Enter your date of birth as it appears on your ${label}`,
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await invokeVerifyIdentity({
+      action: 'verify',
+      id_type: verificationType,
+      id_number: number,
+      date_of_birth: needsDateOfBirth ? dateOfBirth : undefined,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Verification Failed',
+        description: error,
       });
       return;
     }
 
     toast({
-      title: 'Coming Soon',
-      description: `${verificationType.toUpperCase()} verification will be available soon`,
+      title: `${label} Verified`,
+      description: 'Your limits have been raised.',
     });
+    setNumber('');
+    await Promise.all([fetchStatus(), refreshProfile()]);
   };
 
+  const selectType = (type: IdType) => {
+    setVerificationType(type);
+    setNumber('');
+  };
+
+  const limits = status?.limits;
+
   return (
     <MobileLayout showNav={false}>
       <div className="safe-area-top">
@@ -41,78 +153,169 @@ export default function BvnNin() {
         </div>
 
         <div className="px-4 pb-6">
-          {/* Type Selection */}
-          <div className="mb-6">
-            <Label className="mb-3 block">Verification Type</Label>
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={() => {
-                  setVerificationType('bvn');
-                  setNumber('');
-                }}
-                className={`p-4 rounded-xl border-2 transition-all ${
-                  verificationType === 'bvn'
-                    ? 'border-primary bg-primary/5'
-                    : 'border-border bg-card'
-                }`}
-              >
-                <CreditCard className="w-8 h-8 mx-auto mb-2 text-primary" />
-                <p className="font-medium text-center">BVN</p>
-                <p className="text-xs text-muted-foreground text-center">Bank Verification</p>
-              </button>
-              <button
-                onClick={() => {
-                  setVerificationType('nin');
-                  setNumber('');
-                }}
-                className={`p-4 rounded-xl border-2 transition-all ${
-                  verificationType === 'nin'
-                    ? 'border-primary bg-primary/5'
-                    : 'border-border bg-card'
-                }`}
-              >
-                <Fingerprint className="w-8 h-8 mx-auto mb-2 text-primary" />
-                <p className="font-medium text-center">NIN</p>
-                <p className="text-xs text-muted-foreground text-center">National ID</p>
-              </button>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
             </div>
-          </div>
-
-          {/* Number Input */}
-          <div className="mb-6">
-            <Label htmlFor="number">{verificationType.toUpperCase()} Number</Label>
-            <Input
-              id="number"
-              placeholder={`Enter your ${verificationType.toUpperCase()}`}
-              value={number}
-              onChange={(e) => setNumber(e.target.value)}
-              maxLength={11}
-              className="mt-2"
-            />
-            <p className="text-xs text-muted-foreground mt-2">
-              Enter your 11-digit {verificationType.toUpperCase()} number
-            </p>
-          </div>
-
-          {/* Verify Button */}
-          <Button
-            className="w-full"
-            size="lg"
-            onClick={handleVerify}
-            disabled={!number || number.length < 11}
-          >
-            Verify {verificationType.toUpperCase()}
-          </Button>
-
-          {/* Info */}
-          <div className="mt-6 bg-accent/10 rounded-xl p-4">
-            <p className="text-sm text-foreground">
-              <span className="font-medium">Why verify?</span> Identity verification helps secure
-              your account and enables higher transaction limits.
-            </p>
-          </div>
+          ) : (
+            <>
+              {/* Current Level */}
+              {limits && (
+                <div className="bg-card rounded-xl p-4 mb-6 shadow-sm">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="w-5 h-5 text-primary" />
+                      <p className="font-semibold text-foreground">Level {limits.level}</p>
+                    </div>
+                    <Badge variant={limits.level > 0 ? 'default' : 'secondary'}>{limits.name}</Badge>
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Maximum balance</span>
+                      <span className="font-medium">{formatBalance(limits.max_balance)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Daily spend</span>
+                      <span className="font-medium">{formatBalance(limits.daily_spend_limit)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Transfers</span>
+                      <span className="font-medium">{limits.can_transfer ? 'Allowed' : 'Not allowed'}</span>
+                    </div>
+                  </div>
+                  <Progress
+                    value={limits.daily_spend_limit > 0 ? Math.min(100, (limits.spent_today / limits.daily_spend_limit) * 100) : 0}
+                    className="h-2 mt-3"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatBalance(limits.remaining_today)} left to spend today
+                  </p>
+                  {limits.grace_until && (
+                    <p className="text-xs text-primary mt-2">
+                      As an existing customer you keep these limits until{' '}
+                      {new Date(limits.grace_until).toLocaleDateString('en-NG', { day: 'numeric', month: 'long', year: 'numeric' })}.
+                      Verify your BVN or NIN before then to keep transfers and higher limits.
+                    </p>
+                  )}
+                  {limits.next_level && !limits.grace_until && (
+                    <p className="text-xs text-primary mt-2">
+                      Verify {limits.level === 0 ? 'your BVN or NIN' : `your ${verifiedTypes.includes('bvn') ? 'NIN' : 'BVN'}`} to
+                      hold up to {formatBalance(limits.next_level.max_balance)} and spend{' '}
+                      {formatBalance(limits.next_level.daily_spend_limit)} a day
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Type Selection */}
+              <div className="mb-6">
+                <Label className="mb-3 block">Verification Type</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => selectType('bvn')}
+                    className={`relative p-4 rounded-xl border-2 transition-all ${
+                      verificationType === 'bvn'
+                        ? 'border-primary bg-primary/5'
+                        : 'border-border bg-card'
+                    }`}
+                  >
+                    {verifiedTypes.includes('bvn') && (
+                      <CheckCircle2 className="absolute top-2 right-2 w-4 h-4 text-green-500" />
+                    )}
+                    <CreditCard className="w-8 h-8 mx-auto mb-2 text-primary" />
+                    <p className="font-medium text-center">BVN</p>
+                    <p className="text-xs text-muted-foreground text-center">Bank Verification</p>
+                  </button>
+                  <button
+                    onClick={() => selectType('nin')}
+                    className={`relative p-4 rounded-xl border-2 transition-all ${
+                      verificationType === 'nin'
+                        ? 'border-primary bg-primary/5'
+                        : 'border-border bg-card'
+                    }`}
+                  >
+                    {verifiedTypes.includes('nin') && (
+                      <CheckCircle2 className="absolute top-2 right-2 w-4 h-4 text-green-500" />
+                    )}
+                    <Fingerprint className="w-8 h-8 mx-auto mb-2 text-primary" />
+                    <p className="font-medium text-center">NIN</p>
+                    <p className="text-xs text-muted-foreground text-center">National ID</p>
+                  </button>
+                </div>
+              </div>
+
+              {isVerified ? (
+                <div className="flex items-center gap-3 bg-green-500/10 rounded-xl p-4">
+                  <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+                  <p className="text-sm text-foreground">
+                    Your {label}{' '}
+                    <span className="font-medium">
+                      {status?.verified.find((v) => v.id_type === verificationType)?.id_number_masked}
+                    </span>{' '}
+                    is verified.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  {/* Number Input */}
+                  <div className="mb-6">
+                    <Label htmlFor="number">{label} Number</Label>
+                    <Input
+                      id="number"
+                      placeholder={`Enter your ${label}`}
+                      inputMode="numeric"
+                      value={number}
+                      onChange={(e) => setNumber(e.target.value.replace(/\D/g, ''))}
+                      maxLength={11}
+                      className="mt-2"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Enter your 11-digit {label} number
+                    </p>
+                  </div>
+
+                  {needsDateOfBirth && (
+                    <div className="mb-6">
+                      <Label htmlFor="dob">Date of Birth</Label>
+                      <Input
+                        id="dob"
+                        type="date"
+                        value={dateOfBirth}
+                        onChange={(e) => setDateOfBirth(e.target.value)}
+                        max={new Date().toISOString().slice(0, 10)}
+                        className="mt-2"
+                      />
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Must match the date on your {label}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Verify Button */}
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={handleVerify}
+                    disabled={number.length < 11 || (needsDateOfBirth && !dateOfBirth) || submitting}
+                  >
+                    {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                    Verify {label}
+                  </Button>
+                </>
+              )}
+
+              {/* Info */}
+              <div className="mt-6 bg-accent/10 rounded-xl p-4">
+                <p className="text-sm text-foreground">
+                  <span className="font-medium">Why verify?</span> Identity verification helps secure
+                  your account and enables higher transaction limits. The name on your ID must match
+                  your profile name.
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </MobileLayout>
   );
-}
\ No newline at end of file
+}
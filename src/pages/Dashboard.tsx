@@ -8,7 +8,17 @@ import { Bell, RefreshCw, WifiOff } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { TransactionPinDialog, isTransactionPinSetup } from '@/components/auth/TransactionPinDialog';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { PhoneOtpDialog } from '@/components/auth/PhoneOtpDialog';
+import {
+  invokePhoneOtp,
+  isPhoneVerificationRequested,
+  clearPhoneVerificationRequest,
+  type PhoneOtpPurpose,
+} from '@/lib/phoneOtp';
+import { useBiometricAuth } from '@/hooks/useBiometricAuth';
+import { getDeviceId, getDeviceName } from '@/lib/device';
 import { WhatsAppButton } from '@/components/dashboard/WhatsAppButton';
 import { storeUserForPinLogin } from '@/components/auth/PinLoginScreen';
 import { Button } from '@/components/ui/button';
@@ -23,11 +33,16 @@ export default function Dashboard() {
   const navigate = useNavigate();
   const { refreshWallet, refreshProfile, profile, user, dataLoading, dataError, retryDataFetch } = useAuth();
   const { toast } = useToast();
+  const { hasStoredCredentials, enableStoredCredentials, clearCredentials } = useBiometricAuth();
   const [refreshTick, setRefreshTick] = useState(0);
   
   // PIN setup states
+  const [pinSetupNeeded, setPinSetupNeeded] = useState(false);
   const [showTransactionPinSetup, setShowTransactionPinSetup] = useState(false);
 
+  // SMS prompts: confirming this device for quick sign-in, or verifying the number after sign-up
+  const [phonePrompt, setPhonePrompt] = useState<PhoneOtpPurpose | null>(null);
+
   const { isVisible } = useDocumentVisibility();
 
   // Connection timeout detection - dataLoading comes from useAuth
@@ -43,15 +58,31 @@ export default function Dashboard() {
 
   // Check if transaction PIN needs to be set up on first load
   useEffect(() => {
-    const checkPinSetup = () => {
-      if (!isTransactionPinSetup()) {
-        setTimeout(() => setShowTransactionPinSetup(true), 1000);
-      }
+    const checkPinSetup = async () => {
+      // Ask the server so a PIN set on another device is picked up
+      const hasPin = await isTransactionPinSetup();
+      if (!hasPin) setPinSetupNeeded(true);
     };
 
     checkPinSetup();
   }, []);
 
+  useEffect(() => {
+    if (phonePrompt) return;
+    if (hasStoredCredentials()?.awaitingDeviceCheck) {
+      setPhonePrompt('new_device');
+    } else if (profile && !profile.phone_verified_at && isPhoneVerificationRequested()) {
+      setPhonePrompt('verify_phone');
+    }
+  }, [profile, phonePrompt, hasStoredCredentials]);
+
+  // Wait for any SMS prompt so the two dialogs never stack
+  useEffect(() => {
+    if (!pinSetupNeeded || phonePrompt) return;
+    const timer = setTimeout(() => setShowTransactionPinSetup(true), 1000);
+    return () => clearTimeout(timer);
+  }, [pinSetupNeeded, phonePrompt]);
+
   // Store user info for PIN login when profile is available
   useEffect(() => {
     if (profile && user?.email) {
@@ -68,9 +99,55 @@ export default function Dashboard() {
       title: 'Transaction PIN Set',
       description: 'Your 4-digit PIN has been created for login and transactions.',
     });
+    setPinSetupNeeded(false);
     setShowTransactionPinSetup(false);
   };
 
+  const handlePhonePromptSubmit = async (code: string): Promise<string | null> => {
+    if (phonePrompt === 'new_device') {
+      const { error } = await invokePhoneOtp({
+        action: 'trust_device',
+        code,
+        device_id: getDeviceId(),
+        device_name: getDeviceName(),
+      });
+      if (error) return error;
+
+      enableStoredCredentials();
+      toast({
+        title: 'Device Confirmed',
+        description: 'Quick sign-in is now on for this device.',
+      });
+      return null;
+    }
+
+    const { error } = await invokePhoneOtp({
+      action: 'verify',
+      code,
+      device_id: getDeviceId(),
+      device_name: getDeviceName(),
+    });
+    if (error) return error;
+
+    clearPhoneVerificationRequest();
+    await refreshProfile();
+    toast({
+      title: 'Phone Verified',
+      description: 'Higher transfer limits are now available.',
+    });
+    return null;
+  };
+
+  const handlePhonePromptOpenChange = (open: boolean) => {
+    if (open) return;
+    // Skipping the device check drops the stored sign-in rather than leaving it half set up
+    if (phonePrompt === 'new_device' && hasStoredCredentials()?.awaitingDeviceCheck) {
+      clearCredentials();
+    }
+    clearPhoneVerificationRequest();
+    setPhonePrompt(null);
+  };
+
   const handleRefresh = async () => {
     await Promise.all([refreshWallet(), refreshProfile()]);
     setRefreshTick((t) => t + 1);
@@ -163,6 +240,22 @@ export default function Dashboard() {
         description="Create a 4-digit PIN for quick login and transaction authorization"
       />
 
+      {/* SMS code for a new device or a freshly registered number */}
+      {phonePrompt && (
+        <PhoneOtpDialog
+          open
+          onOpenChange={handlePhonePromptOpenChange}
+          purpose={phonePrompt}
+          title={phonePrompt === 'new_device' ? 'Set Up This Device' : 'Verify Your Phone'}
+          description={
+            phonePrompt === 'new_device'
+              ? 'Confirm it is you before turning on quick sign-in here'
+              : 'Verify your number to unlock higher transfer limits'
+          }
+          onSubmit={handlePhonePromptSubmit}
+        />
+      )}
+
       {/* Connection Timeout Overlay - safety net for stuck loading */}
       <ConnectionTimeoutOverlay
         isVisible={isTimedOut && !dataError}
@@ -9,13 +9,19 @@ import { useToast } from '@/hooks/use-toast';
 import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
 import { TransactionReceipt } from '@/components/TransactionReceipt';
-import { TransactionPinDialog, isTransactionPinSetup } from '@/components/auth/TransactionPinDialog';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
 import { withTimeout } from '@/lib/supabaseWithTimeout';
 import { useConnectionTimeout } from '@/hooks/useConnectionTimeout';
 import { ConnectionTimeoutOverlay } from '@/components/NetworkStatus';
-import { useRecentRecipients } from '@/hooks/useRecentRecipients';
+import { Beneficiary, useBeneficiaries } from '@/hooks/useBeneficiaries';
+import { IDEMPOTENCY_HEADER, useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { useTierPricing } from '@/hooks/useTierPricing';
 import { ContactPickerButton } from '@/components/ContactPickerButton';
 import { SavedRecipients } from '@/components/SavedRecipients';
+import { PortedNumberNotice } from '@/components/PortedNumberNotice';
+import { usePortedNumber } from '@/hooks/usePortedNumber';
+import { detectNetwork } from '@/lib/phone';
 
 import mtnLogo from '@/assets/mtn-logo.png';
 import airtelLogo from '@/assets/airtel-logo.jpg';
@@ -50,6 +56,9 @@ type Step = 'network' | 'category' | 'plan' | 'confirm';
 export default function Data() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { keyFor, settle } = useIdempotencyKey();
+  const { priceOf } = useTierPricing('data');
+  const planPrice = (plan: DataPlan) => priceOf(plan.id, plan.selling_price, plan.api_price);
   const [step, setStep] = useState<Step>('network');
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -78,14 +87,49 @@ export default function Data() {
   
   // PIN verification state
   const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
 
   // Connection timeout detection - shows overlay if stuck loading for 12s
   const { isTimedOut, resetTimeout } = useConnectionTimeout(loading, { timeout: 12000 });
-  const { recipients, saveRecipient, removeRecipient } = useRecentRecipients('data');
+  const { beneficiaries, saveBeneficiary, updateBeneficiary, removeBeneficiary } = useBeneficiaries('phone');
+  const [pendingRepeat, setPendingRepeat] = useState<{ network: string; planId: string } | null>(null);
+  const ported = usePortedNumber(phoneNumber, selectedNetwork);
 
   const handlePickFromContacts = ({ phone, name }: { phone: string; name?: string }) => {
-    setPhoneNumber(phone);
-    if (name) saveRecipient(phone, name);
+    handlePhoneChange(phone);
+    if (name && !beneficiaries.some((b) => b.value === phone)) saveBeneficiary(phone, { nickname: name });
+  };
+
+  // Before a network is chosen, a complete number picks its network from the prefix
+  const handlePhoneChange = (value: string) => {
+    const digitsOnly = value.replace(/\D/g, '');
+    setPhoneNumber(digitsOnly);
+    if (step !== 'network' || digitsOnly.length !== 11) return;
+    const detected = detectNetwork(digitsOnly);
+    if (detected) handleNetworkSelect(detected);
+  };
+
+  const handleSelectSaved = (b: Beneficiary) => {
+    setPhoneNumber(b.value);
+    // A saved network that differs from the prefix was confirmed as ported on an earlier purchase
+    if (b.provider) ported.setConfirmed(true, b.value, b.provider);
+    if (step !== 'network') return;
+    const network = b.provider || detectNetwork(b.value);
+    if (network) handleNetworkSelect(network);
+  };
+
+  const repeatLabel = (b: Beneficiary) => {
+    const product = b.last_products.data;
+    return product?.plan_id ? `${String(product.network).toUpperCase()} ${product.label}` : null;
+  };
+
+  const handleRepeat = (b: Beneficiary) => {
+    const product = b.last_products.data;
+    if (!product?.plan_id || !product.network) return;
+    setPhoneNumber(b.value);
+    setPendingRepeat({ network: String(product.network), planId: String(product.plan_id) });
+    setSelectedNetwork(String(product.network));
+    ported.setConfirmed(true, b.value, String(product.network));
   };
 
   useEffect(() => {
@@ -160,6 +204,31 @@ export default function Data() {
     }
   }, [toast, plans.length, categories.length]);
 
+  // A one-tap repeat waits for its network's plans, then goes straight to the PIN
+  useEffect(() => {
+    if (!pendingRepeat || loading || !plans.some((p) => p.network === pendingRepeat.network)) return;
+
+    const plan = plans.find((p) => p.id === pendingRepeat.planId);
+    setPendingRepeat(null);
+    if (!plan) {
+      toast({
+        variant: 'destructive',
+        title: 'Plan Unavailable',
+        description: 'That plan is no longer available. Please choose another.',
+      });
+      setStep('category');
+      return;
+    }
+
+    setSelectedCategory(plan.category);
+    setSelectedPlan(plan);
+    setStep('confirm');
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  }, [pendingRepeat, loading, plans, toast]);
+
   // Handler for timeout retry - defined after fetchPlans
   const handleTimeoutRetry = useCallback(() => {
     resetTimeout();
@@ -222,15 +291,23 @@ export default function Data() {
       return;
     }
 
-    // Check if PIN is setup
-    if (isTransactionPinSetup()) {
-      setShowPinDialog(true);
-    } else {
-      handlePurchase();
+    if (ported.needsConfirmation) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the Network',
+        description: `This looks like a ${ported.detectedNetwork?.toUpperCase()} number. Switch network or confirm it was ported.`,
+      });
+      return;
     }
+
+    // Every purchase needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
   };
 
-  const handlePurchase = async () => {
+  const handlePurchase = async (pin: string) => {
     setShowPinDialog(false);
     setPurchasing(true);
     
@@ -249,11 +326,15 @@ export default function Data() {
       const cleanPhone = phoneNumber.replace(/\D/g, '');
 
       const { data, error } = await supabase.functions.invoke('buy-data', {
+        headers: { [IDEMPOTENCY_HEADER]: keyFor({ plan_id: selectedPlan!.id, phone_number: cleanPhone }) },
         body: {
           plan_id: selectedPlan!.id,
           phone_number: cleanPhone,
+          pin,
+          ported: ported.confirmed,
         },
       });
+      settle(error);
 
       // Handle errors - the SDK puts non-2xx responses in error, with body in error.context
       if (error) {
@@ -286,16 +367,21 @@ export default function Data() {
       }
 
       if (data?.success) {
-        saveRecipient(cleanPhone);
+        const planLabel = selectedPlan!.display_name || selectedPlan!.data_amount || selectedPlan!.name;
+        saveBeneficiary(cleanPhone, {
+          provider: selectedNetwork,
+          service: 'data',
+          product: { network: selectedNetwork, plan_id: selectedPlan!.id, label: planLabel },
+        });
         // Show receipt
         setLastTransaction({
           id: data.transaction_id || crypto.randomUUID(),
           date: new Date(),
           phoneNumber: cleanPhone,
           network: selectedNetwork!,
-          amount: selectedPlan!.selling_price,
+          amount: planPrice(selectedPlan!),
           type: 'data',
-          dataPlan: selectedPlan!.display_name || selectedPlan!.data_amount || selectedPlan!.name,
+          dataPlan: planLabel,
         });
         setShowReceipt(true);
         
@@ -414,6 +500,25 @@ export default function Data() {
           {/* Step 1: Network Selection */}
           {step === 'network' && (
             <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <div className="flex items-center justify-between mb-2">
+                  <Label htmlFor="network-phone">Phone Number</Label>
+                  <ContactPickerButton onPick={handlePickFromContacts} />
+                </div>
+                <Input
+                  id="network-phone"
+                  type="tel"
+                  inputMode="tel"
+                  placeholder="08012345678"
+                  value={phoneNumber}
+                  onChange={(e) => handlePhoneChange(e.target.value)}
+                  maxLength={11}
+                  autoComplete="tel"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Enter the number to pick its network automatically, or choose one below
+                </p>
+              </div>
               {networks.map((network) => (
                 <button
                   key={network.id}
@@ -430,6 +535,16 @@ export default function Data() {
                   <p className="text-sm font-semibold text-center">{network.name}</p>
                 </button>
               ))}
+              <div className="col-span-2">
+                <SavedRecipients
+                  recipients={beneficiaries}
+                  onSelect={handleSelectSaved}
+                  onRemove={removeBeneficiary}
+                  repeatLabel={repeatLabel}
+                  onRepeat={handleRepeat}
+                  repeatOnly
+                />
+              </div>
             </div>
           )}
 
@@ -509,7 +624,7 @@ export default function Data() {
                       <p className="text-lg font-bold text-foreground">{plan.data_amount || plan.name}</p>
                       <p className="text-xs text-muted-foreground">{plan.validity}</p>
                       <p className="text-sm font-semibold text-primary mt-2">
-                        {formatPrice(plan.selling_price)}
+                        {formatPrice(planPrice(plan))}
                       </p>
                     </button>
                   ))}
@@ -541,7 +656,7 @@ export default function Data() {
                     <p className="text-xs text-muted-foreground">{selectedPlan.validity}</p>
                   </div>
                   <p className="text-2xl font-bold text-primary">
-                    {formatPrice(selectedPlan.selling_price)}
+                    {formatPrice(planPrice(selectedPlan))}
                   </p>
                 </div>
               </div>
@@ -574,10 +689,20 @@ export default function Data() {
                   maxLength={11}
                   autoComplete="tel"
                 />
+                {selectedNetwork && ported.detectedNetwork && (
+                  <PortedNumberNotice
+                    detectedNetwork={ported.detectedNetwork}
+                    network={selectedNetwork}
+                    confirmed={ported.confirmed}
+                    onConfirmedChange={(value) => ported.setConfirmed(value)}
+                    onSwitchNetwork={() => handleNetworkSelect(ported.detectedNetwork!)}
+                  />
+                )}
                 <SavedRecipients
-                  recipients={recipients}
-                  onSelect={(p) => setPhoneNumber(p)}
-                  onRemove={removeRecipient}
+                  recipients={beneficiaries}
+                  onSelect={handleSelectSaved}
+                  onRemove={removeBeneficiary}
+                  onUpdate={updateBeneficiary}
                 />
               </div>
 
@@ -593,7 +718,7 @@ export default function Data() {
                     Processing...
                   </>
                 ) : (
-                  `Pay ${formatPrice(selectedPlan.selling_price)}`
+                  `Pay ${formatPrice(planPrice(selectedPlan))}`
                 )}
               </Button>
             </div>
@@ -606,7 +731,7 @@ export default function Data() {
         open={showPinDialog}
         onOpenChange={setShowPinDialog}
         onComplete={handlePurchase}
-        mode="verify"
+        mode={pinDialogMode}
       />
 
       {/* Transaction Receipt */}
@@ -1,69 +1,285 @@
-import { useState } from 'react';
-import { ArrowLeft, Mail, Send, AlertTriangle } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Mail, Trash2, AlertTriangle, Loader2, LogIn, CalendarClock, Send } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
 import { FloatingWhatsApp } from '@/components/website/FloatingWhatsApp';
 import logo from '@/assets/logo.jpeg';
-import { z } from 'zod';
+import { format } from 'date-fns';
 
-const deleteRequestSchema = z.object({
-  email: z.string().trim().email({ message: 'Please enter a valid email address' }),
-  reason: z.string().trim().min(10, { message: 'Please provide at least 10 characters explaining your reason' }).max(1000, { message: 'Reason must be less than 1000 characters' }),
-});
+interface PendingDeletion {
+  id: string;
+  status: string;
+  reason: string | null;
+  forfeit_acknowledged: boolean;
+  scheduled_for: string;
+  held_reason: string | null;
+  created_at: string;
+}
+
+interface DeletionStatus {
+  request: PendingDeletion | null;
+  balance: number;
+  /** Part of balance held over the KYC balance cap */
+  held_amount?: number;
+  has_pin: boolean;
+  cooling_off_days: number;
+}
+
+const formatNaira = (amount: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
 
 export default function DeleteAccount() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [email, setEmail] = useState('');
+  const { user, loading: authLoading } = useAuth();
+  const [status, setStatus] = useState<DeletionStatus | null>(null);
+  const [loadingStatus, setLoadingStatus] = useState(false);
   const [reason, setReason] = useState('');
-  const [sending, setSending] = useState(false);
-  const [errors, setErrors] = useState<{ email?: string; reason?: string }>({});
+  const [confirmWith, setConfirmWith] = useState<'password' | 'pin'>('password');
+  const [password, setPassword] = useState('');
+  const [acknowledgeForfeit, setAcknowledgeForfeit] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
 
   const supportEmail = 'ramadandataapp@gmail.com';
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setErrors({});
-
-    // Validate inputs
-    const result = deleteRequestSchema.safeParse({ email, reason });
-    if (!result.success) {
-      const fieldErrors: { email?: string; reason?: string } = {};
-      result.error.errors.forEach((err) => {
-        if (err.path[0] === 'email') fieldErrors.email = err.message;
-        if (err.path[0] === 'reason') fieldErrors.reason = err.message;
+  const invokeDeletion = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('account-deletion', { body });
+
+    if (error) {
+      const context = (error as { context?: Response }).context;
+      const errorBody = context ? await context.json().catch(() => null) : null;
+      throw new Error(errorBody?.error || error.message);
+    }
+    return data;
+  };
+
+  const fetchStatus = useCallback(async () => {
+    setLoadingStatus(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('account-deletion', { body: { action: 'status' } });
+      if (error) throw error;
+      setStatus(data as DeletionStatus);
+    } catch (error) {
+      console.error('Error fetching deletion status:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Could not load your account status. Please try again.',
+      });
+    } finally {
+      setLoadingStatus(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) fetchStatus();
+  }, [user, fetchStatus]);
+
+  const balance = status?.balance ?? 0;
+  const heldAmount = status?.held_amount ?? 0;
+
+  const initiateRequest = () => {
+    if (balance > 0 && !acknowledgeForfeit) {
+      toast({
+        variant: 'destructive',
+        title: 'Wallet Balance Remaining',
+        description: 'Transfer or spend your balance first, or confirm that it will be forfeited.',
       });
-      setErrors(fieldErrors);
       return;
     }
 
-    setSending(true);
+    if (confirmWith === 'pin') {
+      setShowPinDialog(true);
+      return;
+    }
 
-    // Construct mailto link
-    const subject = encodeURIComponent('Account Deletion Request - Ramadan Data App');
-    const body = encodeURIComponent(
-      `Account Deletion Request\n\n` +
-      `Email: ${email}\n\n` +
-      `Reason for deletion:\n${reason}\n\n` +
-      `---\n` +
-      `This request was submitted through the Ramadan Data App account deletion page.`
-    );
+    if (!password) {
+      toast({ variant: 'destructive', title: 'Password Required', description: 'Enter your password to confirm.' });
+      return;
+    }
+    submitRequest({ password });
+  };
 
-    // Open email client
-    window.location.href = `mailto:${supportEmail}?subject=${subject}&body=${body}`;
+  const submitRequest = async (secret: { password?: string; pin?: string }) => {
+    setShowPinDialog(false);
+    setSubmitting(true);
+    try {
+      const data = await invokeDeletion({
+        action: 'request',
+        reason: reason.trim() || undefined,
+        acknowledge_forfeit: acknowledgeForfeit,
+        ...secret,
+      });
 
-    toast({
-      title: 'Email Client Opened',
-      description: 'Please send the email to complete your deletion request.',
-    });
+      toast({
+        title: 'Deletion Scheduled',
+        description: `Your account will be deleted on ${format(new Date(data.scheduled_for), 'MMM d, yyyy')}.`,
+      });
+      setPassword('');
+      setReason('');
+      fetchStatus();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Request Failed',
+        description: error instanceof Error ? error.message : 'Failed to schedule account deletion',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
-    setSending(false);
+  const cancelRequest = async () => {
+    setSubmitting(true);
+    try {
+      await invokeDeletion({ action: 'cancel' });
+      toast({ title: 'Deletion Cancelled', description: 'Your account will not be deleted.' });
+      fetchStatus();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Cancel Failed',
+        description: error instanceof Error ? error.message : 'Failed to cancel account deletion',
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
+  const renderContent = () => {
+    if (authLoading || (user && loadingStatus && !status)) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="p-6 bg-card rounded-xl border border-border text-center space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Sign in to the account you want to delete. You will be asked to confirm with your password or PIN.
+          </p>
+          <Button onClick={() => navigate('/auth')} className="w-full">
+            <LogIn className="h-4 w-4 mr-2" />
+            Sign In to Continue
+          </Button>
+        </div>
+      );
+    }
+
+    if (status?.request) {
+      return (
+        <div className="p-6 bg-card rounded-xl border border-border space-y-4">
+          <div className="flex items-start gap-3">
+            <CalendarClock className="h-6 w-6 text-destructive shrink-0" />
+            <div>
+              <h3 className="font-semibold text-foreground">Deletion scheduled</h3>
+              <p className="text-sm text-muted-foreground">
+                Your account will be deleted on{' '}
+                <strong>{format(new Date(status.request.scheduled_for), 'MMMM d, yyyy')}</strong>.
+                You can keep using it and cancel at any time before then.
+              </p>
+            </div>
+          </div>
+          {status.request.held_reason && (
+            <p className="text-sm rounded-lg bg-amber-500/10 text-amber-700 dark:text-amber-400 p-3">
+              On hold: {status.request.held_reason}
+            </p>
+          )}
+          <Button variant="outline" className="w-full" onClick={cancelRequest} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Cancel Deletion
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {balance > 0 && (
+          <div className="p-4 rounded-xl border border-amber-500/30 bg-amber-500/10 space-y-3">
+            <p className="text-sm text-amber-700 dark:text-amber-400">
+              Your wallet holds <strong>{formatNaira(balance)}</strong>
+              {heldAmount > 0 && <>, including {formatNaira(heldAmount)} on hold over your balance limit</>}. Transfer it to another account or spend it
+              before your account is closed; anything left will be forfeited.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => navigate('/transfer')}>
+              <Send className="h-4 w-4 mr-2" />
+              Transfer Balance
+            </Button>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="acknowledge-forfeit"
+                checked={acknowledgeForfeit}
+                onCheckedChange={(checked) => setAcknowledgeForfeit(checked === true)}
+              />
+              <Label htmlFor="acknowledge-forfeit" className="text-sm font-normal leading-snug">
+                I understand that any balance left in my wallet when the account is closed is forfeited and cannot be recovered
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="reason">Reason for Deletion (optional)</Label>
+          <Textarea
+            id="reason"
+            placeholder="Please tell us why you want to delete your account..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            maxLength={1000}
+          />
+          <p className="text-xs text-muted-foreground">Your feedback helps us improve our service</p>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Confirm it's you</Label>
+          {status?.has_pin && (
+            <Tabs value={confirmWith} onValueChange={(value) => setConfirmWith(value as 'password' | 'pin')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="password">Password</TabsTrigger>
+                <TabsTrigger value="pin">Transaction PIN</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+          {confirmWith === 'password' && (
+            <Input
+              type="password"
+              placeholder="Enter your password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          )}
+        </div>
+
+        <Button variant="destructive" className="w-full" onClick={initiateRequest} disabled={submitting}>
+          {submitting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Trash2 className="h-4 w-4 mr-2" />
+          )}
+          Delete My Account
+        </Button>
+      </div>
+    );
+  };
+
+  const coolingOffDays = status?.cooling_off_days ?? 14;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Navigation */}
@@ -71,7 +287,7 @@ export default function DeleteAccount() {
         <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <button
-              onClick={() => navigate('/website')}
+              onClick={() => navigate(user ? '/settings' : '/website')}
               className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
             >
               <ArrowLeft className="h-5 w-5" />
@@ -93,7 +309,7 @@ export default function DeleteAccount() {
           </div>
           <h1 className="text-3xl font-bold text-foreground mb-2">Delete Your Account</h1>
           <p className="text-muted-foreground">
-            We're sorry to see you go. Please fill out the form below to request account deletion.
+            We're sorry to see you go.
           </p>
         </div>
 
@@ -101,73 +317,21 @@ export default function DeleteAccount() {
         <div className="bg-destructive/5 border border-destructive/20 rounded-xl p-4 mb-8">
           <h3 className="font-semibold text-destructive mb-2">Before you proceed, please note:</h3>
           <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
-            <li>All your data will be permanently deleted</li>
-            <li>Your wallet balance will be forfeited</li>
-            <li>Transaction history will be removed (after legal retention period)</li>
-            <li>This action cannot be undone</li>
+            <li>Your account is deleted {coolingOffDays} days after you ask; you can cancel until then</li>
+            <li>Your profile, saved numbers, notifications and devices are then removed</li>
+            <li>Any wallet balance left at that point is forfeited</li>
+            <li>Transaction records are kept without your details for 5 years, as the law requires</li>
+            <li>Once deleted, your account cannot be restored</li>
           </ul>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="email">Email Address</Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder="Enter your registered email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className={errors.email ? 'border-destructive' : ''}
-            />
-            {errors.email && (
-              <p className="text-sm text-destructive">{errors.email}</p>
-            )}
-            <p className="text-xs text-muted-foreground">
-              Enter the email address associated with your account
-            </p>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="reason">Reason for Deletion</Label>
-            <Textarea
-              id="reason"
-              placeholder="Please tell us why you want to delete your account..."
-              value={reason}
-              onChange={(e) => setReason(e.target.value)}
-              rows={5}
-              className={errors.reason ? 'border-destructive' : ''}
-            />
-            {errors.reason && (
-              <p className="text-sm text-destructive">{errors.reason}</p>
-            )}
-            <p className="text-xs text-muted-foreground">
-              Your feedback helps us improve our service
-            </p>
-          </div>
-
-          <Button
-            type="submit"
-            variant="destructive"
-            className="w-full"
-            disabled={sending}
-          >
-            {sending ? (
-              'Opening Email...'
-            ) : (
-              <>
-                <Send className="h-4 w-4 mr-2" />
-                Send Deletion Request
-              </>
-            )}
-          </Button>
-        </form>
+        {renderContent()}
 
         {/* Alternative Contact */}
         <div className="mt-8 p-6 bg-card rounded-xl border border-border">
-          <h3 className="font-semibold text-foreground mb-3">Or Contact Us Directly</h3>
+          <h3 className="font-semibold text-foreground mb-3">Can't Sign In?</h3>
           <p className="text-sm text-muted-foreground mb-4">
-            You can also send an email directly to request account deletion:
+            If you can no longer access your account, email us from your registered address:
           </p>
           <a
             href={`mailto:${supportEmail}?subject=${encodeURIComponent('Account Deletion Request')}`}
@@ -177,15 +341,6 @@ export default function DeleteAccount() {
             {supportEmail}
           </a>
         </div>
-
-        {/* Processing Info */}
-        <div className="mt-6 text-center text-sm text-muted-foreground">
-          <p>
-            Account deletion requests are typically processed within <strong>30 days</strong>.
-            <br />
-            You will receive a confirmation email once your account has been deleted.
-          </p>
-        </div>
       </main>
 
       {/* Footer */}
@@ -205,6 +360,15 @@ export default function DeleteAccount() {
         </div>
       </footer>
 
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={(pin) => submitRequest({ pin })}
+        mode="verify"
+        title="Confirm Deletion"
+        description="Enter your PIN to confirm deleting your account"
+      />
+
       {/* Floating WhatsApp Button */}
       <FloatingWhatsApp />
     </div>
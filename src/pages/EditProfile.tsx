@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { MobileLayout } from '@/components/layout/MobileLayout';
-import { ArrowLeft, Camera } from 'lucide-react';
+import { ArrowLeft, Camera, BadgeCheck } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -9,6 +9,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { normalizeNigerianPhone } from '@/lib/phone';
+import { getDeviceId, getDeviceName } from '@/lib/device';
+import { PhoneOtpDialog } from '@/components/auth/PhoneOtpDialog';
+import { invokePhoneOtp } from '@/lib/phoneOtp';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
 
 export default function EditProfile() {
   const navigate = useNavigate();
@@ -17,6 +22,18 @@ export default function EditProfile() {
   const [loading, setLoading] = useState(false);
   const [fullName, setFullName] = useState(profile?.full_name || '');
   const [email, setEmail] = useState(profile?.email || '');
+  const [newPhone, setNewPhone] = useState('');
+  const [editingPhone, setEditingPhone] = useState(false);
+  const [phonePin, setPhonePin] = useState('');
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [showPhoneOtp, setShowPhoneOtp] = useState(false);
+  const [showEmailOtp, setShowEmailOtp] = useState(false);
+
+  const phoneVerified = !!profile?.phone_verified_at;
+
+  useEffect(() => {
+    if (profile?.email) setEmail(profile.email);
+  }, [profile?.email]);
 
   const getInitials = (name: string) => {
     return name
@@ -27,31 +44,45 @@ export default function EditProfile() {
       .slice(0, 2);
   };
 
+  const emailChanged = email.trim().toLowerCase() !== (profile?.email || '').toLowerCase();
+
   const handleSave = async () => {
     if (!profile?.id) return;
+
+    // The sign-in email only changes once a code sent to the verified phone is confirmed
+    if (emailChanged && !phoneVerified) {
+      toast({
+        title: 'Verify Your Phone',
+        description: 'Verify your phone number before changing your email address.',
+        variant: 'destructive',
+      });
+      return;
+    }
     
     setLoading(true);
     try {
       const { error } = await supabase
         .from('profiles')
-        .update({ 
-          full_name: fullName,
-          email: email 
-        })
+        .update({ full_name: fullName })
         .eq('id', profile.id);
 
       if (error) throw error;
 
+      if (emailChanged) {
+        setShowEmailOtp(true);
+        return;
+      }
+
       await refreshProfile();
       toast({
         title: 'Profile Updated',
         description: 'Your profile has been updated successfully.',
       });
       navigate('/profile');
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to update profile',
+        description: error instanceof Error ? error.message : 'Failed to update profile',
         variant: 'destructive',
       });
     } finally {
@@ -59,6 +90,68 @@ export default function EditProfile() {
     }
   };
 
+  const handleEmailOtpSubmit = async (code: string) => {
+    const { error } = await invokePhoneOtp({ action: 'change_email', email: email.trim(), code });
+    if (error) return error;
+
+    await refreshProfile();
+    toast({
+      title: 'Email Changed',
+      description: 'Use your new email address the next time you sign in.',
+    });
+    navigate('/profile');
+    return null;
+  };
+
+  // Verifying the current number needs only the SMS code; switching away from a
+  // verified number also needs the transaction PIN
+  const handleStartPhoneVerification = () => {
+    if (editingPhone) {
+      const normalized = normalizeNigerianPhone(newPhone);
+      if (!normalized) {
+        toast({
+          title: 'Invalid Number',
+          description: 'Enter a valid Nigerian mobile number.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setNewPhone(normalized);
+    }
+
+    if (phoneVerified) {
+      setShowPinDialog(true);
+    } else {
+      setShowPhoneOtp(true);
+    }
+  };
+
+  const handlePhonePinComplete = (pin: string) => {
+    setPhonePin(pin);
+    setShowPhoneOtp(true);
+  };
+
+  const handlePhoneOtpSubmit = async (code: string) => {
+    const { error } = await invokePhoneOtp({
+      action: 'verify',
+      code,
+      pin: phonePin || undefined,
+      device_id: getDeviceId(),
+      device_name: getDeviceName(),
+    });
+    if (error) return error;
+
+    await refreshProfile();
+    setPhonePin('');
+    setNewPhone('');
+    setEditingPhone(false);
+    toast({
+      title: editingPhone ? 'Phone Number Changed' : 'Phone Verified',
+      description: 'Your phone number is verified. Higher transfer limits are now available.',
+    });
+    return null;
+  };
+
   return (
     <MobileLayout showNav={false}>
       <div className="safe-area-top px-4 py-6">
@@ -102,14 +195,50 @@ export default function EditProfile() {
           </div>
 
           <div>
-            <Label htmlFor="phone">Phone Number</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="phone">Phone Number</Label>
+              {phoneVerified ? (
+                <span className="text-xs text-green-600 font-medium flex items-center gap-1">
+                  <BadgeCheck className="w-3.5 h-3.5" /> Verified
+                </span>
+              ) : (
+                <span className="text-xs text-yellow-600 font-medium">Not verified</span>
+              )}
+            </div>
             <Input
               id="phone"
-              value={profile?.phone || ''}
-              disabled
-              className="mt-1 bg-muted"
+              value={editingPhone ? newPhone : profile?.phone || ''}
+              onChange={(e) => setNewPhone(e.target.value)}
+              disabled={!editingPhone}
+              placeholder="Enter your new phone number"
+              inputMode="tel"
+              className={`mt-1 ${editingPhone ? '' : 'bg-muted'}`}
             />
-            <p className="text-xs text-muted-foreground mt-1">Phone number cannot be changed</p>
+            <div className="flex items-center gap-4 mt-2">
+              {(editingPhone || !phoneVerified) && (
+                <button
+                  onClick={handleStartPhoneVerification}
+                  disabled={editingPhone && !newPhone}
+                  className="text-sm text-primary font-medium disabled:opacity-50"
+                >
+                  {editingPhone ? 'Send Code' : 'Verify Number'}
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setEditingPhone(!editingPhone);
+                  setNewPhone('');
+                }}
+                className="text-sm text-muted-foreground font-medium"
+              >
+                {editingPhone ? 'Cancel' : 'Change Number'}
+              </button>
+            </div>
+            {!phoneVerified && !editingPhone && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Verify your number to unlock higher transfer limits and reset your PIN by SMS
+              </p>
+            )}
           </div>
 
           <div>
@@ -122,6 +251,11 @@ export default function EditProfile() {
               placeholder="Enter your email"
               className="mt-1"
             />
+            {emailChanged && (
+              <p className="text-xs text-muted-foreground mt-1">
+                You will confirm this change with a code sent to your phone
+              </p>
+            )}
           </div>
 
           <div>
@@ -144,6 +278,34 @@ export default function EditProfile() {
           {loading ? 'Saving...' : 'Save Changes'}
         </Button>
       </div>
+
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={handlePhonePinComplete}
+        mode="verify"
+        title="Confirm Number Change"
+        description="Enter your PIN to move your account to a new number"
+      />
+
+      <PhoneOtpDialog
+        open={showPhoneOtp}
+        onOpenChange={setShowPhoneOtp}
+        purpose="verify_phone"
+        phone={editingPhone ? newPhone : undefined}
+        title={editingPhone ? 'Verify New Number' : 'Verify Phone Number'}
+        description="Enter the 6-digit code we sent by SMS"
+        onSubmit={handlePhoneOtpSubmit}
+      />
+
+      <PhoneOtpDialog
+        open={showEmailOtp}
+        onOpenChange={setShowEmailOtp}
+        purpose="change_email"
+        title="Confirm Email Change"
+        description={`Enter the code we texted to your phone to switch to ${email.trim()}`}
+        onSubmit={handleEmailOtpSubmit}
+      />
     </MobileLayout>
   );
 }
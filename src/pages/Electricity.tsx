@@ -6,9 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { IDEMPOTENCY_HEADER, useIdempotencyKey } from '@/hooks/useIdempotencyKey';
 import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
 import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { SavedRecipients } from '@/components/SavedRecipients';
+import { Beneficiary, useBeneficiaries } from '@/hooks/useBeneficiaries';
 
 interface ElectricityProvider {
   id: string;
@@ -21,6 +26,7 @@ interface ElectricityProvider {
 export default function Electricity() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { keyFor, settle } = useIdempotencyKey();
   const [providers, setProviders] = useState<ElectricityProvider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [meterNumber, setMeterNumber] = useState('');
@@ -28,12 +34,15 @@ export default function Electricity() {
   const [meterType, setMeterType] = useState<'prepaid' | 'postpaid'>('prepaid');
   const [isVerifying, setIsVerifying] = useState(false);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
   const [customerInfo, setCustomerInfo] = useState<{
     name: string;
     address: string;
     verified: boolean;
   } | null>(null);
   const [balance, setBalance] = useState(0);
+  const { beneficiaries, saveBeneficiary, updateBeneficiary, removeBeneficiary } = useBeneficiaries('meter');
 
   useEffect(() => {
     fetchProviders();
@@ -120,6 +129,10 @@ export default function Electricity() {
           address: data.customer_address || '',
           verified: true,
         });
+        // Keep a saved meter's name in step with the disco's records
+        if (beneficiaries.some((b) => b.value === meterNumber.replace(/\D/g, ''))) {
+          saveBeneficiary(meterNumber, { provider: selectedProvider, customerName: data.customer_name });
+        }
         toast({
           title: 'Meter Verified',
           description: `Customer: ${data.customer_name}`,
@@ -145,6 +158,50 @@ export default function Electricity() {
     }
   };
 
+  const handleSelectSaved = (beneficiary: Beneficiary) => {
+    if (beneficiary.provider) setSelectedProvider(beneficiary.provider);
+    const meterTypeUsed = beneficiary.last_products.electricity?.meter_type;
+    if (meterTypeUsed === 'prepaid' || meterTypeUsed === 'postpaid') setMeterType(meterTypeUsed);
+    setMeterNumber(beneficiary.value);
+    setCustomerInfo(null);
+  };
+
+  const repeatLabel = (b: Beneficiary) => {
+    const product = b.last_products.electricity;
+    return product?.amount
+      ? `₦${Number(product.amount).toLocaleString()} ${String(product.provider).toUpperCase()} ${product.meter_type}`
+      : null;
+  };
+
+  // The meter was verified when it was last paid for, so its saved name stands in for a new check
+  const handleRepeat = (b: Beneficiary) => {
+    const product = b.last_products.electricity;
+    if (!product?.amount || !product.provider) return;
+    if (Number(product.amount) > balance) {
+      toast({
+        variant: 'destructive',
+        title: 'Insufficient Balance',
+        description: "You don't have enough funds in your wallet.",
+        action: (
+          <ToastAction altText="Add Money" onClick={() => navigate('/add-money')}>
+            Add Money
+          </ToastAction>
+        ),
+      });
+      return;
+    }
+
+    setSelectedProvider(String(product.provider));
+    setMeterType(product.meter_type === 'postpaid' ? 'postpaid' : 'prepaid');
+    setMeterNumber(b.value);
+    setAmount(String(product.amount));
+    setCustomerInfo({ name: b.customer_name || 'Customer', address: '', verified: true });
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
   const handlePurchase = async () => {
     if (!selectedProvider || !meterNumber || !amount || !customerInfo?.verified) {
       toast({
@@ -179,6 +236,15 @@ export default function Electricity() {
       return;
     }
 
+    // Every purchase needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const executePurchase = async (pin: string) => {
+    setShowPinDialog(false);
     setIsPurchasing(true);
 
     try {
@@ -192,20 +258,29 @@ export default function Electricity() {
           headers: {
             'Authorization': `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
+            [IDEMPOTENCY_HEADER]: keyFor({ provider_code: selectedProvider, meter_number: meterNumber, meter_type: meterType, amount: Number(amount) }),
           },
           body: JSON.stringify({
             provider_code: selectedProvider,
             meter_number: meterNumber,
             meter_type: meterType,
-            amount: amountNum,
-            customer_name: customerInfo.name,
+            amount: Number(amount),
+            customer_name: customerInfo?.name,
+            pin,
           }),
         }
       );
+      settle(response.ok ? undefined : response.status);
 
       const data = await response.json();
 
       if (data.success) {
+        saveBeneficiary(meterNumber, {
+          provider: selectedProvider,
+          customerName: customerInfo?.name,
+          service: 'electricity',
+          product: { provider: selectedProvider, meter_type: meterType, amount: Number(amount) },
+        });
         toast({
           title: 'Purchase Successful!',
           description: data.token 
@@ -350,6 +425,15 @@ export default function Electricity() {
                 {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
               </Button>
             </div>
+            <SavedRecipients
+              recipients={beneficiaries}
+              onSelect={handleSelectSaved}
+              onRemove={removeBeneficiary}
+              onUpdate={updateBeneficiary}
+              repeatLabel={repeatLabel}
+              onRepeat={handleRepeat}
+              title="Saved meters"
+            />
           </div>
 
           {/* Customer Info */}
@@ -425,6 +509,14 @@ export default function Electricity() {
           </Button>
         </div>
       </div>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={executePurchase}
+        mode={pinDialogMode}
+      />
     </MobileLayout>
   );
 }
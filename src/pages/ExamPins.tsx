@@ -5,9 +5,13 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { IDEMPOTENCY_HEADER, useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { useTierPricing } from '@/hooks/useTierPricing';
 import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
 import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
 
 interface ExamPin {
   id: string;
@@ -20,10 +24,14 @@ interface ExamPin {
 export default function ExamPins() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { keyFor, settle } = useIdempotencyKey();
+  const { priceOf } = useTierPricing('exam_pin');
   const [examPins, setExamPins] = useState<ExamPin[]>([]);
   const [selectedExam, setSelectedExam] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
   const [purchasedPins, setPurchasedPins] = useState<{ pin: string; serial: string }[]>([]);
   const [balance, setBalance] = useState(0);
 
@@ -69,7 +77,7 @@ export default function ExamPins() {
     const exam = examPins.find(e => e.code === selectedExam);
     if (!exam) return;
 
-    const totalPrice = exam.price * quantity;
+    const totalPrice = priceOf(exam.id, exam.price) * quantity;
     if (totalPrice > balance) {
       toast({
         variant: 'destructive',
@@ -84,6 +92,15 @@ export default function ExamPins() {
       return;
     }
 
+    // Every purchase needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const executePurchase = async (pin: string) => {
+    setShowPinDialog(false);
     setIsPurchasing(true);
     setPurchasedPins([]);
 
@@ -98,13 +115,16 @@ export default function ExamPins() {
           headers: {
             'Authorization': `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
+            [IDEMPOTENCY_HEADER]: keyFor({ exam_code: selectedExam, quantity }),
           },
           body: JSON.stringify({
             exam_code: selectedExam,
             quantity,
+            pin,
           }),
         }
       );
+      settle(response.ok ? undefined : response.status);
 
       const data = await response.json();
 
@@ -171,7 +191,7 @@ export default function ExamPins() {
   };
 
   const selectedExamData = examPins.find(e => e.code === selectedExam);
-  const totalPrice = selectedExamData ? selectedExamData.price * quantity : 0;
+  const totalPrice = selectedExamData ? priceOf(selectedExamData.id, selectedExamData.price) * quantity : 0;
 
   return (
     <MobileLayout showNav={false}>
@@ -255,7 +275,7 @@ export default function ExamPins() {
                       </div>
                       <div className="text-left flex-1">
                         <p className="font-semibold text-foreground">{exam.name}</p>
-                        <p className="text-sm text-primary font-bold">{formatPrice(exam.price)}</p>
+                        <p className="text-sm text-primary font-bold">{formatPrice(priceOf(exam.id, exam.price))}</p>
                       </div>
                       {selectedExam === exam.code && (
                         <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
@@ -333,6 +353,14 @@ export default function ExamPins() {
           </div>
         </div>
       </div>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={executePurchase}
+        mode={pinDialogMode}
+      />
     </MobileLayout>
   );
 }
@@ -154,6 +154,8 @@ export default function History() {
       tv: 'TV Subscription',
       transfer: 'Transfer',
       referral_bonus: 'Referral Bonus',
+      airtime_to_cash: 'Airtime to Cash',
+      account_closure: 'Account Closure',
     };
     return labels[category] || category;
   };
@@ -265,7 +267,8 @@ export default function History() {
                         </span>
                         <p className={`text-xs ${
                           tx.status === 'completed' ? 'text-green-600' : 
-                          tx.status === 'failed' ? 'text-red-600' : 'text-yellow-600'
+                          tx.status === 'failed' ? 'text-red-600' :
+                          tx.status === 'reversed' ? 'text-blue-600' : 'text-yellow-600'
                         }`}>
                           {tx.status}
                         </p>
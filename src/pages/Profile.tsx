@@ -7,7 +7,9 @@ import {
   LogOut, 
   ChevronRight,
   Gift,
-  Bell
+  Bell,
+  KeyRound,
+  Webhook
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
@@ -18,6 +20,8 @@ const menuItems = [
   { icon: Gift, label: 'Refer & Earn', path: '/referral' },
   { icon: Bell, label: 'Notifications', path: '/notifications' },
   { icon: Shield, label: 'Security', path: '/security' },
+  { icon: KeyRound, label: 'API Keys', path: '/api-keys' },
+  { icon: Webhook, label: 'Webhooks', path: '/webhooks' },
   { icon: HelpCircle, label: 'Help & Support', path: '/support' },
   { icon: Settings, label: 'Settings', path: '/settings' },
 ];
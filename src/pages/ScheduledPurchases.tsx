@@ -0,0 +1,680 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Pause, Play, X, CalendarClock } from 'lucide-react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTierPricing } from '@/hooks/useTierPricing';
+import { usePortedNumber } from '@/hooks/usePortedNumber';
+import { getApiErrorMessage, parseError } from '@/lib/errorHandler';
+import { detectNetwork, normalizeNigerianPhone } from '@/lib/phone';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { ContactPickerButton } from '@/components/ContactPickerButton';
+import { PortedNumberNotice } from '@/components/PortedNumberNotice';
+
+const networks = [
+  { id: 'mtn', name: 'MTN' },
+  { id: 'airtel', name: 'Airtel' },
+  { id: 'glo', name: 'Glo' },
+  { id: '9mobile', name: '9mobile' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type ProductType = 'data' | 'airtime' | 'cable';
+type Frequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+interface DataPlan {
+  id: string;
+  display_name: string;
+  selling_price: number;
+  api_price: number;
+}
+
+interface CableProvider {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface CableBouquet {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface Schedule {
+  id: string;
+  product_type: string;
+  label: string;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  run_hour: number;
+  status: string;
+  paused_reason: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  schedule_id: string;
+  status: string;
+  reference: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+const STATUS_VARIANTS: Record<string, 'secondary' | 'destructive' | 'outline'> = {
+  active: 'secondary',
+  completed: 'secondary',
+  failed: 'destructive',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(value);
+
+const formatHour = (hour: number) => `${((hour + 11) % 12) + 1}:00 ${hour < 12 ? 'AM' : 'PM'}`;
+
+function describeTiming(schedule: Schedule) {
+  const at = formatHour(schedule.run_hour);
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Every day at ${at}`;
+    case 'weekly':
+      return `Every ${WEEKDAYS[schedule.day_of_week ?? 0]} at ${at}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month} at ${at}`;
+    default:
+      return `Once at ${at}`;
+  }
+}
+
+export default function ScheduledPurchases() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { priceOf: dataPriceOf } = useTierPricing('data');
+  const { priceOf: cablePriceOf } = useTierPricing('cable');
+
+  const [productType, setProductType] = useState<ProductType>('data');
+  const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [dataPlans, setDataPlans] = useState<DataPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [amount, setAmount] = useState('');
+  const ported = usePortedNumber(phoneNumber, selectedNetwork);
+  const [providers, setProviders] = useState<CableProvider[]>([]);
+  const [selectedProvider, setSelectedProvider] = useState('');
+  const [bouquets, setBouquets] = useState<CableBouquet[]>([]);
+  const [selectedBouquetId, setSelectedBouquetId] = useState('');
+  const [smartCardNumber, setSmartCardNumber] = useState('');
+
+  const [frequency, setFrequency] = useState<Frequency>('monthly');
+  const [dayOfWeek, setDayOfWeek] = useState('1');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [runHour, setRunHour] = useState('9');
+  const [runDate, setRunDate] = useState('');
+
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
+  const [resumingSchedule, setResumingSchedule] = useState<Schedule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<Schedule | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('cable_providers')
+      .select('id, name, code')
+      .eq('is_active', true)
+      .order('name')
+      .then(({ data }) => setProviders(data || []));
+  }, []);
+
+  useEffect(() => {
+    setSelectedPlanId('');
+    if (!selectedNetwork || productType !== 'data') return;
+
+    supabase
+      .from('data_plans')
+      .select('id, display_name, selling_price, api_price')
+      .eq('network', selectedNetwork)
+      .eq('is_active', true)
+      .order('selling_price', { ascending: true })
+      .then(({ data }) => setDataPlans(data || []));
+  }, [productType, selectedNetwork]);
+
+  useEffect(() => {
+    setSelectedBouquetId('');
+    if (!selectedProvider) return;
+
+    supabase
+      .from('cable_bouquets')
+      .select('id, name, price')
+      .eq('provider_code', selectedProvider)
+      .eq('is_active', true)
+      .order('price')
+      .then(({ data }) => setBouquets(data || []));
+  }, [selectedProvider]);
+
+  const fetchSchedules = useCallback(async () => {
+    const { data } = await supabase
+      .from('scheduled_purchases')
+      .select('id, product_type, label, frequency, day_of_week, day_of_month, run_hour, status, paused_reason, next_run_at, last_run_at')
+      .in('status', ['active', 'paused'])
+      .order('created_at', { ascending: false });
+
+    setSchedules(data || []);
+    if (!data?.length) {
+      setRuns([]);
+      return;
+    }
+
+    const { data: recentRuns } = await supabase
+      .from('scheduled_purchase_runs')
+      .select('id, schedule_id, status, reference, error, created_at')
+      .in('schedule_id', data.map((s) => s.id))
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    setRuns(recentRuns || []);
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const handlePhoneChange = (value: string) => {
+    setPhoneNumber(value);
+    const detected = detectNetwork(value);
+    if (detected) setSelectedNetwork(detected);
+  };
+
+  const invokeSchedules = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('scheduled-purchases', { body });
+
+    if (error) {
+      const context = (error as { context?: Response }).context;
+      const errorBody = context ? await context.json().catch(() => null) : null;
+      throw new Error(errorBody?.error || error.message);
+    }
+    return data;
+  };
+
+  const initiateSave = () => {
+    const missing = productType === 'cable'
+      ? !selectedProvider || !selectedBouquetId || smartCardNumber.replace(/\D/g, '').length < 10
+      : !selectedNetwork || !normalizeNigerianPhone(phoneNumber) ||
+        (productType === 'data' ? !selectedPlanId : !(Number(amount) >= 50 && Number(amount) <= 50000));
+
+    if (missing) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing Information',
+        description: productType === 'cable'
+          ? 'Choose a provider, bouquet and enter the smartcard number.'
+          : 'Enter a valid phone number, network and ' + (productType === 'data' ? 'plan.' : 'amount (₦50 – ₦50,000).'),
+      });
+      return;
+    }
+    if (productType !== 'cable' && ported.needsConfirmation) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the Network',
+        description: `This looks like a ${ported.detectedNetwork?.toUpperCase()} number. Switch network or confirm it was ported.`,
+      });
+      return;
+    }
+    if (frequency === 'once' && !runDate) {
+      toast({ variant: 'destructive', title: 'Missing Information', description: 'Choose the date to buy on.' });
+      return;
+    }
+
+    setResumingSchedule(null);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  // A paused schedule spends the wallet again once resumed, so resuming needs the PIN too
+  const requestResume = (schedule: Schedule) => {
+    setResumingSchedule(schedule);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const handlePinComplete = (pin: string) => {
+    setShowPinDialog(false);
+    if (resumingSchedule) {
+      updateSchedule(resumingSchedule, 'resume', pin);
+      setResumingSchedule(null);
+    } else {
+      saveSchedule(pin);
+    }
+  };
+
+  const saveSchedule = async (pin: string) => {
+    setShowPinDialog(false);
+    setSaving(true);
+
+    try {
+      const data = await invokeSchedules({
+        action: 'create',
+        product_type: productType,
+        network: selectedNetwork,
+        phone_number: normalizeNigerianPhone(phoneNumber),
+        ported: ported.confirmed,
+        plan_id: selectedPlanId || undefined,
+        amount: productType === 'airtime' ? Number(amount) : undefined,
+        provider_code: selectedProvider || undefined,
+        bouquet_id: selectedBouquetId || undefined,
+        smartcard_number: smartCardNumber,
+        frequency,
+        day_of_week: frequency === 'weekly' ? Number(dayOfWeek) : null,
+        day_of_month: frequency === 'monthly' ? Number(dayOfMonth) : null,
+        run_hour: Number(runHour),
+        run_date: frequency === 'once' ? runDate : undefined,
+        pin,
+      });
+
+      if (!data?.success) {
+        const errorInfo = getApiErrorMessage(data);
+        toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+        return;
+      }
+
+      toast({
+        title: 'Schedule Saved',
+        description: `First purchase on ${new Date(data.next_run_at).toLocaleString()}. Keep your wallet funded.`,
+      });
+      setPhoneNumber('');
+      setSmartCardNumber('');
+      setAmount('');
+      fetchSchedules();
+    } catch (error) {
+      const errorInfo = parseError(error);
+      toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSchedule = async (schedule: Schedule, action: 'pause' | 'resume' | 'cancel', pin?: string) => {
+    setBusyId(schedule.id);
+    try {
+      const data = await invokeSchedules({ action, id: schedule.id, pin });
+      if (!data?.success) {
+        const errorInfo = getApiErrorMessage(data);
+        toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+        return;
+      }
+      toast({
+        title: action === 'cancel' ? 'Schedule Cancelled' : action === 'pause' ? 'Schedule Paused' : 'Schedule Resumed',
+      });
+      fetchSchedules();
+    } catch (error) {
+      const errorInfo = parseError(error);
+      toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runsOf = (scheduleId: string) => runs.filter((r) => r.schedule_id === scheduleId).slice(0, 3);
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top">
+        {/* Header */}
+        <div className="flex items-center gap-4 px-4 py-4">
+          <button onClick={() => navigate(-1)} className="p-2 -ml-2">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-bold text-foreground">Auto-Renew</h1>
+        </div>
+
+        <div className="px-4 pb-6 space-y-6">
+          {/* Schedules */}
+          {schedules.length > 0 && (
+            <div>
+              <h2 className="font-semibold mb-3">Your Schedules</h2>
+              <div className="space-y-3">
+                {schedules.map((schedule) => (
+                  <div key={schedule.id} className="bg-card rounded-xl p-3 shadow-sm text-sm space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium">{schedule.label}</p>
+                        <p className="text-xs text-muted-foreground">{describeTiming(schedule)}</p>
+                        {schedule.status === 'active' && schedule.next_run_at && (
+                          <p className="text-xs text-muted-foreground">
+                            Next: {new Date(schedule.next_run_at).toLocaleString()}
+                          </p>
+                        )}
+                        {schedule.status === 'paused' && schedule.paused_reason && (
+                          <p className="text-xs text-amber-600">{schedule.paused_reason}</p>
+                        )}
+                      </div>
+                      <Badge variant={STATUS_VARIANTS[schedule.status] || 'outline'}>{schedule.status}</Badge>
+                    </div>
+
+                    {runsOf(schedule.id).map((run) => (
+                      <div key={run.id} className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground truncate">
+                          {new Date(run.created_at).toLocaleString()}
+                          {run.error && ` · ${run.error}`}
+                        </span>
+                        <Badge variant={STATUS_VARIANTS[run.status] || 'outline'}>{run.status}</Badge>
+                      </div>
+                    ))}
+
+                    <div className="flex gap-2">
+                      {schedule.status === 'active' ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId === schedule.id}
+                          onClick={() => updateSchedule(schedule, 'pause')}
+                        >
+                          <Pause className="w-3.5 h-3.5 mr-1" /> Pause
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId === schedule.id}
+                          onClick={() => requestResume(schedule)}
+                        >
+                          <Play className="w-3.5 h-3.5 mr-1" /> Resume
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={busyId === schedule.id}
+                        onClick={() => setCancelling(schedule)}
+                      >
+                        <X className="w-3.5 h-3.5 mr-1" /> Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* New Schedule */}
+          <div className="space-y-4">
+            <h2 className="font-semibold flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" /> New Schedule
+            </h2>
+
+            <Tabs value={productType} onValueChange={(value) => setProductType(value as ProductType)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="data">Data</TabsTrigger>
+                <TabsTrigger value="airtime">Airtime</TabsTrigger>
+                <TabsTrigger value="cable">TV</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {productType !== 'cable' ? (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="schedule-phone">Phone Number</Label>
+                    <ContactPickerButton onPick={({ phone }) => handlePhoneChange(phone)} />
+                  </div>
+                  <Input
+                    id="schedule-phone"
+                    type="tel"
+                    inputMode="numeric"
+                    placeholder="08031234567"
+                    value={phoneNumber}
+                    onChange={(e) => handlePhoneChange(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Network</Label>
+                  <Select value={selectedNetwork ?? ''} onValueChange={setSelectedNetwork}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a network" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {networks.map((network) => (
+                        <SelectItem key={network.id} value={network.id}>{network.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedNetwork && ported.detectedNetwork && (
+                    <PortedNumberNotice
+                      detectedNetwork={ported.detectedNetwork}
+                      network={selectedNetwork}
+                      confirmed={ported.confirmed}
+                      onConfirmedChange={(value) => ported.setConfirmed(value)}
+                      onSwitchNetwork={() => setSelectedNetwork(ported.detectedNetwork)}
+                    />
+                  )}
+                </div>
+
+                {productType === 'data' ? (
+                  <div className="space-y-2">
+                    <Label>Data Plan</Label>
+                    <Select value={selectedPlanId} onValueChange={setSelectedPlanId} disabled={!selectedNetwork}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a plan" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dataPlans.map((plan) => (
+                          <SelectItem key={plan.id} value={plan.id}>
+                            {plan.display_name} · {formatCurrency(dataPriceOf(plan.id, plan.selling_price, plan.api_price))}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-amount">Amount</Label>
+                    <Input
+                      id="schedule-amount"
+                      type="number"
+                      inputMode="numeric"
+                      placeholder="₦50 – ₦50,000"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Provider</Label>
+                  <Select value={selectedProvider} onValueChange={setSelectedProvider}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {providers.map((provider) => (
+                        <SelectItem key={provider.id} value={provider.code}>{provider.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Bouquet</Label>
+                  <Select value={selectedBouquetId} onValueChange={setSelectedBouquetId} disabled={!selectedProvider}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a bouquet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bouquets.map((bouquet) => (
+                        <SelectItem key={bouquet.id} value={bouquet.id}>
+                          {bouquet.name} · {formatCurrency(cablePriceOf(bouquet.id, bouquet.price))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-smartcard">Smartcard / IUC Number</Label>
+                  <Input
+                    id="schedule-smartcard"
+                    inputMode="numeric"
+                    value={smartCardNumber}
+                    onChange={(e) => setSmartCardNumber(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Timing */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Repeat</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as Frequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="once">Once</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Time</Label>
+                <Select value={runHour} onValueChange={setRunHour}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {frequency === 'weekly' && (
+              <div className="space-y-2">
+                <Label>Day of the week</Label>
+                <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label>Day of the month</Label>
+                <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 31 }, (_, index) => (
+                      <SelectItem key={index} value={String(index + 1)}>{index + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">In shorter months, it runs on the last day.</p>
+              </div>
+            )}
+
+            {frequency === 'once' && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-date">Date</Label>
+                <Input id="schedule-date" type="date" value={runDate} onChange={(e) => setRunDate(e.target.value)} />
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Purchases are paid from your wallet. If your balance is too low, the schedule is paused and we'll let you know.
+            </p>
+
+            <Button className="w-full" size="lg" onClick={initiateSave} disabled={saving}>
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Save Schedule'
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Cancel Confirmation */}
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelling?.label} will no longer be bought automatically. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (cancelling) updateSchedule(cancelling, 'cancel');
+                setCancelling(null);
+              }}
+            >
+              Cancel Schedule
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={handlePinComplete}
+        mode={pinDialogMode}
+      />
+    </MobileLayout>
+  );
+}
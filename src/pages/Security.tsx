@@ -4,23 +4,29 @@ import { ArrowLeft, Lock, Shield, Fingerprint, LogIn } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useBiometricAuth } from '@/hooks/useBiometricAuth';
-import { 
-  TransactionPinDialog, 
-  isTransactionPinSetup, 
-  clearTransactionPin,
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import {
+  isTransactionPinSetup,
+  isTransactionPinKnownSet,
   isBiometricForTransactionsEnabled,
   setBiometricForTransactions,
-} from '@/components/auth/TransactionPinDialog';
-import { clearStoredUserForPinLogin, isPinLoginAvailable } from '@/components/auth/PinLoginScreen';
+  resetTransactionPin,
+} from '@/lib/transactionPin';
+import { PhoneOtpDialog } from '@/components/auth/PhoneOtpDialog';
+import { fetchPhoneStatus } from '@/lib/phoneOtp';
+import { isPinLoginAvailable } from '@/components/auth/PinLoginScreen';
 
 export default function Security() {
   const navigate = useNavigate();
   const { toast } = useToast();
   
-  const [transactionPinSetup, setTransactionPinSetup] = useState(isTransactionPinSetup());
+  const [transactionPinSetup, setTransactionPinSetup] = useState(isTransactionPinKnownSet());
   const [showTransactionPinDialog, setShowTransactionPinDialog] = useState(false);
-  const [transactionPinMode, setTransactionPinMode] = useState<'setup' | 'change'>('setup');
+  const [transactionPinMode, setTransactionPinMode] = useState<'setup' | 'change' | 'verify' | 'reset'>('setup');
+  const [resetPin, setResetPin] = useState('');
+  const [showResetOtpDialog, setShowResetOtpDialog] = useState(false);
   const [biometricForTransactions, setBiometricForTransactionsState] = useState(isBiometricForTransactionsEnabled());
   const [pinLoginEnabled, setPinLoginEnabled] = useState(isPinLoginAvailable());
 
@@ -29,41 +35,76 @@ export default function Security() {
     isEnabled: biometricLoginEnabled,
     getBiometricLabel,
     clearCredentials,
-    verifyIdentity,
+    setTransactionPinCredential,
+    clearTransactionPinCredential,
   } = useBiometricAuth();
 
   // Refresh states on mount
   useEffect(() => {
-    setTransactionPinSetup(isTransactionPinSetup());
     setBiometricForTransactionsState(isBiometricForTransactionsEnabled());
     setPinLoginEnabled(isPinLoginAvailable());
+
+    // The PIN lives on the server, so confirm its state there
+    isTransactionPinSetup().then((hasPin) => {
+      setTransactionPinSetup(hasPin);
+      setPinLoginEnabled(isPinLoginAvailable());
+    });
   }, []);
 
+  // The PIN is required for purchases, so it can be set or changed but not removed
   const handleTransactionPinToggle = () => {
-    if (transactionPinSetup) {
-      clearTransactionPin();
-      clearStoredUserForPinLogin();
-      setTransactionPinSetup(false);
-      setPinLoginEnabled(false);
-      toast({
-        title: 'PIN Disabled',
-        description: 'Your PIN for login and transactions has been removed.',
-      });
-    } else {
+    if (!transactionPinSetup) {
       setTransactionPinMode('setup');
       setShowTransactionPinDialog(true);
     }
   };
 
   const handleChangeTransactionPin = () => {
-    clearTransactionPin();
-    setTransactionPinMode('setup');
+    setTransactionPinMode('change');
     setShowTransactionPinDialog(true);
   };
 
+  // A forgotten PIN is replaced with a code texted to the verified phone
+  const handleForgotTransactionPin = async () => {
+    const status = await fetchPhoneStatus();
+    if (!status?.phoneVerified) {
+      toast({
+        variant: 'destructive',
+        title: 'Verify Your Phone',
+        description: 'Resetting your PIN needs a verified phone number.',
+        action: (
+          <ToastAction altText="Verify" onClick={() => navigate('/profile/edit')}>
+            Verify
+          </ToastAction>
+        ),
+      });
+      return;
+    }
+    setTransactionPinMode('reset');
+    setShowTransactionPinDialog(true);
+  };
+
+  const handleResetOtpSubmit = async (code: string) => {
+    const { error } = await resetTransactionPin(code, resetPin);
+    if (error) return error;
+
+    if (isBiometricForTransactionsEnabled()) {
+      await setTransactionPinCredential(resetPin);
+    }
+    setResetPin('');
+    setTransactionPinSetup(true);
+    setPinLoginEnabled(isPinLoginAvailable());
+    toast({
+      title: 'PIN Reset',
+      description: 'Your new PIN is active on all your devices.',
+    });
+    return null;
+  };
+
   const handleBiometricForTransactionsToggle = async () => {
     if (biometricForTransactions) {
       // Disable biometric for transactions
+      await clearTransactionPinCredential();
       setBiometricForTransactions(false);
       setBiometricForTransactionsState(false);
       toast({
@@ -71,9 +112,22 @@ export default function Security() {
         description: 'You will need to use PIN for transactions.',
       });
     } else {
-      // Verify identity first before enabling
-      const verified = await verifyIdentity('Verify to enable biometric for transactions');
-      if (verified) {
+      // Confirm the PIN first so it can be kept behind biometric
+      setTransactionPinMode('verify');
+      setShowTransactionPinDialog(true);
+    }
+  };
+
+  const handleTransactionPinComplete = async (pin: string) => {
+    if (transactionPinMode === 'reset') {
+      setResetPin(pin);
+      setShowResetOtpDialog(true);
+      return;
+    }
+
+    if (transactionPinMode === 'verify') {
+      const stored = await setTransactionPinCredential(pin);
+      if (stored) {
         setBiometricForTransactions(true);
         setBiometricForTransactionsState(true);
         toast({
@@ -87,7 +141,17 @@ export default function Security() {
           description: 'Biometric verification is required to enable this feature.',
         });
       }
+      return;
     }
+
+    setTransactionPinSetup(true);
+    setPinLoginEnabled(isPinLoginAvailable());
+    toast({
+      title: transactionPinMode === 'change' ? 'PIN Changed' : 'PIN Set',
+      description: transactionPinMode === 'change'
+        ? 'Your new PIN is active on all your devices.'
+        : 'Your 4-digit PIN for login and transactions has been created.',
+    });
   };
 
   const handleClearBiometricLogin = async () => {
@@ -123,12 +187,15 @@ export default function Security() {
                 </div>
                 <div>
                   <p className="font-medium">4-Digit PIN</p>
-                  <p className="text-sm text-muted-foreground">For quick login & transactions</p>
+                  <p className="text-sm text-muted-foreground">
+                    {transactionPinSetup ? 'Required for all transactions' : 'For quick login & transactions'}
+                  </p>
                 </div>
               </div>
               <Switch 
                 checked={transactionPinSetup} 
                 onCheckedChange={handleTransactionPinToggle}
+                disabled={transactionPinSetup}
               />
             </div>
             {transactionPinSetup && (
@@ -139,6 +206,12 @@ export default function Security() {
                 >
                   Change PIN
                 </button>
+                <button
+                  onClick={handleForgotTransactionPin}
+                  className="text-sm text-muted-foreground font-medium"
+                >
+                  Forgot PIN?
+                </button>
                 {pinLoginEnabled && (
                   <span className="text-xs text-muted-foreground flex items-center gap-1">
                     <LogIn className="w-3 h-3" /> Quick login enabled
@@ -214,16 +287,18 @@ export default function Security() {
       <TransactionPinDialog
         open={showTransactionPinDialog}
         onOpenChange={setShowTransactionPinDialog}
-        onComplete={() => {
-          setTransactionPinSetup(true);
-          setPinLoginEnabled(isPinLoginAvailable());
-          toast({
-            title: 'PIN Set',
-            description: 'Your 4-digit PIN for login and transactions has been created.',
-          });
-        }}
+        onComplete={handleTransactionPinComplete}
         mode={transactionPinMode}
       />
+
+      <PhoneOtpDialog
+        open={showResetOtpDialog}
+        onOpenChange={setShowResetOtpDialog}
+        purpose="reset_pin"
+        title="Reset Transaction PIN"
+        description="Enter the code we texted to your verified phone to save your new PIN"
+        onSubmit={handleResetOtpSubmit}
+      />
     </MobileLayout>
   );
 }
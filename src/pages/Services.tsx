@@ -8,6 +8,9 @@ import {
   Gift,
   Banknote,
   Fingerprint,
+  Users,
+  CalendarClock,
+  Repeat,
   ChevronRight
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
@@ -29,6 +32,30 @@ const services = [
     color: 'bg-green-100 text-green-600',
     comingSoon: false
   },
+  { 
+    icon: Users, 
+    label: 'Bulk Purchase', 
+    description: 'Data & airtime for many numbers',
+    path: '/bulk', 
+    color: 'bg-teal-100 text-teal-600',
+    comingSoon: false
+  },
+  { 
+    icon: CalendarClock, 
+    label: 'Auto-Renew', 
+    description: 'Schedule data, airtime & TV',
+    path: '/schedules', 
+    color: 'bg-indigo-100 text-indigo-600',
+    comingSoon: false
+  },
+  { 
+    icon: Repeat, 
+    label: 'Auto Top-Up', 
+    description: 'Top up a line when you fund your wallet',
+    path: '/auto-topup', 
+    color: 'bg-cyan-100 text-cyan-600',
+    comingSoon: false
+  },
   { 
     icon: CreditCard, 
     label: 'Data Card', 
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { MobileLayout } from '@/components/layout/MobileLayout';
-import { ArrowLeft, Moon, Sun, Bell, Globe, Info } from 'lucide-react';
+import { ArrowLeft, Moon, Sun, Bell, Globe, Info, Trash2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
@@ -117,6 +117,20 @@ export default function Settings() {
               <p className="text-sm text-muted-foreground">Version 1.0.0</p>
             </div>
           </button>
+
+          {/* Delete Account */}
+          <button
+            onClick={() => navigate('/delete-account')}
+            className="w-full bg-card rounded-xl p-4 flex items-center gap-4 shadow-sm"
+          >
+            <div className="w-10 h-10 rounded-full bg-destructive/10 flex items-center justify-center">
+              <Trash2 className="w-5 h-5 text-destructive" />
+            </div>
+            <div className="flex-1 text-left">
+              <p className="font-medium text-destructive">Delete Account</p>
+              <p className="text-sm text-muted-foreground">Close your account and remove your data</p>
+            </div>
+          </button>
         </div>
       </div>
     </MobileLayout>
@@ -6,9 +6,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { IDEMPOTENCY_HEADER, useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { useTierPricing } from '@/hooks/useTierPricing';
 import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
 import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+import { SavedRecipients } from '@/components/SavedRecipients';
+import { Beneficiary, useBeneficiaries } from '@/hooks/useBeneficiaries';
 
 interface CableProvider {
   id: string;
@@ -29,6 +35,9 @@ interface CableBouquet {
 export default function TV() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { keyFor, settle } = useIdempotencyKey();
+  const { priceOf } = useTierPricing('cable');
+  const bouquetPrice = (bouquet: CableBouquet) => priceOf(bouquet.id, bouquet.price);
   const [providers, setProviders] = useState<CableProvider[]>([]);
   const [bouquets, setBouquets] = useState<CableBouquet[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
@@ -36,6 +45,8 @@ export default function TV() {
   const [smartCardNumber, setSmartCardNumber] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
   const [customerInfo, setCustomerInfo] = useState<{
     name: string;
     current_bouquet: string;
@@ -43,12 +54,36 @@ export default function TV() {
     verified: boolean;
   } | null>(null);
   const [balance, setBalance] = useState(0);
+  const { beneficiaries, saveBeneficiary, updateBeneficiary, removeBeneficiary } = useBeneficiaries('smartcard');
+  const [pendingRepeat, setPendingRepeat] = useState<{ provider: string; bouquetId: string } | null>(null);
 
   useEffect(() => {
     fetchProviders();
     fetchBalance();
   }, []);
 
+  // A one-tap repeat waits for its provider's bouquets, then goes straight to the PIN
+  useEffect(() => {
+    if (!pendingRepeat || !bouquets.some((b) => b.provider_code === pendingRepeat.provider)) return;
+
+    const bouquet = bouquets.find((b) => b.id === pendingRepeat.bouquetId);
+    setPendingRepeat(null);
+    if (!bouquet) {
+      toast({
+        variant: 'destructive',
+        title: 'Package Unavailable',
+        description: 'That package is no longer available. Please choose another.',
+      });
+      return;
+    }
+
+    setSelectedBouquet(bouquet.id);
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  }, [pendingRepeat, bouquets, toast]);
+
   useEffect(() => {
     if (selectedProvider) {
       fetchBouquets(selectedProvider);
@@ -92,6 +127,28 @@ export default function TV() {
     }
   };
 
+  const handleSelectSaved = (beneficiary: Beneficiary) => {
+    if (beneficiary.provider) setSelectedProvider(beneficiary.provider);
+    setSmartCardNumber(beneficiary.value);
+    setSelectedBouquet(null);
+    setCustomerInfo(null);
+  };
+
+  const repeatLabel = (b: Beneficiary) => {
+    const product = b.last_products.cable;
+    return product?.bouquet_id ? `${String(product.provider).toUpperCase()} ${product.label ?? ''}`.trim() : null;
+  };
+
+  // The smartcard was verified when it was last paid for, so its saved name stands in for a new check
+  const handleRepeat = (b: Beneficiary) => {
+    const product = b.last_products.cable;
+    if (!product?.bouquet_id || !product.provider) return;
+    setSelectedProvider(String(product.provider));
+    setSmartCardNumber(b.value);
+    setCustomerInfo({ name: b.customer_name || 'Customer', current_bouquet: '', due_date: '', verified: true });
+    setPendingRepeat({ provider: String(product.provider), bouquetId: String(product.bouquet_id) });
+  };
+
   const handleVerifySmartcard = async () => {
     if (!selectedProvider || !smartCardNumber) {
       toast({
@@ -133,6 +190,10 @@ export default function TV() {
           due_date: data.due_date || '',
           verified: true,
         });
+        // Keep a saved smartcard's name in step with the provider's records
+        if (beneficiaries.some((b) => b.value === smartCardNumber.replace(/\D/g, ''))) {
+          saveBeneficiary(smartCardNumber, { provider: selectedProvider, customerName: data.customer_name });
+        }
         toast({
           title: 'Smartcard Verified',
           description: `Customer: ${data.customer_name}`,
@@ -171,7 +232,7 @@ export default function TV() {
     const bouquet = bouquets.find(b => b.id === selectedBouquet);
     if (!bouquet) return;
 
-    if (bouquet.price > balance) {
+    if (bouquetPrice(bouquet) > balance) {
       toast({
         variant: 'destructive',
         title: 'Insufficient Balance',
@@ -185,6 +246,15 @@ export default function TV() {
       return;
     }
 
+    // Every purchase needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
+    });
+  };
+
+  const executePurchase = async (pin: string) => {
+    setShowPinDialog(false);
     setIsPurchasing(true);
 
     try {
@@ -198,19 +268,28 @@ export default function TV() {
           headers: {
             'Authorization': `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
+            [IDEMPOTENCY_HEADER]: keyFor({ provider_code: selectedProvider, smartcard_number: smartCardNumber, bouquet_id: selectedBouquet }),
           },
           body: JSON.stringify({
             provider_code: selectedProvider,
             smartcard_number: smartCardNumber,
             bouquet_id: selectedBouquet,
-            customer_name: customerInfo.name,
+            customer_name: customerInfo?.name,
+            pin,
           }),
         }
       );
+      settle(response.ok ? undefined : response.status);
 
       const data = await response.json();
 
       if (data.success) {
+        saveBeneficiary(smartCardNumber, {
+          provider: selectedProvider,
+          customerName: customerInfo?.name,
+          service: 'cable',
+          product: { provider: selectedProvider, bouquet_id: selectedBouquet, label: bouquets.find((b) => b.id === selectedBouquet)?.name ?? null },
+        });
         toast({
           title: 'Subscription Successful!',
           description: data.message || 'Your TV subscription has been renewed.',
@@ -254,6 +333,8 @@ export default function TV() {
     }).format(price);
   };
 
+  const selectedBouquetData = bouquets.find(b => b.id === selectedBouquet);
+
   const getProviderColor = (code: string) => {
     const colors: Record<string, string> = {
       dstv: 'bg-blue-600',
@@ -331,6 +412,15 @@ export default function TV() {
                 {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
               </Button>
             </div>
+            <SavedRecipients
+              recipients={beneficiaries}
+              onSelect={handleSelectSaved}
+              onRemove={removeBeneficiary}
+              onUpdate={updateBeneficiary}
+              repeatLabel={repeatLabel}
+              onRepeat={handleRepeat}
+              title="Saved smartcards"
+            />
           </div>
 
           {/* Customer Info */}
@@ -375,7 +465,7 @@ export default function TV() {
                   >
                     <div className="text-left">
                       <p className="font-medium text-foreground">{bouquet.name}</p>
-                      <p className="text-sm text-primary font-semibold">{formatPrice(bouquet.price)}</p>
+                      <p className="text-sm text-primary font-semibold">{formatPrice(bouquetPrice(bouquet))}</p>
                     </div>
                     {selectedBouquet === bouquet.id && (
                       <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
@@ -401,11 +491,19 @@ export default function TV() {
                 Processing...
               </>
             ) : (
-              `Subscribe ${selectedBouquet ? formatPrice(bouquets.find(b => b.id === selectedBouquet)?.price || 0) : ''}`
+              `Subscribe ${selectedBouquet ? formatPrice(selectedBouquetData ? bouquetPrice(selectedBouquetData) : 0) : ''}`
             )}
           </Button>
         </div>
       </div>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={executePurchase}
+        mode={pinDialogMode}
+      />
     </MobileLayout>
   );
 }
@@ -1,36 +1,119 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { MobileLayout } from '@/components/layout/MobileLayout';
-import { ArrowLeft, Search } from 'lucide-react';
+import { ArrowLeft, Loader2, Search } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+import { TransactionPinDialog } from '@/components/auth/TransactionPinDialog';
+import { isTransactionPinSetup } from '@/lib/transactionPin';
+
+interface TransferLimits {
+  min_amount: number;
+  max_amount: number;
+  daily_limit: number;
+  used_today: number;
+  remaining_today: number;
+  is_enabled: boolean;
+  phone_verified: boolean;
+  verified_max_amount: number;
+  verified_daily_limit: number;
+  kyc_level: number;
+  kyc_can_transfer: boolean;
+}
+
+async function callTransferFunds(action: 'lookup' | 'limits' | 'transfer', body: Record<string, unknown> = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transfer-funds?action=${action}`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  return response.json();
+}
 
 export default function Transfer() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { wallet } = useAuth();
+  const { wallet, refreshWallet } = useAuth();
   const [accountNumber, setAccountNumber] = useState('');
   const [amount, setAmount] = useState('');
+  const [narration, setNarration] = useState('');
   const [recipientName, setRecipientName] = useState('');
+  const [limits, setLimits] = useState<TransferLimits | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinDialogMode, setPinDialogMode] = useState<'verify' | 'setup'>('verify');
+
+  const fetchLimits = async () => {
+    try {
+      const data = await callTransferFunds('limits');
+      if (!data.error) setLimits(data as TransferLimits);
+    } catch (error) {
+      console.error('Failed to load transfer limits:', error);
+    }
+  };
 
-  const handleLookup = () => {
-    if (!accountNumber || accountNumber.length < 10) {
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  const handleLookup = async () => {
+    if (!/^\d{10}$/.test(accountNumber)) {
       toast({
         variant: 'destructive',
         title: 'Invalid Account',
-        description: 'Please enter a valid account number',
+        description: 'Please enter a valid 10-digit account number',
       });
       return;
     }
-    // Mock lookup - in real app, would query the database
-    setRecipientName('John Doe');
-    toast({
-      title: 'Account Found',
-      description: 'Recipient verified successfully',
-    });
+
+    setIsLookingUp(true);
+    setRecipientName('');
+
+    try {
+      const data = await callTransferFunds('lookup', { account_number: accountNumber });
+
+      if (data.account_name) {
+        setRecipientName(data.account_name);
+        toast({
+          title: 'Account Found',
+          description: 'Recipient verified successfully',
+        });
+      } else {
+        const errorInfo = getApiErrorMessage(data);
+        toast({
+          variant: 'destructive',
+          title: errorInfo.title,
+          description: errorInfo.description,
+        });
+      }
+    } catch (error) {
+      console.error('Lookup error:', error);
+      const errorInfo = parseError(error);
+      toast({
+        variant: 'destructive',
+        title: errorInfo.title,
+        description: errorInfo.description,
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
   };
 
   const handleTransfer = () => {
@@ -44,21 +127,123 @@ export default function Transfer() {
     }
 
     const transferAmount = parseFloat(amount);
+    if (!Number.isFinite(transferAmount) || transferAmount <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount',
+      });
+      return;
+    }
+
+    if (limits && !limits.kyc_can_transfer) {
+      toast({
+        variant: 'destructive',
+        title: 'Verify Your Identity',
+        description: 'Verify your BVN or NIN to send transfers',
+        action: (
+          <ToastAction altText="Verify" onClick={() => navigate('/bvn-nin')}>
+            Verify
+          </ToastAction>
+        ),
+      });
+      return;
+    }
+
+    if (limits && !limits.phone_verified && transferAmount > limits.max_amount && transferAmount <= limits.verified_max_amount) {
+      toast({
+        variant: 'destructive',
+        title: 'Verify Your Phone',
+        description: `Unverified accounts can send up to ${formatBalance(limits.max_amount)} per transfer`,
+        action: (
+          <ToastAction altText="Verify" onClick={() => navigate('/profile/edit')}>
+            Verify
+          </ToastAction>
+        ),
+      });
+      return;
+    }
+
+    if (limits && (transferAmount < limits.min_amount || transferAmount > limits.max_amount)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Amount',
+        description: `Amount must be between ${formatBalance(limits.min_amount)} and ${formatBalance(limits.max_amount)}`,
+      });
+      return;
+    }
+
+    if (limits && transferAmount > limits.remaining_today) {
+      toast({
+        variant: 'destructive',
+        title: 'Daily Limit Reached',
+        description: `You can send up to ${formatBalance(limits.remaining_today)} more today`,
+      });
+      return;
+    }
+
     if (transferAmount > (wallet?.balance || 0)) {
       toast({
         variant: 'destructive',
         title: 'Insufficient Balance',
         description: 'You do not have enough funds for this transfer',
+        action: (
+          <ToastAction altText="Add Money" onClick={() => navigate('/add-money')}>
+            Add Money
+          </ToastAction>
+        ),
       });
       return;
     }
 
-    toast({
-      title: 'Coming Soon',
-      description: 'Transfer feature will be available soon',
+    // Every transfer needs the PIN; first-timers set one up in the same dialog
+    isTransactionPinSetup().then((hasPin) => {
+      setPinDialogMode(hasPin ? 'verify' : 'setup');
+      setShowPinDialog(true);
     });
   };
 
+  const executeTransfer = async (pin: string) => {
+    setShowPinDialog(false);
+    setIsTransferring(true);
+
+    try {
+      const data = await callTransferFunds('transfer', {
+        account_number: accountNumber,
+        amount: parseFloat(amount),
+        narration: narration.trim() || undefined,
+        pin,
+      });
+
+      if (data.success) {
+        toast({
+          title: 'Transfer Successful',
+          description: data.message || `Money sent to ${recipientName}`,
+        });
+        await refreshWallet();
+        navigate('/history');
+      } else {
+        const errorInfo = getApiErrorMessage(data);
+        toast({
+          variant: 'destructive',
+          title: errorInfo.title,
+          description: errorInfo.description,
+        });
+        fetchLimits();
+      }
+    } catch (error) {
+      console.error('Transfer error:', error);
+      const errorInfo = parseError(error);
+      toast({
+        variant: 'destructive',
+        title: errorInfo.title,
+        description: errorInfo.description,
+      });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
   const formatBalance = (balance: number) => {
     return new Intl.NumberFormat('en-NG', {
       style: 'currency',
@@ -84,24 +269,54 @@ export default function Transfer() {
             <p className="text-2xl font-bold text-foreground">
               {formatBalance(wallet?.balance || 0)}
             </p>
+            {limits && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Daily limit: {formatBalance(limits.daily_limit)} · Remaining today: {formatBalance(limits.remaining_today)}
+              </p>
+            )}
+            {limits && !limits.phone_verified && limits.verified_daily_limit > limits.daily_limit && (
+              <button
+                onClick={() => navigate('/profile/edit')}
+                className="text-xs text-primary font-medium mt-1"
+              >
+                Verify your phone to send up to {formatBalance(limits.verified_daily_limit)} a day
+              </button>
+            )}
           </div>
 
+          {limits && limits.is_enabled && !limits.kyc_can_transfer && (
+            <button
+              onClick={() => navigate('/bvn-nin')}
+              className="w-full text-left bg-accent/10 text-sm rounded-xl p-3 mb-6"
+            >
+              Transfers need a verified identity. <span className="text-primary font-medium">Verify your BVN or NIN</span>
+            </button>
+          )}
+
+          {limits && !limits.is_enabled && (
+            <div className="bg-destructive/10 text-destructive text-sm rounded-xl p-3 mb-6">
+              Transfers are temporarily unavailable. Please try again later.
+            </div>
+          )}
+
           {/* Account Number */}
           <div className="mb-6">
             <Label htmlFor="account">Recipient Account Number</Label>
             <div className="flex gap-2 mt-2">
               <Input
                 id="account"
-                placeholder="Enter account number"
+                placeholder="Enter 10-digit account number"
+                inputMode="numeric"
+                maxLength={10}
                 value={accountNumber}
                 onChange={(e) => {
-                  setAccountNumber(e.target.value);
+                  setAccountNumber(e.target.value.replace(/\D/g, ''));
                   setRecipientName('');
                 }}
                 className="flex-1"
               />
-              <Button variant="outline" onClick={handleLookup}>
-                <Search className="w-4 h-4" />
+              <Button variant="outline" onClick={handleLookup} disabled={isLookingUp}>
+                {isLookingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
               </Button>
             </div>
             {recipientName && (
@@ -115,24 +330,52 @@ export default function Transfer() {
             <Input
               id="amount"
               type="number"
-              placeholder="Enter amount"
+              placeholder={limits ? `${limits.min_amount} - ${limits.max_amount}` : 'Enter amount'}
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               className="mt-2"
             />
           </div>
 
+          {/* Narration */}
+          <div className="mb-6">
+            <Label htmlFor="narration">Narration (optional)</Label>
+            <Input
+              id="narration"
+              placeholder="What's it for?"
+              maxLength={100}
+              value={narration}
+              onChange={(e) => setNarration(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+
           {/* Transfer Button */}
           <Button
             className="w-full"
             size="lg"
             onClick={handleTransfer}
-            disabled={!accountNumber || !amount || !recipientName}
+            disabled={!accountNumber || !amount || !recipientName || isTransferring || limits?.is_enabled === false}
           >
-            Send Money
+            {isTransferring ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                Sending...
+              </>
+            ) : (
+              'Send Money'
+            )}
           </Button>
         </div>
       </div>
+
+      {/* Transaction PIN Dialog */}
+      <TransactionPinDialog
+        open={showPinDialog}
+        onOpenChange={setShowPinDialog}
+        onComplete={executeTransfer}
+        mode={pinDialogMode}
+      />
     </MobileLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,386 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Copy, Webhook, RefreshCw, Trash2, Eye, EyeOff, Loader2, RotateCw } from 'lucide-react';
+import { MobileLayout } from '@/components/layout/MobileLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { parseError, getApiErrorMessage } from '@/lib/errorHandler';
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  payload: { reference?: string | null } | null;
+  status: string;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+const STATUS_VARIANTS: Record<string, 'secondary' | 'destructive' | 'outline'> = {
+  delivered: 'secondary',
+  failed: 'destructive',
+  pending: 'outline',
+};
+
+async function callWebhookEndpoints(
+  action: 'create' | 'update' | 'delete' | 'rotate-secret' | 'redeliver',
+  body: Record<string, unknown> = {}
+) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/webhook-endpoints`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action, ...body }),
+    }
+  );
+
+  return response.json();
+}
+
+export default function Webhooks() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [deleting, setDeleting] = useState<WebhookEndpoint | null>(null);
+  const [visibleSecrets, setVisibleSecrets] = useState<Set<string>>(new Set());
+
+  const fetchWebhooks = useCallback(async () => {
+    const [endpointsResult, deliveriesResult] = await Promise.all([
+      supabase
+        .from('webhook_endpoints')
+        .select('id, url, description, secret, is_active, created_at')
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, event, payload, status, attempts, last_status_code, last_error, next_attempt_at, delivered_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(50),
+    ]);
+
+    if (endpointsResult.error) {
+      console.error('Failed to load webhook endpoints:', endpointsResult.error);
+    } else {
+      setEndpoints(endpointsResult.data || []);
+    }
+    if (!deliveriesResult.error) setDeliveries((deliveriesResult.data || []) as WebhookDelivery[]);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const showError = (error: unknown) => {
+    const errorInfo = parseError(error);
+    toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+  };
+
+  const runAction = async (
+    action: Parameters<typeof callWebhookEndpoints>[0],
+    body: Record<string, unknown>,
+    successTitle: string
+  ) => {
+    try {
+      const data = await callWebhookEndpoints(action, body);
+      if (data.success) {
+        toast({ title: successTitle });
+        fetchWebhooks();
+        return true;
+      }
+      const errorInfo = getApiErrorMessage(data);
+      toast({ variant: 'destructive', title: errorInfo.title, description: errorInfo.description });
+    } catch (error) {
+      showError(error);
+    }
+    return false;
+  };
+
+  const handleCreate = async () => {
+    if (!url.trim()) {
+      toast({ variant: 'destructive', title: 'Missing URL', description: 'Enter the https:// URL that should receive events.' });
+      return;
+    }
+
+    setIsSaving(true);
+    const created = await runAction('create', { url: url.trim(), description: description.trim() }, 'Webhook Added');
+    setIsSaving(false);
+    if (created) {
+      setFormOpen(false);
+      setUrl('');
+      setDescription('');
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const data = await callWebhookEndpoints('redeliver', { delivery_id: delivery.id });
+      if (data.success) {
+        toast({ title: 'Event Delivered' });
+      } else {
+        const errorInfo = getApiErrorMessage(data.error ? data : { error: 'Your endpoint did not accept the event.' });
+        toast({ variant: 'destructive', title: 'Redelivery Failed', description: errorInfo.description });
+      }
+      fetchWebhooks();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: 'Copied', description: `${label} copied to clipboard.` });
+  };
+
+  const toggleSecret = (id: string) => {
+    setVisibleSecrets((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const endpointUrl = (id: string) => endpoints.find((e) => e.id === id)?.url || 'Deleted endpoint';
+
+  return (
+    <MobileLayout showNav={false}>
+      <div className="safe-area-top px-4 py-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="w-10 h-10 rounded-full bg-muted flex items-center justify-center"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-bold">Webhooks</h1>
+          </div>
+          <Button size="sm" onClick={() => setFormOpen(true)} disabled={endpoints.length >= 5}>
+            <Plus className="w-4 h-4 mr-1" /> Add
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-4">
+          We send a signed POST to your endpoints whenever one of your transactions changes status, and retry failed deliveries for up to about 30 minutes.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="bg-card rounded-xl p-6 shadow-sm text-center">
+            <Webhook className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
+            <p className="font-medium">No webhooks yet</p>
+            <p className="text-sm text-muted-foreground">Add an endpoint to receive transaction events.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="bg-card rounded-xl p-4 shadow-sm space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm break-all">{endpoint.url}</p>
+                    {endpoint.description && (
+                      <p className="text-xs text-muted-foreground">{endpoint.description}</p>
+                    )}
+                  </div>
+                  <Switch
+                    checked={endpoint.is_active}
+                    onCheckedChange={(checked) => runAction(
+                      'update',
+                      { id: endpoint.id, is_active: checked },
+                      checked ? 'Webhook Enabled' : 'Webhook Disabled'
+                    )}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs bg-muted rounded px-2 py-1 truncate">
+                    {visibleSecrets.has(endpoint.id) ? endpoint.secret : '••••••••••••••••'}
+                  </code>
+                  <Button variant="ghost" size="icon" onClick={() => toggleSecret(endpoint.id)}>
+                    {visibleSecrets.has(endpoint.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => copyToClipboard(endpoint.secret, 'Signing secret')}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="flex gap-4">
+                  <button
+                    onClick={() => runAction('rotate-secret', { id: endpoint.id }, 'Signing Secret Rotated')}
+                    className="text-sm text-primary font-medium flex items-center gap-1"
+                  >
+                    <RefreshCw className="w-3 h-3" /> Rotate secret
+                  </button>
+                  <button
+                    onClick={() => setDeleting(endpoint)}
+                    className="text-sm text-destructive font-medium flex items-center gap-1"
+                  >
+                    <Trash2 className="w-3 h-3" /> Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Delivery Log */}
+        {deliveries.length > 0 && (
+          <div className="mt-8">
+            <h2 className="font-semibold mb-3">Recent Deliveries</h2>
+            <div className="bg-card rounded-xl shadow-sm divide-y">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="p-3 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-mono truncate">{delivery.event}</p>
+                    <Badge variant={STATUS_VARIANTS[delivery.status] || 'outline'}>{delivery.status}</Badge>
+                  </div>
+                  <p className="text-muted-foreground truncate">
+                    {delivery.payload?.reference || 'No reference'} · {endpointUrl(delivery.endpoint_id)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {new Date(delivery.created_at).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                    {delivery.last_status_code ? ` · HTTP ${delivery.last_status_code}` : ''}
+                  </p>
+                  {delivery.status === 'pending' && delivery.attempts > 0 && (
+                    <p className="text-muted-foreground">Next retry {new Date(delivery.next_attempt_at).toLocaleTimeString()}</p>
+                  )}
+                  {delivery.last_error && delivery.status !== 'delivered' && (
+                    <p className="text-destructive">{delivery.last_error}</p>
+                  )}
+                  {delivery.status === 'failed' && (
+                    <button
+                      onClick={() => handleRedeliver(delivery)}
+                      disabled={redeliveringId === delivery.id}
+                      className="text-primary font-medium flex items-center gap-1"
+                    >
+                      {redeliveringId === delivery.id
+                        ? <Loader2 className="w-3 h-3 animate-spin" />
+                        : <RotateCw className="w-3 h-3" />}
+                      Redeliver
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Add Endpoint Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+            <DialogDescription>
+              Verify each request with the signing secret: X-Signature is the HMAC-SHA256 of the X-Timestamp header, a dot and the raw body.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/webhooks/vtu"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description (optional)</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Add Webhook
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.url} will stop receiving events and its delivery log will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) runAction('delete', { id: deleting.id }, 'Webhook Deleted');
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MobileLayout>
+  );
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RefreshCw, Loader2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface AccountDeletion {
+  id: string;
+  user_id: string;
+  status: string;
+  reason: string | null;
+  confirmed_with: string;
+  balance_at_request: number;
+  forfeit_acknowledged: boolean;
+  forfeited_amount: number | null;
+  scheduled_for: string;
+  held_reason: string | null;
+  cancelled_at: string | null;
+  completed_at: string | null;
+  retain_until: string | null;
+  purged_at: string | null;
+  created_at: string;
+  user_name: string | null;
+  user_email: string | null;
+  balance: number | null;
+}
+
+const formatNaira = (amount: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+
+export default function AdminAccountDeletions() {
+  const [requests, setRequests] = useState<AccountDeletion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const { toast } = useToast();
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=account-deletions`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to fetch account deletions');
+
+      setRequests(result.data || []);
+    } catch (error) {
+      console.error('Error fetching account deletions:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch account deletions',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const getStatusBadge = (request: AccountDeletion) => {
+    if (request.status === 'pending' && request.held_reason) {
+      return <Badge className="bg-yellow-500/10 text-yellow-600 hover:bg-yellow-500/20">On Hold</Badge>;
+    }
+    switch (request.status) {
+      case 'pending':
+        return <Badge className="bg-blue-500/10 text-blue-600 hover:bg-blue-500/20">Cooling Off</Badge>;
+      case 'completed':
+        return request.purged_at
+          ? <Badge variant="secondary">Purged</Badge>
+          : <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/20">Closed</Badge>;
+      case 'cancelled':
+        return <Badge variant="secondary">Cancelled</Badge>;
+      default:
+        return <Badge variant="secondary" className="capitalize">{request.status}</Badge>;
+    }
+  };
+
+  const filteredRequests = requests.filter((r) => statusFilter === 'all' || r.status === statusFilter);
+  const pendingCount = requests.filter((r) => r.status === 'pending').length;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Account Deletions</h1>
+            <p className="text-muted-foreground">
+              {pendingCount} account{pendingCount === 1 ? '' : 's'} waiting out the cooling-off period
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchRequests} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="completed">Closed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Closes</TableHead>
+                      <TableHead>Balance</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRequests.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                          No deletion requests found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredRequests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            {request.user_name ? (
+                              <>
+                                <p className="font-medium">{request.user_name}</p>
+                                <p className="text-sm text-muted-foreground">{request.user_email}</p>
+                              </>
+                            ) : (
+                              <span className="font-mono text-xs text-muted-foreground">{request.user_id.slice(0, 8)}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(request.created_at), 'MMM d, yyyy')}
+                            <p className="text-xs text-muted-foreground capitalize">via {request.confirmed_with}</p>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {request.status === 'pending' ? (
+                              <>
+                                {format(new Date(request.scheduled_for), 'MMM d, yyyy')}
+                                <p className="text-xs text-muted-foreground">
+                                  {formatDistanceToNow(new Date(request.scheduled_for), { addSuffix: true })}
+                                </p>
+                              </>
+                            ) : request.completed_at ? (
+                              <>
+                                {format(new Date(request.completed_at), 'MMM d, yyyy')}
+                                {request.retain_until && !request.purged_at && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Records kept until {format(new Date(request.retain_until), 'MMM yyyy')}
+                                  </p>
+                                )}
+                              </>
+                            ) : '—'}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {request.status === 'completed'
+                              ? `${formatNaira(Number(request.forfeited_amount || 0))} forfeited`
+                              : request.balance !== null ? formatNaira(request.balance) : '—'}
+                            {request.status === 'pending' && (
+                              <p className="text-xs text-muted-foreground">
+                                {request.forfeit_acknowledged ? 'Forfeit agreed' : 'No forfeit agreed'}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-[240px] text-sm text-muted-foreground">
+                            <p className="truncate" title={request.reason || undefined}>{request.reason || '—'}</p>
+                            {request.held_reason && (
+                              <p className="text-xs text-yellow-600">{request.held_reason}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{getStatusBadge(request)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
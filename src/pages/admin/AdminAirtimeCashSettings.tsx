@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Loader2, Percent, SlidersHorizontal } from 'lucide-react';
+
+interface AirtimeCashSettings {
+  id: string;
+  is_enabled: boolean;
+  daily_limit: number;
+  max_pending: number;
+}
+
+interface AirtimeCashRate {
+  id: string;
+  network: string;
+  rate_percent: number;
+  receiving_number: string | null;
+  min_amount: number;
+  max_amount: number;
+  is_enabled: boolean;
+}
+
+// Edited as text so a half-typed number does not jump around
+type RateDraft = Record<'rate_percent' | 'receiving_number' | 'min_amount' | 'max_amount', string>;
+
+const NETWORK_ORDER = ['mtn', 'airtel', 'glo', '9mobile'];
+
+const toDraft = (rate: AirtimeCashRate): RateDraft => ({
+  rate_percent: String(rate.rate_percent),
+  receiving_number: rate.receiving_number || '',
+  min_amount: String(rate.min_amount),
+  max_amount: String(rate.max_amount),
+});
+
+export default function AdminAirtimeCashSettings() {
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<AirtimeCashSettings | null>(null);
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [maxPending, setMaxPending] = useState('');
+  const [rates, setRates] = useState<AirtimeCashRate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RateDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchSettings = useCallback(async () => {
+    const [settingsRes, ratesRes] = await Promise.all([
+      supabase.from('airtime_cash_settings').select('id, is_enabled, daily_limit, max_pending').limit(1).maybeSingle(),
+      supabase.from('airtime_cash_rates').select('id, network, rate_percent, receiving_number, min_amount, max_amount, is_enabled'),
+    ]);
+
+    if (settingsRes.error || ratesRes.error) {
+      console.error('Error fetching airtime to cash settings:', settingsRes.error || ratesRes.error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to load airtime to cash settings',
+      });
+      setLoading(false);
+      return;
+    }
+
+    setSettings(settingsRes.data);
+    setDailyLimit(settingsRes.data ? String(settingsRes.data.daily_limit) : '');
+    setMaxPending(settingsRes.data ? String(settingsRes.data.max_pending) : '');
+
+    const sorted = (ratesRes.data || []).sort((a, b) => NETWORK_ORDER.indexOf(a.network) - NETWORK_ORDER.indexOf(b.network));
+    setRates(sorted);
+    setDrafts(Object.fromEntries(sorted.map((rate) => [rate.id, toDraft(rate)])));
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = async (changes: Partial<Omit<AirtimeCashSettings, 'id'>>) => {
+    if (!settings) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('airtime_cash_settings')
+      .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user?.id })
+      .eq('id', settings.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update airtime to cash settings',
+      });
+      return;
+    }
+
+    setSettings({ ...settings, ...changes });
+    toast({ title: 'Settings Updated' });
+  };
+
+  const updateRate = async (rate: AirtimeCashRate, changes: Partial<Omit<AirtimeCashRate, 'id' | 'network'>>) => {
+    const next = { ...rate, ...changes };
+
+    if (next.is_enabled && !next.receiving_number) {
+      toast({
+        variant: 'destructive',
+        title: 'Receiving Number Required',
+        description: `Set the ${rate.network.toUpperCase()} number to receive airtime on before turning it on`,
+      });
+      return;
+    }
+
+    if (!(next.rate_percent > 0 && next.rate_percent <= 100) || !(next.min_amount > 0) || next.max_amount < next.min_amount) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Values',
+        description: 'Rate must be between 0 and 100%, and the maximum at least the minimum',
+      });
+      return;
+    }
+
+    setSavingId(rate.id);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('airtime_cash_rates')
+      .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user?.id })
+      .eq('id', rate.id);
+    setSavingId(null);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: `Failed to update ${rate.network.toUpperCase()} rate`,
+      });
+      return;
+    }
+
+    setRates((prev) => prev.map((r) => (r.id === rate.id ? next : r)));
+    setDrafts((prev) => ({ ...prev, [rate.id]: toDraft(next) }));
+    toast({ title: `${rate.network.toUpperCase()} Updated` });
+  };
+
+  const saveDraft = (rate: AirtimeCashRate) => {
+    const draft = drafts[rate.id];
+    const receivingNumber = draft.receiving_number.replace(/\D/g, '');
+    updateRate(rate, {
+      rate_percent: Number(draft.rate_percent),
+      receiving_number: receivingNumber || null,
+      min_amount: Number(draft.min_amount),
+      max_amount: Number(draft.max_amount),
+    });
+  };
+
+  const setDraftField = (id: string, field: keyof RateDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const isDirty = (rate: AirtimeCashRate) => {
+    const draft = drafts[rate.id];
+    const saved = toDraft(rate);
+    return !!draft && (Object.keys(saved) as (keyof RateDraft)[]).some((field) => draft[field] !== saved[field]);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <Link to="/admin/airtime-to-cash" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="h-4 w-4" /> Back to requests
+          </Link>
+          <h1 className="text-2xl font-bold">Airtime to Cash Rates</h1>
+          <p className="text-muted-foreground">What users are paid for each network and how much they can convert</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <SlidersHorizontal className="h-5 w-5" />
+                  Limits
+                </CardTitle>
+                <CardDescription>
+                  Apply to every user across all networks
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {settings && (
+                  <div className="space-y-4 max-w-md">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="a2c-enabled">Accept airtime to cash requests</Label>
+                      <Switch
+                        id="a2c-enabled"
+                        checked={settings.is_enabled}
+                        onCheckedChange={(checked) => updateSettings({ is_enabled: checked })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="a2c-daily-limit">Daily cap per user (₦ of airtime)</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="a2c-daily-limit"
+                          type="number"
+                          min={1}
+                          value={dailyLimit}
+                          onChange={(e) => setDailyLimit(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          disabled={!(Number(dailyLimit) > 0) || Number(dailyLimit) === settings.daily_limit}
+                          onClick={() => updateSettings({ daily_limit: Number(dailyLimit) })}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="a2c-max-pending">Requests a user may have waiting at once</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="a2c-max-pending"
+                          type="number"
+                          min={1}
+                          step={1}
+                          value={maxPending}
+                          onChange={(e) => setMaxPending(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          disabled={!Number.isInteger(Number(maxPending)) || !(Number(maxPending) > 0) || Number(maxPending) === settings.max_pending}
+                          onClick={() => updateSettings({ max_pending: Number(maxPending) })}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Percent className="h-5 w-5" />
+                  Network Rates
+                </CardTitle>
+                <CardDescription>
+                  The rate is the share of the airtime value paid into the wallet. Changes only affect new requests.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Network</TableHead>
+                        <TableHead>Rate (%)</TableHead>
+                        <TableHead>Receiving Number</TableHead>
+                        <TableHead>Min (₦)</TableHead>
+                        <TableHead>Max (₦)</TableHead>
+                        <TableHead>Enabled</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rates.map((rate) => (
+                        <TableRow key={rate.id}>
+                          <TableCell className="font-medium uppercase">{rate.network}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={100}
+                              step="0.5"
+                              className="w-20"
+                              value={drafts[rate.id]?.rate_percent ?? ''}
+                              onChange={(e) => setDraftField(rate.id, 'rate_percent', e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="tel"
+                              placeholder="080..."
+                              className="w-36 font-mono"
+                              value={drafts[rate.id]?.receiving_number ?? ''}
+                              onChange={(e) => setDraftField(rate.id, 'receiving_number', e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={1}
+                              className="w-24"
+                              value={drafts[rate.id]?.min_amount ?? ''}
+                              onChange={(e) => setDraftField(rate.id, 'min_amount', e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={1}
+                              className="w-28"
+                              value={drafts[rate.id]?.max_amount ?? ''}
+                              onChange={(e) => setDraftField(rate.id, 'max_amount', e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={rate.is_enabled}
+                              onCheckedChange={(checked) => updateRate(rate, { is_enabled: checked })}
+                              disabled={savingId === rate.id}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!isDirty(rate) || savingId === rate.id}
+                              onClick={() => saveDraft(rate)}
+                            >
+                              {savingId === rate.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Save
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
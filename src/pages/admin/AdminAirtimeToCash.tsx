@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RefreshCw, Loader2, Check, X, ExternalLink, Settings } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AirtimeCashRequest {
+  id: string;
+  user_id: string;
+  network: string;
+  amount: number;
+  rate_percent: number;
+  payout_amount: number;
+  amount_received: number | null;
+  receiving_number: string;
+  sender_phone: string;
+  proof_url: string | null;
+  status: string;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  user_name: string;
+  user_email: string;
+  user_phone: string;
+}
+
+const formatNaira = (amount: number) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+
+/** POST an action to admin-data and return its JSON, throwing its error message */
+async function adminAction(action: string, body: Record<string, unknown>) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=${action}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Request failed');
+  return result;
+}
+
+export default function AdminAirtimeToCash() {
+  const [requests, setRequests] = useState<AirtimeCashRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [approving, setApproving] = useState<AirtimeCashRequest | null>(null);
+  const [amountReceived, setAmountReceived] = useState('');
+  const [approveNote, setApproveNote] = useState('');
+  const [rejecting, setRejecting] = useState<AirtimeCashRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=airtime-cash-requests&status=${statusFilter}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to fetch airtime to cash requests');
+
+      setRequests(result.data || []);
+    } catch (error) {
+      console.error('Error fetching airtime to cash requests:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch airtime to cash requests',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const openApprove = (request: AirtimeCashRequest) => {
+    setApproving(request);
+    setAmountReceived(String(request.amount));
+    setApproveNote('');
+  };
+
+  const received = Number(amountReceived) || 0;
+  const receivedValid = !!approving && received > 0 && received <= approving.amount;
+
+  const handleApprove = async () => {
+    if (!approving || !receivedValid) return;
+
+    setReviewingId(approving.id);
+    try {
+      const result = await adminAction('approve-airtime-cash', {
+        request_id: approving.id,
+        amount_received: received,
+        note: approveNote.trim() || undefined,
+      });
+      toast({
+        title: 'Request Approved',
+        description: `${formatNaira(Number(result.payout_amount))} was credited and the user notified`,
+      });
+      setApproving(null);
+      fetchRequests();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Approval Failed',
+        description: error instanceof Error ? error.message : 'Failed to approve request',
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !rejectNote.trim()) return;
+
+    setReviewingId(rejecting.id);
+    try {
+      await adminAction('reject-airtime-cash', { request_id: rejecting.id, note: rejectNote.trim() });
+      toast({ title: 'Request Rejected', description: 'The user was told why' });
+      setRejecting(null);
+      setRejectNote('');
+      fetchRequests();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reject request',
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'approved':
+        return <Badge className="bg-green-500/10 text-green-600 hover:bg-green-500/20">Approved</Badge>;
+      case 'rejected':
+        return <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/20">Rejected</Badge>;
+      case 'pending':
+        return <Badge className="bg-yellow-500/10 text-yellow-600 hover:bg-yellow-500/20">Pending</Badge>;
+      default:
+        return <Badge variant="secondary" className="capitalize">{status}</Badge>;
+    }
+  };
+
+  const pendingCount = requests.filter((r) => r.status === 'pending').length;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Airtime to Cash</h1>
+            <p className="text-muted-foreground">
+              {statusFilter === 'pending'
+                ? `${pendingCount} request${pendingCount === 1 ? '' : 's'} waiting for the airtime to be checked`
+                : 'Confirm the airtime arrived before approving'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/admin/airtime-to-cash/settings">
+                <Settings className="h-4 w-4 mr-2" />
+                Rates & Limits
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={fetchRequests} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Airtime</TableHead>
+                      <TableHead>Sent From</TableHead>
+                      <TableHead>Payout</TableHead>
+                      <TableHead>Proof</TableHead>
+                      <TableHead>Submitted</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                          No airtime to cash requests found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      requests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            <p className="font-medium">{request.user_name}</p>
+                            <p className="text-sm text-muted-foreground">{request.user_email}</p>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {formatNaira(request.amount)} <span className="uppercase">{request.network}</span>
+                            <p className="text-xs text-muted-foreground">to {request.receiving_number}</p>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{request.sender_phone}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {formatNaira(request.payout_amount)}
+                            <p className="text-xs text-muted-foreground">
+                              at {request.rate_percent}%
+                              {request.amount_received !== null && request.amount_received < request.amount &&
+                                ` on ${formatNaira(request.amount_received)}`}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            {request.proof_url ? (
+                              <a
+                                href={request.proof_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                              >
+                                View <ExternalLink className="h-3 w-3" />
+                              </a>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">None</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(request.created_at), 'MMM d, h:mm a')}
+                          </TableCell>
+                          <TableCell>
+                            {getStatusBadge(request.status)}
+                            {request.review_note && (
+                              <p className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate" title={request.review_note}>
+                                {request.review_note}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {request.status === 'pending' && (
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" onClick={() => openApprove(request)} disabled={reviewingId === request.id}>
+                                  <Check className="h-4 w-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setRejecting(request);
+                                    setRejectNote('');
+                                  }}
+                                  disabled={reviewingId === request.id}
+                                >
+                                  <X className="h-4 w-4 mr-1" />
+                                  Reject
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Approve Dialog */}
+      <Dialog open={!!approving} onOpenChange={(open) => !open && setApproving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve Airtime to Cash</DialogTitle>
+            <DialogDescription>
+              Check that the airtime from {approving?.sender_phone} arrived on {approving?.receiving_number}.
+              The wallet is credited at the rate locked in when the request was made.
+            </DialogDescription>
+          </DialogHeader>
+          {approving && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount-received">Airtime received (₦)</Label>
+                <Input
+                  id="amount-received"
+                  type="number"
+                  min={1}
+                  max={approving.amount}
+                  value={amountReceived}
+                  onChange={(e) => setAmountReceived(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {receivedValid
+                    ? `Credits ${formatNaira(Math.round(received * approving.rate_percent) / 100)} at ${approving.rate_percent}%`
+                    : `Enter up to the ${formatNaira(approving.amount)} claimed`}
+                </p>
+              </div>
+              <Textarea
+                placeholder="Note (optional)"
+                value={approveNote}
+                onChange={(e) => setApproveNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} disabled={!receivedValid || reviewingId === approving?.id}>
+              {reviewingId === approving?.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Approve & Credit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Request</DialogTitle>
+            <DialogDescription>
+              Nothing is credited. The reason is sent to the user.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason, e.g. no airtime received from this number"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            maxLength={500}
+            rows={2}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectNote.trim() || reviewingId === rejecting?.id}
+            >
+              {reviewingId === rejecting?.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
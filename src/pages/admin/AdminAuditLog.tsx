@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Search, RefreshCw, Loader2, Eye, Download } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  target_user_id: string | null;
+  before: Json | null;
+  after: Json | null;
+  metadata: Json;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+const TARGET_TYPES: Record<string, string> = {
+  wallet: 'Wallet',
+  transaction: 'Transaction',
+  user: 'User',
+  role: 'Admin role',
+  referral: 'Referral',
+  webhook_event: 'Webhook event',
+  data_plan: 'Data plan',
+  airtime_plan: 'Airtime plan',
+  user_tier: 'User tier',
+  tier_price_override: 'Tier price',
+  api_provider: 'API provider',
+  failover_rule: 'Failover rule',
+  provider_service_mapping: 'Provider mapping',
+  reconciliation_flag: 'Reconciliation flag',
+  reversal_settings: 'Reversal settings',
+  referral_settings: 'Referral settings',
+  plan_sync_settings: 'Plan sync settings',
+  transfer_settings: 'Transfer settings',
+  requery_settings: 'Requery settings',
+  plan_sync_run: 'Plan sync run',
+  plan_sync_change: 'Plan sync change',
+  push_broadcast: 'Push broadcast',
+};
+
+const PAGE_SIZE = 500;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatJson(value: Json | null) {
+  return value === null ? '' : JSON.stringify(value);
+}
+
+function downloadCsv(entries: AuditEntry[]) {
+  const header = 'time,admin,action,target_type,target_id,target_user_id,before,after,metadata,ip_address,user_agent';
+  const escape = (value: string | null) => {
+    const text = value ?? '';
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = entries.map((e) =>
+    [
+      e.created_at,
+      e.actor_email || e.actor_id,
+      e.action,
+      e.target_type,
+      e.target_id,
+      e.target_user_id,
+      formatJson(e.before),
+      formatJson(e.after),
+      formatJson(e.metadata),
+      e.ip_address,
+      e.user_agent,
+    ].map(escape).join(',')
+  );
+
+  const blob = new Blob([[header, ...rows].join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `admin-audit-log-${format(new Date(), 'yyyy-MM-dd-HHmm')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AdminAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [targetFilter, setTargetFilter] = useState<string>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  const { toast } = useToast();
+
+  // Search the whole log rather than the loaded page, once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('admin_audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (targetFilter !== 'all') {
+        query = query.eq('target_type', targetFilter);
+      }
+      if (fromDate) {
+        query = query.gte('created_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      }
+      if (toDate) {
+        query = query.lte('created_at', new Date(`${toDate}T23:59:59.999`).toISOString());
+      }
+      if (searchQuery) {
+        if (UUID_PATTERN.test(searchQuery)) {
+          query = query.or(`actor_id.eq.${searchQuery},target_user_id.eq.${searchQuery},target_id.eq.${searchQuery}`);
+        } else {
+          // Commas and brackets would break the filter syntax
+          const term = searchQuery.replace(/[,()]/g, ' ');
+          query = query.or(
+            `action.ilike.%${term}%,actor_email.ilike.%${term}%,target_id.ilike.%${term}%,ip_address.ilike.%${term}%`
+          );
+        }
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch audit log',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [targetFilter, fromDate, toDate, searchQuery, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const getActionBadge = (action: string) => {
+    const verb = action.split('.').pop() || action;
+    if (['deleted', 'revoked', 'blocked', 'rejected', 'withdrawn'].includes(verb)) {
+      return <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/20 font-mono">{action}</Badge>;
+    }
+    if (['created', 'granted', 'funded', 'approved'].includes(verb)) {
+      return <Badge className="bg-green-500/10 text-green-600 hover:bg-green-500/20 font-mono">{action}</Badge>;
+    }
+    return <Badge variant="secondary" className="font-mono">{action}</Badge>;
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Audit Log</h1>
+            <p className="text-muted-foreground">Every admin action and settings change, with who made it and from where</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => downloadCsv(entries)} disabled={loading || entries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={fetchEntries} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col lg:flex-row items-start lg:items-end gap-4">
+              <div className="relative flex-1 w-full">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by admin email, action, target or IP..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={targetFilter} onValueChange={setTargetFilter}>
+                <SelectTrigger className="w-full lg:w-[200px]">
+                  <SelectValue placeholder="Filter by target" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Targets</SelectItem>
+                  {Object.entries(TARGET_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2 w-full lg:w-auto">
+                <div className="space-y-1 flex-1">
+                  <Label htmlFor="audit-from" className="text-xs text-muted-foreground">From</Label>
+                  <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label htmlFor="audit-to" className="text-xs text-muted-foreground">To</Label>
+                  <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Admin</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                          No audit entries found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      entries.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.created_at), 'MMM d, HH:mm:ss')}
+                          </TableCell>
+                          <TableCell className="text-sm">{entry.actor_email || entry.actor_id || '—'}</TableCell>
+                          <TableCell>{getActionBadge(entry.action)}</TableCell>
+                          <TableCell className="text-sm">
+                            <div>{TARGET_TYPES[entry.target_type] || entry.target_type}</div>
+                            {entry.target_id && (
+                              <div className="font-mono text-xs text-muted-foreground">{entry.target_id.slice(0, 8)}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{entry.ip_address || '—'}</TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="outline" onClick={() => setSelectedEntry(entry)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+                {entries.length === PAGE_SIZE && (
+                  <p className="text-xs text-muted-foreground text-center pt-4">
+                    Showing the latest {PAGE_SIZE} entries. Narrow the dates or search to see older ones.
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Audit Entry</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && format(new Date(selectedEntry.created_at), 'MMM d, yyyy HH:mm:ss')}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="py-2 space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Admin:</span>
+                <span className="font-medium">{selectedEntry.actor_email || selectedEntry.actor_id || '—'}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Action:</span>
+                {getActionBadge(selectedEntry.action)}
+              </div>
+              <div className="flex justify-between text-sm gap-4">
+                <span className="text-muted-foreground">Target:</span>
+                <span className="font-mono text-xs break-all text-right">
+                  {selectedEntry.target_type}{selectedEntry.target_id ? ` ${selectedEntry.target_id}` : ''}
+                </span>
+              </div>
+              {selectedEntry.target_user_id && (
+                <div className="flex justify-between text-sm gap-4">
+                  <span className="text-muted-foreground">User:</span>
+                  <span className="font-mono text-xs break-all text-right">{selectedEntry.target_user_id}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm gap-4">
+                <span className="text-muted-foreground">From:</span>
+                <span className="text-xs text-right break-all">
+                  {selectedEntry.ip_address || 'Unknown IP'} · {selectedEntry.user_agent || 'Unknown client'}
+                </span>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Before</p>
+                  <pre className="max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {selectedEntry.before ? JSON.stringify(selectedEntry.before, null, 2) : '—'}
+                  </pre>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">After</p>
+                  <pre className="max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {selectedEntry.after ? JSON.stringify(selectedEntry.after, null, 2) : '—'}
+                  </pre>
+                </div>
+              </div>
+              {formatJson(selectedEntry.metadata) !== '{}' && (
+                <pre className="max-h-32 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(selectedEntry.metadata, null, 2)}
+                </pre>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedEntry(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
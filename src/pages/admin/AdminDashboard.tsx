@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
-import { Users, Wallet, Receipt, TrendingUp, AlertCircle } from 'lucide-react';
+import { Users, Wallet, Receipt, TrendingUp, AlertCircle, Scale, Hourglass, RefreshCcw } from 'lucide-react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 
 interface Stats {
@@ -10,8 +10,14 @@ interface Stats {
   totalBalance: number;
   failedTransactions: number;
   todayTransactions: number;
+  ledgerMismatches: number;
+  stuckPending: number;
+  autoResolved: number;
 }
 
+// Purchases the requery worker checks; mirrors REQUERY_CATEGORIES in the edge function
+const REQUERY_CATEGORIES = ['data', 'airtime', 'cable', 'electricity'] as const;
+
 export default function AdminDashboard() {
   const [stats, setStats] = useState<Stats>({
     totalUsers: 0,
@@ -19,6 +25,9 @@ export default function AdminDashboard() {
     totalBalance: 0,
     failedTransactions: 0,
     todayTransactions: 0,
+    ledgerMismatches: 0,
+    stuckPending: 0,
+    autoResolved: 0,
   });
   const [loading, setLoading] = useState(true);
 
@@ -55,12 +64,43 @@ export default function AdminDashboard() {
         
         const totalBalance = wallets?.reduce((sum, w) => sum + Number(w.balance), 0) || 0;
 
+        // Fetch unresolved wallet/ledger mismatches from the nightly reconciliation
+        const { count: mismatchCount } = await supabase
+          .from('ledger_reconciliation_flags')
+          .select('*', { count: 'exact', head: true })
+          .is('resolved_at', null);
+
+        // Purchases still pending past the requery threshold, and those the worker settled in the last 24h
+        const { data: requerySettings } = await supabase
+          .from('requery_settings')
+          .select('min_age_minutes')
+          .limit(1)
+          .maybeSingle();
+
+        const stuckCutoff = new Date(Date.now() - (requerySettings?.min_age_minutes ?? 15) * 60 * 1000).toISOString();
+        const { count: stuckCount } = await supabase
+          .from('transactions')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'pending')
+          .in('category', REQUERY_CATEGORIES)
+          .lt('created_at', stuckCutoff);
+
+        const resolvedSince = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        const { count: autoResolvedCount } = await supabase
+          .from('transactions')
+          .select('*', { count: 'exact', head: true })
+          .eq('metadata->>resolved_by', 'requery')
+          .gte('metadata->>resolved_at', resolvedSince);
+
         setStats({
           totalUsers: usersCount || 0,
           totalTransactions: transactionsCount || 0,
           totalBalance,
           failedTransactions: failedCount || 0,
           todayTransactions: todayCount || 0,
+          ledgerMismatches: mismatchCount || 0,
+          stuckPending: stuckCount || 0,
+          autoResolved: autoResolvedCount || 0,
         });
       } catch (error) {
         console.error('Error fetching stats:', error);
@@ -108,6 +148,27 @@ export default function AdminDashboard() {
       color: 'text-red-500',
       bgColor: 'bg-red-500/10',
     },
+    {
+      title: 'Ledger Mismatches',
+      value: stats.ledgerMismatches,
+      icon: Scale,
+      color: 'text-yellow-500',
+      bgColor: 'bg-yellow-500/10',
+    },
+    {
+      title: 'Stuck Pending',
+      value: stats.stuckPending,
+      icon: Hourglass,
+      color: 'text-amber-500',
+      bgColor: 'bg-amber-500/10',
+    },
+    {
+      title: 'Auto-resolved (24h)',
+      value: stats.autoResolved,
+      icon: RefreshCcw,
+      color: 'text-teal-500',
+      bgColor: 'bg-teal-500/10',
+    },
   ];
 
   return (
@@ -120,7 +181,7 @@ export default function AdminDashboard() {
 
         {loading ? (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
-            {[...Array(5)].map((_, i) => (
+            {[...Array(8)].map((_, i) => (
               <Card key={i} className="animate-pulse">
                 <CardHeader className="pb-2">
                   <div className="h-4 bg-muted rounded w-24" />
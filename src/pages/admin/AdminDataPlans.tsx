@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
+import { PlanSyncReview } from '@/components/admin/PlanSyncReview';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,7 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Download, Loader2, Plus, Trash2, RefreshCw, Database, Cloud } from 'lucide-react';
+import { Download, Loader2, Plus, Trash2, RefreshCw, Database, Cloud, GitCompare } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -344,7 +345,7 @@ export default function AdminDataPlans() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 max-w-md">
+          <TabsList className="grid w-full grid-cols-3 max-w-lg">
             <TabsTrigger value="database" className="gap-2">
               <Database className="h-4 w-4" />
               My Plans ({dbPlans.length})
@@ -353,6 +354,10 @@ export default function AdminDataPlans() {
               <Cloud className="h-4 w-4" />
               Add from API
             </TabsTrigger>
+            <TabsTrigger value="sync" className="gap-2">
+              <GitCompare className="h-4 w-4" />
+              Sync Review
+            </TabsTrigger>
           </TabsList>
 
           {/* Database Plans Tab */}
@@ -600,6 +605,11 @@ export default function AdminDataPlans() {
               </Card>
             )}
           </TabsContent>
+
+          {/* Scheduled Sync Review Tab */}
+          <TabsContent value="sync">
+            <PlanSyncReview onApplied={fetchDbPlans} />
+          </TabsContent>
         </Tabs>
 
         {/* Edit Plan Dialog */}
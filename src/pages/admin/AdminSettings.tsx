@@ -1,18 +1,156 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2, UserPlus, Shield } from 'lucide-react';
+import { Loader2, UserPlus, Shield, Shuffle, Webhook, RotateCcw } from 'lucide-react';
+
+interface ApiProvider {
+  id: string;
+  name: string;
+  is_active: boolean;
+  priority: number;
+  callback_auth: string;
+  callback_signature_header: string | null;
+  callback_allowed_ips: string[];
+}
+
+interface FailoverRule {
+  product: string;
+  is_enabled: boolean;
+  allow_price_change: boolean;
+}
+
+interface ReversalSettings {
+  id: string;
+  require_second_approval: boolean;
+  approval_threshold: number;
+}
+
+const PROVIDER_SERVICES: Record<string, string> = {
+  isquare: 'Data, Electricity, Cable, Exams',
+  rgc: 'Airtime, Data',
+  albarka: 'Airtime, Data',
+};
+
+// Cable and electricity cost the same whichever provider serves them
+const PRICED_PRODUCTS = ['data', 'airtime'];
+const PRODUCT_ORDER = ['data', 'airtime', 'cable', 'electricity'];
+
+const CALLBACK_AUTH_METHODS: Record<string, string> = {
+  shared_secret: 'Shared secret',
+  signature: 'HMAC signature',
+};
 
 export default function AdminSettings() {
   const [email, setEmail] = useState('');
   const [loading, setLoading] = useState(false);
+  const [providers, setProviders] = useState<ApiProvider[]>([]);
+  const [rules, setRules] = useState<FailoverRule[]>([]);
+  const [reversalSettings, setReversalSettings] = useState<ReversalSettings | null>(null);
+  const [approvalThreshold, setApprovalThreshold] = useState('');
   const { toast } = useToast();
 
+  const fetchFailoverSettings = async () => {
+    const [providersRes, rulesRes] = await Promise.all([
+      supabase.from('api_providers').select('id, name, is_active, priority, callback_auth, callback_signature_header, callback_allowed_ips').order('priority', { ascending: true }),
+      supabase.from('failover_rules').select('product, is_enabled, allow_price_change'),
+    ]);
+
+    if (providersRes.error || rulesRes.error) {
+      console.error('Error fetching failover settings:', providersRes.error || rulesRes.error);
+      return;
+    }
+
+    setProviders(providersRes.data || []);
+    setRules(
+      (rulesRes.data || []).sort((a, b) => PRODUCT_ORDER.indexOf(a.product) - PRODUCT_ORDER.indexOf(b.product))
+    );
+  };
+
+  const fetchReversalSettings = async () => {
+    const { data, error } = await supabase
+      .from('reversal_settings')
+      .select('id, require_second_approval, approval_threshold')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching reversal settings:', error);
+      return;
+    }
+
+    setReversalSettings(data);
+    setApprovalThreshold(data ? String(data.approval_threshold) : '');
+  };
+
+  useEffect(() => {
+    fetchFailoverSettings();
+    fetchReversalSettings();
+  }, []);
+
+  const updateReversalSettings = async (changes: Partial<Omit<ReversalSettings, 'id'>>) => {
+    if (!reversalSettings) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('reversal_settings')
+      .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user?.id })
+      .eq('id', reversalSettings.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update reversal settings',
+      });
+      return;
+    }
+
+    setReversalSettings({ ...reversalSettings, ...changes });
+  };
+
+  const updateProvider = async (provider: ApiProvider, changes: Partial<Omit<ApiProvider, 'id' | 'name'>>) => {
+    const { error } = await supabase.from('api_providers').update(changes).eq('id', provider.id);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update provider',
+      });
+      return;
+    }
+
+    setProviders((prev) =>
+      prev.map((p) => (p.id === provider.id ? { ...p, ...changes } : p)).sort((a, b) => a.priority - b.priority)
+    );
+  };
+
+  const updateRule = async (rule: FailoverRule, changes: Partial<Pick<FailoverRule, 'is_enabled' | 'allow_price_change'>>) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('failover_rules')
+      .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user?.id })
+      .eq('product', rule.product);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update failover rule',
+      });
+      return;
+    }
+
+    setRules((prev) => prev.map((r) => (r.product === rule.product ? { ...r, ...changes } : r)));
+  };
+
   const handleMakeAdmin = async () => {
     if (!email) {
       toast({
@@ -127,23 +265,37 @@ export default function AdminSettings() {
             <CardHeader>
               <CardTitle>API Providers</CardTitle>
               <CardDescription>
-                View configured API providers for services
+                Failover tries active providers in priority order (lowest first)
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                  <span className="font-medium">iSquare</span>
-                  <span className="text-sm text-muted-foreground">Data, Electricity, Cable, Exams</span>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                  <span className="font-medium">RGC</span>
-                  <span className="text-sm text-muted-foreground">Airtime, Data</span>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                  <span className="font-medium">Albarka</span>
-                  <span className="text-sm text-muted-foreground">Airtime, Data</span>
-                </div>
+                {providers.map((provider) => (
+                  <div key={provider.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                    <div>
+                      <span className="font-medium capitalize">{provider.name}</span>
+                      <p className="text-sm text-muted-foreground">{PROVIDER_SERVICES[provider.name] || 'VTU'}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-16"
+                        defaultValue={provider.priority}
+                        onBlur={(e) => {
+                          const priority = parseInt(e.target.value, 10);
+                          if (!isNaN(priority) && priority !== provider.priority) {
+                            updateProvider(provider, { priority });
+                          }
+                        }}
+                      />
+                      <Switch
+                        checked={provider.is_active}
+                        onCheckedChange={(checked) => updateProvider(provider, { is_active: checked })}
+                      />
+                    </div>
+                  </div>
+                ))}
                 <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
                   <span className="font-medium">PaymentPoint</span>
                   <span className="text-sm text-muted-foreground">Virtual Accounts</span>
@@ -151,6 +303,153 @@ export default function AdminSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Provider Callbacks
+              </CardTitle>
+              <CardDescription>
+                How each provider proves a delivery callback is genuine. Secrets are set as
+                the NAME_CALLBACK_SECRET function secret, e.g. ISQUARE_CALLBACK_SECRET.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {providers.map((provider) => (
+                  <div key={provider.id} className="p-3 bg-muted rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-medium capitalize">{provider.name}</span>
+                      <Select
+                        value={provider.callback_auth}
+                        onValueChange={(callback_auth) => updateProvider(provider, { callback_auth })}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CALLBACK_AUTH_METHODS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {provider.callback_auth === 'signature' && (
+                      <Input
+                        placeholder="Signature header (default X-Signature)"
+                        defaultValue={provider.callback_signature_header ?? ''}
+                        onBlur={(e) => {
+                          const header = e.target.value.trim() || null;
+                          if (header !== provider.callback_signature_header) {
+                            updateProvider(provider, { callback_signature_header: header });
+                          }
+                        }}
+                      />
+                    )}
+                    <Input
+                      placeholder="Allowed source IPs, comma separated (optional)"
+                      defaultValue={provider.callback_allowed_ips.join(', ')}
+                      onBlur={(e) => {
+                        const ips = e.target.value.split(',').map((ip) => ip.trim()).filter(Boolean);
+                        if (ips.join(',') !== provider.callback_allowed_ips.join(',')) {
+                          updateProvider(provider, { callback_allowed_ips: ips });
+                        }
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shuffle className="h-5 w-5" />
+                Provider Failover
+              </CardTitle>
+              <CardDescription>
+                Retry a purchase on the next provider after timeouts, provider balance errors and outages
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {rules.map((rule) => (
+                  <div key={rule.product} className="p-3 bg-muted rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium capitalize">{rule.product}</span>
+                      <Switch
+                        checked={rule.is_enabled}
+                        onCheckedChange={(checked) => updateRule(rule, { is_enabled: checked })}
+                      />
+                    </div>
+                    {PRICED_PRODUCTS.includes(rule.product) && (
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm text-muted-foreground">Allow a different price</Label>
+                        <Switch
+                          checked={rule.allow_price_change}
+                          disabled={!rule.is_enabled}
+                          onCheckedChange={(checked) => updateRule(rule, { allow_price_change: checked })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RotateCcw className="h-5 w-5" />
+                Reversal Approval
+              </CardTitle>
+              <CardDescription>
+                Have a second admin approve transaction reversals before they are posted
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reversalSettings && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                    <Label htmlFor="reversal-four-eyes">Require a second admin</Label>
+                    <Switch
+                      id="reversal-four-eyes"
+                      checked={reversalSettings.require_second_approval}
+                      onCheckedChange={(checked) => updateReversalSettings({ require_second_approval: checked })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reversal-threshold">When a transaction's reversals total at least (₦)</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="reversal-threshold"
+                        type="number"
+                        min={0}
+                        value={approvalThreshold}
+                        disabled={!reversalSettings.require_second_approval}
+                        onChange={(e) => setApprovalThreshold(e.target.value)}
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={
+                          !reversalSettings.require_second_approval ||
+                          !(Number(approvalThreshold) >= 0) ||
+                          Number(approvalThreshold) === reversalSettings.approval_threshold
+                        }
+                        onClick={() => updateReversalSettings({ approval_threshold: Number(approvalThreshold) })}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">0 means every reversal needs approval</p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
     </AdminLayout>
@@ -0,0 +1,558 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RefreshCw, Loader2, Edit, Plus, Tags, Trash2 } from 'lucide-react';
+
+interface Tier {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  rank: number;
+  is_default: boolean;
+  min_monthly_spend: number | null;
+  data_discount_percent: number;
+  airtime_discount_percent: number;
+  cable_discount_percent: number;
+  exam_pin_discount_percent: number;
+}
+
+type ProductType = 'data' | 'airtime' | 'cable' | 'exam_pin';
+
+interface PriceOverride {
+  id: string;
+  product_type: ProductType;
+  product_id: string;
+  price: number | null;
+  discount_percent: number | null;
+}
+
+interface Product {
+  id: string;
+  label: string;
+  basePrice: number;
+}
+
+const PRODUCT_LABELS: Record<ProductType, string> = {
+  data: 'Data plan',
+  airtime: 'Airtime',
+  cable: 'Cable bouquet',
+  exam_pin: 'Exam PIN',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  slug: '',
+  description: '',
+  rank: '0',
+  min_monthly_spend: '',
+  data_discount_percent: '0',
+  airtime_discount_percent: '0',
+  cable_discount_percent: '0',
+  exam_pin_discount_percent: '0',
+};
+
+const DISCOUNT_FIELDS = [
+  { key: 'data_discount_percent', label: 'Data (% off)' },
+  { key: 'airtime_discount_percent', label: 'Airtime (extra % off)' },
+  { key: 'cable_discount_percent', label: 'Cable (% off)' },
+  { key: 'exam_pin_discount_percent', label: 'Exam PINs (% off)' },
+] as const;
+
+async function fetchProducts(): Promise<Record<ProductType, Product[]>> {
+  const [data, airtime, cable, exam] = await Promise.all([
+    supabase.from('data_plans').select('id, display_name, network, selling_price').eq('is_active', true).order('network').order('selling_price'),
+    supabase.from('airtime_plans').select('id, network, provider, discount_percent').order('network'),
+    supabase.from('cable_bouquets').select('id, name, provider_code, price').eq('is_active', true).order('provider_code').order('price'),
+    supabase.from('exam_pins').select('id, name, price').order('name'),
+  ]);
+
+  return {
+    data: (data.data || []).map((p) => ({ id: p.id, label: `${p.network.toUpperCase()} ${p.display_name}`, basePrice: p.selling_price })),
+    airtime: (airtime.data || []).map((p) => ({ id: p.id, label: `${p.network.toUpperCase()} via ${p.provider}`, basePrice: p.discount_percent })),
+    cable: (cable.data || []).map((p) => ({ id: p.id, label: `${p.provider_code.toUpperCase()} ${p.name}`, basePrice: p.price })),
+    exam_pin: (exam.data || []).map((p) => ({ id: p.id, label: p.name, basePrice: p.price })),
+  };
+}
+
+export default function AdminTiers() {
+  const [tiers, setTiers] = useState<Tier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [editingTier, setEditingTier] = useState<Tier | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [overridesTier, setOverridesTier] = useState<Tier | null>(null);
+  const [overrides, setOverrides] = useState<PriceOverride[]>([]);
+  const [products, setProducts] = useState<Record<ProductType, Product[]> | null>(null);
+  const [newOverride, setNewOverride] = useState<{ product_type: ProductType; product_id: string; value: string }>({
+    product_type: 'data',
+    product_id: '',
+    value: '',
+  });
+  const { toast } = useToast();
+
+  const fetchTiers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('user_tiers')
+        .select('*')
+        .order('rank', { ascending: true });
+
+      if (error) throw error;
+      setTiers(data || []);
+    } catch (error) {
+      console.error('Error fetching tiers:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to fetch tiers',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTiers();
+  }, [fetchTiers]);
+
+  const openEditor = (tier: Tier | null) => {
+    setEditingTier(tier);
+    setForm(tier
+      ? {
+          name: tier.name,
+          slug: tier.slug,
+          description: tier.description || '',
+          rank: tier.rank.toString(),
+          min_monthly_spend: tier.min_monthly_spend?.toString() || '',
+          data_discount_percent: tier.data_discount_percent.toString(),
+          airtime_discount_percent: tier.airtime_discount_percent.toString(),
+          cable_discount_percent: tier.cable_discount_percent.toString(),
+          exam_pin_discount_percent: tier.exam_pin_discount_percent.toString(),
+        }
+      : EMPTY_FORM);
+    setEditDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const slug = (form.slug || form.name).trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const rank = parseInt(form.rank, 10);
+    const minSpend = form.min_monthly_spend.trim() ? parseFloat(form.min_monthly_spend) : null;
+    const discounts = Object.fromEntries(
+      DISCOUNT_FIELDS.map(({ key }) => [key, parseFloat(form[key])])
+    ) as Record<(typeof DISCOUNT_FIELDS)[number]['key'], number>;
+
+    if (!form.name.trim() || !slug) {
+      toast({ variant: 'destructive', title: 'Invalid Name', description: 'Please enter a tier name' });
+      return;
+    }
+    if (isNaN(rank)) {
+      toast({ variant: 'destructive', title: 'Invalid Rank', description: 'Rank must be a whole number' });
+      return;
+    }
+    if (minSpend !== null && (isNaN(minSpend) || minSpend < 0)) {
+      toast({ variant: 'destructive', title: 'Invalid Spend', description: 'Enter a valid monthly spend or leave it blank' });
+      return;
+    }
+    if (Object.values(discounts).some((d) => isNaN(d) || d < 0 || d > 100)) {
+      toast({ variant: 'destructive', title: 'Invalid Discount', description: 'Discounts must be between 0 and 100' });
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      slug,
+      description: form.description.trim() || null,
+      rank,
+      min_monthly_spend: minSpend,
+      ...discounts,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingTier
+        ? await supabase.from('user_tiers').update(values).eq('id', editingTier.id)
+        : await supabase.from('user_tiers').insert(values);
+
+      if (error) throw error;
+
+      toast({ title: 'Success', description: `Tier ${editingTier ? 'updated' : 'created'}` });
+      setEditDialogOpen(false);
+      fetchTiers();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save tier',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tier: Tier) => {
+    if (!confirm(`Delete the ${tier.name} tier? Its users move back to the default tier.`)) return;
+
+    const { error } = await supabase.from('user_tiers').delete().eq('id', tier.id);
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+    toast({ title: 'Tier deleted' });
+    fetchTiers();
+  };
+
+  const fetchOverrides = async (tier: Tier) => {
+    const { data, error } = await supabase
+      .from('tier_price_overrides')
+      .select('id, product_type, product_id, price, discount_percent')
+      .eq('tier_id', tier.id)
+      .order('product_type');
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to fetch tier prices' });
+      return;
+    }
+    setOverrides((data || []) as PriceOverride[]);
+  };
+
+  const openOverrides = async (tier: Tier) => {
+    setOverridesTier(tier);
+    setOverrides([]);
+    setNewOverride({ product_type: 'data', product_id: '', value: '' });
+    fetchOverrides(tier);
+    if (!products) setProducts(await fetchProducts());
+  };
+
+  const handleAddOverride = async () => {
+    if (!overridesTier || !newOverride.product_id) return;
+
+    const value = parseFloat(newOverride.value);
+    const isAirtime = newOverride.product_type === 'airtime';
+    if (isNaN(value) || value <= 0 || (isAirtime && value > 100)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Value',
+        description: isAirtime ? 'Discount must be between 0 and 100' : 'Please enter a valid price',
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('tier_price_overrides')
+      .upsert({
+        tier_id: overridesTier.id,
+        product_type: newOverride.product_type,
+        product_id: newOverride.product_id,
+        price: isAirtime ? null : value,
+        discount_percent: isAirtime ? value : null,
+      }, { onConflict: 'tier_id,product_type,product_id' });
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+    setNewOverride({ ...newOverride, product_id: '', value: '' });
+    fetchOverrides(overridesTier);
+  };
+
+  const handleRemoveOverride = async (override: PriceOverride) => {
+    const { error } = await supabase.from('tier_price_overrides').delete().eq('id', override.id);
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+    setOverrides((prev) => prev.filter((o) => o.id !== override.id));
+  };
+
+  const productFor = (override: PriceOverride) =>
+    products?.[override.product_type].find((p) => p.id === override.product_id);
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">User Tiers</h1>
+            <p className="text-muted-foreground">Reseller pricing and automatic upgrades</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchTiers} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Tier
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tier</TableHead>
+                      <TableHead>Rank</TableHead>
+                      <TableHead>Upgrade At (30 days)</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Airtime</TableHead>
+                      <TableHead>Cable</TableHead>
+                      <TableHead>Exam PINs</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tiers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                          No tiers found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      tiers.map((tier) => (
+                        <TableRow key={tier.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {tier.name}
+                              {tier.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                            </div>
+                            {tier.description && (
+                              <div className="text-xs text-muted-foreground">{tier.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{tier.rank}</TableCell>
+                          <TableCell>
+                            {tier.min_monthly_spend != null
+                              ? `₦${Number(tier.min_monthly_spend).toLocaleString()}`
+                              : <span className="text-muted-foreground">Manual</span>}
+                          </TableCell>
+                          <TableCell>{tier.data_discount_percent}%</TableCell>
+                          <TableCell>+{tier.airtime_discount_percent}%</TableCell>
+                          <TableCell>{tier.cable_discount_percent}%</TableCell>
+                          <TableCell>{tier.exam_pin_discount_percent}%</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button size="sm" variant="ghost" onClick={() => openEditor(tier)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => openOverrides(tier)}>
+                                <Tags className="h-4 w-4" />
+                              </Button>
+                              {!tier.is_default && (
+                                <Button size="sm" variant="ghost" onClick={() => handleDelete(tier)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tier Editor */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingTier ? `Edit ${editingTier.name}` : 'New Tier'}</DialogTitle>
+            <DialogDescription>
+              Discounts apply to products without a tier price. Data is never sold below the provider's price.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Slug</Label>
+                <Input
+                  placeholder="From name"
+                  value={form.slug}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Rank</Label>
+                <Input type="number" value={form.rank} onChange={(e) => setForm({ ...form, rank: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Min. Monthly Spend (₦)</Label>
+                <Input
+                  type="number"
+                  placeholder="Manual only"
+                  value={form.min_monthly_spend}
+                  onChange={(e) => setForm({ ...form, min_monthly_spend: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Users are moved up daily to the highest-ranked tier their last 30 days of purchases qualify for.
+              Leave the spend blank to assign the tier by hand only.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {DISCOUNT_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label>{label}</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={form[key]}
+                    onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Tier
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Per-product Tier Prices */}
+      <Dialog open={!!overridesTier} onOpenChange={(open) => !open && setOverridesTier(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{overridesTier?.name} Prices</DialogTitle>
+            <DialogDescription>
+              Fixed prices replace the tier discount for a single product. Airtime takes a discount percentage.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-[140px_1fr_110px_auto] gap-2 items-end">
+              <Select
+                value={newOverride.product_type}
+                onValueChange={(value) => setNewOverride({ product_type: value as ProductType, product_id: '', value: '' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRODUCT_LABELS) as ProductType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{PRODUCT_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={newOverride.product_id}
+                onValueChange={(value) => setNewOverride({ ...newOverride, product_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={products ? 'Select product' : 'Loading...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(products?.[newOverride.product_type] || []).map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.label} ({newOverride.product_type === 'airtime'
+                        ? `${product.basePrice}%`
+                        : `₦${Number(product.basePrice).toLocaleString()}`})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder={newOverride.product_type === 'airtime' ? 'Discount %' : 'Price (₦)'}
+                value={newOverride.value}
+                onChange={(e) => setNewOverride({ ...newOverride, value: e.target.value })}
+              />
+              <Button onClick={handleAddOverride} disabled={!newOverride.product_id || !newOverride.value}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Standard</TableHead>
+                    <TableHead>Tier Price</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                        No fixed prices for this tier
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    overrides.map((override) => {
+                      const product = productFor(override);
+                      const isAirtime = override.product_type === 'airtime';
+                      return (
+                        <TableRow key={override.id}>
+                          <TableCell>
+                            <div className="font-medium">{product?.label || 'Unknown product'}</div>
+                            <div className="text-xs text-muted-foreground">{PRODUCT_LABELS[override.product_type]}</div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {product
+                              ? isAirtime ? `${product.basePrice}%` : `₦${Number(product.basePrice).toLocaleString()}`
+                              : '—'}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {isAirtime
+                              ? `${override.discount_percent}%`
+                              : `₦${Number(override.price).toLocaleString()}`}
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="ghost" onClick={() => handleRemoveOverride(override)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
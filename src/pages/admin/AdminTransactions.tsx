@@ -1,15 +1,18 @@
 import { useEffect, useState } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
-import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Search, RefreshCw, Loader2, RotateCcw } from 'lucide-react';
+import { Search, RefreshCw, Loader2, RotateCcw, Check, X } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Transaction {
@@ -27,14 +30,68 @@ interface Transaction {
   user_email?: string;
 }
 
+interface Reversal {
+  id: string;
+  transaction_id: string;
+  amount: number;
+  is_full: boolean;
+  reason_code: string;
+  note: string | null;
+  status: string;
+  created_at: string;
+  requested_by_name: string | null;
+  can_review: boolean;
+  transaction: { description: string; reference: string | null } | null;
+}
+
+const REVERSAL_REASONS: Record<string, string> = {
+  service_not_delivered: 'Service not delivered',
+  duplicate_charge: 'Duplicate charge',
+  wrong_amount: 'Wrong amount charged',
+  provider_error: 'Provider error',
+  customer_request: 'Customer request',
+  fraud: 'Fraud',
+  goodwill: 'Goodwill',
+  other: 'Other',
+};
+
+// Pending purchases settle on their own; a partly reversed one keeps its status until the rest is reversed
+const REVERSIBLE_STATUSES = ['completed', 'failed'];
+
+/** POST an action to admin-data and return its JSON, throwing its error message */
+async function adminAction(action: string, body: Record<string, unknown>) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=${action}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Request failed');
+  return result;
+}
+
 export default function AdminTransactions() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [refundDialogOpen, setRefundDialogOpen] = useState(false);
+  const [reversals, setReversals] = useState<Reversal[]>([]);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
-  const [refundLoading, setRefundLoading] = useState(false);
+  const [reversalMode, setReversalMode] = useState<'full' | 'partial'>('full');
+  const [partialAmount, setPartialAmount] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [reversalNote, setReversalNote] = useState('');
+  const [reversalLoading, setReversalLoading] = useState(false);
+  const [rejecting, setRejecting] = useState<Reversal | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const fetchTransactions = async () => {
@@ -75,58 +132,135 @@ export default function AdminTransactions() {
     }
   };
 
+  const fetchReversals = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=reversals`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to fetch reversals');
+
+      setReversals(result.data || []);
+    } catch (error) {
+      console.error('Error fetching reversals:', error);
+    }
+  };
+
+  const refresh = () => {
+    fetchTransactions();
+    fetchReversals();
+  };
+
   useEffect(() => {
     fetchTransactions();
   }, [statusFilter]);
 
-  const handleRefund = async () => {
+  useEffect(() => {
+    fetchReversals();
+  }, []);
+
+  const pendingReversals = reversals.filter((r) => r.status === 'pending_approval');
+  const pendingTransactionIds = new Set(pendingReversals.map((r) => r.transaction_id));
+
+  const openReversal = (tx: Transaction) => {
+    setSelectedTransaction(tx);
+    setReversalMode('full');
+    setPartialAmount('');
+    setReasonCode('');
+    setReversalNote('');
+  };
+
+  const handleReversal = async () => {
     if (!selectedTransaction) return;
 
-    setRefundLoading(true);
+    const amount = reversalMode === 'partial' ? Number(partialAmount) : undefined;
+    if (amount !== undefined && !(amount > 0 && amount <= selectedTransaction.amount)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Amount',
+        description: `Enter an amount up to ₦${selectedTransaction.amount.toLocaleString()}`,
+      });
+      return;
+    }
+    if (!reasonCode || (reasonCode === 'other' && !reversalNote.trim())) {
+      toast({
+        variant: 'destructive',
+        title: 'Reason Required',
+        description: 'Choose a reason code and add a note for "Other"',
+      });
+      return;
+    }
+
+    setReversalLoading(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) throw new Error('Not authenticated');
+      const result = await adminAction('request-reversal', {
+        transaction_id: selectedTransaction.id,
+        amount,
+        reason_code: reasonCode,
+        note: reversalNote.trim() || undefined,
+      });
 
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=refund`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            transaction_id: selectedTransaction.id,
-            user_id: selectedTransaction.user_id,
-            amount: selectedTransaction.amount,
-            description: selectedTransaction.description,
-            reference: selectedTransaction.reference,
-          }),
-        }
+      toast(
+        result.status === 'pending_approval'
+          ? { title: 'Sent for Approval', description: 'Another admin must approve this reversal before it is posted' }
+          : { title: 'Reversal Posted', description: 'The wallet was adjusted and the user notified' }
       );
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Refund failed');
-      }
+      setSelectedTransaction(null);
+      refresh();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Reversal Failed',
+        description: error instanceof Error ? error.message : 'Failed to reverse transaction',
+      });
+    } finally {
+      setReversalLoading(false);
+    }
+  };
 
+  const handleApprove = async (reversal: Reversal) => {
+    setReviewingId(reversal.id);
+    try {
+      await adminAction('approve-reversal', { reversal_id: reversal.id });
+      toast({ title: 'Reversal Approved', description: 'The wallet was adjusted and the user notified' });
+      refresh();
+    } catch (error) {
       toast({
-        title: 'Refund Successful',
-        description: `Refunded ₦${selectedTransaction.amount.toLocaleString()} to user`,
+        variant: 'destructive',
+        title: 'Approval Failed',
+        description: error instanceof Error ? error.message : 'Failed to approve reversal',
       });
+    } finally {
+      setReviewingId(null);
+    }
+  };
 
-      setRefundDialogOpen(false);
-      setSelectedTransaction(null);
-      fetchTransactions();
-    } catch (error: any) {
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setReviewingId(rejecting.id);
+    try {
+      await adminAction('reject-reversal', { reversal_id: rejecting.id, note: rejectNote.trim() || undefined });
+      toast({ title: rejecting.can_review ? 'Reversal Rejected' : 'Reversal Withdrawn' });
+      setRejecting(null);
+      setRejectNote('');
+      refresh();
+    } catch (error) {
       toast({
         variant: 'destructive',
-        title: 'Refund Failed',
-        description: error.message || 'Failed to process refund',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reject reversal',
       });
     } finally {
-      setRefundLoading(false);
+      setReviewingId(null);
     }
   };
 
@@ -138,6 +272,8 @@ export default function AdminTransactions() {
         return <Badge className="bg-yellow-500/10 text-yellow-600 hover:bg-yellow-500/20">Pending</Badge>;
       case 'failed':
         return <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/20">Failed</Badge>;
+      case 'reversed':
+        return <Badge className="bg-blue-500/10 text-blue-600 hover:bg-blue-500/20">Reversed</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -172,12 +308,59 @@ export default function AdminTransactions() {
             <h1 className="text-2xl font-bold">Transactions</h1>
             <p className="text-muted-foreground">View and manage all transactions</p>
           </div>
-          <Button variant="outline" onClick={fetchTransactions} disabled={loading}>
+          <Button variant="outline" onClick={refresh} disabled={loading}>
             <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
         </div>
 
+        {pendingReversals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RotateCcw className="h-5 w-5" />
+                Reversals Awaiting Approval
+              </CardTitle>
+              <CardDescription>A second admin must approve these before the wallet is adjusted</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {pendingReversals.map((reversal) => (
+                <div key={reversal.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                  <div className="min-w-0 text-sm">
+                    <p className="font-medium truncate">{reversal.transaction?.description ?? reversal.transaction_id}</p>
+                    <p className="text-muted-foreground">
+                      ₦{Number(reversal.amount).toLocaleString()} {reversal.is_full ? '(full)' : '(partial)'} ·{' '}
+                      {REVERSAL_REASONS[reversal.reason_code] ?? reversal.reason_code}
+                      {reversal.note && ` · ${reversal.note}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Requested by {reversal.requested_by_name ?? 'an admin'} · {format(new Date(reversal.created_at), 'MMM d, HH:mm')}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {reversal.can_review ? (
+                      <>
+                        <Button size="sm" onClick={() => handleApprove(reversal)} disabled={reviewingId === reversal.id}>
+                          {reviewingId === reversal.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setRejecting(reversal)} disabled={reviewingId === reversal.id}>
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => setRejecting(reversal)} disabled={reviewingId === reversal.id}>
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
@@ -199,6 +382,7 @@ export default function AdminTransactions() {
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="reversed">Reversed</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -248,19 +432,19 @@ export default function AdminTransactions() {
                           <TableCell>{getStatusBadge(tx.status)}</TableCell>
                           <TableCell>{format(new Date(tx.created_at), 'MMM d, HH:mm')}</TableCell>
                           <TableCell>
-                            {tx.status === 'failed' && tx.type === 'debit' && (
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => {
-                                  setSelectedTransaction(tx);
-                                  setRefundDialogOpen(true);
-                                }}
-                              >
+                            {pendingTransactionIds.has(tx.id) ? (
+                              <Badge variant="outline">Awaiting approval</Badge>
+                            ) : REVERSIBLE_STATUSES.includes(tx.status) && (
+                              <Button size="sm" variant="outline" onClick={() => openReversal(tx)}>
                                 <RotateCcw className="h-4 w-4 mr-1" />
-                                Refund
+                                Reverse
                               </Button>
                             )}
+                            {tx.metadata?.reversed_amount && (
+                              <span className="text-xs text-muted-foreground">
+                                ₦{Number(tx.metadata.reversed_amount).toLocaleString()} returned
+                              </span>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))
@@ -273,38 +457,117 @@ export default function AdminTransactions() {
         </Card>
       </div>
 
-      {/* Refund Dialog */}
-      <Dialog open={refundDialogOpen} onOpenChange={setRefundDialogOpen}>
+      {/* Reversal Dialog */}
+      <Dialog open={!!selectedTransaction} onOpenChange={(open) => !open && setSelectedTransaction(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Refund</DialogTitle>
+            <DialogTitle>Reverse Transaction</DialogTitle>
             <DialogDescription>
-              Are you sure you want to refund this transaction?
+              {selectedTransaction?.type === 'credit'
+                ? 'The amount is taken back from the user\'s wallet.'
+                : 'The amount is returned to the user\'s wallet.'}{' '}
+              The transaction is marked reversed and the user is notified.
             </DialogDescription>
           </DialogHeader>
           {selectedTransaction && (
-            <div className="py-4 space-y-2">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Amount:</span>
-                <span className="font-medium">₦{selectedTransaction.amount.toLocaleString()}</span>
+            <div className="space-y-4">
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Amount:</span>
+                  <span className="font-medium">₦{selectedTransaction.amount.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">User:</span>
+                  <span className="font-medium">{selectedTransaction.user_name}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Description:</span>
+                  <span className="font-medium text-right">{selectedTransaction.description}</span>
+                </div>
               </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">User:</span>
-                <span className="font-medium">{selectedTransaction.user_name}</span>
+
+              <Tabs value={reversalMode} onValueChange={(value) => setReversalMode(value as 'full' | 'partial')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="full">Full</TabsTrigger>
+                  <TabsTrigger value="partial">Partial</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {reversalMode === 'partial' && (
+                <div className="space-y-2">
+                  <Label htmlFor="reversal-amount">Amount (₦)</Label>
+                  <Input
+                    id="reversal-amount"
+                    type="number"
+                    min={1}
+                    max={selectedTransaction.amount}
+                    value={partialAmount}
+                    onChange={(e) => setPartialAmount(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reasonCode} onValueChange={setReasonCode}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a reason code" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REVERSAL_REASONS).map(([code, label]) => (
+                      <SelectItem key={code} value={code}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Description:</span>
-                <span className="font-medium text-sm">{selectedTransaction.description}</span>
+
+              <div className="space-y-2">
+                <Label htmlFor="reversal-note">Note {reasonCode === 'other' ? '' : '(optional)'}</Label>
+                <Textarea
+                  id="reversal-note"
+                  value={reversalNote}
+                  onChange={(e) => setReversalNote(e.target.value)}
+                  maxLength={500}
+                  rows={2}
+                />
               </div>
             </div>
           )}
           <DialogFooter>
-            <Button variant="outline" onClick={() => setRefundDialogOpen(false)}>
+            <Button variant="outline" onClick={() => setSelectedTransaction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReversal} disabled={reversalLoading || !reasonCode}>
+              {reversalLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reverse
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject / Withdraw Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{rejecting?.can_review ? 'Reject Reversal' : 'Withdraw Reversal'}</DialogTitle>
+            <DialogDescription>
+              Nothing is posted to the wallet. The transaction can be reversed again later.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Note (optional)"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            maxLength={500}
+            rows={2}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
               Cancel
             </Button>
-            <Button onClick={handleRefund} disabled={refundLoading}>
-              {refundLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Confirm Refund
+            <Button variant="destructive" onClick={handleReject} disabled={reviewingId === rejecting?.id}>
+              {reviewingId === rejecting?.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {rejecting?.can_review ? 'Reject' : 'Withdraw'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Search, Wallet, Loader2, RefreshCw, Ban, CheckCircle } from 'lucide-react';
@@ -21,8 +22,18 @@ interface User {
   created_at: string;
   wallet_balance?: number;
   is_blocked?: boolean;
+  tier_id?: string | null;
 }
 
+interface Tier {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+// Select items cannot have an empty value, so "no tier" gets a placeholder
+const DEFAULT_TIER_VALUE = 'default';
+
 export default function AdminUsers() {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,6 +44,8 @@ export default function AdminUsers() {
   const [fundDialogOpen, setFundDialogOpen] = useState(false);
   const [fundingLoading, setFundingLoading] = useState(false);
   const [blockingUserId, setBlockingUserId] = useState<string | null>(null);
+  const [tiers, setTiers] = useState<Tier[]>([]);
+  const [tierUserId, setTierUserId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const fetchUsers = async () => {
@@ -70,8 +83,22 @@ export default function AdminUsers() {
     }
   };
 
+  const fetchTiers = async () => {
+    const { data, error } = await supabase
+      .from('user_tiers')
+      .select('id, name, is_default')
+      .order('rank', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tiers:', error);
+      return;
+    }
+    setTiers(data || []);
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchTiers();
   }, []);
 
   const handleFundUser = async () => {
@@ -170,6 +197,48 @@ export default function AdminUsers() {
     }
   };
 
+  const handleSetTier = async (user: User, value: string) => {
+    const tierId = value === DEFAULT_TIER_VALUE ? null : value;
+    setTierUserId(user.user_id);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-data?action=set-user-tier`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ user_id: user.user_id, tier_id: tierId }),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update tier');
+
+      const tierName = tiers.find(t => t.id === tierId)?.name || 'the default tier';
+      toast({
+        title: 'Tier Updated',
+        description: `${user.full_name} moved to ${tierName}`,
+      });
+
+      setUsers(prev => prev.map(u => u.user_id === user.user_id ? { ...u, tier_id: tierId } : u));
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update tier',
+      });
+    } finally {
+      setTierUserId(null);
+    }
+  };
+
+  const defaultTierName = tiers.find(t => t.is_default)?.name || 'Default';
+
   const filteredUsers = users.filter((user) =>
     user.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     user.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -220,6 +289,7 @@ export default function AdminUsers() {
                       <TableHead>Phone</TableHead>
                       <TableHead>Account No.</TableHead>
                       <TableHead>Balance</TableHead>
+                      <TableHead>Tier</TableHead>
                       <TableHead>Joined</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
@@ -227,7 +297,7 @@ export default function AdminUsers() {
                   <TableBody>
                     {filteredUsers.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
                           No users found
                         </TableCell>
                       </TableRow>
@@ -244,6 +314,23 @@ export default function AdminUsers() {
                           <TableCell>{user.phone}</TableCell>
                           <TableCell>{user.account_number}</TableCell>
                           <TableCell>₦{Number(user.wallet_balance).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={tiers.find(t => t.id === user.tier_id && !t.is_default)?.id || DEFAULT_TIER_VALUE}
+                              onValueChange={(value) => handleSetTier(user, value)}
+                              disabled={tierUserId === user.user_id}
+                            >
+                              <SelectTrigger className="w-[140px] h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={DEFAULT_TIER_VALUE}>{defaultTierName} (default)</SelectItem>
+                                {tiers.filter(t => !t.is_default).map((tier) => (
+                                  <SelectItem key={tier.id} value={tier.id}>{tier.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
                           <TableCell>{format(new Date(user.created_at), 'MMM d, yyyy')}</TableCell>
                           <TableCell>
                             <div className="flex gap-1">
@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Search, RefreshCw, Loader2, Play, Eye, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface WebhookEvent {
+  id: string;
+  raw_body: string;
+  headers: Json;
+  signature: string | null;
+  signature_valid: boolean;
+  event_timestamp: string | null;
+  transaction_reference: string | null;
+  status: string;
+  quarantine_reason: string | null;
+  result: Json | null;
+  processed_at: string | null;
+  replayed_at: string | null;
+  created_at: string;
+}
+
+const QUARANTINE_REASONS: Record<string, string> = {
+  secret_not_configured: 'Webhook secret not configured',
+  missing_signature: 'No signature',
+  invalid_signature: 'Signature mismatch',
+  missing_timestamp: 'No timestamp',
+  invalid_timestamp: 'Unreadable timestamp',
+  stale_timestamp: 'Outside tolerance window',
+};
+
+const REPLAYABLE_STATUSES = ['quarantined', 'failed'];
+
+function prettyBody(raw: string) {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export default function AdminWebhooks() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('quarantined');
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+  const [replayDialogOpen, setReplayDialogOpen] = useState(false);
+  const [replayLoading, setReplayLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('paymentpoint_webhook_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch webhook events',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleReplay = async () => {
+    if (!selectedEvent) return;
+
+    setReplayLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-data', {
+        body: { action: 'replay-webhook-event', event_id: selectedEvent.id },
+      });
+
+      if (error) throw error;
+
+      const message = data?.result?.message || data?.result?.error || 'Webhook replayed';
+      toast(data?.success
+        ? { title: 'Webhook Replayed', description: message }
+        : { variant: 'destructive', title: 'Replay Failed', description: message });
+
+      setReplayDialogOpen(false);
+      setSelectedEvent(null);
+      fetchEvents();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Replay Failed',
+        description: error instanceof Error ? error.message : 'Failed to replay webhook',
+      });
+    } finally {
+      setReplayLoading(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'processed':
+        return <Badge className="bg-green-500/10 text-green-600 hover:bg-green-500/20">Processed</Badge>;
+      case 'replayed':
+        return <Badge className="bg-blue-500/10 text-blue-600 hover:bg-blue-500/20">Replayed</Badge>;
+      case 'quarantined':
+        return <Badge className="bg-yellow-500/10 text-yellow-600 hover:bg-yellow-500/20">Quarantined</Badge>;
+      case 'failed':
+        return <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/20">Failed</Badge>;
+      default:
+        return <Badge variant="secondary" className="capitalize">{status}</Badge>;
+    }
+  };
+
+  const filteredEvents = events.filter((event) =>
+    (event.transaction_reference || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    event.raw_body.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Payment Webhooks</h1>
+            <p className="text-muted-foreground">Review PaymentPoint deliveries and replay quarantined ones</p>
+          </div>
+          <Button variant="outline" onClick={fetchEvents} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+              <div className="relative flex-1 w-full">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by transaction reference or payload..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="quarantined">Quarantined</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="processed">Processed</SelectItem>
+                  <SelectItem value="replayed">Replayed</SelectItem>
+                  <SelectItem value="ignored">Ignored</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Signature</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredEvents.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                          No webhook events found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredEvents.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell>{format(new Date(event.created_at), 'MMM d, HH:mm:ss')}</TableCell>
+                          <TableCell className="font-mono text-sm">{event.transaction_reference || '—'}</TableCell>
+                          <TableCell>
+                            {event.signature_valid ? (
+                              <ShieldCheck className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <ShieldAlert className="h-4 w-4 text-red-600" />
+                            )}
+                          </TableCell>
+                          <TableCell>{getStatusBadge(event.status)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {event.quarantine_reason
+                              ? QUARANTINE_REASONS[event.quarantine_reason] || event.quarantine_reason
+                              : '—'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button size="sm" variant="outline" onClick={() => setSelectedEvent(event)}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              {REPLAYABLE_STATUSES.includes(event.status) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setSelectedEvent(event);
+                                    setReplayDialogOpen(true);
+                                  }}
+                                >
+                                  <Play className="h-4 w-4 mr-1" />
+                                  Replay
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Event Details / Replay Dialog */}
+      <Dialog
+        open={!!selectedEvent}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedEvent(null);
+            setReplayDialogOpen(false);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{replayDialogOpen ? 'Confirm Replay' : 'Webhook Event'}</DialogTitle>
+            <DialogDescription>
+              {replayDialogOpen
+                ? 'The payload will be processed without signature checks. Only replay deliveries you have confirmed with PaymentPoint.'
+                : 'Raw payload as received from PaymentPoint'}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="py-2 space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Event time:</span>
+                <span className="font-medium">
+                  {selectedEvent.event_timestamp
+                    ? format(new Date(selectedEvent.event_timestamp), 'MMM d, yyyy HH:mm:ss')
+                    : '—'}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Status:</span>
+                {getStatusBadge(selectedEvent.status)}
+              </div>
+              <pre className="max-h-72 overflow-auto rounded-md bg-muted p-3 text-xs">
+                {prettyBody(selectedEvent.raw_body)}
+              </pre>
+              {selectedEvent.result && (
+                <pre className="max-h-32 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(selectedEvent.result, null, 2)}
+                </pre>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSelectedEvent(null);
+                setReplayDialogOpen(false);
+              }}
+            >
+              {replayDialogOpen ? 'Cancel' : 'Close'}
+            </Button>
+            {replayDialogOpen && (
+              <Button onClick={handleReplay} disabled={replayLoading}>
+                {replayLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirm Replay
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
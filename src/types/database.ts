@@ -1,6 +1,6 @@
 export type TransactionType = 'credit' | 'debit';
-export type TransactionCategory = 'deposit' | 'airtime' | 'data' | 'electricity' | 'tv' | 'transfer' | 'referral_bonus';
-export type TransactionStatus = 'pending' | 'completed' | 'failed';
+export type TransactionCategory = 'deposit' | 'airtime' | 'data' | 'electricity' | 'tv' | 'transfer' | 'referral_bonus' | 'airtime_to_cash' | 'account_closure';
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'reversed';
 export type ReferralStatus = 'pending' | 'completed' | 'bonus_paid';
 export type AppRole = 'admin' | 'user';
 
@@ -9,7 +9,11 @@ export interface Profile {
   user_id: string;
   full_name: string;
   phone: string;
+  phone_verified_at: string | null;
   email: string | null;
+  date_of_birth: string | null;
+  kyc_level: number;
+  kyc_grace_until: string | null;
   account_number: string;
   referral_code: string;
   referred_by: string | null;
@@ -18,6 +22,7 @@ export interface Profile {
   virtual_account_bank: string | null;
   virtual_account_name: string | null;
   virtual_account_reference: string | null;
+  virtual_account_bvn_linked_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,49 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sourceIp } from './webhook-security.ts'
+
+export interface AdminAuditEntry {
+  /** What happened, as `<target>.<verb>`, e.g. 'wallet.funded' */
+  action: string
+  targetType: string
+  targetId?: string | null
+  /** The customer the action affected, when there is one */
+  targetUserId?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  metadata?: Record<string, unknown>
+}
+
+export type AdminAuditor = (entry: AdminAuditEntry) => Promise<void>
+
+/**
+ * Returns a recorder that writes audit log entries for the admin behind
+ * `req`. Recording happens after the action has taken effect, so a failed
+ * write is logged rather than thrown: reporting an error for an action that
+ * went through would only invite a retry.
+ */
+export function adminAuditor(
+  supabase: SupabaseClient,
+  req: Request,
+  actor: { id: string; email?: string | null }
+): AdminAuditor {
+  const ipAddress = sourceIp(req.headers)
+  const userAgent = req.headers.get('user-agent')
+
+  return async (entry) => {
+    const { error } = await supabase.from('admin_audit_log').insert({
+      actor_id: actor.id,
+      actor_email: actor.email ?? null,
+      action: entry.action,
+      target_type: entry.targetType,
+      target_id: entry.targetId ?? null,
+      target_user_id: entry.targetUserId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      metadata: entry.metadata ?? {},
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    })
+
+    if (error) console.error('Failed to write admin audit entry:', entry.action, error)
+  }
+}
@@ -0,0 +1,31 @@
+// API keys for the public gateway. A key is `vtu_live_` plus 40 hex characters;
+// only its SHA-256 hash is stored, so it is shown to the partner exactly once.
+
+export const API_KEY_SCOPES = ['plans:read', 'wallet:read', 'purchase', 'transactions:read'] as const
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+const KEY_PREFIX = 'vtu_live_'
+const PREFIX_LENGTH = KEY_PREFIX.length + 6
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes))).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomHex(20)}`
+  return { key, prefix: key.slice(0, PREFIX_LENGTH), key_hash: await hashApiKey(key) }
+}
+
+/** Secret partners use to verify the HMAC on our outbound callbacks */
+export function generateCallbackSecret() {
+  return `whsec_${randomHex(24)}`
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value)
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Set by the api gateway or a bulk order, schedule or auto top-up worker when it forwards a purchase to buy-*
+export const GATEWAY_USER_HEADER = 'x-gateway-user-id'
+export const GATEWAY_KEY_HEADER = 'x-gateway-key-id'
+export const GATEWAY_BULK_ORDER_HEADER = 'x-gateway-bulk-order-id'
+export const GATEWAY_SCHEDULE_HEADER = 'x-gateway-schedule-id'
+export const GATEWAY_TOPUP_RULE_HEADER = 'x-gateway-topup-rule-id'
+
+export interface Caller {
+  userId: string
+  /** Set when the purchase came through the public API; the key replaces the transaction PIN */
+  apiKeyId: string | null
+  /** Set for a line of a bulk order; the PIN was checked when the order was placed */
+  bulkOrderId: string | null
+  /** Set for a run of a scheduled purchase; the PIN was checked when it was scheduled */
+  scheduleId: string | null
+  /** Set for a purchase made by an auto top-up rule; the PIN was checked when the rule was saved */
+  topupRuleId: string | null
+}
+
+/**
+ * Who a buy-* request is for. App users send their own JWT. The api gateway
+ * and the bulk order, schedule and auto top-up workers have already
+ * authenticated the user, so they send the service role key and name the
+ * user and the key, order, schedule or rule in the gateway headers.
+ */
+export async function resolveCaller(req: Request, supabase: SupabaseClient): Promise<Caller | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) return null
+
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    const userId = req.headers.get(GATEWAY_USER_HEADER)
+    const apiKeyId = req.headers.get(GATEWAY_KEY_HEADER)
+    const bulkOrderId = req.headers.get(GATEWAY_BULK_ORDER_HEADER)
+    const scheduleId = req.headers.get(GATEWAY_SCHEDULE_HEADER)
+    const topupRuleId = req.headers.get(GATEWAY_TOPUP_RULE_HEADER)
+    return userId && (apiKeyId || bulkOrderId || scheduleId || topupRuleId)
+      ? { userId, apiKeyId, bulkOrderId, scheduleId, topupRuleId }
+      : null
+  }
+
+  const { data, error } = await supabase.auth.getClaims(token)
+  if (error || !data?.claims) return null
+  return { userId: data.claims.sub as string, apiKeyId: null, bulkOrderId: null, scheduleId: null, topupRuleId: null }
+}
+
+/** Whether the transaction PIN was already replaced by an API key or checked for a bulk order, schedule or rule */
+export function isPreAuthorized(caller: Caller) {
+  return caller.apiKeyId !== null || caller.bulkOrderId !== null || caller.scheduleId !== null || caller.topupRuleId !== null
+}
+
+/**
+ * Metadata that marks a transaction as made through the API, a bulk order, a
+ * schedule or an auto top-up rule, so its final status is called back or
+ * copied to the order line or top-up log
+ */
+export function callerMetadata(caller: Caller): Record<string, unknown> {
+  if (caller.apiKeyId) return { channel: 'api', api_key_id: caller.apiKeyId }
+  if (caller.bulkOrderId) return { channel: 'bulk', bulk_order_id: caller.bulkOrderId }
+  if (caller.scheduleId) return { channel: 'schedule', scheduled_purchase_id: caller.scheduleId }
+  if (caller.topupRuleId) return { channel: 'auto_topup', auto_topup_rule_id: caller.topupRuleId }
+  return {}
+}
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+// A key still 'processing' after this belongs to a run that died; it can be claimed again
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000
+
+export type IdempotencyClaim =
+  | { state: 'claimed'; userId: string; key: string }
+  /** No key sent (older app builds); the purchase runs without replay protection */
+  | { state: 'skipped' }
+  | { state: 'replay'; status: number; body: unknown }
+  | { state: 'rejected'; status: number; error: string }
+
+// Claims by request, so a handler's top-level catch can settle the key it took
+const requestClaims = new WeakMap<Request, { admin: SupabaseClient; claim: IdempotencyClaim; reference: string }>()
+
+export function readIdempotencyKey(req: Request) {
+  return req.headers.get(IDEMPOTENCY_HEADER)?.trim() || null
+}
+
+/** SHA-256 of the request body with its keys sorted; the PIN is left out so it is never stored */
+async function payloadHash(payload: object) {
+  const fields = Object.entries(payload)
+    .filter(([k]) => k !== 'pin')
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([k, v]) => [k, v ?? null])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(fields)))
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Reserve a client's Idempotency-Key for one purchase. Claim it right before
+ * the wallet is debited: a repeat of a finished purchase gets its stored
+ * response back, a repeat of one still running is refused, and reusing the
+ * key for a different request body is a 422. reference is the one the
+ * purchase will be debited under; it is stored with the key so a key left by
+ * a run that died is only handed out again if that run never took the money.
+ */
+export async function claimIdempotencyKey(
+  admin: SupabaseClient,
+  userId: string,
+  endpoint: string,
+  req: Request,
+  payload: object,
+  reference: string
+): Promise<IdempotencyClaim> {
+  const claim = await claimKey(admin, userId, endpoint, readIdempotencyKey(req), payload, reference)
+  requestClaims.set(req, { admin, claim, reference })
+  return claim
+}
+
+async function claimKey(
+  admin: SupabaseClient,
+  userId: string,
+  endpoint: string,
+  key: string | null,
+  payload: object,
+  reference: string
+): Promise<IdempotencyClaim> {
+  if (!key) return { state: 'skipped' }
+  if (!KEY_PATTERN.test(key)) {
+    return { state: 'rejected', status: 400, error: 'Invalid Idempotency-Key' }
+  }
+
+  const requestHash = await payloadHash(payload)
+  const { error } = await admin
+    .from('idempotency_keys')
+    .insert({ user_id: userId, key, endpoint, request_hash: requestHash, reference })
+
+  if (!error) return { state: 'claimed', userId, key }
+  if (error.code !== '23505') throw error
+
+  const { data: existing, error: lookupError } = await admin
+    .from('idempotency_keys')
+    .select('endpoint, status, request_hash, reference, claimed_at, response_status, response_body')
+    .eq('user_id', userId)
+    .eq('key', key)
+    .maybeSingle()
+
+  if (lookupError) throw lookupError
+  if (!existing) {
+    // Released between our insert and lookup; let the client retry
+    return { state: 'rejected', status: 409, error: 'This purchase is already being processed' }
+  }
+  // Keys claimed before request hashes were stored only match on endpoint
+  if (existing.endpoint !== endpoint || (existing.request_hash && existing.request_hash !== requestHash)) {
+    return { state: 'rejected', status: 422, error: 'Idempotency-Key was already used for a different request' }
+  }
+  if (existing.status === 'completed') {
+    return { state: 'replay', status: existing.response_status, body: existing.response_body }
+  }
+
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS)
+  if (new Date(existing.claimed_at) < staleBefore) {
+    // Keys claimed before references were stored cannot be checked, so they are never rerun
+    const charged = existing.reference ? await findKeyTransaction(admin, userId, existing.reference) : null
+    if (!existing.reference || charged) {
+      return {
+        state: 'rejected',
+        status: 409,
+        error: 'This purchase may already have been charged. Check your transaction history before trying again.'
+      }
+    }
+
+    const { data: reclaimed, error: reclaimError } = await admin
+      .from('idempotency_keys')
+      .update({ claimed_at: new Date().toISOString(), request_hash: requestHash, reference })
+      .eq('user_id', userId)
+      .eq('key', key)
+      .eq('status', 'processing')
+      .lt('claimed_at', staleBefore.toISOString())
+      .select('id')
+
+    if (reclaimError) throw reclaimError
+    if (reclaimed?.length) return { state: 'claimed', userId, key }
+  }
+  return { state: 'rejected', status: 409, error: 'This purchase is already being processed' }
+}
+
+/** The debit posted under a key's reference, if its run got that far */
+export async function findKeyTransaction(
+  admin: SupabaseClient,
+  userId: string,
+  reference: string
+): Promise<{ id: string; status: string } | null> {
+  const { data, error } = await admin
+    .from('transactions')
+    .select('id, status')
+    .eq('user_id', userId)
+    .eq('reference', reference)
+    .eq('type', 'debit')
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/** Store the final response of a claimed purchase and return it */
+export async function idempotentResponse(
+  admin: SupabaseClient,
+  claim: IdempotencyClaim,
+  body: Record<string, unknown>,
+  status: number,
+  headers: Record<string, string>
+): Promise<Response> {
+  if (claim.state === 'claimed') {
+    const { error } = await admin
+      .from('idempotency_keys')
+      .update({ status: 'completed', response_status: status, response_body: body, completed_at: new Date().toISOString() })
+      .eq('user_id', claim.userId)
+      .eq('key', claim.key)
+
+    if (error) console.error('Failed to store idempotent response:', error)
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' }
+  })
+}
+
+/** Response for a claim that must not run the purchase (replay or rejection) */
+export function idempotencyShortCircuit(claim: IdempotencyClaim, headers: Record<string, string>): Response | null {
+  if (claim.state === 'replay') {
+    return new Response(JSON.stringify(claim.body), {
+      status: claim.status,
+      headers: { ...headers, 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' }
+    })
+  }
+  if (claim.state === 'rejected') {
+    return new Response(JSON.stringify({ error: claim.error }), {
+      status: claim.status,
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    })
+  }
+  return null
+}
+
+/** Free the key when the purchase stopped before any money moved, so it can be retried */
+export async function releaseIdempotencyKey(admin: SupabaseClient, claim: IdempotencyClaim) {
+  if (claim.state !== 'claimed') return
+
+  const { error } = await admin
+    .from('idempotency_keys')
+    .delete()
+    .eq('user_id', claim.userId)
+    .eq('key', claim.key)
+    .eq('status', 'processing')
+
+  if (error) console.error('Failed to release idempotency key:', error)
+}
+
+/**
+ * Settle the key a request claimed when its handler threw. If the purchase
+ * never debited the wallet the key is freed so the client can retry; once it
+ * has, the key is completed with the transaction's state so a retry replays
+ * that instead of charging again.
+ */
+export async function releaseIdempotencyKeyOnError(req: Request) {
+  const entry = requestClaims.get(req)
+  if (!entry || entry.claim.state !== 'claimed') return
+  const { admin, claim, reference } = entry
+
+  let charged: { id: string; status: string } | null
+  try {
+    charged = await findKeyTransaction(admin, claim.userId, reference)
+  } catch (error) {
+    // Unknown whether money moved: keep the key 'processing' so stale reclaim checks again later
+    console.error('Failed to look up purchase for idempotency key:', error)
+    return
+  }
+
+  if (!charged) {
+    await releaseIdempotencyKey(admin, claim)
+    return
+  }
+
+  const body = {
+    success: charged.status !== 'failed',
+    reference,
+    status: charged.status,
+    message: charged.status === 'failed'
+      ? 'This purchase failed and your wallet was refunded'
+      : 'Your purchase is being processed. Check your transaction history for its status.'
+  }
+  const { error } = await admin
+    .from('idempotency_keys')
+    .update({ status: 'completed', response_status: 200, response_body: body, completed_at: new Date().toISOString() })
+    .eq('user_id', claim.userId)
+    .eq('key', claim.key)
+    .eq('status', 'processing')
+
+  if (error) console.error('Failed to store idempotent response:', error)
+}
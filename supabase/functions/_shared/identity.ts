@@ -0,0 +1,83 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { KycIdType, KycIdentity } from './kyc/index.ts'
+import { hmacSha256Hex } from './webhook-security.ts'
+
+export const KYC_ID_TYPES: KycIdType[] = ['bvn', 'nin']
+
+export interface KycLevel {
+  level: number
+  name: string
+  max_balance: number
+  daily_spend_limit: number
+  can_transfer: boolean
+}
+
+function nameTokens(value: string | null | undefined) {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter((token) => token.length > 1)
+}
+
+/**
+ * The profile name must contain the ID's surname and its first or middle
+ * name, in any order. Registered names often drop or reorder a middle name,
+ * so requiring every part would turn away genuine users.
+ */
+export function namesMatch(fullName: string, identity: KycIdentity) {
+  const profileTokens = new Set(nameTokens(fullName))
+  const surname = nameTokens(identity.last_name)
+  const given = [...nameTokens(identity.first_name), ...nameTokens(identity.middle_name)]
+  return surname.length > 0
+    && surname.every((token) => profileTokens.has(token))
+    && given.some((token) => profileTokens.has(token))
+}
+
+export function identityName(identity: KycIdentity) {
+  return [identity.first_name, identity.middle_name, identity.last_name].filter(Boolean).join(' ')
+}
+
+/** 221******89, so neither screens nor logs show the whole number */
+export function maskIdNumber(idNumber: string) {
+  return `${idNumber.slice(0, 3)}******${idNumber.slice(-2)}`
+}
+
+/** Keyed hash of an ID number, so the same BVN or NIN can be spotted on two accounts */
+export function hashIdNumber(idType: KycIdType, idNumber: string) {
+  const secret = Deno.env.get('KYC_HASH_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  return hmacSha256Hex(secret, `${idType}:${idNumber}`)
+}
+
+function toKycLevel(row: Record<string, unknown>): KycLevel {
+  return {
+    level: Number(row.level),
+    name: String(row.name),
+    max_balance: Number(row.max_balance),
+    daily_spend_limit: Number(row.daily_spend_limit),
+    can_transfer: !!row.can_transfer,
+  }
+}
+
+/** The user's level with today's spend against it, and what the next level would allow */
+export async function getKycLimits(adminSupabase: SupabaseClient, userId: string) {
+  const [{ data: profile }, { data: levels }, { data: spentToday }] = await Promise.all([
+    adminSupabase.from('profiles').select('kyc_level, kyc_grace_until').eq('user_id', userId).maybeSingle(),
+    adminSupabase.from('kyc_levels').select('level, name, max_balance, daily_spend_limit, can_transfer').order('level'),
+    adminSupabase.rpc('get_spend_total_today', { p_user_id: userId }),
+  ])
+
+  const all = (levels || []).map(toKycLevel)
+  const levelNumber = Number(profile?.kyc_level ?? 0)
+  const current = all.find((l) => l.level === levelNumber) || all[0]
+  const spent = Number(spentToday || 0)
+
+  return {
+    ...current,
+    spent_today: spent,
+    remaining_today: Math.max(0, current.daily_spend_limit - spent),
+    next_level: all.find((l) => l.level === levelNumber + 1) || null,
+    // Customers from before KYC levels keep the top level until this date
+    grace_until: (profile?.kyc_grace_until as string | null | undefined) ?? null,
+  }
+}
@@ -0,0 +1,67 @@
+import type { KycIdType, KycProvider } from './types.ts'
+
+const BASE_URL = 'https://api.dojah.io/api/v1/kyc'
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+}
+
+// Dojah returns 1990-01-31, 31-01-1990 or 31-Jan-1990 depending on the source
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed.slice(0, 10)
+
+  const parts = trimmed.split(/[-/ ]/)
+  if (parts.length !== 3) return null
+  const [day, month, year] = parts
+  const monthNumber = /^\d+$/.test(month) ? month.padStart(2, '0') : MONTHS[month.slice(0, 3).toLowerCase()]
+  if (!monthNumber || !/^\d{4}$/.test(year)) return null
+  return `${year}-${monthNumber}-${day.padStart(2, '0')}`
+}
+
+const PATHS: Record<KycIdType, string> = {
+  bvn: 'bvn/full?bvn=',
+  nin: 'nin?nin=',
+}
+
+export const dojahKycProvider: KycProvider = {
+  name: 'dojah',
+
+  async lookup(idType, idNumber) {
+    const appId = Deno.env.get('DOJAH_APP_ID')
+    const secretKey = Deno.env.get('DOJAH_SECRET_KEY')
+    if (!appId || !secretKey) return { ok: false, not_found: false, error: 'DOJAH_APP_ID or DOJAH_SECRET_KEY is not configured' }
+
+    try {
+      const response = await fetch(`${BASE_URL}/${PATHS[idType]}${encodeURIComponent(idNumber)}`, {
+        headers: { AppId: appId, Authorization: secretKey },
+        signal: AbortSignal.timeout(20000),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      const entity = data.entity
+      if (!response.ok || !entity) {
+        return {
+          ok: false,
+          not_found: response.status === 400 || response.status === 404,
+          error: data.error || `Dojah returned HTTP ${response.status}`,
+        }
+      }
+
+      return {
+        ok: true,
+        identity: {
+          first_name: String(entity.first_name || entity.firstname || ''),
+          middle_name: entity.middle_name || entity.middlename || null,
+          last_name: String(entity.last_name || entity.surname || entity.lastname || ''),
+          date_of_birth: toIsoDate(entity.date_of_birth || entity.birthdate),
+        },
+        reference: data.reference_id || undefined,
+      }
+    } catch (error) {
+      return { ok: false, not_found: false, error: error instanceof Error ? error.message : 'Dojah request failed' }
+    }
+  },
+}
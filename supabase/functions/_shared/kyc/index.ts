@@ -0,0 +1,26 @@
+import { dojahKycProvider } from './dojah.ts'
+import { stubKycProvider } from './stub.ts'
+import type { KycProvider } from './types.ts'
+
+export type { KycClaim, KycIdType, KycIdentity, KycLookupResult, KycProvider } from './types.ts'
+
+// Keys are the values KYC_PROVIDER may take. Registering an adapter here is
+// all it takes to switch providers.
+const PROVIDERS: Record<string, KycProvider> = {
+  [stubKycProvider.name]: stubKycProvider,
+  [dojahKycProvider.name]: dojahKycProvider,
+}
+
+/**
+ * The configured provider; without KYC_PROVIDER every lookup goes to the stub.
+ * A misspelt name gives null rather than the stub, which would verify anyone.
+ */
+export function getKycProvider(): KycProvider | null {
+  const name = (Deno.env.get('KYC_PROVIDER') || stubKycProvider.name).toLowerCase()
+  const provider = PROVIDERS[name]
+  if (!provider) {
+    console.error(`Unknown KYC_PROVIDER "${name}"`)
+    return null
+  }
+  return provider
+}
@@ -0,0 +1,26 @@
+import type { KycProvider } from './types.ts'
+
+// Development provider: echoes the claimed identity back, so any 11-digit
+// number verifies. Numbers starting 00000 are reported as not found.
+export const stubKycProvider: KycProvider = {
+  name: 'stub',
+
+  lookup(idType, idNumber, claim) {
+    console.log(`[kyc:stub] ${idType} lookup for ${idNumber.slice(0, 3)}********`)
+    if (idNumber.startsWith('00000')) {
+      return Promise.resolve({ ok: false, not_found: true, error: `${idType.toUpperCase()} not found` })
+    }
+
+    const names = claim.full_name.trim().split(/\s+/)
+    return Promise.resolve({
+      ok: true,
+      identity: {
+        first_name: names[0] || '',
+        middle_name: names.length > 2 ? names.slice(1, -1).join(' ') : null,
+        last_name: names.length > 1 ? names[names.length - 1] : '',
+        date_of_birth: claim.date_of_birth,
+      },
+      reference: `stub-${crypto.randomUUID()}`,
+    })
+  },
+}
@@ -0,0 +1,28 @@
+// Contract every KYC provider adapter implements.
+// Callers only look up through getKycProvider(), never an adapter directly.
+
+export type KycIdType = 'bvn' | 'nin'
+
+export interface KycIdentity {
+  first_name: string
+  middle_name?: string | null
+  last_name: string
+  /** YYYY-MM-DD, or null when the provider did not return a usable date */
+  date_of_birth: string | null
+}
+
+/** What the user says the ID belongs to; providers may ignore it */
+export interface KycClaim {
+  full_name: string
+  date_of_birth: string
+}
+
+export type KycLookupResult =
+  | { ok: true; identity: KycIdentity; reference?: string }
+  | { ok: false; not_found: boolean; error: string }
+
+export interface KycProvider {
+  name: string
+  /** `idNumber` is the 11-digit BVN or NIN */
+  lookup(idType: KycIdType, idNumber: string, claim: KycClaim): Promise<KycLookupResult>
+}
@@ -0,0 +1,32 @@
+// One-time codes sent by email or SMS. Only a keyed hash of each code is stored.
+
+import { hmacSha256Hex, safeEqual } from './webhook-security.ts'
+
+export const OTP_LENGTH = 6
+export const OTP_TTL_MINUTES = 10
+
+// 2^32 rounded down to a whole number of 10^6 blocks, so every code is equally likely
+const OTP_RANGE = 10 ** OTP_LENGTH
+const UNBIASED_LIMIT = Math.floor(0x100000000 / OTP_RANGE) * OTP_RANGE
+
+function otpSecret() {
+  return Deno.env.get('OTP_HASH_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+}
+
+/** Uniformly random numeric code from the platform CSPRNG */
+export function generateOtp(): string {
+  const buffer = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(buffer)
+  } while (buffer[0] >= UNBIASED_LIMIT)
+  return (buffer[0] % OTP_RANGE).toString().padStart(OTP_LENGTH, '0')
+}
+
+/** Hash bound to who the code was sent to, so a stored hash is useless for any other address */
+export function hashOtp(code: string, recipient: string): Promise<string> {
+  return hmacSha256Hex(otpSecret(), `${recipient}:${code.trim()}`)
+}
+
+export async function otpMatches(code: string, recipient: string, storedHash: string): Promise<boolean> {
+  return safeEqual(await hashOtp(code, recipient), storedHash)
+}
@@ -0,0 +1,202 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hmacSha256Hex } from './webhook-security.ts'
+
+// Signed POSTs to partner and merchant URLs. Receivers verify
+// X-Signature = hex HMAC-SHA256(secret, `${X-Timestamp}.${raw body}`).
+
+export const MAX_DELIVERY_ATTEMPTS = 6
+const REQUEST_TIMEOUT_MS = 10000
+// A claimed delivery is not picked up again by an overlapping run until this passes
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+
+/** Queues with the shared delivery columns (status, attempts, next_attempt_at, ...) */
+export type DeliveryTable = 'api_callbacks' | 'webhook_deliveries'
+
+export interface QueuedDelivery {
+  id: string
+  url: string
+  secret: string
+  payload: unknown
+  attempts: number
+  next_attempt_at: string
+}
+
+export interface DeliverySummary {
+  attempted: number
+  delivered: number
+  retrying: number
+  failed: number
+}
+
+// Hostnames that only ever name this machine or the cloud network it runs in
+const INTERNAL_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i
+
+/**
+ * Why a merchant URL must not be called, or null. Endpoints have to name a
+ * public host: IP literals and internal names would let a merchant point our
+ * delivery worker at loopback, the private network or the metadata service.
+ */
+function endpointHostError(url: URL): string | null {
+  const host = url.hostname.replace(/\.$/, '')
+  if (host.startsWith('[') || /^[\d.]+$/.test(host) || /^0x/i.test(host)) {
+    return 'Endpoint URL must use a hostname, not an IP address'
+  }
+  if (!host.includes('.') || INTERNAL_HOSTNAME.test(host)) {
+    return 'Endpoint URL must be a public hostname'
+  }
+  return null
+}
+
+function ipv4Parts(address: string) {
+  const parts = address.split('.').map(Number)
+  return parts.length === 4 && parts.every((p) => Number.isInteger(p) && p >= 0 && p <= 255) ? parts : null
+}
+
+/** Loopback, private, link-local (incl. 169.254.169.254), CGNAT, multicast and reserved ranges */
+function isPrivateAddress(address: string): boolean {
+  const v4 = ipv4Parts(address)
+  if (v4) {
+    const [a, b] = v4
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+  }
+
+  const v6 = address.toLowerCase()
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+  return v6 === '::' || v6 === '::1' ||
+    /^f[cd]/.test(v6) ||          // unique local
+    /^fe[89ab]/.test(v6) ||       // link-local
+    v6.startsWith('ff')           // multicast
+}
+
+/**
+ * Why an endpoint URL must not be called, or null. The host is resolved and
+ * refused if any address is private; this runs when an endpoint is saved and
+ * again before every attempt, so a name re-pointed at an internal address
+ * after it was saved is not followed.
+ */
+export async function endpointTargetError(url: string): Promise<string | null> {
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    return 'Endpoint URL is invalid'
+  }
+  if (target.protocol !== 'https:') return 'Endpoint URL must use https'
+  const hostError = endpointHostError(target)
+  if (hostError) return hostError
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(target.hostname, 'A'),
+    Deno.resolveDns(target.hostname, 'AAAA'),
+  ])
+  const addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []))
+  if (addresses.length === 0) return 'Endpoint host could not be resolved'
+  if (addresses.some(isPrivateAddress)) return 'Endpoint host resolves to a private address'
+  return null
+}
+
+/** Minutes to wait after a failed attempt: 1, 2, 4, 8, 16 */
+function backoffMinutes(attempts: number) {
+  return 2 ** (attempts - 1)
+}
+
+async function postSigned(url: string, secret: string, payload: unknown, attempt: number, deliveryId: string) {
+  const base = payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : {}
+  const body = JSON.stringify({ ...base, attempt })
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  const targetError = await endpointTargetError(url)
+  if (targetError) return { statusCode: null, error: targetError }
+
+  try {
+    // Redirects are not followed: they could lead to a host the checks above would refuse
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Timestamp': timestamp,
+        'X-Signature': await hmacSha256Hex(secret, `${timestamp}.${body}`),
+        'X-Delivery-Id': deliveryId,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    await response.body?.cancel()
+    return {
+      statusCode: response.status,
+      error: response.ok ? null : `Endpoint responded with HTTP ${response.status}`,
+    }
+  } catch (error) {
+    return { statusCode: null, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Make one attempt and record it. Failures are rescheduled with exponential
+ * backoff until MAX_DELIVERY_ATTEMPTS; `retry: false` marks them failed at once.
+ */
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  table: DeliveryTable,
+  delivery: QueuedDelivery,
+  options: { retry?: boolean } = {}
+): Promise<'delivered' | 'retrying' | 'failed'> {
+  const attempts = delivery.attempts + 1
+  const { statusCode, error } = await postSigned(delivery.url, delivery.secret, delivery.payload, attempts, delivery.id)
+
+  if (!error) {
+    await supabase
+      .from(table)
+      .update({ status: 'delivered', attempts, last_status_code: statusCode, last_error: null, delivered_at: new Date().toISOString() })
+      .eq('id', delivery.id)
+    return 'delivered'
+  }
+
+  const giveUp = options.retry === false || attempts >= MAX_DELIVERY_ATTEMPTS
+  console.warn('Outbound webhook delivery failed:', { table, id: delivery.id, attempts, statusCode, error })
+
+  await supabase
+    .from(table)
+    .update({
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      last_status_code: statusCode,
+      last_error: error,
+      next_attempt_at: new Date(Date.now() + backoffMinutes(attempts) * 60 * 1000).toISOString(),
+    })
+    .eq('id', delivery.id)
+
+  return giveUp ? 'failed' : 'retrying'
+}
+
+/** Claim and attempt each due delivery; ones another run claimed first are skipped */
+export async function deliverQueued(
+  supabase: SupabaseClient,
+  table: DeliveryTable,
+  deliveries: QueuedDelivery[]
+): Promise<DeliverySummary> {
+  const summary: DeliverySummary = { attempted: 0, delivered: 0, retrying: 0, failed: 0 }
+
+  for (const delivery of deliveries) {
+    const { data: claimed } = await supabase
+      .from(table)
+      .update({ next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id')
+
+    if (!claimed?.length) continue
+    summary.attempted++
+    summary[await attemptDelivery(supabase, table, delivery)]++
+  }
+
+  return summary
+}
@@ -0,0 +1,563 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hmacSha256Hex, normalizeSignature, safeEqual } from './webhook-security.ts'
+import { getKycLimits } from './identity.ts'
+
+export const SIGNATURE_HEADERS = ['paymentpoint-signature', 'x-paymentpoint-signature']
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+export type LegacyWebhookPayload = {
+  event?: string
+  data?: {
+    reference?: string
+    amount?: number
+    customer_name?: string
+    account_number?: string
+    bank_name?: string
+    transaction_reference?: string
+    status?: string
+    timestamp?: string | number
+  }
+  timestamp?: string | number
+}
+
+export type NewWebhookPayload = {
+  notification_status?: string
+  transaction_id?: string
+  amount_paid?: number
+  settlement_amount?: number
+  settlement_fee?: number
+  transaction_status?: string
+  sender?: { name?: string; account_number?: string; bank?: string }
+  receiver?: { name?: string; account_number?: string; bank?: string }
+  customer?: { name?: string; email?: string; phone?: string | null; customer_id?: string }
+  description?: string
+  timestamp?: string
+}
+
+export type PaymentPointPayload = LegacyWebhookPayload & NewWebhookPayload
+
+export type QuarantineReason =
+  | 'secret_not_configured'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'missing_timestamp'
+  | 'invalid_timestamp'
+  | 'stale_timestamp'
+
+export interface WebhookVerification {
+  ok: boolean
+  /** Set when ok is false */
+  reason?: QuarantineReason
+  /** The HMAC matched, even if the timestamp was then rejected */
+  signatureValid: boolean
+  /** Event time from the signed body, as ISO 8601 */
+  timestamp: string | null
+}
+
+export interface WebhookOutcome {
+  /** How the event ends up in paymentpoint_webhook_events */
+  outcome: 'processed' | 'ignored' | 'failed'
+  status: number
+  body: Record<string, unknown>
+}
+
+interface BankAccount {
+  // PaymentPoint can return either snake_case or camelCase keys depending on version
+  bank_name?: string
+  bank_code?: string
+  account_number?: string
+  account_name?: string
+
+  bankName?: string
+  bankCode?: string
+  accountNumber?: string
+  accountName?: string
+}
+
+interface CreateVirtualAccountResponse {
+  status: string
+  message: string
+  customer?: {
+    customer_id: string
+    customer_name: string
+    customer_email: string
+    customer_phone_number: string
+  }
+  bankAccounts?: BankAccount[]
+  errors?: string[]
+}
+
+export interface VirtualAccountCustomer {
+  user_id: string
+  email: string | null
+  full_name: string
+  phone: string
+}
+
+export type VirtualAccountResult =
+  | { ok: true; account_number: string; account_name: string; bank_name: string; customer_id: string }
+  | { ok: false; status: number; error: string; bvn_required: boolean; details?: string[] }
+
+/**
+ * Create (or fetch) the customer's PaymentPoint virtual account. With a BVN
+ * the customer is upgraded to BVN-verified, which PaymentPoint requires for
+ * some partner banks; for a customer it already knows it returns the same
+ * account.
+ */
+export async function requestVirtualAccount(customer: VirtualAccountCustomer, bvn?: string): Promise<VirtualAccountResult> {
+  // Try both Opay (20897) and PalmPay (20946) for better success rate
+  const response = await fetch('https://api.paymentpoint.co/api/v1/createVirtualAccount', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('PAYMENTPOINT_API_SECRET')!}`,
+      'api-key': Deno.env.get('PAYMENTPOINT_API_KEY')!,
+    },
+    body: JSON.stringify({
+      email: customer.email || `user${customer.user_id.substring(0, 8)}@ramadandata.app`,
+      name: customer.full_name,
+      phoneNumber: customer.phone,
+      bankCode: ['20946', '20897'], // Try both PalmPay and Opay
+      businessId: Deno.env.get('PAYMENTPOINT_BUSINESS_ID')!,
+      ...(bvn ? { bvn } : {}),
+    }),
+  })
+
+  // Log raw response for debugging
+  const responseText = await response.text()
+  console.log('Payment Point raw response:', responseText)
+  console.log('Response status:', response.status)
+
+  let result: CreateVirtualAccountResponse
+  try {
+    result = JSON.parse(responseText)
+  } catch (parseError) {
+    console.error('Failed to parse Payment Point response as JSON:', parseError)
+    console.error('Raw response was:', responseText.substring(0, 500))
+    return { ok: false, status: 502, error: 'Invalid response from payment provider', bvn_required: false }
+  }
+
+  // Accounts at some banks are only issued to customers with a BVN on file
+  const bvnRequired = !bvn && [result.message, ...(result.errors || [])].some((m) => /\bbvn\b/i.test(m || ''))
+
+  // Check if status is success (it's a string, not boolean)
+  if (result.status !== 'success') {
+    console.error('Payment Point error:', result.message)
+    return { ok: false, status: 400, error: result.message || 'Failed to create virtual account', bvn_required: bvnRequired }
+  }
+
+  // Check if any bank accounts were created
+  if (!result.bankAccounts || result.bankAccounts.length === 0) {
+    console.error('No bank accounts created. Errors:', result.errors)
+    return {
+      ok: false,
+      status: 400,
+      error: result.errors?.[0] || 'No virtual account could be created. Please try again later.',
+      bvn_required: bvnRequired,
+      details: result.errors,
+    }
+  }
+
+  // Get the first successful bank account
+  const bankAccount = result.bankAccounts[0]
+  console.log('Bank account created:', JSON.stringify(bankAccount))
+
+  // Normalize bank account fields (handle snake_case + camelCase)
+  const accountNumber = bankAccount.account_number ?? bankAccount.accountNumber ?? null
+  const bankName = bankAccount.bank_name ?? bankAccount.bankName ?? null
+  const accountName = bankAccount.account_name ?? bankAccount.accountName ?? null
+
+  if (!accountNumber || !bankName || !accountName) {
+    console.error('Payment Point returned incomplete bank account details:', JSON.stringify(bankAccount))
+    return { ok: false, status: 502, error: 'Payment provider returned incomplete bank account details', bvn_required: false }
+  }
+
+  return {
+    ok: true,
+    account_number: accountNumber,
+    account_name: accountName,
+    bank_name: bankName,
+    customer_id: result.customer?.customer_id || customer.user_id,
+  }
+}
+
+export function isLegacyPayload(body: PaymentPointPayload) {
+  return typeof body.event === 'string' && !!body.data
+}
+
+export function readSignature(headers: Headers) {
+  for (const name of SIGNATURE_HEADERS) {
+    const signature = normalizeSignature(headers.get(name))
+    if (signature) return signature
+  }
+  return null
+}
+
+/** Transaction reference of either payload format, for the audit table */
+export function transactionReferenceOf(body: PaymentPointPayload) {
+  return (isLegacyPayload(body) ? body.data?.transaction_reference : body.transaction_id) ?? null
+}
+
+// Unix seconds or milliseconds, or any date string Date can parse
+function parseTimestamp(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(String(value)) ? Number(value) : null
+  const date = numeric !== null
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Check a delivery against the shared secret. PaymentPoint signs the raw body
+ * with HMAC-SHA256 in both payload formats, so the body must be verified
+ * exactly as received. The timestamp is read from the signed body and must
+ * fall inside the tolerance window in both formats, so a legacy delivery
+ * without one is quarantined rather than replayable. Only the dedicated
+ * webhook secret is accepted.
+ */
+export async function verifyPaymentPointWebhook(
+  rawBody: string,
+  signature: string | null,
+  body: PaymentPointPayload | null
+): Promise<WebhookVerification> {
+  const legacy = !!body && isLegacyPayload(body)
+  const rawTimestamp = body ? (legacy ? (body.data?.timestamp ?? body.timestamp) : body.timestamp) : undefined
+  const eventTime = parseTimestamp(rawTimestamp)
+  const timestamp = eventTime?.toISOString() ?? null
+
+  const secret = Deno.env.get('PAYMENTPOINT_WEBHOOK_SECRET')
+  const reject = (reason: QuarantineReason, signatureValid = false): WebhookVerification =>
+    ({ ok: false, reason, signatureValid, timestamp })
+
+  if (!secret) return reject('secret_not_configured')
+  if (!signature) return reject('missing_signature')
+
+  const expected = await hmacSha256Hex(secret, rawBody)
+  if (!safeEqual(expected, signature)) return reject('invalid_signature')
+
+  if (rawTimestamp === undefined || rawTimestamp === null || rawTimestamp === '') {
+    return reject('missing_timestamp', true)
+  }
+  if (!eventTime) return reject('invalid_timestamp', true)
+
+  const toleranceSeconds = Number(Deno.env.get('PAYMENTPOINT_WEBHOOK_TOLERANCE_SECONDS')) || DEFAULT_TOLERANCE_SECONDS
+  if (Math.abs(Date.now() - eventTime.getTime()) > toleranceSeconds * 1000) {
+    return reject('stale_timestamp', true)
+  }
+
+  return { ok: true, signatureValid: true, timestamp }
+}
+
+/**
+ * Credit the wallet for a successful PaymentPoint deposit, then notify the
+ * user and trigger any referral bonus. Safe to run again for the same payload:
+ * the transaction reference is only ever posted once.
+ */
+export async function processPaymentPointPayment(
+  supabase: SupabaseClient,
+  body: PaymentPointPayload
+): Promise<WebhookOutcome> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Support BOTH payload formats (legacy {event,data} and new flattened payload)
+  const isLegacy = isLegacyPayload(body)
+
+  const customerReference = isLegacy
+    ? body.data?.reference
+    : body.customer?.customer_id
+
+  const receiverAccountNumber = isLegacy ? body.data?.account_number : body.receiver?.account_number
+
+  const transactionReference = transactionReferenceOf(body)
+
+  // Use settlement_amount (after fees) instead of amount_paid for accurate balance
+  const amount = isLegacy ? body.data?.amount : (body.settlement_amount ?? body.amount_paid)
+
+  const statusOk = isLegacy
+    ? body.event === 'virtual_account.payment' && body.data?.status === 'successful'
+    : body.notification_status === 'payment_successful' && body.transaction_status === 'success'
+
+  if (!statusOk) {
+    console.log('Ignoring non-successful webhook payload')
+    return { outcome: 'ignored', status: 200, body: { success: true, message: 'Event ignored' } }
+  }
+
+  if (!transactionReference || !amount) {
+    console.error('Missing required fields:', { transactionReference, amount })
+    return { outcome: 'failed', status: 400, body: { error: 'Invalid payload: missing fields' } }
+  }
+
+  // Find user by virtual account reference first (customer_id), then fallback to receiver account number.
+  let profile:
+    | { id: string; user_id: string; full_name: string }
+    | null = null
+
+  if (customerReference) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, user_id, full_name')
+      .eq('virtual_account_reference', customerReference)
+      .maybeSingle()
+    profile = data ?? null
+  }
+
+  if (!profile && receiverAccountNumber) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, user_id, full_name')
+      .eq('virtual_account_number', receiverAccountNumber)
+      .maybeSingle()
+    profile = data ?? null
+  }
+
+  if (!profile) {
+    console.error('Profile not found for webhook:', { customerReference, receiverAccountNumber })
+    return { outcome: 'failed', status: 404, body: { error: 'User not found' } }
+  }
+
+  // Idempotency: prevent double-credit for same transaction
+  const { data: existingTx } = await supabase
+    .from('transactions')
+    .select('id')
+    .eq('reference', transactionReference)
+    .eq('type', 'credit')
+    .maybeSingle()
+
+  if (existingTx) {
+    console.log('Transaction already processed:', transactionReference)
+    return { outcome: 'ignored', status: 200, body: { success: true, message: 'Transaction already processed' } }
+  }
+
+  // Post the deposit to the wallet ledger (creates the transaction and updates the balance).
+  // Whatever would take the balance over the KYC level's maximum is held instead
+  // and credited once it fits; customers in their KYC grace period are not capped.
+  const { data: credit, error: creditError } = await supabase.rpc('credit_deposit', {
+    p_user_id: profile.user_id,
+    p_amount: amount,
+    p_description: 'Deposit via virtual account',
+    p_reference: transactionReference,
+    p_metadata: {
+      source: 'paymentpoint',
+      customer_reference: customerReference ?? null,
+      receiver_account_number: receiverAccountNumber ?? null,
+      raw: body,
+    },
+  })
+
+  if (creditError) {
+    // A concurrent delivery of the same webhook already posted this reference
+    if ((creditError.message || '').includes('DUPLICATE_REFERENCE')) {
+      console.log('Transaction already processed:', transactionReference)
+      return { outcome: 'ignored', status: 200, body: { success: true, message: 'Transaction already processed' } }
+    }
+    if ((creditError.message || '').includes('WALLET_NOT_FOUND')) {
+      console.error('Wallet not found for deposit:', profile.user_id)
+      return { outcome: 'failed', status: 404, body: { error: 'Wallet not found' } }
+    }
+    console.error('Wallet credit error:', creditError)
+    return { outcome: 'failed', status: 500, body: { error: 'Failed to update wallet' } }
+  }
+
+  const deposit = credit as { balance: number; credited: number; held: number }
+  const newBalance = Number(deposit.balance)
+  const credited = Number(deposit.credited)
+  const held = Number(deposit.held)
+
+  // Create notification with fee breakdown
+  const amountPaid = isLegacy ? body.data?.amount : body.amount_paid
+  const settlementFee = isLegacy ? 0 : (body.settlement_fee ?? 0)
+  const feeMessage = settlementFee > 0
+    ? ` (₦${Number(amountPaid).toLocaleString()} received, ₦${Number(settlementFee).toLocaleString()} fee)`
+    : ''
+
+  if (credited > 0) {
+    await supabase.from('notifications').insert({
+      user_id: profile.user_id,
+      title: 'Deposit Successful',
+      message: `Your wallet has been credited with ₦${credited.toLocaleString()}${feeMessage}`,
+      type: 'success',
+    })
+  }
+
+  if (held > 0) {
+    const kyc = await getKycLimits(supabase, profile.user_id)
+    await supabase.from('notifications').insert({
+      user_id: profile.user_id,
+      title: 'Balance Limit Reached',
+      message: `₦${held.toLocaleString()} of your deposit is on hold because your balance would go over the ₦${kyc.max_balance.toLocaleString()} limit for ${kyc.name.toLowerCase()} accounts. Verify your BVN or NIN to receive it, or it will be credited once your balance has room.`,
+      type: 'warning',
+    })
+  }
+
+  // The deposit queued this user's wallet_credit top-up rules; buy them now
+  // rather than at the next scheduled sweep, which picks up a lost kick
+  await fetch(`${supabaseUrl}/functions/v1/run-auto-topups`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${supabaseServiceKey}`, 'Content-Type': 'application/json' },
+    body: '{}',
+    signal: AbortSignal.timeout(1500),
+  }).catch(() => {})
+
+  // Send push notification for credit alert
+  const pushTitle = '💰 Credit Alert!'
+  const heldMessage = held > 0 ? ` ₦${held.toLocaleString()} is on hold over your balance limit.` : ''
+  const pushBody = `₦${credited.toLocaleString()} has been credited to your wallet.${feeMessage ? ` ${feeMessage}` : ''}${heldMessage} New balance: ₦${newBalance.toLocaleString()}`
+
+  // Fetch user's push tokens
+  const { data: pushTokens } = await supabase
+    .from('push_subscriptions')
+    .select('endpoint')
+    .eq('user_id', profile.user_id)
+
+  if (pushTokens && pushTokens.length > 0) {
+    console.log(`Sending push notifications to ${pushTokens.length} device(s)`)
+
+    // Send push to all user's devices
+    for (const tokenRecord of pushTokens) {
+      try {
+        const pushResponse = await fetch(`${supabaseUrl}/functions/v1/send-push-notification`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({
+            token: tokenRecord.endpoint,
+            title: pushTitle,
+            body: pushBody,
+            data: {
+              type: 'credit',
+              amount: String(credited),
+              new_balance: String(newBalance),
+              transaction_reference: transactionReference,
+            },
+          }),
+        })
+
+        const pushResult = await pushResponse.json()
+        console.log('Push notification result:', pushResult)
+
+        // Clean up unregistered tokens
+        if (pushResult.errorCode === 'UNREGISTERED') {
+          console.log('Removing unregistered token:', tokenRecord.endpoint)
+          await supabase
+            .from('push_subscriptions')
+            .delete()
+            .eq('endpoint', tokenRecord.endpoint)
+        }
+      } catch (pushError) {
+        console.error('Push notification error:', pushError)
+      }
+    }
+  } else {
+    console.log('No push tokens found for user:', profile.user_id)
+  }
+
+  // === REFERRAL BONUS TRIGGER ===
+  // Check if this user was referred and if this deposit meets the threshold
+  try {
+    // Get referral settings
+    const { data: refSettings } = await supabase
+      .from('referral_settings')
+      .select('min_funding_amount, referrer_bonus, is_enabled, requires_approval')
+      .limit(1)
+      .single()
+
+    if (refSettings?.is_enabled) {
+      // Find the user's profile ID
+      const { data: userProfile } = await supabase
+        .from('profiles')
+        .select('id, referred_by')
+        .eq('user_id', profile.user_id)
+        .single()
+
+      if (userProfile?.referred_by) {
+        // Check if referral exists and hasn't been triggered yet
+        const { data: existingReferral } = await supabase
+          .from('referrals')
+          .select('id, funding_triggered_at, status')
+          .eq('referee_id', userProfile.id)
+          .maybeSingle()
+
+        // Only trigger if not already triggered and amount meets threshold
+        if (existingReferral && !existingReferral.funding_triggered_at && Number(amount) >= Number(refSettings.min_funding_amount)) {
+          console.log('Triggering referral bonus for:', existingReferral.id)
+
+          // Update referral with funding info
+          await supabase
+            .from('referrals')
+            .update({
+              funding_amount: amount,
+              funding_triggered_at: new Date().toISOString(),
+              status: 'completed',
+              referrer_bonus: refSettings.referrer_bonus,
+            })
+            .eq('id', existingReferral.id)
+
+          // If auto-approval is enabled (requires_approval = false), pay immediately
+          if (!refSettings.requires_approval) {
+            // Get referrer's user_id
+            const { data: referrerProfile } = await supabase
+              .from('profiles')
+              .select('user_id')
+              .eq('id', userProfile.referred_by)
+              .single()
+
+            if (referrerProfile) {
+              // Credit the referrer's wallet through the ledger
+              const { error: bonusError } = await supabase.rpc('credit_wallet', {
+                p_user_id: referrerProfile.user_id,
+                p_amount: refSettings.referrer_bonus,
+                p_category: 'referral_bonus',
+                p_description: 'Referral bonus',
+                p_reference: `REF-BONUS-${existingReferral.id}`,
+                p_contra_account: 'referral_bonus',
+              })
+
+              if (bonusError) {
+                throw bonusError
+              }
+
+              // Update referral to paid
+              await supabase
+                .from('referrals')
+                .update({
+                  status: 'bonus_paid',
+                  bonus_paid_at: new Date().toISOString(),
+                })
+                .eq('id', existingReferral.id)
+
+              // Notify referrer
+              await supabase
+                .from('notifications')
+                .insert({
+                  user_id: referrerProfile.user_id,
+                  title: 'Referral Bonus Received! 🎉',
+                  message: `You've earned ₦${refSettings.referrer_bonus} from your referral!`,
+                  type: 'success',
+                })
+
+              console.log('Auto-approved referral bonus paid:', existingReferral.id)
+            }
+          } else {
+            console.log('Referral marked for admin approval:', existingReferral.id)
+          }
+        }
+      }
+    }
+  } catch (refError) {
+    // Don't fail the webhook for referral errors - just log
+    console.error('Referral processing error (non-fatal):', refError)
+  }
+
+  console.log('Payment processed successfully:', {
+    user_id: profile.user_id,
+    amount,
+    new_balance: newBalance,
+    transaction_reference: transactionReference,
+  })
+
+  return { outcome: 'processed', status: 200, body: { success: true, message: 'Payment processed successfully' } }
+}
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OTP_TTL_MINUTES, generateOtp, hashOtp, otpMatches } from './otp.ts'
+import { getSmsSender } from './sms/index.ts'
+
+export type PhoneOtpPurpose = 'verify_phone' | 'change_email' | 'reset_pin' | 'new_device'
+
+export const PHONE_OTP_PURPOSES: PhoneOtpPurpose[] = ['verify_phone', 'change_email', 'reset_pin', 'new_device']
+
+// What the code unlocks, as it reads in the SMS
+const PURPOSE_TEXT: Record<PhoneOtpPurpose, string> = {
+  verify_phone: 'to verify your phone number',
+  change_email: 'to change your email address',
+  reset_pin: 'to reset your transaction PIN',
+  new_device: 'to set up a new device',
+}
+
+const SEND_ERRORS: Record<string, { error: string; retryAfter: number }> = {
+  OTP_SEND_TOO_SOON: { error: 'Please wait a minute before requesting another code', retryAfter: 60 },
+  OTP_SEND_LIMIT_USER: { error: 'Too many codes requested. Try again in an hour.', retryAfter: 3600 },
+  OTP_SEND_LIMIT_PHONE: { error: 'Too many codes sent to this number. Try again in an hour.', retryAfter: 3600 },
+  OTP_SEND_LIMIT_IP: { error: 'Too many codes requested from your network. Try again in an hour.', retryAfter: 3600 },
+}
+
+export type PhoneOtpFailure = { ok: false; status: number; code: string; error: string; retry_after?: number }
+
+export type PhoneOtpSendResult = { ok: true; expires_at: string } | PhoneOtpFailure
+
+export type PhoneOtpCheckResult = { ok: true; otp_id: string; phone: string } | PhoneOtpFailure
+
+/** 0803****123, so a screen or log never shows the whole number */
+export function maskPhone(phone: string) {
+  return phone.length > 7 ? `${phone.slice(0, 4)}****${phone.slice(-3)}` : phone
+}
+
+/** Issue a code for `purpose` and text it to `phone`; earlier codes for the purpose stop working */
+export async function sendPhoneOtp(
+  adminSupabase: SupabaseClient,
+  userId: string,
+  phone: string,
+  purpose: PhoneOtpPurpose,
+  ipAddress: string | null
+): Promise<PhoneOtpSendResult> {
+  // Checked before a code is issued, so a misconfigured gateway never leaves one outstanding
+  const gateway = getSmsSender()
+  if (!gateway.ok) {
+    console.error('SMS gateway not configured:', gateway.error)
+    return { ok: false, status: 503, code: 'SMS_UNAVAILABLE', error: 'We could not send the SMS. Please try again shortly.' }
+  }
+  const sender = gateway.sender
+
+  const code = generateOtp()
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString()
+
+  const { data: otpId, error: issueError } = await adminSupabase.rpc('issue_phone_otp', {
+    p_user_id: userId,
+    p_phone: phone,
+    p_purpose: purpose,
+    p_otp_hash: await hashOtp(code, `${purpose}:${phone}`),
+    p_expires_at: expiresAt,
+    p_ip_address: ipAddress,
+  })
+
+  if (issueError) {
+    const known = Object.keys(SEND_ERRORS).find((c) => (issueError.message || '').includes(c))
+    if (known) {
+      return { ok: false, status: 429, code: known, error: SEND_ERRORS[known].error, retry_after: SEND_ERRORS[known].retryAfter }
+    }
+    console.error('Phone OTP issue error:', issueError)
+    return { ok: false, status: 500, code: 'OTP_ERROR', error: 'Failed to send code' }
+  }
+
+  const sent = await sender.send(
+    phone,
+    `Your Ramadan Data code ${PURPOSE_TEXT[purpose]} is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. Never share it with anyone.`
+  )
+
+  if (!sent.ok) {
+    // A code the user never received should not count as outstanding
+    await adminSupabase.from('phone_otps').update({ invalidated_at: new Date().toISOString() }).eq('id', otpId)
+    console.error('SMS send failed:', { provider: sender.name, purpose, error: sent.error })
+    return { ok: false, status: 502, code: 'SMS_FAILED', error: 'We could not send the SMS. Please try again shortly.' }
+  }
+
+  return { ok: true, expires_at: expiresAt }
+}
+
+/**
+ * Check a code against the user's latest one for `purpose` and use it up on a
+ * match. Every call counts as a guess; after 5 misses a new code is needed.
+ */
+export async function checkPhoneOtp(
+  adminSupabase: SupabaseClient,
+  userId: string,
+  purpose: PhoneOtpPurpose,
+  code: unknown
+): Promise<PhoneOtpCheckResult> {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) {
+    return { ok: false, status: 400, code: 'OTP_REQUIRED', error: 'Enter the 6-digit code we sent you' }
+  }
+
+  const { data, error } = await adminSupabase
+    .rpc('claim_phone_otp_attempt', { p_user_id: userId, p_purpose: purpose })
+    .maybeSingle()
+
+  if (error) {
+    const msg = error.message || ''
+    if (msg.includes('OTP_NOT_FOUND')) {
+      return { ok: false, status: 400, code: 'OTP_EXPIRED', error: 'This code has expired. Request a new one.' }
+    }
+    if (msg.includes('OTP_TOO_MANY_ATTEMPTS')) {
+      return { ok: false, status: 429, code: 'OTP_TOO_MANY_ATTEMPTS', error: 'Too many incorrect attempts. Request a new code.' }
+    }
+    console.error('Phone OTP attempt error:', error)
+    return { ok: false, status: 500, code: 'OTP_ERROR', error: 'Failed to verify code' }
+  }
+
+  const stored = data as { otp_id: string; phone: string; otp_hash: string; attempts_remaining: number }
+  if (!(await otpMatches(code, `${purpose}:${stored.phone}`, stored.otp_hash))) {
+    const remaining = stored.attempts_remaining
+    return {
+      ok: false,
+      status: 400,
+      code: 'INVALID_OTP',
+      error: remaining > 0
+        ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+        : 'Incorrect code. Request a new one.',
+    }
+  }
+
+  await adminSupabase.from('phone_otps').update({ used_at: new Date().toISOString() }).eq('id', stored.otp_id)
+  return { ok: true, otp_id: stored.otp_id, phone: stored.phone }
+}
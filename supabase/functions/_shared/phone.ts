@@ -0,0 +1,79 @@
+// Nigerian mobile number prefixes by network. Keep in sync with src/lib/phone.ts.
+// A few 0702 blocks are split between operators, so those are listed by their
+// five-digit prefix; detection always prefers the longest match.
+export const NETWORK_PREFIXES: Record<string, string[]> = {
+  mtn: [
+    '07025', '07026', '0703', '0704', '0706', '0707', '0803', '0806', '0810', '0813', '0814', '0816',
+    '0903', '0906', '0913', '0916',
+  ],
+  airtel: ['0701', '0708', '0802', '0808', '0812', '0901', '0902', '0904', '0907', '0911', '0912'],
+  glo: ['0705', '0805', '0807', '0811', '0815', '0905', '0915'],
+  '9mobile': ['0809', '0817', '0818', '0908', '0909'],
+}
+
+// Allocated to operators we cannot vend to (Smile, Multi-Links, Starcomms, ...)
+const UNSUPPORTED_PREFIXES = ['07020', '07021', '07022', '07023', '07024', '07027', '07028', '07029', '0709']
+
+const MOBILE_RANGES = ['070', '080', '081', '090', '091']
+
+export type PhoneCheck =
+  | { ok: true; phone: string; detectedNetwork: string | null; ported: boolean }
+  | { ok: false; code: 'INVALID_PHONE' | 'UNSUPPORTED_NETWORK' | 'NETWORK_MISMATCH'; error: string; detectedNetwork?: string }
+
+/** Normalize +234/234/0-prefixed input to 11 digits starting with 0 */
+export function normalizePhone(raw: string): string | null {
+  let digits = (raw || '').replace(/\D/g, '')
+  if (digits.startsWith('234')) digits = '0' + digits.slice(3)
+  else if (digits.length === 10 && !digits.startsWith('0')) digits = '0' + digits
+  return digits.length === 11 && MOBILE_RANGES.some(p => digits.startsWith(p)) ? digits : null
+}
+
+/** The network a number was originally allocated to, or null when the prefix is unknown */
+export function detectNetwork(phone: string): string | null {
+  let best: { network: string; length: number } | null = null
+  for (const [network, prefixes] of Object.entries(NETWORK_PREFIXES)) {
+    for (const prefix of prefixes) {
+      if (phone.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { network, length: prefix.length }
+      }
+    }
+  }
+  return best?.network ?? null
+}
+
+function isUnsupported(phone: string, detected: string | null): boolean {
+  const blocked = UNSUPPORTED_PREFIXES.filter(p => phone.startsWith(p))
+  if (blocked.length === 0) return false
+  // A longer supported prefix (e.g. 07025 for MTN) wins over a blocked one
+  const supported = detected ? NETWORK_PREFIXES[detected].filter(p => phone.startsWith(p)) : []
+  return Math.max(...blocked.map(p => p.length)) > Math.max(0, ...supported.map(p => p.length))
+}
+
+/**
+ * Validate a recipient for a purchase on `network`. A number whose prefix
+ * belongs to another network is rejected unless the caller confirms it was
+ * ported; numbers on prefixes we don't know yet are accepted as they are.
+ */
+export function checkRecipient(raw: string, network: string, ported = false): PhoneCheck {
+  const phone = normalizePhone(raw)
+  if (!phone) return { ok: false, code: 'INVALID_PHONE', error: 'Invalid phone number format' }
+
+  const detected = detectNetwork(phone)
+  if (isUnsupported(phone, detected)) {
+    return { ok: false, code: 'UNSUPPORTED_NETWORK', error: 'This number is on a network we do not support' }
+  }
+
+  if (detected && detected !== network.toLowerCase()) {
+    if (!ported) {
+      return {
+        ok: false,
+        code: 'NETWORK_MISMATCH',
+        error: `${phone} looks like a ${detected.toUpperCase()} number. If it was ported to ${network.toUpperCase()}, confirm and try again.`,
+        detectedNetwork: detected,
+      }
+    }
+    return { ok: true, phone, detectedNetwork: detected, ported: true }
+  }
+
+  return { ok: true, phone, detectedNetwork: detected, ported: false }
+}
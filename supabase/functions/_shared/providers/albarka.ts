@@ -0,0 +1,226 @@
+import type {
+  AirtimePurchaseRequest,
+  BalanceResult,
+  CallbackParseResult,
+  DataPurchaseRequest,
+  ProviderResult,
+  StatusQuery,
+  VtuProvider,
+} from './types.ts'
+import { NETWORK_IDS, callFailed, failed, isSuccessMessage, normalizeStatus, parseCallbackPayload, providerFetch, readJson, textOf, unsupported, type ProviderPayload } from './utils.ts'
+
+const BASE_URL = 'https://albarkasub.com/api'
+
+type SessionResult =
+  | { ok: true; accessToken: string; data: ProviderPayload }
+  | { ok: false; error: string; raw?: unknown }
+
+// POST /api/user with Basic auth returns
+// { "status": "success", "AccessToken": "...", "balance": "...", "username": "..." }
+async function openSession(): Promise<SessionResult> {
+  const username = Deno.env.get('ALBARKA_USERNAME')
+  const password = Deno.env.get('ALBARKA_PASSWORD')
+
+  if (!username || !password) {
+    console.error('Missing Albarka credentials')
+    return { ok: false, error: 'Albarka API credentials not configured' }
+  }
+
+  console.log('Fetching Albarka AccessToken...')
+  const response = await providerFetch(`${BASE_URL}/user`, {
+    method: 'POST',
+    headers: { 'Authorization': `Basic ${btoa(`${username}:${password}`)}` }
+  })
+
+  const text = await response.text()
+  console.log('Albarka token raw response:', { status: response.status, body: text.substring(0, 500) })
+
+  let data: ProviderPayload
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'Invalid response from Albarka auth endpoint', raw: text.substring(0, 200) }
+  }
+
+  const accessToken = textOf(data, 'AccessToken')
+  if (data.status !== 'success' || !accessToken) {
+    return { ok: false, error: textOf(data, 'message') || 'Failed to get Albarka AccessToken', raw: data }
+  }
+
+  return { ok: true, accessToken, data }
+}
+
+function isFailurePayload(data: ProviderPayload) {
+  return data.status === 'failed' || data.status === 'fail' || data.Status === 'failed' || data.Status === 'fail' || data.error
+}
+
+export const albarkaProvider: VtuProvider = {
+  name: 'albarka',
+
+  async purchaseData({ plan, phone_number, reference }: DataPurchaseRequest): Promise<ProviderResult> {
+    try {
+      if (!plan.plan_id) {
+        return failed('Plan mapping missing (plan_id). Please choose another plan.')
+      }
+
+      const networkId = NETWORK_IDS[plan.network.toLowerCase()]
+      if (!networkId) return failed('Invalid network for Albarka')
+
+      const session = await openSession()
+      if (!session.ok) return failed(session.error, session.raw)
+      console.log('Albarka AccessToken obtained successfully, balance:', session.data.balance)
+
+      const payload = {
+        network: networkId,
+        phone: phone_number,
+        data_plan: plan.plan_id,
+        bypass: false,
+        'request-id': reference
+      }
+      console.log('Albarka data request payload:', payload)
+
+      const response = await providerFetch(`${BASE_URL}/data`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${session.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(payload)
+      })
+
+      const responseText = await response.text()
+      console.log('Albarka data raw response:', { status: response.status, body: responseText.substring(0, 500) })
+
+      let data: ProviderPayload
+      try {
+        data = JSON.parse(responseText)
+      } catch {
+        return failed('Invalid response from Albarka data endpoint', responseText.substring(0, 200), response.status)
+      }
+
+      if (isFailurePayload(data)) {
+        return failed(textOf(data, 'message', 'response', 'api_response', 'error') || 'Albarka API error', data, response.status)
+      }
+
+      return {
+        status: data.status === 'success' ? 'success' : 'pending',
+        transaction_id: textOf(data, 'request-id', 'ident', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('Albarka', error)
+    }
+  },
+
+  async purchaseAirtime({ network, phone_number, amount, reference }: AirtimePurchaseRequest): Promise<ProviderResult> {
+    try {
+      const apiToken = Deno.env.get('ALBARKA_API_TOKEN')
+      if (!apiToken) return failed('Albarka API token not configured')
+
+      const networkId = NETWORK_IDS[network]
+      if (!networkId) return failed('Invalid network')
+
+      console.log('Calling Albarka Airtime API:', { network: networkId, phone: phone_number, amount })
+
+      const response = await providerFetch('https://app.albarkasub.com/api/topup/', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${apiToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          network: networkId,
+          phone: phone_number,
+          amount,
+          bypass: false,
+          'request-id': reference
+        })
+      })
+
+      const data = await readJson(response)
+      console.log('Albarka Airtime API response:', data)
+
+      if (!response.ok || data.error || data.Status === 'failed') {
+        return failed(textOf(data, 'api_response', 'message', 'error') || 'Albarka API error', data, response.status)
+      }
+
+      // Albarka returns Status: 'successful' on success
+      const isSuccess = data.Status === 'successful' || data.status === 'success' ||
+                        isSuccessMessage(data) || (response.ok && !data.error && data.ident)
+
+      return {
+        status: isSuccess ? 'success' : 'pending',
+        transaction_id: textOf(data, 'ident', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('Albarka Airtime', error)
+    }
+  },
+
+  async verifyMeter() {
+    return { verified: false, error: 'Meter verification is not supported by albarka' }
+  },
+
+  async verifySmartcard() {
+    return { verified: false, error: 'Smartcard verification is not supported by albarka' }
+  },
+
+  async purchaseCable() {
+    return unsupported('albarka', 'Cable subscription')
+  },
+
+  async purchaseElectricity() {
+    return unsupported('albarka', 'Electricity purchase')
+  },
+
+  async purchaseExamPin() {
+    return unsupported('albarka', 'Exam PIN purchase')
+  },
+
+  async queryStatus({ reference, category }: StatusQuery): Promise<ProviderResult> {
+    try {
+      const session = await openSession()
+      if (!session.ok) return { status: 'pending', error: session.error, raw: session.raw }
+
+      // Orders are looked up by the request-id we sent with the purchase
+      const path = category === 'airtime' ? 'topup' : 'data'
+      const response = await providerFetch(`${BASE_URL}/${path}/?request-id=${encodeURIComponent(reference)}`, {
+        headers: { 'Authorization': `Token ${session.accessToken}` }
+      })
+      const data = await readJson(response)
+
+      if (!response.ok) {
+        return { status: 'pending', error: textOf(data, 'message', 'error') || 'Requery failed', raw: data }
+      }
+
+      const status = normalizeStatus(data.Status ?? data.status)
+      return {
+        status,
+        error: status === 'failed' ? (textOf(data, 'api_response', 'message') || 'Failed at provider') : undefined,
+        transaction_id: textOf(data, 'request-id', 'ident', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return { ...callFailed('Albarka Requery', error), status: 'pending' }
+    }
+  },
+
+  async getBalance(): Promise<BalanceResult> {
+    try {
+      const session = await openSession()
+      if (!session.ok) return { balance: null, error: session.error, raw: session.raw }
+
+      const balance = Number(session.data.balance)
+      return { balance: Number.isFinite(balance) ? balance : null, raw: { username: session.data.username, balance: session.data.balance } }
+    } catch (error: unknown) {
+      console.error('Albarka balance error:', error)
+      return { balance: null, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  // Albarka callbacks echo our reference as request-id: { "request-id", status, response }
+  parseCallback(body: unknown): CallbackParseResult {
+    return parseCallbackPayload(body, { referenceKeys: ['request-id'], messageKeys: ['response', 'message'] })
+  },
+}
@@ -0,0 +1,255 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider } from './index.ts'
+import type { FailureKind, ProviderResult, VtuProvider } from './types.ts'
+
+export type FailoverProduct = 'data' | 'airtime' | 'cable' | 'electricity'
+
+export interface FailoverRule {
+  is_enabled: boolean
+  allow_price_change: boolean
+}
+
+/** One way of fulfilling the order: a provider plus the row that maps it (data plan, airtime plan, service mapping) */
+export interface FailoverCandidate<T> {
+  id: string
+  provider: string
+  /** What the user pays when this candidate fulfils the order */
+  price: number
+  item: T
+}
+
+export interface FailoverAttempt {
+  provider: string
+  candidate_id: string
+  price: number
+  status: ProviderResult['status'] | 'skipped'
+  error?: string
+  failure_kind?: FailureKind
+  provider_transaction_id?: string
+  attempted_at: string
+  duration_ms: number
+}
+
+export interface FailoverOutcome<T, R extends ProviderResult> {
+  result: R
+  /** The candidate that produced `result`; null when nothing could be attempted */
+  candidate: FailoverCandidate<T> | null
+  attempts: FailoverAttempt[]
+}
+
+const DEFAULT_RULE: FailoverRule = { is_enabled: true, allow_price_change: false }
+
+// Problems another provider may not share. A 'rejected' request (bad number,
+// invalid amount) would be rejected everywhere, so it ends the walk.
+const FAILOVER_KINDS: FailureKind[] = ['server_error', 'provider_balance', 'plan_unavailable', 'unsupported']
+// The provider may have taken the order before the call broke off. Sending it
+// to another provider could deliver it twice, so it is left pending for requery.
+const AMBIGUOUS_KINDS: FailureKind[] = ['timeout', 'network']
+
+export function shouldFailover(result: ProviderResult) {
+  return result.status === 'failed' && !!result.failure_kind && FAILOVER_KINDS.includes(result.failure_kind)
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export async function loadFailoverRule(admin: SupabaseClient, product: FailoverProduct): Promise<FailoverRule> {
+  const { data, error } = await admin
+    .from('failover_rules')
+    .select('is_enabled, allow_price_change')
+    .eq('product', product)
+    .maybeSingle()
+
+  if (error) console.error('Failover rule lookup error:', error)
+  return data ?? DEFAULT_RULE
+}
+
+/**
+ * Provider rank from api_providers (lower priority first). Providers missing
+ * from the table rank last; explicitly inactive ones map to null and are skipped.
+ */
+async function loadProviderRanks(admin: SupabaseClient) {
+  const { data, error } = await admin
+    .from('api_providers')
+    .select('name, is_active, priority')
+    .order('priority', { ascending: true })
+
+  if (error) console.error('API provider lookup error:', error)
+
+  const ranks = new Map<string, number | null>()
+  ;(data ?? []).forEach((row: { name: string; is_active: boolean }, index: number) => {
+    ranks.set(row.name.toLowerCase(), row.is_active ? index : null)
+  })
+  return (provider: string) => {
+    const rank = ranks.get(provider.toLowerCase())
+    return rank === undefined ? Number.MAX_SAFE_INTEGER : rank
+  }
+}
+
+/**
+ * Order the candidates for a purchase: the primary candidate first, then the
+ * alternatives by provider priority. Alternatives at a different price are only
+ * kept when the product's rule allows failover to change the price.
+ */
+export async function planFailover<T>(
+  admin: SupabaseClient,
+  product: FailoverProduct,
+  primary: FailoverCandidate<T>,
+  alternatives: FailoverCandidate<T>[]
+): Promise<FailoverCandidate<T>[]> {
+  const [rule, rankOf] = await Promise.all([loadFailoverRule(admin, product), loadProviderRanks(admin)])
+
+  const ordered = rule.is_enabled
+    ? alternatives
+        .filter((c) => c.id !== primary.id && rankOf(c.provider) !== null)
+        .filter((c) => rule.allow_price_change || roundMoney(c.price) === roundMoney(primary.price))
+        .sort((a, b) =>
+          (rankOf(a.provider)! - rankOf(b.provider)!) ||
+          (Math.abs(a.price - primary.price) - Math.abs(b.price - primary.price))
+        )
+    : []
+
+  return rankOf(primary.provider) === null ? ordered : [primary, ...ordered]
+}
+
+/**
+ * Keeps the wallet charge for a pending transaction in line with the price of
+ * the candidate being attempted. Extra charges are posted as ledger debits on
+ * the same transaction; refunds reverse those first, then the original debit.
+ */
+export function createChargeAdjuster(
+  admin: SupabaseClient,
+  ctx: { userId: string; transactionId: string; debitEntryId: string; reference: string; amount: number; description: string }
+) {
+  let charged = roundMoney(ctx.amount)
+  const extras: { id: string; remaining: number }[] = []
+
+  async function refund(amount: number) {
+    let left = amount
+    for (const extra of [...extras].reverse()) {
+      if (left <= 0) break
+      const take = roundMoney(Math.min(left, extra.remaining))
+      if (take <= 0) continue
+      const { error } = await admin.rpc('reverse_entry', {
+        p_entry_id: extra.id,
+        p_amount: take,
+        p_description: `Price adjustment refund: ${ctx.description}`,
+      })
+      if (error) throw error
+      extra.remaining = roundMoney(extra.remaining - take)
+      charged = roundMoney(charged - take)
+      left = roundMoney(left - take)
+    }
+    if (left > 0) {
+      const { error } = await admin.rpc('reverse_entry', {
+        p_entry_id: ctx.debitEntryId,
+        p_amount: left,
+        p_description: `Price adjustment refund: ${ctx.description}`,
+      })
+      if (error) throw error
+      charged = roundMoney(charged - left)
+    }
+  }
+
+  return {
+    get charged() {
+      return charged
+    },
+
+    /** Returns false when the wallet cannot cover a higher price */
+    async adjustTo(price: number): Promise<boolean> {
+      const target = roundMoney(price)
+      const difference = roundMoney(target - charged)
+      if (difference === 0) return true
+
+      try {
+        if (difference > 0) {
+          const { data, error } = await admin.rpc('post_wallet_journal', {
+            p_user_id: ctx.userId,
+            p_entry_type: 'debit',
+            p_amount: difference,
+            p_contra_account: 'sales',
+            p_transaction_id: ctx.transactionId,
+            p_reference: ctx.reference,
+            p_description: `Price adjustment: ${ctx.description}`,
+          })
+          if (error) {
+            if (!(error.message || '').includes('INSUFFICIENT_BALANCE')) console.error('Price adjustment error:', error)
+            return false
+          }
+          extras.push({ id: data as string, remaining: difference })
+          charged = target
+        } else {
+          // refund() lowers charged per reversal, so a partial refund still matches the ledger
+          await refund(-difference)
+        }
+      } catch (error) {
+        console.error('Price adjustment error:', error)
+        return false
+      }
+
+      return true
+    },
+  }
+}
+
+type ChargeAdjuster = ReturnType<typeof createChargeAdjuster>
+
+/**
+ * Try each candidate in order until one succeeds, is pending, or fails in a way
+ * another provider would not fix. A timeout or dropped connection comes back
+ * as pending, since the provider may still deliver. Every call is recorded in `attempts`. When a
+ * charge adjuster is given, the wallet is re-priced before each attempt; refund
+ * a failed purchase with reverse_transaction so any adjustments are undone too.
+ */
+export async function runWithFailover<T, R extends ProviderResult>(
+  candidates: FailoverCandidate<T>[],
+  call: (provider: VtuProvider, candidate: FailoverCandidate<T>) => Promise<R>,
+  charge?: ChargeAdjuster
+): Promise<FailoverOutcome<T, R>> {
+  const attempts: FailoverAttempt[] = []
+  let result = { status: 'failed', error: 'No provider is available for this purchase', failure_kind: 'unsupported' } as R
+  let used: FailoverCandidate<T> | null = null
+
+  for (const candidate of candidates) {
+    const attemptedAt = new Date()
+    const record = (fields: Partial<FailoverAttempt>) => attempts.push({
+      provider: candidate.provider,
+      candidate_id: candidate.id,
+      price: candidate.price,
+      status: 'skipped',
+      attempted_at: attemptedAt.toISOString(),
+      duration_ms: Date.now() - attemptedAt.getTime(),
+      ...fields,
+    })
+
+    const provider = getProvider(candidate.provider)
+    if (!provider) {
+      record({ error: 'Provider adapter not registered', failure_kind: 'unsupported' })
+      continue
+    }
+
+    if (charge && !(await charge.adjustTo(candidate.price))) {
+      record({ error: 'Wallet cannot cover the price difference' })
+      continue
+    }
+
+    result = await call(provider, candidate)
+    if (result.status === 'failed' && result.failure_kind && AMBIGUOUS_KINDS.includes(result.failure_kind)) {
+      result = { ...result, status: 'pending' }
+    }
+    used = candidate
+    record({
+      status: result.status,
+      error: result.error,
+      failure_kind: result.failure_kind,
+      provider_transaction_id: result.transaction_id,
+    })
+
+    if (!shouldFailover(result)) break
+    console.log('Provider failed over:', { provider: candidate.provider, failure_kind: result.failure_kind, error: result.error })
+  }
+
+  return { result, candidate: used, attempts }
+}
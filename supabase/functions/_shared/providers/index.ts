@@ -0,0 +1,41 @@
+import { albarkaProvider } from './albarka.ts'
+import { isquareProvider } from './isquare.ts'
+import { rgcProvider } from './rgc.ts'
+import type { VtuProvider } from './types.ts'
+
+export type {
+  AirtimePurchaseRequest,
+  BalanceResult,
+  CablePurchaseRequest,
+  CallbackParseResult,
+  DataPlanRef,
+  DataPurchaseRequest,
+  ElectricityPurchaseRequest,
+  ElectricityPurchaseResult,
+  ExamPinPurchaseRequest,
+  ExamPinPurchaseResult,
+  FailureKind,
+  ProviderResult,
+  ProviderStatus,
+  StatusQuery,
+  VerifyResult,
+  VtuProvider,
+} from './types.ts'
+
+// Keys match the `provider` / `api_provider` values stored on plan and product rows.
+// Registering a new adapter here is all a buy-* function needs to start using it.
+const PROVIDERS: Record<string, VtuProvider> = {
+  [isquareProvider.name]: isquareProvider,
+  [rgcProvider.name]: rgcProvider,
+  [albarkaProvider.name]: albarkaProvider,
+}
+
+export const DEFAULT_PROVIDER = isquareProvider.name
+
+export function getProvider(name: string | null | undefined): VtuProvider | null {
+  return PROVIDERS[(name || DEFAULT_PROVIDER).toLowerCase()] ?? null
+}
+
+export function listProviders(): VtuProvider[] {
+  return Object.values(PROVIDERS)
+}
@@ -0,0 +1,346 @@
+import type {
+  AirtimePurchaseRequest,
+  BalanceResult,
+  CallbackParseResult,
+  CablePurchaseRequest,
+  DataPurchaseRequest,
+  ElectricityPurchaseRequest,
+  ElectricityPurchaseResult,
+  ExamPinPurchaseRequest,
+  ExamPinPurchaseResult,
+  ProviderResult,
+  StatusQuery,
+  VerifyResult,
+  VtuProvider,
+} from './types.ts'
+import { NETWORK_IDS, callFailed, failed, isSuccessMessage, normalizeStatus, objectOf, parseCallbackPayload, providerFetch, readJson, textOf, type ProviderPayload } from './utils.ts'
+import { callbackReferenceSignature } from '../webhook-security.ts'
+
+const BASE_URL = 'https://isquaredata.com/api'
+
+function getAuthHeader(): string | null {
+  const username = Deno.env.get('ISQUARE_USERNAME')
+  const password = Deno.env.get('ISQUARE_PASSWORD')
+  if (!username || !password) return null
+  return `Basic ${btoa(`${username}:${password}`)}`
+}
+
+async function post(path: string, body: Record<string, unknown>) {
+  const auth = getAuthHeader()
+  if (!auth) return null
+
+  const response = await providerFetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': auth,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+
+  return { response, data: await readJson(response) }
+}
+
+function isErrorPayload(response: Response, data: ProviderPayload) {
+  return !response.ok || data.error || data.status === 'error' || data.status === 'fail' || data.status === 'failed'
+}
+
+// iSquare returns validation errors as field arrays, e.g. { network: ["..."] }
+function fieldErrors(data: ProviderPayload, fields: string[]) {
+  return fields.reduce((acc: string[], field) => {
+    const errors = data[field]
+    if (Array.isArray(errors)) acc.push(...errors.map(String))
+    return acc
+  }, [])
+}
+
+// iSquare calls back whatever URL it is given and cannot add headers, so the
+// URL carries a signature of this order's reference (never the secret itself)
+async function webhookUrl(reference: string) {
+  const url = new URL(`${Deno.env.get('SUPABASE_URL')}/functions/v1/data-webhook`)
+  url.searchParams.set('provider', 'isquare')
+  const secret = Deno.env.get('ISQUARE_CALLBACK_SECRET')
+  if (secret) url.searchParams.set('sig', await callbackReferenceSignature(secret, 'isquare', reference))
+  return url.toString()
+}
+
+export const isquareProvider: VtuProvider = {
+  name: 'isquare',
+
+  async purchaseData({ plan, phone_number, reference }: DataPurchaseRequest): Promise<ProviderResult> {
+    try {
+      if (plan.service_id == null || plan.plan_id == null) {
+        return failed('Plan mapping missing (service_id/plan_id). Please choose another plan.')
+      }
+
+      console.log('Calling iSquare API:', { service_id: plan.service_id, plan_id: plan.plan_id, phone: phone_number })
+
+      const result = await post('/data/buy/', {
+        service_id: plan.service_id,
+        // iSquare expects `plan` in some versions, but other endpoints use `plan_id`.
+        // Send both to avoid mismatches across iSquare deployments.
+        plan: plan.plan_id,
+        plan_id: plan.plan_id,
+        phone_number,
+        reference,
+        webhook_url: await webhookUrl(reference)
+      })
+      if (!result) return failed('API credentials not configured')
+
+      const { response, data } = result
+      console.log('iSquare API response:', data)
+
+      const validationPlanError = fieldErrors(data, ['plan']).join(', ')
+      if (isErrorPayload(response, data) || validationPlanError) {
+        return failed(textOf(data, 'message', 'error') || validationPlanError || 'iSquare API error', data, response.status)
+      }
+
+      // iSquare returns various success indicators
+      const isSuccess = data.status === 'success' || data.status === 'completed' ||
+                        isSuccessMessage(data) || (response.ok && !data.error && data.transaction_id)
+
+      return {
+        status: isSuccess ? 'success' : 'pending',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('iSquare', error)
+    }
+  },
+
+  async purchaseAirtime({ network, phone_number, amount, reference }: AirtimePurchaseRequest): Promise<ProviderResult> {
+    try {
+      const networkId = NETWORK_IDS[network]
+      if (!networkId) return failed('Invalid network')
+
+      console.log('Calling iSquare Airtime API:', { network, networkId, phone: phone_number, amount })
+
+      const result = await post('/airtime/buy/', {
+        network: networkId,
+        amount,
+        phone_number,
+        reference,
+        webhook_url: await webhookUrl(reference)
+      })
+      if (!result) return failed('API credentials not configured')
+
+      const { response, data } = result
+      console.log('iSquare Airtime API response:', data)
+
+      const errors = fieldErrors(data, ['network', 'amount', 'phone_number'])
+      if (!response.ok || data.error || data.status === 'error' || errors.length > 0) {
+        return failed(errors.length > 0 ? errors.join('; ') : (textOf(data, 'message', 'error') || 'iSquare API error'), data, response.status)
+      }
+
+      return {
+        status: data.status === 'success' ? 'success' : 'pending',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('iSquare Airtime', error)
+    }
+  },
+
+  async verifyMeter(serviceId: number, meterNumber: string, meterType: string): Promise<VerifyResult> {
+    try {
+      console.log('Verifying meter:', { service_id: serviceId, meter: meterNumber, type: meterType })
+
+      const result = await post('/electricity/verify/', {
+        service_id: serviceId,
+        meter_number: meterNumber,
+        meter_type: meterType
+      })
+      if (!result) return { verified: false, error: 'API credentials not configured' }
+
+      const { response, data } = result
+      console.log('Verify response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return { verified: false, error: textOf(data, 'message', 'error') || 'Meter verification failed', raw: data }
+      }
+
+      return {
+        verified: true,
+        customer_name: textOf(data, 'customer_name', 'name') || 'Customer',
+        customer_address: textOf(data, 'address', 'customer_address') || '',
+        raw: data
+      }
+    } catch (error: unknown) {
+      console.error('Meter verification error:', error)
+      return { verified: false, error: 'Verification failed' }
+    }
+  },
+
+  async verifySmartcard(serviceId: number, smartcardNumber: string): Promise<VerifyResult> {
+    try {
+      console.log('Verifying smartcard:', { service_id: serviceId, card: smartcardNumber })
+
+      const result = await post('/cable/verify/', {
+        service_id: serviceId,
+        iuc_number: smartcardNumber
+      })
+      if (!result) return { verified: false, error: 'API credentials not configured' }
+
+      const { response, data } = result
+      console.log('Verify response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return { verified: false, error: textOf(data, 'message', 'error') || 'Smartcard verification failed', raw: data }
+      }
+
+      return {
+        verified: true,
+        customer_name: textOf(data, 'customer_name', 'name') || 'Customer',
+        current_bouquet: textOf(data, 'current_bouquet', 'bouquet') || '',
+        due_date: textOf(data, 'due_date', 'expiry_date') || '',
+        raw: data
+      }
+    } catch (error: unknown) {
+      console.error('Smartcard verification error:', error)
+      return { verified: false, error: 'Verification failed' }
+    }
+  },
+
+  async purchaseCable({ service_id, plan_id, smartcard_number, reference }: CablePurchaseRequest): Promise<ProviderResult> {
+    try {
+      console.log('Buying cable:', { service_id, plan_id, card: smartcard_number })
+
+      const result = await post('/cable/buy/', {
+        service_id,
+        plan_id,
+        iuc_number: smartcard_number,
+        reference
+      })
+      if (!result) return failed('API credentials not configured')
+
+      const { response, data } = result
+      console.log('Purchase response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return failed(textOf(data, 'message', 'error') || 'Purchase failed', data, response.status)
+      }
+
+      return { status: 'success', transaction_id: textOf(data, 'transaction_id', 'id'), raw: data }
+    } catch (error: unknown) {
+      return callFailed('iSquare Cable', error)
+    }
+  },
+
+  async purchaseElectricity({ service_id, meter_number, meter_type, amount, reference }: ElectricityPurchaseRequest): Promise<ElectricityPurchaseResult> {
+    try {
+      console.log('Buying electricity:', { service_id, meter: meter_number, amount })
+
+      const result = await post('/electricity/buy/', {
+        service_id,
+        meter_number,
+        meter_type,
+        amount,
+        reference
+      })
+      if (!result) return failed('API credentials not configured')
+
+      const { response, data } = result
+      console.log('Purchase response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return failed(textOf(data, 'message', 'error') || 'Purchase failed', data, response.status)
+      }
+
+      return {
+        status: 'success',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        token: textOf(data, 'token', 'electricity_token'),
+        units: textOf(data, 'units'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('iSquare Electricity', error)
+    }
+  },
+
+  async purchaseExamPin({ service_id, reference }: ExamPinPurchaseRequest): Promise<ExamPinPurchaseResult> {
+    try {
+      console.log('Buying exam pin:', { service_id, reference })
+
+      const result = await post('/education/buy/', { service_id, reference })
+      if (!result) return failed('API credentials not configured')
+
+      const { response, data } = result
+      console.log('Purchase response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return failed(textOf(data, 'message', 'error') || 'Purchase failed', data, response.status)
+      }
+
+      return {
+        status: 'success',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        pin: textOf(data, 'pin', 'token', 'serial'),
+        serial: textOf(data, 'serial', 'serial_number'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('iSquare Education', error)
+    }
+  },
+
+  async queryStatus({ reference }: StatusQuery): Promise<ProviderResult> {
+    try {
+      const auth = getAuthHeader()
+      // Our misconfiguration says nothing about the order, so leave it for a later try
+      if (!auth) return { status: 'pending', error: 'API credentials not configured' }
+
+      const response = await providerFetch(`${BASE_URL}/transactions/?reference=${encodeURIComponent(reference)}`, {
+        headers: { 'Authorization': auth }
+      })
+      const data = await readJson(response)
+
+      if (!response.ok) {
+        return { status: 'pending', error: textOf(data, 'message', 'error') || 'Requery failed', raw: data }
+      }
+
+      // The endpoint returns either a single order or a list filtered by reference
+      const order = Array.isArray(data.results) ? objectOf(data.results[0]) : data
+      if (!order) {
+        return { status: 'pending', error: 'Transaction not found at provider', raw: data }
+      }
+
+      const status = normalizeStatus(order.status)
+      return {
+        status,
+        error: status === 'failed' ? (textOf(order, 'message', 'response') || 'Failed at provider') : undefined,
+        transaction_id: textOf(order, 'transaction_id', 'id'),
+        raw: order
+      }
+    } catch (error: unknown) {
+      return { ...callFailed('iSquare Requery', error), status: 'pending' }
+    }
+  },
+
+  async getBalance(): Promise<BalanceResult> {
+    try {
+      const auth = getAuthHeader()
+      if (!auth) return { balance: null, error: 'API credentials not configured' }
+
+      const response = await providerFetch(`${BASE_URL}/user/`, { headers: { 'Authorization': auth } })
+      const data = await readJson(response)
+
+      if (!response.ok) {
+        return { balance: null, error: textOf(data, 'message', 'error') || 'Balance lookup failed', raw: data }
+      }
+
+      const balance = Number(data.balance ?? data.wallet_balance)
+      return { balance: Number.isFinite(balance) ? balance : null, raw: data }
+    } catch (error: unknown) {
+      console.error('iSquare balance error:', error)
+      return { balance: null, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  // iSquare posts to the webhook_url sent with each order: { reference, status, message, ... }
+  parseCallback(body: unknown): CallbackParseResult {
+    return parseCallbackPayload(body, { referenceKeys: ['reference'], messageKeys: ['message', 'description'] })
+  },
+}
@@ -0,0 +1,182 @@
+import type {
+  AirtimePurchaseRequest,
+  BalanceResult,
+  CallbackParseResult,
+  DataPurchaseRequest,
+  ProviderResult,
+  StatusQuery,
+  VtuProvider,
+} from './types.ts'
+import { callFailed, failed, isSuccessMessage, normalizeStatus, objectOf, parseCallbackPayload, providerFetch, readJson, textOf, unsupported } from './utils.ts'
+
+const BASE_URL = 'https://api.rgcdata.com.ng/api/v2'
+
+export const rgcProvider: VtuProvider = {
+  name: 'rgc',
+
+  async purchaseData({ plan, phone_number }: DataPurchaseRequest): Promise<ProviderResult> {
+    try {
+      const apiKey = Deno.env.get('RGC_API_KEY')
+      if (!apiKey) return failed('RGC API key not configured')
+
+      if (!plan.product_id) {
+        return failed('Plan mapping missing (product_id). Please choose another plan.')
+      }
+
+      // RGC expects 'plan' as an integer (product_id) and 'mobile_number'
+      // e.g. { "plan": 6, "mobile_number": "08012345678" }
+      const planId = parseInt(plan.product_id, 10)
+      console.log('Calling RGC API:', { plan: planId, mobile_number: phone_number })
+
+      const response = await providerFetch(`${BASE_URL}/purchase/data`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          plan: planId,
+          mobile_number: phone_number
+        })
+      })
+
+      const data = await readJson(response)
+      console.log('RGC API response:', data)
+
+      if (!response.ok || data.error || data.status === 'error' || data.status === 'fail' || data.status === 'failed') {
+        return failed(textOf(data, 'message', 'error') || 'RGC API error', data, response.status)
+      }
+
+      // RGC returns various success indicators
+      const isSuccess = data.status === 'success' || data.status === 'completed' ||
+                        isSuccessMessage(data) || (response.ok && !data.error && (data.transaction_id || data.id))
+
+      return {
+        status: isSuccess ? 'success' : 'pending',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('RGC', error)
+    }
+  },
+
+  async purchaseAirtime({ network, phone_number, amount, reference }: AirtimePurchaseRequest): Promise<ProviderResult> {
+    try {
+      const apiKey = Deno.env.get('RGC_API_KEY')
+      if (!apiKey) return failed('RGC API key not configured')
+
+      if (!['mtn', 'airtel', 'glo', '9mobile'].includes(network)) {
+        return failed('Invalid network')
+      }
+
+      console.log('Calling RGC Airtime API:', { network, phone: phone_number, amount })
+
+      const response = await providerFetch('https://rgc.ng/api/airtime/buy', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          network,
+          amount,
+          phone: phone_number,
+          reference
+        })
+      })
+
+      const data = await readJson(response)
+      console.log('RGC Airtime API response:', data)
+
+      if (!response.ok || data.error || data.status === 'error') {
+        return failed(textOf(data, 'message', 'error') || 'RGC API error', data, response.status)
+      }
+
+      return {
+        status: data.status === 'success' ? 'success' : 'pending',
+        transaction_id: textOf(data, 'transaction_id', 'id'),
+        raw: data
+      }
+    } catch (error: unknown) {
+      return callFailed('RGC Airtime', error)
+    }
+  },
+
+  async verifyMeter() {
+    return { verified: false, error: 'Meter verification is not supported by rgc' }
+  },
+
+  async verifySmartcard() {
+    return { verified: false, error: 'Smartcard verification is not supported by rgc' }
+  },
+
+  async purchaseCable() {
+    return unsupported('rgc', 'Cable subscription')
+  },
+
+  async purchaseElectricity() {
+    return unsupported('rgc', 'Electricity purchase')
+  },
+
+  async purchaseExamPin() {
+    return unsupported('rgc', 'Exam PIN purchase')
+  },
+
+  async queryStatus({ reference, transaction_id }: StatusQuery): Promise<ProviderResult> {
+    try {
+      const apiKey = Deno.env.get('RGC_API_KEY')
+      // Our misconfiguration says nothing about the order, so leave it for a later try
+      if (!apiKey) return { status: 'pending', error: 'RGC API key not configured' }
+
+      // RGC data orders are keyed by its own transaction id; fall back to our reference
+      const id = transaction_id || reference
+      const response = await providerFetch(`${BASE_URL}/transactions/${encodeURIComponent(id)}`, {
+        headers: { 'Authorization': `Bearer ${apiKey}` }
+      })
+      const data = await readJson(response)
+
+      if (!response.ok) {
+        return { status: 'pending', error: textOf(data, 'message', 'error') || 'Requery failed', raw: data }
+      }
+
+      const order = objectOf(data.data) ?? data
+      const status = normalizeStatus(order.status)
+      return {
+        status,
+        error: status === 'failed' ? (textOf(order, 'message') || 'Failed at provider') : undefined,
+        transaction_id: textOf(order, 'transaction_id', 'id'),
+        raw: order
+      }
+    } catch (error: unknown) {
+      return { ...callFailed('RGC Requery', error), status: 'pending' }
+    }
+  },
+
+  async getBalance(): Promise<BalanceResult> {
+    try {
+      const apiKey = Deno.env.get('RGC_API_KEY')
+      if (!apiKey) return { balance: null, error: 'RGC API key not configured' }
+
+      const response = await providerFetch(`${BASE_URL}/user/balance`, {
+        headers: { 'Authorization': `Bearer ${apiKey}` }
+      })
+      const data = await readJson(response)
+
+      if (!response.ok) {
+        return { balance: null, error: textOf(data, 'message', 'error') || 'Balance lookup failed', raw: data }
+      }
+
+      const balance = Number(objectOf(data.data)?.balance ?? data.balance)
+      return { balance: Number.isFinite(balance) ? balance : null, raw: data }
+    } catch (error: unknown) {
+      console.error('RGC balance error:', error)
+      return { balance: null, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  // RGC callbacks: { reference, status, message, ... }; older deployments send transaction_reference
+  parseCallback(body: unknown): CallbackParseResult {
+    return parseCallbackPayload(body, { referenceKeys: ['reference', 'transaction_reference'], messageKeys: ['message', 'description'] })
+  },
+}
@@ -0,0 +1,121 @@
+// Normalized contract every VTU provider adapter implements.
+// buy-* functions only ever talk to providers through this interface.
+
+export type ProviderStatus = 'success' | 'pending' | 'failed'
+
+/**
+ * Why a call failed. server_error, provider_balance, plan_unavailable and
+ * unsupported are provider-side problems another provider may not have;
+ * rejected means the request itself was refused (bad number etc.). timeout
+ * and network leave it unknown whether the provider took the order.
+ */
+export type FailureKind =
+  | 'timeout'
+  | 'network'
+  | 'server_error'
+  | 'provider_balance'
+  | 'plan_unavailable'
+  | 'unsupported'
+  | 'rejected'
+
+export interface ProviderResult {
+  status: ProviderStatus
+  failure_kind?: FailureKind
+  /** Always set when status is 'failed'; on a pending requery it explains why the result was inconclusive */
+  error?: string
+  /** The provider's own id for the order, when it returns one */
+  transaction_id?: string
+  raw?: unknown
+}
+
+export interface ElectricityPurchaseResult extends ProviderResult {
+  token?: string
+  units?: string
+}
+
+export interface ExamPinPurchaseResult extends ProviderResult {
+  pin?: string
+  serial?: string
+}
+
+export interface VerifyResult {
+  verified: boolean
+  error?: string
+  customer_name?: string
+  customer_address?: string
+  current_bouquet?: string
+  due_date?: string
+  raw?: unknown
+}
+
+export interface BalanceResult {
+  balance: number | null
+  error?: string
+  raw?: unknown
+}
+
+/** The provider-specific identifiers of a data_plans row */
+export interface DataPlanRef {
+  network: string
+  service_id: number | null
+  plan_id: number | null
+  product_id: string | null
+}
+
+export interface DataPurchaseRequest {
+  plan: DataPlanRef
+  phone_number: string
+  reference: string
+}
+
+export interface AirtimePurchaseRequest {
+  network: string
+  phone_number: string
+  amount: number
+  reference: string
+}
+
+export interface CablePurchaseRequest {
+  service_id: number
+  plan_id: number
+  smartcard_number: string
+  reference: string
+}
+
+export interface ElectricityPurchaseRequest {
+  service_id: number
+  meter_number: string
+  meter_type: string
+  amount: number
+  reference: string
+}
+
+export interface ExamPinPurchaseRequest {
+  service_id: number
+  reference: string
+}
+
+export interface StatusQuery {
+  reference: string
+  transaction_id?: string
+  category?: string
+}
+
+/** A delivery-status callback checked against the provider's payload schema */
+export type CallbackParseResult =
+  | { ok: true; reference: string; status: ProviderStatus; message: string }
+  | { ok: false; error: string }
+
+export interface VtuProvider {
+  name: string
+  purchaseData(req: DataPurchaseRequest): Promise<ProviderResult>
+  purchaseAirtime(req: AirtimePurchaseRequest): Promise<ProviderResult>
+  verifyMeter(serviceId: number, meterNumber: string, meterType: string): Promise<VerifyResult>
+  verifySmartcard(serviceId: number, smartcardNumber: string): Promise<VerifyResult>
+  purchaseCable(req: CablePurchaseRequest): Promise<ProviderResult>
+  purchaseElectricity(req: ElectricityPurchaseRequest): Promise<ElectricityPurchaseResult>
+  purchaseExamPin(req: ExamPinPurchaseRequest): Promise<ExamPinPurchaseResult>
+  queryStatus(query: StatusQuery): Promise<ProviderResult>
+  getBalance(): Promise<BalanceResult>
+  parseCallback(body: unknown): CallbackParseResult
+}
@@ -0,0 +1,136 @@
+import type { CallbackParseResult, FailureKind, ProviderResult } from './types.ts'
+
+// Provider payloads are loosely shaped JSON; adapters narrow fields before using them
+export type ProviderPayload = Record<string, unknown>
+
+/** The first of the fields holding a non-empty string or a number, as text */
+export function textOf(data: ProviderPayload, ...fields: string[]): string | undefined {
+  for (const field of fields) {
+    const value = data[field]
+    if ((typeof value === 'string' && value) || typeof value === 'number') return String(value)
+  }
+  return undefined
+}
+
+/** A nested object, or undefined when the value is missing or not an object */
+export function objectOf(value: unknown): ProviderPayload | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as ProviderPayload : undefined
+}
+
+export const NETWORK_IDS: Record<string, number> = {
+  'mtn': 1,
+  'airtel': 2,
+  'glo': 3,
+  '9mobile': 4
+}
+
+const PROVIDER_TIMEOUT_MS = 30000
+
+/** fetch with a hard timeout so a hung provider cannot stall a purchase */
+export function providerFetch(url: string, init: RequestInit = {}) {
+  return fetch(url, { ...init, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) })
+}
+
+/** Parse a provider response, tolerating non-JSON bodies */
+export async function readJson(response: Response): Promise<ProviderPayload> {
+  const text = await response.text().catch(() => '')
+  try {
+    return JSON.parse(text)
+  } catch {
+    return { message: text || 'Invalid JSON from provider' }
+  }
+}
+
+const BALANCE_ERROR = /insufficient\s+(wallet\s+)?(balance|fund)|low\s+balance|balance\s+is\s+(too\s+)?low|top\s*up\s+your\s+(wallet|account)/i
+const PLAN_UNAVAILABLE_ERROR = /plan\s+is\s+either\s+currently\s+inactive\s+or\s+does\s+not\s+exist|plan\s+mapping\s+missing|plan\s+(is\s+)?(not\s+available|unavailable|disabled)/i
+
+export function classifyFailure(error: string, httpStatus?: number): FailureKind {
+  if (httpStatus && httpStatus >= 500) return 'server_error'
+  if (BALANCE_ERROR.test(error)) return 'provider_balance'
+  if (PLAN_UNAVAILABLE_ERROR.test(error)) return 'plan_unavailable'
+  return 'rejected'
+}
+
+export function failed(error: string, raw?: unknown, httpStatus?: number): ProviderResult & { status: 'failed'; error: string } {
+  return { status: 'failed', error, failure_kind: classifyFailure(error, httpStatus), raw }
+}
+
+export function callFailed(provider: string, error: unknown): ProviderResult & { status: 'failed'; error: string } {
+  console.error(`${provider} API call error:`, error)
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  const timedOut = error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')
+  return {
+    status: 'failed',
+    error: timedOut ? 'Provider timed out' : `API call failed: ${message}`,
+    failure_kind: timedOut ? 'timeout' : 'network',
+  }
+}
+
+export function unsupported(provider: string, operation: string): ProviderResult & { status: 'failed'; error: string } {
+  return { status: 'failed', error: `${operation} is not supported by ${provider}`, failure_kind: 'unsupported' }
+}
+
+export function isSuccessMessage(data: ProviderPayload) {
+  return typeof data.message === 'string' && data.message.toLowerCase().includes('success')
+}
+
+const SUCCESS_STATUSES = ['success', 'successful', 'completed', 'delivered']
+const FAILED_STATUSES = ['failed', 'fail', 'error', 'unsuccessful', 'refunded', 'reversed', 'cancelled']
+const PENDING_STATUSES = ['pending', 'processing', 'initiated', 'queued']
+
+/** Map the assorted status strings providers use onto our three states */
+export function normalizeStatus(value: unknown): 'success' | 'pending' | 'failed' {
+  const status = String(value ?? '').toLowerCase()
+  if (SUCCESS_STATUSES.includes(status)) return 'success'
+  if (FAILED_STATUSES.includes(status)) return 'failed'
+  return 'pending'
+}
+
+// Every key any provider uses to echo our reference back in a callback
+const CALLBACK_REFERENCE_KEYS = ['request-id', 'reference', 'transaction_reference']
+// Our references are generated ids (e.g. DATA-<timestamp>-<random>); anything else is not ours
+const CALLBACK_REFERENCE = /^[A-Za-z0-9_.:-]{4,100}$/
+
+/**
+ * Validate a delivery-status callback. Exactly one of the provider's reference
+ * keys must be present, no other provider's reference key may appear, the
+ * status must be one we recognise and message fields must be strings.
+ */
+export function parseCallbackPayload(
+  body: unknown,
+  schema: { referenceKeys: string[]; messageKeys: string[] }
+): CallbackParseResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, error: 'Payload must be a JSON object' }
+  }
+  const payload = body as ProviderPayload
+
+  const foreign = CALLBACK_REFERENCE_KEYS.filter((key) => !schema.referenceKeys.includes(key) && key in payload)
+  if (foreign.length > 0) return { ok: false, error: `Unexpected field: ${foreign.join(', ')}` }
+
+  const present = schema.referenceKeys.filter((key) => key in payload)
+  if (present.length !== 1) {
+    return { ok: false, error: `Expected exactly one of: ${schema.referenceKeys.join(', ')}` }
+  }
+  const reference = payload[present[0]]
+  if (typeof reference !== 'string' || !CALLBACK_REFERENCE.test(reference)) {
+    return { ok: false, error: `Invalid ${present[0]}` }
+  }
+
+  if (typeof payload.status !== 'string') return { ok: false, error: 'Missing status' }
+  const status = payload.status.toLowerCase()
+  if (![...SUCCESS_STATUSES, ...FAILED_STATUSES, ...PENDING_STATUSES].includes(status)) {
+    return { ok: false, error: `Unrecognised status: ${payload.status}` }
+  }
+
+  const badMessage = schema.messageKeys.find((key) => payload[key] != null && typeof payload[key] !== 'string')
+  if (badMessage) return { ok: false, error: `Invalid ${badMessage}` }
+  const messageKey = schema.messageKeys.find((key) => payload[key])
+
+  return {
+    ok: true,
+    reference,
+    status: normalizeStatus(status),
+    message: messageKey ? String(payload[messageKey]) : '',
+  }
+}
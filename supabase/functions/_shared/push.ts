@@ -0,0 +1,43 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/** Push to every device the user registered; tokens FCM no longer knows are removed */
+export async function sendPushToUser(
+  adminSupabase: SupabaseClient,
+  userId: string,
+  title: string,
+  body: string,
+  data: Record<string, string>
+) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  const { data: pushTokens } = await adminSupabase
+    .from('push_subscriptions')
+    .select('endpoint')
+    .eq('user_id', userId)
+
+  for (const tokenRecord of pushTokens || []) {
+    try {
+      const pushResponse = await fetch(`${supabaseUrl}/functions/v1/send-push-notification`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({ token: tokenRecord.endpoint, title, body, data }),
+      })
+
+      const pushResult = await pushResponse.json()
+
+      // Clean up unregistered tokens
+      if (pushResult.errorCode === 'UNREGISTERED') {
+        await adminSupabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('endpoint', tokenRecord.endpoint)
+      }
+    } catch (pushError) {
+      console.error('Push notification error:', pushError)
+    }
+  }
+}
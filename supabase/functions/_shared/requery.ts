@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider, type ProviderResult } from './providers/index.ts'
+import { metadataOf, providerOf, settlePendingTransaction, type PendingPurchase } from './settle-transaction.ts'
+
+// Purchases that can be left pending at a provider. Exam PINs are bought one
+// reference per PIN and settle synchronously, so they are not requeried.
+export const REQUERY_CATEGORIES = ['data', 'airtime', 'cable', 'electricity']
+
+export interface RequeryTarget extends PendingPurchase {
+  reference: string
+  created_at?: string
+}
+
+/** 'settled_elsewhere' means a webhook or another requery settled the purchase first */
+export type RequeryOutcome = 'completed' | 'failed' | 'pending' | 'settled_elsewhere'
+
+function providerTransactionIdOf(metadata: Record<string, unknown>) {
+  const apiResponse = metadata.api_response as { transaction_id?: unknown } | undefined
+  const id = metadata.provider_transaction_id ?? apiResponse?.transaction_id
+  return id == null ? undefined : String(id)
+}
+
+/**
+ * Ask the provider that served a pending purchase for its status and settle
+ * it when the answer is final. Inconclusive answers are recorded on the
+ * transaction as last_requery, unless the purchase is older than
+ * maxAgeHours: the provider is then taken never to deliver, and the
+ * purchase is failed and refunded.
+ */
+export async function requeryPendingTransaction(
+  supabase: SupabaseClient,
+  transaction: RequeryTarget,
+  resolvedBy: string,
+  maxAgeHours?: number
+): Promise<RequeryOutcome> {
+  const metadata = metadataOf(transaction)
+  const providerName = providerOf(metadata)
+  const provider = getProvider(providerName)
+
+  const result: ProviderResult = provider
+    ? await provider.queryStatus({
+        reference: transaction.reference,
+        transaction_id: providerTransactionIdOf(metadata),
+        category: transaction.category,
+      })
+    : { status: 'pending', error: `Provider adapter not registered: ${providerName}` }
+
+  const requeryCount = (Number(metadata.requery_count) || 0) + 1
+  const lastRequery = {
+    checked_at: new Date().toISOString(),
+    provider: provider?.name ?? providerName,
+    status: result.status,
+    error: result.error ?? null,
+  }
+
+  const expired = result.status === 'pending'
+    && maxAgeHours !== undefined
+    && !!transaction.created_at
+    && Date.now() - new Date(transaction.created_at).getTime() > maxAgeHours * 60 * 60 * 1000
+
+  if (result.status === 'pending' && !expired) {
+    await supabase
+      .from('transactions')
+      .update({ metadata: { ...metadata, requery_count: requeryCount, last_requery: lastRequery } })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+
+    return 'pending'
+  }
+
+  const settled = await settlePendingTransaction(supabase, transaction, {
+    status: result.status === 'success' ? 'completed' : 'failed',
+    reason: expired ? `Not confirmed by the provider within ${maxAgeHours} hours` : result.error,
+    metadata: {
+      resolved_by: resolvedBy,
+      resolved_at: lastRequery.checked_at,
+      requery_count: requeryCount,
+      last_requery: { ...lastRequery, raw: result.raw ?? null },
+      ...(expired ? { expired_after_hours: maxAgeHours } : {}),
+    },
+  })
+
+  if (!settled) return 'settled_elsewhere'
+  return result.status === 'success' ? 'completed' : 'failed'
+}
@@ -0,0 +1,95 @@
+// Run times for scheduled purchases and auto top-ups. Users pick times in
+// Nigeria, which is UTC+1 all year, so local dates are computed by shifting
+// UTC by an hour.
+
+const LAGOS_OFFSET_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly'
+
+export interface ScheduleTiming {
+  frequency: ScheduleFrequency
+  day_of_week: number | null
+  day_of_month: number | null
+  run_hour: number
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/** Local run_hour on the given local day of a month, clamped to the month's last day */
+function monthlyRun(year: number, month: number, day: number, hour: number) {
+  return Date.UTC(year, month, Math.min(day, daysInMonth(year, month)), hour)
+}
+
+/**
+ * The first run strictly after `after`, or null for one-off schedules (their
+ * only run time is chosen when they are created).
+ */
+export function nextRunAt(timing: ScheduleTiming, after: Date): Date | null {
+  const local = after.getTime() + LAGOS_OFFSET_MS
+  const today = new Date(local)
+  const year = today.getUTCFullYear()
+  const month = today.getUTCMonth()
+  const todayAtHour = Date.UTC(year, month, today.getUTCDate(), timing.run_hour)
+
+  let run: number
+  switch (timing.frequency) {
+    case 'daily':
+      run = todayAtHour > local ? todayAtHour : todayAtHour + DAY_MS
+      break
+    case 'weekly': {
+      const daysAhead = ((timing.day_of_week ?? 0) - today.getUTCDay() + 7) % 7
+      run = todayAtHour + daysAhead * DAY_MS
+      if (run <= local) run += 7 * DAY_MS
+      break
+    }
+    case 'monthly': {
+      const day = timing.day_of_month ?? 1
+      run = monthlyRun(year, month, day, timing.run_hour)
+      if (run <= local) run = monthlyRun(month === 11 ? year + 1 : year, (month + 1) % 12, day, timing.run_hour)
+      break
+    }
+    default:
+      return null
+  }
+
+  return new Date(run - LAGOS_OFFSET_MS)
+}
+
+/** A one-off run at run_hour on a local YYYY-MM-DD date */
+export function runOnDate(date: string, hour: number): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+  if (!match) return null
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), hour) - LAGOS_OFFSET_MS)
+}
+
+export type LocalPeriod = 'day' | 'week' | 'month'
+
+/** The local hour (0-23) at `at` */
+export function localHour(at: Date): number {
+  return new Date(at.getTime() + LAGOS_OFFSET_MS).getUTCHours()
+}
+
+/** Local midnight starting the day, week (from Monday) or month that contains `at` */
+export function periodStart(period: LocalPeriod, at: Date): Date {
+  const local = new Date(at.getTime() + LAGOS_OFFSET_MS)
+  const year = local.getUTCFullYear()
+  const month = local.getUTCMonth()
+
+  let start: number
+  if (period === 'month') {
+    start = Date.UTC(year, month, 1)
+  } else {
+    const daysBack = period === 'week' ? (local.getUTCDay() + 6) % 7 : 0
+    start = Date.UTC(year, month, local.getUTCDate() - daysBack)
+  }
+  return new Date(start - LAGOS_OFFSET_MS)
+}
+
+/** A key naming the local period that contains `at`, e.g. 'week:2026-10-19' */
+export function periodKey(period: LocalPeriod, at: Date): string {
+  const start = new Date(periodStart(period, at).getTime() + LAGOS_OFFSET_MS)
+  return `${period}:${start.toISOString().slice(0, 10)}`
+}
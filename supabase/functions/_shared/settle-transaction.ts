@@ -0,0 +1,156 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface PendingPurchase {
+  id: string
+  user_id: string
+  amount: number
+  category: string
+  description: string | null
+  metadata: unknown
+}
+
+export interface SettleOutcome {
+  status: 'completed' | 'failed'
+  reason?: string
+  /** Merged into the transaction metadata, e.g. the webhook body or requery result */
+  metadata?: Record<string, unknown>
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  data: 'Data',
+  airtime: 'Airtime',
+  cable: 'Cable Subscription',
+  electricity: 'Electricity',
+  exam: 'Exam PIN',
+}
+
+export function metadataOf(transaction: Pick<PendingPurchase, 'metadata'>): Record<string, unknown> {
+  return transaction.metadata && typeof transaction.metadata === 'object' && !Array.isArray(transaction.metadata)
+    ? (transaction.metadata as Record<string, unknown>)
+    : {}
+}
+
+// buy-data/buy-airtime record the provider that served the order as provider_used;
+// buy-cable/buy-electricity as api_provider
+export function providerOf(metadata: Record<string, unknown>) {
+  const name = metadata.provider_used ?? metadata.api_provider ?? metadata.provider
+  return typeof name === 'string' ? name : null
+}
+
+export interface PurchaseResult {
+  status: 'completed' | 'pending'
+  amount?: number
+  metadata: Record<string, unknown>
+}
+
+/**
+ * Record the provider's answer on the purchase a buy-* function just placed.
+ * Only a still-pending row is written: if a webhook or the requery worker
+ * settled it first, its status is kept and returned with settledElsewhere
+ * set, and that settlement has already notified the user.
+ */
+export async function recordPurchaseResult(
+  admin: SupabaseClient,
+  transactionId: string,
+  result: PurchaseResult
+): Promise<{ status: 'completed' | 'pending' | 'failed'; settledElsewhere: boolean }> {
+  const { data: updated, error: updateError } = await admin
+    .from('transactions')
+    .update({ status: result.status, metadata: result.metadata, ...(result.amount !== undefined ? { amount: result.amount } : {}) })
+    .eq('id', transactionId)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (updateError) {
+    console.error('Failed to update transaction status:', updateError)
+    return { status: result.status, settledElsewhere: false }
+  }
+  if (updated && updated.length > 0) return { status: result.status, settledElsewhere: false }
+
+  const { data: current, error: lookupError } = await admin
+    .from('transactions')
+    .select('status')
+    .eq('id', transactionId)
+    .maybeSingle()
+
+  if (lookupError || !current) {
+    console.error('Failed to read settled transaction:', { transactionId, error: lookupError })
+    return { status: result.status, settledElsewhere: false }
+  }
+  console.log('Purchase already settled elsewhere:', { transactionId, status: current.status })
+  return { status: current.status, settledElsewhere: true }
+}
+
+/**
+ * Move a pending purchase to its final status, notify the user and, when it
+ * failed, refund it by reversing every ledger entry on the transaction.
+ * Returns false if the transaction was no longer pending, i.e. a webhook or
+ * the requery worker settled it first. Throws if a refund fails; the
+ * purchase is then left pending so the next webhook or requery retries it.
+ */
+export async function settlePendingTransaction(
+  admin: SupabaseClient,
+  transaction: PendingPurchase,
+  outcome: SettleOutcome
+): Promise<boolean> {
+  const now = new Date().toISOString()
+  const metadata = {
+    ...metadataOf(transaction),
+    ...outcome.metadata,
+    ...(outcome.status === 'completed'
+      ? { completed_at: now }
+      : { failure_reason: outcome.reason ?? '', failed_at: now }),
+  }
+
+  const label = CATEGORY_LABELS[transaction.category] ?? 'Purchase'
+
+  if (outcome.status === 'completed') {
+    // Only a still-pending row is updated, so concurrent settlements notify once
+    const { data: updated, error: updateError } = await admin
+      .from('transactions')
+      .update({ status: outcome.status, metadata })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (updateError) throw updateError
+    if (!updated || updated.length === 0) return false
+
+    await admin.from('notifications').insert({
+      user_id: transaction.user_id,
+      title: `${label} Purchase Successful`,
+      message: transaction.description,
+      type: 'success'
+    })
+    return true
+  }
+
+  // Refund and mark failed together, so a failed refund never leaves the purchase settled
+  const { data: failed, error: refundError } = await admin.rpc('fail_pending_transaction', {
+    p_transaction_id: transaction.id,
+    p_metadata: metadata,
+    p_description: `Refund: ${transaction.description}`,
+  })
+
+  if (refundError) {
+    console.error('Refund error, leaving transaction pending:', { transactionId: transaction.id, error: refundError })
+    throw refundError
+  }
+
+  const result = failed as { settled: boolean; refunded_amount?: number }
+  if (!result.settled) return false
+
+  const refunded = Number(result.refunded_amount ?? 0)
+  console.log('Wallet refunded:', { userId: transaction.user_id, amount: refunded })
+
+  await admin.from('notifications').insert({
+    user_id: transaction.user_id,
+    title: `${label} Purchase Failed`,
+    message: refunded > 0
+      ? `${transaction.description} failed. ₦${refunded.toLocaleString()} has been refunded to your wallet.`
+      : `${transaction.description} failed.`,
+    type: 'error'
+  })
+
+  return true
+}
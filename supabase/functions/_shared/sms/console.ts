@@ -0,0 +1,11 @@
+import type { SmsSender } from './types.ts'
+
+// Development sender: the message only goes to the function logs
+export const consoleSmsSender: SmsSender = {
+  name: 'console',
+
+  send(to, message) {
+    console.log(`[sms:console] to ${to}: ${message}`)
+    return Promise.resolve({ ok: true, message_id: `console-${crypto.randomUUID()}` })
+  },
+}
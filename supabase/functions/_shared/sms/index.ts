@@ -0,0 +1,26 @@
+import { consoleSmsSender } from './console.ts'
+import { termiiSmsSender } from './termii.ts'
+import type { SmsSender } from './types.ts'
+
+export type { SmsResult, SmsSender } from './types.ts'
+
+// Keys are the values SMS_PROVIDER may take. Registering an adapter here is
+// all it takes to switch gateways.
+const SENDERS: Record<string, SmsSender> = {
+  [consoleSmsSender.name]: consoleSmsSender,
+  [termiiSmsSender.name]: termiiSmsSender,
+}
+
+/**
+ * The configured gateway. SMS_PROVIDER must name one: a missing or unknown
+ * value is an error, and the console sender (messages only reach the logs)
+ * is only used when asked for by name, for development.
+ */
+export function getSmsSender(): { ok: true; sender: SmsSender } | { ok: false; error: string } {
+  const name = Deno.env.get('SMS_PROVIDER')?.trim().toLowerCase()
+  if (!name) return { ok: false, error: 'SMS_PROVIDER is not set' }
+
+  const sender = SENDERS[name]
+  if (!sender) return { ok: false, error: `Unknown SMS_PROVIDER "${name}"` }
+  return { ok: true, sender }
+}
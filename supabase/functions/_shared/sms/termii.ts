@@ -0,0 +1,42 @@
+import type { SmsSender } from './types.ts'
+
+const BASE_URL = 'https://api.ng.termii.com/api'
+
+// Termii wants the international form without the plus sign
+function toInternational(phone: string) {
+  return phone.startsWith('0') ? `234${phone.slice(1)}` : phone
+}
+
+export const termiiSmsSender: SmsSender = {
+  name: 'termii',
+
+  async send(to, message) {
+    const apiKey = Deno.env.get('TERMII_API_KEY')
+    if (!apiKey) return { ok: false, error: 'TERMII_API_KEY is not configured' }
+
+    try {
+      const response = await fetch(`${BASE_URL}/sms/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          api_key: apiKey,
+          to: toInternational(to),
+          from: Deno.env.get('TERMII_SENDER_ID') || 'N-Alert',
+          sms: message,
+          type: 'plain',
+          // The DND route still reaches numbers that opted out of promotional SMS
+          channel: Deno.env.get('TERMII_CHANNEL') || 'dnd',
+        }),
+        signal: AbortSignal.timeout(15000),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.message_id) {
+        return { ok: false, error: data.message || `Termii returned HTTP ${response.status}` }
+      }
+      return { ok: true, message_id: String(data.message_id) }
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Termii request failed' }
+    }
+  },
+}
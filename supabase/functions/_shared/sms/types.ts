@@ -0,0 +1,16 @@
+// Contract every SMS gateway adapter implements.
+// Callers only send through getSmsSender(), never an adapter directly.
+
+export interface SmsResult {
+  ok: boolean
+  /** The gateway's own id for the message, when it returns one */
+  message_id?: string
+  /** Set when ok is false */
+  error?: string
+}
+
+export interface SmsSender {
+  name: string
+  /** `to` is a normalized Nigerian number (11 digits starting with 0) */
+  send(to: string, message: string): Promise<SmsResult>
+}
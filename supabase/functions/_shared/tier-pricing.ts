@@ -0,0 +1,89 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type TierProduct = 'data' | 'airtime' | 'cable' | 'exam_pin'
+
+interface TierOverride {
+  price: number | null
+  discount_percent: number | null
+}
+
+export interface TierPricing {
+  tierId: string | null
+  slug: string | null
+  /** Markup rule for the product: percent off the catalogue price (airtime: extra points of discount) */
+  discountPercent: number
+  overrides: Map<string, TierOverride>
+}
+
+const DISCOUNT_COLUMNS = {
+  data: 'data_discount_percent',
+  airtime: 'airtime_discount_percent',
+  cable: 'cable_discount_percent',
+  exam_pin: 'exam_pin_discount_percent',
+} as const
+
+function roundKobo(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Pricing rules for one product type as they apply to a user. Users with no
+ * tier_id get the default tier; with no tiers configured at all, catalogue
+ * prices are charged unchanged.
+ */
+export async function loadTierPricing(
+  adminSupabase: SupabaseClient,
+  userId: string,
+  product: TierProduct
+): Promise<TierPricing> {
+  const { data: profile } = await adminSupabase
+    .from('profiles')
+    .select('tier_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  let query = adminSupabase
+    .from('user_tiers')
+    .select('id, slug, data_discount_percent, airtime_discount_percent, cable_discount_percent, exam_pin_discount_percent')
+  query = profile?.tier_id ? query.eq('id', profile.tier_id) : query.eq('is_default', true)
+  const { data: tier, error } = await query.maybeSingle()
+  if (error) throw error
+
+  if (!tier) {
+    return { tierId: null, slug: null, discountPercent: 0, overrides: new Map() }
+  }
+
+  const { data: overrides, error: overridesError } = await adminSupabase
+    .from('tier_price_overrides')
+    .select('product_id, price, discount_percent')
+    .eq('tier_id', tier.id)
+    .eq('product_type', product)
+  if (overridesError) throw overridesError
+
+  return {
+    tierId: tier.id,
+    slug: tier.slug,
+    discountPercent: Number(tier[DISCOUNT_COLUMNS[product]]) || 0,
+    overrides: new Map((overrides ?? []).map((o) => [o.product_id, {
+      price: o.price == null ? null : Number(o.price),
+      discount_percent: o.discount_percent == null ? null : Number(o.discount_percent),
+    }])),
+  }
+}
+
+/**
+ * Tier price for a fixed-price product. An override wins over the tier's
+ * markup rule; the result never goes below `floor` (the provider's cost,
+ * where we know it).
+ */
+export function tierPrice(pricing: TierPricing, productId: string, basePrice: number, floor = 0): number {
+  const override = pricing.overrides.get(productId)?.price
+  const price = override ?? roundKobo(basePrice * (1 - pricing.discountPercent / 100))
+  return Math.max(price, floor)
+}
+
+/** Airtime discount for a plan: the tier override, or the plan's discount plus the tier's extra points. */
+export function tierAirtimeDiscount(pricing: TierPricing, planId: string, planDiscount: number): number {
+  const override = pricing.overrides.get(planId)?.discount_percent
+  return Math.min(override ?? planDiscount + pricing.discountPercent, 100)
+}
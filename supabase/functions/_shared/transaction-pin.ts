@@ -0,0 +1,118 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const PIN_PATTERN = /^\d{4}$/
+const PIN_ITERATIONS = 210000
+
+export type PinCheckResult =
+  | { ok: true }
+  | { ok: false; status: number; code: 'PIN_REQUIRED' | 'PIN_NOT_SET' | 'INVALID_PIN' | 'PIN_LOCKED' | 'PIN_ERROR'; error: string }
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+// Constant-time comparison so response timing does not leak hash prefixes
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+async function derivePinHash(pin: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  )
+  return toHex(new Uint8Array(bits))
+}
+
+export async function hashTransactionPin(pin: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  return {
+    pin_hash: await derivePinHash(pin, salt, PIN_ITERATIONS),
+    pin_salt: toHex(salt),
+    pin_iterations: PIN_ITERATIONS,
+  }
+}
+
+async function getLockedUntil(adminSupabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data } = await adminSupabase
+    .from('transaction_pins')
+    .select('locked_until')
+    .eq('user_id', userId)
+    .maybeSingle()
+  return data?.locked_until ?? null
+}
+
+function lockedMessage(lockedUntil: string | null): string {
+  if (!lockedUntil) return 'Too many incorrect PIN attempts. Please try again later.'
+  const minutes = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000))
+  return `Too many incorrect PIN attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+}
+
+/**
+ * Check a user's transaction PIN against the stored hash.
+ * Every call counts as an attempt until the PIN matches; after 5 misses the
+ * PIN is locked for 30 minutes (see claim_transaction_pin_attempt).
+ */
+export async function checkTransactionPin(
+  adminSupabase: SupabaseClient,
+  userId: string,
+  pin: unknown
+): Promise<PinCheckResult> {
+  if (typeof pin !== 'string' || !pin) {
+    return { ok: false, status: 400, code: 'PIN_REQUIRED', error: 'Transaction PIN is required' }
+  }
+
+  const { data, error } = await adminSupabase
+    .rpc('claim_transaction_pin_attempt', { p_user_id: userId })
+    .maybeSingle()
+
+  if (error) {
+    const msg = error.message || ''
+    if (msg.includes('PIN_NOT_SET')) {
+      return { ok: false, status: 400, code: 'PIN_NOT_SET', error: 'Please set up your transaction PIN first' }
+    }
+    if (msg.includes('PIN_LOCKED')) {
+      const lockedUntil = await getLockedUntil(adminSupabase, userId)
+      return { ok: false, status: 423, code: 'PIN_LOCKED', error: lockedMessage(lockedUntil) }
+    }
+    console.error('PIN attempt error:', error)
+    return { ok: false, status: 500, code: 'PIN_ERROR', error: 'Failed to verify PIN' }
+  }
+
+  const stored = data as { pin_hash: string; pin_salt: string; pin_iterations: number; attempts_remaining: number }
+  const candidate = PIN_PATTERN.test(pin)
+    ? await derivePinHash(pin, fromHex(stored.pin_salt), stored.pin_iterations)
+    : ''
+
+  if (candidate && safeEqual(candidate, stored.pin_hash)) {
+    await adminSupabase.rpc('reset_transaction_pin_attempts', { p_user_id: userId })
+    return { ok: true }
+  }
+
+  if (stored.attempts_remaining <= 0) {
+    const lockedUntil = await getLockedUntil(adminSupabase, userId)
+    return { ok: false, status: 423, code: 'PIN_LOCKED', error: lockedMessage(lockedUntil) }
+  }
+
+  return {
+    ok: false,
+    status: 403,
+    code: 'INVALID_PIN',
+    error: `Incorrect PIN. ${stored.attempts_remaining} attempt${stored.attempts_remaining === 1 ? '' : 's'} remaining.`,
+  }
+}
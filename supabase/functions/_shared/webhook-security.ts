@@ -0,0 +1,65 @@
+// Helpers shared by the inbound webhooks (PaymentPoint deposits, VTU provider callbacks)
+
+// Credentials the platform or caller adds to the request are not worth keeping in an audit trail
+const UNAUDITED_HEADERS = ['authorization', 'apikey', 'cookie', 'x-callback-token']
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Constant-time comparison so response timing does not leak signature prefixes
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))
+  return toHex(new Uint8Array(signature))
+}
+
+/** Hex HMAC from a signature header, with any `sha256=` prefix removed */
+export function normalizeSignature(value: string | null | undefined) {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed.replace(/^sha256=/i, '').toLowerCase() : null
+}
+
+export function auditHeaders(headers: Headers) {
+  const kept: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    if (!UNAUDITED_HEADERS.includes(name.toLowerCase())) kept[name] = value
+  })
+  return kept
+}
+
+/**
+ * Caller address as seen by the platform proxy. Clients can send their own
+ * X-Forwarded-For, and proxies append to it, so only the last hop (added by
+ * the platform) is trusted; never the first entry.
+ */
+export function sourceIp(headers: Headers) {
+  const connecting = headers.get('cf-connecting-ip')?.trim()
+  if (connecting) return connecting
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map((hop) => hop.trim()).filter(Boolean)
+  return forwarded?.[forwarded.length - 1] || headers.get('x-real-ip') || null
+}
+
+/**
+ * Per-order callback signature for providers that can only be given a URL to
+ * call. It rides in the query string in place of the shared secret, so a
+ * logged URL can only ever vouch for the one order it was issued for.
+ */
+export function callbackReferenceSignature(secret: string, provider: string, reference: string) {
+  return hmacSha256Hex(secret, `${provider}:${reference}`)
+}
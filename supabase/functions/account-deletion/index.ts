@@ -0,0 +1,214 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Time to change one's mind before the account is closed
+const COOLING_OFF_DAYS = 14
+
+interface AccountDeletionRequest {
+  action?: 'status' | 'request' | 'cancel'
+  reason?: string
+  password?: string
+  pin?: string
+  acknowledge_forfeit?: boolean
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+/** Check the password by signing in with it, then revoke only the session that created */
+async function checkPassword(email: string | undefined, password: unknown): Promise<boolean> {
+  if (!email || typeof password !== 'string' || !password) return false
+
+  const verifier = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+  const { error } = await verifier.auth.signInWithPassword({ email, password })
+  if (error) return false
+
+  await verifier.auth.signOut({ scope: 'local' })
+  return true
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+    const email = claimsData.claims.email as string | undefined
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: AccountDeletionRequest = await req.json().catch(() => ({}))
+    const action = body.action || 'status'
+
+    const { data: wallet } = await adminSupabase
+      .from('wallets')
+      .select('balance')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    // Deposits held over the KYC balance cap are forfeited on closure too
+    const { data: holds } = await adminSupabase
+      .from('held_deposits')
+      .select('amount')
+      .eq('user_id', userId)
+      .eq('status', 'held')
+
+    const heldAmount = (holds ?? []).reduce((sum, hold) => sum + Number(hold.amount), 0)
+    const balance = Number(wallet?.balance ?? 0) + heldAmount
+
+    if (action === 'status') {
+      const { data: pending } = await adminSupabase
+        .from('account_deletion_requests')
+        .select('id, status, reason, forfeit_acknowledged, scheduled_for, held_reason, created_at')
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        .maybeSingle()
+
+      const { data: pinRow } = await adminSupabase
+        .from('transaction_pins')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      return jsonResponse({
+        request: pending,
+        balance,
+        held_amount: heldAmount,
+        has_pin: !!pinRow,
+        cooling_off_days: COOLING_OFF_DAYS,
+      })
+    }
+
+    if (action === 'request') {
+      // Either secret will do; accounts created by phone may not have a password
+      let confirmedWith: 'password' | 'pin'
+      if (body.pin) {
+        const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+        if (!pinCheck.ok) {
+          return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+        }
+        confirmedWith = 'pin'
+      } else if (await checkPassword(email, body.password)) {
+        confirmedWith = 'password'
+      } else {
+        return jsonResponse({ error: 'Incorrect password', code: 'INVALID_PASSWORD' }, 403)
+      }
+
+      if (balance > 0 && body.acknowledge_forfeit !== true) {
+        return jsonResponse({
+          error: `Your wallet still holds ₦${balance.toLocaleString()}. Spend or transfer it first, or confirm that it will be forfeited.`,
+          code: 'BALANCE_REMAINING',
+          balance,
+        }, 400)
+      }
+
+      const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, 1000) : ''
+      const scheduledFor = new Date(Date.now() + COOLING_OFF_DAYS * 24 * 60 * 60 * 1000)
+
+      const { data: created, error: createError } = await adminSupabase
+        .from('account_deletion_requests')
+        .insert({
+          user_id: userId,
+          reason: reason || null,
+          confirmed_with: confirmedWith,
+          balance_at_request: balance,
+          forfeit_acknowledged: body.acknowledge_forfeit === true,
+          scheduled_for: scheduledFor.toISOString(),
+        })
+        .select('id, scheduled_for')
+        .single()
+
+      if (createError) {
+        if (createError.code === '23505') {
+          return jsonResponse({ error: 'Your account is already scheduled for deletion' }, 409)
+        }
+        throw createError
+      }
+
+      const message = `Your account will be deleted on ${scheduledFor.toDateString()}. You can cancel from the app until then.`
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: 'Account Deletion Scheduled',
+        message,
+        type: 'warning',
+      })
+      await sendPushToUser(adminSupabase, userId, '⚠️ Account Deletion Scheduled', message, {
+        type: 'account_deletion_scheduled',
+      })
+
+      console.log('Account deletion requested:', { userId, requestId: created.id, confirmedWith })
+      return jsonResponse({ success: true, id: created.id, scheduled_for: created.scheduled_for }, 201)
+    }
+
+    if (action === 'cancel') {
+      const { data: cancelled, error: cancelError } = await adminSupabase
+        .from('account_deletion_requests')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        // Once the account has been closed only the sign-in clean-up is left to retry
+        .is('closed_at', null)
+        .select('id')
+
+      if (cancelError) throw cancelError
+
+      if (!cancelled?.length) {
+        return jsonResponse({ error: 'There is no deletion to cancel' }, 404)
+      }
+
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: 'Account Deletion Cancelled',
+        message: 'Your account will not be deleted.',
+        type: 'info',
+      })
+
+      console.log('Account deletion cancelled:', { userId, requestId: cancelled[0].id })
+      return jsonResponse({ success: true })
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400)
+
+  } catch (error) {
+    console.error('Account deletion error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -1,10 +1,86 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { adminAuditor } from '../_shared/admin-audit.ts'
+import { processPaymentPointPayment, type PaymentPointPayload } from '../_shared/paymentpoint.ts'
+import { sendPushToUser } from '../_shared/push.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const REVERSAL_REASONS = [
+  'service_not_delivered',
+  'duplicate_charge',
+  'wrong_amount',
+  'provider_error',
+  'customer_request',
+  'fraud',
+  'goodwill',
+  'other',
+]
+
+const REVERSAL_ERRORS: Record<string, { status: number; message: string }> = {
+  REVERSAL_NOT_FOUND: { status: 404, message: 'Reversal not found' },
+  TRANSACTION_NOT_FOUND: { status: 404, message: 'Transaction not found' },
+  REVERSAL_NOT_PENDING: { status: 409, message: 'This reversal is no longer waiting for approval' },
+  SAME_ADMIN: { status: 403, message: 'A reversal must be approved by a different admin' },
+  REVERSAL_EXCEEDS_ORIGINAL: { status: 409, message: 'Part of this transaction was reversed since the request; reject it and request again' },
+  INSUFFICIENT_BALANCE: { status: 409, message: "The user's balance is too low to take this credit back" },
+}
+
+const AIRTIME_CASH_ERRORS: Record<string, { status: number; message: string }> = {
+  REQUEST_NOT_FOUND: { status: 404, message: 'Request not found' },
+  REQUEST_NOT_PENDING: { status: 409, message: 'This request has already been reviewed' },
+  INVALID_AMOUNT: { status: 400, message: 'Amount received must be more than zero and no more than the amount claimed' },
+}
+
+interface PostedReversal {
+  user_id: string
+  transaction_id: string
+  transaction_type: string
+  description: string
+  reversed_amount: number
+  fully_reversed: boolean
+  balance: number
+}
+
+/** Turn a known reversal error into a response; anything else is rethrown */
+function reversalErrorResponse(error: { message?: string }) {
+  const known = Object.keys(REVERSAL_ERRORS).find((code) => (error.message || '').includes(code))
+  if (!known) throw error
+  return new Response(JSON.stringify({ error: REVERSAL_ERRORS[known].message }), {
+    status: REVERSAL_ERRORS[known].status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+/** Tell the user about a posted reversal and answer the admin */
+async function reversalPostedResponse(supabaseAdmin: SupabaseClient, reversalId: string, reviewedBy: string | null, reversal: PostedReversal) {
+  const amountText = `₦${Number(reversal.reversed_amount).toLocaleString()}`
+  const message = reversal.transaction_type === 'debit'
+    ? `${amountText} for "${reversal.description}" has been returned to your wallet.`
+    : `${amountText} credited for "${reversal.description}" has been reversed.`
+  const title = reversal.fully_reversed ? 'Transaction Reversed' : 'Transaction Partly Reversed'
+
+  await supabaseAdmin.from('notifications').insert({
+    user_id: reversal.user_id,
+    title,
+    message,
+    type: 'info'
+  })
+  await sendPushToUser(supabaseAdmin, reversal.user_id, `↩️ ${title}`, message, {
+    type: 'transaction_reversed',
+    transaction_id: reversal.transaction_id,
+  })
+
+  console.log('Reversal posted:', { reversal_id: reversalId, transaction_id: reversal.transaction_id, reviewed_by: reviewedBy, fully_reversed: reversal.fully_reversed })
+
+  return new Response(JSON.stringify({ success: true, status: 'completed', fully_reversed: reversal.fully_reversed, new_balance: reversal.balance }), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -59,6 +135,8 @@ Deno.serve(async (req) => {
       })
     }
 
+    const audit = adminAuditor(supabaseAdmin, req, user)
+
     // Parse URL to get the action - support both query param and body
     const url = new URL(req.url)
     let action = url.searchParams.get('action')
@@ -166,47 +244,83 @@ Deno.serve(async (req) => {
           })
         }
 
-        // Get current wallet balance
-        const { data: wallet, error: walletError } = await supabaseAdmin
-          .from('wallets')
-          .select('balance')
-          .eq('user_id', user_id)
-          .single()
+        // Post the manual funding to the wallet ledger
+        const { data: credit, error: creditError } = await supabaseAdmin.rpc('credit_wallet', {
+          p_user_id: user_id,
+          p_amount: amount,
+          p_category: 'deposit',
+          p_description: description || 'Manual funding by admin',
+          p_reference: `ADMIN-FUND-${Date.now()}`,
+          p_contra_account: 'admin_adjustment',
+          p_metadata: { funded_by: user.id },
+        })
 
-        if (walletError) throw walletError
+        if (creditError) throw creditError
 
-        const newBalance = Number(wallet.balance) + Number(amount)
+        const newBalance = (credit as { balance: number }).balance
 
-        // Update wallet balance
-        const { error: updateError } = await supabaseAdmin
-          .from('wallets')
-          .update({ balance: newBalance })
-          .eq('user_id', user_id)
+        await audit({
+          action: 'wallet.funded',
+          targetType: 'wallet',
+          targetId: user_id,
+          targetUserId: user_id,
+          before: { balance: newBalance - Number(amount) },
+          after: { balance: newBalance },
+          metadata: { amount: Number(amount), description: description || null },
+        })
 
-        if (updateError) throw updateError
+        return new Response(JSON.stringify({ success: true, new_balance: newBalance }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
 
-        // Create transaction record
-        const { error: txError } = await supabaseAdmin
-          .from('transactions')
-          .insert({
-            user_id,
-            type: 'credit',
-            category: 'deposit',
-            amount,
-            description: description || 'Manual funding by admin',
-            status: 'completed',
-            reference: `ADMIN-FUND-${Date.now()}`,
-          })
+      case 'reversals': {
+        const { data: reversals, error: reversalsError } = await supabaseAdmin
+          .from('transaction_reversals')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(200)
 
-        if (txError) throw txError
+        if (reversalsError) throw reversalsError
 
-        return new Response(JSON.stringify({ success: true, new_balance: newBalance }), {
+        // Attach the transaction and the admins' names for display
+        const reversalsWithDetails = await Promise.all(
+          (reversals || []).map(async (reversal) => {
+            const { data: tx } = await supabaseAdmin
+              .from('transactions')
+              .select('type, category, amount, description, reference')
+              .eq('id', reversal.transaction_id)
+              .maybeSingle()
+
+            const adminIds = [reversal.requested_by, reversal.reviewed_by].filter(Boolean)
+            const { data: admins } = await supabaseAdmin
+              .from('profiles')
+              .select('user_id, full_name, email')
+              .in('user_id', adminIds)
+
+            const nameOf = (id: string | null) => {
+              const profile = (admins || []).find((a) => a.user_id === id)
+              return profile ? profile.full_name || profile.email : null
+            }
+
+            return {
+              ...reversal,
+              transaction: tx,
+              requested_by_name: nameOf(reversal.requested_by),
+              reviewed_by_name: nameOf(reversal.reviewed_by),
+              can_review: reversal.status === 'pending_approval' && reversal.requested_by !== user.id,
+            }
+          })
+        )
+
+        return new Response(JSON.stringify({ data: reversalsWithDetails }), {
           status: 200,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         })
       }
 
-      case 'refund': {
+      case 'request-reversal': {
         if (req.method !== 'POST') {
           return new Response(JSON.stringify({ error: 'Method not allowed' }), {
             status: 405,
@@ -214,50 +328,225 @@ Deno.serve(async (req) => {
           })
         }
 
-        const { transaction_id, user_id, amount, description, reference } = body
+        const { transaction_id, amount, reason_code, note } = body
+        const trimmedNote = typeof note === 'string' ? note.trim().slice(0, 500) : ''
 
-        if (!user_id || !amount || amount <= 0) {
+        if (!transaction_id || !REVERSAL_REASONS.includes(reason_code) || (reason_code === 'other' && !trimmedNote)) {
+          return new Response(JSON.stringify({ error: 'Choose a reason code (and add a note for "other")' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { data: tx, error: txError } = await supabaseAdmin
+          .from('transactions')
+          .select('id, user_id, status, metadata')
+          .eq('id', transaction_id)
+          .maybeSingle()
+
+        if (txError) throw txError
+
+        if (!tx) {
+          return new Response(JSON.stringify({ error: 'Transaction not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        if (tx.status === 'pending' || tx.status === 'reversed') {
+          return new Response(JSON.stringify({ error: `A ${tx.status} transaction cannot be reversed` }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // Refunds made before reversals existed were separate credits pointing back here
+        const { count: legacyRefunds } = await supabaseAdmin
+          .from('transactions')
+          .select('id', { count: 'exact', head: true })
+          .eq('metadata->>original_transaction_id', tx.id)
+
+        if (legacyRefunds) {
+          return new Response(JSON.stringify({ error: 'This transaction has already been refunded' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { data: reversible, error: reversibleError } = await supabaseAdmin
+          .rpc('transaction_reversible_amount', { p_transaction_id: tx.id })
+
+        if (reversibleError) throw reversibleError
+
+        const remaining = Number(reversible)
+        const reversalAmount = amount === undefined || amount === null ? remaining : Number(amount)
+
+        if (remaining <= 0) {
+          return new Response(JSON.stringify({ error: 'Nothing is left to reverse on this transaction' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        if (!Number.isFinite(reversalAmount) || reversalAmount <= 0 || reversalAmount > remaining) {
+          return new Response(JSON.stringify({ error: `Amount must be between ₦0.01 and ₦${remaining.toLocaleString()}` }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // Inserted and, without approval, posted in one transaction so a failed post leaves nothing behind.
+        // Whether a second admin must approve is decided there, from everything already reversed or waiting
+        const { data: result, error: requestError } = await supabaseAdmin.rpc('request_transaction_reversal', {
+          p_transaction_id: tx.id,
+          p_amount: reversalAmount,
+          p_is_full: reversalAmount === remaining,
+          p_reason_code: reason_code,
+          p_note: trimmedNote || null,
+          p_requested_by: user.id,
+        })
+
+        if (requestError) {
+          if (requestError.code === '23505') {
+            return new Response(JSON.stringify({ error: 'A reversal for this transaction is already waiting for approval' }), {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            })
+          }
+          return reversalErrorResponse(requestError)
+        }
+
+        const reversal = result as PostedReversal & { reversal_id: string; status: string }
+        const requested = {
+          action: 'reversal.requested',
+          targetType: 'transaction',
+          targetId: tx.id,
+          targetUserId: tx.user_id,
+          before: { status: tx.status, reversible_amount: remaining },
+          metadata: { reversal_id: reversal.reversal_id, amount: reversalAmount, reason_code, note: trimmedNote || null },
+        }
+
+        if (reversal.status === 'pending_approval') {
+          console.log('Reversal awaiting approval:', { reversal_id: reversal.reversal_id, transaction_id: tx.id, requested_by: user.id })
+          await audit({ ...requested, after: { status: tx.status, reversal_status: 'pending_approval' } })
+          return new Response(JSON.stringify({ success: true, status: 'pending_approval', reversal_id: reversal.reversal_id }), {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        await audit({
+          ...requested,
+          after: { status: reversal.fully_reversed ? 'reversed' : tx.status, reversal_status: 'completed' },
+        })
+        return await reversalPostedResponse(supabaseAdmin, reversal.reversal_id, null, reversal)
+      }
+
+      case 'approve-reversal': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        if (!body.reversal_id) {
           return new Response(JSON.stringify({ error: 'Invalid request' }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           })
         }
 
-        // Get current wallet balance
-        const { data: wallet, error: walletError } = await supabaseAdmin
-          .from('wallets')
-          .select('balance')
-          .eq('user_id', user_id)
-          .single()
+        const { data: pendingReversal } = await supabaseAdmin
+          .from('transaction_reversals')
+          .select('id, transaction_id, user_id, amount, reason_code, requested_by')
+          .eq('id', body.reversal_id)
+          .maybeSingle()
 
-        if (walletError) throw walletError
+        const { data: approved, error: approveError } = await supabaseAdmin.rpc('apply_transaction_reversal', {
+          p_reversal_id: body.reversal_id,
+          p_reviewed_by: user.id,
+        })
 
-        const newBalance = Number(wallet.balance) + Number(amount)
+        if (approveError) return reversalErrorResponse(approveError)
+
+        const posted = approved as PostedReversal
+        if (pendingReversal) {
+          await audit({
+            action: 'reversal.approved',
+            targetType: 'transaction',
+            targetId: pendingReversal.transaction_id,
+            targetUserId: pendingReversal.user_id,
+            before: { reversal_status: 'pending_approval' },
+            after: posted.fully_reversed
+              ? { status: 'reversed', reversal_status: 'completed' }
+              : { reversal_status: 'completed' },
+            metadata: {
+              reversal_id: pendingReversal.id,
+              amount: pendingReversal.amount,
+              reason_code: pendingReversal.reason_code,
+              requested_by: pendingReversal.requested_by,
+            },
+          })
+        }
+        return await reversalPostedResponse(supabaseAdmin, body.reversal_id, user.id, posted)
+      }
 
-        // Update wallet balance
-        const { error: updateError } = await supabaseAdmin
-          .from('wallets')
-          .update({ balance: newBalance })
-          .eq('user_id', user_id)
+      case 'reject-reversal': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
 
-        if (updateError) throw updateError
+        const { reversal_id, note } = body
 
-        // Create refund transaction record
-        const { error: txError } = await supabaseAdmin
-          .from('transactions')
-          .insert({
-            user_id,
-            type: 'credit',
-            category: 'deposit',
-            amount,
-            description: `Refund for: ${description}`,
-            status: 'completed',
-            reference: `REFUND-${reference || transaction_id}`,
+        if (!reversal_id) {
+          return new Response(JSON.stringify({ error: 'Invalid request' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // The requester may withdraw their own request; anyone else rejects it
+        const { data: rejected, error: rejectError } = await supabaseAdmin
+          .from('transaction_reversals')
+          .update({
+            status: 'rejected',
+            reviewed_by: user.id,
+            reviewed_at: new Date().toISOString(),
+            review_note: typeof note === 'string' ? note.trim().slice(0, 500) || null : null,
           })
+          .eq('id', reversal_id)
+          .eq('status', 'pending_approval')
+          .select('id, transaction_id, user_id, amount, requested_by, review_note')
 
-        if (txError) throw txError
+        if (rejectError) throw rejectError
 
-        return new Response(JSON.stringify({ success: true, new_balance: newBalance }), {
+        if (!rejected?.length) {
+          return new Response(JSON.stringify({ error: 'This reversal is no longer waiting for approval' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const rejectedReversal = rejected[0]
+        await audit({
+          action: rejectedReversal.requested_by === user.id ? 'reversal.withdrawn' : 'reversal.rejected',
+          targetType: 'transaction',
+          targetId: rejectedReversal.transaction_id,
+          targetUserId: rejectedReversal.user_id,
+          before: { reversal_status: 'pending_approval' },
+          after: { reversal_status: 'rejected' },
+          metadata: {
+            reversal_id: rejectedReversal.id,
+            amount: rejectedReversal.amount,
+            note: rejectedReversal.review_note,
+          },
+        })
+
+        return new Response(JSON.stringify({ success: true }), {
           status: 200,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         })
@@ -408,32 +697,17 @@ Deno.serve(async (req) => {
           })
         }
 
-        // Credit the referrer's wallet
-        const { data: wallet } = await supabaseAdmin
-          .from('wallets')
-          .select('balance')
-          .eq('user_id', referrerProfile.user_id)
-          .single()
-
-        const newBalance = Number(wallet?.balance || 0) + Number(bonusAmount)
-
-        await supabaseAdmin
-          .from('wallets')
-          .update({ balance: newBalance })
-          .eq('user_id', referrerProfile.user_id)
+        // Credit the referrer's wallet through the ledger
+        const { error: bonusError } = await supabaseAdmin.rpc('credit_wallet', {
+          p_user_id: referrerProfile.user_id,
+          p_amount: bonusAmount,
+          p_category: 'referral_bonus',
+          p_description: 'Referral bonus',
+          p_reference: `REF-BONUS-${referral_id}`,
+          p_contra_account: 'referral_bonus',
+        })
 
-        // Create transaction for the bonus
-        await supabaseAdmin
-          .from('transactions')
-          .insert({
-            user_id: referrerProfile.user_id,
-            type: 'credit',
-            category: 'referral_bonus',
-            amount: bonusAmount,
-            description: 'Referral bonus',
-            status: 'completed',
-            reference: `REF-BONUS-${referral_id}`,
-          })
+        if (bonusError) throw bonusError
 
         // Update referral status
         await supabaseAdmin
@@ -457,6 +731,15 @@ Deno.serve(async (req) => {
             type: 'success',
           })
 
+        await audit({
+          action: 'referral.approved',
+          targetType: 'referral',
+          targetId: referral_id,
+          targetUserId: referrerProfile.user_id,
+          before: { status: referral.status },
+          after: { status: 'bonus_paid', referrer_bonus: bonusAmount },
+        })
+
         return new Response(JSON.stringify({ success: true }), {
           status: 200,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -473,6 +756,12 @@ Deno.serve(async (req) => {
           })
         }
 
+        const { data: referral } = await supabaseAdmin
+          .from('referrals')
+          .select('status, funding_amount, funding_triggered_at')
+          .eq('id', referral_id)
+          .maybeSingle()
+
         // Reset the referral to pending state
         await supabaseAdmin
           .from('referrals')
@@ -483,6 +772,14 @@ Deno.serve(async (req) => {
           })
           .eq('id', referral_id)
 
+        await audit({
+          action: 'referral.rejected',
+          targetType: 'referral',
+          targetId: referral_id,
+          before: referral,
+          after: { status: 'pending', funding_amount: null, funding_triggered_at: null },
+        })
+
         return new Response(JSON.stringify({ success: true }), {
           status: 200,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -506,6 +803,12 @@ Deno.serve(async (req) => {
           })
         }
 
+        const { data: blockProfile } = await supabaseAdmin
+          .from('profiles')
+          .select('is_blocked')
+          .eq('user_id', blockUserId)
+          .maybeSingle()
+
         const { error: blockError } = await supabaseAdmin
           .from('profiles')
           .update({ is_blocked })
@@ -513,12 +816,388 @@ Deno.serve(async (req) => {
 
         if (blockError) throw blockError
 
+        await audit({
+          action: is_blocked ? 'user.blocked' : 'user.unblocked',
+          targetType: 'user',
+          targetId: blockUserId,
+          targetUserId: blockUserId,
+          before: blockProfile,
+          after: { is_blocked },
+        })
+
         return new Response(JSON.stringify({ success: true, is_blocked }), {
           status: 200,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         })
       }
 
+      case 'account-deletions': {
+        const { data: requests, error: requestsError } = await supabaseAdmin
+          .from('account_deletion_requests')
+          .select('*')
+          .order('scheduled_for', { ascending: true })
+          .limit(200)
+
+        if (requestsError) throw requestsError
+
+        // Closed accounts are already anonymised, so only open ones have a name and balance to show
+        const requestsWithUsers = await Promise.all(
+          (requests || []).map(async (request) => {
+            if (request.status === 'completed') return { ...request, user_name: null, user_email: null, balance: null }
+
+            const [{ data: profile }, { data: wallet }] = await Promise.all([
+              supabaseAdmin.from('profiles').select('full_name, email').eq('user_id', request.user_id).maybeSingle(),
+              supabaseAdmin.from('wallets').select('balance').eq('user_id', request.user_id).maybeSingle(),
+            ])
+
+            return {
+              ...request,
+              user_name: profile?.full_name || 'Unknown',
+              user_email: profile?.email || '',
+              balance: wallet ? Number(wallet.balance) : null,
+            }
+          })
+        )
+
+        return new Response(JSON.stringify({ data: requestsWithUsers }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'airtime-cash-requests': {
+        const status = url.searchParams.get('status') || body.status
+
+        let query = supabaseAdmin
+          .from('airtime_cash_requests')
+          .select('*')
+          .order('created_at', { ascending: status === 'pending' })
+          .limit(200)
+
+        if (status && status !== 'all') {
+          query = query.eq('status', status)
+        }
+
+        const { data: requests, error: requestsError } = await query
+        if (requestsError) throw requestsError
+
+        // Proofs sit in a private bucket, so the queue gets short-lived links
+        const requestsWithUsers = await Promise.all(
+          (requests || []).map(async (request) => {
+            const [{ data: profile }, signed] = await Promise.all([
+              supabaseAdmin.from('profiles').select('full_name, email, phone').eq('user_id', request.user_id).maybeSingle(),
+              request.proof_path
+                ? supabaseAdmin.storage.from('airtime-cash-proofs').createSignedUrl(request.proof_path, 60 * 60)
+                : Promise.resolve({ data: null }),
+            ])
+
+            return {
+              ...request,
+              user_name: profile?.full_name || 'Unknown',
+              user_email: profile?.email || '',
+              user_phone: profile?.phone || '',
+              proof_url: signed.data?.signedUrl || null,
+            }
+          })
+        )
+
+        return new Response(JSON.stringify({ data: requestsWithUsers }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'approve-airtime-cash': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { request_id, amount_received, note } = body
+
+        if (!request_id || (amount_received != null && !(Number(amount_received) > 0))) {
+          return new Response(JSON.stringify({ error: 'Invalid request' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const reviewNote = typeof note === 'string' ? note.trim().slice(0, 500) || null : null
+        const { data: result, error: approveError } = await supabaseAdmin.rpc('approve_airtime_cash_request', {
+          p_request_id: request_id,
+          p_reviewed_by: user.id,
+          p_amount_received: amount_received != null ? Number(amount_received) : null,
+          p_note: reviewNote,
+        })
+
+        if (approveError) {
+          const known = Object.keys(AIRTIME_CASH_ERRORS).find((code) => (approveError.message || '').includes(code))
+          if (!known) throw approveError
+          return new Response(JSON.stringify({ error: AIRTIME_CASH_ERRORS[known].message }), {
+            status: AIRTIME_CASH_ERRORS[known].status,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const approved = result as {
+          user_id: string
+          network: string
+          amount: number
+          amount_received: number
+          payout_amount: number
+          transaction_id: string
+          balance: number
+        }
+
+        const payoutText = `₦${Number(approved.payout_amount).toLocaleString()}`
+        const airtimeText = `₦${Number(approved.amount_received).toLocaleString()} ${approved.network.toUpperCase()} airtime`
+        const approvedMessage = Number(approved.amount_received) < Number(approved.amount)
+          ? `We received ${airtimeText} of the ₦${Number(approved.amount).toLocaleString()} you sent for. ${payoutText} has been added to your wallet.`
+          : `Your ${airtimeText} was confirmed. ${payoutText} has been added to your wallet.`
+
+        await supabaseAdmin.from('notifications').insert({
+          user_id: approved.user_id,
+          title: 'Airtime Converted',
+          message: approvedMessage,
+          type: 'success',
+        })
+        await sendPushToUser(supabaseAdmin, approved.user_id, '💰 Airtime Converted', approvedMessage, {
+          type: 'airtime_cash_approved',
+          transaction_id: approved.transaction_id,
+        })
+
+        await audit({
+          action: 'airtime_cash.approved',
+          targetType: 'airtime_cash_request',
+          targetId: request_id,
+          targetUserId: approved.user_id,
+          before: { status: 'pending', amount: approved.amount },
+          after: { status: 'approved', amount_received: approved.amount_received, payout_amount: approved.payout_amount },
+          metadata: { transaction_id: approved.transaction_id, note: reviewNote },
+        })
+
+        return new Response(JSON.stringify({ success: true, payout_amount: approved.payout_amount, new_balance: approved.balance }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'reject-airtime-cash': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { request_id, note } = body
+        const reviewNote = typeof note === 'string' ? note.trim().slice(0, 500) : ''
+
+        if (!request_id || !reviewNote) {
+          return new Response(JSON.stringify({ error: 'Give a reason so the user knows what went wrong' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { data: rejected, error: rejectError } = await supabaseAdmin
+          .from('airtime_cash_requests')
+          .update({
+            status: 'rejected',
+            reviewed_by: user.id,
+            reviewed_at: new Date().toISOString(),
+            review_note: reviewNote,
+          })
+          .eq('id', request_id)
+          .eq('status', 'pending')
+          .select('id, user_id, network, amount')
+
+        if (rejectError) throw rejectError
+
+        if (!rejected?.length) {
+          return new Response(JSON.stringify({ error: 'This request has already been reviewed' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const rejectedRequest = rejected[0]
+        const rejectedMessage = `Your ₦${Number(rejectedRequest.amount).toLocaleString()} ${rejectedRequest.network.toUpperCase()} airtime to cash request was declined: ${reviewNote}`
+
+        await supabaseAdmin.from('notifications').insert({
+          user_id: rejectedRequest.user_id,
+          title: 'Airtime to Cash Declined',
+          message: rejectedMessage,
+          type: 'error',
+        })
+        await sendPushToUser(supabaseAdmin, rejectedRequest.user_id, 'Airtime to Cash Declined', rejectedMessage, {
+          type: 'airtime_cash_rejected',
+        })
+
+        await audit({
+          action: 'airtime_cash.rejected',
+          targetType: 'airtime_cash_request',
+          targetId: rejectedRequest.id,
+          targetUserId: rejectedRequest.user_id,
+          before: { status: 'pending' },
+          after: { status: 'rejected' },
+          metadata: { amount: rejectedRequest.amount, network: rejectedRequest.network, note: reviewNote },
+        })
+
+        return new Response(JSON.stringify({ success: true }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'set-user-tier': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // tier_id null puts the user back on the default tier
+        const { user_id: tierUserId, tier_id } = body
+
+        if (!tierUserId || (tier_id !== null && typeof tier_id !== 'string')) {
+          return new Response(JSON.stringify({ error: 'Invalid request' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        if (tier_id) {
+          const { data: tier } = await supabaseAdmin
+            .from('user_tiers')
+            .select('id')
+            .eq('id', tier_id)
+            .maybeSingle()
+
+          if (!tier) {
+            return new Response(JSON.stringify({ error: 'Tier not found' }), {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            })
+          }
+        }
+
+        const { data: tierProfile } = await supabaseAdmin
+          .from('profiles')
+          .select('tier_id')
+          .eq('user_id', tierUserId)
+          .maybeSingle()
+
+        const { error: tierError } = await supabaseAdmin
+          .from('profiles')
+          .update({ tier_id })
+          .eq('user_id', tierUserId)
+
+        if (tierError) throw tierError
+
+        await audit({
+          action: 'user.tier_changed',
+          targetType: 'user',
+          targetId: tierUserId,
+          targetUserId: tierUserId,
+          before: tierProfile,
+          after: { tier_id },
+        })
+
+        return new Response(JSON.stringify({ success: true, tier_id }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'replay-webhook-event': {
+        if (req.method !== 'POST') {
+          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+            status: 405,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { event_id } = body
+
+        if (!event_id) {
+          return new Response(JSON.stringify({ error: 'Invalid request' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        const { data: event, error: eventError } = await supabaseAdmin
+          .from('paymentpoint_webhook_events')
+          .select('id, raw_body, status, transaction_reference')
+          .eq('id', event_id)
+          .maybeSingle()
+
+        if (eventError) throw eventError
+
+        if (!event) {
+          return new Response(JSON.stringify({ error: 'Webhook event not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // Only events that never credited anything can be replayed
+        if (!['quarantined', 'failed'].includes(event.status)) {
+          return new Response(JSON.stringify({ error: `Webhook event is already ${event.status}` }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        let payload: PaymentPointPayload
+        try {
+          payload = JSON.parse(event.raw_body)
+        } catch {
+          return new Response(JSON.stringify({ error: 'Webhook payload is not valid JSON' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          })
+        }
+
+        // The admin vouches for the payload, so the signature is not re-checked;
+        // the transaction reference still guards against crediting it twice
+        const outcome = await processPaymentPointPayment(supabaseAdmin, payload)
+        const now = new Date().toISOString()
+
+        const { error: replayError } = await supabaseAdmin
+          .from('paymentpoint_webhook_events')
+          .update({
+            status: outcome.outcome === 'processed' ? 'replayed' : outcome.outcome,
+            result: { status: outcome.status, body: outcome.body },
+            processed_at: now,
+            replayed_by: user.id,
+            replayed_at: now,
+          })
+          .eq('id', event.id)
+
+        if (replayError) throw replayError
+
+        await audit({
+          action: 'webhook_event.replayed',
+          targetType: 'webhook_event',
+          targetId: event.id,
+          before: { status: event.status },
+          after: { status: outcome.outcome === 'processed' ? 'replayed' : outcome.outcome },
+          metadata: { reference: event.transaction_reference },
+        })
+
+        console.log('Webhook event replayed:', { event_id: event.id, outcome: outcome.outcome, replayed_by: user.id })
+
+        return new Response(JSON.stringify({ success: outcome.outcome !== 'failed', outcome: outcome.outcome, result: outcome.body }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
       default:
         return new Response(JSON.stringify({ error: 'Invalid action' }), {
           status: 400,
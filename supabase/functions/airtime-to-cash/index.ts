@@ -0,0 +1,164 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { normalizePhone } from '../_shared/phone.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AirtimeToCashRequest {
+  action?: 'status' | 'submit'
+  network?: string
+  amount?: number
+  sender_phone?: string
+  proof_path?: string
+}
+
+const SUBMIT_ERRORS: Record<string, { status: number; message: string }> = {
+  INVALID_AMOUNT: { status: 400, message: 'Enter a valid amount' },
+  AIRTIME_CASH_DISABLED: { status: 403, message: 'Airtime to cash is currently unavailable' },
+  NETWORK_UNAVAILABLE: { status: 400, message: 'This network is not accepting airtime right now' },
+  AMOUNT_BELOW_MINIMUM: { status: 400, message: 'Amount is below the minimum for this network' },
+  AMOUNT_ABOVE_MAXIMUM: { status: 400, message: 'Amount is above the maximum for this network' },
+  TOO_MANY_PENDING: { status: 429, message: 'You already have requests waiting for review. Please wait for them to be processed.' },
+  DAILY_LIMIT_EXCEEDED: { status: 400, message: 'This would take you over your daily airtime to cash limit' },
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: AirtimeToCashRequest = await req.json().catch(() => ({}))
+    const action = body.action || 'status'
+
+    if (action === 'status') {
+      const [{ data: settings }, { data: rates }, { data: usedToday }, { data: requests }] = await Promise.all([
+        adminSupabase.from('airtime_cash_settings').select('is_enabled, daily_limit, max_pending').limit(1).maybeSingle(),
+        adminSupabase
+          .from('airtime_cash_rates')
+          .select('network, rate_percent, receiving_number, min_amount, max_amount')
+          .eq('is_enabled', true)
+          .not('receiving_number', 'is', null),
+        adminSupabase.rpc('get_airtime_cash_total_today', { p_user_id: userId }),
+        adminSupabase
+          .from('airtime_cash_requests')
+          .select('id, network, amount, rate_percent, payout_amount, amount_received, sender_phone, status, review_note, created_at, reviewed_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ])
+
+      const dailyLimit = Number(settings?.daily_limit ?? 0)
+      const used = Number(usedToday || 0)
+
+      return jsonResponse({
+        is_enabled: settings?.is_enabled ?? false,
+        daily_limit: dailyLimit,
+        used_today: used,
+        remaining_today: Math.max(0, dailyLimit - used),
+        rates: rates || [],
+        requests: requests || [],
+      })
+    }
+
+    if (action !== 'submit') {
+      return jsonResponse({ error: 'Invalid action' }, 400)
+    }
+
+    const { data: profile } = await adminSupabase
+      .from('profiles')
+      .select('is_blocked')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!profile) {
+      return jsonResponse({ error: 'Profile not found' }, 404)
+    }
+
+    if (profile.is_blocked) {
+      return jsonResponse({ error: 'Your account has been suspended. Please contact support.' }, 403)
+    }
+
+    const network = String(body.network || '')
+    const amount = Number(body.amount)
+    if (!network || !Number.isFinite(amount) || amount <= 0) {
+      return jsonResponse({ error: 'Choose a network and enter an amount' }, 400)
+    }
+
+    const senderPhone = normalizePhone(String(body.sender_phone || ''))
+    if (!senderPhone) {
+      return jsonResponse({ error: 'Enter the number you sent the airtime from', code: 'INVALID_PHONE' }, 400)
+    }
+
+    // Screenshots may only come from the user's own folder in the proofs bucket
+    const proofPath = body.proof_path ? String(body.proof_path) : null
+    if (proofPath && (!proofPath.startsWith(`${userId}/`) || proofPath.includes('..'))) {
+      return jsonResponse({ error: 'Invalid proof upload' }, 400)
+    }
+
+    const { data: request, error: submitError } = await adminSupabase.rpc('submit_airtime_cash_request', {
+      p_user_id: userId,
+      p_network: network,
+      p_amount: amount,
+      p_sender_phone: senderPhone,
+      p_proof_path: proofPath,
+    })
+
+    if (submitError) {
+      const known = Object.keys(SUBMIT_ERRORS).find((code) => (submitError.message || '').includes(code))
+      if (!known) throw submitError
+      return jsonResponse({ error: SUBMIT_ERRORS[known].message, code: known }, SUBMIT_ERRORS[known].status)
+    }
+
+    const submitted = request as { id: string; payout_amount: number }
+
+    await adminSupabase.from('notifications').insert({
+      user_id: userId,
+      title: 'Airtime to Cash Request Received',
+      message: `We are checking your ₦${amount.toLocaleString()} ${network.toUpperCase()} airtime. ₦${Number(submitted.payout_amount).toLocaleString()} will be added to your wallet once it is confirmed.`,
+      type: 'info',
+    })
+
+    console.log('Airtime to cash request submitted:', { userId, requestId: submitted.id, network, amount })
+    return jsonResponse({ success: true, request })
+  } catch (error: unknown) {
+    console.error('Airtime to cash error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,247 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { generateApiKey, generateCallbackSecret, isApiKeyScope } from '../_shared/api-keys.ts'
+import { endpointTargetError } from '../_shared/outbound-webhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_KEYS_PER_USER = 10
+// How long a rotated key keeps working alongside its replacement
+const ROTATION_GRACE_HOURS = 24
+const IP_PATTERN = /^[0-9A-Fa-f:.]{2,45}$/
+
+interface ApiKeySettings {
+  name?: unknown
+  scopes?: unknown
+  allowed_ips?: unknown
+  callback_url?: unknown
+}
+
+interface ApiKeysRequest extends ApiKeySettings {
+  action?: 'create' | 'update' | 'rotate' | 'revoke'
+  id?: string
+  pin?: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+/** Validated columns from a create/update body, or an error message */
+async function parseSettings(body: ApiKeySettings, partial: boolean): Promise<{ values: Record<string, unknown> } | { error: string }> {
+  const values: Record<string, unknown> = {}
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > 60) return { error: 'Name must be 1 to 60 characters' }
+    values.name = name
+  }
+
+  if (body.scopes !== undefined || !partial) {
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isApiKeyScope)) {
+      return { error: 'Choose at least one valid scope' }
+    }
+    values.scopes = [...new Set(body.scopes)]
+  }
+
+  if (body.allowed_ips !== undefined) {
+    if (!Array.isArray(body.allowed_ips) || body.allowed_ips.length > 20 ||
+        !body.allowed_ips.every((ip) => typeof ip === 'string' && IP_PATTERN.test(ip))) {
+      return { error: 'IP allowlist must be up to 20 IPv4 or IPv6 addresses' }
+    }
+    values.allowed_ips = body.allowed_ips
+  }
+
+  if (body.callback_url !== undefined) {
+    if (body.callback_url === null || body.callback_url === '') {
+      values.callback_url = null
+    } else {
+      let url: URL
+      try {
+        url = new URL(String(body.callback_url))
+        if (url.protocol !== 'https:') throw new Error('not https')
+      } catch {
+        return { error: 'Callback URL must be a valid https:// URL' }
+      }
+      // deliver-api-callbacks checks the resolved address again before every attempt
+      const targetError = await endpointTargetError(url.toString())
+      if (targetError) return { error: targetError }
+      values.callback_url = url.toString()
+    }
+  }
+
+  return { values }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: ApiKeysRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const action = body.action
+
+    if (action === 'create' || action === 'rotate' || action === 'update') {
+      // A key can spend the wallet without the PIN, so issuing one or widening
+      // what it may do (scopes, allowed IPs, callback URL) requires it
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+    }
+
+    if (action === 'create') {
+      const parsed = await parseSettings(body, false)
+      if ('error' in parsed) return jsonResponse({ error: parsed.error }, 400)
+
+      const { count } = await adminSupabase
+        .from('api_keys')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+
+      if ((count ?? 0) >= MAX_KEYS_PER_USER) {
+        return jsonResponse({ error: `You can have at most ${MAX_KEYS_PER_USER} active API keys` }, 400)
+      }
+
+      const generated = await generateApiKey()
+      const { data: created, error: createError } = await adminSupabase
+        .from('api_keys')
+        .insert({
+          ...parsed.values,
+          user_id: userId,
+          prefix: generated.prefix,
+          key_hash: generated.key_hash,
+          callback_secret: generateCallbackSecret(),
+        })
+        .select('id, prefix')
+        .single()
+
+      if (createError) throw createError
+
+      console.log('API key created:', { userId, keyId: created.id })
+      return jsonResponse({ success: true, id: created.id, prefix: created.prefix, key: generated.key }, 201)
+    }
+
+    if (action !== 'update' && action !== 'rotate' && action !== 'revoke') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    if (!body.id) {
+      return jsonResponse({ error: 'Missing key id' }, 400)
+    }
+
+    const { data: apiKey } = await adminSupabase
+      .from('api_keys')
+      .select('*')
+      .eq('id', body.id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (!apiKey) {
+      return jsonResponse({ error: 'API key not found' }, 404)
+    }
+
+    if (action === 'update') {
+      const parsed = await parseSettings(body, true)
+      if ('error' in parsed) return jsonResponse({ error: parsed.error }, 400)
+
+      const { error: updateError } = await adminSupabase
+        .from('api_keys')
+        .update(parsed.values)
+        .eq('id', apiKey.id)
+
+      if (updateError) throw updateError
+      return jsonResponse({ success: true })
+    }
+
+    if (action === 'revoke') {
+      const { error: revokeError } = await adminSupabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', apiKey.id)
+
+      if (revokeError) throw revokeError
+
+      console.log('API key revoked:', { userId, keyId: apiKey.id })
+      return jsonResponse({ success: true })
+    }
+
+    // Rotate: same settings and callback secret under a new key; the old key
+    // keeps working for the grace period so the partner can deploy the new one
+    const generated = await generateApiKey()
+    const { data: rotated, error: rotateError } = await adminSupabase
+      .from('api_keys')
+      .insert({
+        user_id: userId,
+        name: apiKey.name,
+        prefix: generated.prefix,
+        key_hash: generated.key_hash,
+        scopes: apiKey.scopes,
+        allowed_ips: apiKey.allowed_ips,
+        rate_limit_per_minute: apiKey.rate_limit_per_minute,
+        callback_url: apiKey.callback_url,
+        callback_secret: apiKey.callback_secret,
+        rotated_from: apiKey.id,
+      })
+      .select('id, prefix')
+      .single()
+
+    if (rotateError) throw rotateError
+
+    const graceEnds = new Date(Date.now() + ROTATION_GRACE_HOURS * 60 * 60 * 1000)
+    const expiresAt = apiKey.expires_at && new Date(apiKey.expires_at) < graceEnds ? apiKey.expires_at : graceEnds.toISOString()
+    await adminSupabase
+      .from('api_keys')
+      .update({ expires_at: expiresAt })
+      .eq('id', apiKey.id)
+
+    console.log('API key rotated:', { userId, from: apiKey.id, to: rotated.id })
+    return jsonResponse({
+      success: true,
+      id: rotated.id,
+      prefix: rotated.prefix,
+      key: generated.key,
+      previous_key_expires_at: expiresAt,
+    }, 201)
+
+  } catch (error) {
+    console.error('API keys error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
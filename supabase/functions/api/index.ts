@@ -0,0 +1,300 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hashApiKey, type ApiKeyScope } from '../_shared/api-keys.ts'
+import { GATEWAY_KEY_HEADER, GATEWAY_USER_HEADER } from '../_shared/caller.ts'
+import { IDEMPOTENCY_HEADER } from '../_shared/idempotency.ts'
+import { REQUERY_CATEGORIES, requeryPendingTransaction } from '../_shared/requery.ts'
+import { metadataOf } from '../_shared/settle-transaction.ts'
+import { loadTierPricing, tierAirtimeDiscount, tierPrice } from '../_shared/tier-pricing.ts'
+import { sourceIp } from '../_shared/webhook-security.ts'
+
+// Public REST API for partners: https://<project>.supabase.co/functions/v1/api/v1/...
+// Authenticated with an API key (X-API-Key header) instead of a user session.
+
+const jsonHeaders = { 'Content-Type': 'application/json' }
+
+interface ApiKey {
+  id: string
+  user_id: string
+  scopes: ApiKeyScope[]
+  allowed_ips: string[]
+  rate_limit_per_minute: number
+  expires_at: string | null
+}
+
+interface ApiResult {
+  status: number
+  body: Record<string, unknown>
+  reference?: string | null
+  headers?: Record<string, string>
+}
+
+function result(status: number, body: Record<string, unknown>, reference?: string | null): ApiResult {
+  return { status, body, reference }
+}
+
+function readApiKey(req: Request) {
+  const header = req.headers.get('x-api-key')?.trim()
+  if (header) return header
+  const bearer = req.headers.get('Authorization')?.replace('Bearer ', '').trim()
+  return bearer?.startsWith('vtu_') ? bearer : null
+}
+
+/** Path below the function name, e.g. /v1/plans/data */
+function routeOf(req: Request) {
+  return new URL(req.url).pathname.replace(/^(\/functions\/v1)?\/api(?=\/|$)/, '') || '/'
+}
+
+/** Hand a purchase to the buy-* function, which debits, fails over and refunds exactly as for app users */
+async function forwardPurchase(
+  fn: 'buy-data' | 'buy-airtime',
+  apiKey: ApiKey,
+  req: Request,
+  payload: Record<string, unknown>
+): Promise<ApiResult> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const idempotencyKey = req.headers.get(IDEMPOTENCY_HEADER)
+
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${fn}`, {
+    method: 'POST',
+    headers: {
+      ...jsonHeaders,
+      Authorization: `Bearer ${serviceRoleKey}`,
+      [GATEWAY_USER_HEADER]: apiKey.user_id,
+      [GATEWAY_KEY_HEADER]: apiKey.id,
+      ...(idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {}),
+    },
+    body: JSON.stringify(payload),
+  })
+
+  const body = await response.json().catch(() => ({ error: 'Invalid response from purchase service' }))
+  return result(response.status, body, typeof body.reference === 'string' ? body.reference : null)
+}
+
+async function listDataPlans(supabase: SupabaseClient, apiKey: ApiKey, params: URLSearchParams): Promise<ApiResult> {
+  let query = supabase
+    .from('data_plans')
+    .select('id, network, category, display_name, data_amount, validity, selling_price, api_price')
+    .eq('is_active', true)
+    .order('network')
+    .order('selling_price')
+
+  const network = params.get('network')
+  if (network) query = query.eq('network', network.toLowerCase())
+
+  const { data: plans, error } = await query
+  if (error) throw error
+
+  const pricing = await loadTierPricing(supabase, apiKey.user_id, 'data')
+  return result(200, {
+    data: (plans ?? []).map((p) => ({
+      id: p.id,
+      network: p.network,
+      category: p.category,
+      name: p.display_name,
+      data_amount: p.data_amount,
+      validity: p.validity,
+      price: tierPrice(pricing, p.id, Number(p.selling_price), Number(p.api_price)),
+    })),
+  })
+}
+
+async function listAirtimeRates(supabase: SupabaseClient, apiKey: ApiKey): Promise<ApiResult> {
+  const { data: plans, error } = await supabase
+    .from('airtime_plans')
+    .select('id, network, discount_percent')
+    .eq('is_active', true)
+
+  if (error) throw error
+
+  // One rate per network: the best discount buy-airtime would apply, within its amount limits
+  const pricing = await loadTierPricing(supabase, apiKey.user_id, 'airtime')
+  const rates = new Map<string, { network: string; discount_percent: number; min_amount: number; max_amount: number }>()
+  for (const plan of plans ?? []) {
+    const discount = tierAirtimeDiscount(pricing, plan.id, Number(plan.discount_percent) || 0)
+    const current = rates.get(plan.network)
+    if (!current || discount > current.discount_percent) {
+      rates.set(plan.network, { network: plan.network, discount_percent: discount, min_amount: 50, max_amount: 50000 })
+    }
+  }
+
+  return result(200, { data: [...rates.values()] })
+}
+
+async function getBalance(supabase: SupabaseClient, apiKey: ApiKey): Promise<ApiResult> {
+  const { data: wallet, error } = await supabase
+    .from('wallets')
+    .select('balance')
+    .eq('user_id', apiKey.user_id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!wallet) return result(404, { error: 'Wallet not found' })
+  return result(200, { data: { balance: Number(wallet.balance), currency: 'NGN' } })
+}
+
+async function findTransaction(supabase: SupabaseClient, apiKey: ApiKey, reference: string) {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, user_id, reference, status, category, amount, description, metadata, created_at')
+    .eq('reference', reference)
+    .eq('user_id', apiKey.user_id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+function transactionView(transaction: NonNullable<Awaited<ReturnType<typeof findTransaction>>>) {
+  const metadata = metadataOf(transaction)
+  return {
+    reference: transaction.reference,
+    status: transaction.status,
+    category: transaction.category,
+    amount: Number(transaction.amount),
+    description: transaction.description,
+    failure_reason: metadata.failure_reason ?? null,
+    created_at: transaction.created_at,
+  }
+}
+
+async function getTransaction(supabase: SupabaseClient, apiKey: ApiKey, reference: string): Promise<ApiResult> {
+  const transaction = await findTransaction(supabase, apiKey, reference)
+  if (!transaction) return result(404, { error: 'Transaction not found' }, reference)
+  return result(200, { data: transactionView(transaction) }, reference)
+}
+
+async function requeryTransaction(supabase: SupabaseClient, apiKey: ApiKey, reference: string): Promise<ApiResult> {
+  const transaction = await findTransaction(supabase, apiKey, reference)
+  if (!transaction) return result(404, { error: 'Transaction not found' }, reference)
+
+  if (transaction.status === 'pending' && REQUERY_CATEGORIES.includes(transaction.category)) {
+    await requeryPendingTransaction(supabase, { ...transaction, reference }, 'api_requery')
+    const refreshed = await findTransaction(supabase, apiKey, reference)
+    return result(200, { data: transactionView(refreshed ?? transaction) }, reference)
+  }
+
+  return result(200, { data: transactionView(transaction) }, reference)
+}
+
+const ROUTE_SCOPES: { method: string; pattern: RegExp; scope: ApiKeyScope }[] = [
+  { method: 'GET', pattern: /^\/v1\/plans\/(data|airtime)$/, scope: 'plans:read' },
+  { method: 'GET', pattern: /^\/v1\/balance$/, scope: 'wallet:read' },
+  { method: 'POST', pattern: /^\/v1\/purchase\/(data|airtime)$/, scope: 'purchase' },
+  { method: 'GET', pattern: /^\/v1\/transactions\/[^/]+$/, scope: 'transactions:read' },
+  { method: 'POST', pattern: /^\/v1\/transactions\/[^/]+\/requery$/, scope: 'purchase' },
+]
+
+async function handle(req: Request, supabase: SupabaseClient, apiKey: ApiKey, route: string): Promise<ApiResult> {
+  const match = ROUTE_SCOPES.find((r) => r.method === req.method && r.pattern.test(route))
+  if (!match) return result(404, { error: `No route for ${req.method} ${route}` })
+  if (!apiKey.scopes.includes(match.scope)) {
+    return result(403, { error: `This API key lacks the ${match.scope} scope` })
+  }
+
+  const params = new URL(req.url).searchParams
+  const [, , resource, id, sub] = route.split('/')
+
+  if (resource === 'plans') {
+    return id === 'data' ? listDataPlans(supabase, apiKey, params) : listAirtimeRates(supabase, apiKey)
+  }
+  if (resource === 'balance') return getBalance(supabase, apiKey)
+  if (resource === 'transactions') {
+    const reference = decodeURIComponent(id)
+    return sub === 'requery' ? requeryTransaction(supabase, apiKey, reference) : getTransaction(supabase, apiKey, reference)
+  }
+
+  // Purchases
+  const body = await req.json().catch(() => null)
+  if (!body || typeof body !== 'object') return result(400, { error: 'Request body must be a JSON object' })
+
+  return id === 'data'
+    ? forwardPurchase('buy-data', apiKey, req, { plan_id: body.plan_id, phone_number: body.phone_number, ported: body.ported === true })
+    : forwardPurchase('buy-airtime', apiKey, req, { network: body.network, phone_number: body.phone_number, amount: body.amount, ported: body.ported === true })
+}
+
+Deno.serve(async (req) => {
+  const startedAt = Date.now()
+  const route = routeOf(req)
+  const ip = sourceIp(req.headers)
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  )
+
+  const send = ({ status, body, headers }: ApiResult) =>
+    new Response(JSON.stringify(body), { status, headers: { ...jsonHeaders, ...headers } })
+
+  try {
+    const rawKey = readApiKey(req)
+    if (!rawKey) return send(result(401, { error: 'Missing API key' }))
+
+    const { data: apiKey, error: keyError } = await supabase
+      .from('api_keys')
+      .select('id, user_id, scopes, allowed_ips, rate_limit_per_minute, expires_at')
+      .eq('key_hash', await hashApiKey(rawKey))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (keyError) throw keyError
+    if (!apiKey || (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now())) {
+      return send(result(401, { error: 'Invalid API key' }))
+    }
+
+    // Every request made with a valid key is logged, including rejected ones
+    const finish = async (outcome: ApiResult) => {
+      const [{ error: logError }] = await Promise.all([
+        supabase.from('api_request_logs').insert({
+          api_key_id: apiKey.id,
+          user_id: apiKey.user_id,
+          method: req.method,
+          path: route,
+          status_code: outcome.status,
+          ip,
+          duration_ms: Date.now() - startedAt,
+          reference: outcome.reference ?? null,
+          error: typeof outcome.body.error === 'string' ? outcome.body.error : null,
+        }),
+        supabase.from('api_keys').update({ last_used_at: new Date().toISOString(), last_used_ip: ip }).eq('id', apiKey.id),
+      ])
+      if (logError) console.error('Failed to log API request:', logError)
+      return send(outcome)
+    }
+
+    if (apiKey.allowed_ips.length > 0 && (!ip || !apiKey.allowed_ips.includes(ip))) {
+      return await finish(result(403, { error: `Requests from ${ip ?? 'unknown IP'} are not allowed for this key` }))
+    }
+
+    const { data: used, error: limitError } = await supabase.rpc('hit_api_rate_limit', { p_api_key_id: apiKey.id })
+    if (limitError) throw limitError
+
+    const rateHeaders = {
+      'X-RateLimit-Limit': String(apiKey.rate_limit_per_minute),
+      'X-RateLimit-Remaining': String(Math.max(apiKey.rate_limit_per_minute - Number(used), 0)),
+    }
+    if (Number(used) > apiKey.rate_limit_per_minute) {
+      const retryAfter = 60 - new Date().getUTCSeconds()
+      return await finish({
+        ...result(429, { error: 'Rate limit exceeded' }),
+        headers: { ...rateHeaders, 'Retry-After': String(retryAfter) },
+      })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_blocked')
+      .eq('user_id', apiKey.user_id)
+      .maybeSingle()
+
+    if (profile?.is_blocked) {
+      return await finish(result(403, { error: 'Your account has been suspended. Please contact support.' }))
+    }
+
+    const outcome = await handle(req, supabase, apiKey as ApiKey, route)
+    return await finish({ ...outcome, headers: { ...rateHeaders, ...outcome.headers } })
+
+  } catch (error) {
+    console.error('API gateway error:', { route, error })
+    return send(result(500, { error: 'Internal server error' }))
+  }
+})
@@ -0,0 +1,219 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { checkRecipient } from '../_shared/phone.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_RULES = 10
+const NETWORKS = ['mtn', 'glo', 'airtel', '9mobile']
+const LIMIT_PERIODS = ['day', 'week', 'month']
+
+interface AutoTopupRulesRequest {
+  action?: 'create' | 'pause' | 'resume' | 'delete'
+  id?: string
+  pin?: string
+  recipient_name?: string
+  network?: string
+  phone_number?: string
+  ported?: boolean
+  product_type?: 'data' | 'airtime'
+  plan_id?: string
+  amount?: number
+  trigger_type?: 'wallet_credit' | 'time_window'
+  min_credit_amount?: number
+  window_period?: 'day' | 'week'
+  window_start_hour?: number
+  window_end_hour?: number
+  spend_limit?: number | null
+  spend_limit_period?: 'day' | 'week' | 'month'
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const isIntBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: AutoTopupRulesRequest = await req.json().catch(() => ({}))
+
+    if (body.action === 'create') {
+      const network = body.network?.toLowerCase() ?? ''
+      if (!NETWORKS.includes(network)) return jsonResponse({ error: 'Choose a network' }, 400)
+      // Confirmed once here; the runs then buy for the number as ported
+      const phoneCheck = checkRecipient(body.phone_number ?? '', network, body.ported === true)
+      if (!phoneCheck.ok) return jsonResponse({ error: phoneCheck.error, code: phoneCheck.code }, 400)
+      const phone = phoneCheck.phone
+
+      let product: Record<string, unknown>
+      if (body.product_type === 'data') {
+        const { data: plan } = await adminSupabase
+          .from('data_plans')
+          .select('id, network')
+          .eq('id', body.plan_id ?? '')
+          .eq('is_active', true)
+          .maybeSingle()
+
+        if (!plan || plan.network !== network) return jsonResponse({ error: 'Data plan not found or inactive' }, 400)
+        product = { product_type: 'data', plan_id: plan.id }
+      } else if (body.product_type === 'airtime') {
+        const amount = Number(body.amount)
+        if (!Number.isFinite(amount) || amount < 50 || amount > 50000) {
+          return jsonResponse({ error: 'Amount must be between ₦50 and ₦50,000' }, 400)
+        }
+        product = { product_type: 'airtime', amount }
+      } else {
+        return jsonResponse({ error: 'Choose data or airtime' }, 400)
+      }
+
+      let trigger: Record<string, unknown>
+      if (body.trigger_type === 'wallet_credit') {
+        const minCredit = Number(body.min_credit_amount ?? 0)
+        if (!Number.isFinite(minCredit) || minCredit < 0) return jsonResponse({ error: 'Invalid minimum deposit' }, 400)
+        trigger = { trigger_type: 'wallet_credit', min_credit_amount: minCredit }
+      } else if (body.trigger_type === 'time_window') {
+        const start = body.window_start_hour
+        const end = body.window_end_hour
+        if (body.window_period !== 'day' && body.window_period !== 'week') {
+          return jsonResponse({ error: 'Choose daily or weekly' }, 400)
+        }
+        if (!isIntBetween(start, 0, 23) || !isIntBetween(end, 1, 24) || end <= start) {
+          return jsonResponse({ error: 'Choose a valid time window' }, 400)
+        }
+        trigger = { trigger_type: 'time_window', window_period: body.window_period, window_start_hour: start, window_end_hour: end }
+      } else {
+        return jsonResponse({ error: 'Choose when the rule should run' }, 400)
+      }
+
+      const spendLimit = body.spend_limit == null ? null : Number(body.spend_limit)
+      if (spendLimit !== null && (!Number.isFinite(spendLimit) || spendLimit <= 0)) {
+        return jsonResponse({ error: 'Spending limit must be more than ₦0' }, 400)
+      }
+      const limitPeriod = body.spend_limit_period ?? 'week'
+      if (!LIMIT_PERIODS.includes(limitPeriod)) return jsonResponse({ error: 'Invalid spending limit period' }, 400)
+
+      const { count } = await adminSupabase
+        .from('auto_topup_rules')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+
+      if ((count ?? 0) >= MAX_RULES) {
+        return jsonResponse({ error: `You can have at most ${MAX_RULES} auto top-up rules` }, 400)
+      }
+
+      // Rules spend the wallet without asking again, so saving one requires the PIN
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+
+      const { data: created, error: createError } = await adminSupabase
+        .from('auto_topup_rules')
+        .insert({
+          ...product,
+          ...trigger,
+          user_id: userId,
+          recipient_name: body.recipient_name?.trim().slice(0, 60) || null,
+          network,
+          phone_number: phone,
+          spend_limit: spendLimit,
+          spend_limit_period: limitPeriod,
+        })
+        .select('id')
+        .single()
+
+      if (createError) throw createError
+
+      console.log('Auto top-up rule created:', { userId, ruleId: created.id, trigger: body.trigger_type })
+      return jsonResponse({ success: true, id: created.id }, 201)
+    }
+
+    if (body.action !== 'pause' && body.action !== 'resume' && body.action !== 'delete') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const { data: rule } = await adminSupabase
+      .from('auto_topup_rules')
+      .select('id')
+      .eq('id', body.id ?? '')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!rule) return jsonResponse({ error: 'Auto top-up rule not found' }, 404)
+
+    // Resuming lets the rule spend the wallet again, so it needs the PIN like saving one
+    if (body.action === 'resume') {
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+    }
+
+    if (body.action === 'delete') {
+      const { error: deleteError } = await adminSupabase.from('auto_topup_rules').delete().eq('id', rule.id)
+      if (deleteError) throw deleteError
+      return jsonResponse({ success: true })
+    }
+
+    const { error: updateError } = await adminSupabase
+      .from('auto_topup_rules')
+      .update({ is_active: body.action === 'resume' })
+      .eq('id', rule.id)
+
+    if (updateError) throw updateError
+
+    // Runs queued before a pause are dropped rather than bought late
+    if (body.action === 'pause') {
+      await adminSupabase
+        .from('auto_topup_runs')
+        .update({ status: 'skipped', error: 'Rule paused', processed_at: new Date().toISOString() })
+        .eq('rule_id', rule.id)
+        .eq('status', 'queued')
+    }
+
+    return jsonResponse({ success: true, is_active: body.action === 'resume' })
+
+  } catch (error) {
+    console.error('Auto top-up rules error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
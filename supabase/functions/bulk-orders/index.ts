@@ -0,0 +1,212 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { loadTierPricing, tierAirtimeDiscount, tierPrice } from '../_shared/tier-pricing.ts'
+import { checkRecipient } from '../_shared/phone.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_LINES = 200
+const NETWORKS = ['mtn', 'glo', 'airtel', '9mobile']
+
+interface BulkOrderLineInput {
+  phone_number?: unknown
+  amount?: unknown
+  // Set for lines the preview flagged as another network's prefix
+  ported?: unknown
+}
+
+interface BulkOrdersRequest {
+  action?: 'create'
+  product_type?: 'data' | 'airtime'
+  network?: string
+  plan_id?: string
+  lines?: BulkOrderLineInput[]
+  pin?: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data: profile } = await adminSupabase
+      .from('profiles')
+      .select('is_blocked')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (profile?.is_blocked) {
+      return jsonResponse({ error: 'Your account has been suspended. Please contact support.' }, 403)
+    }
+
+    const body: BulkOrdersRequest = await req.json().catch(() => ({}))
+    if (body.action !== 'create') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const productType = body.product_type
+    const network = body.network?.toLowerCase() ?? ''
+    if ((productType !== 'data' && productType !== 'airtime') || !NETWORKS.includes(network)) {
+      return jsonResponse({ error: 'Choose a product and network' }, 400)
+    }
+
+    if (!Array.isArray(body.lines) || body.lines.length === 0 || body.lines.length > MAX_LINES) {
+      return jsonResponse({ error: `A bulk order needs between 1 and ${MAX_LINES} numbers` }, 400)
+    }
+
+    // Validate every line up front so the user can fix the file before anything is charged
+    const lines: { phone_number: string; amount: number | null; ported: boolean }[] = []
+    const invalid: { line: number; error: string }[] = []
+    body.lines.forEach((line, index) => {
+      const phoneCheck = checkRecipient(String(line.phone_number ?? ''), network, line.ported === true)
+      if (!phoneCheck.ok) {
+        invalid.push({ line: index + 1, error: phoneCheck.error })
+        return
+      }
+      const phone = phoneCheck.phone
+      if (productType === 'data') {
+        lines.push({ phone_number: phone, amount: null, ported: phoneCheck.ported })
+        return
+      }
+      const amount = Number(line.amount)
+      if (!Number.isFinite(amount) || amount < 50 || amount > 50000) {
+        invalid.push({ line: index + 1, error: 'Amount must be between ₦50 and ₦50,000' })
+        return
+      }
+      lines.push({ phone_number: phone, amount, ported: phoneCheck.ported })
+    })
+
+    if (invalid.length > 0) {
+      return jsonResponse({ error: `${invalid.length} line(s) are invalid`, invalid_lines: invalid }, 400)
+    }
+
+    let estimatedTotal = 0
+    let plan: { id: string; display_name: string } | null = null
+
+    if (productType === 'data') {
+      const { data: dataPlan } = await adminSupabase
+        .from('data_plans')
+        .select('id, display_name, network, selling_price, api_price')
+        .eq('id', body.plan_id ?? '')
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (!dataPlan || dataPlan.network !== network) {
+        return jsonResponse({ error: 'Data plan not found or inactive' }, 404)
+      }
+
+      const pricing = await loadTierPricing(adminSupabase, userId, 'data')
+      const unitPrice = tierPrice(pricing, dataPlan.id, Number(dataPlan.selling_price), Number(dataPlan.api_price))
+      estimatedTotal = unitPrice * lines.length
+      plan = dataPlan
+    } else {
+      const { data: airtimePlans } = await adminSupabase
+        .from('airtime_plans')
+        .select('id, discount_percent')
+        .eq('network', network)
+        .eq('is_active', true)
+
+      // Same choice buy-airtime makes: the best discount for this user
+      const pricing = await loadTierPricing(adminSupabase, userId, 'airtime')
+      const discount = Math.max(0, ...(airtimePlans ?? []).map((p) => tierAirtimeDiscount(pricing, p.id, p.discount_percent || 0)))
+      estimatedTotal = lines.reduce((sum, line) => sum + (line.amount ?? 0) * (1 - discount / 100), 0)
+    }
+    estimatedTotal = Math.round(estimatedTotal * 100) / 100
+
+    const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+    if (!pinCheck.ok) {
+      return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+    }
+
+    const { data: wallet } = await adminSupabase
+      .from('wallets')
+      .select('balance')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!wallet || Number(wallet.balance) < estimatedTotal) {
+      return jsonResponse({ error: 'Insufficient balance', estimated_total: estimatedTotal }, 400)
+    }
+
+    const { data: order, error: orderError } = await adminSupabase
+      .from('bulk_orders')
+      .insert({
+        user_id: userId,
+        product_type: productType,
+        network,
+        plan_id: plan?.id ?? null,
+        plan_name: plan?.display_name ?? null,
+        line_count: lines.length,
+        estimated_total: estimatedTotal,
+      })
+      .select('id')
+      .single()
+
+    if (orderError) throw orderError
+
+    const { error: linesError } = await adminSupabase
+      .from('bulk_order_lines')
+      .insert(lines.map((line, index) => ({ ...line, order_id: order.id, user_id: userId, line_no: index + 1 })))
+
+    if (linesError) {
+      await adminSupabase.from('bulk_orders').delete().eq('id', order.id)
+      throw linesError
+    }
+
+    console.log('Bulk order placed:', { userId, orderId: order.id, productType, lines: lines.length, estimatedTotal })
+
+    // Start processing now rather than at the next scheduled run; if this
+    // kick is lost the schedule picks the order up within a minute
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-bulk-orders`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceRoleKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order_id: order.id }),
+      signal: AbortSignal.timeout(1500),
+    }).catch(() => {})
+
+    return jsonResponse({ success: true, order_id: order.id, estimated_total: estimatedTotal }, 201)
+
+  } catch (error) {
+    console.error('Bulk orders error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
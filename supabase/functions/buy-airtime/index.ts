@@ -1,14 +1,25 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { callerMetadata, isPreAuthorized, resolveCaller } from '../_shared/caller.ts'
+import { claimIdempotencyKey, idempotencyShortCircuit, idempotentResponse, releaseIdempotencyKey, releaseIdempotencyKeyOnError } from '../_shared/idempotency.ts'
+import { DEFAULT_PROVIDER } from '../_shared/providers/index.ts'
+import { createChargeAdjuster, planFailover, runWithFailover, type FailoverCandidate } from '../_shared/providers/failover.ts'
+import { loadTierPricing, tierAirtimeDiscount } from '../_shared/tier-pricing.ts'
+import { checkRecipient } from '../_shared/phone.ts'
+import { recordPurchaseResult } from '../_shared/settle-transaction.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
 interface BuyAirtimeRequest {
   network: string
   phone_number: string
   amount: number
+  pin: string
+  // The user confirmed the number was ported away from its prefix's network
+  ported?: boolean
 }
 
 Deno.serve(async (req) => {
@@ -33,17 +44,16 @@ Deno.serve(async (req) => {
       { global: { headers: { Authorization: authHeader } } }
     )
 
-    // Verify user
-    const token = authHeader.replace('Bearer ', '')
-    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
-    if (claimsError || !claimsData?.claims) {
+    // Verify user (or the API gateway / bulk order worker acting for one)
+    const caller = await resolveCaller(req, supabase)
+    if (!caller) {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
         status: 401, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       })
     }
 
-    const userId = claimsData.claims.sub as string
+    const userId = caller.userId
 
     // Check if user is blocked
     const adminSupabaseCheck = createClient(
@@ -64,7 +74,8 @@ Deno.serve(async (req) => {
     }
 
     // Parse request body
-    const { network, phone_number, amount }: BuyAirtimeRequest = await req.json()
+    const payload: BuyAirtimeRequest = await req.json()
+    const { network, phone_number, amount, pin, ported } = payload
 
     if (!network || !phone_number || !amount) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), { 
@@ -73,14 +84,15 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Validate phone number (Nigerian format)
-    const cleanPhone = phone_number.replace(/\D/g, '')
-    if (cleanPhone.length !== 11 || !['070', '080', '081', '090', '091'].some(p => cleanPhone.startsWith(p))) {
-      return new Response(JSON.stringify({ error: 'Invalid phone number format' }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    // Validate the number against the chosen network; ported numbers must be confirmed by the caller
+    const phoneCheck = checkRecipient(phone_number, network, ported === true)
+    if (!phoneCheck.ok) {
+      return new Response(JSON.stringify({ error: phoneCheck.error, code: phoneCheck.code, detected_network: phoneCheck.detectedNetwork }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
+    const cleanPhone = phoneCheck.phone
 
     // Validate amount
     if (amount < 50 || amount > 50000) {
@@ -98,26 +110,73 @@ Deno.serve(async (req) => {
       .eq('is_active', true)
       .order('discount_percent', { ascending: false })
 
-    // Pick the plan with highest discount (best for user)
+    // Apply the user's tier, then pick the plan with highest discount (best for user)
+    const tierPricing = await loadTierPricing(adminSupabaseCheck, userId, 'airtime')
+    const discountOf = (p: { id: string; discount_percent: number | null }) =>
+      tierAirtimeDiscount(tierPricing, p.id, p.discount_percent || 0)
+    airtimePlans?.sort((a, b) => discountOf(b) - discountOf(a))
     const bestPlan = airtimePlans && airtimePlans.length > 0 ? airtimePlans[0] : null
-    const discountPercent = bestPlan?.discount_percent || 0
-    const selectedProvider = bestPlan?.provider || 'isquare'
+    const discountPercent = bestPlan ? discountOf(bestPlan) : 0
+    const selectedProvider = bestPlan?.provider || DEFAULT_PROVIDER
     const discountAmount = (amount * discountPercent) / 100
     const chargeAmount = amount - discountAmount // User pays less due to discount
 
     console.log('Selected provider for airtime:', { provider: selectedProvider, discount: discountPercent })
 
-    // Atomically deduct wallet balance (prevents race conditions)
-    const { data: deductResult, error: deductError } = await adminSupabaseCheck
-      .rpc('deduct_wallet_balance', { p_user_id: userId, p_amount: chargeAmount })
+    // Verify transaction PIN before touching the wallet; API partners and bulk orders were authorized upstream
+    const pinCheck = isPreAuthorized(caller) ? { ok: true as const } : await checkTransactionPin(adminSupabaseCheck, userId, pin)
+    if (!pinCheck.ok) {
+      return new Response(JSON.stringify({ error: pinCheck.error, code: pinCheck.code }), {
+        status: pinCheck.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Generate unique reference
+    const reference = `AIR-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+
+    const baseTxMetadata: Record<string, unknown> = {
+      network: network.toLowerCase(),
+      phone_number: cleanPhone,
+      airtime_amount: amount,
+      charge_amount: chargeAmount,
+      discount_percent: discountPercent,
+      discount_amount: discountAmount,
+      provider: selectedProvider,
+      tier: tierPricing.slug,
+      ...(phoneCheck.ported ? { ported: true, prefix_network: phoneCheck.detectedNetwork } : {}),
+      ...callerMetadata(caller)
+    }
+
+    // A retried request with the same Idempotency-Key gets the original result instead of a second debit
+    const idempotency = await claimIdempotencyKey(adminSupabaseCheck, userId, 'buy-airtime', req, payload, reference)
+    const shortCircuit = idempotencyShortCircuit(idempotency, corsHeaders)
+    if (shortCircuit) return shortCircuit
+
+    // Atomically debit the wallet and create the pending transaction (ledger posting)
+    const { data: debit, error: deductError } = await adminSupabaseCheck
+      .rpc('debit_wallet', {
+        p_user_id: userId,
+        p_amount: chargeAmount,
+        p_category: 'airtime',
+        p_description: `₦${amount} ${network.toUpperCase()} Airtime to ${cleanPhone}`,
+        p_reference: reference,
+        p_metadata: baseTxMetadata,
+      })
 
     if (deductError) {
+      await releaseIdempotencyKey(adminSupabaseCheck, idempotency)
       const msg = deductError.message || ''
       if (msg.includes('INSUFFICIENT_BALANCE')) {
         return new Response(JSON.stringify({ error: 'Insufficient balance' }), { 
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         })
       }
+      if (msg.includes('KYC_DAILY_SPEND_LIMIT')) {
+        return new Response(JSON.stringify({ error: 'You have reached the daily spending limit for your verification level. Verify your BVN or NIN to raise it.', code: 'KYC_DAILY_SPEND_LIMIT' }), { 
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        })
+      }
       if (msg.includes('WALLET_NOT_FOUND')) {
         return new Response(JSON.stringify({ error: 'Wallet not found' }), { 
           status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -129,40 +188,7 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Generate unique reference
-    const reference = `AIR-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
-
-    // Create pending transaction
-    const { data: transaction, error: txError } = await supabase
-      .from('transactions')
-      .insert({
-        user_id: userId,
-        type: 'debit',
-        amount: chargeAmount,
-        status: 'pending',
-        category: 'airtime',
-        description: `₦${amount} ${network.toUpperCase()} Airtime to ${cleanPhone}`,
-        reference,
-        metadata: {
-          network: network.toLowerCase(),
-          phone_number: cleanPhone,
-          airtime_amount: amount,
-          charge_amount: chargeAmount,
-          discount_percent: discountPercent,
-          discount_amount: discountAmount,
-          provider: selectedProvider
-        }
-      })
-      .select()
-      .single()
-
-    if (txError) {
-      console.error('Transaction creation error:', txError)
-      return new Response(JSON.stringify({ error: 'Failed to create transaction' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
+    const { transaction_id: transactionId, entry_id: debitEntryId } = debit as { transaction_id: string; entry_id: string }
 
     // Create admin client for status updates (RLS blocks user updates on transactions)
     const adminSupabase = createClient(
@@ -170,41 +196,61 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
 
-    const baseTxMetadata = transaction.metadata && typeof transaction.metadata === 'object' && !Array.isArray(transaction.metadata)
-      ? (transaction.metadata as Record<string, unknown>)
-      : {}
-
-    // Call the appropriate airtime API based on best provider
-    let apiResponse
-    if (selectedProvider === 'rgc') {
-      apiResponse = await callRgcAirtimeAPI(network.toLowerCase(), cleanPhone, amount, reference)
-    } else if (selectedProvider === 'albarka') {
-      apiResponse = await callAlbarkaAirtimeAPI(network.toLowerCase(), cleanPhone, amount, reference)
-    } else {
-      apiResponse = await callIsquareAirtimeAPI(network.toLowerCase(), cleanPhone, amount, reference)
-    }
+    // Every active plan for the network is a candidate; the best discount goes first
+    // and the rest are walked in api_providers priority order
+    const toCandidate = (p: NonNullable<typeof bestPlan>): FailoverCandidate<typeof bestPlan> => ({
+      id: p.id,
+      provider: p.provider,
+      price: amount - (amount * discountOf(p)) / 100,
+      item: p,
+    })
+    const primary: FailoverCandidate<typeof bestPlan> = bestPlan
+      ? toCandidate(bestPlan)
+      : { id: DEFAULT_PROVIDER, provider: DEFAULT_PROVIDER, price: chargeAmount, item: null }
+    const candidates = await planFailover(adminSupabase, 'airtime', primary, (airtimePlans ?? []).map(toCandidate))
+
+    const charge = createChargeAdjuster(adminSupabase, {
+      userId,
+      transactionId,
+      debitEntryId,
+      reference,
+      amount: chargeAmount,
+      description: `₦${amount} ${network.toUpperCase()} Airtime to ${cleanPhone}`,
+    })
+
+    const { result: apiResponse, candidate, attempts } = await runWithFailover(
+      candidates,
+      (provider) => provider.purchaseAirtime({ network: network.toLowerCase(), phone_number: cleanPhone, amount, reference }),
+      charge
+    )
+    const providerUsed = candidate?.provider ?? selectedProvider
+    const finalDiscount = Math.round((amount - charge.charged) * 100) / 100
 
-    if (apiResponse?.error) {
+    if (apiResponse.status === 'failed') {
       console.error('API error:', apiResponse.error)
 
-      // Refund the wallet since the API call failed
-      await adminSupabase
-        .from('wallets')
-        .update({ balance: deductResult + chargeAmount })
-        .eq('user_id', userId)
-
-      // Update transaction as failed using admin client
-      await adminSupabase
-        .from('transactions')
-        .update({ 
-          status: 'failed',
-          metadata: {
+      // Refund and mark failed together; if the refund cannot be posted the
+      // purchase stays pending and the requery worker settles it later
+      const { error: refundError } = await adminSupabase
+        .rpc('fail_pending_transaction', {
+          p_transaction_id: transactionId,
+          p_metadata: {
             ...baseTxMetadata,
             api_error: apiResponse.error,
-            api_response: apiResponse
-          }
+            api_response: apiResponse,
+            failover_attempts: attempts
+          },
+          p_description: `Refund: ₦${amount} airtime to ${cleanPhone}`,
         })
-        .eq('id', transaction.id)
+
+      if (refundError) {
+        console.error('Refund error, leaving transaction pending:', { transactionId, error: refundError })
+        return idempotentResponse(adminSupabase, idempotency, {
+          error: 'Airtime purchase failed',
+          details: 'We could not refund your wallet yet. It will be refunded automatically.',
+          reference
+        }, 502, corsHeaders)
+      }
 
       // Create failure notification using admin client
       await adminSupabase.from('notifications').insert({
@@ -214,267 +260,66 @@ Deno.serve(async (req) => {
         type: 'error'
       })
 
-      return new Response(JSON.stringify({ 
+      return idempotentResponse(adminSupabase, idempotency, { 
         error: 'Airtime purchase failed', 
         details: apiResponse.error 
-      }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+      }, 400, corsHeaders)
     }
 
-    // Wallet was already debited atomically before the API call
-    // Map 'success' to 'completed' (valid DB enum: pending | completed | failed)
-    const finalStatus = apiResponse?.status === 'success' ? 'completed' : 'pending'
-    await adminSupabase
-      .from('transactions')
-      .update({ 
-        status: finalStatus,
-        metadata: {
-          ...baseTxMetadata,
-          api_response: apiResponse
-        }
-      })
-      .eq('id', transaction.id)
+    // Wallet was already debited through the ledger before the API call
+    // Map 'success' to 'completed' (valid DB enum: pending | completed | failed),
+    // unless a webhook or requery already settled the purchase
+    const { status: finalStatus, settledElsewhere } = await recordPurchaseResult(adminSupabase, transactionId, {
+      status: apiResponse.status === 'success' ? 'completed' : 'pending',
+      amount: charge.charged,
+      metadata: {
+        ...baseTxMetadata,
+        provider_used: providerUsed,
+        charge_amount: charge.charged,
+        discount_amount: finalDiscount,
+        api_response: apiResponse,
+        failover_attempts: attempts
+      }
+    })
 
-    // Create notification using admin client
-    if (finalStatus === 'completed') {
-      await adminSupabase.from('notifications').insert({
-        user_id: userId,
-        title: 'Airtime Purchase Successful',
-        message: `₦${amount} airtime sent to ${cleanPhone}${discountAmount > 0 ? `. You saved ₦${discountAmount}!` : ''}`,
-        type: 'success'
-      })
-    } else {
+    if (finalStatus === 'failed') {
+      return idempotentResponse(adminSupabase, idempotency, {
+        error: 'Airtime purchase failed',
+        details: 'The provider could not deliver this purchase and your wallet has been refunded.',
+        reference
+      }, 400, corsHeaders)
+    }
+
+    // Create notification using admin client; a settlement that got there first has already notified
+    if (!settledElsewhere) {
       await adminSupabase.from('notifications').insert({
         user_id: userId,
-        title: 'Airtime Purchase Processing',
-        message: `Your ₦${amount} airtime recharge for ${cleanPhone} is being processed`,
-        type: 'info'
+        title: finalStatus === 'completed' ? 'Airtime Purchase Successful' : 'Airtime Purchase Processing',
+        message: finalStatus === 'completed'
+          ? `₦${amount} airtime sent to ${cleanPhone}${finalDiscount > 0 ? `. You saved ₦${finalDiscount}!` : ''}`
+          : `Your ₦${amount} airtime recharge for ${cleanPhone} is being processed`,
+        type: finalStatus === 'completed' ? 'success' : 'info'
       })
     }
 
     console.log('Airtime purchase completed:', { reference, status: finalStatus, amount })
 
-    return new Response(JSON.stringify({ 
+    return idempotentResponse(adminSupabase, idempotency, { 
       success: true,
       reference,
       status: finalStatus,
-      message: finalStatus === 'success' 
+      message: finalStatus === 'completed' 
         ? `₦${amount} airtime sent to ${cleanPhone}` 
         : 'Your airtime purchase is being processed',
-      discount: discountAmount > 0 ? `You saved ₦${discountAmount}` : null
-    }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
+      discount: finalDiscount > 0 ? `You saved ₦${finalDiscount}` : null
+    }, 200, corsHeaders)
 
   } catch (error) {
     console.error('Buy airtime error:', error)
+    await releaseIdempotencyKeyOnError(req)
     return new Response(JSON.stringify({ error: 'Internal server error' }), { 
       status: 500, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     })
   }
 })
-
-async function callIsquareAirtimeAPI(network: string, phoneNumber: string, amount: number, reference: string) {
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
-
-    if (!username || !password) {
-      return { error: 'API credentials not configured' }
-    }
-
-    // Map network to iSquare network ID
-    const networkMap: Record<string, number> = {
-      'mtn': 1,
-      'airtel': 2,
-      'glo': 3,
-      '9mobile': 4
-    }
-
-    const networkId = networkMap[network]
-    if (!networkId) {
-      return { error: 'Invalid network' }
-    }
-
-    const credentials = btoa(`${username}:${password}`)
-    const webhookUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/data-webhook`
-
-    console.log('Calling iSquare Airtime API:', { network, networkId, phone: phoneNumber, amount })
-
-    const response = await fetch('https://isquaredata.com/api/airtime/buy/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        network: networkId,
-        amount: amount,
-        phone_number: phoneNumber,
-        reference: reference,
-        webhook_url: webhookUrl
-      })
-    })
-
-    const data = await response.json()
-    console.log('iSquare Airtime API response:', data)
-
-    // iSquare returns errors in field arrays like { network: ["error message"] }
-    const fieldErrors = ['network', 'amount', 'phone_number'].reduce((acc: string[], field) => {
-      if (Array.isArray(data[field])) acc.push(...data[field])
-      return acc
-    }, [])
-
-    if (!response.ok || data.error || data.status === 'error' || fieldErrors.length > 0) {
-      return { 
-        error: fieldErrors.length > 0 ? fieldErrors.join('; ') : (data.message || data.error || 'iSquare API error'),
-        raw: data
-      }
-    }
-
-    return {
-      status: data.status === 'success' ? 'success' : 'pending',
-      transaction_id: data.transaction_id || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('iSquare Airtime API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
-
-async function callRgcAirtimeAPI(network: string, phoneNumber: string, amount: number, reference: string) {
-  try {
-    const apiKey = Deno.env.get('RGC_API_KEY')
-
-    if (!apiKey) {
-      return { error: 'RGC API key not configured' }
-    }
-
-    // Map network to RGC network code
-    const networkMap: Record<string, string> = {
-      'mtn': 'mtn',
-      'airtel': 'airtel',
-      'glo': 'glo',
-      '9mobile': '9mobile'
-    }
-
-    const networkCode = networkMap[network]
-    if (!networkCode) {
-      return { error: 'Invalid network' }
-    }
-
-    console.log('Calling RGC Airtime API:', { network: networkCode, phone: phoneNumber, amount })
-
-    const response = await fetch('https://rgc.ng/api/airtime/buy', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        network: networkCode,
-        amount: amount,
-        phone: phoneNumber,
-        reference: reference
-      })
-    })
-
-    const data = await response.json()
-    console.log('RGC Airtime API response:', data)
-
-    if (!response.ok || data.error || data.status === 'error') {
-      return { 
-        error: data.message || data.error || 'RGC API error',
-        raw: data
-      }
-    }
-
-    return {
-      status: data.status === 'success' ? 'success' : 'pending',
-      transaction_id: data.transaction_id || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('RGC Airtime API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
-
-async function callAlbarkaAirtimeAPI(network: string, phoneNumber: string, amount: number, reference: string) {
-  try {
-    const apiToken = Deno.env.get('ALBARKA_API_TOKEN')
-
-    if (!apiToken) {
-      return { error: 'Albarka API token not configured' }
-    }
-
-    // Map network to Albarka network ID
-    const networkMap: Record<string, number> = {
-      'mtn': 1,
-      'airtel': 2,
-      'glo': 3,
-      '9mobile': 4
-    }
-
-    const networkId = networkMap[network]
-    if (!networkId) {
-      return { error: 'Invalid network' }
-    }
-
-    console.log('Calling Albarka Airtime API:', { network: networkId, phone: phoneNumber, amount })
-
-    const response = await fetch('https://app.albarkasub.com/api/topup/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Token ${apiToken}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        network: networkId,
-        phone: phoneNumber,
-        amount: amount,
-        bypass: false,
-        'request-id': reference
-      })
-    })
-
-    const data = await (async () => {
-      try {
-        return await response.json()
-      } catch {
-        const text = await response.text().catch(() => '')
-        return { message: text || 'Invalid JSON from provider' }
-      }
-    })()
-    console.log('Albarka Airtime API response:', data)
-
-    if (!response.ok || data.error || data.Status === 'failed') {
-      return { 
-        error: data.api_response || data.message || data.error || 'Albarka API error',
-        raw: data
-      }
-    }
-
-    // Albarka returns Status: 'successful' on success
-    const isSuccess = data.Status === 'successful' || data.status === 'success' || 
-                      data.message?.toLowerCase().includes('success') ||
-                      (response.ok && !data.error && data.ident);
-
-    return {
-      status: isSuccess ? 'success' : 'pending',
-      transaction_id: data.ident || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('Albarka Airtime API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
@@ -1,8 +1,15 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { callerMetadata, isPreAuthorized, resolveCaller, type Caller } from '../_shared/caller.ts'
+import { claimIdempotencyKey, idempotencyShortCircuit, idempotentResponse, releaseIdempotencyKey, releaseIdempotencyKeyOnError } from '../_shared/idempotency.ts'
+import { getProvider } from '../_shared/providers/index.ts'
+import { planFailover, runWithFailover } from '../_shared/providers/failover.ts'
+import { loadTierPricing, tierPrice } from '../_shared/tier-pricing.ts'
+import { recordPurchaseResult } from '../_shared/settle-transaction.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
 interface VerifySmartcardRequest {
@@ -15,6 +22,7 @@ interface BuyCableRequest {
   smartcard_number: string
   bouquet_id: string
   customer_name?: string
+  pin: string
 }
 
 Deno.serve(async (req) => {
@@ -37,16 +45,16 @@ Deno.serve(async (req) => {
       { global: { headers: { Authorization: authHeader } } }
     )
 
-    const token = authHeader.replace('Bearer ', '')
-    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
-    if (claimsError || !claimsData?.claims) {
+    // Verify user (or the schedule worker acting for one)
+    const caller = await resolveCaller(req, supabase)
+    if (!caller) {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
         status: 401, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       })
     }
 
-    const userId = claimsData.claims.sub as string
+    const userId = caller.userId
 
     // Check if user is blocked
     const adminSupabaseCheck = createClient(
@@ -73,10 +81,11 @@ Deno.serve(async (req) => {
       return await handleVerifySmartcard(req, supabase)
     }
 
-    return await handlePurchaseCable(req, supabase, userId)
+    return await handlePurchaseCable(req, supabase, caller)
 
   } catch (error) {
     console.error('Cable error:', error)
+    await releaseIdempotencyKeyOnError(req)
     return new Response(JSON.stringify({ error: 'Internal server error' }), { 
       status: 500, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -118,70 +127,39 @@ async function handleVerifySmartcard(req: Request, supabase: any) {
     })
   }
 
-  // Call iSquare verify API
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
-
-    if (!username || !password) {
-      return new Response(JSON.stringify({ error: 'API credentials not configured' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
-
-    const credentials = btoa(`${username}:${password}`)
-
-    console.log('Verifying smartcard:', { service_id: provider.service_id, card: cleanCard })
-
-    const response = await fetch('https://isquaredata.com/api/cable/verify/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        service_id: provider.service_id,
-        iuc_number: cleanCard
-      })
-    })
-
-    const data = await response.json()
-    console.log('Verify response:', data)
+  // Verify through the cable provider's adapter
+  const apiProvider = getProvider(provider.api_provider)
+  const result = apiProvider
+    ? await apiProvider.verifySmartcard(provider.service_id, cleanCard)
+    : { verified: false, error: 'Cable provider is not available' }
 
-    if (!response.ok || data.error || data.status === 'error') {
-      return new Response(JSON.stringify({ 
-        error: data.message || data.error || 'Smartcard verification failed',
-        verified: false
-      }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
-
-    return new Response(JSON.stringify({
-      verified: true,
-      customer_name: data.customer_name || data.name || 'Customer',
-      current_bouquet: data.current_bouquet || data.bouquet || '',
-      due_date: data.due_date || data.expiry_date || '',
-      smartcard_number: cleanCard,
-      provider: provider.name
+  if (!result.verified) {
+    return new Response(JSON.stringify({ 
+      error: result.error || 'Smartcard verification failed',
+      verified: false
     }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-
-  } catch (error) {
-    console.error('Smartcard verification error:', error)
-    return new Response(JSON.stringify({ error: 'Verification failed', verified: false }), { 
-      status: 500, 
+      status: 400, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     })
   }
+
+  return new Response(JSON.stringify({
+    verified: true,
+    customer_name: result.customer_name || 'Customer',
+    current_bouquet: result.current_bouquet || '',
+    due_date: result.due_date || '',
+    smartcard_number: cleanCard,
+    provider: provider.name
+  }), { 
+    status: 200, 
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+  })
 }
 
-async function handlePurchaseCable(req: Request, supabase: any, userId: string) {
-  const { provider_code, smartcard_number, bouquet_id, customer_name }: BuyCableRequest = await req.json()
+async function handlePurchaseCable(req: Request, supabase: any, caller: Caller) {
+  const userId = caller.userId
+  const payload: BuyCableRequest = await req.json()
+  const { provider_code, smartcard_number, bouquet_id, customer_name, pin } = payload
 
   if (!provider_code || !smartcard_number || !bouquet_id) {
     return new Response(JSON.stringify({ error: 'Missing required fields' }), { 
@@ -222,22 +200,66 @@ async function handlePurchaseCable(req: Request, supabase: any, userId: string)
     })
   }
 
-  const price = Number(bouquet.price)
   // Atomically deduct wallet balance (prevents race conditions)
   const adminSupabase = createClient(
     Deno.env.get('SUPABASE_URL')!,
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
   )
-  const { data: deductResult, error: deductError } = await adminSupabase
-    .rpc('deduct_wallet_balance', { p_user_id: userId, p_amount: price })
+  const tierPricing = await loadTierPricing(adminSupabase, userId, 'cable')
+  const price = tierPrice(tierPricing, bouquet.id, Number(bouquet.price))
+
+  // Verify transaction PIN before touching the wallet; scheduled renewals were authorized upstream
+  const pinCheck = isPreAuthorized(caller) ? { ok: true as const } : await checkTransactionPin(adminSupabase, userId, pin)
+  if (!pinCheck.ok) {
+    return new Response(JSON.stringify({ error: pinCheck.error, code: pinCheck.code }), {
+      status: pinCheck.status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const reference = `CABLE-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+  const baseTxMetadata: Record<string, unknown> = {
+    provider_code,
+    provider_name: provider.name,
+    bouquet_name: bouquet.name,
+    plan_id: bouquet.plan_id,
+    smartcard_number: cleanCard,
+    customer_name,
+    service_id: provider.service_id,
+    list_price: bouquet.price,
+    tier: tierPricing.slug,
+    ...callerMetadata(caller)
+  }
+
+  // A retried request with the same Idempotency-Key gets the original result instead of a second debit
+  const idempotency = await claimIdempotencyKey(adminSupabase, userId, 'buy-cable', req, payload, reference)
+  const shortCircuit = idempotencyShortCircuit(idempotency, corsHeaders)
+  if (shortCircuit) return shortCircuit
+
+  // Atomically debit the wallet and create the pending transaction (ledger posting)
+  const { data: debit, error: deductError } = await adminSupabase
+    .rpc('debit_wallet', {
+      p_user_id: userId,
+      p_amount: price,
+      p_category: 'cable',
+      p_description: `${provider.name} - ${bouquet.name} for ${cleanCard}`,
+      p_reference: reference,
+      p_metadata: baseTxMetadata
+    })
 
   if (deductError) {
+    await releaseIdempotencyKey(adminSupabase, idempotency)
     const msg = deductError.message || ''
     if (msg.includes('INSUFFICIENT_BALANCE')) {
       return new Response(JSON.stringify({ error: 'Insufficient balance' }), { 
         status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       })
     }
+    if (msg.includes('KYC_DAILY_SPEND_LIMIT')) {
+      return new Response(JSON.stringify({ error: 'You have reached the daily spending limit for your verification level. Verify your BVN or NIN to raise it.', code: 'KYC_DAILY_SPEND_LIMIT' }), { 
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      })
+    }
     if (msg.includes('WALLET_NOT_FOUND')) {
       return new Response(JSON.stringify({ error: 'Wallet not found' }), { 
         status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -249,135 +271,106 @@ async function handlePurchaseCable(req: Request, supabase: any, userId: string)
     })
   }
 
-  const reference = `CABLE-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+  const { transaction_id: transactionId } = debit as { transaction_id: string }
 
-  // Create pending transaction
-  const { data: transaction, error: txError } = await supabase
-    .from('transactions')
-    .insert({
-      user_id: userId,
-      type: 'debit',
-      amount: price,
-      status: 'pending',
-      category: 'cable',
-      description: `${provider.name} - ${bouquet.name} for ${cleanCard}`,
-      reference,
-      metadata: {
-        provider_code,
-        provider_name: provider.name,
-        bouquet_name: bouquet.name,
-        plan_id: bouquet.plan_id,
-        smartcard_number: cleanCard,
-        customer_name,
-        service_id: provider.service_id
-      }
-    })
-    .select()
-    .single()
+  // The cable row's own provider first, then mapped providers in api_providers priority order
+  const { data: mappings } = await adminSupabase
+    .from('provider_service_mappings')
+    .select('*')
+    .eq('product', 'cable')
+    .eq('provider_code', provider_code)
+    .eq('bouquet_id', bouquet.id)
+    .eq('is_active', true)
 
-  if (txError) {
-    console.error('Transaction creation error:', txError)
-    return new Response(JSON.stringify({ error: 'Failed to create transaction' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-  }
+  const candidates = await planFailover(
+    adminSupabase,
+    'cable',
+    { id: provider.id, provider: provider.api_provider, price, item: { service_id: provider.service_id, plan_id: bouquet.plan_id } },
+    (mappings ?? []).map((m: { id: string; api_provider: string; service_id: number; plan_id: number }) => ({
+      id: m.id,
+      provider: m.api_provider,
+      price,
+      item: { service_id: m.service_id, plan_id: m.plan_id },
+    }))
+  )
 
-  // Call iSquare API
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
+  const { result, candidate, attempts } = await runWithFailover(candidates, (apiProvider, c) =>
+    apiProvider.purchaseCable({
+      service_id: c.item.service_id,
+      plan_id: c.item.plan_id,
+      smartcard_number: cleanCard,
+      reference
+    })
+  )
 
-    if (!username || !password) {
-      await updateTransactionFailed(supabase, transaction.id, userId, 'API credentials not configured', provider.name, cleanCard)
-      return new Response(JSON.stringify({ error: 'API credentials not configured' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+  if (result.status === 'failed') {
+    const errorMsg = result.error || 'Purchase failed'
+    const refunded = await failTransaction(adminSupabase, transactionId, userId, errorMsg, provider.name, cleanCard, { ...baseTxMetadata, failover_attempts: attempts }, `Refund: ${bouquet.name} for ${cleanCard}`)
+    if (!refunded) {
+      return idempotentResponse(adminSupabase, idempotency, { error: errorMsg, details: 'We could not refund your wallet yet. It will be refunded automatically.', reference }, 502, corsHeaders)
     }
+    return idempotentResponse(adminSupabase, idempotency, { error: errorMsg }, 400, corsHeaders)
+  }
 
-    const credentials = btoa(`${username}:${password}`)
-
-    console.log('Buying cable:', { service_id: provider.service_id, plan_id: bouquet.plan_id, card: cleanCard })
-
-    const response = await fetch('https://isquaredata.com/api/cable/buy/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        service_id: provider.service_id,
-        plan_id: bouquet.plan_id,
-        iuc_number: cleanCard,
-        reference: reference
-      })
-    })
-
-    const data = await response.json()
-    console.log('Purchase response:', data)
-
-    if (!response.ok || data.error || data.status === 'error') {
-      const errorMsg = data.message || data.error || 'Purchase failed'
-      // Refund the wallet since the API call failed
-      await adminSupabase
-        .from('wallets')
-        .update({ balance: deductResult + price })
-        .eq('user_id', userId)
-      await updateTransactionFailed(adminSupabase, transaction.id, userId, errorMsg, provider.name, cleanCard)
-      return new Response(JSON.stringify({ error: errorMsg }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+  // Wallet was already debited through the ledger before the API call.
+  // Update transaction with the provider result, unless a webhook or requery already settled it
+  const { status: finalStatus, settledElsewhere } = await recordPurchaseResult(adminSupabase, transactionId, {
+    status: result.status === 'success' ? 'completed' : 'pending',
+    metadata: {
+      ...baseTxMetadata,
+      api_provider: candidate?.provider,
+      api_response: result.raw,
+      provider_transaction_id: result.transaction_id ?? null,
+      failover_attempts: attempts
     }
+  })
 
-    // Wallet was already debited atomically before the API call
-
-    // Update transaction success
-    await adminSupabase
-      .from('transactions')
-      .update({ 
-        status: 'completed',
-        metadata: {
-          ...transaction.metadata,
-          api_response: data
-        }
-      })
-      .eq('id', transaction.id)
+  if (finalStatus === 'failed') {
+    return idempotentResponse(adminSupabase, idempotency, {
+      error: 'Purchase failed',
+      details: 'The provider could not deliver this subscription and your wallet has been refunded.',
+      reference
+    }, 400, corsHeaders)
+  }
 
-    // Send notification
+  // Send notification; a settlement that got there first has already notified
+  if (!settledElsewhere) {
     await adminSupabase.from('notifications').insert({
       user_id: userId,
-      title: 'Cable Subscription Successful',
-      message: `${bouquet.name} subscription activated for ${provider.name} - ${cleanCard}`,
-      type: 'success'
-    })
-
-    return new Response(JSON.stringify({
-      success: true,
-      reference,
-      message: `${bouquet.name} subscription activated for ${provider.name}`
-    }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-
-  } catch (error) {
-    console.error('Cable purchase error:', error)
-    const errorMsg = error instanceof Error ? error.message : 'Purchase failed'
-    await updateTransactionFailed(supabase, transaction.id, userId, errorMsg, provider.name, cleanCard)
-    return new Response(JSON.stringify({ error: 'Cable subscription failed' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      title: finalStatus === 'completed' ? 'Cable Subscription Successful' : 'Cable Subscription Processing',
+      message: finalStatus === 'completed'
+        ? `${bouquet.name} subscription activated for ${provider.name} - ${cleanCard}`
+        : `Your ${bouquet.name} subscription for ${provider.name} - ${cleanCard} is being processed`,
+      type: finalStatus === 'completed' ? 'success' : 'info'
     })
   }
+
+  return idempotentResponse(adminSupabase, idempotency, {
+    success: true,
+    reference,
+    status: finalStatus,
+    message: finalStatus === 'completed'
+      ? `${bouquet.name} subscription activated for ${provider.name}`
+      : 'Your cable subscription is being processed'
+  }, 200, corsHeaders)
 }
 
-async function updateTransactionFailed(supabase: any, txId: string, userId: string, error: string, providerName: string, cardNumber: string) {
-  await supabase
-    .from('transactions')
-    .update({ status: 'failed', metadata: { api_error: error } })
-    .eq('id', txId)
+/**
+ * Refund and mark the purchase failed in one step. Returns false when the
+ * refund could not be posted; the purchase is then left pending and the
+ * requery worker settles it later.
+ */
+async function failTransaction(supabase: SupabaseClient, txId: string, userId: string, error: string, providerName: string, cardNumber: string, metadata: Record<string, unknown>, refundDescription: string) {
+  const { error: refundError } = await supabase.rpc('fail_pending_transaction', {
+    p_transaction_id: txId,
+    p_metadata: { ...metadata, api_error: error },
+    p_description: refundDescription,
+  })
+
+  if (refundError) {
+    console.error('Refund error, leaving transaction pending:', { transactionId: txId, error: refundError })
+    return false
+  }
 
   await supabase.from('notifications').insert({
     user_id: userId,
@@ -385,4 +378,5 @@ async function updateTransactionFailed(supabase: any, txId: string, userId: stri
     message: `Failed to subscribe ${providerName} for ${cardNumber}. ${error}`,
     type: 'error'
   })
+  return true
 }
@@ -1,23 +1,24 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { callerMetadata, isPreAuthorized, resolveCaller } from '../_shared/caller.ts'
+import { claimIdempotencyKey, idempotencyShortCircuit, idempotentResponse, releaseIdempotencyKey, releaseIdempotencyKeyOnError } from '../_shared/idempotency.ts'
+import type { ProviderResult } from '../_shared/providers/index.ts'
+import { createChargeAdjuster, planFailover, runWithFailover, type FailoverCandidate } from '../_shared/providers/failover.ts'
+import { loadTierPricing, tierPrice } from '../_shared/tier-pricing.ts'
+import { checkRecipient } from '../_shared/phone.ts'
+import { recordPurchaseResult } from '../_shared/settle-transaction.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
 interface BuyDataRequest {
   plan_id: string
   phone_number: string
-}
-
-function asObject(value: unknown): Record<string, unknown> {
-  return value && typeof value === 'object' && !Array.isArray(value)
-    ? (value as Record<string, unknown>)
-    : {}
-}
-
-function isIsquarePlanInactiveError(message: string) {
-  return /plan\s+is\s+either\s+currently\s+inactive\s+or\s+does\s+not\s+exist/i.test(message)
+  pin: string
+  // The user confirmed the number was ported away from its prefix's network
+  ported?: boolean
 }
 
 Deno.serve(async (req) => {
@@ -42,17 +43,16 @@ Deno.serve(async (req) => {
       { global: { headers: { Authorization: authHeader } } }
     )
 
-    // Verify user
-    const token = authHeader.replace('Bearer ', '')
-    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
-    if (claimsError || !claimsData?.claims) {
+    // Verify user (or the API gateway / bulk order worker acting for one)
+    const caller = await resolveCaller(req, supabase)
+    if (!caller) {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
         status: 401, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       })
     }
 
-    const userId = claimsData.claims.sub as string
+    const userId = caller.userId
 
     // Check if user is blocked
     const adminSupabaseCheck = createClient(
@@ -73,7 +73,8 @@ Deno.serve(async (req) => {
     }
 
     // Parse request body
-    const { plan_id, phone_number }: BuyDataRequest = await req.json()
+    const payload: BuyDataRequest = await req.json()
+    const { plan_id, phone_number, pin, ported } = payload
 
     if (!plan_id || !phone_number) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), { 
@@ -82,15 +83,6 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Validate phone number (Nigerian format)
-    const cleanPhone = phone_number.replace(/\D/g, '')
-    if (cleanPhone.length !== 11 || !['070', '080', '081', '090', '091'].some(p => cleanPhone.startsWith(p))) {
-      return new Response(JSON.stringify({ error: 'Invalid phone number format' }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
-
     // Get the data plan
     const { data: plan, error: planError } = await supabase
       .from('data_plans')
@@ -107,23 +99,79 @@ Deno.serve(async (req) => {
       })
     }
 
-    const sellingPrice = Number(plan.selling_price)
+    // Validate the number against the plan's network; ported numbers must be confirmed by the caller
+    const phoneCheck = checkRecipient(phone_number, plan.network, ported === true)
+    if (!phoneCheck.ok) {
+      return new Response(JSON.stringify({ error: phoneCheck.error, code: phoneCheck.code, detected_network: phoneCheck.detectedNetwork }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+    const cleanPhone = phoneCheck.phone
+
+    // Charge the user's tier price, never less than what the provider charges us
+    const tierPricing = await loadTierPricing(adminSupabaseCheck, userId, 'data')
+    const sellingPrice = tierPrice(tierPricing, plan.id, Number(plan.selling_price), Number(plan.api_price))
+
+    // Verify transaction PIN before touching the wallet; API partners and bulk orders were authorized upstream
+    const pinCheck = isPreAuthorized(caller) ? { ok: true as const } : await checkTransactionPin(adminSupabaseCheck, userId, pin)
+    if (!pinCheck.ok) {
+      return new Response(JSON.stringify({ error: pinCheck.error, code: pinCheck.code }), {
+        status: pinCheck.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
 
-    // Atomically deduct wallet balance (prevents race conditions)
     const adminSupabase = createClient(
       Deno.env.get('SUPABASE_URL')!,
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
-    const { data: deductResult, error: deductError } = await adminSupabase
-      .rpc('deduct_wallet_balance', { p_user_id: userId, p_amount: sellingPrice })
+
+    // Generate unique reference
+    const reference = `DATA-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+
+    const baseTxMetadata: Record<string, unknown> = {
+      plan_id: plan.id,
+      plan_name: plan.display_name,
+      phone_number: cleanPhone,
+      network: plan.network,
+      provider: plan.provider,
+      api_price: plan.api_price,
+      list_price: plan.selling_price,
+      tier: tierPricing.slug,
+      ...(phoneCheck.ported ? { ported: true, prefix_network: phoneCheck.detectedNetwork } : {}),
+      ...callerMetadata(caller)
+    }
+
+    // A retried request with the same Idempotency-Key gets the original result instead of a second debit
+    const idempotency = await claimIdempotencyKey(adminSupabase, userId, 'buy-data', req, payload, reference)
+    const shortCircuit = idempotencyShortCircuit(idempotency, corsHeaders)
+    if (shortCircuit) return shortCircuit
+
+    // Atomically debit the wallet and create the pending transaction (ledger posting)
+    const { data: debit, error: deductError } = await adminSupabase
+      .rpc('debit_wallet', {
+        p_user_id: userId,
+        p_amount: sellingPrice,
+        p_category: 'data',
+        p_description: `${plan.display_name} for ${cleanPhone}`,
+        p_reference: reference,
+        p_metadata: baseTxMetadata,
+      })
 
     if (deductError) {
+      await releaseIdempotencyKey(adminSupabase, idempotency)
       const msg = deductError.message || ''
       if (msg.includes('INSUFFICIENT_BALANCE')) {
         return new Response(JSON.stringify({ error: 'Insufficient balance' }), { 
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         })
       }
+      if (msg.includes('KYC_DAILY_SPEND_LIMIT')) {
+        return new Response(JSON.stringify({ error: 'You have reached the daily spending limit for your verification level. Verify your BVN or NIN to raise it.', code: 'KYC_DAILY_SPEND_LIMIT' }), { 
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        })
+      }
       if (msg.includes('WALLET_NOT_FOUND')) {
         return new Response(JSON.stringify({ error: 'Wallet not found' }), { 
           status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -135,133 +183,91 @@ Deno.serve(async (req) => {
       })
     }
 
-    // Generate unique reference
-    const reference = `DATA-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
-
-    // Create pending transaction first
-    const { data: transaction, error: txError } = await supabase
-      .from('transactions')
-      .insert({
-        user_id: userId,
-        type: 'debit',
-        amount: sellingPrice,
-        status: 'pending',
-        category: 'data',
-        description: `${plan.display_name} for ${cleanPhone}`,
-        reference,
-        metadata: {
-          plan_id: plan.id,
-          plan_name: plan.display_name,
-          phone_number: cleanPhone,
-          network: plan.network,
-          provider: plan.provider,
-          api_price: plan.api_price
-        }
-      })
-      .select()
-      .single()
+    const { transaction_id: transactionId, entry_id: debitEntryId } = debit as { transaction_id: string; entry_id: string }
 
-    if (txError) {
-      console.error('Transaction creation error:', txError)
-      return new Response(JSON.stringify({ error: 'Failed to create transaction' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
+    // Equivalent plans from other providers, walked in api_providers priority order
+    const { data: alternativePlans } = await adminSupabase
+      .from('data_plans')
+      .select('*')
+      .eq('network', plan.network)
+      .eq('category', plan.category)
+      .eq('data_amount', plan.data_amount)
+      .eq('is_active', true)
+      .neq('id', plan.id)
 
-    const baseTxMetadata = asObject(transaction.metadata)
+    const toCandidate = (p: typeof plan): FailoverCandidate<typeof plan> => ({
+      id: p.id,
+      provider: p.provider,
+      price: tierPrice(tierPricing, p.id, Number(p.selling_price), Number(p.api_price)),
+      item: p,
+    })
+    const candidates = await planFailover(adminSupabase, 'data', toCandidate(plan), (alternativePlans ?? []).map(toCandidate))
 
-    // adminSupabase already created above for atomic deduction
+    const charge = createChargeAdjuster(adminSupabase, {
+      userId,
+      transactionId,
+      debitEntryId,
+      reference,
+      amount: sellingPrice,
+      description: `${plan.display_name} for ${cleanPhone}`,
+    })
 
-    // Call the API based on provider
-    let apiResponse: any = null
+    const { result, candidate, attempts } = await runWithFailover(
+      candidates,
+      (provider, c) => provider.purchaseData({ plan: c.item, phone_number: cleanPhone, reference }),
+      charge
+    )
+    let apiResponse: ProviderResult = result
     let apiError: string | null = null
-    let planUsed: any = plan
-
-    if (plan.provider === 'isquare') {
-      apiResponse = await callIsquareDataAPI(plan, cleanPhone, reference)
-
-      // If iSquare rejects the plan as inactive/non-existent, try a same-price fallback plan (RGC)
-      if (apiResponse?.error && isIsquarePlanInactiveError(String(apiResponse.error))) {
-        const { data: fallbackPlan } = await supabase
-          .from('data_plans')
-          .select('*')
-          .eq('network', plan.network)
-          .eq('category', plan.category)
-          .eq('data_amount', plan.data_amount)
-          .eq('provider', 'rgc')
-          .eq('is_active', true)
-          .not('product_id', 'is', null)
-          .eq('selling_price', sellingPrice)
-          .order('selling_price', { ascending: true })
-          .limit(1)
-          .maybeSingle()
-
-        if (fallbackPlan) {
-          const fallbackResp = await callRgcDataAPI(fallbackPlan, cleanPhone, reference)
-          if (!fallbackResp?.error) {
-            planUsed = fallbackPlan
-            apiResponse = {
-              ...fallbackResp,
-              fallback: {
-                from_provider: 'isquare',
-                from_plan_id: plan.id,
-                to_provider: 'rgc',
-                to_plan_id: fallbackPlan.id,
-              },
-            }
-          }
-        } else {
-          // Mark this plan inactive so it won't be shown again.
-          // We use a service-role client here because end-users cannot update plans.
-          try {
-            await adminSupabase
-              .from('data_plans')
-              .update({ is_active: false, updated_at: new Date().toISOString() })
-              .eq('id', plan.id)
-            console.log('Auto-disabled unavailable iSquare plan:', { id: plan.id, service_id: plan.service_id, plan_id: plan.plan_id })
-          } catch (e) {
-            console.error('Failed to auto-disable plan:', e)
-          }
-
-          // Give a user-actionable error instead of a vague provider error.
-          apiResponse = {
-            error: 'Selected bundle is currently unavailable. Please choose another plan.',
-            raw: apiResponse?.raw,
-          }
-        }
+    const planUsed = candidate?.item ?? plan
+
+    // Plans the provider reports as inactive (or that were never mapped) are switched off
+    // so they are not offered again. End-users cannot update plans, hence the admin client.
+    const unavailablePlanIds = attempts
+      .filter((attempt) => attempt.failure_kind === 'plan_unavailable')
+      .map((attempt) => attempt.candidate_id)
+    if (unavailablePlanIds.length > 0) {
+      const { error: disableError } = await adminSupabase
+        .from('data_plans')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .in('id', unavailablePlanIds)
+      if (disableError) console.error('Failed to auto-disable plans:', disableError)
+      else console.log('Auto-disabled unavailable plans:', unavailablePlanIds)
+    }
+
+    if (apiResponse.status === 'failed' && apiResponse.failure_kind === 'plan_unavailable') {
+      // Give a user-actionable error instead of a vague provider error.
+      apiResponse = {
+        ...apiResponse,
+        error: 'Selected bundle is currently unavailable. Please choose another plan.',
       }
-  } else if (plan.provider === 'rgc') {
-      apiResponse = await callRgcDataAPI(plan, cleanPhone, reference)
-    } else if (plan.provider === 'albarka') {
-      apiResponse = await callAlbarkaDataAPI(plan, cleanPhone, reference)
     }
 
-    if (apiResponse?.error) {
-      apiError = apiResponse.error
+    if (apiResponse.status === 'failed') {
+      apiError = apiResponse.error ?? 'Data purchase failed'
       console.error('API error:', apiError)
 
-      // Refund the wallet since the API call failed
-      await adminSupabase
-        .from('wallets')
-        .update({ balance: deductResult + sellingPrice })
-        .eq('user_id', userId)
-
-      // Update transaction as failed using admin client
-      const { error: updateError } = await adminSupabase
-        .from('transactions')
-        .update({ 
-          status: 'failed',
-          metadata: {
+      // Refund and mark failed together; if the refund cannot be posted the
+      // purchase stays pending and the requery worker settles it later
+      const { error: refundError } = await adminSupabase
+        .rpc('fail_pending_transaction', {
+          p_transaction_id: transactionId,
+          p_metadata: {
             ...baseTxMetadata,
             api_error: apiError,
-            api_response: apiResponse
-          }
+            api_response: apiResponse,
+            failover_attempts: attempts
+          },
+          p_description: `Refund: ${plan.display_name} for ${cleanPhone}`,
         })
-        .eq('id', transaction.id)
 
-      if (updateError) {
-        console.error('Failed to update transaction status:', updateError)
+      if (refundError) {
+        console.error('Refund error, leaving transaction pending:', { transactionId, error: refundError })
+        return idempotentResponse(adminSupabase, idempotency, {
+          error: 'Data purchase failed',
+          details: 'We could not refund your wallet yet. It will be refunded automatically.',
+          reference
+        }, 502, corsHeaders)
       }
 
       // Create failure notification
@@ -272,330 +278,65 @@ Deno.serve(async (req) => {
         type: 'error'
       })
 
-      return new Response(JSON.stringify({ 
+      return idempotentResponse(adminSupabase, idempotency, { 
         error: 'Data purchase failed', 
         details: apiError 
-      }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+      }, 400, corsHeaders)
     }
 
-    // Wallet was already debited atomically before the API call
-
-    // Update transaction with API response using admin client
-    const finalStatus = apiResponse?.status === 'success' ? 'completed' : 'pending'
-    const { error: updateError } = await adminSupabase
-      .from('transactions')
-      .update({ 
-        status: finalStatus,
-        metadata: {
-          ...baseTxMetadata,
-          provider_used: planUsed?.provider ?? plan.provider,
-          plan_used_id: planUsed?.id ?? plan.id,
-          api_response: apiResponse
-        }
-      })
-      .eq('id', transaction.id)
+    // Wallet was already debited through the ledger before the API call
+
+    // Update transaction with API response, unless a webhook or requery already settled it
+    const { status: finalStatus, settledElsewhere } = await recordPurchaseResult(adminSupabase, transactionId, {
+      status: apiResponse.status === 'success' ? 'completed' : 'pending',
+      amount: charge.charged,
+      metadata: {
+        ...baseTxMetadata,
+        provider_used: planUsed.provider,
+        plan_used_id: planUsed.id,
+        api_response: apiResponse,
+        failover_attempts: attempts,
+        ...(charge.charged !== sellingPrice ? { original_price: sellingPrice, charged_price: charge.charged } : {})
+      }
+    })
 
-    if (updateError) {
-      console.error('Failed to update transaction status:', updateError)
+    if (finalStatus === 'failed') {
+      return idempotentResponse(adminSupabase, idempotency, {
+        error: 'Data purchase failed',
+        details: 'The provider could not deliver this purchase and your wallet has been refunded.',
+        reference
+      }, 400, corsHeaders)
     }
 
-    // Create notification using admin client
-    if (finalStatus === 'completed') {
-      await adminSupabase.from('notifications').insert({
-        user_id: userId,
-        title: 'Data Purchase Successful',
-        message: `${planUsed.display_name} has been sent to ${cleanPhone}`,
-        type: 'success'
-      })
-    } else {
+    // Create notification using admin client; a settlement that got there first has already notified
+    if (!settledElsewhere) {
       await adminSupabase.from('notifications').insert({
         user_id: userId,
-        title: 'Data Purchase Processing',
-        message: `Your ${planUsed.display_name} purchase for ${cleanPhone} is being processed`,
-        type: 'info'
+        title: finalStatus === 'completed' ? 'Data Purchase Successful' : 'Data Purchase Processing',
+        message: finalStatus === 'completed'
+          ? `${planUsed.display_name} has been sent to ${cleanPhone}`
+          : `Your ${planUsed.display_name} purchase for ${cleanPhone} is being processed`,
+        type: finalStatus === 'completed' ? 'success' : 'info'
       })
     }
 
     console.log('Data purchase completed:', { reference, status: finalStatus, plan: planUsed.display_name })
 
-    return new Response(JSON.stringify({ 
+    return idempotentResponse(adminSupabase, idempotency, { 
       success: true,
       reference,
       status: finalStatus,
       message: finalStatus === 'completed' 
         ? `${planUsed.display_name} sent to ${cleanPhone}` 
         : 'Your data purchase is being processed'
-    }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
+    }, 200, corsHeaders)
 
   } catch (error) {
     console.error('Buy data error:', error)
+    await releaseIdempotencyKeyOnError(req)
     return new Response(JSON.stringify({ error: 'Internal server error' }), { 
       status: 500, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     })
   }
 })
-
-async function callIsquareDataAPI(plan: any, phoneNumber: string, reference: string) {
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
-
-    if (!username || !password) {
-      return { error: 'API credentials not configured' }
-    }
-
-    const credentials = btoa(`${username}:${password}`)
-    const webhookUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/data-webhook`
-
-    console.log('Calling iSquare API:', { service_id: plan.service_id, plan_id: plan.plan_id, phone: phoneNumber })
-
-    if (plan.service_id == null || plan.plan_id == null) {
-      return { error: 'Plan mapping missing (service_id/plan_id). Please choose another plan.' }
-    }
-
-    const response = await fetch('https://isquaredata.com/api/data/buy/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        service_id: plan.service_id,
-        // iSquare expects `plan` in some versions, but other endpoints use `plan_id`.
-        // Send both to avoid mismatches across iSquare deployments.
-        plan: plan.plan_id,
-        plan_id: plan.plan_id,
-        phone_number: phoneNumber,
-        reference: reference,
-        webhook_url: webhookUrl
-      })
-    })
-
-    const data = await (async () => {
-      try {
-        return await response.json()
-      } catch {
-        const text = await response.text().catch(() => '')
-        return { message: text || 'Invalid JSON from provider' }
-      }
-    })()
-    console.log('iSquare API response:', data)
-
-    const validationPlanError = Array.isArray((data as any)?.plan)
-      ? (data as any).plan.join(', ')
-      : undefined
-
-    if (!response.ok || data.error || data.status === 'error' || data.status === 'fail' || data.status === 'failed' || validationPlanError) {
-      return { 
-        error: data.message || data.error || validationPlanError || 'iSquare API error',
-        raw: data
-      }
-    }
-
-    // iSquare returns various success indicators
-    const isSuccess = data.status === 'success' || data.status === 'completed' || 
-                      data.message?.toLowerCase().includes('success') ||
-                      (response.ok && !data.error && data.transaction_id);
-    
-    return {
-      status: isSuccess ? 'success' : 'pending',
-      transaction_id: data.transaction_id || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('iSquare API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
-
-async function callRgcDataAPI(plan: any, phoneNumber: string, reference: string) {
-  try {
-    const apiKey = Deno.env.get('RGC_API_KEY')
-
-    if (!apiKey) {
-      return { error: 'RGC API key not configured' }
-    }
-
-    console.log('Calling RGC API:', { plan: plan.product_id, mobile_number: phoneNumber })
-
-    if (!plan.product_id) {
-      return { error: 'Plan mapping missing (product_id). Please choose another plan.' }
-    }
-
-    // RGC API expects 'plan' as integer (product_id) and 'mobile_number' fields
-    // The documentation shows: { "plan": 6, "mobile_number": "08012345678" }
-    const planId = parseInt(plan.product_id, 10)
-    
-    console.log('RGC request body:', { plan: planId, mobile_number: phoneNumber })
-    
-    const response = await fetch('https://api.rgcdata.com.ng/api/v2/purchase/data', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        plan: planId,
-        mobile_number: phoneNumber
-      })
-    })
-
-    const data = await (async () => {
-      try {
-        return await response.json()
-      } catch {
-        const text = await response.text().catch(() => '')
-        return { message: text || 'Invalid JSON from provider' }
-      }
-    })()
-    console.log('RGC API response:', data)
-
-    if (!response.ok || data.error || data.status === 'error' || data.status === 'fail' || data.status === 'failed') {
-      return { 
-        error: data.message || data.error || 'RGC API error',
-        raw: data
-      }
-    }
-
-    // RGC returns various success indicators
-    const isSuccess = data.status === 'success' || data.status === 'completed' || 
-                      data.message?.toLowerCase().includes('success') ||
-                      (response.ok && !data.error && (data.transaction_id || data.id));
-    
-    return {
-      status: isSuccess ? 'success' : 'pending',
-      transaction_id: data.transaction_id || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('RGC API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
-
-async function callAlbarkaDataAPI(plan: any, phoneNumber: string, reference: string) {
-  try {
-    // Get username and password from environment
-    const username = Deno.env.get('ALBARKA_USERNAME')
-    const password = Deno.env.get('ALBARKA_PASSWORD')
-
-    if (!username || !password) {
-      console.error('Missing Albarka credentials')
-      return { error: 'Albarka API credentials not configured' }
-    }
-
-    console.log('Calling Albarka API:', { plan_id: plan.plan_id, phone: phoneNumber, network: plan.network })
-
-    if (!plan.plan_id) {
-      return { error: 'Plan mapping missing (plan_id). Please choose another plan.' }
-    }
-
-    // Map network names to Albarka network IDs (from API docs)
-    // MTN=1, Airtel=2, Glo=3, 9mobile=4
-    const networkMap: Record<string, number> = {
-      'mtn': 1,
-      'airtel': 2,
-      'glo': 3,
-      '9mobile': 4
-    }
-
-    const networkId = networkMap[plan.network.toLowerCase()]
-    if (!networkId) {
-      return { error: 'Invalid network for Albarka' }
-    }
-
-    // Step 1: Get AccessToken using POST with Basic Auth
-    // Per docs: POST to /api/user with Authorization: Basic base64(username:password)
-    const encodedCredentials = btoa(`${username}:${password}`)
-    console.log('Fetching Albarka AccessToken...')
-    
-    const tokenResponse = await fetch('https://albarkasub.com/api/user', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${encodedCredentials}`
-      }
-    })
-
-    const tokenText = await tokenResponse.text()
-    console.log('Albarka token raw response:', { status: tokenResponse.status, body: tokenText.substring(0, 500) })
-    
-    let tokenData: any
-    try {
-      tokenData = JSON.parse(tokenText)
-    } catch {
-      return { error: 'Invalid response from Albarka auth endpoint', raw: tokenText.substring(0, 200) }
-    }
-
-    // Expected: { "status": "success", "AccessToken": "...", "balance": "...", "username": "..." }
-    if (tokenData.status !== 'success' || !tokenData.AccessToken) {
-      return { 
-        error: tokenData.message || 'Failed to get Albarka AccessToken',
-        raw: tokenData
-      }
-    }
-
-    const accessToken = tokenData.AccessToken
-    console.log('Albarka AccessToken obtained successfully, balance:', tokenData.balance)
-
-    // Step 2: Make data purchase with the AccessToken
-    // Per docs: POST to /api/data with Authorization: Token {AccessToken}
-    // Body: { network, phone, data_plan, bypass, request-id }
-    const payload = {
-      network: networkId,
-      phone: phoneNumber,
-      data_plan: plan.plan_id,
-      bypass: false,
-      'request-id': reference
-    }
-    console.log('Albarka data request payload:', payload)
-
-    const response = await fetch('https://albarkasub.com/api/data', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Token ${accessToken}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    })
-
-    const responseText = await response.text()
-    console.log('Albarka data raw response:', { status: response.status, body: responseText.substring(0, 500) })
-    
-    let data: any
-    try {
-      data = JSON.parse(responseText)
-    } catch {
-      return { error: 'Invalid response from Albarka data endpoint', raw: responseText.substring(0, 200) }
-    }
-
-    // Check for failure — Albarka may return 'fail' or 'failed'
-    if (data.status === 'failed' || data.status === 'fail' || data.Status === 'failed' || data.Status === 'fail' || data.error) {
-      return { 
-        error: data.message || data.response || data.api_response || data.error || 'Albarka API error',
-        raw: data
-      }
-    }
-
-    // Expected success response includes: status, message, network, phone_number, dataplan, etc.
-    const isSuccess = data.status === 'success'
-    
-    return {
-      status: isSuccess ? 'success' : 'pending',
-      transaction_id: data['request-id'] || data.ident || data.id,
-      raw: data
-    }
-  } catch (error: unknown) {
-    console.error('Albarka API call error:', error)
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return { error: `API call failed: ${message}` }
-  }
-}
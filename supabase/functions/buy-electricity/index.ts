@@ -1,8 +1,13 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { claimIdempotencyKey, idempotencyShortCircuit, idempotentResponse, releaseIdempotencyKey, releaseIdempotencyKeyOnError } from '../_shared/idempotency.ts'
+import { getProvider } from '../_shared/providers/index.ts'
+import { planFailover, runWithFailover } from '../_shared/providers/failover.ts'
+import { recordPurchaseResult } from '../_shared/settle-transaction.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
 interface VerifyMeterRequest {
@@ -17,6 +22,7 @@ interface BuyElectricityRequest {
   meter_type: 'prepaid' | 'postpaid'
   amount: number
   customer_name?: string
+  pin: string
 }
 
 Deno.serve(async (req) => {
@@ -79,6 +85,7 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Electricity error:', error)
+    await releaseIdempotencyKeyOnError(req)
     return new Response(JSON.stringify({ error: 'Internal server error' }), { 
       status: 500, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -120,70 +127,37 @@ async function handleVerifyMeter(req: Request, supabase: any) {
     })
   }
 
-  // Call iSquare verify API
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
-
-    if (!username || !password) {
-      return new Response(JSON.stringify({ error: 'API credentials not configured' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
-
-    const credentials = btoa(`${username}:${password}`)
-
-    console.log('Verifying meter:', { service_id: provider.service_id, meter: cleanMeter, type: meter_type })
-
-    const response = await fetch('https://isquaredata.com/api/electricity/verify/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        service_id: provider.service_id,
-        meter_number: cleanMeter,
-        meter_type: meter_type
-      })
-    })
-
-    const data = await response.json()
-    console.log('Verify response:', data)
+  // Verify through the electricity provider's adapter
+  const apiProvider = getProvider(provider.api_provider)
+  const result = apiProvider
+    ? await apiProvider.verifyMeter(provider.service_id, cleanMeter, meter_type)
+    : { verified: false, error: 'Electricity provider is not available' }
 
-    if (!response.ok || data.error || data.status === 'error') {
-      return new Response(JSON.stringify({ 
-        error: data.message || data.error || 'Meter verification failed',
-        verified: false
-      }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
-
-    return new Response(JSON.stringify({
-      verified: true,
-      customer_name: data.customer_name || data.name || 'Customer',
-      customer_address: data.address || data.customer_address || '',
-      meter_number: cleanMeter,
-      provider: provider.name
+  if (!result.verified) {
+    return new Response(JSON.stringify({ 
+      error: result.error || 'Meter verification failed',
+      verified: false
     }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-
-  } catch (error) {
-    console.error('Meter verification error:', error)
-    return new Response(JSON.stringify({ error: 'Verification failed', verified: false }), { 
-      status: 500, 
+      status: 400, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     })
   }
+
+  return new Response(JSON.stringify({
+    verified: true,
+    customer_name: result.customer_name || 'Customer',
+    customer_address: result.customer_address || '',
+    meter_number: cleanMeter,
+    provider: provider.name
+  }), { 
+    status: 200, 
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+  })
 }
 
 async function handlePurchaseElectricity(req: Request, supabase: any, userId: string) {
-  const { provider_code, meter_number, meter_type, amount, customer_name }: BuyElectricityRequest = await req.json()
+  const payload: BuyElectricityRequest = await req.json()
+  const { provider_code, meter_number, meter_type, amount, customer_name, pin } = payload
 
   if (!provider_code || !meter_number || !meter_type || !amount) {
     return new Response(JSON.stringify({ error: 'Missing required fields' }), { 
@@ -222,16 +196,55 @@ async function handlePurchaseElectricity(req: Request, supabase: any, userId: st
     Deno.env.get('SUPABASE_URL')!,
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
   )
-  const { data: deductResult, error: deductError } = await adminSupabase
-    .rpc('deduct_wallet_balance', { p_user_id: userId, p_amount: amount })
+
+  // Verify transaction PIN before touching the wallet
+  const pinCheck = await checkTransactionPin(adminSupabase, userId, pin)
+  if (!pinCheck.ok) {
+    return new Response(JSON.stringify({ error: pinCheck.error, code: pinCheck.code }), {
+      status: pinCheck.status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+
+  const reference = `ELEC-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+  const baseTxMetadata: Record<string, unknown> = {
+    provider_code,
+    provider_name: provider.name,
+    meter_number: cleanMeter,
+    meter_type,
+    customer_name,
+    service_id: provider.service_id
+  }
+
+  // A retried request with the same Idempotency-Key gets the original result instead of a second debit
+  const idempotency = await claimIdempotencyKey(adminSupabase, userId, 'buy-electricity', req, payload, reference)
+  const shortCircuit = idempotencyShortCircuit(idempotency, corsHeaders)
+  if (shortCircuit) return shortCircuit
+
+  // Atomically debit the wallet and create the pending transaction (ledger posting)
+  const { data: debit, error: deductError } = await adminSupabase
+    .rpc('debit_wallet', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_category: 'electricity',
+      p_description: `${provider.name} - ${cleanMeter} (${meter_type})`,
+      p_reference: reference,
+      p_metadata: baseTxMetadata
+    })
 
   if (deductError) {
+    await releaseIdempotencyKey(adminSupabase, idempotency)
     const msg = deductError.message || ''
     if (msg.includes('INSUFFICIENT_BALANCE')) {
       return new Response(JSON.stringify({ error: 'Insufficient balance' }), { 
         status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       })
     }
+    if (msg.includes('KYC_DAILY_SPEND_LIMIT')) {
+      return new Response(JSON.stringify({ error: 'You have reached the daily spending limit for your verification level. Verify your BVN or NIN to raise it.', code: 'KYC_DAILY_SPEND_LIMIT' }), { 
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      })
+    }
     if (msg.includes('WALLET_NOT_FOUND')) {
       return new Response(JSON.stringify({ error: 'Wallet not found' }), { 
         status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -243,139 +256,113 @@ async function handlePurchaseElectricity(req: Request, supabase: any, userId: st
     })
   }
 
-  const reference = `ELEC-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+  const { transaction_id: transactionId } = debit as { transaction_id: string }
 
-  // Create pending transaction
-  const { data: transaction, error: txError } = await supabase
-    .from('transactions')
-    .insert({
-      user_id: userId,
-      type: 'debit',
-      amount: amount,
-      status: 'pending',
-      category: 'electricity',
-      description: `${provider.name} - ${cleanMeter} (${meter_type})`,
-      reference,
-      metadata: {
-        provider_code,
-        provider_name: provider.name,
-        meter_number: cleanMeter,
-        meter_type,
-        customer_name,
-        service_id: provider.service_id
-      }
-    })
-    .select()
-    .single()
+  // The disco row's own provider first, then mapped providers in api_providers priority order
+  const { data: mappings } = await adminSupabase
+    .from('provider_service_mappings')
+    .select('*')
+    .eq('product', 'electricity')
+    .eq('provider_code', provider_code)
+    .eq('is_active', true)
 
-  if (txError) {
-    console.error('Transaction creation error:', txError)
-    return new Response(JSON.stringify({ error: 'Failed to create transaction' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-  }
+  const candidates = await planFailover(
+    adminSupabase,
+    'electricity',
+    { id: provider.id, provider: provider.api_provider, price: amount, item: { service_id: provider.service_id } },
+    (mappings ?? []).map((m: { id: string; api_provider: string; service_id: number }) => ({
+      id: m.id,
+      provider: m.api_provider,
+      price: amount,
+      item: { service_id: m.service_id },
+    }))
+  )
 
-  // Call iSquare API
-  try {
-    const username = Deno.env.get('ISQUARE_USERNAME')
-    const password = Deno.env.get('ISQUARE_PASSWORD')
+  const { result, candidate, attempts } = await runWithFailover(candidates, (apiProvider, c) =>
+    apiProvider.purchaseElectricity({
+      service_id: c.item.service_id,
+      meter_number: cleanMeter,
+      meter_type,
+      amount,
+      reference
+    })
+  )
 
-    if (!username || !password) {
-      await updateTransactionFailed(supabase, transaction.id, userId, 'API credentials not configured', provider.name, cleanMeter)
-      return new Response(JSON.stringify({ error: 'API credentials not configured' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+  if (result.status === 'failed') {
+    const errorMsg = result.error || 'Purchase failed'
+    const refunded = await failTransaction(adminSupabase, transactionId, userId, errorMsg, provider.name, cleanMeter, { ...baseTxMetadata, failover_attempts: attempts }, `Refund: ₦${amount} electricity for ${cleanMeter}`)
+    if (!refunded) {
+      return idempotentResponse(adminSupabase, idempotency, { error: errorMsg, details: 'We could not refund your wallet yet. It will be refunded automatically.', reference }, 502, corsHeaders)
     }
+    return idempotentResponse(adminSupabase, idempotency, { error: errorMsg }, 400, corsHeaders)
+  }
 
-    const credentials = btoa(`${username}:${password}`)
-
-    console.log('Buying electricity:', { service_id: provider.service_id, meter: cleanMeter, amount })
-
-    const response = await fetch('https://isquaredata.com/api/electricity/buy/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        service_id: provider.service_id,
-        meter_number: cleanMeter,
-        meter_type: meter_type,
-        amount: amount,
-        reference: reference
-      })
-    })
-
-    const data = await response.json()
-    console.log('Purchase response:', data)
-
-    if (!response.ok || data.error || data.status === 'error') {
-      const errorMsg = data.message || data.error || 'Purchase failed'
-      // Refund the wallet since the API call failed
-      await adminSupabase
-        .from('wallets')
-        .update({ balance: deductResult + amount })
-        .eq('user_id', userId)
-      await updateTransactionFailed(adminSupabase, transaction.id, userId, errorMsg, provider.name, cleanMeter)
-      return new Response(JSON.stringify({ error: errorMsg }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+  // Wallet was already debited through the ledger before the API call
+  const token = 'token' in result ? result.token : undefined
+  const units = 'units' in result ? result.units : undefined
+
+  // Update transaction with the provider result, unless a webhook or requery already settled it
+  const { status: finalStatus, settledElsewhere } = await recordPurchaseResult(adminSupabase, transactionId, {
+    status: result.status === 'success' ? 'completed' : 'pending',
+    metadata: {
+      ...baseTxMetadata,
+      token,
+      units,
+      api_provider: candidate?.provider,
+      api_response: result.raw,
+      provider_transaction_id: result.transaction_id ?? null,
+      failover_attempts: attempts
     }
+  })
 
-    // Wallet was already debited atomically before the API call
-
-    // Update transaction success
-    await adminSupabase
-      .from('transactions')
-      .update({ 
-        status: 'completed',
-        metadata: {
-          ...transaction.metadata,
-          token: data.token || data.electricity_token,
-          units: data.units,
-          api_response: data
-        }
-      })
-      .eq('id', transaction.id)
+  if (finalStatus === 'failed') {
+    return idempotentResponse(adminSupabase, idempotency, {
+      error: 'Purchase failed',
+      details: 'The provider could not deliver this purchase and your wallet has been refunded.',
+      reference
+    }, 400, corsHeaders)
+  }
 
-    // Send notification
+  // Send notification; a settlement that got there first has already notified
+  if (!settledElsewhere) {
     await adminSupabase.from('notifications').insert({
       user_id: userId,
-      title: 'Electricity Purchase Successful',
-      message: `Token: ${data.token || data.electricity_token || 'Check your meter'}. ₦${amount} for ${provider.name}`,
-      type: 'success'
-    })
-
-    return new Response(JSON.stringify({
-      success: true,
-      reference,
-      token: data.token || data.electricity_token,
-      units: data.units,
-      message: `Electricity token generated for ${provider.name}`
-    }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-    })
-
-  } catch (error) {
-    console.error('Electricity purchase error:', error)
-    const errorMsg = error instanceof Error ? error.message : 'Purchase failed'
-    await updateTransactionFailed(supabase, transaction.id, userId, errorMsg, provider.name, cleanMeter)
-    return new Response(JSON.stringify({ error: 'Electricity purchase failed' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      title: finalStatus === 'completed' ? 'Electricity Purchase Successful' : 'Electricity Purchase Processing',
+      message: finalStatus === 'completed'
+        ? `Token: ${token || 'Check your meter'}. ₦${amount} for ${provider.name}`
+        : `Your ₦${amount} ${provider.name} purchase for ${cleanMeter} is being processed`,
+      type: finalStatus === 'completed' ? 'success' : 'info'
     })
   }
+
+  return idempotentResponse(adminSupabase, idempotency, {
+    success: true,
+    reference,
+    status: finalStatus,
+    token,
+    units,
+    message: finalStatus === 'completed'
+      ? `Electricity token generated for ${provider.name}`
+      : 'Your electricity purchase is being processed'
+  }, 200, corsHeaders)
 }
 
-async function updateTransactionFailed(supabase: any, txId: string, userId: string, error: string, providerName: string, meterNumber: string) {
-  await supabase
-    .from('transactions')
-    .update({ status: 'failed', metadata: { api_error: error } })
-    .eq('id', txId)
+/**
+ * Refund and mark the purchase failed in one step. Returns false when the
+ * refund could not be posted; the purchase is then left pending and the
+ * requery worker settles it later.
+ */
+async function failTransaction(supabase: SupabaseClient, txId: string, userId: string, error: string, providerName: string, meterNumber: string, metadata: Record<string, unknown>, refundDescription: string) {
+  const { error: refundError } = await supabase.rpc('fail_pending_transaction', {
+    p_transaction_id: txId,
+    p_metadata: { ...metadata, api_error: error },
+    p_description: refundDescription,
+  })
+
+  if (refundError) {
+    console.error('Refund error, leaving transaction pending:', { transactionId: txId, error: refundError })
+    return false
+  }
 
   await supabase.from('notifications').insert({
     user_id: userId,
@@ -383,4 +370,5 @@ async function updateTransactionFailed(supabase: any, txId: string, userId: stri
     message: `Failed to purchase electricity for ${providerName} - ${meterNumber}. ${error}`,
     type: 'error'
   })
+  return true
 }
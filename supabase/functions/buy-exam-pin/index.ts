@@ -1,13 +1,18 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { claimIdempotencyKey, idempotencyShortCircuit, idempotentResponse, releaseIdempotencyKey, releaseIdempotencyKeyOnError } from '../_shared/idempotency.ts'
+import { getProvider } from '../_shared/providers/index.ts'
+import { loadTierPricing, tierPrice } from '../_shared/tier-pricing.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
 }
 
 interface BuyExamPinRequest {
   exam_code: string
   quantity?: number
+  pin: string
 }
 
 Deno.serve(async (req) => {
@@ -59,7 +64,8 @@ Deno.serve(async (req) => {
       })
     }
 
-    const { exam_code, quantity = 1 }: BuyExamPinRequest = await req.json()
+    const payload: BuyExamPinRequest = await req.json()
+    const { exam_code, quantity = 1, pin } = payload
 
     if (!exam_code) {
       return new Response(JSON.stringify({ error: 'Missing exam code' }), { 
@@ -95,17 +101,59 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_URL')!,
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
-    const totalPrice = Number(examPin.price) * quantity
-    const { data: deductResult, error: deductError } = await adminSupabase
-      .rpc('deduct_wallet_balance', { p_user_id: userId, p_amount: totalPrice })
+    const tierPricing = await loadTierPricing(adminSupabase, userId, 'exam_pin')
+    const unitPrice = tierPrice(tierPricing, examPin.id, Number(examPin.price))
+    const totalPrice = unitPrice * quantity
+
+    // Verify transaction PIN before touching the wallet
+    const pinCheck = await checkTransactionPin(adminSupabase, userId, pin)
+    if (!pinCheck.ok) {
+      return new Response(JSON.stringify({ error: pinCheck.error, code: pinCheck.code }), {
+        status: pinCheck.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const reference = `EXAM-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+    const baseTxMetadata: Record<string, unknown> = {
+      exam_code,
+      exam_name: examPin.name,
+      quantity,
+      unit_price: unitPrice,
+      list_price: examPin.price,
+      service_id: examPin.service_id,
+      tier: tierPricing.slug
+    }
+
+    // A retried request with the same Idempotency-Key gets the original result instead of a second debit
+    const idempotency = await claimIdempotencyKey(adminSupabase, userId, 'buy-exam-pin', req, payload, reference)
+    const shortCircuit = idempotencyShortCircuit(idempotency, corsHeaders)
+    if (shortCircuit) return shortCircuit
+
+    // Atomically debit the wallet and create the pending transaction (ledger posting)
+    const { data: debit, error: deductError } = await adminSupabase
+      .rpc('debit_wallet', {
+        p_user_id: userId,
+        p_amount: totalPrice,
+        p_category: 'exam',
+        p_description: `${examPin.name} x${quantity}`,
+        p_reference: reference,
+        p_metadata: baseTxMetadata
+      })
 
     if (deductError) {
+      await releaseIdempotencyKey(adminSupabase, idempotency)
       const msg = deductError.message || ''
       if (msg.includes('INSUFFICIENT_BALANCE')) {
         return new Response(JSON.stringify({ error: 'Insufficient balance' }), { 
           status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         })
       }
+      if (msg.includes('KYC_DAILY_SPEND_LIMIT')) {
+        return new Response(JSON.stringify({ error: 'You have reached the daily spending limit for your verification level. Verify your BVN or NIN to raise it.', code: 'KYC_DAILY_SPEND_LIMIT' }), { 
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        })
+      }
       if (msg.includes('WALLET_NOT_FOUND')) {
         return new Response(JSON.stringify({ error: 'Wallet not found' }), { 
           status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -117,150 +165,78 @@ Deno.serve(async (req) => {
       })
     }
 
-    const reference = `EXAM-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
-
-    // Create pending transaction
-    const { data: transaction, error: txError } = await supabase
-      .from('transactions')
-      .insert({
-        user_id: userId,
-        type: 'debit',
-        amount: totalPrice,
-        status: 'pending',
-        category: 'exam',
-        description: `${examPin.name} x${quantity}`,
-        reference,
-        metadata: {
-          exam_code,
-          exam_name: examPin.name,
-          quantity,
-          unit_price: examPin.price,
-          service_id: examPin.service_id
-        }
-      })
-      .select()
-      .single()
-
-    if (txError) {
-      console.error('Transaction creation error:', txError)
-      return new Response(JSON.stringify({ error: 'Failed to create transaction' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
-    }
+    const { transaction_id: transactionId, entry_id: debitEntryId } = debit as { transaction_id: string; entry_id: string }
 
-    // Call iSquare API
-    try {
-      const username = Deno.env.get('ISQUARE_USERNAME')
-      const password = Deno.env.get('ISQUARE_PASSWORD')
+    const apiProvider = getProvider(examPin.api_provider)
+    const pins: { pin?: string; serial?: string }[] = []
 
-      if (!username || !password) {
-        await updateTransactionFailed(supabase, transaction.id, userId, 'API credentials not configured', examPin.name)
-        return new Response(JSON.stringify({ error: 'API credentials not configured' }), { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        })
-      }
+    // Buy pins one by one through the provider's adapter
+    for (let i = 0; i < quantity; i++) {
+      console.log('Buying exam pin:', { service_id: examPin.service_id, iteration: i + 1 })
 
-      const credentials = btoa(`${username}:${password}`)
-      const pins: any[] = []
-
-      // Buy pins one by one (or batch if API supports)
-      for (let i = 0; i < quantity; i++) {
-        console.log('Buying exam pin:', { service_id: examPin.service_id, iteration: i + 1 })
-
-        const response = await fetch('https://isquaredata.com/api/education/buy/', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${credentials}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            service_id: examPin.service_id,
-            reference: `${reference}-${i + 1}`
-          })
-        })
+      const result = apiProvider
+        ? await apiProvider.purchaseExamPin({ service_id: examPin.service_id, reference: `${reference}-${i + 1}` })
+        : { status: 'failed' as const, error: 'Exam PIN provider is not available' }
 
-        const data = await response.json()
-        console.log('Purchase response:', data)
-
-        if (!response.ok || data.error || data.status === 'error') {
-          if (pins.length === 0) {
-            const errorMsg = data.message || data.error || 'Purchase failed'
-            // Refund the full amount since no pins were purchased
-            await adminSupabase
-              .from('wallets')
-              .update({ balance: deductResult + totalPrice })
-              .eq('user_id', userId)
-            await updateTransactionFailed(adminSupabase, transaction.id, userId, errorMsg, examPin.name)
-            return new Response(JSON.stringify({ error: errorMsg }), { 
-              status: 400, 
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-            })
+      if (result.status === 'failed') {
+        if (pins.length === 0) {
+          const errorMsg = result.error || 'Purchase failed'
+          // Refund the full amount since no pins were purchased
+          const refunded = await failTransaction(adminSupabase, transactionId, userId, errorMsg, examPin.name, `Refund: ${examPin.name} x${quantity}`)
+          if (!refunded) {
+            return idempotentResponse(adminSupabase, idempotency, { error: errorMsg, details: 'We could not refund your wallet yet. It will be refunded automatically.', reference }, 502, corsHeaders)
           }
-          break // Partial success
+          return idempotentResponse(adminSupabase, idempotency, { error: errorMsg }, 400, corsHeaders)
         }
-
-        pins.push({
-          pin: data.pin || data.token || data.serial,
-          serial: data.serial || data.serial_number
-        })
-      }
-
-      // If partial success, refund the difference
-      const actualCost = Number(examPin.price) * pins.length
-      if (actualCost < totalPrice) {
-        const refundAmount = totalPrice - actualCost
-        await adminSupabase
-          .from('wallets')
-          .update({ balance: deductResult + refundAmount })
-          .eq('user_id', userId)
+        break // Partial success
       }
 
-      // Update transaction with actual amount and pins
-      await adminSupabase
-        .from('transactions')
-        .update({ 
-          status: 'completed',
-          amount: actualCost,
-          metadata: {
-            ...transaction.metadata,
-            pins,
-            actual_quantity: pins.length
-          }
-        })
-        .eq('id', transaction.id)
-
-      // Send notification
-      await adminSupabase.from('notifications').insert({
-        user_id: userId,
-        title: 'Exam Pin Purchase Successful',
-        message: `${pins.length}x ${examPin.name} purchased. Check transaction history for PIN(s).`,
-        type: 'success'
+      pins.push({
+        pin: 'pin' in result ? result.pin : undefined,
+        serial: 'serial' in result ? result.serial : undefined
       })
+    }
 
-      return new Response(JSON.stringify({
-        success: true,
-        reference,
-        pins,
-        message: `${pins.length}x ${examPin.name} purchased successfully`
-      }), { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+    // If partial success, refund the difference
+    const actualCost = unitPrice * pins.length
+    if (actualCost < totalPrice) {
+      const refundAmount = totalPrice - actualCost
+      await refundDebit(adminSupabase, debitEntryId, `Refund: ${quantity - pins.length}x ${examPin.name} not delivered`, refundAmount)
+    }
 
-    } catch (error) {
-      console.error('Exam pin purchase error:', error)
-      const errorMsg = error instanceof Error ? error.message : 'Purchase failed'
-      await updateTransactionFailed(supabase, transaction.id, userId, errorMsg, examPin.name)
-      return new Response(JSON.stringify({ error: 'Exam pin purchase failed' }), { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    // Update transaction with actual amount and pins
+    await adminSupabase
+      .from('transactions')
+      .update({ 
+        status: 'completed',
+        amount: actualCost,
+        metadata: {
+          ...baseTxMetadata,
+          api_provider: apiProvider?.name,
+          pins,
+          actual_quantity: pins.length
+        }
       })
-    }
+      .eq('id', transactionId)
+
+    // Send notification
+    await adminSupabase.from('notifications').insert({
+      user_id: userId,
+      title: 'Exam Pin Purchase Successful',
+      message: `${pins.length}x ${examPin.name} purchased. Check transaction history for PIN(s).`,
+      type: 'success'
+    })
+
+    return idempotentResponse(adminSupabase, idempotency, {
+      success: true,
+      reference,
+      pins,
+      message: `${pins.length}x ${examPin.name} purchased successfully`
+    }, 200, corsHeaders)
 
   } catch (error) {
     console.error('Buy exam pin error:', error)
+    await releaseIdempotencyKeyOnError(req)
     return new Response(JSON.stringify({ error: 'Internal server error' }), { 
       status: 500, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -268,11 +244,31 @@ Deno.serve(async (req) => {
   }
 })
 
-async function updateTransactionFailed(supabase: any, txId: string, userId: string, error: string, examName: string) {
-  await supabase
-    .from('transactions')
-    .update({ status: 'failed', metadata: { api_error: error } })
-    .eq('id', txId)
+async function refundDebit(adminSupabase: SupabaseClient, entryId: string, description: string, amount?: number) {
+  const { error } = await adminSupabase
+    .rpc('reverse_entry', { p_entry_id: entryId, p_description: description, p_amount: amount ?? null })
+
+  if (error) {
+    console.error('Refund error:', error)
+  }
+}
+
+/**
+ * Refund and mark the purchase failed in one step. Returns false when the
+ * refund could not be posted; the purchase is then left pending and the
+ * requery worker settles it later.
+ */
+async function failTransaction(supabase: SupabaseClient, txId: string, userId: string, error: string, examName: string, refundDescription: string) {
+  const { error: refundError } = await supabase.rpc('fail_pending_transaction', {
+    p_transaction_id: txId,
+    p_metadata: { api_error: error },
+    p_description: refundDescription,
+  })
+
+  if (refundError) {
+    console.error('Refund error, leaving transaction pending:', { transactionId: txId, error: refundError })
+    return false
+  }
 
   await supabase.from('notifications').insert({
     user_id: userId,
@@ -280,4 +276,5 @@ async function updateTransactionFailed(supabase: any, txId: string, userId: stri
     message: `Failed to purchase ${examName}. ${error}`,
     type: 'error'
   })
+  return true
 }
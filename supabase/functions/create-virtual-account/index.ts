@@ -1,36 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { requestVirtualAccount } from '../_shared/paymentpoint.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface BankAccount {
-  // PaymentPoint can return either snake_case or camelCase keys depending on version
-  bank_name?: string
-  bank_code?: string
-  account_number?: string
-  account_name?: string
-
-  bankName?: string
-  bankCode?: string
-  accountNumber?: string
-  accountName?: string
-}
-
-interface PaymentPointResponse {
-  status: string
-  message: string
-  customer?: {
-    customer_id: string
-    customer_name: string
-    customer_email: string
-    customer_phone_number: string
-  }
-  bankAccounts?: BankAccount[]
-  errors?: string[]
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -40,9 +15,6 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const apiKey = Deno.env.get('PAYMENTPOINT_API_KEY')!
-    const apiSecret = Deno.env.get('PAYMENTPOINT_API_SECRET')!
-    const businessId = Deno.env.get('PAYMENTPOINT_BUSINESS_ID')!
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
@@ -100,80 +72,23 @@ Deno.serve(async (req) => {
     console.log('Creating virtual account for user:', user.id)
 
     // Create virtual account via Payment Point API
-    // Try both Opay (20897) and PalmPay (20946) for better success rate
-    const response = await fetch('https://api.paymentpoint.co/api/v1/createVirtualAccount', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiSecret}`,
-        'api-key': apiKey,
-      },
-      body: JSON.stringify({
-        email: profile.email || `user${user.id.substring(0, 8)}@ramadandata.app`,
-        name: profile.full_name,
-        phoneNumber: profile.phone,
-        bankCode: ['20946', '20897'], // Try both PalmPay and Opay
-        businessId: businessId,
-      }),
-    })
-
-    // Log raw response for debugging
-    const responseText = await response.text()
-    console.log('Payment Point raw response:', responseText)
-    console.log('Response status:', response.status)
-
-    // Try to parse as JSON
-    let result: PaymentPointResponse
-    try {
-      result = JSON.parse(responseText)
-    } catch (parseError) {
-      console.error('Failed to parse Payment Point response as JSON:', parseError)
-      console.error('Raw response was:', responseText.substring(0, 500))
-      return new Response(
-        JSON.stringify({ error: 'Invalid response from payment provider' }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    console.log('Payment Point parsed response:', JSON.stringify(result))
-
-    // Check if status is success (it's a string, not boolean)
-    if (result.status !== 'success') {
-      console.error('Payment Point error:', result.message)
+    const created = await requestVirtualAccount(profile)
+
+    if (!created.ok) {
+      // The user has to verify their BVN first; verify-identity then creates the account
+      if (created.bvn_required) {
+        return new Response(
+          JSON.stringify({ error: 'Verify your BVN to get a virtual account', code: 'BVN_REQUIRED' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
       return new Response(
-        JSON.stringify({ error: result.message || 'Failed to create virtual account' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: created.error, details: created.details }),
+        { status: created.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Check if any bank accounts were created
-    if (!result.bankAccounts || result.bankAccounts.length === 0) {
-      console.error('No bank accounts created. Errors:', result.errors)
-      return new Response(
-        JSON.stringify({ 
-          error: result.errors?.[0] || 'No virtual account could be created. Please try again later.',
-          details: result.errors 
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Get the first successful bank account
-    const bankAccount = result.bankAccounts[0]
-    console.log('Bank account created:', JSON.stringify(bankAccount))
-
-    // Normalize bank account fields (handle snake_case + camelCase)
-    const accountNumber = (bankAccount as any).account_number ?? (bankAccount as any).accountNumber ?? null
-    const bankName = (bankAccount as any).bank_name ?? (bankAccount as any).bankName ?? null
-    const accountName = (bankAccount as any).account_name ?? (bankAccount as any).accountName ?? null
-
-    if (!accountNumber || !bankName || !accountName) {
-      console.error('Payment Point returned incomplete bank account details:', JSON.stringify(bankAccount))
-      return new Response(
-        JSON.stringify({ error: 'Payment provider returned incomplete bank account details' }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    const { account_number: accountNumber, account_name: accountName, bank_name: bankName } = created
 
     // Update profile with virtual account details
     const { error: updateError } = await supabase
@@ -182,7 +97,7 @@ Deno.serve(async (req) => {
         virtual_account_number: accountNumber,
         virtual_account_bank: bankName,
         virtual_account_name: accountName,
-        virtual_account_reference: result.customer?.customer_id || user.id,
+        virtual_account_reference: created.customer_id,
       })
       .eq('user_id', user.id)
 
@@ -1,8 +1,67 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider } from '../_shared/providers/index.ts'
+import { metadataOf, providerOf, settlePendingTransaction } from '../_shared/settle-transaction.ts'
+import { auditHeaders, callbackReferenceSignature, hmacSha256Hex, normalizeSignature, safeEqual, sourceIp } from '../_shared/webhook-security.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-callback-token',
+}
+
+const DEFAULT_SIGNATURE_HEADER = 'x-signature'
+
+type CallbackAuth = { ok: true } | { ok: false; reason: string }
+
+/**
+ * Check a callback against the provider's settings in api_providers. The
+ * secret for shared_secret and signature auth is the <NAME>_CALLBACK_SECRET
+ * function secret. A non-empty IP allowlist is checked on top, never instead.
+ */
+async function authenticateCallback(
+  supabase: SupabaseClient,
+  providerName: string,
+  req: Request,
+  rawBody: string,
+  reference: string
+): Promise<CallbackAuth> {
+  const { data: config, error } = await supabase
+    .from('api_providers')
+    .select('callback_auth, callback_signature_header, callback_allowed_ips')
+    .eq('name', providerName)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const method = config?.callback_auth ?? 'shared_secret'
+  const allowedIps: string[] = config?.callback_allowed_ips ?? []
+  const ip = sourceIp(req.headers)
+
+  if (allowedIps.length > 0 && (!ip || !allowedIps.includes(ip))) {
+    return { ok: false, reason: `Source IP not allowed: ${ip ?? 'unknown'}` }
+  }
+
+  const secret = Deno.env.get(`${providerName.toUpperCase()}_CALLBACK_SECRET`)
+  if (!secret) return { ok: false, reason: 'Callback secret not configured' }
+
+  if (method === 'signature') {
+    const signature = normalizeSignature(req.headers.get(config?.callback_signature_header || DEFAULT_SIGNATURE_HEADER))
+    if (!signature) return { ok: false, reason: 'Missing signature' }
+    return safeEqual(await hmacSha256Hex(secret, rawBody), signature)
+      ? { ok: true }
+      : { ok: false, reason: 'Invalid signature' }
+  }
+
+  const token = req.headers.get('x-callback-token')
+  if (token) {
+    return safeEqual(token, secret) ? { ok: true } : { ok: false, reason: 'Invalid callback token' }
+  }
+
+  // Providers that can only be given a URL carry a signature of the order reference instead
+  const referenceSignature = normalizeSignature(new URL(req.url).searchParams.get('sig'))
+  if (!referenceSignature) return { ok: false, reason: 'Missing callback token' }
+  return safeEqual(await callbackReferenceSignature(secret, providerName, reference), referenceSignature)
+    ? { ok: true }
+    : { ok: false, reason: 'Invalid callback signature' }
 }
 
 Deno.serve(async (req) => {
@@ -18,139 +77,128 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     )
 
-    const body = await req.json()
-    console.log('Data webhook received:', JSON.stringify(body, null, 2))
-
-    // Extract reference and status from webhook payload
-    // Albarka format: { "request-id", status, response }
-    // iSquare format: { reference, status, message, ... }
-    // RGC format: { reference, status, ... }
-    const reference = body['request-id'] || body.reference || body.transaction_reference
-    const status = body.status?.toLowerCase()
-    const message = body.response || body.message || body.description || ''
-
-    if (!reference) {
-      console.error('Missing reference in webhook payload')
-      return new Response(JSON.stringify({ error: 'Missing reference' }), { 
-        status: 400, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    const rawBody = await req.text()
+    const audit: Record<string, unknown> = {
+      source_ip: sourceIp(req.headers),
+      headers: auditHeaders(req.headers),
+      raw_body: rawBody,
+    }
+
+    // Every callback is kept, whether or not it was accepted
+    const record = async (fields: Record<string, unknown>) => {
+      const { error } = await supabase.from('provider_callbacks').insert({ ...audit, ...fields })
+      if (error) console.error('Failed to record provider callback:', error)
+    }
+
+    const reject = async (status: number, error: string, reason: string) => {
+      console.warn('Data webhook rejected:', { reason, provider: audit.provider, reference: audit.reference })
+      await record({ rejection_reason: reason })
+      return new Response(JSON.stringify({ error }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    console.log('Processing webhook:', { reference, status, message, provider: body['request-id'] ? 'albarka' : 'other' })
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return await reject(400, 'Invalid payload', 'Invalid JSON')
+    }
+
+    // Albarka echoes the reference as request-id, iSquare and RGC as reference
+    // (older RGC deployments as transaction_reference). It is only used to find
+    // the transaction; the provider's schema is enforced once we know who sent it.
+    const payload = body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : {}
+    const lookupReference = payload['request-id'] ?? payload.reference ?? payload.transaction_reference
+    if (typeof lookupReference !== 'string' || !lookupReference) {
+      return await reject(400, 'Missing reference', 'Missing reference')
+    }
+    audit.reference = lookupReference
+
+    const requestedProvider = new URL(req.url).searchParams.get('provider')?.toLowerCase() || null
+    audit.provider = requestedProvider
 
-    // Find the transaction by reference
+    // Find the purchase by reference; references are only unique per type since transfers
     const { data: transaction, error: txError } = await supabase
       .from('transactions')
       .select('*')
-      .eq('reference', reference)
+      .eq('reference', lookupReference)
+      .eq('type', 'debit')
       .maybeSingle()
 
-    if (txError || !transaction) {
-      console.error('Transaction not found:', reference, txError)
-      return new Response(JSON.stringify({ error: 'Transaction not found' }), { 
-        status: 404, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      })
+    if (txError) throw txError
+    if (!transaction) {
+      return await reject(404, 'Transaction not found', 'Unknown reference')
+    }
+    audit.transaction_id = transaction.id
+
+    // Only the provider that served the order may report on it
+    const providerName = providerOf(metadataOf(transaction))
+    const provider = getProvider(providerName)
+    audit.provider = provider?.name ?? providerName
+    if (!provider) {
+      return await reject(400, 'Unknown provider', `Provider adapter not registered: ${providerName}`)
+    }
+    if (requestedProvider && requestedProvider !== provider.name) {
+      return await reject(401, 'Unauthorized', `Callback for ${requestedProvider} on a ${provider.name} order`)
+    }
+
+    const auth = await authenticateCallback(supabase, provider.name, req, rawBody, lookupReference)
+    if (!auth.ok) {
+      return await reject(401, 'Unauthorized', auth.reason)
+    }
+    audit.authenticated = true
+
+    const parsed = provider.parseCallback(body)
+    if (!parsed.ok) {
+      return await reject(400, 'Invalid payload', parsed.error)
     }
+    audit.reported_status = parsed.status
 
-    const baseTxMetadata = transaction.metadata && typeof transaction.metadata === 'object' && !Array.isArray(transaction.metadata)
-      ? (transaction.metadata as Record<string, unknown>)
-      : {}
+    console.log('Processing webhook:', { reference: parsed.reference, status: parsed.status, provider: provider.name })
 
     // Already processed?
     if (transaction.status !== 'pending') {
       console.log('Transaction already processed:', transaction.status)
-      return new Response(JSON.stringify({ message: 'Already processed' }), { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      await record({ resulting_status: transaction.status })
+      return new Response(JSON.stringify({ message: 'Already processed' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       })
     }
 
-    const isSuccess = status === 'success' || status === 'successful' || status === 'completed'
-    const isFailed = status === 'failed' || status === 'error' || status === 'unsuccessful'
-
-    if (isSuccess) {
-      // Update transaction as success
-      await supabase
-        .from('transactions')
-        .update({ 
-          status: 'completed',
-          metadata: {
-            ...baseTxMetadata,
-            webhook_data: body,
-            completed_at: new Date().toISOString()
-          }
-        })
-        .eq('id', transaction.id)
-
-      // Send success notification
-      const category = transaction.category === 'data' ? 'Data' : 'Airtime'
-      await supabase.from('notifications').insert({
-        user_id: transaction.user_id,
-        title: `${category} Purchase Successful`,
-        message: transaction.description,
-        type: 'success'
+    if (parsed.status === 'pending') {
+      console.log('Provider still processing, keeping as pending:', parsed.reference)
+      await record({ resulting_status: 'pending' })
+    } else {
+      const isSuccess = parsed.status === 'success'
+      const settled = await settlePendingTransaction(supabase, transaction, {
+        status: isSuccess ? 'completed' : 'failed',
+        reason: parsed.message,
+        metadata: { webhook_data: body },
       })
 
-      console.log('Transaction marked as success:', reference)
-
-    } else if (isFailed) {
-      // Update transaction as failed
-      await supabase
-        .from('transactions')
-        .update({ 
-          status: 'failed',
-          metadata: {
-            ...baseTxMetadata,
-            webhook_data: body,
-            failure_reason: message,
-            failed_at: new Date().toISOString()
-          }
-        })
-        .eq('id', transaction.id)
-
-      // Refund the user's wallet
-      const { data: wallet, error: walletError } = await supabase
-        .from('wallets')
-        .select('balance')
-        .eq('user_id', transaction.user_id)
-        .maybeSingle()
-
-      if (wallet) {
-        const newBalance = Number(wallet.balance) + Number(transaction.amount)
-        await supabase
-          .from('wallets')
-          .update({ balance: newBalance })
-          .eq('user_id', transaction.user_id)
-
-        console.log('Wallet refunded:', { userId: transaction.user_id, amount: transaction.amount, newBalance })
-      }
-
-      // Send failure notification with refund info
-      const category = transaction.category === 'data' ? 'Data' : 'Airtime'
-      await supabase.from('notifications').insert({
-        user_id: transaction.user_id,
-        title: `${category} Purchase Failed`,
-        message: `${transaction.description} failed. ₦${Number(transaction.amount).toLocaleString()} has been refunded to your wallet.`,
-        type: 'error'
-      })
+      console.log(settled
+        ? `Transaction marked as ${isSuccess ? 'success' : 'failed and refunded'}: ${parsed.reference}`
+        : `Transaction settled concurrently: ${parsed.reference}`)
 
-      console.log('Transaction marked as failed and refunded:', reference)
-    } else {
-      console.log('Unknown status, keeping as pending:', status)
+      await record({
+        state_changed: settled,
+        resulting_status: settled ? (isSuccess ? 'completed' : 'failed') : null,
+      })
     }
 
-    return new Response(JSON.stringify({ success: true }), { 
-      status: 200, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
 
   } catch (error) {
     console.error('Data webhook error:', error)
-    return new Response(JSON.stringify({ error: 'Internal server error' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     })
   }
 })
@@ -0,0 +1,67 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { deliverQueued } from '../_shared/outbound-webhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 50
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+    const { data: due, error: dueError } = await supabase
+      .from('api_callbacks')
+      .select('id, api_key_id, url, payload, attempts, next_attempt_at')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (dueError) throw dueError
+
+    const keyIds = [...new Set((due ?? []).map((c) => c.api_key_id))]
+    const { data: keys, error: keysError } = await supabase
+      .from('api_keys')
+      .select('id, callback_secret')
+      .in('id', keyIds)
+
+    if (keysError) throw keysError
+    const secrets = new Map<string, string>((keys ?? []).map((k) => [k.id, k.callback_secret]))
+
+    const summary = await deliverQueued(supabase, 'api_callbacks', (due ?? []).map((callback) => ({
+      ...callback,
+      secret: secrets.get(callback.api_key_id) ?? '',
+    })))
+
+    console.log('API callback run finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('API callback worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,79 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { deliverQueued } from '../_shared/outbound-webhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 50
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+    const { data: due, error: dueError } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, payload, attempts, next_attempt_at')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (dueError) throw dueError
+
+    const endpointIds = [...new Set((due ?? []).map((d) => d.endpoint_id))]
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, secret, is_active')
+      .in('id', endpointIds)
+
+    if (endpointsError) throw endpointsError
+    const endpointById = new Map((endpoints ?? []).map((e) => [e.id, e]))
+
+    // Events queued before an endpoint was disabled are not sent
+    const disabled = (due ?? []).filter((d) => !endpointById.get(d.endpoint_id)?.is_active).map((d) => d.id)
+    if (disabled.length > 0) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', last_error: 'Endpoint disabled' })
+        .in('id', disabled)
+        .eq('status', 'pending')
+    }
+
+    const summary = await deliverQueued(supabase, 'webhook_deliveries', (due ?? [])
+      .filter((d) => !disabled.includes(d.id))
+      .map((delivery) => {
+        const endpoint = endpointById.get(delivery.endpoint_id)!
+        return { ...delivery, url: endpoint.url, secret: endpoint.secret }
+      }))
+
+    console.log('Webhook delivery run finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Webhook delivery worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
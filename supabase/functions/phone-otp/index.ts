@@ -0,0 +1,275 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PHONE_OTP_PURPOSES, checkPhoneOtp, maskPhone, sendPhoneOtp, type PhoneOtpFailure, type PhoneOtpPurpose } from '../_shared/phone-otp.ts'
+import { normalizePhone } from '../_shared/phone.ts'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+import { sourceIp } from '../_shared/webhook-security.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface PhoneOtpRequest {
+  action?: 'status' | 'send' | 'verify' | 'change_email' | 'trust_device'
+  purpose?: PhoneOtpPurpose
+  phone?: string
+  code?: string
+  pin?: string
+  email?: string
+  device_id?: string
+  device_name?: string
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+function failureResponse(failure: PhoneOtpFailure) {
+  return jsonResponse({ error: failure.error, code: failure.code, retry_after: failure.retry_after }, failure.status)
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data: profile } = await adminSupabase
+      .from('profiles')
+      .select('phone, email, phone_verified_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!profile) {
+      return jsonResponse({ error: 'Profile not found' }, 404)
+    }
+
+    const body: PhoneOtpRequest = await req.json().catch(() => ({}))
+    const action = body.action || 'status'
+    const deviceId = typeof body.device_id === 'string' ? body.device_id.trim().slice(0, 100) : ''
+    const deviceName = typeof body.device_name === 'string' ? body.device_name.trim().slice(0, 100) : null
+
+    const trustDevice = async () => {
+      if (!deviceId) return
+      const { error } = await adminSupabase
+        .from('trusted_devices')
+        .upsert(
+          { user_id: userId, device_id: deviceId, device_name: deviceName, last_seen_at: new Date().toISOString() },
+          { onConflict: 'user_id,device_id' }
+        )
+      if (error) console.error('Failed to trust device:', error)
+    }
+
+    if (action === 'status') {
+      let deviceTrusted = false
+      if (deviceId) {
+        const { data: device } = await adminSupabase
+          .from('trusted_devices')
+          .update({ last_seen_at: new Date().toISOString() })
+          .eq('user_id', userId)
+          .eq('device_id', deviceId)
+          .select('id')
+          .maybeSingle()
+        deviceTrusted = !!device
+      }
+
+      return jsonResponse({
+        phone: profile.phone,
+        masked_phone: profile.phone ? maskPhone(profile.phone) : null,
+        phone_verified: !!profile.phone_verified_at,
+        phone_verified_at: profile.phone_verified_at,
+        device_trusted: deviceTrusted,
+      })
+    }
+
+    if (action === 'send') {
+      const purpose = body.purpose
+      if (!purpose || !PHONE_OTP_PURPOSES.includes(purpose)) {
+        return jsonResponse({ error: 'Invalid purpose' }, 400)
+      }
+
+      let phone: string
+      if (purpose === 'verify_phone') {
+        // The number on the profile, or a new one the user wants to switch to
+        const normalized = normalizePhone(body.phone || profile.phone)
+        if (!normalized) {
+          return jsonResponse({ error: 'Enter a valid Nigerian mobile number', code: 'INVALID_PHONE' }, 400)
+        }
+        phone = normalized
+        if (phone === profile.phone && profile.phone_verified_at) {
+          return jsonResponse({ error: 'This number is already verified', code: 'PHONE_ALREADY_VERIFIED' }, 400)
+        }
+
+        const { data: taken } = await adminSupabase
+          .from('profiles')
+          .select('user_id')
+          .eq('phone', phone)
+          .not('phone_verified_at', 'is', null)
+          .neq('user_id', userId)
+          .limit(1)
+        if (taken?.length) {
+          return jsonResponse({ error: 'This number is already verified on another account', code: 'PHONE_IN_USE' }, 409)
+        }
+      } else {
+        // Everything else is confirmed on the number the user already proved they hold
+        if (!profile.phone_verified_at) {
+          return jsonResponse({ error: 'Verify your phone number first', code: 'PHONE_NOT_VERIFIED' }, 400)
+        }
+        phone = profile.phone
+      }
+
+      const sent = await sendPhoneOtp(adminSupabase, userId, phone, purpose, sourceIp(req.headers))
+      if (!sent.ok) return failureResponse(sent)
+
+      return jsonResponse({ success: true, masked_phone: maskPhone(phone), expires_at: sent.expires_at })
+    }
+
+    if (action === 'verify') {
+      // Moving off a verified number also needs the PIN, so a stolen session
+      // cannot simply swap in another phone
+      if (profile.phone_verified_at) {
+        const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+        if (!pinCheck.ok) {
+          return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+        }
+      }
+
+      const otpCheck = await checkPhoneOtp(adminSupabase, userId, 'verify_phone', body.code)
+      if (!otpCheck.ok) return failureResponse(otpCheck)
+
+      const verifiedAt = new Date().toISOString()
+      const { error: updateError } = await adminSupabase
+        .from('profiles')
+        .update({ phone: otpCheck.phone, phone_verified_at: verifiedAt })
+        .eq('user_id', userId)
+
+      if (updateError) {
+        // Another account verified the same number in the meantime
+        if (updateError.code === '23505') {
+          return jsonResponse({ error: 'This number is already verified on another account', code: 'PHONE_IN_USE' }, 409)
+        }
+        throw updateError
+      }
+
+      // Proving the phone on this device also vouches for the device
+      await trustDevice()
+
+      const changed = otpCheck.phone !== profile.phone
+      const message = changed
+        ? `Your phone number was changed to ${maskPhone(otpCheck.phone)}.`
+        : 'Your phone number is verified. Higher transfer limits are now available.'
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: changed ? 'Phone Number Changed' : 'Phone Number Verified',
+        message,
+        type: changed ? 'warning' : 'success',
+      })
+      if (changed) {
+        await sendPushToUser(adminSupabase, userId, '⚠️ Phone Number Changed', message, { type: 'phone_changed' })
+      }
+
+      console.log('Phone verified:', { userId, changed })
+      return jsonResponse({ success: true, phone: otpCheck.phone, phone_verified_at: verifiedAt })
+    }
+
+    if (action === 'change_email') {
+      const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+      if (!EMAIL_PATTERN.test(email)) {
+        return jsonResponse({ error: 'Enter a valid email address' }, 400)
+      }
+      if (email === profile.email?.toLowerCase()) {
+        return jsonResponse({ error: 'This is already your email address' }, 400)
+      }
+
+      const otpCheck = await checkPhoneOtp(adminSupabase, userId, 'change_email', body.code)
+      if (!otpCheck.ok) return failureResponse(otpCheck)
+
+      // The login email is what matters; the profile copy follows it
+      const { error: authError } = await adminSupabase.auth.admin.updateUserById(userId, {
+        email,
+        email_confirm: true,
+      })
+
+      if (authError) {
+        if (/already|registered|exists/i.test(authError.message || '')) {
+          return jsonResponse({ error: 'This email is already used by another account', code: 'EMAIL_IN_USE' }, 409)
+        }
+        console.error('Email change error:', authError)
+        return jsonResponse({ error: 'Failed to change email' }, 500)
+      }
+
+      await adminSupabase.from('profiles').update({ email }).eq('user_id', userId)
+
+      const message = `Your sign-in email was changed to ${email}. If this wasn't you, contact support immediately.`
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: 'Email Address Changed',
+        message,
+        type: 'warning',
+      })
+      await sendPushToUser(adminSupabase, userId, '⚠️ Email Address Changed', message, { type: 'email_changed' })
+
+      console.log('Email changed:', { userId })
+      return jsonResponse({ success: true, email })
+    }
+
+    if (action === 'trust_device') {
+      if (!deviceId) {
+        return jsonResponse({ error: 'device_id is required' }, 400)
+      }
+
+      const otpCheck = await checkPhoneOtp(adminSupabase, userId, 'new_device', body.code)
+      if (!otpCheck.ok) return failureResponse(otpCheck)
+
+      await trustDevice()
+
+      const message = `${deviceName || 'A new device'} was set up for quick sign-in on your account.`
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: 'New Device Added',
+        message,
+        type: 'info',
+      })
+
+      return jsonResponse({ success: true })
+    }
+
+    return jsonResponse({ error: 'Invalid action' }, 400)
+  } catch (error: unknown) {
+    console.error('Phone OTP error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
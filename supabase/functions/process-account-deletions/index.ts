@@ -0,0 +1,180 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendPushToUser } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 20
+// Long enough to outlast any account a real person could hold
+const BAN_DURATION = '876000h'
+const PROOF_BUCKET = 'airtime-cash-proofs'
+
+const HOLD_REASONS: Record<string, string> = {
+  TRANSACTIONS_PENDING: 'A purchase is still pending',
+  BALANCE_REMAINING: 'The wallet received money after the request and forfeiture was not agreed',
+}
+
+interface DeletionRequest {
+  id: string
+  user_id: string
+  held_reason: string | null
+}
+
+// Screenshots are stored under the user's id; true once none are left
+async function removeAirtimeCashProofs(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const bucket = supabase.storage.from(PROOF_BUCKET)
+  const { data: files, error: listError } = await bucket.list(userId, { limit: 1000 })
+  if (listError) {
+    console.error('Failed to list airtime to cash proofs:', userId, listError)
+    return false
+  }
+  if (!files?.length) return true
+
+  const { error: removeError } = await bucket.remove(files.map((file) => `${userId}/${file.name}`))
+  if (removeError) {
+    console.error('Failed to remove airtime to cash proofs:', userId, removeError)
+    return false
+  }
+  return true
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+    const now = new Date().toISOString()
+    const summary = { due: 0, closed: 0, held: 0, failed: 0, purged: 0 }
+
+    const { data: due, error: dueError } = await supabase
+      .from('account_deletion_requests')
+      .select('id, user_id, held_reason')
+      .eq('status', 'pending')
+      .lte('scheduled_for', now)
+      .order('scheduled_for', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (dueError) throw dueError
+    summary.due = due?.length ?? 0
+
+    for (const request of (due ?? []) as DeletionRequest[]) {
+      const { error: closeError } = await supabase.rpc('close_deleted_account', { p_request_id: request.id })
+
+      if (closeError) {
+        const hold = Object.keys(HOLD_REASONS).find((code) => (closeError.message || '').includes(code))
+        if (!hold) {
+          console.error('Failed to close account:', request.id, closeError)
+          summary.failed++
+          continue
+        }
+
+        // Tell the user once per reason; the request is retried on every run
+        if (request.held_reason !== HOLD_REASONS[hold]) {
+          await supabase
+            .from('account_deletion_requests')
+            .update({ held_reason: HOLD_REASONS[hold] })
+            .eq('id', request.id)
+
+          const message = hold === 'BALANCE_REMAINING'
+            ? 'Your wallet has a balance again. Spend or transfer it, or cancel and request deletion again, so we can close your account.'
+            : 'We will close your account as soon as your pending purchase is settled.'
+          await supabase.from('notifications').insert({
+            user_id: request.user_id,
+            title: 'Account Deletion Delayed',
+            message,
+            type: 'warning',
+          })
+          await sendPushToUser(supabase, request.user_id, 'Account Deletion Delayed', message, {
+            type: 'account_deletion_held',
+          })
+        }
+        summary.held++
+        continue
+      }
+
+      // The profile is already anonymised; the login goes too, so the email or phone can sign up again
+      const { error: authError } = await supabase.auth.admin.updateUserById(request.user_id, {
+        email: `deleted-${request.user_id}@deleted.invalid`,
+        phone: '',
+        password: crypto.randomUUID(),
+        user_metadata: {},
+        ban_duration: BAN_DURATION,
+      })
+
+      // Left pending so the next run closes the account again and retries
+      if (authError) {
+        console.error('Failed to anonymise auth user:', request.user_id, authError)
+        summary.failed++
+        continue
+      }
+
+      const proofsRemoved = await removeAirtimeCashProofs(supabase, request.user_id)
+      if (!proofsRemoved) {
+        summary.failed++
+        continue
+      }
+
+      const { error: completeError } = await supabase.rpc('complete_account_deletion', { p_request_id: request.id })
+      if (completeError) {
+        console.error('Failed to complete account deletion:', request.id, completeError)
+        summary.failed++
+        continue
+      }
+
+      console.log('Account closed:', { request_id: request.id, user_id: request.user_id })
+      summary.closed++
+    }
+
+    // Deleting the auth user cascades to the anonymised profile, wallet and transactions
+    const { data: expired, error: expiredError } = await supabase
+      .from('account_deletion_requests')
+      .select('id, user_id')
+      .eq('status', 'completed')
+      .is('purged_at', null)
+      .lte('retain_until', now)
+      .limit(BATCH_SIZE)
+
+    if (expiredError) throw expiredError
+
+    for (const request of expired ?? []) {
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(request.user_id)
+      if (deleteError && deleteError.status !== 404) {
+        console.error('Failed to purge user:', request.user_id, deleteError)
+        summary.failed++
+        continue
+      }
+
+      await supabase
+        .from('account_deletion_requests')
+        .update({ purged_at: new Date().toISOString() })
+        .eq('id', request.id)
+      summary.purged++
+    }
+
+    console.log('Account deletion run finished:', summary)
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    console.error('Account deletion worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,313 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { GATEWAY_BULK_ORDER_HEADER, GATEWAY_USER_HEADER } from '../_shared/caller.ts'
+import { IDEMPOTENCY_HEADER, findKeyTransaction } from '../_shared/idempotency.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stop claiming lines once a run has used this much of the function's wall clock
+const RUN_BUDGET_MS = 100 * 1000
+const BATCH_SIZE = 100
+// A line claimed by a run that died is handed out again after this
+const STALE_CLAIM_MS = 5 * 60 * 1000
+
+interface BulkLine {
+  id: string
+  order_id: string
+  user_id: string
+  phone_number: string
+  amount: number | null
+  ported: boolean
+}
+
+interface BulkOrder {
+  id: string
+  product_type: string
+  network: string
+  plan_id: string | null
+}
+
+/** Buy one line through buy-data / buy-airtime and record the result on it */
+async function processLine(supabase: SupabaseClient, order: BulkOrder, line: BulkLine) {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const fn = order.product_type === 'data' ? 'buy-data' : 'buy-airtime'
+  // Only lines the customer accepted as ported skip the network prefix check
+  const payload = order.product_type === 'data'
+    ? { plan_id: order.plan_id, phone_number: line.phone_number, ported: line.ported }
+    : { network: order.network, phone_number: line.phone_number, amount: line.amount, ported: line.ported }
+
+  let response: Response
+  try {
+    response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${fn}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRoleKey}`,
+        [GATEWAY_USER_HEADER]: line.user_id,
+        [GATEWAY_BULK_ORDER_HEADER]: order.id,
+        // One key per line, so a retried line replays its result instead of charging twice
+        [IDEMPOTENCY_HEADER]: `bulk-${line.id}`,
+      },
+      body: JSON.stringify(payload),
+    })
+  } catch (error) {
+    console.error('Bulk line request failed, will retry:', { lineId: line.id, error })
+    await supabase.from('bulk_order_lines').update({ status: 'queued', claimed_at: null }).eq('id', line.id)
+    return 'retry'
+  }
+
+  const body = await response.json().catch(() => ({}))
+
+  // Still running from an earlier claim; try again on a later run
+  if (response.status === 409) {
+    await supabase.from('bulk_order_lines').update({ status: 'queued', claimed_at: null }).eq('id', line.id)
+    return 'retry'
+  }
+
+  if (!response.ok || !body.success) {
+    await supabase
+      .from('bulk_order_lines')
+      .update({ status: 'failed', error: body.details || body.error || `HTTP ${response.status}`, processed_at: new Date().toISOString() })
+      .eq('id', line.id)
+    return 'failed'
+  }
+
+  const status = body.status === 'completed' ? 'completed' : 'pending'
+  await supabase
+    .from('bulk_order_lines')
+    .update({ status, reference: body.reference ?? null, error: null, processed_at: new Date().toISOString() })
+    .eq('id', line.id)
+
+  // The purchase may have settled before the line recorded its reference
+  if (status === 'pending' && body.reference) await syncPendingLine(supabase, line.id, body.reference)
+
+  return status
+}
+
+/** Move a pending line on if its purchase has settled */
+async function syncPendingLine(supabase: SupabaseClient, lineId: string, reference: string) {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select('status, metadata')
+    .eq('reference', reference)
+    .eq('type', 'debit')
+    .maybeSingle()
+
+  if (transaction && transaction.status !== 'pending') {
+    const metadata = (transaction.metadata ?? {}) as Record<string, unknown>
+    await supabase
+      .from('bulk_order_lines')
+      .update({
+        status: transaction.status === 'completed' ? 'completed' : 'failed',
+        error: transaction.status === 'completed' ? null : String(metadata.failure_reason ?? 'Purchase failed'),
+      })
+      .eq('id', lineId)
+      .eq('status', 'pending')
+  }
+}
+
+/**
+ * Deal with a line whose run died mid-purchase. If that run already debited
+ * the wallet, the line becomes pending on that purchase; only a line that was
+ * never charged goes back to the queue.
+ */
+async function recoverStaleLine(supabase: SupabaseClient, line: { id: string; user_id: string }) {
+  const { data: key, error: keyError } = await supabase
+    .from('idempotency_keys')
+    .select('reference')
+    .eq('user_id', line.user_id)
+    .eq('key', `bulk-${line.id}`)
+    .maybeSingle()
+
+  if (keyError) throw keyError
+
+  // Keys without a reference predate it being stored and cannot be checked
+  const charged = key
+    ? !key.reference || await findKeyTransaction(supabase, line.user_id, key.reference)
+    : null
+
+  if (!charged) {
+    await supabase
+      .from('bulk_order_lines')
+      .update({ status: 'queued', claimed_at: null })
+      .eq('id', line.id)
+      .eq('status', 'processing')
+    return
+  }
+
+  const reference = key?.reference ?? null
+  await supabase
+    .from('bulk_order_lines')
+    .update({ status: 'pending', reference, processed_at: new Date().toISOString() })
+    .eq('id', line.id)
+    .eq('status', 'processing')
+
+  if (reference) await syncPendingLine(supabase, line.id, reference)
+}
+
+/** Close orders with no lines left to buy and tell the user how they went */
+async function completeOrders(supabase: SupabaseClient, orderIds: string[]) {
+  for (const orderId of orderIds) {
+    const { count: remaining } = await supabase
+      .from('bulk_order_lines')
+      .select('id', { count: 'exact', head: true })
+      .eq('order_id', orderId)
+      .in('status', ['queued', 'processing'])
+
+    if ((remaining ?? 0) > 0) continue
+
+    const { data: closed } = await supabase
+      .from('bulk_orders')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', orderId)
+      .eq('status', 'processing')
+      .select('user_id, product_type, line_count')
+      .maybeSingle()
+
+    if (!closed) continue
+
+    const { data: lines } = await supabase
+      .from('bulk_order_lines')
+      .select('status')
+      .eq('order_id', orderId)
+
+    const count = (status: string) => (lines ?? []).filter((l) => l.status === status).length
+    const sent = count('completed')
+    const pending = count('pending')
+    const failed = count('failed')
+
+    // A failed line was refunded only if its purchase has nothing left to reverse;
+    // lines that failed before the wallet was charged have no purchase at all
+    const { data: failedPurchases } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('metadata->>bulk_order_id', orderId)
+      .eq('status', 'failed')
+
+    let unrefunded = 0
+    for (const purchase of failedPurchases ?? []) {
+      const { data: left, error: leftError } = await supabase
+        .rpc('transaction_reversible_amount', { p_transaction_id: purchase.id })
+      if (leftError || Number(left) > 0) unrefunded++
+    }
+
+    const product = closed.product_type === 'data' ? 'data' : 'airtime'
+    const parts = [`${sent} of ${closed.line_count} sent`]
+    if (pending) parts.push(`${pending} still processing`)
+    if (failed) parts.push(`${failed} failed`)
+
+    let message = failed || pending
+      ? `Your bulk ${product} order finished: ${parts.join(', ')}.`
+      : `Your bulk ${product} order finished: all ${closed.line_count} numbers were sent.`
+    if (pending) message += ' You will be notified as the processing lines complete.'
+    if (failed) {
+      message += unrefunded
+        ? ` ${unrefunded} failed line(s) could not be refunded yet; we are looking into it.`
+        : ' You were not charged for the failed lines.'
+    }
+
+    if (unrefunded) {
+      console.error('Bulk order has unrefunded failed lines:', { orderId, unrefunded })
+    }
+
+    await supabase.from('notifications').insert({
+      user_id: closed.user_id,
+      title: 'Bulk Order Finished',
+      message,
+      type: failed ? 'warning' : pending ? 'info' : 'success'
+    })
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler, bulk-orders (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const startedAt = Date.now()
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+    const { order_id: orderId }: { order_id?: string } = await req.json().catch(() => ({}))
+
+    // Lines from runs that died mid-line go back to the queue unless they were charged
+    const { data: stale, error: staleError } = await supabase
+      .from('bulk_order_lines')
+      .select('id, user_id')
+      .eq('status', 'processing')
+      .lt('claimed_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString())
+
+    if (staleError) throw staleError
+    for (const line of stale ?? []) await recoverStaleLine(supabase, line)
+
+    let query = supabase
+      .from('bulk_order_lines')
+      .select('id, order_id, user_id, phone_number, amount, ported')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .order('line_no', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (orderId) query = query.eq('order_id', orderId)
+
+    const { data: queued, error: queuedError } = await query
+    if (queuedError) throw queuedError
+
+    const orderIds = [...new Set((queued ?? []).map((l) => l.order_id))]
+    const { data: orders, error: ordersError } = await supabase
+      .from('bulk_orders')
+      .select('id, product_type, network, plan_id')
+      .in('id', orderIds)
+
+    if (ordersError) throw ordersError
+    const orderById = new Map((orders ?? []).map((o) => [o.id, o]))
+
+    const summary = { processed: 0, completed: 0, pending: 0, failed: 0, retry: 0 }
+
+    for (const line of queued ?? []) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break
+
+      const order = orderById.get(line.order_id)
+      if (!order) continue
+
+      const { data: claimed } = await supabase
+        .from('bulk_order_lines')
+        .update({ status: 'processing', claimed_at: new Date().toISOString() })
+        .eq('id', line.id)
+        .eq('status', 'queued')
+        .select('id')
+
+      if (!claimed?.length) continue
+
+      summary.processed++
+      summary[await processLine(supabase, order, line)]++
+    }
+
+    await completeOrders(supabase, orderIds)
+
+    console.log('Bulk order run finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Bulk order worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
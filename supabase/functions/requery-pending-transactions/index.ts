@@ -0,0 +1,91 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { REQUERY_CATEGORIES, requeryPendingTransaction } from '../_shared/requery.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+    const { data: settings } = await supabase
+      .from('requery_settings')
+      .select('is_enabled, min_age_minutes, max_age_hours, batch_size')
+      .limit(1)
+      .maybeSingle()
+
+    if (settings && !settings.is_enabled) {
+      return new Response(JSON.stringify({ skipped: true }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const minAgeMinutes = settings?.min_age_minutes ?? 15
+    const cutoff = new Date(Date.now() - minAgeMinutes * 60 * 1000).toISOString()
+    const maxAgeHours = settings?.max_age_hours ?? 48
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('transactions')
+      .select('id, user_id, amount, category, description, reference, metadata, created_at')
+      .eq('status', 'pending')
+      .eq('type', 'debit')
+      .in('category', REQUERY_CATEGORIES)
+      .not('reference', 'is', null)
+      .lt('created_at', cutoff)
+      .order('created_at', { ascending: true })
+      .limit(settings?.batch_size ?? 50)
+
+    if (pendingError) throw pendingError
+
+    const summary = { checked: 0, completed: 0, failed: 0, still_pending: 0, errors: 0 }
+
+    for (const transaction of pending ?? []) {
+      summary.checked++
+
+      try {
+        const outcome = await requeryPendingTransaction(supabase, transaction, 'requery', maxAgeHours)
+
+        if (outcome === 'pending') {
+          summary.still_pending++
+        } else if (outcome !== 'settled_elsewhere') {
+          summary[outcome]++
+          console.log('Requery settled transaction:', { reference: transaction.reference, status: outcome })
+        }
+      } catch (error) {
+        console.error('Requery error:', transaction.reference, error)
+        summary.errors++
+      }
+    }
+
+    console.log('Requery run finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Requery worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
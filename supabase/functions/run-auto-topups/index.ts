@@ -0,0 +1,314 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { GATEWAY_TOPUP_RULE_HEADER, GATEWAY_USER_HEADER } from '../_shared/caller.ts'
+import { IDEMPOTENCY_HEADER } from '../_shared/idempotency.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+import { localHour, periodKey, periodStart, type LocalPeriod } from '../_shared/schedule.ts'
+import { loadTierPricing, tierPrice } from '../_shared/tier-pricing.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stop claiming runs once a sweep has used this much of the function's wall clock
+const RUN_BUDGET_MS = 100 * 1000
+const BATCH_SIZE = 50
+// A run claimed by a sweep that died is handed out again after this
+const STALE_CLAIM_MS = 5 * 60 * 1000
+
+interface Rule {
+  id: string
+  user_id: string
+  recipient_name: string | null
+  network: string
+  phone_number: string
+  product_type: string
+  plan_id: string | null
+  amount: number | null
+  spend_limit: number | null
+  spend_limit_period: LocalPeriod
+  is_active: boolean
+}
+
+interface QueuedRun {
+  id: string
+  rule_id: string
+  user_id: string
+}
+
+type RunOutcome = 'completed' | 'pending' | 'failed' | 'skipped' | 'retry'
+
+const formatNaira = (value: number) => `₦${value.toLocaleString()}`
+
+async function estimateCost(supabase: SupabaseClient, rule: Rule): Promise<number | null> {
+  if (rule.product_type === 'airtime') return Number(rule.amount)
+
+  const { data: plan } = await supabase
+    .from('data_plans')
+    .select('id, selling_price, api_price')
+    .eq('id', rule.plan_id ?? '')
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!plan) return null
+  const pricing = await loadTierPricing(supabase, rule.user_id, 'data')
+  return tierPrice(pricing, plan.id, Number(plan.selling_price), Number(plan.api_price))
+}
+
+/** What the rule has spent in its current limit period, not counting `runId` */
+async function spentThisPeriod(supabase: SupabaseClient, rule: Rule, runId: string): Promise<number> {
+  const { data: runs } = await supabase
+    .from('auto_topup_runs')
+    .select('cost')
+    .eq('rule_id', rule.id)
+    .in('status', ['processing', 'pending', 'completed'])
+    .neq('id', runId)
+    .gte('created_at', periodStart(rule.spend_limit_period, new Date()).toISOString())
+
+  return (runs ?? []).reduce((sum, r) => sum + Number(r.cost ?? 0), 0)
+}
+
+async function finishRun(supabase: SupabaseClient, runId: string, values: Record<string, unknown>) {
+  await supabase
+    .from('auto_topup_runs')
+    .update({ ...values, processed_at: new Date().toISOString() })
+    .eq('id', runId)
+}
+
+/** Buy one run through buy-data / buy-airtime and record the result on it */
+async function processRun(supabase: SupabaseClient, rule: Rule, run: QueuedRun): Promise<RunOutcome> {
+  if (!rule.is_active) {
+    await finishRun(supabase, run.id, { status: 'skipped', error: 'Rule paused' })
+    return 'skipped'
+  }
+
+  const cost = await estimateCost(supabase, rule)
+  if (cost === null) {
+    await finishRun(supabase, run.id, { status: 'failed', error: 'Data plan is no longer available' })
+    return 'failed'
+  }
+
+  if (rule.spend_limit !== null) {
+    const spent = await spentThisPeriod(supabase, rule, run.id)
+    if (spent + cost > Number(rule.spend_limit)) {
+      await finishRun(supabase, run.id, {
+        status: 'skipped',
+        cost,
+        error: `Spending limit of ${formatNaira(Number(rule.spend_limit))} per ${rule.spend_limit_period} reached`,
+      })
+      return 'skipped'
+    }
+  }
+
+  // Count the estimate against the limit while the purchase is in flight
+  await supabase.from('auto_topup_runs').update({ cost }).eq('id', run.id)
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const fn = rule.product_type === 'data' ? 'buy-data' : 'buy-airtime'
+  // A number on another network's prefix was confirmed as ported when the rule was created
+  const payload = rule.product_type === 'data'
+    ? { plan_id: rule.plan_id, phone_number: rule.phone_number, ported: true }
+    : { network: rule.network, phone_number: rule.phone_number, amount: rule.amount, ported: true }
+
+  let response: Response
+  try {
+    response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${fn}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRoleKey}`,
+        [GATEWAY_USER_HEADER]: rule.user_id,
+        [GATEWAY_TOPUP_RULE_HEADER]: rule.id,
+        // One key per run, so a retried run replays its result instead of charging twice
+        [IDEMPOTENCY_HEADER]: `topup-${run.id}`,
+      },
+      body: JSON.stringify(payload),
+    })
+  } catch (error) {
+    console.error('Auto top-up request failed, will retry:', { runId: run.id, error })
+    await supabase.from('auto_topup_runs').update({ status: 'queued', claimed_at: null }).eq('id', run.id)
+    return 'retry'
+  }
+
+  const body = await response.json().catch(() => ({}))
+
+  // Still running from an earlier claim; try again on a later sweep
+  if (response.status === 409) {
+    await supabase.from('auto_topup_runs').update({ status: 'queued', claimed_at: null }).eq('id', run.id)
+    return 'retry'
+  }
+
+  if (!response.ok || !body.success) {
+    await finishRun(supabase, run.id, { status: 'failed', cost: null, error: body.details || body.error || `HTTP ${response.status}` })
+    return 'failed'
+  }
+
+  // Record what was actually charged, and catch a purchase that settled before the run saw its reference
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select('status, amount, metadata')
+    .eq('reference', body.reference ?? '')
+    .eq('type', 'debit')
+    .maybeSingle()
+
+  let status: 'completed' | 'pending' | 'failed' = body.status === 'completed' ? 'completed' : 'pending'
+  let error: string | null = null
+  if (status === 'pending' && transaction && transaction.status !== 'pending') {
+    status = transaction.status === 'completed' ? 'completed' : 'failed'
+    if (status === 'failed') {
+      error = String(((transaction.metadata ?? {}) as Record<string, unknown>).failure_reason ?? 'Purchase failed')
+    }
+  }
+
+  await finishRun(supabase, run.id, {
+    status,
+    error,
+    reference: body.reference ?? null,
+    cost: status === 'failed' ? null : transaction ? Number(transaction.amount) : cost,
+  })
+  return status
+}
+
+async function notifyRun(supabase: SupabaseClient, rule: Rule, runId: string, outcome: RunOutcome) {
+  const recipient = rule.recipient_name || rule.phone_number
+  const product = rule.product_type === 'data' ? 'Data' : `${formatNaira(Number(rule.amount))} airtime`
+
+  const { data: run } = await supabase.from('auto_topup_runs').select('error').eq('id', runId).maybeSingle()
+  const messages: Partial<Record<RunOutcome, [string, string]>> = {
+    completed: ['✅ Auto Top-Up', `${product} sent to ${recipient}.`],
+    pending: ['⏳ Auto Top-Up', `${product} for ${recipient} is being processed.`],
+    failed: ['❌ Auto Top-Up Failed', `${product} for ${recipient}: ${run?.error ?? 'Purchase failed'}`],
+    skipped: ['⏸️ Auto Top-Up Skipped', `${product} for ${recipient}: ${run?.error ?? 'Skipped'}`],
+  }
+
+  const message = messages[outcome]
+  if (!message || run?.error === 'Rule paused') return
+
+  await sendPushToUser(supabase, rule.user_id, message[0], message[1], {
+    type: 'auto_topup',
+    rule_id: rule.id,
+    status: outcome,
+  })
+}
+
+/** Queue a run for every time_window rule whose window is open and has not fired this period */
+async function openTimeWindows(supabase: SupabaseClient, now: Date) {
+  const { data: rules, error } = await supabase
+    .from('auto_topup_rules')
+    .select('id, user_id, window_period, window_start_hour, window_end_hour')
+    .eq('trigger_type', 'time_window')
+    .eq('is_active', true)
+
+  if (error) throw error
+
+  const hour = localHour(now)
+  const open = (rules ?? []).filter((r) => hour >= Number(r.window_start_hour) && hour < Number(r.window_end_hour))
+  if (!open.length) return
+
+  const { error: insertError } = await supabase
+    .from('auto_topup_runs')
+    .upsert(
+      open.map((r) => ({
+        rule_id: r.id,
+        user_id: r.user_id,
+        trigger_type: 'time_window',
+        trigger_reference: periodKey(r.window_period as LocalPeriod, now),
+      })),
+      { onConflict: 'rule_id,trigger_reference', ignoreDuplicates: true }
+    )
+
+  if (insertError) throw insertError
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler, the deposit webhook (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const startedAt = Date.now()
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+    // Hand runs from sweeps that died mid-purchase back to the queue
+    await supabase
+      .from('auto_topup_runs')
+      .update({ status: 'queued', claimed_at: null })
+      .eq('status', 'processing')
+      .lt('claimed_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString())
+
+    await openTimeWindows(supabase, new Date())
+
+    const { data: queued, error: queuedError } = await supabase
+      .from('auto_topup_runs')
+      .select('id, rule_id, user_id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (queuedError) throw queuedError
+
+    const ruleIds = [...new Set((queued ?? []).map((r) => r.rule_id))]
+    const { data: rules, error: rulesError } = await supabase
+      .from('auto_topup_rules')
+      .select('id, user_id, recipient_name, network, phone_number, product_type, plan_id, amount, spend_limit, spend_limit_period, is_active')
+      .in('id', ruleIds)
+
+    if (rulesError) throw rulesError
+    const ruleById = new Map(((rules ?? []) as Rule[]).map((r) => [r.id, r]))
+
+    const summary = { processed: 0, completed: 0, pending: 0, failed: 0, skipped: 0, retry: 0 }
+
+    for (const run of queued ?? []) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break
+
+      const rule = ruleById.get(run.rule_id)
+      if (!rule) continue
+
+      const { data: claimed } = await supabase
+        .from('auto_topup_runs')
+        .update({ status: 'processing', claimed_at: new Date().toISOString() })
+        .eq('id', run.id)
+        .eq('status', 'queued')
+        .select('id')
+
+      if (!claimed?.length) continue
+
+      try {
+        const outcome = await processRun(supabase, rule, run)
+        summary.processed++
+        summary[outcome]++
+
+        if (outcome !== 'retry') {
+          await supabase.from('auto_topup_rules').update({ last_triggered_at: new Date().toISOString() }).eq('id', rule.id)
+          await notifyRun(supabase, rule, run.id, outcome)
+        }
+      } catch (error) {
+        console.error('Auto top-up run error:', run.id, error)
+      }
+    }
+
+    console.log('Auto top-up sweep finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Auto top-up worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
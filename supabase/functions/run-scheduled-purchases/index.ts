@@ -0,0 +1,216 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { GATEWAY_SCHEDULE_HEADER, GATEWAY_USER_HEADER } from '../_shared/caller.ts'
+import { IDEMPOTENCY_HEADER } from '../_shared/idempotency.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+import { nextRunAt, type ScheduleFrequency } from '../_shared/schedule.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 50
+// Pause a schedule after this many failed runs in a row so it stops retrying a dead recipient
+const MAX_CONSECUTIVE_FAILURES = 3
+
+interface Schedule {
+  id: string
+  user_id: string
+  product_type: string
+  label: string
+  network: string | null
+  phone_number: string | null
+  plan_id: string | null
+  amount: number | null
+  provider_code: string | null
+  bouquet_id: string | null
+  smartcard_number: string | null
+  customer_name: string | null
+  frequency: ScheduleFrequency
+  day_of_week: number | null
+  day_of_month: number | null
+  run_hour: number
+  next_run_at: string
+  consecutive_failures: number
+}
+
+interface RunResult {
+  status: 'completed' | 'pending' | 'failed'
+  reference: string | null
+  error: string | null
+  insufficientBalance: boolean
+}
+
+// A number on another network's prefix was confirmed as ported when the schedule was created
+function purchaseRequest(schedule: Schedule): { fn: string; payload: Record<string, unknown> } {
+  switch (schedule.product_type) {
+    case 'data':
+      return { fn: 'buy-data', payload: { plan_id: schedule.plan_id, phone_number: schedule.phone_number, ported: true } }
+    case 'airtime':
+      return { fn: 'buy-airtime', payload: { network: schedule.network, phone_number: schedule.phone_number, amount: schedule.amount, ported: true } }
+    default:
+      return {
+        fn: 'buy-cable',
+        payload: {
+          provider_code: schedule.provider_code,
+          bouquet_id: schedule.bouquet_id,
+          smartcard_number: schedule.smartcard_number,
+          customer_name: schedule.customer_name ?? undefined,
+        },
+      }
+  }
+}
+
+/** Place one run through buy-data / buy-airtime / buy-cable */
+async function runPurchase(schedule: Schedule): Promise<RunResult> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const { fn, payload } = purchaseRequest(schedule)
+
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${fn}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${serviceRoleKey}`,
+        [GATEWAY_USER_HEADER]: schedule.user_id,
+        [GATEWAY_SCHEDULE_HEADER]: schedule.id,
+        // One key per run, so a retried run cannot charge twice
+        [IDEMPOTENCY_HEADER]: `sched-${schedule.id}-${new Date(schedule.next_run_at).getTime()}`,
+      },
+      body: JSON.stringify(payload),
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (response.ok && body.success) {
+      return { status: body.status === 'completed' ? 'completed' : 'pending', reference: body.reference ?? null, error: null, insufficientBalance: false }
+    }
+
+    const error = String(body.details || body.error || `HTTP ${response.status}`)
+    return { status: 'failed', reference: null, error, insufficientBalance: /insufficient balance/i.test(error) }
+  } catch (error) {
+    return { status: 'failed', reference: null, error: error instanceof Error ? error.message : String(error), insufficientBalance: false }
+  }
+}
+
+async function recordRun(supabase: SupabaseClient, schedule: Schedule, result: RunResult) {
+  await supabase.from('scheduled_purchase_runs').insert({
+    schedule_id: schedule.id,
+    user_id: schedule.user_id,
+    status: result.status,
+    reference: result.reference,
+    error: result.error,
+  })
+
+  const failures = result.status === 'failed' ? schedule.consecutive_failures + 1 : 0
+  const pauseReason = result.insufficientBalance
+    ? 'Insufficient balance'
+    : failures >= MAX_CONSECUTIVE_FAILURES ? `Failed ${failures} times in a row` : null
+
+  const update: Record<string, unknown> = { consecutive_failures: failures }
+  if (pauseReason) {
+    update.status = 'paused'
+    update.paused_reason = pauseReason
+  } else if (schedule.frequency === 'once') {
+    update.status = 'completed'
+  }
+
+  await supabase.from('scheduled_purchases').update(update).eq('id', schedule.id)
+
+  const data = { type: 'scheduled_purchase', schedule_id: schedule.id, status: result.status }
+  if (pauseReason) {
+    const message = result.insufficientBalance
+      ? `We couldn't buy ${schedule.label} because your wallet balance is too low. Fund your wallet and resume the schedule.`
+      : `We couldn't buy ${schedule.label}: ${result.error}. The schedule has been paused.`
+
+    await supabase.from('notifications').insert({
+      user_id: schedule.user_id,
+      title: 'Scheduled Purchase Paused',
+      message,
+      type: 'warning'
+    })
+    await sendPushToUser(supabase, schedule.user_id, '⏸️ Scheduled Purchase Paused', message, data)
+    return
+  }
+
+  if (result.status === 'failed') {
+    await sendPushToUser(supabase, schedule.user_id, '❌ Scheduled Purchase Failed', `${schedule.label}: ${result.error}`, data)
+  } else {
+    await sendPushToUser(
+      supabase,
+      schedule.user_id,
+      '✅ Scheduled Purchase',
+      result.status === 'completed' ? `${schedule.label} was successful.` : `${schedule.label} is being processed.`,
+      data
+    )
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (or an operator holding the service role key) may run the worker
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
+
+    const { data: due, error: dueError } = await supabase
+      .from('scheduled_purchases')
+      .select('id, user_id, product_type, label, network, phone_number, plan_id, amount, provider_code, bouquet_id, smartcard_number, customer_name, frequency, day_of_week, day_of_month, run_hour, next_run_at, consecutive_failures')
+      .eq('status', 'active')
+      .lte('next_run_at', new Date().toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (dueError) throw dueError
+
+    const summary = { due: due?.length ?? 0, completed: 0, pending: 0, failed: 0 }
+
+    for (const schedule of (due ?? []) as Schedule[]) {
+      // Claim the run by moving the schedule on; an overlapping run's update then matches nothing
+      const now = new Date()
+      const { data: claimed } = await supabase
+        .from('scheduled_purchases')
+        .update({ next_run_at: nextRunAt(schedule, now)?.toISOString() ?? null, last_run_at: now.toISOString() })
+        .eq('id', schedule.id)
+        .eq('status', 'active')
+        .eq('next_run_at', schedule.next_run_at)
+        .select('id')
+
+      if (!claimed?.length) continue
+
+      try {
+        const result = await runPurchase(schedule)
+        summary[result.status]++
+        await recordRun(supabase, schedule, result)
+        console.log('Scheduled purchase run:', { scheduleId: schedule.id, status: result.status, reference: result.reference })
+      } catch (error) {
+        console.error('Scheduled purchase error:', schedule.id, error)
+        summary.failed++
+      }
+    }
+
+    console.log('Scheduled purchase sweep finished:', summary)
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Scheduled purchase worker error:', error)
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+  }
+})
@@ -0,0 +1,255 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { nextRunAt, runOnDate, type ScheduleFrequency } from '../_shared/schedule.ts'
+import { checkRecipient } from '../_shared/phone.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_ACTIVE_SCHEDULES = 20
+const FREQUENCIES: ScheduleFrequency[] = ['once', 'daily', 'weekly', 'monthly']
+const NETWORKS = ['mtn', 'glo', 'airtel', '9mobile']
+
+interface ScheduledPurchasesRequest {
+  action?: 'create' | 'pause' | 'resume' | 'cancel'
+  id?: string
+  pin?: string
+  product_type?: 'data' | 'airtime' | 'cable'
+  network?: string
+  phone_number?: string
+  ported?: boolean
+  plan_id?: string
+  amount?: number
+  provider_code?: string
+  bouquet_id?: string
+  smartcard_number?: string
+  customer_name?: string
+  frequency?: ScheduleFrequency
+  day_of_week?: number | null
+  day_of_month?: number | null
+  run_hour?: number
+  run_date?: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+const isIntBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+
+/** Columns for what to buy, or an error message */
+async function parseProduct(
+  admin: SupabaseClient,
+  body: ScheduledPurchasesRequest
+): Promise<{ values: Record<string, unknown>; label: string } | { error: string; code?: string }> {
+  if (body.product_type === 'cable') {
+    const card = (body.smartcard_number ?? '').replace(/\D/g, '')
+    if (card.length < 10 || card.length > 12) return { error: 'Invalid smartcard number format' }
+
+    const { data: bouquet } = await admin
+      .from('cable_bouquets')
+      .select('id, name, provider_code')
+      .eq('id', body.bouquet_id ?? '')
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!bouquet || bouquet.provider_code !== body.provider_code) return { error: 'Bouquet not found' }
+
+    return {
+      values: {
+        provider_code: bouquet.provider_code,
+        bouquet_id: bouquet.id,
+        smartcard_number: card,
+        customer_name: body.customer_name?.trim() || null,
+      },
+      label: `${bouquet.provider_code.toUpperCase()} ${bouquet.name} for ${card}`,
+    }
+  }
+
+  const network = body.network?.toLowerCase() ?? ''
+  if (!NETWORKS.includes(network)) return { error: 'Choose a network' }
+  // Confirmed once here; the runs then buy for the number as ported
+  const phoneCheck = checkRecipient(body.phone_number ?? '', network, body.ported === true)
+  if (!phoneCheck.ok) return { error: phoneCheck.error, code: phoneCheck.code }
+  const phone = phoneCheck.phone
+
+  if (body.product_type === 'data') {
+    const { data: plan } = await admin
+      .from('data_plans')
+      .select('id, display_name, network')
+      .eq('id', body.plan_id ?? '')
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!plan || plan.network !== network) return { error: 'Data plan not found or inactive' }
+    return {
+      values: { network, phone_number: phone, plan_id: plan.id },
+      label: `${plan.display_name} for ${phone}`,
+    }
+  }
+
+  if (body.product_type === 'airtime') {
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount < 50 || amount > 50000) return { error: 'Amount must be between ₦50 and ₦50,000' }
+    return {
+      values: { network, phone_number: phone, amount },
+      label: `₦${amount.toLocaleString()} ${network.toUpperCase()} airtime for ${phone}`,
+    }
+  }
+
+  return { error: 'Choose data, airtime or cable' }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: ScheduledPurchasesRequest = await req.json().catch(() => ({}))
+
+    if (body.action === 'create') {
+      const product = await parseProduct(adminSupabase, body)
+      if ('error' in product) return jsonResponse({ error: product.error, code: product.code }, 400)
+
+      const frequency = body.frequency
+      const runHour = body.run_hour ?? 9
+      if (!frequency || !FREQUENCIES.includes(frequency) || !isIntBetween(runHour, 0, 23)) {
+        return jsonResponse({ error: 'Choose how often and at what time to buy' }, 400)
+      }
+      if (frequency === 'weekly' && !isIntBetween(body.day_of_week, 0, 6)) {
+        return jsonResponse({ error: 'Choose a day of the week' }, 400)
+      }
+      if (frequency === 'monthly' && !isIntBetween(body.day_of_month, 1, 31)) {
+        return jsonResponse({ error: 'Choose a day of the month' }, 400)
+      }
+
+      const timing = {
+        frequency,
+        day_of_week: frequency === 'weekly' ? body.day_of_week ?? null : null,
+        day_of_month: frequency === 'monthly' ? body.day_of_month ?? null : null,
+        run_hour: runHour,
+      }
+      const firstRun = frequency === 'once' ? runOnDate(body.run_date ?? '', runHour) : nextRunAt(timing, new Date())
+      if (!firstRun || firstRun.getTime() <= Date.now()) {
+        return jsonResponse({ error: 'Choose a date and time in the future' }, 400)
+      }
+
+      const { count } = await adminSupabase
+        .from('scheduled_purchases')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .in('status', ['active', 'paused'])
+
+      if ((count ?? 0) >= MAX_ACTIVE_SCHEDULES) {
+        return jsonResponse({ error: `You can have at most ${MAX_ACTIVE_SCHEDULES} scheduled purchases` }, 400)
+      }
+
+      // Scheduled runs spend the wallet without asking again, so scheduling requires the PIN
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+
+      const { data: created, error: createError } = await adminSupabase
+        .from('scheduled_purchases')
+        .insert({
+          ...product.values,
+          ...timing,
+          user_id: userId,
+          product_type: body.product_type,
+          label: product.label,
+          next_run_at: firstRun.toISOString(),
+        })
+        .select('id, next_run_at')
+        .single()
+
+      if (createError) throw createError
+
+      console.log('Scheduled purchase created:', { userId, scheduleId: created.id, frequency })
+      return jsonResponse({ success: true, id: created.id, next_run_at: created.next_run_at }, 201)
+    }
+
+    if (body.action !== 'pause' && body.action !== 'resume' && body.action !== 'cancel') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const { data: schedule } = await adminSupabase
+      .from('scheduled_purchases')
+      .select('id, status, frequency, day_of_week, day_of_month, run_hour, next_run_at')
+      .eq('id', body.id ?? '')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!schedule || schedule.status === 'cancelled' || schedule.status === 'completed') {
+      return jsonResponse({ error: 'Scheduled purchase not found' }, 404)
+    }
+
+    let update: Record<string, unknown>
+    if (body.action === 'cancel') {
+      update = { status: 'cancelled', next_run_at: null }
+    } else if (body.action === 'pause') {
+      if (schedule.status !== 'active') return jsonResponse({ error: 'This schedule is already paused' }, 400)
+      update = { status: 'paused', paused_reason: 'Paused by you' }
+    } else {
+      if (schedule.status !== 'paused') return jsonResponse({ error: 'This schedule is already active' }, 400)
+      // Resuming lets the schedule spend the wallet again, so it needs the PIN like saving one
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+      // Runs missed while paused are skipped; a one-off whose time passed runs on the next sweep
+      const nextRun = schedule.frequency === 'once'
+        ? new Date(Math.max(new Date(schedule.next_run_at ?? 0).getTime(), Date.now()))
+        : nextRunAt(schedule, new Date())
+      update = { status: 'active', paused_reason: null, consecutive_failures: 0, next_run_at: nextRun?.toISOString() ?? null }
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('scheduled_purchases')
+      .update(update)
+      .eq('id', schedule.id)
+      .select('status, next_run_at')
+      .single()
+
+    if (updateError) throw updateError
+    return jsonResponse({ success: true, status: updated.status, next_run_at: updated.next_run_at })
+
+  } catch (error) {
+    console.error('Scheduled purchases error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { generateOtp, hashOtp, OTP_TTL_MINUTES } from "../_shared/otp.ts";
+import { sourceIp } from "../_shared/webhook-security.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,13 +12,20 @@ const corsHeaders = {
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
+const THROTTLE_MESSAGES: Record<string, { error: string; retryAfter: number }> = {
+  OTP_SEND_TOO_SOON: { error: "Please wait a minute before requesting another code", retryAfter: 60 },
+  OTP_SEND_LIMIT_EMAIL: { error: "Too many codes requested for this email. Try again in an hour.", retryAfter: 3600 },
+  OTP_SEND_LIMIT_IP: { error: "Too many reset requests from your network. Try again in an hour.", retryAfter: 3600 },
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { email } = await req.json();
+    const body = await req.json();
+    const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
 
     if (!email) {
       return new Response(
@@ -31,9 +40,35 @@ serve(async (req) => {
       { auth: { autoRefreshToken: false, persistSession: false } }
     );
 
+    // Throttle before looking the email up, so unknown emails are limited the same way
+    const ipAddress = sourceIp(req.headers);
+    const { error: throttleError } = await supabaseAdmin.rpc("claim_password_otp_send", {
+      p_email: email,
+      p_ip_address: ipAddress,
+    });
+
+    if (throttleError) {
+      const code = Object.keys(THROTTLE_MESSAGES).find((c) => throttleError.message?.includes(c));
+      if (!code) {
+        console.error("Error checking OTP send limits:", throttleError);
+        throw new Error("Failed to generate OTP");
+      }
+      return new Response(
+        JSON.stringify({ error: THROTTLE_MESSAGES[code].error, code }),
+        {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+            "Retry-After": String(THROTTLE_MESSAGES[code].retryAfter),
+          },
+        }
+      );
+    }
+
     // Check if user exists
     const { data: userData } = await supabaseAdmin.auth.admin.listUsers();
-    const userExists = userData?.users?.some(u => u.email?.toLowerCase() === email.toLowerCase());
+    const userExists = userData?.users?.some(u => u.email?.toLowerCase() === email);
 
     if (!userExists) {
       // Don't reveal if user exists - just say OTP sent
@@ -43,24 +78,16 @@ serve(async (req) => {
       );
     }
 
-    // Generate 6-digit OTP
-    const otpCode = Math.floor(100000 + Math.random() * 900000).toString();
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-    // Delete any existing OTPs for this email
-    await supabaseAdmin
-      .from("password_reset_otps")
-      .delete()
-      .eq("email", email.toLowerCase());
-
-    // Store the new OTP
-    const { error: insertError } = await supabaseAdmin
-      .from("password_reset_otps")
-      .insert({
-        email: email.toLowerCase(),
-        otp_code: otpCode,
-        expires_at: expiresAt.toISOString(),
-      });
+    const otpCode = generateOtp();
+    const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000);
+
+    // Store only the hash; any code sent earlier stops working
+    const { error: insertError } = await supabaseAdmin.rpc("issue_password_otp", {
+      p_email: email,
+      p_otp_hash: await hashOtp(otpCode, email),
+      p_expires_at: expiresAt.toISOString(),
+      p_ip_address: ipAddress,
+    });
 
     if (insertError) {
       console.error("Error storing OTP:", insertError);
@@ -95,7 +122,7 @@ serve(async (req) => {
             </div>
             
             <p style="color: #71717a; font-size: 12px; text-align: center; margin: 0 0 8px 0;">
-              This code expires in <strong>10 minutes</strong>.
+              This code expires in <strong>${OTP_TTL_MINUTES} minutes</strong>. Requesting a new code cancels this one.
             </p>
             
             <p style="color: #a1a1aa; font-size: 12px; text-align: center; margin: 24px 0 0 0;">
@@ -1,4 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { adminAuditor } from '../_shared/admin-audit.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -565,6 +566,270 @@ const PROVIDERS: Record<string, {
   },
 }
 
+const NETWORKS = ['mtn', 'airtel', 'glo', '9mobile']
+
+// A plan as the fetch*Plans functions return it
+interface SyncedPlan {
+  provider: string
+  network: string
+  category: string
+  service_id: number | null
+  plan_id: number | string | null
+  product_id: string | null
+  name: string
+  display_name: string
+  data_amount: string
+  validity: string
+  api_price: number
+}
+
+interface ExistingPlan {
+  id: string
+  provider: string
+  network: string
+  category: string
+  service_id: number | null
+  plan_id: number | null
+  product_id: string | null
+  api_price: number
+  selling_price: number
+  is_active: boolean
+}
+
+interface PlanSyncSettings {
+  is_enabled: boolean
+  markup_percent: number
+  markup_flat: number
+  round_to: number
+}
+
+interface PlanSyncChange {
+  id: string
+  change_type: 'new' | 'removed' | 'price_change'
+  data_plan_id: string | null
+  plan: SyncedPlan | null
+  new_api_price: number | null
+  proposed_selling_price: number | null
+}
+
+const DEFAULT_SYNC_SETTINGS: PlanSyncSettings = { is_enabled: true, markup_percent: 10, markup_flat: 0, round_to: 5 }
+
+// How a provider plan is recognised across syncs: iSquare by service + plan id,
+// RGC and Albarka by product id
+function planKey(plan: Pick<SyncedPlan, 'provider' | 'service_id' | 'plan_id' | 'product_id'>) {
+  return plan.provider === 'isquare'
+    ? `${plan.service_id}:${plan.plan_id}`
+    : String(plan.product_id ?? plan.plan_id)
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/** Selling price from the markup rule, never below the API price */
+function markupPrice(apiPrice: number, settings: PlanSyncSettings) {
+  const raw = apiPrice * (1 + Number(settings.markup_percent) / 100) + Number(settings.markup_flat)
+  const step = Math.max(1, Number(settings.round_to))
+  return Math.max(Math.ceil(raw / step) * step, Math.ceil(apiPrice))
+}
+
+async function loadSyncSettings(supabase: SupabaseClient): Promise<PlanSyncSettings> {
+  const { data, error } = await supabase
+    .from('plan_sync_settings')
+    .select('is_enabled, markup_percent, markup_flat, round_to')
+    .limit(1)
+    .maybeSingle()
+
+  if (error) console.error('Plan sync settings lookup error:', error)
+  return data ?? DEFAULT_SYNC_SETTINGS
+}
+
+/**
+ * Fetch every provider's plans for every network and stage the differences
+ * with data_plans: plans the provider added, plans it no longer lists and
+ * api_price changes. Earlier pending changes are superseded by this run.
+ */
+async function sweepProviders(supabase: SupabaseClient, settings: PlanSyncSettings, triggeredBy: string | null) {
+  const fetched = new Map<string, SyncedPlan>()
+  // provider|network pairs that returned plans; removals are only staged for
+  // these so a provider outage does not look like an empty catalogue
+  const swept = new Set<string>()
+  const errors: string[] = []
+
+  for (const [providerId, config] of Object.entries(PROVIDERS)) {
+    for (const network of NETWORKS) {
+      currentNetwork = network
+      try {
+        const categories = await config.fetchCategories()
+        for (const category of categories) {
+          if (category.id === 'none') continue
+          const plans: SyncedPlan[] = await config.fetchPlans(category.id)
+          for (const plan of plans) {
+            if (!(plan.api_price > 0)) continue
+            fetched.set(`${providerId}|${planKey(plan)}`, plan)
+            swept.add(`${providerId}|${network}`)
+          }
+        }
+      } catch (error) {
+        errors.push(`${providerId}/${network}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+
+  const { data: existingPlans, error: existingError } = await supabase
+    .from('data_plans')
+    .select('id, provider, network, category, service_id, plan_id, product_id, api_price, selling_price, is_active')
+    .in('provider', Object.keys(PROVIDERS))
+
+  if (existingError) throw existingError
+
+  const changes: Record<string, unknown>[] = []
+  const known = new Set<string>()
+
+  for (const existing of (existingPlans ?? []) as ExistingPlan[]) {
+    const key = `${existing.provider}|${planKey(existing)}`
+    known.add(key)
+    const plan = fetched.get(key)
+    const base = {
+      provider: existing.provider,
+      network: existing.network,
+      category: existing.category,
+      plan_key: planKey(existing),
+      data_plan_id: existing.id,
+      old_api_price: existing.api_price,
+      old_selling_price: existing.selling_price,
+    }
+
+    if (!plan) {
+      if (existing.is_active && swept.has(`${existing.provider}|${existing.network}`)) {
+        changes.push({ ...base, change_type: 'removed' })
+      }
+      continue
+    }
+
+    if (roundMoney(plan.api_price) !== roundMoney(Number(existing.api_price))) {
+      changes.push({
+        ...base,
+        change_type: 'price_change',
+        plan,
+        new_api_price: plan.api_price,
+        // Keep the current price unless the new cost would make it a loss
+        proposed_selling_price: Number(existing.selling_price) >= plan.api_price
+          ? existing.selling_price
+          : markupPrice(plan.api_price, settings),
+      })
+    }
+  }
+
+  for (const [key, plan] of fetched) {
+    if (known.has(key)) continue
+    changes.push({
+      change_type: 'new',
+      provider: plan.provider,
+      network: plan.network,
+      category: plan.category,
+      plan_key: planKey(plan),
+      plan,
+      new_api_price: plan.api_price,
+      proposed_selling_price: markupPrice(plan.api_price, settings),
+    })
+  }
+
+  const summary = {
+    fetched: fetched.size,
+    new: changes.filter((c) => c.change_type === 'new').length,
+    removed: changes.filter((c) => c.change_type === 'removed').length,
+    price_change: changes.filter((c) => c.change_type === 'price_change').length,
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('plan_sync_runs')
+    .insert({ triggered_by: triggeredBy, summary, errors })
+    .select('id')
+    .single()
+
+  if (runError) throw runError
+
+  const { error: supersedeError } = await supabase
+    .from('plan_sync_changes')
+    .update({ status: 'superseded' })
+    .eq('status', 'pending')
+
+  if (supersedeError) throw supersedeError
+
+  if (changes.length > 0) {
+    const { error: changesError } = await supabase
+      .from('plan_sync_changes')
+      .insert(changes.map((change) => ({ ...change, run_id: run.id })))
+
+    if (changesError) throw changesError
+  }
+
+  await supabase
+    .from('plan_sync_runs')
+    .update({ finished_at: new Date().toISOString() })
+    .eq('id', run.id)
+
+  console.log('Plan sync sweep finished:', { run_id: run.id, ...summary, errors: errors.length })
+
+  return { run_id: run.id, summary, errors }
+}
+
+/** Apply one approved change to data_plans */
+async function applySyncChange(supabase: SupabaseClient, change: PlanSyncChange) {
+  if (change.change_type === 'new') {
+    const plan = change.plan!
+    const { error } = await supabase
+      .from('data_plans')
+      .insert({
+        provider: plan.provider,
+        network: plan.network,
+        category: plan.category,
+        service_id: plan.service_id,
+        plan_id: plan.plan_id,
+        product_id: plan.product_id,
+        name: plan.name,
+        display_name: plan.display_name,
+        data_amount: plan.data_amount,
+        validity: plan.validity,
+        api_price: plan.api_price,
+        selling_price: Math.max(Number(change.proposed_selling_price), plan.api_price),
+        is_active: true,
+      })
+    if (error) throw error
+    return
+  }
+
+  if (change.change_type === 'removed') {
+    const { error } = await supabase
+      .from('data_plans')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', change.data_plan_id)
+    if (error) throw error
+    return
+  }
+
+  // The admin may have repriced the plan since the sweep; only raise it if it would sell at a loss
+  const { data: current, error: currentError } = await supabase
+    .from('data_plans')
+    .select('selling_price')
+    .eq('id', change.data_plan_id)
+    .single()
+
+  if (currentError) throw currentError
+
+  const apiPrice = Number(change.new_api_price)
+  const sellingPrice = Number(current.selling_price) >= apiPrice
+    ? Number(current.selling_price)
+    : Math.max(Number(change.proposed_selling_price), apiPrice)
+
+  const { error } = await supabase
+    .from('data_plans')
+    .update({ api_price: apiPrice, selling_price: sellingPrice, updated_at: new Date().toISOString() })
+    .eq('id', change.data_plan_id)
+  if (error) throw error
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -579,13 +844,29 @@ Deno.serve(async (req) => {
       })
     }
 
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    )
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey)
 
-    // Verify admin role
     const token = authHeader.replace('Bearer ', '')
+
+    // The scheduler calls with the service role key and may only run the sweep
+    if (token === serviceRoleKey) {
+      const settings = await loadSyncSettings(supabase)
+      if (!settings.is_enabled) {
+        return new Response(JSON.stringify({ skipped: true }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const result = await sweepProviders(supabase, settings, null)
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Verify admin role
     const { data: { user }, error: userError } = await supabase.auth.getUser(token)
     
     if (userError || !user) {
@@ -609,6 +890,7 @@ Deno.serve(async (req) => {
       })
     }
 
+    const audit = adminAuditor(supabase, req, user)
     const body = await req.json()
     const { action, provider, network, category } = body
 
@@ -680,15 +962,7 @@ Deno.serve(async (req) => {
 
       // Merge API plans with DB data (app prices, active status)
       const mergedPlans = apiPlans.map((apiPlan: any) => {
-        // For iSquare, match by service_id + plan_id; for RGC, match by product_id
-        const existing = existingPlans?.find((p: any) => {
-          if (provider === 'isquare') {
-            return p.service_id === apiPlan.service_id && p.plan_id === apiPlan.plan_id
-          } else if (provider === 'rgc') {
-            return p.product_id === apiPlan.product_id
-          }
-          return false
-        })
+        const existing = existingPlans?.find((p: ExistingPlan) => planKey(p) === planKey(apiPlan))
         
         return {
           ...apiPlan,
@@ -716,24 +990,40 @@ Deno.serve(async (req) => {
       }
 
       if (plan.db_id) {
+        const changes = {
+          selling_price: plan.selling_price,
+          is_active: plan.is_active,
+          api_price: plan.api_price,
+          name: plan.name,
+          display_name: plan.display_name,
+          data_amount: plan.data_amount,
+          validity: plan.validity,
+          product_id: plan.product_id,
+        }
+
+        const { data: existing } = await supabase
+          .from('data_plans')
+          .select(Object.keys(changes).join(', '))
+          .eq('id', plan.db_id)
+          .maybeSingle()
+
         // Update existing
         const { error } = await supabase
           .from('data_plans')
-          .update({
-            selling_price: plan.selling_price,
-            is_active: plan.is_active,
-            api_price: plan.api_price,
-            name: plan.name,
-            display_name: plan.display_name,
-            data_amount: plan.data_amount,
-            validity: plan.validity,
-            product_id: plan.product_id,
-            updated_at: new Date().toISOString(),
-          })
+          .update({ ...changes, updated_at: new Date().toISOString() })
           .eq('id', plan.db_id)
 
         if (error) throw error
 
+        await audit({
+          action: 'data_plan.updated',
+          targetType: 'data_plan',
+          targetId: plan.db_id,
+          before: existing as Record<string, unknown> | null,
+          after: changes,
+          metadata: { source: 'provider_import' },
+        })
+
         return new Response(JSON.stringify({ 
           success: true, 
           message: 'Plan updated',
@@ -766,6 +1056,14 @@ Deno.serve(async (req) => {
 
         if (error) throw error
 
+        await audit({
+          action: 'data_plan.created',
+          targetType: 'data_plan',
+          targetId: data.id,
+          after: plan,
+          metadata: { source: 'provider_import' },
+        })
+
         return new Response(JSON.stringify({ 
           success: true, 
           message: 'Plan created',
@@ -777,6 +1075,80 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Sweep every provider now instead of waiting for the schedule
+    if (action === 'sweep') {
+      const settings = await loadSyncSettings(supabase)
+      const result = await sweepProviders(supabase, settings, user.id)
+      await audit({
+        action: 'plan_sync.swept',
+        targetType: 'plan_sync_run',
+        targetId: result.run_id,
+        metadata: { summary: result.summary, errors: result.errors },
+      })
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
+    // Approve or reject staged sweep changes in bulk
+    if (action === 'review-changes') {
+      const { change_ids, decision } = body
+      if (!Array.isArray(change_ids) || change_ids.length === 0 || !['approve', 'reject'].includes(decision)) {
+        return new Response(JSON.stringify({ error: 'change_ids and a decision (approve or reject) required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        })
+      }
+
+      const { data: pending, error: pendingError } = await supabase
+        .from('plan_sync_changes')
+        .select('id, change_type, data_plan_id, plan, new_api_price, proposed_selling_price')
+        .in('id', change_ids)
+        .eq('status', 'pending')
+
+      if (pendingError) throw pendingError
+
+      const reviewed: string[] = []
+      const failures: { id: string; error: string }[] = []
+
+      for (const change of (pending ?? []) as PlanSyncChange[]) {
+        try {
+          if (decision === 'approve') await applySyncChange(supabase, change)
+          reviewed.push(change.id)
+        } catch (error) {
+          console.error('Failed to apply plan sync change:', change.id, error)
+          failures.push({ id: change.id, error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+
+      if (reviewed.length > 0) {
+        const { error: reviewError } = await supabase
+          .from('plan_sync_changes')
+          .update({
+            status: decision === 'approve' ? 'approved' : 'rejected',
+            reviewed_by: user.id,
+            reviewed_at: new Date().toISOString(),
+          })
+          .in('id', reviewed)
+
+        if (reviewError) throw reviewError
+
+        await audit({
+          action: decision === 'approve' ? 'plan_sync.changes_approved' : 'plan_sync.changes_rejected',
+          targetType: 'plan_sync_change',
+          before: { status: 'pending' },
+          after: { status: decision === 'approve' ? 'approved' : 'rejected' },
+          metadata: { change_ids: reviewed, failures },
+        })
+      }
+
+      return new Response(JSON.stringify({ success: failures.length === 0, reviewed: reviewed.length, failures }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
+
     return new Response(JSON.stringify({ error: 'Invalid action' }), { 
       status: 400, 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -0,0 +1,182 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PIN_PATTERN, checkTransactionPin, hashTransactionPin } from '../_shared/transaction-pin.ts'
+import { checkPhoneOtp } from '../_shared/phone-otp.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface TransactionPinRequest {
+  action?: 'status' | 'set' | 'change' | 'reset' | 'verify'
+  pin?: string
+  current_pin?: string
+  new_pin?: string
+  // SMS code sent for the reset_pin purpose
+  otp?: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: TransactionPinRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const url = new URL(req.url)
+    const action = url.searchParams.get('action') || body.action || 'status'
+
+    if (action === 'status') {
+      const { data: pinRow } = await adminSupabase
+        .from('transaction_pins')
+        .select('locked_until')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      const locked = !!pinRow?.locked_until && new Date(pinRow.locked_until).getTime() > Date.now()
+      return jsonResponse({
+        has_pin: !!pinRow,
+        locked,
+        locked_until: locked ? pinRow?.locked_until : null,
+      })
+    }
+
+    if (action === 'set') {
+      if (!body.pin || !PIN_PATTERN.test(body.pin)) {
+        return jsonResponse({ error: 'PIN must be exactly 4 digits' }, 400)
+      }
+
+      const { data: existing } = await adminSupabase
+        .from('transaction_pins')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (existing) {
+        return jsonResponse({ error: 'A transaction PIN is already set. Use change PIN instead.', code: 'PIN_ALREADY_SET' }, 409)
+      }
+
+      const hashed = await hashTransactionPin(body.pin)
+      const { error: insertError } = await adminSupabase
+        .from('transaction_pins')
+        .insert({ user_id: userId, ...hashed })
+
+      if (insertError) {
+        // Unique violation means another device set it first
+        if (insertError.code === '23505') {
+          return jsonResponse({ error: 'A transaction PIN is already set. Use change PIN instead.', code: 'PIN_ALREADY_SET' }, 409)
+        }
+        console.error('PIN insert error:', insertError)
+        return jsonResponse({ error: 'Failed to save PIN' }, 500)
+      }
+
+      return jsonResponse({ success: true })
+    }
+
+    if (action === 'change') {
+      if (!body.new_pin || !PIN_PATTERN.test(body.new_pin)) {
+        return jsonResponse({ error: 'New PIN must be exactly 4 digits' }, 400)
+      }
+
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.current_pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+
+      const hashed = await hashTransactionPin(body.new_pin)
+      const { error: updateError } = await adminSupabase
+        .from('transaction_pins')
+        .update({ ...hashed, failed_attempts: 0, locked_until: null })
+        .eq('user_id', userId)
+
+      if (updateError) {
+        console.error('PIN update error:', updateError)
+        return jsonResponse({ error: 'Failed to change PIN' }, 500)
+      }
+
+      return jsonResponse({ success: true })
+    }
+
+    // Forgotten PIN: a code sent to the verified phone stands in for the current PIN
+    if (action === 'reset') {
+      if (!body.new_pin || !PIN_PATTERN.test(body.new_pin)) {
+        return jsonResponse({ error: 'New PIN must be exactly 4 digits' }, 400)
+      }
+
+      const otpCheck = await checkPhoneOtp(adminSupabase, userId, 'reset_pin', body.otp)
+      if (!otpCheck.ok) {
+        return jsonResponse({ error: otpCheck.error, code: otpCheck.code }, otpCheck.status)
+      }
+
+      const hashed = await hashTransactionPin(body.new_pin)
+      const { error: upsertError } = await adminSupabase
+        .from('transaction_pins')
+        .upsert({ user_id: userId, ...hashed, failed_attempts: 0, locked_until: null }, { onConflict: 'user_id' })
+
+      if (upsertError) {
+        console.error('PIN reset error:', upsertError)
+        return jsonResponse({ error: 'Failed to reset PIN' }, 500)
+      }
+
+      const message = 'Your transaction PIN was reset. If you did not do this, contact support immediately.'
+      await adminSupabase.from('notifications').insert({
+        user_id: userId,
+        title: 'Transaction PIN Reset',
+        message,
+        type: 'warning',
+      })
+      await sendPushToUser(adminSupabase, userId, '⚠️ Transaction PIN Reset', message, { type: 'pin_reset' })
+
+      return jsonResponse({ success: true })
+    }
+
+    if (action === 'verify') {
+      const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+      if (!pinCheck.ok) {
+        return jsonResponse({ valid: false, error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+      }
+      return jsonResponse({ valid: true })
+    }
+
+    return jsonResponse({ error: 'Invalid action' }, 400)
+  } catch (error: unknown) {
+    console.error('Transaction PIN error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return jsonResponse({ error: errorMessage }, 500)
+  }
+})
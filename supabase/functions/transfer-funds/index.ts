@@ -0,0 +1,270 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkTransactionPin } from '../_shared/transaction-pin.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+import { getKycLimits } from '../_shared/identity.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface TransferRequest {
+  account_number?: string
+  amount?: number
+  narration?: string
+  pin?: string
+}
+
+interface TransferSettings {
+  min_amount: number
+  max_amount: number
+  daily_limit: number
+  unverified_max_amount: number
+  unverified_daily_limit: number
+  is_enabled: boolean
+}
+
+// Maps transfer_wallet_funds exceptions to user-facing errors
+const TRANSFER_ERRORS: Record<string, { status: number; message: string }> = {
+  SELF_TRANSFER: { status: 400, message: 'You cannot transfer to your own account' },
+  INVALID_AMOUNT: { status: 400, message: 'Invalid transfer amount' },
+  TRANSFERS_DISABLED: { status: 503, message: 'Transfers are temporarily unavailable' },
+  AMOUNT_BELOW_MINIMUM: { status: 400, message: 'Amount is below the minimum transfer amount' },
+  AMOUNT_ABOVE_MAXIMUM: { status: 400, message: 'Amount is above the maximum transfer amount' },
+  DAILY_LIMIT_EXCEEDED: { status: 400, message: 'This transfer would exceed your daily transfer limit' },
+  UNVERIFIED_AMOUNT_LIMIT: { status: 403, message: 'Verify your phone number to send this amount' },
+  UNVERIFIED_DAILY_LIMIT: { status: 403, message: 'Verify your phone number to raise your daily transfer limit' },
+  KYC_TRANSFERS_NOT_ALLOWED: { status: 403, message: 'Verify your BVN or NIN to send transfers' },
+  KYC_DAILY_SPEND_LIMIT: { status: 403, message: 'This transfer would exceed the daily spending limit for your verification level' },
+  RECIPIENT_BALANCE_LIMIT: { status: 400, message: 'The recipient cannot receive this amount right now' },
+  INSUFFICIENT_BALANCE: { status: 400, message: 'Insufficient balance' },
+  WALLET_NOT_FOUND: { status: 404, message: 'Wallet not found' },
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+// Senders without a verified phone get the lower of each pair of limits,
+// and the KYC level decides whether they may transfer at all
+async function getTransferLimits(adminSupabase: SupabaseClient, userId: string, phoneVerified: boolean) {
+  const { data: settings } = await adminSupabase
+    .from('transfer_settings')
+    .select('min_amount, max_amount, daily_limit, unverified_max_amount, unverified_daily_limit, is_enabled')
+    .limit(1)
+    .maybeSingle()
+
+  const { data: sentToday } = await adminSupabase
+    .rpc('get_transfer_total_today', { p_user_id: userId })
+
+  const kyc = await getKycLimits(adminSupabase, userId)
+
+  const config = (settings || {
+    min_amount: 100,
+    max_amount: 100000,
+    daily_limit: 200000,
+    unverified_max_amount: 5000,
+    unverified_daily_limit: 10000,
+    is_enabled: true,
+  }) as TransferSettings
+  const used = Number(sentToday || 0)
+  const maxAmount = phoneVerified
+    ? Number(config.max_amount)
+    : Math.min(Number(config.max_amount), Number(config.unverified_max_amount))
+  const dailyLimit = phoneVerified
+    ? Number(config.daily_limit)
+    : Math.min(Number(config.daily_limit), Number(config.unverified_daily_limit))
+  // Transfers also count against the KYC level's spend across all services
+  const remainingToday = Math.min(Math.max(0, dailyLimit - used), kyc.remaining_today)
+
+  return {
+    min_amount: Number(config.min_amount),
+    max_amount: maxAmount,
+    daily_limit: dailyLimit,
+    used_today: used,
+    remaining_today: remainingToday,
+    is_enabled: config.is_enabled,
+    phone_verified: phoneVerified,
+    kyc_level: kyc.level,
+    kyc_can_transfer: kyc.can_transfer,
+    // What verifying would unlock, so the app can say so
+    verified_max_amount: Number(config.max_amount),
+    verified_daily_limit: Number(config.daily_limit),
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    // Check if user is blocked
+    const { data: sender } = await adminSupabase
+      .from('profiles')
+      .select('full_name, account_number, is_blocked, phone_verified_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!sender) {
+      return jsonResponse({ error: 'Profile not found' }, 404)
+    }
+
+    if (sender.is_blocked) {
+      return jsonResponse({ error: 'Your account has been suspended. Please contact support.' }, 403)
+    }
+
+    const url = new URL(req.url)
+    const action = url.searchParams.get('action') || 'transfer'
+    const body: TransferRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+
+    if (action === 'limits') {
+      return jsonResponse(await getTransferLimits(adminSupabase, userId, !!sender.phone_verified_at))
+    }
+
+    const accountNumber = String(body.account_number || '').replace(/\D/g, '')
+    if (accountNumber.length !== 10) {
+      return jsonResponse({ error: 'Please enter a valid 10-digit account number' }, 400)
+    }
+
+    const { data: recipient } = await adminSupabase
+      .from('profiles')
+      .select('user_id, full_name, account_number, is_blocked')
+      .eq('account_number', accountNumber)
+      .maybeSingle()
+
+    if (!recipient || recipient.is_blocked) {
+      return jsonResponse({ error: 'Account not found' }, 404)
+    }
+
+    if (recipient.user_id === userId) {
+      return jsonResponse({ error: 'You cannot transfer to your own account' }, 400)
+    }
+
+    if (action === 'lookup') {
+      return jsonResponse({
+        account_number: recipient.account_number,
+        account_name: recipient.full_name,
+      })
+    }
+
+    if (action !== 'transfer') {
+      return jsonResponse({ error: 'Invalid action' }, 400)
+    }
+
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return jsonResponse({ error: 'Please enter a valid amount' }, 400)
+    }
+
+    // Verify transaction PIN before touching the wallet
+    const pinCheck = await checkTransactionPin(adminSupabase, userId, body.pin)
+    if (!pinCheck.ok) {
+      return jsonResponse({ error: pinCheck.error, code: pinCheck.code }, pinCheck.status)
+    }
+
+    const narration = (body.narration || '').trim().slice(0, 100)
+    const reference = `TRF-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+
+    const { data: result, error: transferError } = await adminSupabase.rpc('transfer_wallet_funds', {
+      p_sender_id: userId,
+      p_recipient_id: recipient.user_id,
+      p_amount: amount,
+      p_reference: reference,
+      p_sender_description: `Transfer to ${recipient.full_name}`,
+      p_recipient_description: `Transfer from ${sender.full_name}`,
+      p_metadata: {
+        sender_name: sender.full_name,
+        sender_account: sender.account_number,
+        recipient_name: recipient.full_name,
+        recipient_account: recipient.account_number,
+        narration: narration || null,
+      },
+    })
+
+    if (transferError) {
+      const msg = transferError.message || ''
+      const known = Object.keys(TRANSFER_ERRORS).find(code => msg.includes(code))
+      if (known) {
+        const { status, message } = TRANSFER_ERRORS[known]
+        return jsonResponse({ error: message, code: known }, status)
+      }
+      console.error('Transfer error:', transferError)
+      return jsonResponse({ error: 'Failed to process transfer' }, 500)
+    }
+
+    const { sender_balance, recipient_balance } = result as { sender_balance: number; recipient_balance: number }
+    const amountText = `₦${amount.toLocaleString()}`
+
+    await adminSupabase.from('notifications').insert([
+      {
+        user_id: userId,
+        title: 'Transfer Successful',
+        message: `You sent ${amountText} to ${recipient.full_name} (${recipient.account_number})`,
+        type: 'success',
+      },
+      {
+        user_id: recipient.user_id,
+        title: 'Money Received',
+        message: `You received ${amountText} from ${sender.full_name}${narration ? `: ${narration}` : ''}`,
+        type: 'success',
+      },
+    ])
+
+    await Promise.all([
+      sendPushToUser(adminSupabase, userId, '💸 Debit Alert', `${amountText} sent to ${recipient.full_name}. New balance: ₦${Number(sender_balance).toLocaleString()}`, {
+        type: 'debit',
+        amount: String(amount),
+        new_balance: String(sender_balance),
+        transaction_reference: reference,
+      }),
+      sendPushToUser(adminSupabase, recipient.user_id, '💰 Credit Alert!', `${amountText} received from ${sender.full_name}. New balance: ₦${Number(recipient_balance).toLocaleString()}`, {
+        type: 'credit',
+        amount: String(amount),
+        new_balance: String(recipient_balance),
+        transaction_reference: reference,
+      }),
+    ])
+
+    return jsonResponse({
+      success: true,
+      message: `${amountText} sent to ${recipient.full_name}`,
+      reference,
+      new_balance: sender_balance,
+    })
+  } catch (error: unknown) {
+    console.error('Transfer funds error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return jsonResponse({ error: errorMessage }, 500)
+  }
+})
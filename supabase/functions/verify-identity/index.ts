@@ -0,0 +1,254 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getKycProvider, type KycIdType } from '../_shared/kyc/index.ts'
+import { KYC_ID_TYPES, getKycLimits, hashIdNumber, identityName, maskIdNumber, namesMatch } from '../_shared/identity.ts'
+import { requestVirtualAccount } from '../_shared/paymentpoint.ts'
+import { sendPushToUser } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VerifyIdentityRequest {
+  action?: 'status' | 'verify'
+  id_type?: KycIdType
+  id_number?: string
+  date_of_birth?: string
+}
+
+// Provider lookups are billed, so each user gets a handful a day
+const MAX_LOOKUPS_PER_DAY = 5
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data: profile } = await adminSupabase
+      .from('profiles')
+      .select('full_name, email, phone, is_blocked, date_of_birth, virtual_account_bvn_linked_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!profile) {
+      return jsonResponse({ error: 'Profile not found' }, 404)
+    }
+
+    const { data: verified } = await adminSupabase
+      .from('kyc_verifications')
+      .select('id_type, id_number_masked, created_at')
+      .eq('user_id', userId)
+      .eq('status', 'verified')
+
+    const body: VerifyIdentityRequest = await req.json().catch(() => ({}))
+    const action = body.action || 'status'
+
+    if (action === 'status') {
+      return jsonResponse({
+        limits: await getKycLimits(adminSupabase, userId),
+        verified: verified || [],
+        date_of_birth: profile.date_of_birth,
+      })
+    }
+
+    if (action !== 'verify') {
+      return jsonResponse({ error: 'Invalid action' }, 400)
+    }
+
+    if (profile.is_blocked) {
+      return jsonResponse({ error: 'Your account has been suspended. Please contact support.' }, 403)
+    }
+
+    const idType = body.id_type
+    if (!idType || !KYC_ID_TYPES.includes(idType)) {
+      return jsonResponse({ error: 'Choose BVN or NIN' }, 400)
+    }
+
+    const label = idType.toUpperCase()
+    const idNumber = String(body.id_number || '').replace(/\D/g, '')
+    if (idNumber.length !== 11) {
+      return jsonResponse({ error: `Enter your 11-digit ${label}` }, 400)
+    }
+
+    if (verified?.some((v) => v.id_type === idType)) {
+      return jsonResponse({ error: `Your ${label} is already verified`, code: 'ALREADY_VERIFIED' }, 400)
+    }
+
+    // Once one ID is verified, the next must carry the same date of birth
+    const dateOfBirth: string | null = profile.date_of_birth ?? (DATE_PATTERN.test(body.date_of_birth || '') ? body.date_of_birth! : null)
+    if (!dateOfBirth) {
+      return jsonResponse({ error: 'Enter your date of birth', code: 'DOB_REQUIRED' }, 400)
+    }
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+    const { count: recentLookups } = await adminSupabase
+      .from('kyc_verifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', since)
+
+    if ((recentLookups ?? 0) >= MAX_LOOKUPS_PER_DAY) {
+      return jsonResponse({ error: 'Too many verification attempts. Try again tomorrow.', code: 'TOO_MANY_ATTEMPTS' }, 429)
+    }
+
+    const idNumberHash = await hashIdNumber(idType, idNumber)
+    const { data: taken } = await adminSupabase
+      .from('kyc_verifications')
+      .select('user_id')
+      .eq('id_type', idType)
+      .eq('id_number_hash', idNumberHash)
+      .eq('status', 'verified')
+      .neq('user_id', userId)
+      .limit(1)
+
+    if (taken?.length) {
+      return jsonResponse({ error: `This ${label} is already verified on another account`, code: 'ID_IN_USE' }, 409)
+    }
+
+    const provider = getKycProvider()
+    if (!provider) {
+      return jsonResponse({ error: 'Identity verification is temporarily unavailable' }, 503)
+    }
+
+    const record = {
+      user_id: userId,
+      id_type: idType,
+      id_number_hash: idNumberHash,
+      id_number_masked: maskIdNumber(idNumber),
+      provider: provider.name,
+    }
+
+    const lookup = await provider.lookup(idType, idNumber, { full_name: profile.full_name, date_of_birth: dateOfBirth })
+
+    if (!lookup.ok) {
+      await adminSupabase.from('kyc_verifications').insert({
+        ...record,
+        status: lookup.not_found ? 'not_found' : 'failed',
+        failure_reason: lookup.error,
+      })
+
+      if (lookup.not_found) {
+        return jsonResponse({ error: `We could not find this ${label}. Check the number and try again.`, code: 'ID_NOT_FOUND' }, 400)
+      }
+      console.error('KYC lookup failed:', { provider: provider.name, idType, error: lookup.error })
+      return jsonResponse({ error: 'Verification service is unavailable. Please try again later.' }, 502)
+    }
+
+    const nameMatched = namesMatch(profile.full_name, lookup.identity)
+    const dobMatched = lookup.identity.date_of_birth === dateOfBirth
+    const mismatched = [!nameMatched && 'name', !dobMatched && 'date of birth'].filter(Boolean).join(' and ')
+    const status = mismatched ? 'mismatch' : 'verified'
+
+    const { error: insertError } = await adminSupabase.from('kyc_verifications').insert({
+      ...record,
+      status,
+      provider_reference: lookup.reference ?? null,
+      name_matched: nameMatched,
+      dob_matched: dobMatched,
+      returned_name: identityName(lookup.identity),
+      returned_dob: lookup.identity.date_of_birth,
+      failure_reason: mismatched ? `${mismatched} did not match` : null,
+    })
+
+    if (insertError) {
+      // Another account verified the same ID in the meantime
+      if (insertError.code === '23505') {
+        return jsonResponse({ error: `This ${label} is already verified on another account`, code: 'ID_IN_USE' }, 409)
+      }
+      throw insertError
+    }
+
+    if (mismatched) {
+      return jsonResponse({
+        error: `The ${mismatched} on your ${label} does not match your profile. Update your profile name or contact support.`,
+        code: 'DETAILS_MISMATCH',
+        name_matched: nameMatched,
+        dob_matched: dobMatched,
+      }, 400)
+    }
+
+    if (!profile.date_of_birth) {
+      await adminSupabase.from('profiles').update({ date_of_birth: dateOfBirth }).eq('user_id', userId)
+    }
+
+    const { data: level, error: levelError } = await adminSupabase.rpc('refresh_kyc_level', { p_user_id: userId })
+    if (levelError) throw levelError
+
+    // Deposits held over the old level's balance cap are credited now if they fit
+    const { error: releaseError } = await adminSupabase.rpc('release_held_deposits', { p_user_id: userId })
+    if (releaseError) console.error('Held deposit release error:', { userId, error: releaseError })
+
+    // A verified BVN upgrades the PaymentPoint customer, or gets the user the
+    // virtual account that was refused without one
+    if (idType === 'bvn' && !profile.virtual_account_bvn_linked_at) {
+      const account = await requestVirtualAccount({ user_id: userId, email: profile.email, full_name: profile.full_name, phone: profile.phone }, idNumber)
+      if (account.ok) {
+        await adminSupabase
+          .from('profiles')
+          .update({
+            virtual_account_number: account.account_number,
+            virtual_account_bank: account.bank_name,
+            virtual_account_name: account.account_name,
+            virtual_account_reference: account.customer_id,
+            virtual_account_bvn_linked_at: new Date().toISOString(),
+          })
+          .eq('user_id', userId)
+      } else {
+        // Not fatal: the identity is verified either way and the link can be retried by support
+        console.error('Virtual account BVN upgrade failed:', { userId, error: account.error })
+      }
+    }
+
+    const limits = await getKycLimits(adminSupabase, userId)
+    const message = `Your ${label} is verified. You can now hold up to ₦${limits.max_balance.toLocaleString()} and spend up to ₦${limits.daily_spend_limit.toLocaleString()} a day.`
+    await adminSupabase.from('notifications').insert({
+      user_id: userId,
+      title: 'Identity Verified',
+      message,
+      type: 'success',
+    })
+    await sendPushToUser(adminSupabase, userId, '✅ Identity Verified', message, { type: 'kyc_verified' })
+
+    console.log('Identity verified:', { userId, idType, level })
+    return jsonResponse({ success: true, level, limits })
+  } catch (error: unknown) {
+    console.error('Verify identity error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
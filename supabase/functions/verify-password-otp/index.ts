@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { otpMatches } from "../_shared/otp.ts";
+import { sourceIp } from "../_shared/webhook-security.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,13 +10,67 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// Tell the owner their password changed, so a takeover does not go unnoticed
+async function sendPasswordChangedAlert(email: string, req: Request) {
+  const changedAt = new Date().toLocaleString("en-NG", { timeZone: "Africa/Lagos", dateStyle: "medium", timeStyle: "short" });
+  const ipAddress = sourceIp(req.headers) ?? "unknown";
+  const device = req.headers.get("user-agent") ?? "unknown device";
+
+  const { error } = await resend.emails.send({
+    from: "Ramadan Data <noreply@ramadandataapp.com.ng>",
+    to: [email],
+    subject: "Your password was changed - Ramadan Data",
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5; padding: 40px 20px; margin: 0;">
+        <div style="max-width: 400px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <h1 style="color: #18181b; font-size: 24px; font-weight: 600; text-align: center; margin: 0 0 8px 0;">Password Changed</h1>
+          <p style="color: #71717a; font-size: 14px; text-align: center; margin: 0 0 32px 0;">Ramadan Data App</p>
+
+          <p style="color: #3f3f46; font-size: 14px; line-height: 1.6; margin: 0 0 24px 0;">
+            The password for your account was just changed using a reset code sent to this email.
+          </p>
+
+          <div style="background-color: #f4f4f5; border-radius: 8px; padding: 16px; margin: 0 0 24px 0; color: #3f3f46; font-size: 13px; line-height: 1.8;">
+            <strong>When:</strong> ${escapeHtml(changedAt)} (WAT)<br>
+            <strong>IP address:</strong> ${escapeHtml(ipAddress)}<br>
+            <strong>Device:</strong> ${escapeHtml(device)}
+          </div>
+
+          <p style="color: #b91c1c; font-size: 13px; line-height: 1.6; margin: 0;">
+            If this wasn't you, reset your password again right away and contact support at ramadandataapp@gmail.com.
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+  });
+
+  if (error) {
+    console.error("Error sending password changed alert:", error);
+  }
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { email, otp, newPassword } = await req.json();
+    const body = await req.json();
+    const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+    const otp = typeof body.otp === "string" ? body.otp.trim() : "";
+    const newPassword = body.newPassword;
 
     if (!email || !otp) {
       return new Response(
@@ -28,33 +85,48 @@ serve(async (req) => {
       { auth: { autoRefreshToken: false, persistSession: false } }
     );
 
-    // Find the OTP record
-    const { data: otpRecord, error: otpError } = await supabaseAdmin
-      .from("password_reset_otps")
-      .select("*")
-      .eq("email", email.toLowerCase())
-      .eq("otp_code", otp)
-      .eq("used", false)
-      .gte("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (otpError) {
-      console.error("Error fetching OTP:", otpError);
+    // Every guess is counted against the current code until one matches
+    const { data, error: attemptError } = await supabaseAdmin
+      .rpc("claim_password_otp_attempt", { p_email: email })
+      .single();
+
+    if (attemptError) {
+      if (attemptError.message?.includes("OTP_TOO_MANY_ATTEMPTS")) {
+        return new Response(
+          JSON.stringify({ error: "Too many incorrect attempts. Request a new code.", code: "OTP_TOO_MANY_ATTEMPTS" }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (attemptError.message?.includes("OTP_NOT_FOUND")) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired OTP code" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      console.error("Error fetching OTP:", attemptError);
       throw new Error("Failed to verify OTP");
     }
 
-    if (!otpRecord) {
+    const attempt = data as { otp_id: string; otp_hash: string; attempts_remaining: number };
+    if (!(await otpMatches(otp, email, attempt.otp_hash))) {
+      const remaining = attempt.attempts_remaining;
       return new Response(
-        JSON.stringify({ error: "Invalid or expired OTP code" }),
+        JSON.stringify({
+          error: remaining > 0
+            ? `Invalid OTP code. ${remaining} attempt${remaining === 1 ? "" : "s"} left.`
+            : "Invalid OTP code. Request a new code.",
+          attempts_remaining: remaining,
+        }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // A correct code is not a failed guess; the password step verifies it again
+    await supabaseAdmin.rpc("reset_password_otp_attempts", { p_otp_id: attempt.otp_id });
+
     // If newPassword is provided, update the password
     if (newPassword) {
-      if (newPassword.length < 6) {
+      if (typeof newPassword !== "string" || newPassword.length < 6) {
         return new Response(
           JSON.stringify({ error: "Password must be at least 6 characters" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -62,8 +134,8 @@ serve(async (req) => {
       }
 
       // Find the user by email
-      const { data: userData, error: userError } = await supabaseAdmin.auth.admin.listUsers();
-      const user = userData?.users?.find(u => u.email?.toLowerCase() === email.toLowerCase());
+      const { data: userData } = await supabaseAdmin.auth.admin.listUsers();
+      const user = userData?.users?.find(u => u.email?.toLowerCase() === email);
 
       if (!user) {
         return new Response(
@@ -87,14 +159,17 @@ serve(async (req) => {
       await supabaseAdmin
         .from("password_reset_otps")
         .update({ used: true })
-        .eq("id", otpRecord.id);
+        .eq("id", attempt.otp_id);
 
-      // Clean up old OTPs for this email
+      // Retire anything else still outstanding for this email
       await supabaseAdmin
         .from("password_reset_otps")
-        .delete()
-        .eq("email", email.toLowerCase())
-        .neq("id", otpRecord.id);
+        .update({ invalidated_at: new Date().toISOString() })
+        .eq("email", email)
+        .eq("used", false)
+        .is("invalidated_at", null);
+
+      await sendPasswordChangedAlert(email, req);
 
       return new Response(
         JSON.stringify({ success: true, message: "Password updated successfully" }),
@@ -0,0 +1,206 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateCallbackSecret } from '../_shared/api-keys.ts'
+import { attemptDelivery, endpointTargetError } from '../_shared/outbound-webhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_ENDPOINTS_PER_USER = 5
+
+interface WebhookEndpointsRequest {
+  action?: 'create' | 'update' | 'delete' | 'rotate-secret' | 'redeliver'
+  id?: string
+  delivery_id?: string
+  url?: unknown
+  description?: unknown
+  is_active?: unknown
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+/** Validated columns from a create/update body, or an error message */
+async function parseEndpoint(body: WebhookEndpointsRequest, partial: boolean): Promise<{ values: Record<string, unknown> } | { error: string }> {
+  const values: Record<string, unknown> = {}
+
+  if (body.url !== undefined || !partial) {
+    let url: URL
+    try {
+      url = new URL(String(body.url ?? ''))
+      if (url.protocol !== 'https:') throw new Error('not https')
+    } catch {
+      return { error: 'Endpoint URL must be a valid https:// URL' }
+    }
+    // deliver-webhooks checks the resolved address again before every attempt
+    const targetError = await endpointTargetError(url.toString())
+    if (targetError) return { error: targetError }
+    values.url = url.toString()
+  }
+
+  if (body.description !== undefined) {
+    const description = typeof body.description === 'string' ? body.description.trim() : ''
+    if (description.length > 100) return { error: 'Description must be at most 100 characters' }
+    values.description = description || null
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') return { error: 'is_active must be true or false' }
+    values.is_active = body.is_active
+  }
+
+  return { values }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    // Verify user
+    const token = authHeader.replace('Bearer ', '')
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token)
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const userId = claimsData.claims.sub as string
+
+    const adminSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const body: WebhookEndpointsRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const action = body.action
+
+    if (action === 'create') {
+      const parsed = await parseEndpoint(body, false)
+      if ('error' in parsed) return jsonResponse({ error: parsed.error }, 400)
+
+      const { count } = await adminSupabase
+        .from('webhook_endpoints')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+
+      if ((count ?? 0) >= MAX_ENDPOINTS_PER_USER) {
+        return jsonResponse({ error: `You can register at most ${MAX_ENDPOINTS_PER_USER} webhook endpoints` }, 400)
+      }
+
+      const { data: created, error: createError } = await adminSupabase
+        .from('webhook_endpoints')
+        .insert({ ...parsed.values, user_id: userId, secret: generateCallbackSecret() })
+        .select('id')
+        .single()
+
+      if (createError) throw createError
+
+      console.log('Webhook endpoint created:', { userId, endpointId: created.id })
+      return jsonResponse({ success: true, id: created.id }, 201)
+    }
+
+    if (action === 'redeliver') {
+      if (!body.delivery_id) {
+        return jsonResponse({ error: 'Missing delivery id' }, 400)
+      }
+
+      const { data: delivery } = await adminSupabase
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, payload, attempts, next_attempt_at, status')
+        .eq('id', body.delivery_id)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (!delivery) {
+        return jsonResponse({ error: 'Delivery not found' }, 404)
+      }
+
+      if (delivery.status !== 'failed') {
+        return jsonResponse({ error: 'Only failed deliveries can be redelivered' }, 400)
+      }
+
+      const { data: endpoint } = await adminSupabase
+        .from('webhook_endpoints')
+        .select('url, secret, is_active')
+        .eq('id', delivery.endpoint_id)
+        .maybeSingle()
+
+      if (!endpoint?.is_active) {
+        return jsonResponse({ error: 'Enable the endpoint before redelivering' }, 400)
+      }
+
+      // A manual retry is a single attempt; it does not re-enter the backoff schedule
+      const outcome = await attemptDelivery(adminSupabase, 'webhook_deliveries', {
+        ...delivery,
+        url: endpoint.url,
+        secret: endpoint.secret,
+      }, { retry: false })
+
+      console.log('Webhook redelivered:', { userId, deliveryId: delivery.id, outcome })
+      return jsonResponse({ success: outcome === 'delivered', status: outcome })
+    }
+
+    if (action !== 'update' && action !== 'delete' && action !== 'rotate-secret') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    if (!body.id) {
+      return jsonResponse({ error: 'Missing endpoint id' }, 400)
+    }
+
+    const { data: endpoint } = await adminSupabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('id', body.id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!endpoint) {
+      return jsonResponse({ error: 'Webhook endpoint not found' }, 404)
+    }
+
+    if (action === 'delete') {
+      const { error: deleteError } = await adminSupabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', endpoint.id)
+
+      if (deleteError) throw deleteError
+      return jsonResponse({ success: true })
+    }
+
+    const parsed = action === 'update' ? await parseEndpoint(body, true) : { values: { secret: generateCallbackSecret() } }
+    if ('error' in parsed) return jsonResponse({ error: parsed.error }, 400)
+
+    const { error: updateError } = await adminSupabase
+      .from('webhook_endpoints')
+      .update(parsed.values)
+      .eq('id', endpoint.id)
+
+    if (updateError) throw updateError
+    return jsonResponse({ success: true })
+
+  } catch (error) {
+    console.error('Webhook endpoints error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,96 @@
+-- Server-side transaction PINs (PBKDF2 hashed, one per user)
+CREATE TABLE public.transaction_pins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  pin_salt TEXT NOT NULL,
+  pin_iterations INTEGER NOT NULL DEFAULT 210000,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (but allow edge functions to access via service role)
+ALTER TABLE public.transaction_pins ENABLE ROW LEVEL SECURITY;
+
+-- No public policies - PIN hashes are only read and written by edge functions
+
+CREATE TRIGGER update_transaction_pins_updated_at
+  BEFORE UPDATE ON public.transaction_pins
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim a PIN attempt before the hash is checked.
+-- The attempt is counted up front so parallel requests cannot get more
+-- guesses than the lockout allows; a correct PIN resets the counter.
+CREATE OR REPLACE FUNCTION public.claim_transaction_pin_attempt(
+  p_user_id uuid
+)
+RETURNS TABLE (
+  pin_hash text,
+  pin_salt text,
+  pin_iterations integer,
+  attempts_remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_pin public.transaction_pins%ROWTYPE;
+  v_max_attempts integer := 5;
+BEGIN
+  SELECT * INTO v_pin
+  FROM public.transaction_pins
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PIN_NOT_SET';
+  END IF;
+
+  IF v_pin.locked_until IS NOT NULL AND v_pin.locked_until > now() THEN
+    RAISE EXCEPTION 'PIN_LOCKED';
+  END IF;
+
+  -- An expired lock starts a fresh round of attempts
+  IF v_pin.locked_until IS NOT NULL THEN
+    v_pin.failed_attempts := 0;
+  END IF;
+
+  v_pin.failed_attempts := v_pin.failed_attempts + 1;
+
+  UPDATE public.transaction_pins
+  SET failed_attempts = v_pin.failed_attempts,
+      locked_until = CASE
+        WHEN v_pin.failed_attempts >= v_max_attempts THEN now() + interval '30 minutes'
+        ELSE NULL
+      END
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT
+    v_pin.pin_hash,
+    v_pin.pin_salt,
+    v_pin.pin_iterations,
+    v_max_attempts - v_pin.failed_attempts;
+END;
+$$;
+
+-- Clear the attempt counter after a correct PIN
+CREATE OR REPLACE FUNCTION public.reset_transaction_pin_attempts(
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.transaction_pins
+  SET failed_attempts = 0, locked_until = NULL
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Only edge functions (service role) may count or reset attempts
+REVOKE EXECUTE ON FUNCTION public.claim_transaction_pin_attempt(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_transaction_pin_attempts(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,158 @@
+-- Wallet-to-wallet transfers
+
+-- Transfers write a debit and a credit row that share one reference,
+-- so the reference only has to be unique per direction
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_reference_key;
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_reference_type_key UNIQUE (reference, type);
+
+-- Create transfer_settings table for admin configuration
+CREATE TABLE public.transfer_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_amount numeric NOT NULL DEFAULT 100,
+  max_amount numeric NOT NULL DEFAULT 100000,
+  daily_limit numeric NOT NULL DEFAULT 200000,
+  is_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+-- Insert default settings
+INSERT INTO public.transfer_settings (min_amount, max_amount, daily_limit, is_enabled)
+VALUES (100, 100000, 200000, true);
+
+-- Enable RLS
+ALTER TABLE public.transfer_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view transfer settings"
+ON public.transfer_settings FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update transfer settings"
+ON public.transfer_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Amount a user has sent today (Lagos time), excluding failed transfers
+CREATE OR REPLACE FUNCTION public.get_transfer_total_today(
+  p_user_id uuid
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.transactions
+  WHERE user_id = p_user_id
+    AND category = 'transfer'
+    AND type = 'debit'
+    AND status <> 'failed'
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Africa/Lagos') AT TIME ZONE 'Africa/Lagos');
+$$;
+
+-- Move funds between two wallets in one transaction.
+-- Both wallet rows are locked (in user_id order to avoid deadlocks) so the
+-- balance and daily-limit checks cannot race with another debit.
+CREATE OR REPLACE FUNCTION public.transfer_wallet_funds(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_sender_description text,
+  p_recipient_description text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings public.transfer_settings%ROWTYPE;
+  v_sender_balance numeric;
+  v_recipient_balance numeric;
+  v_sent_today numeric;
+  v_debit_id uuid;
+  v_credit_id uuid;
+BEGIN
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'SELF_TRANSFER';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.transfer_settings LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT v_settings.is_enabled THEN
+      RAISE EXCEPTION 'TRANSFERS_DISABLED';
+    END IF;
+    IF p_amount < v_settings.min_amount THEN
+      RAISE EXCEPTION 'AMOUNT_BELOW_MINIMUM';
+    END IF;
+    IF p_amount > v_settings.max_amount THEN
+      RAISE EXCEPTION 'AMOUNT_ABOVE_MAXIMUM';
+    END IF;
+  END IF;
+
+  -- Lock both wallets in a stable order
+  PERFORM 1
+  FROM public.wallets
+  WHERE user_id IN (p_sender_id, p_recipient_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO v_sender_balance FROM public.wallets WHERE user_id = p_sender_id;
+  SELECT balance INTO v_recipient_balance FROM public.wallets WHERE user_id = p_recipient_id;
+
+  IF v_sender_balance IS NULL OR v_recipient_balance IS NULL THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF v_settings.id IS NOT NULL THEN
+    v_sent_today := public.get_transfer_total_today(p_sender_id);
+    IF v_sent_today + p_amount > v_settings.daily_limit THEN
+      RAISE EXCEPTION 'DAILY_LIMIT_EXCEEDED';
+    END IF;
+  END IF;
+
+  IF v_sender_balance < p_amount THEN
+    RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+  END IF;
+
+  v_sender_balance := v_sender_balance - p_amount;
+  v_recipient_balance := v_recipient_balance + p_amount;
+
+  UPDATE public.wallets
+  SET balance = v_sender_balance, updated_at = now()
+  WHERE user_id = p_sender_id;
+
+  UPDATE public.wallets
+  SET balance = v_recipient_balance, updated_at = now()
+  WHERE user_id = p_recipient_id;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_sender_id, 'debit', 'transfer', p_amount, p_sender_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'outgoing', 'counterparty_user_id', p_recipient_id))
+  RETURNING id INTO v_debit_id;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_recipient_id, 'credit', 'transfer', p_amount, p_recipient_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'incoming', 'counterparty_user_id', p_sender_id))
+  RETURNING id INTO v_credit_id;
+
+  RETURN jsonb_build_object(
+    'sender_balance', v_sender_balance,
+    'recipient_balance', v_recipient_balance,
+    'debit_transaction_id', v_debit_id,
+    'credit_transaction_id', v_credit_id
+  );
+END;
+$$;
+
+-- Only the transfer-funds edge function (service role) may call these
+REVOKE EXECUTE ON FUNCTION public.get_transfer_total_today(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_wallet_funds(uuid, uuid, numeric, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,555 @@
+-- Double-entry wallet ledger
+--
+-- Every balance movement is posted as a journal of two legs that net to zero:
+-- one leg on the user's 'wallet' account and one on a contra account
+-- ('funding', 'sales', 'refunds', 'transfers', 'referral_bonus',
+-- 'admin_adjustment', 'opening_balance'). wallets.balance is kept as a cached
+-- running total and may only be changed by the posting functions below.
+
+CREATE TABLE public.wallet_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id uuid NOT NULL,
+  account text NOT NULL,
+  -- Plain uuids (no FKs) so deleting a user or transaction can never cascade into the ledger
+  user_id uuid NOT NULL,
+  transaction_id uuid,
+  entry_type public.transaction_type NOT NULL,
+  amount numeric(15, 2) NOT NULL CHECK (amount > 0),
+  balance_after numeric(15, 2),
+  reference text,
+  description text,
+  reverses_entry_id uuid REFERENCES public.wallet_ledger(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wallet_ledger_user_account ON public.wallet_ledger (user_id, account, created_at);
+CREATE INDEX idx_wallet_ledger_journal ON public.wallet_ledger (journal_id);
+CREATE INDEX idx_wallet_ledger_transaction ON public.wallet_ledger (transaction_id);
+CREATE INDEX idx_wallet_ledger_reverses ON public.wallet_ledger (reverses_entry_id);
+
+ALTER TABLE public.wallet_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet ledger"
+ON public.wallet_ledger FOR SELECT
+USING (auth.uid() = user_id AND account = 'wallet');
+
+CREATE POLICY "Admins can view the wallet ledger"
+ON public.wallet_ledger FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The ledger is append-only: corrections are posted as reversing entries
+CREATE OR REPLACE FUNCTION public.prevent_wallet_ledger_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'LEDGER_IMMUTABLE';
+END;
+$$;
+
+CREATE TRIGGER wallet_ledger_immutable
+BEFORE UPDATE OR DELETE ON public.wallet_ledger
+FOR EACH ROW EXECUTE FUNCTION public.prevent_wallet_ledger_changes();
+
+-- Every journal must balance by the time the database transaction commits
+CREATE OR REPLACE FUNCTION public.check_wallet_journal_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_net numeric;
+BEGIN
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)
+  INTO v_net
+  FROM public.wallet_ledger
+  WHERE journal_id = NEW.journal_id;
+
+  IF v_net <> 0 THEN
+    RAISE EXCEPTION 'UNBALANCED_JOURNAL: %', NEW.journal_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER wallet_ledger_journal_balanced
+AFTER INSERT ON public.wallet_ledger
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_wallet_journal_balanced();
+
+-- Users could previously write their own balance and transactions; all
+-- changes now go through the ledger
+DROP POLICY IF EXISTS "Users can update their own wallet" ON public.wallets;
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON public.transactions;
+
+CREATE OR REPLACE FUNCTION public.guard_wallet_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.balance <> 0 AND current_setting('app.ledger_write', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'LEDGER_WRITE_REQUIRED';
+    END IF;
+  ELSIF NEW.balance IS DISTINCT FROM OLD.balance
+    AND current_setting('app.ledger_write', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'LEDGER_WRITE_REQUIRED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_wallet_balance
+BEFORE INSERT OR UPDATE ON public.wallets
+FOR EACH ROW EXECUTE FUNCTION public.guard_wallet_balance();
+
+-- Post one balanced journal against a user's wallet and return the wallet leg id.
+-- The wallet row is locked for the duration of the calling transaction.
+CREATE OR REPLACE FUNCTION public.post_wallet_journal(
+  p_user_id uuid,
+  p_entry_type public.transaction_type,
+  p_amount numeric,
+  p_contra_account text,
+  p_transaction_id uuid,
+  p_reference text,
+  p_description text,
+  p_reverses_entry_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_balance numeric;
+  v_journal_id uuid := gen_random_uuid();
+  v_entry_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT balance INTO v_balance
+  FROM public.wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_balance IS NULL THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF p_entry_type = 'debit' THEN
+    IF v_balance < p_amount THEN
+      RAISE EXCEPTION 'INSUFFICIENT_BALANCE';
+    END IF;
+    v_balance := v_balance - p_amount;
+  ELSE
+    v_balance := v_balance + p_amount;
+  END IF;
+
+  PERFORM set_config('app.ledger_write', 'on', true);
+  UPDATE public.wallets
+  SET balance = v_balance, updated_at = now()
+  WHERE user_id = p_user_id;
+  PERFORM set_config('app.ledger_write', 'off', true);
+
+  INSERT INTO public.wallet_ledger (journal_id, account, user_id, transaction_id, entry_type, amount, balance_after, reference, description, reverses_entry_id)
+  VALUES (v_journal_id, 'wallet', p_user_id, p_transaction_id, p_entry_type, p_amount, v_balance, p_reference, p_description, p_reverses_entry_id)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.wallet_ledger (journal_id, account, user_id, transaction_id, entry_type, amount, reference, description)
+  VALUES (v_journal_id, p_contra_account, p_user_id, p_transaction_id,
+    CASE WHEN p_entry_type = 'debit' THEN 'credit'::public.transaction_type ELSE 'debit'::public.transaction_type END,
+    p_amount, p_reference, p_description);
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Debit a wallet and record the matching transaction in one step
+CREATE OR REPLACE FUNCTION public.debit_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_category public.transaction_category,
+  p_description text,
+  p_reference text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_contra_account text DEFAULT 'sales',
+  p_status public.transaction_status DEFAULT 'pending'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_transaction_id uuid;
+  v_entry_id uuid;
+BEGIN
+  BEGIN
+    INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+    VALUES (p_user_id, 'debit', p_category, p_amount, p_description, p_status, p_reference, p_metadata)
+    RETURNING id INTO v_transaction_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  v_entry_id := public.post_wallet_journal(p_user_id, 'debit', p_amount, p_contra_account, v_transaction_id, p_reference, p_description);
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'entry_id', v_entry_id,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = p_user_id)
+  );
+END;
+$$;
+
+-- Credit a wallet and record the matching transaction in one step
+CREATE OR REPLACE FUNCTION public.credit_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_category public.transaction_category,
+  p_description text,
+  p_reference text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_contra_account text DEFAULT 'funding',
+  p_status public.transaction_status DEFAULT 'completed'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_transaction_id uuid;
+  v_entry_id uuid;
+BEGIN
+  BEGIN
+    INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+    VALUES (p_user_id, 'credit', p_category, p_amount, p_description, p_status, p_reference, p_metadata)
+    RETURNING id INTO v_transaction_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  v_entry_id := public.post_wallet_journal(p_user_id, 'credit', p_amount, p_contra_account, v_transaction_id, p_reference, p_description);
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'entry_id', v_entry_id,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = p_user_id)
+  );
+END;
+$$;
+
+-- Reverse a wallet entry (fully, or partially when p_amount is given).
+-- Reversals post against the same contra account and transaction as the
+-- original, and can never add up to more than the original amount.
+CREATE OR REPLACE FUNCTION public.reverse_entry(
+  p_entry_id uuid,
+  p_amount numeric DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_entry public.wallet_ledger%ROWTYPE;
+  v_contra_account text;
+  v_reversed numeric;
+  v_remaining numeric;
+  v_amount numeric;
+  v_reversal_id uuid;
+BEGIN
+  SELECT * INTO v_entry FROM public.wallet_ledger WHERE id = p_entry_id;
+
+  IF NOT FOUND OR v_entry.account <> 'wallet' OR v_entry.reverses_entry_id IS NOT NULL THEN
+    RAISE EXCEPTION 'ENTRY_NOT_FOUND';
+  END IF;
+
+  -- Serialise reversals of the same wallet before reading what was already reversed
+  PERFORM 1 FROM public.wallets WHERE user_id = v_entry.user_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_reversed
+  FROM public.wallet_ledger
+  WHERE reverses_entry_id = v_entry.id;
+
+  v_remaining := v_entry.amount - v_reversed;
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_remaining);
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+  IF v_amount > v_remaining THEN
+    RAISE EXCEPTION 'REVERSAL_EXCEEDS_ORIGINAL';
+  END IF;
+
+  SELECT account INTO v_contra_account
+  FROM public.wallet_ledger
+  WHERE journal_id = v_entry.journal_id AND account <> 'wallet'
+  LIMIT 1;
+
+  v_reversal_id := public.post_wallet_journal(
+    v_entry.user_id,
+    CASE WHEN v_entry.entry_type = 'debit' THEN 'credit'::public.transaction_type ELSE 'debit'::public.transaction_type END,
+    v_amount,
+    v_contra_account,
+    v_entry.transaction_id,
+    v_entry.reference,
+    COALESCE(p_description, 'Reversal: ' || COALESCE(v_entry.description, v_entry.reference, '')),
+    v_entry.id
+  );
+
+  RETURN jsonb_build_object(
+    'entry_id', v_reversal_id,
+    'amount', v_amount,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = v_entry.user_id)
+  );
+END;
+$$;
+
+-- Reverse whatever is left of every wallet entry posted for a transaction.
+-- Safe to call more than once: already-reversed entries are skipped.
+CREATE OR REPLACE FUNCTION public.reverse_transaction(
+  p_transaction_id uuid,
+  p_description text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_entry record;
+  v_total numeric := 0;
+BEGIN
+  SELECT user_id INTO v_user_id FROM public.transactions WHERE id = p_transaction_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  PERFORM 1 FROM public.wallets WHERE user_id = v_user_id FOR UPDATE;
+
+  FOR v_entry IN
+    SELECT l.id, l.amount - COALESCE((
+      SELECT SUM(r.amount) FROM public.wallet_ledger r WHERE r.reverses_entry_id = l.id
+    ), 0) AS remaining
+    FROM public.wallet_ledger l
+    WHERE l.transaction_id = p_transaction_id
+      AND l.account = 'wallet'
+      AND l.reverses_entry_id IS NULL
+    ORDER BY l.created_at
+  LOOP
+    IF v_entry.remaining > 0 THEN
+      PERFORM public.reverse_entry(v_entry.id, v_entry.remaining, p_description);
+      v_total := v_total + v_entry.remaining;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'reversed_amount', v_total,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = v_user_id)
+  );
+END;
+$$;
+
+-- Transfers now post one journal per wallet through the 'transfers' account
+CREATE OR REPLACE FUNCTION public.transfer_wallet_funds(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_sender_description text,
+  p_recipient_description text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings public.transfer_settings%ROWTYPE;
+  v_wallet_count integer;
+  v_sent_today numeric;
+  v_debit_id uuid;
+  v_credit_id uuid;
+BEGIN
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'SELF_TRANSFER';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.transfer_settings LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT v_settings.is_enabled THEN
+      RAISE EXCEPTION 'TRANSFERS_DISABLED';
+    END IF;
+    IF p_amount < v_settings.min_amount THEN
+      RAISE EXCEPTION 'AMOUNT_BELOW_MINIMUM';
+    END IF;
+    IF p_amount > v_settings.max_amount THEN
+      RAISE EXCEPTION 'AMOUNT_ABOVE_MAXIMUM';
+    END IF;
+  END IF;
+
+  -- Lock both wallets in a stable order
+  WITH locked AS (
+    SELECT user_id
+    FROM public.wallets
+    WHERE user_id IN (p_sender_id, p_recipient_id)
+    ORDER BY user_id
+    FOR UPDATE
+  )
+  SELECT count(*) INTO v_wallet_count FROM locked;
+
+  IF v_wallet_count < 2 THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF v_settings.id IS NOT NULL THEN
+    v_sent_today := public.get_transfer_total_today(p_sender_id);
+    IF v_sent_today + p_amount > v_settings.daily_limit THEN
+      RAISE EXCEPTION 'DAILY_LIMIT_EXCEEDED';
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_sender_id, 'debit', 'transfer', p_amount, p_sender_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'outgoing', 'counterparty_user_id', p_recipient_id))
+  RETURNING id INTO v_debit_id;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_recipient_id, 'credit', 'transfer', p_amount, p_recipient_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'incoming', 'counterparty_user_id', p_sender_id))
+  RETURNING id INTO v_credit_id;
+
+  PERFORM public.post_wallet_journal(p_sender_id, 'debit', p_amount, 'transfers', v_debit_id, p_reference, p_sender_description);
+  PERFORM public.post_wallet_journal(p_recipient_id, 'credit', p_amount, 'transfers', v_credit_id, p_reference, p_recipient_description);
+
+  RETURN jsonb_build_object(
+    'sender_balance', (SELECT balance FROM public.wallets WHERE user_id = p_sender_id),
+    'recipient_balance', (SELECT balance FROM public.wallets WHERE user_id = p_recipient_id),
+    'debit_transaction_id', v_debit_id,
+    'credit_transaction_id', v_credit_id
+  );
+END;
+$$;
+
+-- Superseded by debit_wallet
+DROP FUNCTION IF EXISTS public.deduct_wallet_balance(uuid, numeric);
+
+-- Open the ledger with each wallet's current balance
+WITH opening AS (
+  SELECT gen_random_uuid() AS journal_id, user_id, balance
+  FROM public.wallets
+  WHERE balance <> 0
+)
+INSERT INTO public.wallet_ledger (journal_id, account, user_id, entry_type, amount, balance_after, reference, description)
+SELECT journal_id, 'wallet', user_id,
+  CASE WHEN balance > 0 THEN 'credit'::public.transaction_type ELSE 'debit'::public.transaction_type END,
+  abs(balance), balance, 'OPENING-' || user_id, 'Opening balance'
+FROM opening
+UNION ALL
+SELECT journal_id, 'opening_balance', user_id,
+  CASE WHEN balance > 0 THEN 'debit'::public.transaction_type ELSE 'credit'::public.transaction_type END,
+  abs(balance), NULL, 'OPENING-' || user_id, 'Opening balance'
+FROM opening;
+
+-- Wallets whose cached balance disagreed with the ledger at reconciliation time
+CREATE TABLE public.ledger_reconciliation_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  wallet_balance numeric(15, 2) NOT NULL,
+  ledger_balance numeric(15, 2) NOT NULL,
+  difference numeric(15, 2) NOT NULL,
+  detected_at timestamp with time zone NOT NULL DEFAULT now(),
+  resolved_at timestamp with time zone,
+  resolved_by uuid REFERENCES auth.users(id),
+  notes text
+);
+
+CREATE INDEX idx_ledger_reconciliation_flags_open ON public.ledger_reconciliation_flags (user_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.ledger_reconciliation_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation flags"
+ON public.ledger_reconciliation_flags FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update reconciliation flags"
+ON public.ledger_reconciliation_flags FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Compare every wallet with its ledger total and flag mismatches.
+-- A wallet with an open flag is only flagged again if the difference changed.
+CREATE OR REPLACE FUNCTION public.reconcile_wallet_ledger()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_flagged integer;
+BEGIN
+  WITH ledger AS (
+    SELECT user_id, SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END) AS balance
+    FROM public.wallet_ledger
+    WHERE account = 'wallet'
+    GROUP BY user_id
+  ),
+  mismatches AS (
+    SELECT w.user_id, w.balance AS wallet_balance, COALESCE(l.balance, 0) AS ledger_balance
+    FROM public.wallets w
+    LEFT JOIN ledger l ON l.user_id = w.user_id
+    WHERE w.balance <> COALESCE(l.balance, 0)
+  ),
+  inserted AS (
+    INSERT INTO public.ledger_reconciliation_flags (user_id, wallet_balance, ledger_balance, difference)
+    SELECT m.user_id, m.wallet_balance, m.ledger_balance, m.wallet_balance - m.ledger_balance
+    FROM mismatches m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.ledger_reconciliation_flags f
+      WHERE f.user_id = m.user_id
+        AND f.resolved_at IS NULL
+        AND f.difference = m.wallet_balance - m.ledger_balance
+    )
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_flagged FROM inserted;
+
+  RETURN v_flagged;
+END;
+$$;
+
+-- Only edge functions (service role) and the scheduler may post or reconcile
+REVOKE EXECUTE ON FUNCTION public.post_wallet_journal(uuid, public.transaction_type, numeric, text, uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.debit_wallet(uuid, numeric, public.transaction_category, text, text, jsonb, text, public.transaction_status) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_wallet(uuid, numeric, public.transaction_category, text, text, jsonb, text, public.transaction_status) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_entry(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_transaction(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_wallet_ledger() FROM PUBLIC, anon, authenticated;
+
+-- Nightly reconciliation at midnight Lagos time (23:00 UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'reconcile-wallet-ledger',
+  '0 23 * * *',
+  $$SELECT public.reconcile_wallet_ledger()$$
+);
@@ -0,0 +1,10 @@
+-- Route cable, electricity and exam PIN purchases through a named provider adapter
+-- (data_plans and airtime_plans already carry a `provider` column)
+ALTER TABLE public.cable_providers
+ADD COLUMN api_provider text NOT NULL DEFAULT 'isquare';
+
+ALTER TABLE public.electricity_providers
+ADD COLUMN api_provider text NOT NULL DEFAULT 'isquare';
+
+ALTER TABLE public.exam_pins
+ADD COLUMN api_provider text NOT NULL DEFAULT 'isquare';
@@ -0,0 +1,63 @@
+-- Priority-based provider failover for data, airtime, cable and electricity
+
+-- Albarka is live for airtime and data but was never registered
+INSERT INTO public.api_providers (name, base_url, priority) VALUES
+  ('albarka', 'https://albarkasub.com/api', 3)
+ON CONFLICT (name) DO NOTHING;
+
+-- Admins reorder and switch providers off from the settings page
+CREATE POLICY "Admins can view all providers"
+ON public.api_providers FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update providers"
+ON public.api_providers FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Per-product failover rule. allow_price_change lets failover move to a
+-- provider plan the user pays a different price for (data and airtime only;
+-- cable and electricity are charged the same whichever provider serves them)
+CREATE TABLE public.failover_rules (
+  product text PRIMARY KEY CHECK (product IN ('data', 'airtime', 'cable', 'electricity')),
+  is_enabled boolean NOT NULL DEFAULT true,
+  allow_price_change boolean NOT NULL DEFAULT false,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.failover_rules (product) VALUES
+  ('data'), ('airtime'), ('cable'), ('electricity');
+
+ALTER TABLE public.failover_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view failover rules"
+ON public.failover_rules FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update failover rules"
+ON public.failover_rules FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Cable and electricity rows carry one provider's service/plan ids. These map
+-- the same disco or bouquet onto other providers so failover has somewhere to go.
+CREATE TABLE public.provider_service_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product text NOT NULL CHECK (product IN ('cable', 'electricity')),
+  provider_code text NOT NULL,
+  bouquet_id uuid REFERENCES public.cable_bouquets(id) ON DELETE CASCADE,
+  api_provider text NOT NULL,
+  service_id integer NOT NULL,
+  plan_id integer,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((product = 'cable') = (bouquet_id IS NOT NULL AND plan_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX idx_provider_service_mappings_unique
+ON public.provider_service_mappings (product, provider_code, COALESCE(bouquet_id, '00000000-0000-0000-0000-000000000000'::uuid), api_provider);
+
+ALTER TABLE public.provider_service_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage provider service mappings"
+ON public.provider_service_mappings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,48 @@
+-- Requery worker for purchases stuck in 'pending'
+
+CREATE TABLE public.requery_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  is_enabled boolean NOT NULL DEFAULT true,
+  -- A purchase is only requeried once it has been pending this long
+  min_age_minutes integer NOT NULL DEFAULT 15 CHECK (min_age_minutes > 0),
+  batch_size integer NOT NULL DEFAULT 50 CHECK (batch_size BETWEEN 1 AND 500),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.requery_settings (is_enabled, min_age_minutes, batch_size)
+VALUES (true, 15, 50);
+
+ALTER TABLE public.requery_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view requery settings"
+ON public.requery_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update requery settings"
+ON public.requery_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The worker scans oldest pending purchases first
+CREATE INDEX IF NOT EXISTS idx_transactions_pending_created_at
+ON public.transactions (created_at)
+WHERE status = 'pending';
+
+-- Run the worker every 5 minutes. The project URL and service role key are
+-- read from Vault (secrets 'project_url' and 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'requery-pending-transactions',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/requery-pending-transactions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,24 @@
+-- Idempotency keys for purchase endpoints. A buy-* request carrying an
+-- Idempotency-Key claims it before debiting; a repeat gets the stored response.
+CREATE TABLE public.idempotency_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  endpoint text NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status integer,
+  response_body jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  completed_at timestamp with time zone,
+  CONSTRAINT idempotency_keys_user_id_key_key UNIQUE (user_id, key)
+);
+
+-- Only edge functions (service role) read or write keys
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys only need to outlive client retries; purge them after a week
+SELECT cron.schedule(
+  'purge-idempotency-keys',
+  '30 3 * * *',
+  $$DELETE FROM public.idempotency_keys WHERE created_at < now() - interval '7 days'$$
+);
@@ -0,0 +1,34 @@
+-- Audit trail of every PaymentPoint webhook delivery. The raw body is kept
+-- exactly as received so the signature can be re-checked and the event replayed.
+CREATE TABLE public.paymentpoint_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  raw_body text NOT NULL,
+  headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  signature text,
+  signature_valid boolean NOT NULL DEFAULT false,
+  event_timestamp timestamp with time zone,
+  transaction_reference text,
+  status text NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'ignored', 'failed', 'quarantined', 'replayed')),
+  quarantine_reason text,
+  result jsonb,
+  processed_at timestamp with time zone,
+  replayed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  replayed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_paymentpoint_webhook_events_status
+  ON public.paymentpoint_webhook_events (status, created_at DESC);
+
+CREATE INDEX idx_paymentpoint_webhook_events_signature
+  ON public.paymentpoint_webhook_events (signature)
+  WHERE signature IS NOT NULL;
+
+-- Written by the webhook (service role); admins review them, replays go through admin-data
+ALTER TABLE public.paymentpoint_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+ON public.paymentpoint_webhook_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
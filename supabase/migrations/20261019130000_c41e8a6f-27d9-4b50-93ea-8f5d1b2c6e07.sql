@@ -0,0 +1,39 @@
+-- How each VTU provider authenticates its delivery callbacks to data-webhook.
+-- Secrets never live here (active providers are publicly readable): they come
+-- from the <NAME>_CALLBACK_SECRET function secret.
+--   shared_secret: the secret is sent as ?token= or an X-Callback-Token header
+--   signature:     hex HMAC-SHA256 of the raw body in callback_signature_header
+--   ip_allowlist:  the caller must be one of callback_allowed_ips
+-- A non-empty allowlist is enforced on top of the other two methods as well.
+ALTER TABLE public.api_providers
+  ADD COLUMN callback_auth text NOT NULL DEFAULT 'shared_secret'
+    CHECK (callback_auth IN ('shared_secret', 'signature', 'ip_allowlist')),
+  ADD COLUMN callback_signature_header text,
+  ADD COLUMN callback_allowed_ips text[] NOT NULL DEFAULT '{}';
+
+-- Every callback data-webhook receives, accepted or not
+CREATE TABLE public.provider_callbacks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text,
+  reference text,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  source_ip text,
+  headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  raw_body text NOT NULL,
+  authenticated boolean NOT NULL DEFAULT false,
+  rejection_reason text,
+  reported_status text,
+  state_changed boolean NOT NULL DEFAULT false,
+  resulting_status text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_provider_callbacks_reference ON public.provider_callbacks (reference);
+CREATE INDEX idx_provider_callbacks_created_at ON public.provider_callbacks (created_at DESC);
+
+ALTER TABLE public.provider_callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view provider callbacks"
+ON public.provider_callbacks
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,93 @@
+-- Scheduled data plan sync. A sweep fetches every provider's catalogue, stages
+-- the differences against data_plans and waits for an admin to approve them.
+
+CREATE TABLE public.plan_sync_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  is_enabled boolean NOT NULL DEFAULT true,
+  -- Selling price proposed for new plans (and for plans whose cost overtook
+  -- their price): api_price * (1 + markup_percent / 100) + markup_flat,
+  -- rounded up to a multiple of round_to
+  markup_percent numeric NOT NULL DEFAULT 10 CHECK (markup_percent >= 0),
+  markup_flat numeric NOT NULL DEFAULT 0 CHECK (markup_flat >= 0),
+  round_to integer NOT NULL DEFAULT 5 CHECK (round_to >= 1),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.plan_sync_settings (is_enabled, markup_percent, markup_flat, round_to)
+VALUES (true, 10, 0, 5);
+
+ALTER TABLE public.plan_sync_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view plan sync settings"
+ON public.plan_sync_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update plan sync settings"
+ON public.plan_sync_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TABLE public.plan_sync_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when started by the schedule
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  finished_at timestamp with time zone,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+  errors text[] NOT NULL DEFAULT '{}'
+);
+
+CREATE TABLE public.plan_sync_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.plan_sync_runs(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('new', 'removed', 'price_change')),
+  provider text NOT NULL,
+  network text NOT NULL,
+  category text NOT NULL,
+  plan_key text NOT NULL,
+  data_plan_id uuid REFERENCES public.data_plans(id) ON DELETE CASCADE,
+  -- The plan as fetched from the provider (new plans are inserted from it)
+  plan jsonb,
+  old_api_price numeric,
+  new_api_price numeric,
+  old_selling_price numeric,
+  proposed_selling_price numeric,
+  -- A later sweep replaces pending changes it no longer agrees with
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (proposed_selling_price IS NULL OR new_api_price IS NULL OR proposed_selling_price >= new_api_price)
+);
+
+CREATE INDEX idx_plan_sync_changes_pending
+ON public.plan_sync_changes (provider, network)
+WHERE status = 'pending';
+
+ALTER TABLE public.plan_sync_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.plan_sync_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view plan sync runs"
+ON public.plan_sync_runs FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view plan sync changes"
+ON public.plan_sync_changes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Sweep every 6 hours (Vault secrets as for the requery worker)
+SELECT cron.schedule(
+  'sync-data-plans-sweep',
+  '20 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-data-plans',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sweep"}'::jsonb
+  );
+  $$
+);
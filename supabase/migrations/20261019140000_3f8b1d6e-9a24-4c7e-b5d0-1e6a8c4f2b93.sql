@@ -0,0 +1,162 @@
+-- User tiers (e.g. Smart, Agent, API Partner) with per-tier pricing
+
+CREATE TABLE public.user_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  description text,
+  -- Higher rank is a better tier; automatic upgrades only ever move users up
+  rank integer NOT NULL DEFAULT 0,
+  -- Users without a tier_id are priced as the default tier
+  is_default boolean NOT NULL DEFAULT false,
+  -- Completed purchases over the last 30 days needed for an automatic upgrade.
+  -- NULL means the tier is only assigned by an admin.
+  min_monthly_spend numeric(12,2) CHECK (min_monthly_spend IS NULL OR min_monthly_spend >= 0),
+  -- Markup rules, applied when a product has no tier override
+  data_discount_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (data_discount_percent BETWEEN 0 AND 100),
+  -- Percentage points added to the airtime plan's own discount
+  airtime_discount_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (airtime_discount_percent BETWEEN 0 AND 100),
+  cable_discount_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (cable_discount_percent BETWEEN 0 AND 100),
+  exam_pin_discount_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (exam_pin_discount_percent BETWEEN 0 AND 100),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_user_tiers_single_default ON public.user_tiers (is_default) WHERE is_default;
+
+CREATE TRIGGER update_user_tiers_updated_at
+  BEFORE UPDATE ON public.user_tiers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.user_tiers (name, slug, description, rank, is_default, min_monthly_spend, data_discount_percent, airtime_discount_percent, cable_discount_percent, exam_pin_discount_percent)
+VALUES
+  ('Smart', 'smart', 'Standard pricing for every new account', 0, true, NULL, 0, 0, 0, 0),
+  ('Agent', 'agent', 'Resellers buying in bulk', 1, false, 100000, 3, 0.5, 1, 2),
+  ('API Partner', 'api-partner', 'Integrated partners, assigned by an admin', 2, false, NULL, 5, 1, 1.5, 3);
+
+-- Fixed prices for a single product. Airtime is priced by discount_percent
+-- (replacing the plan's discount); every other product by price.
+CREATE TABLE public.tier_price_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tier_id uuid NOT NULL REFERENCES public.user_tiers(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('data', 'airtime', 'cable', 'exam_pin')),
+  product_id uuid NOT NULL,
+  price numeric(12,2) CHECK (price IS NULL OR price > 0),
+  discount_percent numeric(5,2) CHECK (discount_percent IS NULL OR discount_percent BETWEEN 0 AND 100),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (tier_id, product_type, product_id),
+  CHECK (
+    CASE WHEN product_type = 'airtime'
+      THEN discount_percent IS NOT NULL AND price IS NULL
+      ELSE price IS NOT NULL AND discount_percent IS NULL
+    END
+  )
+);
+
+CREATE TRIGGER update_tier_price_overrides_updated_at
+  BEFORE UPDATE ON public.tier_price_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tier_price_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Prices are shown in the app, so signed-in users can read every tier
+CREATE POLICY "Authenticated users can view tiers"
+ON public.user_tiers FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage tiers"
+ON public.user_tiers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view tier prices"
+ON public.tier_price_overrides FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage tier prices"
+ON public.tier_price_overrides FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.profiles
+  ADD COLUMN tier_id uuid REFERENCES public.user_tiers(id) ON DELETE SET NULL,
+  ADD COLUMN tier_assigned_at timestamp with time zone;
+
+CREATE INDEX idx_profiles_tier_id ON public.profiles (tier_id);
+
+-- Users may update their own profile, but not their tier
+CREATE OR REPLACE FUNCTION public.protect_profile_tier()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tier_id IS DISTINCT FROM OLD.tier_id THEN
+    IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'TIER_CHANGE_NOT_ALLOWED';
+    END IF;
+    NEW.tier_assigned_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_tier
+  BEFORE UPDATE OF tier_id ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_tier();
+
+-- Move users up to the best tier their purchases over the last 30 days
+-- qualify for. Tiers without min_monthly_spend are never assigned here and
+-- nobody is moved down.
+CREATE OR REPLACE FUNCTION public.apply_tier_upgrades()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_upgraded integer;
+BEGIN
+  WITH spend AS (
+    SELECT user_id, SUM(amount) AS total
+    FROM public.transactions
+    WHERE type = 'debit'
+      AND status = 'completed'
+      AND category IN ('airtime', 'data', 'electricity', 'tv', 'cable', 'exam')
+      AND created_at >= now() - interval '30 days'
+    GROUP BY user_id
+  ),
+  qualified AS (
+    SELECT DISTINCT ON (s.user_id) s.user_id, t.id AS tier_id, t.rank
+    FROM spend s
+    JOIN public.user_tiers t
+      ON t.min_monthly_spend IS NOT NULL AND s.total >= t.min_monthly_spend
+    ORDER BY s.user_id, t.rank DESC
+  )
+  UPDATE public.profiles p
+  SET tier_id = q.tier_id
+  FROM qualified q
+  WHERE p.user_id = q.user_id
+    AND q.rank > COALESCE(
+      (SELECT rank FROM public.user_tiers WHERE id = p.tier_id),
+      (SELECT rank FROM public.user_tiers WHERE is_default),
+      0
+    );
+
+  GET DIAGNOSTICS v_upgraded = ROW_COUNT;
+  RETURN v_upgraded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_tier_upgrades() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'apply-tier-upgrades',
+  '15 1 * * *',
+  $$ SELECT public.apply_tier_upgrades(); $$
+);
@@ -0,0 +1,189 @@
+-- API keys for the public /v1 gateway (the "api" edge function).
+-- Only a SHA-256 hash of each key is kept; the key itself is shown once.
+CREATE TABLE public.api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- First characters of the key, so partners can tell their keys apart
+  prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scopes text[] NOT NULL DEFAULT '{plans:read,wallet:read,purchase,transactions:read}'
+    CHECK (scopes <@ ARRAY['plans:read', 'wallet:read', 'purchase', 'transactions:read']),
+  -- Empty means any IP may use the key
+  allowed_ips text[] NOT NULL DEFAULT '{}',
+  rate_limit_per_minute integer NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 1000),
+  -- Where final purchase statuses are POSTed, signed with callback_secret
+  callback_url text CHECK (callback_url IS NULL OR callback_url ~ '^https://'),
+  callback_secret text NOT NULL,
+  -- A rotated key keeps working until expires_at so partners can roll over
+  rotated_from uuid REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  expires_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  last_used_at timestamp with time zone,
+  last_used_ip text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_keys_user_id ON public.api_keys (user_id);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created, rotated and revoked through the api-keys function
+CREATE POLICY "Users can view their own API keys"
+ON public.api_keys FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view API keys"
+ON public.api_keys FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- One row per gateway request
+CREATE TABLE public.api_request_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method text NOT NULL,
+  path text NOT NULL,
+  status_code integer NOT NULL,
+  ip text,
+  duration_ms integer,
+  reference text,
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_request_logs_key_created_at ON public.api_request_logs (api_key_id, created_at DESC);
+
+ALTER TABLE public.api_request_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API usage"
+ON public.api_request_logs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view API usage"
+ON public.api_request_logs FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Fixed one-minute windows for per-key rate limiting
+CREATE TABLE public.api_rate_limit_windows (
+  api_key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_start timestamp with time zone NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+ALTER TABLE public.api_rate_limit_windows ENABLE ROW LEVEL SECURITY;
+
+-- Count a request against the key's current window and return the count so far
+CREATE OR REPLACE FUNCTION public.hit_api_rate_limit(p_api_key_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.api_rate_limit_windows (api_key_id, window_start, request_count)
+  VALUES (p_api_key_id, date_trunc('minute', now()), 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = api_rate_limit_windows.request_count + 1
+  RETURNING request_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_api_rate_limit(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Outbound callbacks to partners, delivered by deliver-api-callbacks
+CREATE TABLE public.api_callbacks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_status_code integer,
+  last_error text,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_callbacks_due ON public.api_callbacks (next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE public.api_callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view callbacks for their API keys"
+ON public.api_callbacks FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.api_keys k WHERE k.id = api_key_id AND k.user_id = auth.uid()));
+
+-- Queue a callback when a purchase made through the gateway reaches its final
+-- status, whether it settled in buy-*, data-webhook or the requery worker
+CREATE OR REPLACE FUNCTION public.enqueue_api_callback()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key public.api_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO v_key
+  FROM public.api_keys
+  WHERE id = (NEW.metadata->>'api_key_id')::uuid;
+
+  IF v_key.callback_url IS NULL OR v_key.revoked_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.api_callbacks (api_key_id, transaction_id, url, payload)
+  VALUES (
+    v_key.id,
+    NEW.id,
+    v_key.callback_url,
+    jsonb_build_object(
+      'event', 'transaction.' || NEW.status,
+      'reference', NEW.reference,
+      'status', NEW.status,
+      'category', NEW.category,
+      'amount', NEW.amount,
+      'description', NEW.description,
+      'failure_reason', NEW.metadata->>'failure_reason',
+      'created_at', NEW.created_at,
+      'updated_at', now()
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_api_callback
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending' AND NEW.metadata ? 'api_key_id')
+  EXECUTE FUNCTION public.enqueue_api_callback();
+
+-- Deliver callbacks every minute. The project URL and service role key are
+-- read from Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'deliver-api-callbacks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-api-callbacks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Rate limit windows are only needed for the current minute; usage logs are kept 90 days
+SELECT cron.schedule(
+  'prune-api-usage',
+  '40 3 * * *',
+  $$
+  DELETE FROM public.api_rate_limit_windows WHERE window_start < now() - interval '1 hour';
+  DELETE FROM public.api_request_logs WHERE created_at < now() - interval '90 days';
+  $$
+);
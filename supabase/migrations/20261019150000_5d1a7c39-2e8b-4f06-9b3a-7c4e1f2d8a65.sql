@@ -0,0 +1,127 @@
+-- Merchant webhooks: users register HTTPS endpoints that receive a signed
+-- event every time one of their transactions changes status.
+CREATE TABLE public.webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url text NOT NULL CHECK (url ~ '^https://'),
+  description text,
+  -- HMAC key for the X-Signature header
+  secret text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_endpoints_user_id ON public.webhook_endpoints (user_id);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+BEFORE UPDATE ON public.webhook_endpoints
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_status_code integer,
+  last_error text,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_webhook_deliveries_user_created_at ON public.webhook_deliveries (user_id, created_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- One delivery per active endpoint for every status change, whichever path
+-- (buy-*, data-webhook, requery, admin) made it
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, user_id, transaction_id, event, payload)
+  SELECT
+    e.id,
+    NEW.user_id,
+    NEW.id,
+    'transaction.' || NEW.status,
+    jsonb_build_object(
+      'event', 'transaction.' || NEW.status,
+      'reference', NEW.reference,
+      'status', NEW.status,
+      'previous_status', OLD.status,
+      'type', NEW.type,
+      'category', NEW.category,
+      'amount', NEW.amount,
+      'description', NEW.description,
+      'failure_reason', NEW.metadata->>'failure_reason',
+      'created_at', NEW.created_at,
+      'updated_at', now()
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.user_id = NEW.user_id
+    AND e.is_active;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_webhook_deliveries
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Deliver webhooks every minute. The project URL and service role key are
+-- read from Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- The delivery log is kept for 30 days
+SELECT cron.schedule(
+  'prune-webhook-deliveries',
+  '50 3 * * *',
+  $$
+  DELETE FROM public.webhook_deliveries WHERE created_at < now() - interval '30 days' AND status <> 'pending';
+  $$
+);
@@ -0,0 +1,106 @@
+-- Bulk data/airtime orders. The order is placed (and the PIN checked) once;
+-- process-bulk-orders then buys each line through buy-data / buy-airtime,
+-- which debit, fail over and refund per line as for a single purchase.
+CREATE TABLE public.bulk_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('data', 'airtime')),
+  network text NOT NULL,
+  -- Data orders send the same plan to every line
+  plan_id uuid REFERENCES public.data_plans(id) ON DELETE SET NULL,
+  plan_name text,
+  line_count integer NOT NULL CHECK (line_count > 0),
+  -- Total at the user's prices when the order was placed
+  estimated_total numeric NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (product_type <> 'data' OR plan_id IS NOT NULL)
+);
+
+CREATE INDEX idx_bulk_orders_user_created_at ON public.bulk_orders (user_id, created_at DESC);
+
+ALTER TABLE public.bulk_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bulk orders"
+ON public.bulk_orders FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view bulk orders"
+ON public.bulk_orders FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TABLE public.bulk_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.bulk_orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_no integer NOT NULL,
+  phone_number text NOT NULL,
+  -- Airtime face value; data lines use the order's plan
+  amount numeric,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'pending', 'completed', 'failed')),
+  reference text,
+  error text,
+  claimed_at timestamp with time zone,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (order_id, line_no)
+);
+
+CREATE INDEX idx_bulk_order_lines_queued ON public.bulk_order_lines (created_at) WHERE status IN ('queued', 'processing');
+CREATE INDEX idx_bulk_order_lines_reference ON public.bulk_order_lines (reference) WHERE reference IS NOT NULL;
+
+ALTER TABLE public.bulk_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bulk order lines"
+ON public.bulk_order_lines FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view bulk order lines"
+ON public.bulk_order_lines FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- A line left pending at the provider settles later through data-webhook or
+-- the requery worker; copy the final status onto the line
+CREATE OR REPLACE FUNCTION public.sync_bulk_order_line()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.bulk_order_lines
+  SET status = CASE WHEN NEW.status = 'completed' THEN 'completed' ELSE 'failed' END,
+      error = CASE WHEN NEW.status = 'completed' THEN NULL ELSE COALESCE(NEW.metadata->>'failure_reason', 'Purchase failed') END,
+      processed_at = now()
+  WHERE order_id = (NEW.metadata->>'bulk_order_id')::uuid
+    AND reference = NEW.reference
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_bulk_order_line
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending' AND NEW.metadata ? 'bulk_order_id')
+  EXECUTE FUNCTION public.sync_bulk_order_line();
+
+-- Orders are also kicked off when placed; the schedule picks up anything a
+-- run did not finish. The project URL and service role key are read from
+-- Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'process-bulk-orders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-bulk-orders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
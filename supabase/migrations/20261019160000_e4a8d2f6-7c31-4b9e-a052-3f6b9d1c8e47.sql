@@ -0,0 +1,93 @@
+-- Recurring purchases: a saved data, airtime or cable order that
+-- run-scheduled-purchases places through buy-* on the user's schedule.
+-- Times are Africa/Lagos (UTC+1, no DST).
+CREATE TABLE public.scheduled_purchases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_type text NOT NULL CHECK (product_type IN ('data', 'airtime', 'cable')),
+  label text NOT NULL,
+  -- data / airtime
+  network text,
+  phone_number text,
+  plan_id uuid REFERENCES public.data_plans(id) ON DELETE CASCADE,
+  amount numeric,
+  -- cable
+  provider_code text,
+  bouquet_id uuid REFERENCES public.cable_bouquets(id) ON DELETE CASCADE,
+  smartcard_number text,
+  customer_name text,
+  frequency text NOT NULL CHECK (frequency IN ('once', 'daily', 'weekly', 'monthly')),
+  day_of_week smallint CHECK (day_of_week BETWEEN 0 AND 6),
+  -- Days past the end of a short month run on its last day
+  day_of_month smallint CHECK (day_of_month BETWEEN 1 AND 31),
+  run_hour smallint NOT NULL DEFAULT 9 CHECK (run_hour BETWEEN 0 AND 23),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+  paused_reason text,
+  next_run_at timestamp with time zone,
+  last_run_at timestamp with time zone,
+  consecutive_failures integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (product_type <> 'data' OR (network IS NOT NULL AND phone_number IS NOT NULL AND plan_id IS NOT NULL)),
+  CHECK (product_type <> 'airtime' OR (network IS NOT NULL AND phone_number IS NOT NULL AND amount IS NOT NULL)),
+  CHECK (product_type <> 'cable' OR (provider_code IS NOT NULL AND bouquet_id IS NOT NULL AND smartcard_number IS NOT NULL)),
+  CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+CREATE INDEX idx_scheduled_purchases_due ON public.scheduled_purchases (next_run_at) WHERE status = 'active';
+CREATE INDEX idx_scheduled_purchases_user_id ON public.scheduled_purchases (user_id);
+
+ALTER TABLE public.scheduled_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled purchases"
+ON public.scheduled_purchases FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view scheduled purchases"
+ON public.scheduled_purchases FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_scheduled_purchases_updated_at
+BEFORE UPDATE ON public.scheduled_purchases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.scheduled_purchase_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES public.scheduled_purchases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('completed', 'pending', 'failed', 'skipped')),
+  reference text,
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scheduled_purchase_runs_schedule ON public.scheduled_purchase_runs (schedule_id, created_at DESC);
+
+ALTER TABLE public.scheduled_purchase_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled purchase runs"
+ON public.scheduled_purchase_runs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view scheduled purchase runs"
+ON public.scheduled_purchase_runs FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Check for due schedules every five minutes. The project URL and service
+-- role key are read from Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'run-scheduled-purchases',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-purchases',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,155 @@
+-- Auto top-up rules: "whenever my wallet is funded, also top up this line"
+-- or "top up this line once a day/week between these hours", each with an
+-- optional spending cap. run-auto-topups places the purchases through buy-*.
+-- Times are Africa/Lagos (UTC+1, no DST).
+CREATE TABLE public.auto_topup_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_name text,
+  network text NOT NULL,
+  phone_number text NOT NULL,
+  product_type text NOT NULL CHECK (product_type IN ('data', 'airtime')),
+  plan_id uuid REFERENCES public.data_plans(id) ON DELETE CASCADE,
+  amount numeric CHECK (amount > 0),
+  trigger_type text NOT NULL CHECK (trigger_type IN ('wallet_credit', 'time_window')),
+  -- wallet_credit: only deposits of at least this much fire the rule
+  min_credit_amount numeric NOT NULL DEFAULT 0 CHECK (min_credit_amount >= 0),
+  -- time_window: fire once per period, on the first sweep inside [start, end)
+  window_period text CHECK (window_period IN ('day', 'week')),
+  window_start_hour smallint CHECK (window_start_hour BETWEEN 0 AND 23),
+  window_end_hour smallint CHECK (window_end_hour BETWEEN 1 AND 24),
+  -- Purchases that would take the rule's spend for the period past the cap are skipped
+  spend_limit numeric CHECK (spend_limit > 0),
+  spend_limit_period text NOT NULL DEFAULT 'week' CHECK (spend_limit_period IN ('day', 'week', 'month')),
+  is_active boolean NOT NULL DEFAULT true,
+  last_triggered_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (product_type <> 'data' OR plan_id IS NOT NULL),
+  CHECK (product_type <> 'airtime' OR amount IS NOT NULL),
+  CHECK (trigger_type <> 'time_window' OR (
+    window_period IS NOT NULL AND window_start_hour IS NOT NULL AND window_end_hour > window_start_hour
+  ))
+);
+
+CREATE INDEX idx_auto_topup_rules_user_id ON public.auto_topup_rules (user_id);
+CREATE INDEX idx_auto_topup_rules_trigger ON public.auto_topup_rules (trigger_type) WHERE is_active;
+
+ALTER TABLE public.auto_topup_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own auto top-up rules"
+ON public.auto_topup_rules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view auto top-up rules"
+ON public.auto_topup_rules FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_auto_topup_rules_updated_at
+BEFORE UPDATE ON public.auto_topup_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per time a rule fired: the queue run-auto-topups works from and the
+-- user's log of automated purchases. trigger_reference is the deposit's
+-- reference or the window (e.g. 'day:2026-10-19'), so a rule fires once each.
+CREATE TABLE public.auto_topup_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES public.auto_topup_rules(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trigger_type text NOT NULL CHECK (trigger_type IN ('wallet_credit', 'time_window')),
+  trigger_reference text NOT NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'pending', 'completed', 'failed', 'skipped')),
+  cost numeric,
+  reference text,
+  error text,
+  claimed_at timestamp with time zone,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (rule_id, trigger_reference)
+);
+
+CREATE INDEX idx_auto_topup_runs_queued ON public.auto_topup_runs (created_at) WHERE status IN ('queued', 'processing');
+CREATE INDEX idx_auto_topup_runs_rule ON public.auto_topup_runs (rule_id, created_at DESC);
+
+ALTER TABLE public.auto_topup_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own auto top-up runs"
+ON public.auto_topup_runs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view auto top-up runs"
+ON public.auto_topup_runs FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Queue a run for every wallet_credit rule a completed deposit qualifies for
+CREATE OR REPLACE FUNCTION public.enqueue_auto_topups()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.auto_topup_runs (rule_id, user_id, trigger_type, trigger_reference)
+  SELECT r.id, r.user_id, 'wallet_credit', NEW.reference
+  FROM public.auto_topup_rules r
+  WHERE r.user_id = NEW.user_id
+    AND r.is_active
+    AND r.trigger_type = 'wallet_credit'
+    AND NEW.amount >= r.min_credit_amount
+  ON CONFLICT (rule_id, trigger_reference) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_auto_topups
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'credit' AND NEW.category = 'deposit' AND NEW.status = 'completed')
+  EXECUTE FUNCTION public.enqueue_auto_topups();
+
+-- Settle a pending run when its purchase completes or fails
+CREATE OR REPLACE FUNCTION public.sync_auto_topup_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.auto_topup_runs
+  SET status = CASE WHEN NEW.status = 'completed' THEN 'completed' ELSE 'failed' END,
+      error = CASE WHEN NEW.status = 'completed' THEN NULL ELSE COALESCE(NEW.metadata->>'failure_reason', 'Purchase failed') END,
+      processed_at = now()
+  WHERE rule_id = (NEW.metadata->>'auto_topup_rule_id')::uuid
+    AND reference = NEW.reference
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_auto_topup_run
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending' AND NEW.metadata ? 'auto_topup_rule_id')
+  EXECUTE FUNCTION public.sync_auto_topup_run();
+
+-- Deposits also kick the worker; the schedule opens time windows and picks up
+-- anything a kick missed. The project URL and service role key are read from
+-- Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'run-auto-topups',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-auto-topups',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
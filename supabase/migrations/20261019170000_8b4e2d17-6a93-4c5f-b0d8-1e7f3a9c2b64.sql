@@ -0,0 +1,47 @@
+-- Saved beneficiaries, synced across devices (replaces the per-device recent
+-- recipients list). One row per number the user buys for: phone numbers,
+-- meter numbers, smartcard/IUC numbers and exam profile codes.
+CREATE TABLE public.beneficiaries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('phone', 'meter', 'smartcard', 'exam_profile')),
+  value text NOT NULL CHECK (length(value) BETWEEN 4 AND 32),
+  -- Network, disco or cable provider code last used with this number
+  provider text,
+  nickname text CHECK (length(nickname) <= 40),
+  -- Name returned by the last successful meter/smartcard verification
+  customer_name text,
+  verified_at timestamp with time zone,
+  is_favorite boolean NOT NULL DEFAULT false,
+  -- Last purchase per service, e.g. {"data": {"plan_id": ..., "label": "1GB"}}, for one-tap repeats
+  last_products jsonb NOT NULL DEFAULT '{}'::jsonb,
+  last_used_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, kind, value)
+);
+
+CREATE INDEX idx_beneficiaries_user_kind ON public.beneficiaries (user_id, kind, last_used_at DESC);
+
+ALTER TABLE public.beneficiaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own beneficiaries"
+ON public.beneficiaries FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own beneficiaries"
+ON public.beneficiaries FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own beneficiaries"
+ON public.beneficiaries FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own beneficiaries"
+ON public.beneficiaries FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_beneficiaries_updated_at
+BEFORE UPDATE ON public.beneficiaries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
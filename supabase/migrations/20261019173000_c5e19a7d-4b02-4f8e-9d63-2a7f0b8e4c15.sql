@@ -0,0 +1,179 @@
+-- Admin reversals. A reversal undoes a transaction in full or in part against
+-- its own wallet entries (a purchase is credited back, a credit is taken back)
+-- and marks the transaction 'reversed'. Each transaction can have only one
+-- reversal that is waiting or done; a rejected one can be requested again.
+
+ALTER TYPE public.transaction_status ADD VALUE IF NOT EXISTS 'reversed';
+
+CREATE TABLE public.reversal_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Four-eyes: reversals of at least approval_threshold wait for a second admin
+  require_second_approval boolean NOT NULL DEFAULT false,
+  approval_threshold numeric NOT NULL DEFAULT 0 CHECK (approval_threshold >= 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.reversal_settings (require_second_approval, approval_threshold)
+VALUES (false, 0);
+
+ALTER TABLE public.reversal_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reversal settings"
+ON public.reversal_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update reversal settings"
+ON public.reversal_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- No foreign keys, as on wallet_ledger: the reversal history outlives the
+-- account and the admins involved
+CREATE TABLE public.transaction_reversals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  is_full boolean NOT NULL,
+  reason_code text NOT NULL CHECK (reason_code IN (
+    'service_not_delivered', 'duplicate_charge', 'wrong_amount', 'provider_error',
+    'customer_request', 'fraud', 'goodwill', 'other'
+  )),
+  note text CHECK (length(note) <= 500),
+  status text NOT NULL DEFAULT 'pending_approval'
+    CHECK (status IN ('pending_approval', 'completed', 'rejected')),
+  requested_by uuid NOT NULL,
+  -- The approving (or rejecting) admin; NULL when no approval was needed
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  review_note text,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (reason_code <> 'other' OR note IS NOT NULL)
+);
+
+-- No second reversal (or refund request) while one is waiting or done
+CREATE UNIQUE INDEX idx_transaction_reversals_one_per_transaction
+ON public.transaction_reversals (transaction_id)
+WHERE status <> 'rejected';
+
+CREATE INDEX idx_transaction_reversals_pending
+ON public.transaction_reversals (created_at)
+WHERE status = 'pending_approval';
+
+ALTER TABLE public.transaction_reversals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view transaction reversals"
+ON public.transaction_reversals FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- What is left to reverse of a transaction: its wallet entries of the
+-- transaction's own direction, less what was already reversed (e.g. the
+-- automatic refund of a failed purchase)
+CREATE OR REPLACE FUNCTION public.transaction_reversible_amount(p_transaction_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(l.amount - COALESCE((
+    SELECT SUM(r.amount) FROM public.wallet_ledger r WHERE r.reverses_entry_id = l.id
+  ), 0)), 0)
+  FROM public.wallet_ledger l
+  JOIN public.transactions t ON t.id = l.transaction_id
+  WHERE l.transaction_id = p_transaction_id
+    AND l.account = 'wallet'
+    AND l.reverses_entry_id IS NULL
+    AND l.entry_type = t.type;
+$$;
+
+-- Post a waiting reversal. p_reviewed_by is the approving admin, or NULL when
+-- the requester's own reversal needs no approval.
+CREATE OR REPLACE FUNCTION public.apply_transaction_reversal(
+  p_reversal_id uuid,
+  p_reviewed_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reversal public.transaction_reversals%ROWTYPE;
+  v_tx public.transactions%ROWTYPE;
+  v_entry record;
+  v_left numeric;
+  v_take numeric;
+BEGIN
+  SELECT * INTO v_reversal FROM public.transaction_reversals WHERE id = p_reversal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REVERSAL_NOT_FOUND';
+  END IF;
+  IF v_reversal.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'REVERSAL_NOT_PENDING';
+  END IF;
+  IF p_reviewed_by IS NOT NULL AND p_reviewed_by = v_reversal.requested_by THEN
+    RAISE EXCEPTION 'SAME_ADMIN';
+  END IF;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = v_reversal.transaction_id FOR UPDATE;
+
+  PERFORM 1 FROM public.wallets WHERE user_id = v_tx.user_id FOR UPDATE;
+
+  v_left := v_reversal.amount;
+  FOR v_entry IN
+    SELECT l.id, l.amount - COALESCE((
+      SELECT SUM(r.amount) FROM public.wallet_ledger r WHERE r.reverses_entry_id = l.id
+    ), 0) AS remaining
+    FROM public.wallet_ledger l
+    WHERE l.transaction_id = v_tx.id
+      AND l.account = 'wallet'
+      AND l.reverses_entry_id IS NULL
+      AND l.entry_type = v_tx.type
+    ORDER BY l.created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_entry.remaining);
+    IF v_take > 0 THEN
+      PERFORM public.reverse_entry(v_entry.id, v_take, 'Reversal: ' || v_tx.description);
+      v_left := v_left - v_take;
+    END IF;
+  END LOOP;
+
+  -- Something else reversed part of it since the request was made
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'REVERSAL_EXCEEDS_ORIGINAL';
+  END IF;
+
+  UPDATE public.transaction_reversals
+  SET status = 'completed',
+      reviewed_by = p_reviewed_by,
+      reviewed_at = CASE WHEN p_reviewed_by IS NOT NULL THEN now() END,
+      completed_at = now()
+  WHERE id = v_reversal.id;
+
+  UPDATE public.transactions
+  SET status = 'reversed',
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+        'reversal_id', v_reversal.id,
+        'reversed_amount', v_reversal.amount,
+        'reversal_reason', v_reversal.reason_code,
+        'status_before_reversal', v_tx.status
+      )
+  WHERE id = v_tx.id;
+
+  RETURN jsonb_build_object(
+    'user_id', v_tx.user_id,
+    'transaction_id', v_tx.id,
+    'transaction_type', v_tx.type,
+    'description', v_tx.description,
+    'reversed_amount', v_reversal.amount,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = v_tx.user_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transaction_reversible_amount(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_transaction_reversal(uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,167 @@
+-- Admin audit log. Every admin action through an edge function and every
+-- change an admin makes directly to a settings or catalogue table is recorded
+-- here with who did it, what it touched, the values before and after, and
+-- where the request came from. Rows can be added but never changed.
+
+CREATE TABLE public.admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign keys: entries must outlive the accounts they mention
+  actor_id uuid,
+  actor_email text,
+  -- e.g. 'wallet.funded', 'role.granted', 'data_plan.updated'
+  action text NOT NULL,
+  target_type text NOT NULL,
+  target_id text,
+  -- The customer the action affected, when there is one
+  target_user_id uuid,
+  before jsonb,
+  after jsonb,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_audit_log_created_at ON public.admin_audit_log (created_at DESC);
+CREATE INDEX idx_admin_audit_log_actor ON public.admin_audit_log (actor_id, created_at DESC);
+CREATE INDEX idx_admin_audit_log_target_user ON public.admin_audit_log (target_user_id, created_at DESC)
+WHERE target_user_id IS NOT NULL;
+CREATE INDEX idx_admin_audit_log_action ON public.admin_audit_log (action, created_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+ON public.admin_audit_log FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Like the wallet ledger, the log is append-only
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'AUDIT_LOG_IMMUTABLE';
+END;
+$$;
+
+CREATE TRIGGER admin_audit_log_immutable
+BEFORE UPDATE OR DELETE ON public.admin_audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+CREATE TRIGGER admin_audit_log_no_truncate
+BEFORE TRUNCATE ON public.admin_audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+-- Records a change an admin made straight from the dashboard. TG_ARGV[0] names
+-- the kind of row (e.g. 'data_plan'). Writes by edge functions run as the
+-- service role and are recorded by the function itself, so they are skipped.
+CREATE OR REPLACE FUNCTION public.audit_admin_table_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_before jsonb;
+  v_after jsonb;
+  v_row jsonb;
+  v_action text;
+  v_headers jsonb;
+BEGIN
+  IF v_actor IS NULL OR NOT has_role(v_actor, 'admin'::app_role) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN v_before := to_jsonb(OLD); END IF;
+  IF TG_OP <> 'DELETE' THEN v_after := to_jsonb(NEW); END IF;
+
+  IF v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := COALESCE(v_after, v_before);
+
+  IF TG_TABLE_NAME = 'user_roles' THEN
+    v_action := 'role.' || CASE TG_OP WHEN 'INSERT' THEN 'granted' WHEN 'DELETE' THEN 'revoked' ELSE 'updated' END;
+  ELSE
+    v_action := TG_ARGV[0] || '.' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'DELETE' THEN 'deleted' ELSE 'updated' END;
+  END IF;
+
+  -- Set by the API gateway for requests made through PostgREST
+  v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+
+  INSERT INTO public.admin_audit_log (
+    actor_id, actor_email, action, target_type, target_id, target_user_id,
+    before, after, metadata, ip_address, user_agent
+  ) VALUES (
+    v_actor,
+    auth.jwt() ->> 'email',
+    v_action,
+    TG_ARGV[0],
+    v_row ->> 'id',
+    CASE TG_TABLE_NAME
+      WHEN 'user_roles' THEN (v_row ->> 'user_id')::uuid
+      WHEN 'notification_logs' THEN (v_row ->> 'target_user_id')::uuid
+    END,
+    v_before,
+    v_after,
+    jsonb_build_object('table', TG_TABLE_NAME),
+    COALESCE(
+      NULLIF(trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+      v_headers ->> 'cf-connecting-ip',
+      v_headers ->> 'x-real-ip'
+    ),
+    v_headers ->> 'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_admin_table_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER audit_user_roles
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('role');
+
+CREATE TRIGGER audit_api_providers
+AFTER INSERT OR UPDATE OR DELETE ON public.api_providers
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('api_provider');
+
+CREATE TRIGGER audit_failover_rules
+AFTER INSERT OR UPDATE OR DELETE ON public.failover_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('failover_rule');
+
+CREATE TRIGGER audit_reversal_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.reversal_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('reversal_settings');
+
+CREATE TRIGGER audit_referral_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.referral_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('referral_settings');
+
+CREATE TRIGGER audit_plan_sync_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.plan_sync_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('plan_sync_settings');
+
+CREATE TRIGGER audit_user_tiers
+AFTER INSERT OR UPDATE OR DELETE ON public.user_tiers
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('user_tier');
+
+CREATE TRIGGER audit_tier_price_overrides
+AFTER INSERT OR UPDATE OR DELETE ON public.tier_price_overrides
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('tier_price_override');
+
+CREATE TRIGGER audit_data_plans
+AFTER INSERT OR UPDATE OR DELETE ON public.data_plans
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('data_plan');
+
+CREATE TRIGGER audit_airtime_plans
+AFTER INSERT OR UPDATE OR DELETE ON public.airtime_plans
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('airtime_plan');
+
+CREATE TRIGGER audit_notification_logs
+AFTER INSERT ON public.notification_logs
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('push_broadcast');
@@ -0,0 +1,164 @@
+-- Self-service account deletion. A request waits out a cooling-off period in
+-- which the user can cancel it; the process-account-deletions worker then
+-- closes the account: any balance the user agreed to forfeit is written off,
+-- personal data is removed and transactions are kept, stripped of recipient
+-- details, until the financial retention period ends and the user is purged.
+
+CREATE TABLE public.account_deletion_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Plain uuid: the request is the record that the account was closed, so it outlives the user
+  user_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+  reason text CHECK (length(reason) <= 1000),
+  confirmed_with text NOT NULL CHECK (confirmed_with IN ('password', 'pin')),
+  balance_at_request numeric NOT NULL DEFAULT 0,
+  -- Whatever is left in the wallet when the account is closed is written off
+  forfeit_acknowledged boolean NOT NULL DEFAULT false,
+  forfeited_amount numeric,
+  scheduled_for timestamp with time zone NOT NULL,
+  -- Why the worker could not close the account yet (e.g. a purchase still pending)
+  held_reason text,
+  cancelled_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  -- When the anonymised transactions may be purged along with the user
+  retain_until timestamp with time zone,
+  purged_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_account_deletion_requests_one_pending
+ON public.account_deletion_requests (user_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_account_deletion_requests_due
+ON public.account_deletion_requests (scheduled_for)
+WHERE status = 'pending';
+
+CREATE INDEX idx_account_deletion_requests_retention
+ON public.account_deletion_requests (retain_until)
+WHERE status = 'completed' AND purged_at IS NULL;
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own deletion requests"
+ON public.account_deletion_requests FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view deletion requests"
+ON public.account_deletion_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_account_deletion_requests_updated_at
+BEFORE UPDATE ON public.account_deletion_requests
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Close the account of a due request in one database transaction. The auth
+-- user is anonymised by the worker afterwards; the wallet ledger is left as
+-- it is, being the financial record the retention period exists for.
+CREATE OR REPLACE FUNCTION public.close_deleted_account(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_request public.account_deletion_requests%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_request FROM public.account_deletion_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DELETION_NOT_FOUND';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'DELETION_NOT_PENDING';
+  END IF;
+
+  -- A purchase still waiting on its provider may yet be refunded to the wallet
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE user_id = v_request.user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'TRANSACTIONS_PENDING';
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = v_request.user_id FOR UPDATE;
+  v_balance := COALESCE(v_balance, 0);
+
+  IF v_balance > 0 THEN
+    IF NOT v_request.forfeit_acknowledged THEN
+      RAISE EXCEPTION 'BALANCE_REMAINING';
+    END IF;
+    PERFORM public.debit_wallet(
+      v_request.user_id,
+      v_balance,
+      'transfer',
+      'Balance forfeited on account closure',
+      'CLOSE-' || v_request.id,
+      jsonb_build_object('deletion_request_id', v_request.id),
+      'forfeited_balances',
+      'completed'
+    );
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = 'Deleted user',
+      email = NULL,
+      phone = '',
+      avatar_url = NULL,
+      virtual_account_bank = NULL,
+      virtual_account_name = NULL,
+      virtual_account_number = NULL,
+      virtual_account_reference = NULL,
+      is_blocked = true
+  WHERE user_id = v_request.user_id;
+
+  DELETE FROM public.push_subscriptions WHERE user_id = v_request.user_id;
+  DELETE FROM public.notifications WHERE user_id = v_request.user_id;
+  DELETE FROM public.beneficiaries WHERE user_id = v_request.user_id;
+  DELETE FROM public.scheduled_purchases WHERE user_id = v_request.user_id;
+  DELETE FROM public.auto_topup_rules WHERE user_id = v_request.user_id;
+  DELETE FROM public.bulk_orders WHERE user_id = v_request.user_id;
+  DELETE FROM public.webhook_endpoints WHERE user_id = v_request.user_id;
+  DELETE FROM public.api_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.transaction_pins WHERE user_id = v_request.user_id;
+  DELETE FROM public.idempotency_keys WHERE user_id = v_request.user_id;
+
+  -- Keep amounts, categories and references; drop who and what was bought for
+  UPDATE public.transactions
+  SET description = regexp_replace(description, '\d{10,}', '[removed]', 'g'),
+      metadata = (COALESCE(metadata, '{}'::jsonb) - ARRAY[
+        'phone_number', 'phone', 'meter_number', 'smartcard_number', 'customer_name',
+        'customer_address', 'sender_name', 'recipient_name', 'narration', 'token', 'pins'
+      ]) || jsonb_build_object('anonymised', true)
+  WHERE user_id = v_request.user_id;
+
+  -- Five years, as required for transaction records by the CBN AML/CFT regulations
+  UPDATE public.account_deletion_requests
+  SET status = 'completed',
+      forfeited_amount = v_balance,
+      held_reason = NULL,
+      completed_at = now(),
+      retain_until = now() + interval '5 years'
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object('user_id', v_request.user_id, 'forfeited_amount', v_balance);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_deleted_account(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Check for due deletions and expired retention hourly. The project URL and
+-- service role key are read from Vault (secrets 'project_url' and 'service_role_key').
+SELECT cron.schedule(
+  'process-account-deletions',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-account-deletions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
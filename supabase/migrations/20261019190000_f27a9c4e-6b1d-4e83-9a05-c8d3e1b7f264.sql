@@ -0,0 +1,166 @@
+-- Password reset OTP hardening. Codes are stored as keyed hashes, each code
+-- allows a handful of guesses, issuing a new code retires the older ones, and
+-- sends are throttled per email and per caller IP.
+
+-- Codes issued before this change were stored in plain text; they expire
+-- within ten minutes anyway, so they are simply dropped
+DELETE FROM public.password_reset_otps;
+
+ALTER TABLE public.password_reset_otps
+  DROP COLUMN otp_code,
+  ADD COLUMN otp_hash text NOT NULL,
+  ADD COLUMN failed_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN invalidated_at timestamp with time zone,
+  ADD COLUMN ip_address text;
+
+-- Every send request, including those for unknown emails, so throttling
+-- does not reveal which emails have accounts
+CREATE TABLE public.password_otp_send_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  ip_address text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_password_otp_send_attempts_email ON public.password_otp_send_attempts (email, created_at);
+CREATE INDEX idx_password_otp_send_attempts_ip ON public.password_otp_send_attempts (ip_address, created_at);
+
+-- Only the OTP edge functions (service role) use this table
+ALTER TABLE public.password_otp_send_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Record a send request, or raise when the email or IP has asked too often:
+-- one code a minute and five an hour per email, twenty an hour per IP
+CREATE OR REPLACE FUNCTION public.claim_password_otp_send(
+  p_email text,
+  p_ip_address text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('password_otp_send:' || p_email));
+
+  IF EXISTS (
+    SELECT 1 FROM public.password_otp_send_attempts
+    WHERE email = p_email AND created_at > now() - interval '1 minute'
+  ) THEN
+    RAISE EXCEPTION 'OTP_SEND_TOO_SOON';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.password_otp_send_attempts
+    WHERE email = p_email AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'OTP_SEND_LIMIT_EMAIL';
+  END IF;
+
+  IF p_ip_address IS NOT NULL AND (
+    SELECT count(*) FROM public.password_otp_send_attempts
+    WHERE ip_address = p_ip_address AND created_at > now() - interval '1 hour'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'OTP_SEND_LIMIT_IP';
+  END IF;
+
+  INSERT INTO public.password_otp_send_attempts (email, ip_address)
+  VALUES (p_email, p_ip_address);
+
+  -- Nothing older than the longest window is ever counted
+  DELETE FROM public.password_otp_send_attempts WHERE created_at < now() - interval '1 day';
+END;
+$$;
+
+-- Store a new code for an email and retire any it replaces
+CREATE OR REPLACE FUNCTION public.issue_password_otp(
+  p_email text,
+  p_otp_hash text,
+  p_expires_at timestamp with time zone,
+  p_ip_address text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  UPDATE public.password_reset_otps
+  SET invalidated_at = now()
+  WHERE email = p_email AND used = false AND invalidated_at IS NULL;
+
+  INSERT INTO public.password_reset_otps (email, otp_hash, expires_at, ip_address)
+  VALUES (p_email, p_otp_hash, p_expires_at, p_ip_address)
+  RETURNING id INTO v_id;
+
+  DELETE FROM public.password_reset_otps WHERE expires_at < now() - interval '1 day';
+
+  RETURN v_id;
+END;
+$$;
+
+-- Take one guess at an email's current code. Every call counts until a guess
+-- matches (see reset_password_otp_attempts); after five misses the code is
+-- retired and a new one has to be requested.
+CREATE OR REPLACE FUNCTION public.claim_password_otp_attempt(
+  p_email text
+)
+RETURNS TABLE (
+  otp_id uuid,
+  otp_hash text,
+  attempts_remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_otp public.password_reset_otps%ROWTYPE;
+  v_max_attempts integer := 5;
+BEGIN
+  SELECT * INTO v_otp
+  FROM public.password_reset_otps
+  WHERE email = p_email
+    AND used = false
+    AND invalidated_at IS NULL
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OTP_NOT_FOUND';
+  END IF;
+
+  IF v_otp.failed_attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'OTP_TOO_MANY_ATTEMPTS';
+  END IF;
+
+  v_otp.failed_attempts := v_otp.failed_attempts + 1;
+
+  UPDATE public.password_reset_otps
+  SET failed_attempts = v_otp.failed_attempts
+  WHERE id = v_otp.id;
+
+  RETURN QUERY SELECT v_otp.id, v_otp.otp_hash, v_max_attempts - v_otp.failed_attempts;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_password_otp_attempts(
+  p_otp_id uuid
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE public.password_reset_otps
+  SET failed_attempts = 0
+  WHERE id = p_otp_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_password_otp_send(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.issue_password_otp(text, text, timestamp with time zone, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_password_otp_attempt(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_password_otp_attempts(uuid) FROM PUBLIC, anon, authenticated;
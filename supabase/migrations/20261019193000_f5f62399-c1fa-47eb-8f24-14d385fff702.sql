@@ -0,0 +1,304 @@
+-- Phone number verification by SMS code. A verified number unlocks the
+-- higher transfer limits and is what sensitive account changes are confirmed
+-- against.
+
+ALTER TABLE public.profiles
+  ADD COLUMN phone_verified_at timestamp with time zone;
+
+-- Existing numbers were never verified, so duplicates only clash once verified
+CREATE UNIQUE INDEX idx_profiles_verified_phone ON public.profiles (phone) WHERE phone_verified_at IS NOT NULL;
+
+-- Users may update their own profile, but contact details only change through
+-- the phone-otp function, which proves the user holds the verified phone
+CREATE OR REPLACE FUNCTION public.protect_profile_contact()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.phone IS DISTINCT FROM OLD.phone
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at THEN
+    IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'CONTACT_CHANGE_NOT_ALLOWED';
+    END IF;
+  END IF;
+
+  -- A number set without a fresh verification starts out unverified
+  IF NEW.phone IS DISTINCT FROM OLD.phone AND NEW.phone_verified_at IS NOT DISTINCT FROM OLD.phone_verified_at THEN
+    NEW.phone_verified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_contact
+  BEFORE UPDATE OF phone, email, phone_verified_at ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_contact();
+
+-- SMS codes, stored as keyed hashes. `phone` is where the code was sent: the
+-- number being verified for verify_phone, the verified number otherwise.
+CREATE TABLE public.phone_otps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  purpose text NOT NULL CHECK (purpose IN ('verify_phone', 'change_email', 'reset_pin', 'new_device')),
+  otp_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamp with time zone NOT NULL,
+  used_at timestamp with time zone,
+  invalidated_at timestamp with time zone,
+  ip_address text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_phone_otps_user ON public.phone_otps (user_id, purpose, created_at DESC);
+CREATE INDEX idx_phone_otps_phone ON public.phone_otps (phone, created_at);
+CREATE INDEX idx_phone_otps_ip ON public.phone_otps (ip_address, created_at);
+
+-- Only the phone-otp edge function (service role) uses this table
+ALTER TABLE public.phone_otps ENABLE ROW LEVEL SECURITY;
+
+-- Devices where the user confirmed a code sent to their verified phone
+CREATE TABLE public.trusted_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id text NOT NULL,
+  device_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_seen_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, device_id)
+);
+
+ALTER TABLE public.trusted_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trusted devices"
+ON public.trusted_devices FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own trusted devices"
+ON public.trusted_devices FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Store a new code and retire any earlier one for the same purpose, or raise
+-- when the user, number or caller IP has asked too often: one code a minute
+-- and five an hour per user, five an hour per number, twenty an hour per IP
+CREATE OR REPLACE FUNCTION public.issue_phone_otp(
+  p_user_id uuid,
+  p_phone text,
+  p_purpose text,
+  p_otp_hash text,
+  p_expires_at timestamp with time zone,
+  p_ip_address text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('phone_otp_send:' || p_user_id));
+
+  IF EXISTS (
+    SELECT 1 FROM public.phone_otps
+    WHERE user_id = p_user_id AND created_at > now() - interval '1 minute'
+  ) THEN
+    RAISE EXCEPTION 'OTP_SEND_TOO_SOON';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.phone_otps
+    WHERE user_id = p_user_id AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'OTP_SEND_LIMIT_USER';
+  END IF;
+
+  -- Stops several accounts from flooding one number
+  IF (
+    SELECT count(*) FROM public.phone_otps
+    WHERE phone = p_phone AND created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'OTP_SEND_LIMIT_PHONE';
+  END IF;
+
+  IF p_ip_address IS NOT NULL AND (
+    SELECT count(*) FROM public.phone_otps
+    WHERE ip_address = p_ip_address AND created_at > now() - interval '1 hour'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'OTP_SEND_LIMIT_IP';
+  END IF;
+
+  UPDATE public.phone_otps
+  SET invalidated_at = now()
+  WHERE user_id = p_user_id AND purpose = p_purpose AND used_at IS NULL AND invalidated_at IS NULL;
+
+  INSERT INTO public.phone_otps (user_id, phone, purpose, otp_hash, expires_at, ip_address)
+  VALUES (p_user_id, p_phone, p_purpose, p_otp_hash, p_expires_at, p_ip_address)
+  RETURNING id INTO v_id;
+
+  -- Nothing older than the longest window is ever counted, and numbers are
+  -- not kept longer than needed
+  DELETE FROM public.phone_otps WHERE created_at < now() - interval '1 day';
+
+  RETURN v_id;
+END;
+$$;
+
+-- Take one guess at the user's current code for a purpose. Every call counts;
+-- the caller marks the code used when the guess matches. After five misses the
+-- code is retired and a new one has to be requested.
+CREATE OR REPLACE FUNCTION public.claim_phone_otp_attempt(
+  p_user_id uuid,
+  p_purpose text
+)
+RETURNS TABLE (
+  otp_id uuid,
+  phone text,
+  otp_hash text,
+  attempts_remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_otp public.phone_otps%ROWTYPE;
+  v_max_attempts integer := 5;
+BEGIN
+  SELECT * INTO v_otp
+  FROM public.phone_otps o
+  WHERE o.user_id = p_user_id
+    AND o.purpose = p_purpose
+    AND o.used_at IS NULL
+    AND o.invalidated_at IS NULL
+    AND o.expires_at > now()
+  ORDER BY o.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OTP_NOT_FOUND';
+  END IF;
+
+  IF v_otp.failed_attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'OTP_TOO_MANY_ATTEMPTS';
+  END IF;
+
+  v_otp.failed_attempts := v_otp.failed_attempts + 1;
+
+  UPDATE public.phone_otps
+  SET failed_attempts = v_otp.failed_attempts
+  WHERE id = v_otp.id;
+
+  RETURN QUERY SELECT v_otp.id, v_otp.phone, v_otp.otp_hash, v_max_attempts - v_otp.failed_attempts;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_phone_otp(uuid, text, text, text, timestamp with time zone, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_phone_otp_attempt(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Lower limits until the sender has verified their phone
+ALTER TABLE public.transfer_settings
+  ADD COLUMN unverified_max_amount numeric NOT NULL DEFAULT 5000,
+  ADD COLUMN unverified_daily_limit numeric NOT NULL DEFAULT 10000;
+
+CREATE OR REPLACE FUNCTION public.transfer_wallet_funds(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_sender_description text,
+  p_recipient_description text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings public.transfer_settings%ROWTYPE;
+  v_phone_verified boolean;
+  v_wallet_count integer;
+  v_sent_today numeric;
+  v_debit_id uuid;
+  v_credit_id uuid;
+BEGIN
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'SELF_TRANSFER';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT phone_verified_at IS NOT NULL INTO v_phone_verified
+  FROM public.profiles
+  WHERE user_id = p_sender_id;
+
+  SELECT * INTO v_settings FROM public.transfer_settings LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT v_settings.is_enabled THEN
+      RAISE EXCEPTION 'TRANSFERS_DISABLED';
+    END IF;
+    IF p_amount < v_settings.min_amount THEN
+      RAISE EXCEPTION 'AMOUNT_BELOW_MINIMUM';
+    END IF;
+    IF p_amount > v_settings.max_amount THEN
+      RAISE EXCEPTION 'AMOUNT_ABOVE_MAXIMUM';
+    END IF;
+    IF NOT COALESCE(v_phone_verified, false) AND p_amount > v_settings.unverified_max_amount THEN
+      RAISE EXCEPTION 'UNVERIFIED_AMOUNT_LIMIT';
+    END IF;
+  END IF;
+
+  -- Lock both wallets in a stable order
+  WITH locked AS (
+    SELECT user_id
+    FROM public.wallets
+    WHERE user_id IN (p_sender_id, p_recipient_id)
+    ORDER BY user_id
+    FOR UPDATE
+  )
+  SELECT count(*) INTO v_wallet_count FROM locked;
+
+  IF v_wallet_count < 2 THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF v_settings.id IS NOT NULL THEN
+    v_sent_today := public.get_transfer_total_today(p_sender_id);
+    IF v_sent_today + p_amount > v_settings.daily_limit THEN
+      RAISE EXCEPTION 'DAILY_LIMIT_EXCEEDED';
+    END IF;
+    IF NOT COALESCE(v_phone_verified, false) AND v_sent_today + p_amount > v_settings.unverified_daily_limit THEN
+      RAISE EXCEPTION 'UNVERIFIED_DAILY_LIMIT';
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_sender_id, 'debit', 'transfer', p_amount, p_sender_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'outgoing', 'counterparty_user_id', p_recipient_id))
+  RETURNING id INTO v_debit_id;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_recipient_id, 'credit', 'transfer', p_amount, p_recipient_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'incoming', 'counterparty_user_id', p_sender_id))
+  RETURNING id INTO v_credit_id;
+
+  PERFORM public.post_wallet_journal(p_sender_id, 'debit', p_amount, 'transfers', v_debit_id, p_reference, p_sender_description);
+  PERFORM public.post_wallet_journal(p_recipient_id, 'credit', p_amount, 'transfers', v_credit_id, p_reference, p_recipient_description);
+
+  RETURN jsonb_build_object(
+    'sender_balance', (SELECT balance FROM public.wallets WHERE user_id = p_sender_id),
+    'recipient_balance', (SELECT balance FROM public.wallets WHERE user_id = p_recipient_id),
+    'debit_transaction_id', v_debit_id,
+    'credit_transaction_id', v_credit_id
+  );
+END;
+$$;
@@ -0,0 +1,332 @@
+-- BVN/NIN identity verification. Each verified ID raises the user's KYC
+-- level by one (0 = none, 1 = BVN or NIN, 2 = both), and the level sets the
+-- maximum wallet balance, the daily spend and whether transfers are allowed.
+
+CREATE TABLE public.kyc_levels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  level integer NOT NULL UNIQUE CHECK (level BETWEEN 0 AND 2),
+  name text NOT NULL,
+  max_balance numeric NOT NULL,
+  daily_spend_limit numeric NOT NULL,
+  can_transfer boolean NOT NULL DEFAULT false,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.kyc_levels (level, name, max_balance, daily_spend_limit, can_transfer) VALUES
+  (0, 'Unverified', 50000, 20000, false),
+  (1, 'Verified', 300000, 100000, true),
+  (2, 'Fully Verified', 5000000, 1000000, true);
+
+ALTER TABLE public.kyc_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view KYC levels"
+ON public.kyc_levels FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update KYC levels"
+ON public.kyc_levels FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_kyc_levels
+AFTER INSERT OR UPDATE OR DELETE ON public.kyc_levels
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('kyc_level');
+
+ALTER TABLE public.profiles
+  ADD COLUMN kyc_level integer NOT NULL DEFAULT 0 REFERENCES public.kyc_levels(level),
+  ADD COLUMN date_of_birth date,
+  ADD COLUMN virtual_account_bvn_linked_at timestamp with time zone;
+
+-- The level, the date of birth it was checked against and the BVN link are
+-- only ever set by the verify-identity function
+CREATE OR REPLACE FUNCTION public.protect_profile_kyc()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kyc_level IS DISTINCT FROM OLD.kyc_level
+    OR NEW.date_of_birth IS DISTINCT FROM OLD.date_of_birth
+    OR NEW.virtual_account_bvn_linked_at IS DISTINCT FROM OLD.virtual_account_bvn_linked_at THEN
+    IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'KYC_CHANGE_NOT_ALLOWED';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_kyc
+  BEFORE UPDATE OF kyc_level, date_of_birth, virtual_account_bvn_linked_at ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_kyc();
+
+-- Every lookup made against the KYC provider, successful or not. ID numbers
+-- are kept as a keyed hash (to stop one identity verifying several accounts)
+-- plus a masked copy for display.
+CREATE TABLE public.kyc_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id_type text NOT NULL CHECK (id_type IN ('bvn', 'nin')),
+  id_number_hash text NOT NULL,
+  id_number_masked text NOT NULL,
+  provider text NOT NULL,
+  provider_reference text,
+  status text NOT NULL CHECK (status IN ('verified', 'mismatch', 'not_found', 'failed')),
+  name_matched boolean,
+  dob_matched boolean,
+  returned_name text,
+  returned_dob date,
+  failure_reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_kyc_verifications_user ON public.kyc_verifications (user_id, created_at DESC);
+CREATE UNIQUE INDEX idx_kyc_verifications_verified_user ON public.kyc_verifications (user_id, id_type) WHERE status = 'verified';
+CREATE UNIQUE INDEX idx_kyc_verifications_verified_id ON public.kyc_verifications (id_type, id_number_hash) WHERE status = 'verified';
+
+ALTER TABLE public.kyc_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own KYC verifications"
+ON public.kyc_verifications FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view KYC verifications"
+ON public.kyc_verifications FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Set the user's level from their verified IDs and return it
+CREATE OR REPLACE FUNCTION public.refresh_kyc_level(
+  p_user_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_level integer;
+BEGIN
+  SELECT LEAST(count(DISTINCT id_type), 2) INTO v_level
+  FROM public.kyc_verifications
+  WHERE user_id = p_user_id
+    AND status = 'verified';
+
+  UPDATE public.profiles
+  SET kyc_level = v_level
+  WHERE user_id = p_user_id;
+
+  RETURN v_level;
+END;
+$$;
+
+-- Purchases and transfers a user has made today (Lagos time), excluding failed ones
+CREATE OR REPLACE FUNCTION public.get_spend_total_today(
+  p_user_id uuid
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.transactions
+  WHERE user_id = p_user_id
+    AND type = 'debit'
+    AND category IN ('airtime', 'data', 'electricity', 'tv', 'cable', 'exam', 'transfer')
+    AND status <> 'failed'
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Africa/Lagos') AT TIME ZONE 'Africa/Lagos');
+$$;
+
+-- Raise KYC_DAILY_SPEND_LIMIT if spending p_amount more today would pass the
+-- user's level. Callers must already hold the wallet lock so two debits
+-- cannot both squeeze under the limit.
+CREATE OR REPLACE FUNCTION public.assert_kyc_daily_spend(
+  p_user_id uuid,
+  p_amount numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_limit numeric;
+BEGIN
+  SELECT l.daily_spend_limit INTO v_limit
+  FROM public.profiles p
+  JOIN public.kyc_levels l ON l.level = p.kyc_level
+  WHERE p.user_id = p_user_id;
+
+  IF v_limit IS NOT NULL AND public.get_spend_total_today(p_user_id) + p_amount > v_limit THEN
+    RAISE EXCEPTION 'KYC_DAILY_SPEND_LIMIT';
+  END IF;
+END;
+$$;
+
+-- Purchases now count against the KYC daily spend
+CREATE OR REPLACE FUNCTION public.debit_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_category public.transaction_category,
+  p_description text,
+  p_reference text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_contra_account text DEFAULT 'sales',
+  p_status public.transaction_status DEFAULT 'pending'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_transaction_id uuid;
+  v_entry_id uuid;
+BEGIN
+  IF p_category IN ('airtime', 'data', 'electricity', 'tv', 'cable', 'exam') THEN
+    PERFORM 1 FROM public.wallets WHERE user_id = p_user_id FOR UPDATE;
+    PERFORM public.assert_kyc_daily_spend(p_user_id, p_amount);
+  END IF;
+
+  BEGIN
+    INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+    VALUES (p_user_id, 'debit', p_category, p_amount, p_description, p_status, p_reference, p_metadata)
+    RETURNING id INTO v_transaction_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END;
+
+  v_entry_id := public.post_wallet_journal(p_user_id, 'debit', p_amount, p_contra_account, v_transaction_id, p_reference, p_description);
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'entry_id', v_entry_id,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = p_user_id)
+  );
+END;
+$$;
+
+-- Transfers need a level that allows them, count against the sender's daily
+-- spend, and may not take the recipient past their maximum balance
+CREATE OR REPLACE FUNCTION public.transfer_wallet_funds(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_sender_description text,
+  p_recipient_description text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings public.transfer_settings%ROWTYPE;
+  v_phone_verified boolean;
+  v_can_transfer boolean;
+  v_recipient_max_balance numeric;
+  v_wallet_count integer;
+  v_sent_today numeric;
+  v_debit_id uuid;
+  v_credit_id uuid;
+BEGIN
+  IF p_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'SELF_TRANSFER';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT p.phone_verified_at IS NOT NULL, l.can_transfer INTO v_phone_verified, v_can_transfer
+  FROM public.profiles p
+  JOIN public.kyc_levels l ON l.level = p.kyc_level
+  WHERE p.user_id = p_sender_id;
+
+  IF NOT COALESCE(v_can_transfer, false) THEN
+    RAISE EXCEPTION 'KYC_TRANSFERS_NOT_ALLOWED';
+  END IF;
+
+  SELECT l.max_balance INTO v_recipient_max_balance
+  FROM public.profiles p
+  JOIN public.kyc_levels l ON l.level = p.kyc_level
+  WHERE p.user_id = p_recipient_id;
+
+  SELECT * INTO v_settings FROM public.transfer_settings LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT v_settings.is_enabled THEN
+      RAISE EXCEPTION 'TRANSFERS_DISABLED';
+    END IF;
+    IF p_amount < v_settings.min_amount THEN
+      RAISE EXCEPTION 'AMOUNT_BELOW_MINIMUM';
+    END IF;
+    IF p_amount > v_settings.max_amount THEN
+      RAISE EXCEPTION 'AMOUNT_ABOVE_MAXIMUM';
+    END IF;
+    IF NOT COALESCE(v_phone_verified, false) AND p_amount > v_settings.unverified_max_amount THEN
+      RAISE EXCEPTION 'UNVERIFIED_AMOUNT_LIMIT';
+    END IF;
+  END IF;
+
+  -- Lock both wallets in a stable order
+  WITH locked AS (
+    SELECT user_id
+    FROM public.wallets
+    WHERE user_id IN (p_sender_id, p_recipient_id)
+    ORDER BY user_id
+    FOR UPDATE
+  )
+  SELECT count(*) INTO v_wallet_count FROM locked;
+
+  IF v_wallet_count < 2 THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF v_settings.id IS NOT NULL THEN
+    v_sent_today := public.get_transfer_total_today(p_sender_id);
+    IF v_sent_today + p_amount > v_settings.daily_limit THEN
+      RAISE EXCEPTION 'DAILY_LIMIT_EXCEEDED';
+    END IF;
+    IF NOT COALESCE(v_phone_verified, false) AND v_sent_today + p_amount > v_settings.unverified_daily_limit THEN
+      RAISE EXCEPTION 'UNVERIFIED_DAILY_LIMIT';
+    END IF;
+  END IF;
+
+  PERFORM public.assert_kyc_daily_spend(p_sender_id, p_amount);
+
+  IF v_recipient_max_balance IS NOT NULL
+    AND (SELECT balance FROM public.wallets WHERE user_id = p_recipient_id) + p_amount > v_recipient_max_balance THEN
+    RAISE EXCEPTION 'RECIPIENT_BALANCE_LIMIT';
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_sender_id, 'debit', 'transfer', p_amount, p_sender_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'outgoing', 'counterparty_user_id', p_recipient_id))
+  RETURNING id INTO v_debit_id;
+
+  INSERT INTO public.transactions (user_id, type, category, amount, description, status, reference, metadata)
+  VALUES (p_recipient_id, 'credit', 'transfer', p_amount, p_recipient_description, 'completed', p_reference,
+    p_metadata || jsonb_build_object('direction', 'incoming', 'counterparty_user_id', p_sender_id))
+  RETURNING id INTO v_credit_id;
+
+  PERFORM public.post_wallet_journal(p_sender_id, 'debit', p_amount, 'transfers', v_debit_id, p_reference, p_sender_description);
+  PERFORM public.post_wallet_journal(p_recipient_id, 'credit', p_amount, 'transfers', v_credit_id, p_reference, p_recipient_description);
+
+  RETURN jsonb_build_object(
+    'sender_balance', (SELECT balance FROM public.wallets WHERE user_id = p_sender_id),
+    'recipient_balance', (SELECT balance FROM public.wallets WHERE user_id = p_recipient_id),
+    'debit_transaction_id', v_debit_id,
+    'credit_transaction_id', v_credit_id
+  );
+END;
+$$;
+
+-- Only edge functions (service role) may call these
+REVOKE EXECUTE ON FUNCTION public.refresh_kyc_level(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_spend_total_today(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assert_kyc_daily_spend(uuid, numeric) FROM PUBLIC, anon, authenticated;
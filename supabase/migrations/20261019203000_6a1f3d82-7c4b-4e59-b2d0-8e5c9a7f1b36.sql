@@ -0,0 +1,289 @@
+-- Airtime to cash
+--
+-- Users send airtime to one of our numbers, then submit a request with the
+-- sending number and an optional screenshot. Staff check the airtime arrived
+-- and approve, which credits the wallet at the network's rate through the
+-- ledger (contra account 'airtime_cash').
+
+ALTER TYPE public.transaction_category ADD VALUE IF NOT EXISTS 'airtime_to_cash';
+
+-- One row per network: what we pay per ₦100 of airtime and where to send it
+CREATE TABLE public.airtime_cash_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  network text NOT NULL UNIQUE CHECK (network IN ('mtn', 'airtel', 'glo', '9mobile')),
+  rate_percent numeric(5, 2) NOT NULL CHECK (rate_percent > 0 AND rate_percent <= 100),
+  receiving_number text,
+  min_amount numeric NOT NULL DEFAULT 1000 CHECK (min_amount > 0),
+  max_amount numeric NOT NULL DEFAULT 50000,
+  is_enabled boolean NOT NULL DEFAULT false,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id),
+  CHECK (max_amount >= min_amount)
+);
+
+-- Networks stay off until an admin sets the number to receive on
+INSERT INTO public.airtime_cash_rates (network, rate_percent) VALUES
+  ('mtn', 80),
+  ('airtel', 78),
+  ('glo', 70),
+  ('9mobile', 70);
+
+ALTER TABLE public.airtime_cash_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view airtime cash rates"
+ON public.airtime_cash_rates FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update airtime cash rates"
+ON public.airtime_cash_rates FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TABLE public.airtime_cash_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  is_enabled boolean NOT NULL DEFAULT true,
+  -- Airtime value a user may submit per day (Lagos time), across all networks
+  daily_limit numeric NOT NULL DEFAULT 50000 CHECK (daily_limit > 0),
+  max_pending integer NOT NULL DEFAULT 3 CHECK (max_pending > 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+INSERT INTO public.airtime_cash_settings (is_enabled, daily_limit, max_pending)
+VALUES (true, 50000, 3);
+
+ALTER TABLE public.airtime_cash_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view airtime cash settings"
+ON public.airtime_cash_settings FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update airtime cash settings"
+ON public.airtime_cash_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER audit_airtime_cash_rates
+AFTER INSERT OR UPDATE OR DELETE ON public.airtime_cash_rates
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('airtime_cash_rate');
+
+CREATE TRIGGER audit_airtime_cash_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.airtime_cash_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('airtime_cash_setting');
+
+-- Rate and receiving number are copied at submission, so later rate changes
+-- never alter what a waiting request pays
+CREATE TABLE public.airtime_cash_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  network text NOT NULL,
+  amount numeric(15, 2) NOT NULL CHECK (amount > 0),
+  rate_percent numeric(5, 2) NOT NULL,
+  payout_amount numeric(15, 2) NOT NULL,
+  receiving_number text NOT NULL,
+  sender_phone text NOT NULL,
+  proof_path text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  amount_received numeric(15, 2),
+  transaction_id uuid REFERENCES public.transactions(id),
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamp with time zone,
+  review_note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_airtime_cash_requests_user ON public.airtime_cash_requests (user_id, created_at DESC);
+CREATE INDEX idx_airtime_cash_requests_status ON public.airtime_cash_requests (status, created_at);
+
+ALTER TABLE public.airtime_cash_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and reviewed through edge functions only
+CREATE POLICY "Users can view their own airtime cash requests"
+ON public.airtime_cash_requests FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view airtime cash requests"
+ON public.airtime_cash_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_airtime_cash_requests_updated_at
+BEFORE UPDATE ON public.airtime_cash_requests
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Proof screenshots live under a folder named after the uploader's user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('airtime-cash-proofs', 'airtime-cash-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own airtime cash proofs"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'airtime-cash-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own airtime cash proofs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'airtime-cash-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can view airtime cash proofs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'airtime-cash-proofs' AND has_role(auth.uid(), 'admin'::app_role));
+
+-- Airtime value a user has submitted today (Lagos time), excluding rejected requests
+CREATE OR REPLACE FUNCTION public.get_airtime_cash_total_today(
+  p_user_id uuid
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.airtime_cash_requests
+  WHERE user_id = p_user_id
+    AND status <> 'rejected'
+    AND created_at >= (date_trunc('day', now() AT TIME ZONE 'Africa/Lagos') AT TIME ZONE 'Africa/Lagos');
+$$;
+
+-- Check the network's limits and the user's daily cap, then record the request.
+-- A per-user advisory lock keeps two submissions from both fitting under the cap.
+CREATE OR REPLACE FUNCTION public.submit_airtime_cash_request(
+  p_user_id uuid,
+  p_network text,
+  p_amount numeric,
+  p_sender_phone text,
+  p_proof_path text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings public.airtime_cash_settings%ROWTYPE;
+  v_rate public.airtime_cash_rates%ROWTYPE;
+  v_pending integer;
+  v_request public.airtime_cash_requests%ROWTYPE;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.airtime_cash_settings LIMIT 1;
+  IF FOUND AND NOT v_settings.is_enabled THEN
+    RAISE EXCEPTION 'AIRTIME_CASH_DISABLED';
+  END IF;
+
+  SELECT * INTO v_rate FROM public.airtime_cash_rates WHERE network = p_network;
+  IF NOT FOUND OR NOT v_rate.is_enabled OR v_rate.receiving_number IS NULL THEN
+    RAISE EXCEPTION 'NETWORK_UNAVAILABLE';
+  END IF;
+  IF p_amount < v_rate.min_amount THEN
+    RAISE EXCEPTION 'AMOUNT_BELOW_MINIMUM';
+  END IF;
+  IF p_amount > v_rate.max_amount THEN
+    RAISE EXCEPTION 'AMOUNT_ABOVE_MAXIMUM';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('airtime_cash:' || p_user_id::text));
+
+  IF v_settings.id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_pending
+    FROM public.airtime_cash_requests
+    WHERE user_id = p_user_id AND status = 'pending';
+
+    IF v_pending >= v_settings.max_pending THEN
+      RAISE EXCEPTION 'TOO_MANY_PENDING';
+    END IF;
+
+    IF public.get_airtime_cash_total_today(p_user_id) + p_amount > v_settings.daily_limit THEN
+      RAISE EXCEPTION 'DAILY_LIMIT_EXCEEDED';
+    END IF;
+  END IF;
+
+  INSERT INTO public.airtime_cash_requests (
+    user_id, network, amount, rate_percent, payout_amount, receiving_number, sender_phone, proof_path
+  )
+  VALUES (
+    p_user_id, p_network, p_amount, v_rate.rate_percent, round(p_amount * v_rate.rate_percent / 100, 2),
+    v_rate.receiving_number, p_sender_phone, p_proof_path
+  )
+  RETURNING * INTO v_request;
+
+  RETURN to_jsonb(v_request);
+END;
+$$;
+
+-- Credit the wallet for a waiting request. Staff may enter a lower amount when
+-- less airtime arrived than was claimed; the payout follows what was received.
+CREATE OR REPLACE FUNCTION public.approve_airtime_cash_request(
+  p_request_id uuid,
+  p_reviewed_by uuid,
+  p_amount_received numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_request public.airtime_cash_requests%ROWTYPE;
+  v_received numeric;
+  v_payout numeric;
+  v_credit jsonb;
+BEGIN
+  SELECT * INTO v_request FROM public.airtime_cash_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REQUEST_NOT_FOUND';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'REQUEST_NOT_PENDING';
+  END IF;
+
+  v_received := COALESCE(p_amount_received, v_request.amount);
+  IF v_received <= 0 OR v_received > v_request.amount THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  v_payout := round(v_received * v_request.rate_percent / 100, 2);
+
+  v_credit := public.credit_wallet(
+    v_request.user_id,
+    v_payout,
+    'airtime_to_cash',
+    'Airtime to cash: ₦' || to_char(v_received, 'FM999,999,990') || ' ' || upper(v_request.network),
+    'A2C-' || v_request.id,
+    jsonb_build_object(
+      'airtime_cash_request_id', v_request.id,
+      'network', v_request.network,
+      'amount_received', v_received,
+      'rate_percent', v_request.rate_percent
+    ),
+    'airtime_cash'
+  );
+
+  UPDATE public.airtime_cash_requests
+  SET status = 'approved',
+      amount_received = v_received,
+      payout_amount = v_payout,
+      transaction_id = (v_credit->>'transaction_id')::uuid,
+      reviewed_by = p_reviewed_by,
+      reviewed_at = now(),
+      review_note = p_note
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'user_id', v_request.user_id,
+    'network', v_request.network,
+    'amount', v_request.amount,
+    'amount_received', v_received,
+    'payout_amount', v_payout,
+    'transaction_id', v_credit->>'transaction_id',
+    'balance', v_credit->'balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_airtime_cash_total_today(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_airtime_cash_request(uuid, text, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approve_airtime_cash_request(uuid, uuid, numeric, text) FROM PUBLIC, anon, authenticated;
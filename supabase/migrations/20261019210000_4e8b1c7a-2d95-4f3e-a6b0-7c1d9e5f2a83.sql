@@ -0,0 +1,51 @@
+-- Refund and fail a pending purchase in one step
+--
+-- Settling used to mark the purchase failed and then refund it as a second
+-- call. A refund error left a failed, unrefunded purchase that nothing would
+-- look at again. Both now happen in one database transaction: if the refund
+-- fails, the purchase stays pending and the next webhook or requery retries it.
+
+-- settled is false when the purchase was no longer pending, i.e. settled elsewhere
+CREATE OR REPLACE FUNCTION public.fail_pending_transaction(
+  p_transaction_id uuid,
+  p_metadata jsonb,
+  p_description text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_status public.transaction_status;
+  v_refund jsonb;
+BEGIN
+  SELECT status INTO v_status FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+  IF v_status <> 'pending' THEN
+    RETURN jsonb_build_object('settled', false);
+  END IF;
+
+  v_refund := public.reverse_transaction(p_transaction_id, p_description);
+
+  UPDATE public.transactions
+  SET status = 'failed', metadata = p_metadata
+  WHERE id = p_transaction_id;
+
+  RETURN jsonb_build_object(
+    'settled', true,
+    'refunded_amount', v_refund->'reversed_amount',
+    'balance', v_refund->'balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_pending_transaction(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- A purchase the provider never confirms is failed and refunded once it has
+-- been pending this long, instead of staying pending forever
+ALTER TABLE public.requery_settings
+ADD COLUMN max_age_hours integer NOT NULL DEFAULT 48 CHECK (max_age_hours > 0);
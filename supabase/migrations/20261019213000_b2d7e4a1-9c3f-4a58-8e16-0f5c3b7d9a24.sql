@@ -0,0 +1,14 @@
+-- An IP allowlist is no longer enough on its own to accept a provider
+-- callback: source addresses can be forged through X-Forwarded-For. The
+-- allowlist still applies on top of the token or signature check.
+--   shared_secret: the secret in an X-Callback-Token header, or for providers
+--                  that can only be given a URL, ?sig= carrying an HMAC of
+--                  the order reference (the secret itself is never in a URL)
+--   signature:     hex HMAC-SHA256 of the raw body in callback_signature_header
+UPDATE public.api_providers
+SET callback_auth = 'shared_secret'
+WHERE callback_auth = 'ip_allowlist';
+
+ALTER TABLE public.api_providers DROP CONSTRAINT IF EXISTS api_providers_callback_auth_check;
+ALTER TABLE public.api_providers
+  ADD CONSTRAINT api_providers_callback_auth_check CHECK (callback_auth IN ('shared_secret', 'signature'));
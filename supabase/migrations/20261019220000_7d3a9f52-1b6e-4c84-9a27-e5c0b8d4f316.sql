@@ -0,0 +1,98 @@
+-- KYC grace period for customers who signed up before levels were enforced
+--
+-- Every profile started on level 0 when KYC levels shipped, which would take
+-- transfers away from existing customers and cap their purchases overnight.
+-- Existing customers keep the top level until kyc_grace_until, which gives
+-- them time to verify a BVN or NIN; after that a daily job drops them to the
+-- level their verified IDs earn.
+
+ALTER TABLE public.profiles
+  ADD COLUMN kyc_grace_until timestamp with time zone;
+
+UPDATE public.profiles
+SET kyc_level = 2,
+    kyc_grace_until = now() + interval '90 days'
+WHERE kyc_level < 2;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_kyc()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kyc_level IS DISTINCT FROM OLD.kyc_level
+    OR NEW.kyc_grace_until IS DISTINCT FROM OLD.kyc_grace_until
+    OR NEW.date_of_birth IS DISTINCT FROM OLD.date_of_birth
+    OR NEW.virtual_account_bvn_linked_at IS DISTINCT FROM OLD.virtual_account_bvn_linked_at THEN
+    IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'KYC_CHANGE_NOT_ALLOWED';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profiles_kyc ON public.profiles;
+CREATE TRIGGER protect_profiles_kyc
+  BEFORE UPDATE OF kyc_level, kyc_grace_until, date_of_birth, virtual_account_bvn_linked_at ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_kyc();
+
+-- Verified IDs earn a level; a running grace period keeps the top one
+CREATE OR REPLACE FUNCTION public.refresh_kyc_level(
+  p_user_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_level integer;
+BEGIN
+  SELECT LEAST(count(DISTINCT id_type), 2) INTO v_level
+  FROM public.kyc_verifications
+  WHERE user_id = p_user_id
+    AND status = 'verified';
+
+  UPDATE public.profiles
+  SET kyc_level = CASE WHEN kyc_grace_until > now() THEN 2 ELSE v_level END
+  WHERE user_id = p_user_id
+  RETURNING kyc_level INTO v_level;
+
+  RETURN v_level;
+END;
+$$;
+
+-- Drop customers whose grace period has run out to their verified level
+CREATE OR REPLACE FUNCTION public.expire_kyc_grace_periods()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.profiles p
+  SET kyc_grace_until = NULL,
+      kyc_level = (
+        SELECT LEAST(count(DISTINCT v.id_type), 2)
+        FROM public.kyc_verifications v
+        WHERE v.user_id = p.user_id
+          AND v.status = 'verified'
+      )
+  WHERE p.kyc_grace_until <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_kyc_grace_periods() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-kyc-grace-periods',
+  '15 0 * * *',
+  $$SELECT public.expire_kyc_grace_periods()$$
+);
@@ -0,0 +1,164 @@
+-- Atomic reversal requests and partial reversals
+--
+-- A reversal that needed no approval was inserted and then applied as a
+-- second call. When the apply failed (e.g. the user's balance was too low to
+-- take a credit back) the request stayed behind as pending_approval and
+-- blocked any new request for the transaction. Inserting and applying now
+-- happen in one database transaction.
+--
+-- A partial reversal also marked the whole transaction 'reversed'. Now only
+-- a reversal that leaves nothing to reverse does; a partial one keeps the
+-- status and adds to metadata.reversed_amount, and the rest can be reversed
+-- by a later request.
+
+-- Only one reversal may be waiting per transaction; completed partial
+-- reversals no longer block the next one
+DROP INDEX IF EXISTS public.idx_transaction_reversals_one_per_transaction;
+
+CREATE UNIQUE INDEX idx_transaction_reversals_one_waiting_per_transaction
+ON public.transaction_reversals (transaction_id)
+WHERE status = 'pending_approval';
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_reversal(
+  p_reversal_id uuid,
+  p_reviewed_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reversal public.transaction_reversals%ROWTYPE;
+  v_tx public.transactions%ROWTYPE;
+  v_entry record;
+  v_left numeric;
+  v_take numeric;
+  v_total numeric;
+  v_full boolean;
+BEGIN
+  SELECT * INTO v_reversal FROM public.transaction_reversals WHERE id = p_reversal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REVERSAL_NOT_FOUND';
+  END IF;
+  IF v_reversal.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'REVERSAL_NOT_PENDING';
+  END IF;
+  IF p_reviewed_by IS NOT NULL AND p_reviewed_by = v_reversal.requested_by THEN
+    RAISE EXCEPTION 'SAME_ADMIN';
+  END IF;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = v_reversal.transaction_id FOR UPDATE;
+
+  PERFORM 1 FROM public.wallets WHERE user_id = v_tx.user_id FOR UPDATE;
+
+  v_left := v_reversal.amount;
+  FOR v_entry IN
+    SELECT l.id, l.amount - COALESCE((
+      SELECT SUM(r.amount) FROM public.wallet_ledger r WHERE r.reverses_entry_id = l.id
+    ), 0) AS remaining
+    FROM public.wallet_ledger l
+    WHERE l.transaction_id = v_tx.id
+      AND l.account = 'wallet'
+      AND l.reverses_entry_id IS NULL
+      AND l.entry_type = v_tx.type
+    ORDER BY l.created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_entry.remaining);
+    IF v_take > 0 THEN
+      PERFORM public.reverse_entry(v_entry.id, v_take, 'Reversal: ' || v_tx.description);
+      v_left := v_left - v_take;
+    END IF;
+  END LOOP;
+
+  -- Something else reversed part of it since the request was made
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'REVERSAL_EXCEEDS_ORIGINAL';
+  END IF;
+
+  UPDATE public.transaction_reversals
+  SET status = 'completed',
+      reviewed_by = p_reviewed_by,
+      reviewed_at = CASE WHEN p_reviewed_by IS NOT NULL THEN now() END,
+      completed_at = now()
+  WHERE id = v_reversal.id;
+
+  v_total := COALESCE((v_tx.metadata->>'reversed_amount')::numeric, 0) + v_reversal.amount;
+  v_full := public.transaction_reversible_amount(v_tx.id) <= 0;
+
+  IF v_full THEN
+    UPDATE public.transactions
+    SET status = 'reversed',
+        metadata = (COALESCE(metadata, '{}'::jsonb) - 'partially_reversed') || jsonb_build_object(
+          'reversal_id', v_reversal.id,
+          'reversed_amount', v_total,
+          'reversal_reason', v_reversal.reason_code,
+          'status_before_reversal', v_tx.status
+        )
+    WHERE id = v_tx.id;
+  ELSE
+    UPDATE public.transactions
+    SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+          'reversal_id', v_reversal.id,
+          'reversed_amount', v_total,
+          'reversal_reason', v_reversal.reason_code,
+          'partially_reversed', true
+        )
+    WHERE id = v_tx.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_id', v_tx.user_id,
+    'transaction_id', v_tx.id,
+    'transaction_type', v_tx.type,
+    'description', v_tx.description,
+    'reversed_amount', v_reversal.amount,
+    'fully_reversed', v_full,
+    'balance', (SELECT balance FROM public.wallets WHERE user_id = v_tx.user_id)
+  );
+END;
+$$;
+
+-- Record a reversal request and, when it needs no approval, post it in the
+-- same transaction so a failed post leaves no request behind
+CREATE OR REPLACE FUNCTION public.request_transaction_reversal(
+  p_transaction_id uuid,
+  p_amount numeric,
+  p_is_full boolean,
+  p_reason_code text,
+  p_note text,
+  p_requested_by uuid,
+  p_apply boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reversal_id uuid;
+BEGIN
+  INSERT INTO public.transaction_reversals (
+    transaction_id, user_id, amount, is_full, reason_code, note, requested_by
+  )
+  SELECT id, user_id, p_amount, p_is_full, p_reason_code, p_note, p_requested_by
+  FROM public.transactions
+  WHERE id = p_transaction_id
+  RETURNING id INTO v_reversal_id;
+
+  IF v_reversal_id IS NULL THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  IF NOT p_apply THEN
+    RETURN jsonb_build_object('reversal_id', v_reversal_id, 'status', 'pending_approval');
+  END IF;
+
+  RETURN public.apply_transaction_reversal(v_reversal_id, NULL)
+    || jsonb_build_object('reversal_id', v_reversal_id, 'status', 'completed');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_transaction_reversal(uuid, numeric, boolean, text, text, uuid, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,11 @@
+-- Whether the customer accepted a bulk line as ported to the order's network.
+-- Only these lines skip the prefix check when they are bought; the rest must
+-- match the network like any single purchase.
+
+ALTER TABLE public.bulk_order_lines
+ADD COLUMN ported boolean NOT NULL DEFAULT false;
+
+-- Lines still waiting were accepted when every line was treated as ported
+UPDATE public.bulk_order_lines
+SET ported = true
+WHERE status IN ('queued', 'processing');
@@ -0,0 +1,12 @@
+-- Bind idempotency keys to the request they were claimed for, and let a key
+-- left 'processing' by a run that died be claimed again.
+--
+-- request_hash is a SHA-256 of the request body (without the PIN); reusing a
+-- key with a different body is refused instead of replaying the first
+-- response. claimed_at is when the current run took the key.
+
+ALTER TABLE public.idempotency_keys
+ADD COLUMN request_hash text,
+ADD COLUMN claimed_at timestamp with time zone NOT NULL DEFAULT now();
+
+UPDATE public.idempotency_keys SET claimed_at = created_at;
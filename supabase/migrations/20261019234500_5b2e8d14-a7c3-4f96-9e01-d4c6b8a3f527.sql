@@ -0,0 +1,4 @@
+-- Category for balances forfeited when an account is closed. Added on its
+-- own: a new enum value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.transaction_category ADD VALUE IF NOT EXISTS 'account_closure';
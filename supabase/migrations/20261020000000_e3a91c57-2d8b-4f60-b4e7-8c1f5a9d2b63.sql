@@ -0,0 +1,102 @@
+-- Forfeited balances get their own transaction category
+--
+-- Closing an account debited any balance the user agreed to forfeit as a
+-- 'transfer', so it showed up in transfer reports and the user's history as
+-- money sent to someone. It is now recorded as 'account_closure', and the
+-- closures already made are moved over.
+
+UPDATE public.transactions
+SET category = 'account_closure'
+WHERE category = 'transfer'
+  AND reference LIKE 'CLOSE-%'
+  AND metadata ? 'deletion_request_id';
+
+-- As before, except the forfeited balance is debited as 'account_closure'
+CREATE OR REPLACE FUNCTION public.close_deleted_account(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_request public.account_deletion_requests%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_request FROM public.account_deletion_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DELETION_NOT_FOUND';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'DELETION_NOT_PENDING';
+  END IF;
+
+  -- A purchase still waiting on its provider may yet be refunded to the wallet
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE user_id = v_request.user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'TRANSACTIONS_PENDING';
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = v_request.user_id FOR UPDATE;
+  v_balance := COALESCE(v_balance, 0);
+
+  IF v_balance > 0 THEN
+    IF NOT v_request.forfeit_acknowledged THEN
+      RAISE EXCEPTION 'BALANCE_REMAINING';
+    END IF;
+    PERFORM public.debit_wallet(
+      v_request.user_id,
+      v_balance,
+      'account_closure',
+      'Balance forfeited on account closure',
+      'CLOSE-' || v_request.id,
+      jsonb_build_object('deletion_request_id', v_request.id),
+      'forfeited_balances',
+      'completed'
+    );
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = 'Deleted user',
+      email = NULL,
+      phone = '',
+      avatar_url = NULL,
+      virtual_account_bank = NULL,
+      virtual_account_name = NULL,
+      virtual_account_number = NULL,
+      virtual_account_reference = NULL,
+      is_blocked = true
+  WHERE user_id = v_request.user_id;
+
+  DELETE FROM public.push_subscriptions WHERE user_id = v_request.user_id;
+  DELETE FROM public.notifications WHERE user_id = v_request.user_id;
+  DELETE FROM public.beneficiaries WHERE user_id = v_request.user_id;
+  DELETE FROM public.scheduled_purchases WHERE user_id = v_request.user_id;
+  DELETE FROM public.auto_topup_rules WHERE user_id = v_request.user_id;
+  DELETE FROM public.bulk_orders WHERE user_id = v_request.user_id;
+  DELETE FROM public.webhook_endpoints WHERE user_id = v_request.user_id;
+  DELETE FROM public.api_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.transaction_pins WHERE user_id = v_request.user_id;
+  DELETE FROM public.idempotency_keys WHERE user_id = v_request.user_id;
+
+  -- Keep amounts, categories and references; drop who and what was bought for
+  UPDATE public.transactions
+  SET description = regexp_replace(description, '\d{10,}', '[removed]', 'g'),
+      metadata = (COALESCE(metadata, '{}'::jsonb) - ARRAY[
+        'phone_number', 'phone', 'meter_number', 'smartcard_number', 'customer_name',
+        'customer_address', 'sender_name', 'recipient_name', 'narration', 'token', 'pins'
+      ]) || jsonb_build_object('anonymised', true)
+  WHERE user_id = v_request.user_id;
+
+  -- Five years, as required for transaction records by the CBN AML/CFT regulations
+  UPDATE public.account_deletion_requests
+  SET status = 'completed',
+      forfeited_amount = v_balance,
+      held_reason = NULL,
+      completed_at = now(),
+      retain_until = now() + interval '5 years'
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object('user_id', v_request.user_id, 'forfeited_amount', v_balance);
+END;
+$$;
+
@@ -0,0 +1,150 @@
+-- Remove the rest of a closed account's personal data
+--
+-- Closing an account left behind personal data that later features store:
+-- KYC results (the name and date of birth returned for the ID, and the ID
+-- hash, which also stopped the same person verifying a new account), the
+-- date of birth on the profile, phone OTPs, trusted devices, and the sender
+-- phone on airtime to cash requests. Transaction metadata kept the raw
+-- PaymentPoint payload and account numbers. All of these are now removed.
+--
+-- The request was also marked completed before the worker anonymised the
+-- auth user, so a failure there was never retried. closed_at now records
+-- that the database side is done, and the request is completed separately
+-- once the rest has succeeded.
+
+ALTER TABLE public.account_deletion_requests
+  ADD COLUMN closed_at timestamp with time zone;
+
+-- Anonymises everything the account holds and records that it was closed.
+-- The request stays pending until the worker has also anonymised the auth
+-- user and removed stored files; running this again for a closed account
+-- is harmless.
+CREATE OR REPLACE FUNCTION public.close_deleted_account(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_request public.account_deletion_requests%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_request FROM public.account_deletion_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DELETION_NOT_FOUND';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'DELETION_NOT_PENDING';
+  END IF;
+
+  -- A purchase still waiting on its provider may yet be refunded to the wallet
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE user_id = v_request.user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'TRANSACTIONS_PENDING';
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = v_request.user_id FOR UPDATE;
+  v_balance := COALESCE(v_balance, 0);
+
+  IF v_balance > 0 THEN
+    IF NOT v_request.forfeit_acknowledged THEN
+      RAISE EXCEPTION 'BALANCE_REMAINING';
+    END IF;
+    PERFORM public.debit_wallet(
+      v_request.user_id,
+      v_balance,
+      'account_closure',
+      'Balance forfeited on account closure',
+      'CLOSE-' || v_request.id,
+      jsonb_build_object('deletion_request_id', v_request.id),
+      'forfeited_balances',
+      'completed'
+    );
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = 'Deleted user',
+      email = NULL,
+      phone = '',
+      avatar_url = NULL,
+      virtual_account_bank = NULL,
+      virtual_account_name = NULL,
+      virtual_account_number = NULL,
+      virtual_account_reference = NULL,
+      date_of_birth = NULL,
+      is_blocked = true
+  WHERE user_id = v_request.user_id;
+
+  DELETE FROM public.push_subscriptions WHERE user_id = v_request.user_id;
+  DELETE FROM public.notifications WHERE user_id = v_request.user_id;
+  DELETE FROM public.beneficiaries WHERE user_id = v_request.user_id;
+  DELETE FROM public.scheduled_purchases WHERE user_id = v_request.user_id;
+  DELETE FROM public.auto_topup_rules WHERE user_id = v_request.user_id;
+  DELETE FROM public.bulk_orders WHERE user_id = v_request.user_id;
+  DELETE FROM public.webhook_endpoints WHERE user_id = v_request.user_id;
+  DELETE FROM public.api_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.transaction_pins WHERE user_id = v_request.user_id;
+  DELETE FROM public.idempotency_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.phone_otps WHERE user_id = v_request.user_id;
+  DELETE FROM public.trusted_devices WHERE user_id = v_request.user_id;
+
+  -- The outcome of each check is kept; the ID itself is freed so the person can verify a new account
+  UPDATE public.kyc_verifications
+  SET id_number_hash = 'removed:' || id,
+      returned_name = NULL,
+      returned_dob = NULL
+  WHERE user_id = v_request.user_id;
+
+  -- The screenshots themselves are removed from storage by the worker
+  UPDATE public.airtime_cash_requests
+  SET sender_phone = '',
+      proof_path = NULL
+  WHERE user_id = v_request.user_id;
+
+  -- Keep amounts, categories and references; drop who and what was bought for
+  UPDATE public.transactions
+  SET description = regexp_replace(description, '\d{10,}', '[removed]', 'g'),
+      metadata = (COALESCE(metadata, '{}'::jsonb) - ARRAY[
+        'phone_number', 'phone', 'meter_number', 'smartcard_number', 'customer_name',
+        'customer_address', 'sender_name', 'recipient_name', 'narration', 'token', 'pins',
+        'raw', 'sender_account', 'recipient_account', 'receiver_account_number'
+      ]) || jsonb_build_object('anonymised', true)
+  WHERE user_id = v_request.user_id;
+
+  -- Forfeiture happens on the first run only; a retry finds the wallet empty
+  UPDATE public.account_deletion_requests
+  SET forfeited_amount = COALESCE(forfeited_amount, 0) + v_balance,
+      held_reason = NULL,
+      closed_at = COALESCE(closed_at, now())
+  WHERE id = v_request.id
+  RETURNING forfeited_amount INTO v_balance;
+
+  RETURN jsonb_build_object('user_id', v_request.user_id, 'forfeited_amount', v_balance);
+END;
+$$;
+
+-- Called by the worker once the login and stored files are gone too. Five
+-- years, as required for transaction records by the CBN AML/CFT regulations
+CREATE OR REPLACE FUNCTION public.complete_account_deletion(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.account_deletion_requests
+  SET status = 'completed',
+      completed_at = now(),
+      retain_until = now() + interval '5 years'
+  WHERE id = p_request_id
+    AND status = 'pending'
+    AND closed_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DELETION_NOT_CLOSED';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_account_deletion(uuid) FROM PUBLIC, anon, authenticated;
+
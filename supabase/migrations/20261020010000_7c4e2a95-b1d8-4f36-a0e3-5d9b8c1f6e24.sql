@@ -0,0 +1,10 @@
+-- Remember which purchase an idempotency key is for
+--
+-- A key left 'processing' by a run that died was handed out again after ten
+-- minutes, even if that run had already debited the wallet, so a retry could
+-- charge twice. reference is the one the purchase is debited under, stored
+-- when the key is claimed; a stale key is only claimed again when no debit
+-- with that reference exists.
+
+ALTER TABLE public.idempotency_keys
+ADD COLUMN reference text;
@@ -0,0 +1,85 @@
+-- Trust only the platform's hop for the IP in the admin audit log
+--
+-- The audit trigger took the first X-Forwarded-For entry, which the client
+-- sets, so an admin could put any IP on their own role grants and revokes.
+-- It now reads the address the way the edge functions do: cf-connecting-ip,
+-- else the last X-Forwarded-For hop.
+--
+-- Transfer and requery settings are also changed from the dashboard and were
+-- not audited.
+
+CREATE OR REPLACE FUNCTION public.audit_admin_table_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_before jsonb;
+  v_after jsonb;
+  v_row jsonb;
+  v_action text;
+  v_headers jsonb;
+  v_forwarded text[];
+BEGIN
+  IF v_actor IS NULL OR NOT has_role(v_actor, 'admin'::app_role) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN v_before := to_jsonb(OLD); END IF;
+  IF TG_OP <> 'DELETE' THEN v_after := to_jsonb(NEW); END IF;
+
+  IF v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := COALESCE(v_after, v_before);
+
+  IF TG_TABLE_NAME = 'user_roles' THEN
+    v_action := 'role.' || CASE TG_OP WHEN 'INSERT' THEN 'granted' WHEN 'DELETE' THEN 'revoked' ELSE 'updated' END;
+  ELSE
+    v_action := TG_ARGV[0] || '.' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'DELETE' THEN 'deleted' ELSE 'updated' END;
+  END IF;
+
+  -- Set by the API gateway for requests made through PostgREST
+  v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  v_forwarded := array_remove(string_to_array(replace(v_headers ->> 'x-forwarded-for', ' ', ''), ','), '');
+
+  INSERT INTO public.admin_audit_log (
+    actor_id, actor_email, action, target_type, target_id, target_user_id,
+    before, after, metadata, ip_address, user_agent
+  ) VALUES (
+    v_actor,
+    auth.jwt() ->> 'email',
+    v_action,
+    TG_ARGV[0],
+    v_row ->> 'id',
+    CASE TG_TABLE_NAME
+      WHEN 'user_roles' THEN (v_row ->> 'user_id')::uuid
+      WHEN 'notification_logs' THEN (v_row ->> 'target_user_id')::uuid
+    END,
+    v_before,
+    v_after,
+    jsonb_build_object('table', TG_TABLE_NAME),
+    -- Same as sourceIp in _shared/webhook-security.ts: the client can set the
+    -- first X-Forwarded-For entry, so only the hop the platform added counts
+    COALESCE(
+      NULLIF(trim(v_headers ->> 'cf-connecting-ip'), ''),
+      v_forwarded[array_length(v_forwarded, 1)],
+      v_headers ->> 'x-real-ip'
+    ),
+    v_headers ->> 'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_transfer_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.transfer_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('transfer_settings');
+
+CREATE TRIGGER audit_requery_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.requery_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('requery_settings');
@@ -0,0 +1,46 @@
+-- Send merchant webhooks for transactions created already settled
+--
+-- enqueue_webhook_deliveries only fired on status updates, so deposits,
+-- transfers and airtime-to-cash payouts, which are inserted completed or
+-- failed, never produced an event. It now also fires on insert for rows in
+-- a terminal status; previous_status is null for those.
+
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, user_id, transaction_id, event, payload)
+  SELECT
+    e.id,
+    NEW.user_id,
+    NEW.id,
+    'transaction.' || NEW.status,
+    jsonb_build_object(
+      'event', 'transaction.' || NEW.status,
+      'reference', NEW.reference,
+      'status', NEW.status,
+      'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      'type', NEW.type,
+      'category', NEW.category,
+      'amount', NEW.amount,
+      'description', NEW.description,
+      'failure_reason', NEW.metadata->>'failure_reason',
+      'created_at', NEW.created_at,
+      'updated_at', now()
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.user_id = NEW.user_id
+    AND e.is_active;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_webhook_deliveries_on_insert
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'failed', 'reversed'))
+  EXECUTE FUNCTION public.enqueue_webhook_deliveries();
@@ -0,0 +1,198 @@
+-- Hold deposits above the KYC level's maximum balance
+--
+-- Deposits were credited in full and only warned about a balance over the
+-- level's max_balance. Money that arrives by bank transfer cannot be sent
+-- back from here, so credit_deposit credits the wallet up to the cap and
+-- holds the rest in held_deposits. Customers in their KYC grace period are
+-- not capped. Held amounts are credited once they fit: right after the user
+-- verifies an ID, and by a daily sweep for balances that have come down.
+
+-- No foreign key on user_id, as on wallet_ledger: holds are customer money
+-- and their record outlives the account
+CREATE TABLE public.held_deposits (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  -- The deposit's own reference; each deposit holds at most once
+  reference text NOT NULL UNIQUE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  max_balance numeric NOT NULL,
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'released')),
+  released_transaction_id uuid REFERENCES public.transactions(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  released_at timestamp with time zone
+);
+
+CREATE INDEX idx_held_deposits_user_held ON public.held_deposits (user_id, created_at)
+WHERE status = 'held';
+
+ALTER TABLE public.held_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own held deposits"
+ON public.held_deposits FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view held deposits"
+ON public.held_deposits FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- The most this user's wallet may hold, or null when it is not capped
+CREATE OR REPLACE FUNCTION public.wallet_balance_cap(
+  p_user_id uuid
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE WHEN p.kyc_grace_until > now() THEN NULL ELSE l.max_balance END
+  FROM public.profiles p
+  JOIN public.kyc_levels l ON l.level = p.kyc_level
+  WHERE p.user_id = p_user_id;
+$$;
+
+-- Credit a deposit up to the balance cap and hold the rest. Returns
+-- credit_wallet's result (transaction_id is null when all of it was held)
+-- with the credited and held amounts.
+CREATE OR REPLACE FUNCTION public.credit_deposit(
+  p_user_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_reference text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_balance numeric;
+  v_cap numeric;
+  v_credit numeric;
+  v_held numeric;
+  v_result jsonb;
+BEGIN
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'WALLET_NOT_FOUND';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.held_deposits WHERE reference = p_reference) THEN
+    RAISE EXCEPTION 'DUPLICATE_REFERENCE';
+  END IF;
+
+  v_cap := public.wallet_balance_cap(p_user_id);
+  v_credit := CASE WHEN v_cap IS NULL THEN p_amount ELSE LEAST(p_amount, GREATEST(v_cap - v_balance, 0)) END;
+  v_held := p_amount - v_credit;
+
+  IF v_credit > 0 THEN
+    v_result := public.credit_wallet(
+      p_user_id, v_credit, 'deposit', p_description, p_reference,
+      p_metadata || CASE WHEN v_held > 0 THEN jsonb_build_object('received_amount', p_amount, 'held_amount', v_held) ELSE '{}'::jsonb END,
+      'funding'
+    );
+  ELSE
+    v_result := jsonb_build_object('transaction_id', NULL, 'entry_id', NULL, 'balance', v_balance);
+  END IF;
+
+  IF v_held > 0 THEN
+    INSERT INTO public.held_deposits (user_id, reference, amount, max_balance)
+    VALUES (p_user_id, p_reference, v_held, v_cap);
+  END IF;
+
+  RETURN v_result || jsonb_build_object('credited', v_credit, 'held', v_held);
+END;
+$$;
+
+-- Credit a user's held deposits, oldest first, while they fit under the cap.
+-- Returns the amount released.
+CREATE OR REPLACE FUNCTION public.release_held_deposits(
+  p_user_id uuid
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_balance numeric;
+  v_cap numeric;
+  v_hold record;
+  v_result jsonb;
+  v_released numeric := 0;
+BEGIN
+  -- Blocked and closed accounts keep their holds
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_user_id AND is_blocked) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_cap := public.wallet_balance_cap(p_user_id);
+
+  FOR v_hold IN
+    SELECT * FROM public.held_deposits
+    WHERE user_id = p_user_id AND status = 'held'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_cap IS NOT NULL AND v_balance + v_hold.amount > v_cap;
+
+    v_result := public.credit_wallet(
+      p_user_id, v_hold.amount, 'deposit', 'Held deposit released', v_hold.reference || '-RELEASE',
+      jsonb_build_object('held_deposit_id', v_hold.id, 'deposit_reference', v_hold.reference),
+      'funding'
+    );
+
+    UPDATE public.held_deposits
+    SET status = 'released',
+        released_transaction_id = (v_result->>'transaction_id')::uuid,
+        released_at = now()
+    WHERE id = v_hold.id;
+
+    v_balance := (v_result->>'balance')::numeric;
+    v_released := v_released + v_hold.amount;
+  END LOOP;
+
+  IF v_released > 0 THEN
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (p_user_id, 'Held Deposit Released',
+      'We have credited ₦' || to_char(v_released, 'FM999,999,999,990.##') || ' that was held because of your balance limit.',
+      'success');
+  END IF;
+
+  RETURN v_released;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_all_held_deposits()
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_total numeric := 0;
+BEGIN
+  FOR v_user_id IN SELECT DISTINCT user_id FROM public.held_deposits WHERE status = 'held' LOOP
+    v_total := v_total + public.release_held_deposits(v_user_id);
+  END LOOP;
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_balance_cap(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_deposit(uuid, numeric, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_held_deposits(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_all_held_deposits() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'release-held-deposits',
+  '30 0 * * *',
+  $$SELECT public.release_all_held_deposits()$$
+);
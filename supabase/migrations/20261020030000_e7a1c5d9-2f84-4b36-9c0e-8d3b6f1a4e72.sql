@@ -0,0 +1,12 @@
+-- Audit admin changes to provider service mappings and reconciliation flags
+--
+-- Admins manage provider_service_mappings from the dashboard and resolve
+-- ledger_reconciliation_flags, but neither table had the audit trigger.
+
+CREATE TRIGGER audit_provider_service_mappings
+AFTER INSERT OR UPDATE OR DELETE ON public.provider_service_mappings
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('provider_service_mapping');
+
+CREATE TRIGGER audit_ledger_reconciliation_flags
+AFTER INSERT OR UPDATE OR DELETE ON public.ledger_reconciliation_flags
+FOR EACH ROW EXECUTE FUNCTION public.audit_admin_table_change('reconciliation_flag');
@@ -0,0 +1,59 @@
+-- Decide whether a reversal needs a second admin inside the request
+--
+-- admin-data compared only the amount of the request being made with
+-- approval_threshold. Since partial reversals can be repeated, a large
+-- reversal could be split into requests below the threshold and never wait
+-- for a second admin. request_transaction_reversal now decides, under the
+-- transaction's row lock, from everything reversed or waiting on the
+-- transaction plus this request.
+
+DROP FUNCTION IF EXISTS public.request_transaction_reversal(uuid, numeric, boolean, text, text, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION public.request_transaction_reversal(
+  p_transaction_id uuid,
+  p_amount numeric,
+  p_is_full boolean,
+  p_reason_code text,
+  p_note text,
+  p_requested_by uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+  v_settings public.reversal_settings%ROWTYPE;
+  v_requested numeric;
+  v_reversal_id uuid;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TRANSACTION_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.reversal_settings LIMIT 1;
+
+  SELECT COALESCE(SUM(amount), 0) + p_amount INTO v_requested
+  FROM public.transaction_reversals
+  WHERE transaction_id = v_tx.id
+    AND status IN ('completed', 'pending_approval');
+
+  INSERT INTO public.transaction_reversals (
+    transaction_id, user_id, amount, is_full, reason_code, note, requested_by
+  )
+  VALUES (v_tx.id, v_tx.user_id, p_amount, p_is_full, p_reason_code, p_note, p_requested_by)
+  RETURNING id INTO v_reversal_id;
+
+  IF COALESCE(v_settings.require_second_approval, false) AND v_requested >= v_settings.approval_threshold THEN
+    RETURN jsonb_build_object('reversal_id', v_reversal_id, 'status', 'pending_approval');
+  END IF;
+
+  RETURN public.apply_transaction_reversal(v_reversal_id, NULL)
+    || jsonb_build_object('reversal_id', v_reversal_id, 'status', 'completed');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_transaction_reversal(uuid, numeric, boolean, text, text, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,133 @@
+-- Settle held deposits when an account is closed
+--
+-- close_deleted_account forfeited only the wallet balance, and
+-- release_held_deposits skips closed accounts, so deposits held over the KYC
+-- balance cap stayed open forever. Closure now credits every open hold to the
+-- wallet and forfeits it with the balance, so both legs are on the ledger.
+
+CREATE OR REPLACE FUNCTION public.close_deleted_account(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_request public.account_deletion_requests%ROWTYPE;
+  v_balance numeric;
+  v_hold record;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_request FROM public.account_deletion_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DELETION_NOT_FOUND';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'DELETION_NOT_PENDING';
+  END IF;
+
+  -- A purchase still waiting on its provider may yet be refunded to the wallet
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE user_id = v_request.user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'TRANSACTIONS_PENDING';
+  END IF;
+
+  -- Deposits held over the balance cap are credited first, so they are
+  -- forfeited through the ledger with the rest of the balance
+  FOR v_hold IN
+    SELECT * FROM public.held_deposits
+    WHERE user_id = v_request.user_id AND status = 'held'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    v_result := public.credit_wallet(
+      v_request.user_id, v_hold.amount, 'deposit', 'Held deposit released on account closure', v_hold.reference || '-RELEASE',
+      jsonb_build_object('held_deposit_id', v_hold.id, 'deposit_reference', v_hold.reference, 'deletion_request_id', v_request.id),
+      'funding'
+    );
+
+    UPDATE public.held_deposits
+    SET status = 'released',
+        released_transaction_id = (v_result->>'transaction_id')::uuid,
+        released_at = now()
+    WHERE id = v_hold.id;
+  END LOOP;
+
+  SELECT balance INTO v_balance FROM public.wallets WHERE user_id = v_request.user_id FOR UPDATE;
+  v_balance := COALESCE(v_balance, 0);
+
+  IF v_balance > 0 THEN
+    IF NOT v_request.forfeit_acknowledged THEN
+      RAISE EXCEPTION 'BALANCE_REMAINING';
+    END IF;
+    PERFORM public.debit_wallet(
+      v_request.user_id,
+      v_balance,
+      'account_closure',
+      'Balance forfeited on account closure',
+      'CLOSE-' || v_request.id,
+      jsonb_build_object('deletion_request_id', v_request.id),
+      'forfeited_balances',
+      'completed'
+    );
+  END IF;
+
+  UPDATE public.profiles
+  SET full_name = 'Deleted user',
+      email = NULL,
+      phone = '',
+      avatar_url = NULL,
+      virtual_account_bank = NULL,
+      virtual_account_name = NULL,
+      virtual_account_number = NULL,
+      virtual_account_reference = NULL,
+      date_of_birth = NULL,
+      is_blocked = true
+  WHERE user_id = v_request.user_id;
+
+  DELETE FROM public.push_subscriptions WHERE user_id = v_request.user_id;
+  DELETE FROM public.notifications WHERE user_id = v_request.user_id;
+  DELETE FROM public.beneficiaries WHERE user_id = v_request.user_id;
+  DELETE FROM public.scheduled_purchases WHERE user_id = v_request.user_id;
+  DELETE FROM public.auto_topup_rules WHERE user_id = v_request.user_id;
+  DELETE FROM public.bulk_orders WHERE user_id = v_request.user_id;
+  DELETE FROM public.webhook_endpoints WHERE user_id = v_request.user_id;
+  DELETE FROM public.api_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.transaction_pins WHERE user_id = v_request.user_id;
+  DELETE FROM public.idempotency_keys WHERE user_id = v_request.user_id;
+  DELETE FROM public.phone_otps WHERE user_id = v_request.user_id;
+  DELETE FROM public.trusted_devices WHERE user_id = v_request.user_id;
+
+  -- The outcome of each check is kept; the ID itself is freed so the person can verify a new account
+  UPDATE public.kyc_verifications
+  SET id_number_hash = 'removed:' || id,
+      returned_name = NULL,
+      returned_dob = NULL
+  WHERE user_id = v_request.user_id;
+
+  -- The screenshots themselves are removed from storage by the worker
+  UPDATE public.airtime_cash_requests
+  SET sender_phone = '',
+      proof_path = NULL
+  WHERE user_id = v_request.user_id;
+
+  -- Keep amounts, categories and references; drop who and what was bought for
+  UPDATE public.transactions
+  SET description = regexp_replace(description, '\d{10,}', '[removed]', 'g'),
+      metadata = (COALESCE(metadata, '{}'::jsonb) - ARRAY[
+        'phone_number', 'phone', 'meter_number', 'smartcard_number', 'customer_name',
+        'customer_address', 'sender_name', 'recipient_name', 'narration', 'token', 'pins',
+        'raw', 'sender_account', 'recipient_account', 'receiver_account_number'
+      ]) || jsonb_build_object('anonymised', true)
+  WHERE user_id = v_request.user_id;
+
+  -- Forfeiture happens on the first run only; a retry finds the wallet empty
+  UPDATE public.account_deletion_requests
+  SET forfeited_amount = COALESCE(forfeited_amount, 0) + v_balance,
+      held_reason = NULL,
+      closed_at = COALESCE(closed_at, now())
+  WHERE id = v_request.id
+  RETURNING forfeited_amount INTO v_balance;
+
+  RETURN jsonb_build_object('user_id', v_request.user_id, 'forfeited_amount', v_balance);
+END;
+$$;